@@ -17,11 +17,25 @@ export default [
         HTMLElement: "readonly",
         HTMLInputElement: "readonly",
         HTMLDivElement: "readonly",
+        HTMLTextAreaElement: "readonly",
         DOMRect: "readonly",
         window: "readonly",
         document: "readonly",
         Phaser: "readonly",
         localStorage: "readonly",
+        IDBDatabase: "readonly",
+        IDBFactory: "readonly",
+        navigator: "readonly",
+        crypto: "readonly",
+        URL: "readonly",
+        Blob: "readonly",
+        Response: "readonly",
+        TextEncoder: "readonly",
+        TextDecoder: "readonly",
+        CompressionStream: "readonly",
+        DecompressionStream: "readonly",
+        btoa: "readonly",
+        atob: "readonly",
         __BUILD_DATE__: "readonly",
       },
     },
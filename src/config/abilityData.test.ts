@@ -0,0 +1,87 @@
+/**
+ * Unit tests for ability evolutions
+ */
+import { describe, it, expect } from "vitest";
+import { PlayerStats } from "../systems/PlayerStats";
+import {
+  ABILITIES,
+  ABILITY_EVOLUTIONS,
+  getAbilityById,
+  getEvolutionsForAbility,
+  getUnlockedEvolutions,
+  isEvolution,
+} from "./abilityData";
+
+describe("abilityData evolutions", () => {
+  describe("ABILITY_EVOLUTIONS", () => {
+    it("should fuse two different existing abilities at reachable levels", () => {
+      for (const evolution of ABILITY_EVOLUTIONS) {
+        const [first, second] = evolution.requires;
+        expect(first.abilityId, evolution.id).not.toBe(second.abilityId);
+        for (const req of evolution.requires) {
+          const ability = ABILITIES.find((a) => a.id === req.abilityId);
+          expect(ability, `${evolution.id} -> ${req.abilityId}`).toBeDefined();
+          expect(req.level).toBeGreaterThan(0);
+          expect(req.level).toBeLessThanOrEqual(ability!.maxLevel ?? Infinity);
+        }
+      }
+    });
+
+    it("should be one-time cards with ids distinct from regular abilities", () => {
+      const abilityIds = new Set(ABILITIES.map((a) => a.id));
+      for (const evolution of ABILITY_EVOLUTIONS) {
+        expect(evolution.maxLevel, evolution.id).toBe(1);
+        expect(abilityIds.has(evolution.id), evolution.id).toBe(false);
+      }
+    });
+  });
+
+  describe("getUnlockedEvolutions()", () => {
+    it("should stay locked until both requirements are met", () => {
+      expect(getUnlockedEvolutions({})).toEqual([]);
+      expect(getUnlockedEvolutions({ fire_damage: 5, explosive_arrows: 2 })).toEqual([]);
+      expect(
+        getUnlockedEvolutions({ fire_damage: 3, explosive_arrows: 3 }).map((e) => e.id),
+      ).toEqual(["inferno_burst"]);
+    });
+
+    it("should not offer an evolution that was already taken", () => {
+      expect(
+        getUnlockedEvolutions({ rotating_orbs: 5, lightning_chain: 2, storm_orbs: 1 }),
+      ).toEqual([]);
+    });
+  });
+
+  describe("lookups", () => {
+    it("should find evolutions by id", () => {
+      const evolution = getAbilityById("storm_orbs");
+      expect(evolution?.name).toBe("Storm Orbs");
+      expect(evolution && isEvolution(evolution)).toBe(true);
+      expect(isEvolution(getAbilityById("rotating_orbs")!)).toBe(false);
+    });
+
+    it("should list the evolutions an ability leads to", () => {
+      expect(getEvolutionsForAbility("lightning_chain").map((e) => e.id)).toEqual(["storm_orbs"]);
+      expect(getEvolutionsForAbility("front_arrow")).toEqual([]);
+    });
+  });
+
+  describe("effects", () => {
+    it("should grow explosions with Inferno Burst", () => {
+      const stats = new PlayerStats();
+      for (let i = 0; i < 3; i++) stats.applyAbility("explosive_arrows");
+      expect(stats.getExplosiveArrowRadius()).toBe(60);
+
+      expect(stats.applyAbility("inferno_burst")).toBe(true);
+      expect(stats.hasInfernoBurst()).toBe(true);
+      expect(stats.getExplosiveArrowRadius()).toBe(90);
+    });
+
+    it("should enable Storm Orbs once", () => {
+      const stats = new PlayerStats();
+      expect(stats.applyAbility("storm_orbs")).toBe(true);
+      expect(stats.hasStormOrbs()).toBe(true);
+      expect(stats.applyAbility("storm_orbs")).toBe(false);
+    });
+  });
+});
@@ -1,8 +1,172 @@
 /**
  * Ability data definitions for the game.
  * Extracted to a separate config file to avoid circular dependencies.
+ *
+ * Each ability declares what it does as a list of effects, applied by
+ * AbilityEffectRegistry every time the ability is taken:
+ * - stat: modify one of the player's AbilityStatIds (add / multiply / set, optional cap)
+ * - maxHealth: scale max HP (healing the gain) or cap it
+ * - hook: run an action on a gameplay event (on hit, on kill, on room clear)
+ *
+ * Evolutions (ABILITY_EVOLUTIONS) are one-time abilities unlocked by raising
+ * two specific abilities to a threshold level.
  */
 
+// ============================================
+// Effect Types
+// ============================================
+
+/**
+ * Player stats that abilities can modify (see PlayerStats for how each is used)
+ */
+export type AbilityStatId =
+  | "extraProjectiles"
+  | "multishotCount"
+  | "piercingLevel"
+  | "ricochetBounces"
+  | "damageMultiplier"
+  | "attackSpeedMultiplier"
+  | "fireDamagePercent"
+  | "critChance"
+  | "critDamageMultiplier"
+  | "dodgeChance"
+  | "freezeChance"
+  | "poisonDamagePercent"
+  | "bleedDamagePercent"
+  | "lightningChainCount"
+  | "diagonalArrows"
+  | "bloodthirstHealPercent"
+  | "movementSpeedMultiplier"
+  | "maxHealthMultiplier"
+  | "extraLives"
+  | "rotatingOrbCount"
+  | "orbitalShieldCount"
+  | "spiritPetCount"
+  | "deathNovaLevel"
+  | "homingStrength"
+  | "explosiveArrowLevel"
+  | "shieldBarrierLevel"
+  | "knockbackStrength"
+  | "hordeMagnetLevel"
+  | "mobileFireLevel"
+  // Flags (0 = off, 1 = on)
+  | "throughWall"
+  | "ascetic"
+  | "glassCannon"
+  // Evolution flags
+  | "infernoBurst"
+  | "stormOrbs";
+
+export type AbilityStatValues = Record<AbilityStatId, number>;
+
+/**
+ * Stat values at the start of a run, before any ability is taken
+ */
+export const ABILITY_STAT_DEFAULTS: Readonly<AbilityStatValues> = {
+  extraProjectiles: 0,
+  multishotCount: 0,
+  piercingLevel: 0,
+  ricochetBounces: 0,
+  damageMultiplier: 1.0,
+  attackSpeedMultiplier: 1.0,
+  fireDamagePercent: 0,
+  critChance: 0,
+  critDamageMultiplier: 1.5,
+  dodgeChance: 0,
+  freezeChance: 0,
+  poisonDamagePercent: 0,
+  bleedDamagePercent: 0,
+  lightningChainCount: 0,
+  diagonalArrows: 0,
+  bloodthirstHealPercent: 0,
+  movementSpeedMultiplier: 1.0,
+  maxHealthMultiplier: 1.0,
+  extraLives: 0,
+  rotatingOrbCount: 0,
+  orbitalShieldCount: 0,
+  spiritPetCount: 0,
+  deathNovaLevel: 0,
+  homingStrength: 0,
+  explosiveArrowLevel: 0,
+  shieldBarrierLevel: 0,
+  knockbackStrength: 0,
+  hordeMagnetLevel: 0,
+  mobileFireLevel: 0,
+  throughWall: 0,
+  ascetic: 0,
+  glassCannon: 0,
+  infernoBurst: 0,
+  stormOrbs: 0,
+};
+
+/**
+ * How a stat modifier stacks with what the stat already is
+ * - add: stat += value
+ * - multiply: stat *= value
+ * - set: stat = value (flags)
+ */
+export type StatStacking = "add" | "multiply" | "set";
+
+/**
+ * Modify one player stat each time the ability is taken
+ */
+export interface StatModifierEffect {
+  kind: "stat";
+  stat: AbilityStatId;
+  stacking: StatStacking;
+  /** Amount per level, or a per-level table (index 0 = level 1, the last entry repeats) */
+  value: number | number[];
+  /** Upper bound after stacking */
+  cap?: number;
+}
+
+/**
+ * Change max HP
+ * - multiply: max HP *= value, healing the HP gained
+ * - cap: max HP (and current HP) lowered to at most value
+ */
+export interface MaxHealthEffect {
+  kind: "maxHealth";
+  mode: "multiply" | "cap";
+  value: number;
+}
+
+/**
+ * Gameplay events abilities can react to
+ */
+export type AbilityHookId = "onHit" | "onKill" | "onRoomClear";
+
+/**
+ * Run an action on a gameplay event while the ability is owned
+ */
+export interface AbilityHookEffect {
+  kind: "hook";
+  hook: AbilityHookId;
+  /** healPercentOfMaxHealth: heal max HP * the stat's current value */
+  action: "healPercentOfMaxHealth";
+  stat: AbilityStatId;
+}
+
+export type AbilityEffect = StatModifierEffect | MaxHealthEffect | AbilityHookEffect;
+
+function addStat(stat: AbilityStatId, value: number | number[], cap?: number): StatModifierEffect {
+  return cap === undefined
+    ? { kind: "stat", stat, stacking: "add", value }
+    : { kind: "stat", stat, stacking: "add", value, cap };
+}
+
+function multiplyStat(stat: AbilityStatId, value: number | number[]): StatModifierEffect {
+  return { kind: "stat", stat, stacking: "multiply", value };
+}
+
+function setStat(stat: AbilityStatId, value: number): StatModifierEffect {
+  return { kind: "stat", stat, stacking: "set", value };
+}
+
+// ============================================
+// Abilities
+// ============================================
+
 export interface AbilityData {
   id: string;
   name: string;
@@ -10,6 +174,8 @@ export interface AbilityData {
   color: number;
   iconKey: string;
   maxLevel?: number; // Maximum level for this ability (undefined = unlimited stacking)
+  /** What taking one level of the ability does */
+  effects: AbilityEffect[];
 }
 
 export const ABILITIES: AbilityData[] = [
@@ -20,6 +186,7 @@ export const ABILITIES: AbilityData[] = [
     description: "+1 arrow",
     color: 0x44aaff,
     iconKey: "abilityFrontArrow",
+    effects: [addStat("extraProjectiles", 1)],
   },
   {
     id: "multishot",
@@ -27,6 +194,7 @@ export const ABILITIES: AbilityData[] = [
     description: "+2 side arrows",
     color: 0xff6644,
     iconKey: "abilityMultishot",
+    effects: [addStat("multishotCount", 1)],
   },
   {
     id: "attack_speed",
@@ -34,6 +202,7 @@ export const ABILITIES: AbilityData[] = [
     description: "+25% speed",
     color: 0xffdd00,
     iconKey: "abilityAttackSpeed",
+    effects: [multiplyStat("attackSpeedMultiplier", 1.25)],
   },
   {
     id: "attack_boost",
@@ -41,6 +210,7 @@ export const ABILITIES: AbilityData[] = [
     description: "+30% damage",
     color: 0xff4488,
     iconKey: "abilityAttackBoost",
+    effects: [multiplyStat("damageMultiplier", 1.3)],
   },
   {
     id: "piercing",
@@ -48,6 +218,7 @@ export const ABILITIES: AbilityData[] = [
     description: "Pass through enemies",
     color: 0x00ffaa,
     iconKey: "abilityPiercing",
+    effects: [addStat("piercingLevel", 1)],
   },
   {
     id: "ricochet",
@@ -55,6 +226,7 @@ export const ABILITIES: AbilityData[] = [
     description: "Bounce 3x",
     color: 0x88ff88,
     iconKey: "abilityRicochet",
+    effects: [addStat("ricochetBounces", 3)],
   },
   {
     id: "fire_damage",
@@ -62,6 +234,7 @@ export const ABILITIES: AbilityData[] = [
     description: "18% DOT, spreads on death",
     color: 0xff6600,
     iconKey: "abilityFireDamage",
+    effects: [addStat("fireDamagePercent", 0.18)],
   },
   {
     id: "crit_boost",
@@ -69,6 +242,7 @@ export const ABILITIES: AbilityData[] = [
     description: "+10% crit, +40% dmg",
     color: 0xffff00,
     iconKey: "abilityCrit",
+    effects: [addStat("critChance", 0.1, 1), multiplyStat("critDamageMultiplier", 1.4)],
   },
   // New 8 abilities for V1
   {
@@ -77,6 +251,7 @@ export const ABILITIES: AbilityData[] = [
     description: "15% freeze, +50% dmg frozen",
     color: 0x66ccff,
     iconKey: "abilityIceShot",
+    effects: [addStat("freezeChance", 0.15, 1)],
   },
   {
     id: "poison_shot",
@@ -84,6 +259,7 @@ export const ABILITIES: AbilityData[] = [
     description: "10% DOT, stacks 5x",
     color: 0x66ff66,
     iconKey: "abilityPoisonShot",
+    effects: [addStat("poisonDamagePercent", 0.1)],
   },
   {
     id: "lightning_chain",
@@ -91,6 +267,7 @@ export const ABILITIES: AbilityData[] = [
     description: "Chain +2, -20% dmg/chain",
     color: 0x9966ff,
     iconKey: "abilityLightningChain",
+    effects: [addStat("lightningChainCount", 2)],
   },
   {
     id: "diagonal_arrows",
@@ -98,6 +275,7 @@ export const ABILITIES: AbilityData[] = [
     description: "+2 arrows at 30°",
     color: 0xff9966,
     iconKey: "abilityDiagonalArrows",
+    effects: [addStat("diagonalArrows", 2)],
   },
   {
     id: "bloodthirst",
@@ -105,6 +283,15 @@ export const ABILITIES: AbilityData[] = [
     description: "+1% max HP per kill",
     color: 0xff3333,
     iconKey: "abilityBloodthirst",
+    effects: [
+      addStat("bloodthirstHealPercent", 0.01, 0.05),
+      {
+        kind: "hook",
+        hook: "onKill",
+        action: "healPercentOfMaxHealth",
+        stat: "bloodthirstHealPercent",
+      },
+    ],
     maxLevel: 5,
   },
   {
@@ -113,6 +300,10 @@ export const ABILITIES: AbilityData[] = [
     description: "+15% move, +5% attack speed",
     color: 0x00ffff,
     iconKey: "abilitySpeedBoost",
+    effects: [
+      multiplyStat("movementSpeedMultiplier", 1.15),
+      multiplyStat("attackSpeedMultiplier", 1.05),
+    ],
   },
   {
     id: "max_health",
@@ -120,6 +311,10 @@ export const ABILITIES: AbilityData[] = [
     description: "+15% max HP",
     color: 0x22cc66,
     iconKey: "abilityMaxHealth",
+    effects: [
+      { kind: "maxHealth", mode: "multiply", value: 1.15 },
+      multiplyStat("maxHealthMultiplier", 1.15),
+    ],
   },
   {
     id: "dodge_master",
@@ -127,6 +322,7 @@ export const ABILITIES: AbilityData[] = [
     description: "+3% dodge chance",
     color: 0xaaaaff,
     iconKey: "abilityDodgeMaster",
+    effects: [addStat("dodgeChance", 0.03, 0.15)],
     maxLevel: 5, // 3% × 5 = 15% cap
   },
   // Devil abilities (powerful but with HP cost or risk)
@@ -136,6 +332,7 @@ export const ABILITIES: AbilityData[] = [
     description: "Revive once at 30% HP",
     color: 0xff3366,
     iconKey: "abilityExtraLife",
+    effects: [addStat("extraLives", 1)],
     maxLevel: 1, // Can only have 1 extra life at a time
   },
   {
@@ -144,6 +341,7 @@ export const ABILITIES: AbilityData[] = [
     description: "Arrows pass through walls",
     color: 0x9933ff,
     iconKey: "abilityThroughWall",
+    effects: [setStat("throughWall", 1)],
     maxLevel: 1, // Non-stacking ability
   },
   // Note: Shatter and Fire Spread are now passive effects:
@@ -155,6 +353,7 @@ export const ABILITIES: AbilityData[] = [
     description: "10% DOT, 2x if moving",
     color: 0xcc0000,
     iconKey: "abilityBleed",
+    effects: [addStat("bleedDamagePercent", 0.1)],
   },
   // New orbital and effect abilities
   {
@@ -163,6 +362,7 @@ export const ABILITIES: AbilityData[] = [
     description: "+1 orb orbits player",
     color: 0xff8800,
     iconKey: "abilityRotatingOrbs",
+    effects: [addStat("rotatingOrbCount", 1, 5)],
     maxLevel: 5,
   },
   {
@@ -171,6 +371,7 @@ export const ABILITIES: AbilityData[] = [
     description: "+1 shield blocks bullets",
     color: 0x00aaff,
     iconKey: "abilityOrbitalShields",
+    effects: [addStat("orbitalShieldCount", 1, 3)],
     maxLevel: 3,
   },
   {
@@ -179,6 +380,7 @@ export const ABILITIES: AbilityData[] = [
     description: "+1 homing wisp",
     color: 0xaa66ff,
     iconKey: "abilitySpiritPets",
+    effects: [addStat("spiritPetCount", 1, 5)],
     maxLevel: 5,
   },
   {
@@ -187,6 +389,7 @@ export const ABILITIES: AbilityData[] = [
     description: "AOE on enemy kill",
     color: 0x660066,
     iconKey: "abilityDeathNova",
+    effects: [addStat("deathNovaLevel", 1, 3)],
     maxLevel: 3,
   },
   {
@@ -195,6 +398,7 @@ export const ABILITIES: AbilityData[] = [
     description: "Bullets track enemies",
     color: 0x00ff88,
     iconKey: "abilityHomingArrows",
+    effects: [addStat("homingStrength", 0.15, 0.45)],
     maxLevel: 3,
   },
   {
@@ -203,6 +407,7 @@ export const ABILITIES: AbilityData[] = [
     description: "AOE on bullet impact",
     color: 0xff4400,
     iconKey: "abilityExplosiveArrows",
+    effects: [addStat("explosiveArrowLevel", 1, 3)],
     maxLevel: 3,
   },
   {
@@ -211,6 +416,7 @@ export const ABILITIES: AbilityData[] = [
     description: "Absorbs damage",
     color: 0x4488ff,
     iconKey: "abilityShieldBarrier",
+    effects: [addStat("shieldBarrierLevel", 1, 3)],
     maxLevel: 3,
   },
   {
@@ -219,6 +425,7 @@ export const ABILITIES: AbilityData[] = [
     description: "Push enemies on hit",
     color: 0x888888,
     iconKey: "abilityKnockback",
+    effects: [addStat("knockbackStrength", 1, 3)],
     maxLevel: 3,
   },
   // Game Modifier Abilities (Risk/Reward)
@@ -228,6 +435,7 @@ export const ABILITIES: AbilityData[] = [
     description: "No healing, +200% XP gain",
     color: 0xff0066,
     iconKey: "abilityAscetic",
+    effects: [setStat("ascetic", 1)],
     maxLevel: 1,
   },
   {
@@ -236,6 +444,7 @@ export const ABILITIES: AbilityData[] = [
     description: "+50% enemies, +100% XP gain",
     color: 0xcc3300,
     iconKey: "abilityHordeMagnet",
+    effects: [addStat("hordeMagnetLevel", 1)],
     // No maxLevel - can stack infinitely for extreme challenge
   },
   // Movement Abilities
@@ -245,6 +454,7 @@ export const ABILITIES: AbilityData[] = [
     description: "Shoot while moving",
     color: 0x33ccff,
     iconKey: "abilityMobileFire",
+    effects: [addStat("mobileFireLevel", 1, 3)],
     maxLevel: 3, // L1: 33%, L2: 67%, L3: 100% attack speed while moving
   },
   // Glass Cannon Ability (Risk/Reward)
@@ -254,13 +464,99 @@ export const ABILITIES: AbilityData[] = [
     description: "Cap base HP at 100, +100% dmg/speed, +10% crit",
     color: 0xff00ff,
     iconKey: "abilityGlassCannon",
+    effects: [
+      setStat("glassCannon", 1),
+      { kind: "maxHealth", mode: "cap", value: 100 },
+      multiplyStat("damageMultiplier", 2),
+      multiplyStat("attackSpeedMultiplier", 2),
+      addStat("critChance", 0.1, 1),
+    ],
     maxLevel: 1, // Non-stacking ability
   },
 ];
 
+// ============================================
+// Evolutions
+// ============================================
+
+/**
+ * An ability level an evolution needs before it is offered
+ */
+export interface AbilityEvolutionRequirement {
+  abilityId: string;
+  level: number;
+}
+
 /**
- * Get ability data by ID
+ * Evolution: fuses two abilities into a stronger one-time card. Once both
+ * requirements are met it is offered at every level-up until taken, and is
+ * then tracked and applied like any other ability.
+ */
+export interface AbilityEvolutionData extends AbilityData {
+  requires: readonly [AbilityEvolutionRequirement, AbilityEvolutionRequirement];
+}
+
+export const ABILITY_EVOLUTIONS: AbilityEvolutionData[] = [
+  {
+    id: "inferno_burst",
+    name: "Inferno Burst",
+    description: "Explosions +50% size, ignite all hit",
+    color: 0xffaa00,
+    iconKey: "abilityExplosiveArrows",
+    effects: [setStat("infernoBurst", 1)],
+    maxLevel: 1,
+    requires: [
+      { abilityId: "fire_damage", level: 3 },
+      { abilityId: "explosive_arrows", level: 3 },
+    ],
+  },
+  {
+    id: "storm_orbs",
+    name: "Storm Orbs",
+    description: "Orb hits chain lightning",
+    color: 0xbb88ff,
+    iconKey: "abilityRotatingOrbs",
+    effects: [setStat("stormOrbs", 1)],
+    maxLevel: 1,
+    requires: [
+      { abilityId: "rotating_orbs", level: 5 },
+      { abilityId: "lightning_chain", level: 2 },
+    ],
+  },
+];
+
+/**
+ * Get ability data by ID (evolutions included)
  */
 export function getAbilityById(abilityId: string): AbilityData | undefined {
-  return ABILITIES.find((a) => a.id === abilityId);
+  return (
+    ABILITIES.find((a) => a.id === abilityId) ?? ABILITY_EVOLUTIONS.find((e) => e.id === abilityId)
+  );
+}
+
+export function isEvolution(ability: AbilityData): ability is AbilityEvolutionData {
+  return "requires" in ability;
+}
+
+/**
+ * Evolutions whose requirements are met and that have not been taken yet
+ * @param abilityLevels Current level of each ability (missing = 0)
+ */
+export function getUnlockedEvolutions(
+  abilityLevels: Record<string, number>,
+): AbilityEvolutionData[] {
+  return ABILITY_EVOLUTIONS.filter(
+    (evolution) =>
+      (abilityLevels[evolution.id] ?? 0) === 0 &&
+      evolution.requires.every((req) => (abilityLevels[req.abilityId] ?? 0) >= req.level),
+  );
+}
+
+/**
+ * Evolutions an ability is one of the two ingredients of
+ */
+export function getEvolutionsForAbility(abilityId: string): AbilityEvolutionData[] {
+  return ABILITY_EVOLUTIONS.filter((evolution) =>
+    evolution.requires.some((req) => req.abilityId === abilityId),
+  );
 }
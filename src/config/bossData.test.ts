@@ -0,0 +1,173 @@
+/**
+ * Unit tests for boss scripts
+ */
+import { describe, it, expect } from "vitest";
+import { SeededRandom } from "../systems/SeededRandom";
+import {
+  BOSS_DEFINITIONS,
+  BossScript,
+  BossScriptPhase,
+  getScriptPhaseIndex,
+  pickScriptedPatternIndex,
+  validateBossScript,
+} from "./bossData";
+
+function createPhase(overrides: Partial<BossScriptPhase> = {}): BossScriptPhase {
+  return {
+    name: "Test",
+    hpThreshold: 1,
+    selection: "sequence",
+    patterns: [
+      { pattern: "spread", telegraphMs: 500 },
+      { pattern: "barrage", telegraphMs: 500 },
+      { pattern: "charge", telegraphMs: 500 },
+    ],
+    ...overrides,
+  };
+}
+
+describe("bossData scripts", () => {
+  describe("BOSS_DEFINITIONS", () => {
+    it("should only contain valid scripts", () => {
+      for (const boss of Object.values(BOSS_DEFINITIONS)) {
+        if (!boss.script) continue;
+        expect(validateBossScript(boss.script, boss.attackPatterns), boss.id).toEqual([]);
+      }
+    });
+
+    it("should script the demon", () => {
+      expect(BOSS_DEFINITIONS.demon.script?.phases.map((phase) => phase.name)).toEqual([
+        "Awakened",
+        "Enraged",
+      ]);
+    });
+  });
+
+  describe("validateBossScript()", () => {
+    const attackPatterns = ["spread", "barrage", "charge", "laser_beam"] as const;
+
+    it("should reject a script without phases", () => {
+      expect(validateBossScript({ phases: [] }, [...attackPatterns])).toEqual([
+        "script has no phases",
+      ]);
+    });
+
+    it("should require the first phase to start at full HP", () => {
+      const errors = validateBossScript({ phases: [createPhase({ hpThreshold: 0.8 })] }, [
+        ...attackPatterns,
+      ]);
+      expect(errors).toEqual(['first phase "Test" must start at hpThreshold 1']);
+    });
+
+    it("should require descending thresholds", () => {
+      const script: BossScript = {
+        phases: [createPhase(), createPhase({ name: "Late", hpThreshold: 1 })],
+      };
+      expect(validateBossScript(script, [...attackPatterns])).toContain(
+        'phase "Late" hpThreshold must be below the previous phase',
+      );
+    });
+
+    it("should reject patterns the interpreter cannot run or the boss does not list", () => {
+      const script: BossScript = {
+        phases: [
+          createPhase({
+            patterns: [
+              { pattern: "laser_beam", telegraphMs: 500 },
+              { pattern: "teleport", telegraphMs: 500 },
+            ],
+          }),
+        ],
+      };
+      expect(validateBossScript(script, [...attackPatterns])).toEqual([
+        'phase "Test" uses "laser_beam", which ScriptedBoss cannot run',
+        'phase "Test" uses "teleport", which is missing from attackPatterns',
+      ]);
+    });
+
+    it("should reject bad weights, cooldowns and telegraphs", () => {
+      const script: BossScript = {
+        phases: [
+          createPhase({
+            patterns: [{ pattern: "spread", weight: 0, cooldown: -1, telegraphMs: -1 }],
+          }),
+        ],
+      };
+      expect(validateBossScript(script, [...attackPatterns])).toEqual([
+        'phase "Test" "spread" weight must be positive',
+        'phase "Test" "spread" cooldown must not be negative',
+        'phase "Test" "spread" telegraphMs must not be negative',
+      ]);
+    });
+  });
+
+  describe("getScriptPhaseIndex()", () => {
+    const script: BossScript = {
+      phases: [createPhase(), createPhase({ hpThreshold: 0.6 }), createPhase({ hpThreshold: 0.2 })],
+    };
+
+    it("should pick the lowest threshold the HP has reached", () => {
+      expect(getScriptPhaseIndex(script, 1)).toBe(0);
+      expect(getScriptPhaseIndex(script, 0.61)).toBe(0);
+      expect(getScriptPhaseIndex(script, 0.6)).toBe(1);
+      expect(getScriptPhaseIndex(script, 0.3)).toBe(1);
+      expect(getScriptPhaseIndex(script, 0.2)).toBe(2);
+      expect(getScriptPhaseIndex(script, 0)).toBe(2);
+    });
+  });
+
+  describe("pickScriptedPatternIndex()", () => {
+    it("should cycle sequence phases in order", () => {
+      const phase = createPhase();
+      const rng = new SeededRandom(1);
+      const picks: number[] = [];
+      let previous = -1;
+      for (let i = 0; i < 5; i++) {
+        previous = pickScriptedPatternIndex(phase, rng, previous);
+        picks.push(previous);
+      }
+      expect(picks).toEqual([0, 1, 2, 0, 1]);
+    });
+
+    it("should never repeat a pattern back to back in weighted phases", () => {
+      const phase = createPhase({
+        selection: "weighted",
+        patterns: [
+          { pattern: "spread", weight: 10, telegraphMs: 500 },
+          { pattern: "barrage", weight: 1, telegraphMs: 500 },
+        ],
+      });
+      const rng = new SeededRandom(3);
+      let previous = -1;
+      for (let i = 0; i < 50; i++) {
+        const next = pickScriptedPatternIndex(phase, rng, previous);
+        expect(next).not.toBe(previous);
+        previous = next;
+      }
+    });
+
+    it("should follow weights", () => {
+      const phase = createPhase({
+        selection: "weighted",
+        patterns: [
+          { pattern: "spread", weight: 3, telegraphMs: 500 },
+          { pattern: "barrage", weight: 1, telegraphMs: 500 },
+        ],
+      });
+      const rng = new SeededRandom(42);
+      let spreads = 0;
+      for (let i = 0; i < 2000; i++) {
+        if (pickScriptedPatternIndex(phase, rng, -1) === 0) spreads++;
+      }
+      expect(spreads / 2000).toBeCloseTo(0.75, 1);
+    });
+
+    it("should allow the only pattern to repeat", () => {
+      const phase = createPhase({
+        selection: "weighted",
+        patterns: [{ pattern: "spread", telegraphMs: 500 }],
+      });
+      expect(pickScriptedPatternIndex(phase, new SeededRandom(1), 0)).toBe(0);
+    });
+  });
+});
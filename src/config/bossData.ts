@@ -4,6 +4,7 @@
  */
 
 import { ChapterId } from "./chapterData";
+import type { SeededRandom } from "../systems/SeededRandom";
 
 // ============================================
 // Type Definitions
@@ -63,6 +64,66 @@ export type AttackPatternType =
   | "spawn_turrets"
   | "crystal_shatter";
 
+/**
+ * Attack patterns the generic ScriptedBoss interpreter can run.
+ * Bosses with a script may only use these.
+ */
+export const SCRIPTED_ATTACK_PATTERNS = [
+  "idle",
+  "spread",
+  "barrage",
+  "charge",
+  "fast_charge",
+  "ground_stomp",
+  "leaf_storm",
+  "ice_barrage",
+  "summon_minions",
+  "teleport",
+] as const satisfies readonly AttackPatternType[];
+
+export type ScriptedAttackPatternType = (typeof SCRIPTED_ATTACK_PATTERNS)[number];
+
+/**
+ * One attack a scripted boss phase can pick
+ */
+export interface BossPatternStep {
+  pattern: AttackPatternType;
+  /** Relative pick chance in weighted phases (default 1) */
+  weight?: number;
+  /** Idle time after this attack in ms (default stats.attackCooldown) */
+  cooldown?: number;
+  /** Wind-up warning shown before the attack fires, in ms */
+  telegraphMs: number;
+}
+
+/**
+ * How a phase picks its next attack
+ * - sequence: cycle through patterns in order
+ * - weighted: random pick by weight, never the same pattern twice in a row
+ */
+export type BossPatternSelection = "sequence" | "weighted";
+
+/**
+ * A stretch of the fight, entered once boss HP drops to its threshold
+ */
+export interface BossScriptPhase {
+  name: string;
+  /** HP fraction (0-1] at or below which this phase starts. The first phase must be 1. */
+  hpThreshold: number;
+  selection: BossPatternSelection;
+  patterns: BossPatternStep[];
+  /** Projectile speed multiplier while in this phase (default 1) */
+  projectileSpeedMultiplier?: number;
+}
+
+/**
+ * Declarative boss behaviour run by ScriptedBoss
+ */
+export interface BossScript {
+  /** Ordered by descending hpThreshold */
+  phases: BossScriptPhase[];
+}
+
 /**
  * Boss base stats
  */
@@ -117,6 +178,8 @@ export interface BossDefinition {
   visuals: BossVisuals;
   /** Attack pattern sequence */
   attackPatterns: AttackPatternType[];
+  /** Data-driven behaviour. Bosses with a script are spawned as ScriptedBoss. */
+  script?: BossScript;
 }
 
 // ============================================
@@ -149,6 +212,31 @@ export const BOSS_DEFINITIONS: Record<BossId, BossDefinition> = {
       placeholderColor: 0x990000,
     },
     attackPatterns: ["spread", "barrage", "charge"],
+    script: {
+      phases: [
+        {
+          name: "Awakened",
+          hpThreshold: 1,
+          selection: "sequence",
+          patterns: [
+            { pattern: "spread", telegraphMs: 500 },
+            { pattern: "barrage", telegraphMs: 800 },
+            { pattern: "charge", telegraphMs: 600 },
+          ],
+        },
+        {
+          name: "Enraged",
+          hpThreshold: 0.5,
+          selection: "weighted",
+          projectileSpeedMultiplier: 1.2,
+          patterns: [
+            { pattern: "spread", weight: 2, cooldown: 1400, telegraphMs: 400 },
+            { pattern: "barrage", weight: 3, cooldown: 1200, telegraphMs: 600 },
+            { pattern: "charge", weight: 2, cooldown: 1400, telegraphMs: 450 },
+          ],
+        },
+      ],
+    },
   },
 
   // ==========================================
@@ -481,19 +569,6 @@ export function getMainBossForChapter(chapterId: ChapterId): BossDefinition | un
   );
 }
 
-/**
- * Get a random boss for a chapter (for variety)
- */
-export function getRandomBossForChapter(chapterId: ChapterId): BossDefinition {
-  const chapterBosses = getBossesForChapter(chapterId);
-  if (chapterBosses.length === 0) {
-    // Fallback to demon if no bosses defined for chapter
-    return BOSS_DEFINITIONS.demon;
-  }
-  const randomIndex = Math.floor(Math.random() * chapterBosses.length);
-  return chapterBosses[randomIndex];
-}
-
 /**
  * Get all boss IDs
  */
@@ -507,3 +582,99 @@ export function getAllBossIds(): BossId[] {
 export function isValidBossId(id: string): id is BossId {
   return id in BOSS_DEFINITIONS;
 }
+
+// ============================================
+// Boss Scripts
+// ============================================
+
+/**
+ * Check a boss script for authoring mistakes.
+ * Returns a list of problems (empty when the script is valid).
+ */
+export function validateBossScript(
+  script: BossScript,
+  attackPatterns: AttackPatternType[],
+): string[] {
+  const errors: string[] = [];
+  const supported: readonly AttackPatternType[] = SCRIPTED_ATTACK_PATTERNS;
+
+  if (script.phases.length === 0) {
+    errors.push("script has no phases");
+    return errors;
+  }
+  if (script.phases[0].hpThreshold !== 1) {
+    errors.push(`first phase "${script.phases[0].name}" must start at hpThreshold 1`);
+  }
+
+  script.phases.forEach((phase, index) => {
+    const label = `phase "${phase.name}"`;
+    if (phase.hpThreshold <= 0 || phase.hpThreshold > 1) {
+      errors.push(`${label} hpThreshold must be in (0, 1]`);
+    }
+    if (index > 0 && phase.hpThreshold >= script.phases[index - 1].hpThreshold) {
+      errors.push(`${label} hpThreshold must be below the previous phase`);
+    }
+    if (phase.patterns.length === 0) {
+      errors.push(`${label} has no patterns`);
+    }
+    if (phase.projectileSpeedMultiplier !== undefined && phase.projectileSpeedMultiplier <= 0) {
+      errors.push(`${label} projectileSpeedMultiplier must be positive`);
+    }
+
+    for (const step of phase.patterns) {
+      if (!supported.includes(step.pattern)) {
+        errors.push(`${label} uses "${step.pattern}", which ScriptedBoss cannot run`);
+      }
+      if (!attackPatterns.includes(step.pattern)) {
+        errors.push(`${label} uses "${step.pattern}", which is missing from attackPatterns`);
+      }
+      if ((step.weight ?? 1) <= 0) {
+        errors.push(`${label} "${step.pattern}" weight must be positive`);
+      }
+      if (step.cooldown !== undefined && step.cooldown < 0) {
+        errors.push(`${label} "${step.pattern}" cooldown must not be negative`);
+      }
+      if (step.telegraphMs < 0) {
+        errors.push(`${label} "${step.pattern}" telegraphMs must not be negative`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Index of the phase a boss should be in at the given HP fraction
+ */
+export function getScriptPhaseIndex(script: BossScript, hpFraction: number): number {
+  let phaseIndex = 0;
+  script.phases.forEach((phase, index) => {
+    if (hpFraction <= phase.hpThreshold) {
+      phaseIndex = index;
+    }
+  });
+  return phaseIndex;
+}
+
+/**
+ * Pick the next attack of a phase
+ * @param previousIndex Index of the last attack in this phase, or -1 for none
+ * @returns Index into phase.patterns
+ */
+export function pickScriptedPatternIndex(
+  phase: BossScriptPhase,
+  rng: SeededRandom,
+  previousIndex: number,
+): number {
+  const count = phase.patterns.length;
+  if (phase.selection === "sequence") {
+    return (previousIndex + 1) % count;
+  }
+
+  // Weighted: exclude the previous attack so the same one never repeats back to back
+  const candidates = phase.patterns
+    .map((_, index) => index)
+    .filter((index) => count === 1 || index !== previousIndex);
+  const weights = candidates.map((index) => phase.patterns[index].weight ?? 1);
+  return rng.weightedPick(candidates, weights);
+}
@@ -0,0 +1,62 @@
+/**
+ * Boss Rush Data - Lineup and pacing for Boss Rush mode
+ *
+ * Boss Rush fights every boss the player has already defeated, back to back
+ * in chapter order. Each boss keeps its own chapter's boss scaling. Between
+ * fights the player heals part of their HP and picks an ability. Every fight
+ * is timed; BossRushManager keeps the personal best split per boss and the
+ * leaderboard of finished rushes.
+ */
+
+import { BOSS_DEFINITIONS, getAllBossIds, type BossId } from "./bossData";
+
+// ============================================
+// Constants
+// ============================================
+
+/** Distinct bosses the player must have defeated to unlock Boss Rush */
+export const BOSS_RUSH_MIN_BOSSES = 3;
+
+/** Fraction of max HP healed after each boss */
+export const BOSS_RUSH_HEAL_PERCENT = 0.3;
+
+/** Delay (ms) after a boss dies before the ability pick opens */
+export const BOSS_RUSH_INTERMISSION_DELAY_MS = 800;
+
+/** Finished rushes kept on the leaderboard */
+export const BOSS_RUSH_LEADERBOARD_SIZE = 10;
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Bosses fought in a rush: every defeated boss, ordered by chapter
+ * @param getKillCount Kill count per boss (SaveManager.getBossKillCount)
+ */
+export function getBossRushLineup(getKillCount: (bossId: BossId) => number): BossId[] {
+  return getAllBossIds()
+    .filter((bossId) => getKillCount(bossId) > 0)
+    .sort(
+      (a, b) =>
+        BOSS_DEFINITIONS[a].chapter - BOSS_DEFINITIONS[b].chapter ||
+        BOSS_DEFINITIONS[a].orderInChapter - BOSS_DEFINITIONS[b].orderInChapter,
+    );
+}
+
+/**
+ * Whether a lineup is long enough to unlock Boss Rush
+ */
+export function isBossRushUnlocked(lineup: readonly BossId[]): boolean {
+  return lineup.length >= BOSS_RUSH_MIN_BOSSES;
+}
+
+/**
+ * Format a split or total time as m:ss.t
+ */
+export function formatBossRushTime(timeMs: number): string {
+  const tenths = Math.floor(Math.max(0, timeMs) / 100);
+  const minutes = Math.floor(tenths / 600);
+  const seconds = Math.floor((tenths % 600) / 10);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}.${tenths % 10}`;
+}
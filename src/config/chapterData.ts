@@ -29,8 +29,9 @@ export type EnemyType =
 
 /**
  * Room types within a chapter
+ * (devil rooms replace the angel room after a boss at run time - see specialRoomData.ts)
  */
-export type RoomType = "combat" | "angel" | "miniboss" | "boss";
+export type RoomType = "combat" | "angel" | "devil" | "miniboss" | "boss";
 
 /**
  * Boss types for each chapter
@@ -200,6 +201,9 @@ export interface ChapterRoomLayout {
 /** Total rooms per chapter */
 export const ROOMS_PER_CHAPTER = 20;
 
+/** Rooms per endless wave (the last one is the boss room) */
+export const ENDLESS_ROOMS_PER_WAVE = 10;
+
 /** Star rating thresholds */
 export const STAR_THRESHOLDS = {
   /** 1 star: Just complete the chapter */
@@ -0,0 +1,238 @@
+/**
+ * Daily challenge configuration.
+ * Every player gets the same challenge for a UTC day: the seed, hero, equipment
+ * template and run modifiers are all derived from the date.
+ */
+
+import { DifficultyLevel, type DifficultyConfig } from "./difficulty";
+import type { HeroId } from "./heroData";
+import {
+  ArmorType,
+  PerkId,
+  Rarity,
+  RingType,
+  SpiritType,
+  WeaponType,
+  type EquipmentType,
+} from "../systems/Equipment";
+
+// ============================================
+// Type Definitions
+// ============================================
+
+/**
+ * Valid daily challenge modifier identifiers
+ */
+export type DailyModifierId =
+  | "no_healing"
+  | "swift_enemies"
+  | "glass_cannon"
+  | "horde"
+  | "iron_hide";
+
+/**
+ * Run modifier applied on top of the challenge difficulty
+ */
+export interface DailyModifier {
+  id: DailyModifierId;
+  name: string;
+  description: string;
+  /** Returns the difficulty config with this modifier applied */
+  apply: (config: DifficultyConfig) => DifficultyConfig;
+}
+
+/**
+ * One item of an equipment template
+ */
+export interface DailyEquipmentItem {
+  type: EquipmentType;
+  rarity: Rarity;
+  level: number;
+  perks: PerkId[];
+}
+
+/**
+ * Fixed loadout used instead of the player's own gear
+ */
+export interface DailyEquipmentTemplate {
+  id: string;
+  name: string;
+  items: DailyEquipmentItem[];
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Difficulty every daily challenge is played on (the player's selection is ignored) */
+export const DAILY_CHALLENGE_DIFFICULTY = DifficultyLevel.NORMAL;
+
+/** Level the challenge hero is played at (all perks up to this level unlocked) */
+export const DAILY_CHALLENGE_HERO_LEVEL = 20;
+
+/** Heroes a challenge can pick from */
+export const DAILY_CHALLENGE_HEROES: HeroId[] = ["atreus", "helix", "meowgik"];
+
+/** Days of results kept in storage */
+export const DAILY_CHALLENGE_DAYS_KEPT = 30;
+
+/** Attempts kept in each day's history */
+export const DAILY_CHALLENGE_HISTORY_LIMIT = 10;
+
+// ============================================
+// Modifiers
+// ============================================
+
+export const DAILY_MODIFIERS: Record<DailyModifierId, DailyModifier> = {
+  no_healing: {
+    id: "no_healing",
+    name: "No Healing",
+    description: "Healing is disabled",
+    apply: (config) => ({ ...config, playerHealingDisabled: true }),
+  },
+  swift_enemies: {
+    id: "swift_enemies",
+    name: "Swift Enemies",
+    description: "Enemies move 2x faster",
+    apply: (config) => ({
+      ...config,
+      enemySpeedMultiplier: (config.enemySpeedMultiplier ?? 1) * 2,
+    }),
+  },
+  glass_cannon: {
+    id: "glass_cannon",
+    name: "Glass Cannon",
+    description: "+50% damage, -50% health",
+    apply: (config) => ({
+      ...config,
+      playerDamage: config.playerDamage * 1.5,
+      playerMaxHealth: config.playerMaxHealth * 0.5,
+    }),
+  },
+  horde: {
+    id: "horde",
+    name: "Horde",
+    description: "+5 enemies per room",
+    apply: (config) => ({ ...config, extraEnemyCount: config.extraEnemyCount + 5 }),
+  },
+  iron_hide: {
+    id: "iron_hide",
+    name: "Iron Hide",
+    description: "Enemies and bosses have +50% health",
+    apply: (config) => ({
+      ...config,
+      enemyHealthMultiplier: config.enemyHealthMultiplier * 1.5,
+      bossHealthMultiplier: config.bossHealthMultiplier * 1.5,
+    }),
+  },
+};
+
+// ============================================
+// Equipment Templates
+// ============================================
+
+export const DAILY_EQUIPMENT_TEMPLATES: DailyEquipmentTemplate[] = [
+  {
+    id: "marksman",
+    name: "Marksman",
+    items: [
+      {
+        type: WeaponType.BRAVE_BOW,
+        rarity: Rarity.RARE,
+        level: 20,
+        perks: [PerkId.ATTACK_BOOST_SMALL, PerkId.CRIT_CHANCE_SMALL],
+      },
+      { type: ArmorType.VEST, rarity: Rarity.GREAT, level: 15, perks: [PerkId.HEALTH_BOOST_SMALL] },
+      {
+        type: RingType.WOLF_RING,
+        rarity: Rarity.RARE,
+        level: 15,
+        perks: [PerkId.CRIT_DAMAGE_SMALL],
+      },
+      { type: SpiritType.BAT, rarity: Rarity.GREAT, level: 10, perks: [] },
+    ],
+  },
+  {
+    id: "whirlwind",
+    name: "Whirlwind",
+    items: [
+      {
+        type: WeaponType.SAW_BLADE,
+        rarity: Rarity.RARE,
+        level: 20,
+        perks: [PerkId.ATTACK_SPEED_SMALL, PerkId.ATTACK_BOOST_SMALL],
+      },
+      { type: ArmorType.ROBE, rarity: Rarity.GREAT, level: 15, perks: [PerkId.DODGE_SMALL] },
+      { type: RingType.FALCON_RING, rarity: Rarity.RARE, level: 15, perks: [PerkId.DODGE_SMALL] },
+      { type: SpiritType.ELF, rarity: Rarity.GREAT, level: 10, perks: [] },
+    ],
+  },
+  {
+    id: "arcanist",
+    name: "Arcanist",
+    items: [
+      {
+        type: WeaponType.STAFF,
+        rarity: Rarity.EPIC,
+        level: 20,
+        perks: [PerkId.ATTACK_BOOST_MEDIUM, PerkId.CRIT_CHANCE_SMALL],
+      },
+      { type: ArmorType.ROBE, rarity: Rarity.RARE, level: 15, perks: [PerkId.HEALTH_BOOST_SMALL] },
+      { type: RingType.SERPENT_RING, rarity: Rarity.GREAT, level: 10, perks: [] },
+      { type: SpiritType.LASER_BAT, rarity: Rarity.GREAT, level: 10, perks: [] },
+    ],
+  },
+  {
+    id: "reaper",
+    name: "Reaper",
+    items: [
+      {
+        type: WeaponType.DEATH_SCYTHE,
+        rarity: Rarity.RARE,
+        level: 20,
+        perks: [PerkId.ATTACK_BOOST_SMALL, PerkId.CRIT_DAMAGE_SMALL],
+      },
+      {
+        type: ArmorType.GOLDEN_CHESTPLATE,
+        rarity: Rarity.GREAT,
+        level: 15,
+        perks: [PerkId.DAMAGE_REDUCTION_SMALL],
+      },
+      {
+        type: RingType.BEAR_RING,
+        rarity: Rarity.RARE,
+        level: 15,
+        perks: [PerkId.HEALTH_BOOST_SMALL],
+      },
+      { type: SpiritType.LIVING_BOMB, rarity: Rarity.GREAT, level: 10, perks: [] },
+    ],
+  },
+];
+
+// ============================================
+// Utility Functions
+// ============================================
+
+/**
+ * Get a modifier definition by ID
+ */
+export function getDailyModifier(id: DailyModifierId): DailyModifier {
+  return DAILY_MODIFIERS[id];
+}
+
+/**
+ * Get an equipment template by ID
+ */
+export function getDailyEquipmentTemplate(id: string): DailyEquipmentTemplate | undefined {
+  return DAILY_EQUIPMENT_TEMPLATES.find((template) => template.id === id);
+}
+
+/**
+ * Apply a list of modifiers to a difficulty config
+ */
+export function applyDailyModifiers(
+  config: DifficultyConfig,
+  modifierIds: DailyModifierId[],
+): DifficultyConfig {
+  return modifierIds.reduce((result, id) => getDailyModifier(id).apply(result), config);
+}
@@ -15,12 +15,14 @@ export interface DifficultyConfig {
   playerMaxHealth: number;
   playerDamage: number;
   playerAttackSpeed: number;
+  playerHealingDisabled?: boolean; // Set by run modifiers (daily challenge)
 
   // Enemy modifiers
   enemyHealthMultiplier: number;
   enemyDamageMultiplier: number;
   enemySpawnMultiplier: number;
   extraEnemyCount: number; // Flat bonus enemies added per room
+  enemySpeedMultiplier?: number; // Set by run modifiers (daily challenge), applied after caps
 
   // Boss modifiers
   bossHealthMultiplier: number;
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for elite affixes
+ */
+import { describe, it, expect } from "vitest";
+import { SeededRandom } from "../systems/SeededRandom";
+import {
+  ELITE_AFFIXES,
+  ELITE_CHANCE,
+  ELITE_HEALTH_MULTIPLIER,
+  ELITE_START_WAVE,
+  applyEliteAffixes,
+  getEliteAffixCount,
+  getEliteChance,
+  getEliteName,
+  rollEliteAffixes,
+} from "./eliteAffixData";
+
+describe("eliteAffixData", () => {
+  describe("getEliteChance()", () => {
+    it("should be zero before elites start", () => {
+      expect(getEliteChance(ELITE_START_WAVE - 1)).toBe(0);
+      expect(getEliteChance(ELITE_START_WAVE)).toBe(ELITE_CHANCE.base);
+    });
+
+    it("should grow with the wave up to the cap", () => {
+      expect(getEliteChance(ELITE_START_WAVE + 1)).toBeGreaterThan(
+        getEliteChance(ELITE_START_WAVE),
+      );
+      expect(getEliteChance(100)).toBe(ELITE_CHANCE.max);
+    });
+  });
+
+  describe("getEliteAffixCount()", () => {
+    it("should add affixes on later waves", () => {
+      expect(getEliteAffixCount(1)).toBe(0);
+      expect(getEliteAffixCount(ELITE_START_WAVE)).toBe(1);
+      expect(getEliteAffixCount(5)).toBe(2);
+      expect(getEliteAffixCount(20)).toBe(3);
+    });
+  });
+
+  describe("rollEliteAffixes()", () => {
+    it("should not consume rolls before elites start", () => {
+      const rng = new SeededRandom(7);
+      const untouched = new SeededRandom(7);
+      expect(rollEliteAffixes(1, rng)).toEqual([]);
+      expect(rng.random()).toBe(untouched.random());
+    });
+
+    it("should be deterministic for a seed", () => {
+      const first = new SeededRandom(99);
+      const second = new SeededRandom(99);
+      for (let i = 0; i < 50; i++) {
+        expect(rollEliteAffixes(10, first)).toEqual(rollEliteAffixes(10, second));
+      }
+    });
+
+    it("should roll distinct affixes unlocked on the wave", () => {
+      const rng = new SeededRandom(3);
+      let elites = 0;
+      for (let i = 0; i < 500; i++) {
+        const affixes = rollEliteAffixes(ELITE_START_WAVE, rng);
+        if (affixes.length === 0) continue;
+        elites++;
+        expect(affixes).toHaveLength(1);
+        expect(ELITE_AFFIXES[affixes[0]].minWave).toBeLessThanOrEqual(ELITE_START_WAVE);
+      }
+      expect(elites).toBeGreaterThan(0);
+
+      for (let i = 0; i < 200; i++) {
+        const affixes = rollEliteAffixes(20, rng);
+        expect(new Set(affixes).size).toBe(affixes.length);
+      }
+    });
+  });
+
+  describe("applyEliteAffixes()", () => {
+    it("should leave regular enemies unchanged", () => {
+      const options = { healthMultiplier: 1.5 };
+      expect(applyEliteAffixes(options, [])).toBe(options);
+    });
+
+    it("should fold elite HP and affix multipliers into the options", () => {
+      const options = applyEliteAffixes(
+        { healthMultiplier: 1.5, speedMultiplier: 1.0, damageMultiplier: 2 },
+        ["hasted", "vampiric"],
+      );
+      expect(options.healthMultiplier).toBe(1.5 * ELITE_HEALTH_MULTIPLIER);
+      expect(options.speedMultiplier).toBe(ELITE_AFFIXES.hasted.speedMultiplier);
+      expect(options.attackCooldownMultiplier).toBe(ELITE_AFFIXES.hasted.attackCooldownMultiplier);
+      expect(options.damageMultiplier).toBe(2);
+      expect(options.eliteAffixes).toEqual(["hasted", "vampiric"]);
+    });
+  });
+
+  describe("getEliteName()", () => {
+    it("should join affix names", () => {
+      expect(getEliteName(["vampiric", "hasted"])).toBe("Vampiric Hasted");
+    });
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Elite Affix Data - Randomly rolled modifiers for elite enemies
+ *
+ * From ELITE_START_WAVE on, endless mode rolls each regular enemy as an elite
+ * with a chance that grows every wave. An elite gets one or more affixes from
+ * ELITE_AFFIXES (more on later waves), extra HP, an aura per affix, a name tag
+ * and better drops. Elites are ordinary enemies: the affixes only change their
+ * EnemyOptions and StatusEffectSystem settings, and a few hooks in Enemy,
+ * CombatSystem and EnemyDeathHandler.
+ */
+
+import type { EnemyOptions } from "../entities/Enemy";
+import type { StatusEffectType } from "../core/StatusEffects";
+import type { SeededRandom } from "../systems/SeededRandom";
+
+// ============================================
+// Types
+// ============================================
+
+export type EliteAffixId =
+  | "shielded"
+  | "vampiric"
+  | "hasted"
+  | "splitting"
+  | "reflecting"
+  | "explosive";
+
+export interface EliteAffixDefinition {
+  id: EliteAffixId;
+  /** Shown in the elite's name tag */
+  name: string;
+  description: string;
+  /** Aura ring and name tag color */
+  color: number;
+  /** Relative roll weight */
+  weight: number;
+  /** First endless wave the affix can roll on */
+  minWave: number;
+  /** Multipliers folded into the enemy's EnemyOptions */
+  speedMultiplier?: number;
+  attackCooldownMultiplier?: number;
+  /** Shortens freeze on this enemy (StatusEffectSystem freezeDuration) */
+  freezeDuration?: number;
+  /** Status effects this enemy ignores */
+  immuneTo?: StatusEffectType[];
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** First endless wave elites can appear on */
+export const ELITE_START_WAVE = 2;
+
+/** Elite chance per enemy: base on ELITE_START_WAVE, growing per wave, capped */
+export const ELITE_CHANCE = {
+  base: 0.05,
+  perWave: 0.04,
+  max: 0.35,
+};
+
+/** Extra HP every elite gets (on top of chapter/difficulty/endless scaling) */
+export const ELITE_HEALTH_MULTIPLIER = 2.0;
+
+/** Affix counts: one affix, a second from wave 5, a third from wave 8 */
+export const ELITE_AFFIX_COUNT_WAVES = [ELITE_START_WAVE, 5, 8];
+
+/** Tuning for the affixes that need more than a stat change */
+export const ELITE_AFFIX_TUNING = {
+  /** Shield absorbing damage before HP, as a fraction of max HP */
+  shieldPercent: 0.5,
+  /** Vampiric: fraction of max HP regenerated per second */
+  vampiricRegenPercent: 0.02,
+  /** Vampiric: fraction of melee damage dealt healed back */
+  vampiricLifesteal: 1.0,
+  /** Splitting: enemies spawned on death */
+  splitCount: 2,
+  /** Reflecting: fraction of the elite's melee damage reflected per hit taken */
+  reflectDamagePercent: 0.3,
+  /** Reflecting: minimum ms between two reflects from the same elite */
+  reflectCooldownMs: 600,
+  /** Explosive: fuse, radius and damage (x the elite's melee damage) of the death blast */
+  explosionDelayMs: 600,
+  explosionRadius: 70,
+  explosionDamageMultiplier: 1.5,
+};
+
+/** Elite drops: guaranteed gold, extra gold per affix, better potion chance */
+export const ELITE_DROPS = {
+  extraGoldDropsPerAffix: 2,
+  healthPotionChance: 0.25,
+};
+
+export const ELITE_AFFIXES: Record<EliteAffixId, EliteAffixDefinition> = {
+  shielded: {
+    id: "shielded",
+    name: "Shielded",
+    description: "Shield absorbs damage, can't be knocked back",
+    color: 0x44aaff,
+    weight: 3,
+    minWave: ELITE_START_WAVE,
+    immuneTo: ["knockback"],
+  },
+  vampiric: {
+    id: "vampiric",
+    name: "Vampiric",
+    description: "Regenerates and heals from melee hits",
+    color: 0xcc0033,
+    weight: 3,
+    minWave: ELITE_START_WAVE,
+  },
+  hasted: {
+    id: "hasted",
+    name: "Hasted",
+    description: "Moves and attacks faster, shakes off freeze",
+    color: 0xffee44,
+    weight: 3,
+    minWave: ELITE_START_WAVE,
+    speedMultiplier: 1.4,
+    attackCooldownMultiplier: 0.7,
+    freezeDuration: 750,
+  },
+  splitting: {
+    id: "splitting",
+    name: "Splitting",
+    description: "Splits into two on death",
+    color: 0x66ff66,
+    weight: 2,
+    minWave: 3,
+  },
+  reflecting: {
+    id: "reflecting",
+    name: "Reflecting",
+    description: "Reflects damage back at the player",
+    color: 0xdddddd,
+    weight: 2,
+    minWave: 4,
+  },
+  explosive: {
+    id: "explosive",
+    name: "Explosive",
+    description: "Explodes on death, immune to burning",
+    color: 0xff6600,
+    weight: 2,
+    minWave: 3,
+    immuneTo: ["fire"],
+  },
+};
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Chance for a regular enemy to spawn as an elite on an endless wave
+ */
+export function getEliteChance(wave: number): number {
+  if (wave < ELITE_START_WAVE) return 0;
+  return Math.min(
+    ELITE_CHANCE.max,
+    ELITE_CHANCE.base + (wave - ELITE_START_WAVE) * ELITE_CHANCE.perWave,
+  );
+}
+
+/**
+ * Number of affixes an elite gets on a wave
+ */
+export function getEliteAffixCount(wave: number): number {
+  return ELITE_AFFIX_COUNT_WAVES.filter((startWave) => wave >= startWave).length;
+}
+
+/**
+ * Roll whether an enemy is elite and which affixes it gets
+ * @returns Distinct affix ids, empty for a regular enemy
+ */
+export function rollEliteAffixes(wave: number, rng: SeededRandom): EliteAffixId[] {
+  // No roll before elites start, so early waves use the same random sequence as before
+  const chance = getEliteChance(wave);
+  if (chance <= 0 || !rng.chance(chance)) return [];
+
+  const pool = Object.values(ELITE_AFFIXES).filter((affix) => wave >= affix.minWave);
+  const count = Math.min(getEliteAffixCount(wave), pool.length);
+  const affixes: EliteAffixId[] = [];
+  while (affixes.length < count) {
+    const candidates = pool.filter((affix) => !affixes.includes(affix.id));
+    const picked = rng.weightedPick(
+      candidates,
+      candidates.map((affix) => affix.weight),
+    );
+    affixes.push(picked.id);
+  }
+  return affixes;
+}
+
+/**
+ * Fold elite HP and affix stat multipliers into an enemy's options
+ */
+export function applyEliteAffixes(options: EnemyOptions, affixes: EliteAffixId[]): EnemyOptions {
+  if (affixes.length === 0) return options;
+
+  let speedMultiplier = options.speedMultiplier ?? 1.0;
+  let attackCooldownMultiplier = options.attackCooldownMultiplier ?? 1.0;
+  for (const id of affixes) {
+    speedMultiplier *= ELITE_AFFIXES[id].speedMultiplier ?? 1.0;
+    attackCooldownMultiplier *= ELITE_AFFIXES[id].attackCooldownMultiplier ?? 1.0;
+  }
+
+  return {
+    ...options,
+    healthMultiplier: (options.healthMultiplier ?? 1.0) * ELITE_HEALTH_MULTIPLIER,
+    speedMultiplier,
+    attackCooldownMultiplier,
+    eliteAffixes: affixes,
+  };
+}
+
+/**
+ * Name tag for an elite, e.g. "Vampiric Hasted"
+ */
+export function getEliteName(affixes: EliteAffixId[]): string {
+  return affixes.map((id) => ELITE_AFFIXES[id].name).join(" ");
+}
@@ -0,0 +1,192 @@
+/**
+ * Enchanting Data - Perk rerolls and extra perk slots paid with scrolls
+ *
+ * Enchanting gives players control over an item's random perks:
+ * - Reroll: every unlocked perk slot gets a new perk for the item's slot and
+ *   rarity. Locking a perk keeps it, but each lock makes the reroll pricier.
+ * - Extra perk slot: Epic and Legendary items can gain one perk slot beyond
+ *   their rarity's perkSlots, filled with a random perk.
+ * Costs scale with rarity and level like upgrades. The latest enchant of an
+ * item can be undone once within ENCHANT_UNDO_WINDOW_MS (see EnchantingManager).
+ */
+
+import {
+  EquipmentSlotType,
+  PerkId,
+  Rarity,
+  RARITY_CONFIGS,
+  UpgradeCost,
+  isRarityAtLeast,
+} from "../systems/Equipment";
+import { getPerksForSlot } from "./equipmentData";
+
+// ============================================
+// Types
+// ============================================
+
+export type EnchantKind = "reroll" | "add_slot";
+
+/** The parts of an item enchanting looks at */
+export interface EnchantableItem {
+  slot: EquipmentSlotType;
+  rarity: Rarity;
+  level: number;
+  perks: PerkId[];
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Cost of rerolling one perk slot at level 1 */
+export const ENCHANT_BASE_COSTS: Record<Rarity, UpgradeCost> = {
+  [Rarity.COMMON]: { gold: 200, scrolls: 1 },
+  [Rarity.GREAT]: { gold: 300, scrolls: 2 },
+  [Rarity.RARE]: { gold: 500, scrolls: 3 },
+  [Rarity.EPIC]: { gold: 800, scrolls: 5 },
+  [Rarity.LEGENDARY]: { gold: 1200, scrolls: 8 },
+};
+
+/** Cost increase per item level above 1 (+5% per level) */
+export const ENCHANT_LEVEL_COST_SCALING = 0.05;
+
+/** Reroll cost increase per locked perk (+50% per lock) */
+export const ENCHANT_LOCK_COST_MULTIPLIER = 0.5;
+
+/** Adding a perk slot costs this many rerolls */
+export const ENCHANT_ADD_SLOT_COST_MULTIPLIER = 4;
+
+/** Lowest rarity that can gain an extra perk slot */
+export const ENCHANT_EXTRA_SLOT_MIN_RARITY = Rarity.EPIC;
+
+/** Extra perk slots an item can gain */
+export const ENCHANT_MAX_EXTRA_SLOTS = 1;
+
+/** How long an enchant can be undone (10 minutes) */
+export const ENCHANT_UNDO_WINDOW_MS = 10 * 60 * 1000;
+
+/** Enchants kept in the history */
+export const ENCHANT_HISTORY_SIZE = 50;
+
+// ============================================
+// Costs
+// ============================================
+
+function scaleCost(cost: UpgradeCost, multiplier: number): UpgradeCost {
+  return {
+    gold: Math.ceil(cost.gold * multiplier),
+    scrolls: Math.ceil(cost.scrolls * multiplier),
+  };
+}
+
+function getLevelCostMultiplier(level: number): number {
+  return 1 + Math.max(0, level - 1) * ENCHANT_LEVEL_COST_SCALING;
+}
+
+/**
+ * Cost to reroll an item's unlocked perks
+ */
+export function calculateRerollCost(item: EnchantableItem, lockedCount: number): UpgradeCost {
+  const multiplier =
+    getLevelCostMultiplier(item.level) * (1 + lockedCount * ENCHANT_LOCK_COST_MULTIPLIER);
+  return scaleCost(ENCHANT_BASE_COSTS[item.rarity], multiplier);
+}
+
+/**
+ * Cost to add a perk slot to an item
+ */
+export function calculateAddPerkSlotCost(item: EnchantableItem): UpgradeCost {
+  const multiplier = getLevelCostMultiplier(item.level) * ENCHANT_ADD_SLOT_COST_MULTIPLIER;
+  return scaleCost(ENCHANT_BASE_COSTS[item.rarity], multiplier);
+}
+
+// ============================================
+// Perk Rolls
+// ============================================
+
+/**
+ * Perks that fit an item's slot and rarity, minus the excluded ones
+ */
+export function getPerkCandidates(item: EnchantableItem, exclude: PerkId[]): PerkId[] {
+  return getPerksForSlot(item.slot, item.rarity)
+    .map((perk) => perk.id)
+    .filter((perkId) => !exclude.includes(perkId));
+}
+
+/**
+ * Most perks an item can carry, including an extra slot from enchanting
+ */
+export function getMaxPerkCount(rarity: Rarity): number {
+  const extraSlots = isRarityAtLeast(rarity, ENCHANT_EXTRA_SLOT_MIN_RARITY)
+    ? ENCHANT_MAX_EXTRA_SLOTS
+    : 0;
+  return RARITY_CONFIGS[rarity].perkSlots + extraSlots;
+}
+
+/**
+ * Locked perk slots that exist on the item, without duplicates
+ */
+export function normalizeLockedIndices(item: EnchantableItem, lockedIndices: number[]): number[] {
+  return [...new Set(lockedIndices)].filter((index) => index >= 0 && index < item.perks.length);
+}
+
+/**
+ * Check if a reroll with these locks leaves a perk slot to reroll
+ */
+export function canRerollPerks(item: EnchantableItem, lockedIndices: number[]): boolean {
+  return normalizeLockedIndices(item, lockedIndices).length < item.perks.length;
+}
+
+/**
+ * Check if an item can gain a perk slot
+ */
+export function canAddPerkSlot(item: EnchantableItem): boolean {
+  return (
+    item.perks.length < getMaxPerkCount(item.rarity) &&
+    isRarityAtLeast(item.rarity, ENCHANT_EXTRA_SLOT_MIN_RARITY) &&
+    getPerkCandidates(item, item.perks).length > 0
+  );
+}
+
+/**
+ * Reroll every unlocked perk slot. A slot gets a different perk whenever one
+ * is available, and perks never repeat on an item.
+ * @param random - Random number source in [0, 1)
+ * @returns The item's new perks, in slot order
+ */
+export function rerollPerks(
+  item: EnchantableItem,
+  lockedIndices: number[],
+  random: () => number = Math.random,
+): PerkId[] {
+  const locked = new Set(lockedIndices);
+  const result = [...item.perks];
+  const taken = item.perks.filter((_, index) => locked.has(index));
+
+  item.perks.forEach((oldPerk, index) => {
+    if (locked.has(index)) return;
+
+    let candidates = getPerkCandidates(item, [...taken, oldPerk]);
+    if (candidates.length === 0) {
+      candidates = getPerkCandidates(item, taken);
+    }
+    const perk = candidates[Math.floor(random() * candidates.length)] ?? oldPerk;
+    result[index] = perk;
+    taken.push(perk);
+  });
+
+  return result;
+}
+
+/**
+ * Roll the perk for a new perk slot
+ * @param random - Random number source in [0, 1)
+ * @returns The new perk, or null if no perk is left for the item
+ */
+export function rollExtraPerk(
+  item: EnchantableItem,
+  random: () => number = Math.random,
+): PerkId | null {
+  const candidates = getPerkCandidates(item, item.perks);
+  return candidates[Math.floor(random() * candidates.length)] ?? null;
+}
@@ -13,6 +13,7 @@ import { HERO_DEFINITIONS, HeroId } from "./heroData";
 import { ACHIEVEMENTS } from "./achievementData";
 import { CHEST_CONFIGS, ChestType, CHEST_ORDER } from "../data/chestData";
 import { ABILITIES } from "../scenes/LevelUpScene";
+import { ABILITY_EVOLUTIONS, getAbilityById, getEvolutionsForAbility } from "./abilityData";
 import {
   WEAPON_DATA,
   ARMOR_DATA,
@@ -20,8 +21,16 @@ import {
   SPIRIT_DATA,
   PERKS,
   BaseEquipmentData,
+  getEquipmentBaseData,
 } from "./equipmentData";
-import { EquipmentSlotType, PerkId, Rarity, RARITY_CONFIGS } from "../systems/Equipment";
+import { EQUIPMENT_SETS, EQUIPMENT_SET_IDS, getSetPieceTypes } from "./equipmentSetData";
+import {
+  EquipmentSlotType,
+  PerkId,
+  Rarity,
+  RARITY_CONFIGS,
+  getSlotForType,
+} from "../systems/Equipment";
 import { PlayerStats } from "../systems/PlayerStats";
 
 // ============================================
@@ -208,6 +217,8 @@ export interface EquipmentEncyclopediaEntry {
   slot: EquipmentSlotType;
   statSummary: string;
   spriteKey: string;
+  /** Equipment sets: one line per bonus, e.g. "2-piece: +10% freeze chance" */
+  setBonuses?: string[];
 }
 
 /**
@@ -241,7 +252,7 @@ function formatEquipmentStats(data: BaseEquipmentData): string {
 }
 
 /**
- * Get all equipment entries for the encyclopedia
+ * Get all equipment entries for the encyclopedia (equipment sets listed last)
  */
 export function getAllEquipmentEntries(): EquipmentEncyclopediaEntry[] {
   const entries: EquipmentEncyclopediaEntry[] = [];
@@ -294,6 +305,21 @@ export function getAllEquipmentEntries(): EquipmentEncyclopediaEntry[] {
     });
   }
 
+  // Equipment sets
+  for (const setId of EQUIPMENT_SET_IDS) {
+    const set = EQUIPMENT_SETS[setId];
+    const pieceTypes = getSetPieceTypes(setId);
+    entries.push({
+      id: `set_${setId}`,
+      name: set.name,
+      description: `${pieceTypes.length}-piece set, found in chests`,
+      slot: getSlotForType(pieceTypes[0]),
+      statSummary: pieceTypes.map((type) => getEquipmentBaseData(type)?.name ?? type).join(" + "),
+      spriteKey: `equip_${pieceTypes[0]}`,
+      setBonuses: set.bonuses.map((bonus) => `${bonus.pieces}-piece: ${bonus.description}`),
+    });
+  }
+
   return entries;
 }
 
@@ -307,19 +333,39 @@ export interface AbilityEncyclopediaEntry {
   description: string;
   color: number;
   spriteKey: string;
+  isEvolution: boolean;
+  /** Evolutions: the abilities and levels that unlock it, e.g. "Fire Lv3 + Explosive Arrows Lv3" */
+  requirements?: string;
+  /** Regular abilities: names of the evolutions they are part of */
+  evolvesInto: string[];
 }
 
 /**
- * Get all ability entries for the encyclopedia
+ * Get all ability entries for the encyclopedia (evolutions listed last)
  */
 export function getAllAbilityEntries(): AbilityEncyclopediaEntry[] {
-  return ABILITIES.map((ability) => ({
+  const abilities = ABILITIES.map((ability) => ({
     id: ability.id,
     name: ability.name,
     description: ability.description,
     color: ability.color,
     spriteKey: ability.iconKey,
+    isEvolution: false,
+    evolvesInto: getEvolutionsForAbility(ability.id).map((evolution) => evolution.name),
+  }));
+  const evolutions = ABILITY_EVOLUTIONS.map((evolution) => ({
+    id: evolution.id,
+    name: evolution.name,
+    description: evolution.description,
+    color: evolution.color,
+    spriteKey: evolution.iconKey,
+    isEvolution: true,
+    requirements: evolution.requires
+      .map((req) => `${getAbilityById(req.abilityId)?.name ?? req.abilityId} Lv${req.level}`)
+      .join(" + "),
+    evolvesInto: [],
   }));
+  return [...abilities, ...evolutions];
 }
 
 // ============================================
@@ -363,6 +409,7 @@ export interface HeroEncyclopediaEntry {
   unlockCurrency: string;
   perkCount: number;
   spriteKey: string;
+  spriteTint?: number;
 }
 
 /**
@@ -378,7 +425,8 @@ export function getAllHeroEntries(): HeroEncyclopediaEntry[] {
     unlockCost: hero.unlockCost,
     unlockCurrency: hero.unlockCurrency,
     perkCount: hero.perks.length,
-    spriteKey: hero.icon,
+    spriteKey: hero.sprite.key,
+    spriteTint: hero.sprite.tint,
   }));
 }
 
@@ -686,10 +734,11 @@ export const ENCYCLOPEDIA_COUNTS = {
     Object.keys(WEAPON_DATA).length +
     Object.keys(ARMOR_DATA).length +
     Object.keys(RING_DATA).length +
-    Object.keys(SPIRIT_DATA).length,
+    Object.keys(SPIRIT_DATA).length +
+    EQUIPMENT_SET_IDS.length,
   enemies: Object.keys(ENEMY_ENCYCLOPEDIA).length,
   bosses: Object.keys(BOSS_DEFINITIONS).length,
-  abilities: ABILITIES.length,
+  abilities: ABILITIES.length + ABILITY_EVOLUTIONS.length,
   talents: Object.keys(TALENTS).length,
   heroes: Object.keys(HERO_DEFINITIONS).length,
   perks: Object.keys(PERKS).length,
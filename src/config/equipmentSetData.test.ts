@@ -0,0 +1,76 @@
+/**
+ * Unit tests for equipment set definitions and bonuses
+ */
+import { describe, it, expect } from "vitest";
+import {
+  EQUIPMENT_SETS,
+  EQUIPMENT_SET_IDS,
+  countSetPieces,
+  getSetBonusStats,
+  getSetPieceTypes,
+  getSetProgress,
+  isEquipmentSetId,
+  rollEquipmentSetId,
+} from "./equipmentSetData";
+import { ArmorType, RingType, SpiritType, WeaponType, getSlotForType } from "../systems/Equipment";
+
+describe("equipmentSetData", () => {
+  describe("definitions", () => {
+    it("should have one piece per slot and bonuses sorted by pieces", () => {
+      for (const setId of EQUIPMENT_SET_IDS) {
+        const set = EQUIPMENT_SETS[setId];
+        for (const [slot, type] of Object.entries(set.pieces)) {
+          expect(getSlotForType(type)).toBe(slot);
+        }
+        const pieces = set.bonuses.map((bonus) => bonus.pieces);
+        expect(pieces).toEqual([...pieces].sort((a, b) => a - b));
+        expect(Math.max(...pieces)).toBeLessThanOrEqual(getSetPieceTypes(setId).length);
+      }
+    });
+
+    it("should only accept known set ids", () => {
+      expect(isEquipmentSetId("frost")).toBe(true);
+      expect(isEquipmentSetId("fire")).toBe(false);
+      expect(isEquipmentSetId(undefined)).toBe(false);
+    });
+  });
+
+  describe("set bonuses", () => {
+    const frostStaff = { type: WeaponType.STAFF, setId: "frost" as const };
+    const frostRobe = { type: ArmorType.ROBE, setId: "frost" as const };
+    const frostRing = { type: RingType.WOLF_RING, setId: "frost" as const };
+
+    it("should only count pieces of their own set", () => {
+      const plainRobe = { type: ArmorType.ROBE };
+      const mislabeled = { type: SpiritType.BAT, setId: "frost" as const };
+      expect(countSetPieces([frostStaff, plainRobe, mislabeled])).toEqual({ frost: 1 });
+    });
+
+    it("should activate the 2-piece bonus", () => {
+      expect(getSetBonusStats([frostStaff])).toEqual({});
+      expect(getSetBonusStats([frostStaff, frostRobe])).toEqual({ freezeChance: 0.1 });
+    });
+
+    it("should stack the 2-piece and 3-piece bonuses", () => {
+      expect(getSetBonusStats([frostStaff, frostRobe, frostRing])).toEqual({
+        freezeChance: 0.1,
+        frozenDamagePercent: 0.3,
+      });
+    });
+
+    it("should report progress for worn sets only", () => {
+      const progress = getSetProgress([frostStaff, frostRobe]);
+      expect(progress).toHaveLength(1);
+      expect(progress[0]).toMatchObject({ equipped: 2, total: 3 });
+      expect(progress[0].bonuses.map((bonus) => bonus.active)).toEqual([true, false]);
+    });
+  });
+
+  describe("rollEquipmentSetId()", () => {
+    it("should pick sets by drop weight", () => {
+      expect(rollEquipmentSetId(0)).toBe("frost");
+      expect(rollEquipmentSetId(0.5)).toBe("warlord");
+      expect(rollEquipmentSetId(0.99)).toBe("hunter");
+    });
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Equipment Set Data - Matching pieces that grant bonuses when worn together
+ *
+ * A set piece is a regular equipment type (a Staff, a Robe...) tagged with a
+ * setId. Wearing several pieces of the same set unlocks its bonuses, e.g. the
+ * 2-piece and 3-piece bonuses of the Frost Set. Bonus stats are plain
+ * EquipmentStats, so EquipmentManager.calculateStats adds them like perks.
+ * Set pieces only drop from chests (see rollChestSetDrop in chestData).
+ */
+
+import {
+  ArmorType,
+  EquipmentSetId,
+  EquipmentSlotType,
+  EquipmentStats,
+  EquipmentType,
+  RingType,
+  SpiritType,
+  WeaponType,
+  EQUIPMENT_SLOTS,
+} from "../systems/Equipment";
+
+// ============================================
+// Types
+// ============================================
+
+export interface EquipmentSetBonus {
+  /** Pieces worn to unlock the bonus */
+  pieces: number;
+  description: string;
+  stats: EquipmentStats;
+}
+
+export interface EquipmentSetDefinition {
+  id: EquipmentSetId;
+  name: string;
+  /** Prefixed to piece names, e.g. "Frost Staff" */
+  itemPrefix: string;
+  /** Display color (hex string) */
+  color: string;
+  /** Equipment type of the piece for each slot the set covers */
+  pieces: Partial<Record<EquipmentSlotType, EquipmentType>>;
+  /** Relative weight when a chest drops a set piece */
+  dropWeight: number;
+  /** Sorted by pieces, ascending */
+  bonuses: EquipmentSetBonus[];
+}
+
+/** A bonus of a set and whether the worn pieces unlock it */
+export interface EquipmentSetBonusProgress {
+  bonus: EquipmentSetBonus;
+  active: boolean;
+}
+
+/** How much of a set is worn */
+export interface EquipmentSetProgress {
+  set: EquipmentSetDefinition;
+  equipped: number;
+  total: number;
+  bonuses: EquipmentSetBonusProgress[];
+}
+
+/** The parts of an item that make it a set piece */
+type SetPieceItem = { type: EquipmentType; setId?: EquipmentSetId | null };
+
+// ============================================
+// Set Definitions
+// ============================================
+
+export const EQUIPMENT_SETS: Record<EquipmentSetId, EquipmentSetDefinition> = {
+  frost: {
+    id: "frost",
+    name: "Frost Set",
+    itemPrefix: "Frost",
+    color: "#66ccff",
+    pieces: {
+      weapon: WeaponType.STAFF,
+      armor: ArmorType.ROBE,
+      ring: RingType.WOLF_RING,
+    },
+    dropWeight: 40,
+    bonuses: [
+      { pieces: 2, description: "+10% freeze chance", stats: { freezeChance: 0.1 } },
+      {
+        pieces: 3,
+        description: "+30% damage to frozen enemies",
+        stats: { frozenDamagePercent: 0.3 },
+      },
+    ],
+  },
+  warlord: {
+    id: "warlord",
+    name: "Warlord Set",
+    itemPrefix: "Warlord",
+    color: "#ff7744",
+    pieces: {
+      weapon: WeaponType.DEATH_SCYTHE,
+      armor: ArmorType.GOLDEN_CHESTPLATE,
+      ring: RingType.LION_RING,
+    },
+    dropWeight: 35,
+    bonuses: [
+      { pieces: 2, description: "+10% attack", stats: { attackDamagePercent: 0.1 } },
+      { pieces: 3, description: "+15% max HP", stats: { maxHealthPercent: 0.15 } },
+    ],
+  },
+  hunter: {
+    id: "hunter",
+    name: "Hunter Set",
+    itemPrefix: "Hunter",
+    color: "#88dd55",
+    pieces: {
+      weapon: WeaponType.BRAVE_BOW,
+      armor: ArmorType.PHANTOM_CLOAK,
+      ring: RingType.FALCON_RING,
+      spirit: SpiritType.BAT,
+    },
+    dropWeight: 25,
+    bonuses: [
+      { pieces: 2, description: "+8% attack speed", stats: { attackSpeedPercent: 0.08 } },
+      {
+        pieces: 4,
+        description: "+5% crit chance, +20% crit damage",
+        stats: { critChance: 0.05, critDamage: 0.2 },
+      },
+    ],
+  },
+};
+
+/** Display order */
+export const EQUIPMENT_SET_IDS: EquipmentSetId[] = ["frost", "warlord", "hunter"];
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Check if a value (e.g. from save data) is a known set id
+ */
+export function isEquipmentSetId(value: unknown): value is EquipmentSetId {
+  return typeof value === "string" && (EQUIPMENT_SET_IDS as string[]).includes(value);
+}
+
+/**
+ * Equipment types of a set's pieces, in slot order
+ */
+export function getSetPieceTypes(setId: EquipmentSetId): EquipmentType[] {
+  const pieces = EQUIPMENT_SETS[setId].pieces;
+  return EQUIPMENT_SLOTS.flatMap((slot) => pieces[slot] ?? []);
+}
+
+/**
+ * Check if an equipment type is one of a set's pieces
+ */
+export function isSetPieceType(setId: EquipmentSetId, type: EquipmentType): boolean {
+  return getSetPieceTypes(setId).includes(type);
+}
+
+/**
+ * Display name of a set piece, e.g. "Frost Staff"
+ */
+export function getSetPieceName(setId: EquipmentSetId, baseName: string): string {
+  return `${EQUIPMENT_SETS[setId].itemPrefix} ${baseName}`;
+}
+
+/**
+ * Count the worn pieces of each set (items are one per slot)
+ */
+export function countSetPieces(items: SetPieceItem[]): Partial<Record<EquipmentSetId, number>> {
+  const counts: Partial<Record<EquipmentSetId, number>> = {};
+  for (const item of items) {
+    if (item.setId && isSetPieceType(item.setId, item.type)) {
+      counts[item.setId] = (counts[item.setId] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Progress of one set for the worn items (possibly no pieces worn)
+ */
+export function getSetProgressFor(
+  setId: EquipmentSetId,
+  items: SetPieceItem[],
+): EquipmentSetProgress {
+  const set = EQUIPMENT_SETS[setId];
+  const equipped = countSetPieces(items)[setId] ?? 0;
+  return {
+    set,
+    equipped,
+    total: getSetPieceTypes(setId).length,
+    bonuses: set.bonuses.map((bonus) => ({ bonus, active: equipped >= bonus.pieces })),
+  };
+}
+
+/**
+ * Progress of every set with at least one worn piece, in display order
+ */
+export function getSetProgress(items: SetPieceItem[]): EquipmentSetProgress[] {
+  return EQUIPMENT_SET_IDS.map((setId) => getSetProgressFor(setId, items)).filter(
+    (progress) => progress.equipped > 0,
+  );
+}
+
+/**
+ * Combined stats of every active set bonus
+ */
+export function getSetBonusStats(items: SetPieceItem[]): EquipmentStats {
+  const stats: EquipmentStats = {};
+  for (const progress of getSetProgress(items)) {
+    for (const { bonus, active } of progress.bonuses) {
+      if (!active) continue;
+      for (const [key, value] of Object.entries(bonus.stats)) {
+        const statKey = key as keyof EquipmentStats;
+        stats[statKey] = (stats[statKey] ?? 0) + value;
+      }
+    }
+  }
+  return stats;
+}
+
+/**
+ * Pick the set of a dropped set piece by drop weight
+ * @param roll - Random number in [0, 1)
+ */
+export function rollEquipmentSetId(roll: number = Math.random()): EquipmentSetId {
+  const totalWeight = EQUIPMENT_SET_IDS.reduce(
+    (total, setId) => total + EQUIPMENT_SETS[setId].dropWeight,
+    0,
+  );
+  let remaining = roll * totalWeight;
+  for (const setId of EQUIPMENT_SET_IDS) {
+    remaining -= EQUIPMENT_SETS[setId].dropWeight;
+    if (remaining < 0) {
+      return setId;
+    }
+  }
+  return EQUIPMENT_SET_IDS[EQUIPMENT_SET_IDS.length - 1];
+}
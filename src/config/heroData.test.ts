@@ -0,0 +1,133 @@
+/**
+ * Unit tests for the hero registry and hero active skills
+ */
+import { describe, it, expect } from "vitest";
+import {
+  HERO_DEFINITIONS,
+  describeHeroUnlockRequirement,
+  getAllHeroIds,
+  getFreeHeroIds,
+  getHeroSkillConfig,
+  getHeroSpriteKey,
+  isHeroUnlockRequirementMet,
+  isValidHeroId,
+  registerHero,
+  type HeroDefinition,
+} from "./heroData";
+
+function createHero(overrides: Partial<HeroDefinition>): HeroDefinition {
+  return {
+    ...HERO_DEFINITIONS.atreus,
+    id: "test_hero",
+    name: "Test Hero",
+    unlockCurrency: "gold",
+    ...overrides,
+  };
+}
+
+describe("heroData", () => {
+  describe("active skills", () => {
+    it("should give every hero an active skill", () => {
+      for (const heroId of getAllHeroIds()) {
+        const skill = HERO_DEFINITIONS[heroId].activeSkill;
+        expect(skill.cooldownMs).toBeGreaterThan(0);
+        expect(skill.power).toBeGreaterThan(0);
+      }
+    });
+
+    it("should keep perks sorted by level", () => {
+      for (const heroId of getAllHeroIds()) {
+        const levels = HERO_DEFINITIONS[heroId].perks.map((perk) => perk.level);
+        expect(levels).toEqual([...levels].sort((a, b) => a - b));
+      }
+    });
+  });
+
+  describe("registry", () => {
+    it("should register the built-in heroes in roster order", () => {
+      expect(getAllHeroIds()).toEqual(["atreus", "helix", "meowgik", "vex", "lumina", "garrick"]);
+      expect(getFreeHeroIds()).toEqual(["atreus"]);
+    });
+
+    it("should reject duplicate ids and unsorted perks", () => {
+      expect(() => registerHero(createHero({ id: "helix" }))).toThrow();
+      const perks = [...HERO_DEFINITIONS.atreus.perks].reverse();
+      expect(() => registerHero(createHero({ perks }))).toThrow();
+      expect(() =>
+        registerHero(
+          createHero({ unlockRequirement: { kind: "heroLevel", heroId: "nobody", level: 5 } }),
+        ),
+      ).toThrow();
+      expect(isValidHeroId("test_hero")).toBe(false);
+    });
+
+    it("should not treat object properties as hero ids", () => {
+      expect(isValidHeroId("toString")).toBe(false);
+      expect(getHeroSpriteKey("toString")).toBe(HERO_DEFINITIONS.atreus.sprite.key);
+    });
+
+    it("should give every hero its own sprite key", () => {
+      const keys = getAllHeroIds().map((id) => HERO_DEFINITIONS[id].sprite.key);
+      expect(new Set(keys).size).toBe(keys.length);
+    });
+  });
+
+  describe("unlock requirements", () => {
+    const progress = (levels: Record<string, number>, unlockedCount: number) => ({
+      getLevel: (heroId: string) => levels[heroId] ?? 1,
+      unlockedCount,
+    });
+
+    it("should check another hero's level", () => {
+      const vex = HERO_DEFINITIONS.vex;
+      expect(isHeroUnlockRequirementMet(vex, progress({ atreus: 9 }, 1))).toBe(false);
+      expect(isHeroUnlockRequirementMet(vex, progress({ atreus: 10 }, 1))).toBe(true);
+      expect(describeHeroUnlockRequirement(vex)).toBe("Atreus Lv.10");
+    });
+
+    it("should check the number of unlocked heroes", () => {
+      const lumina = HERO_DEFINITIONS.lumina;
+      expect(isHeroUnlockRequirementMet(lumina, progress({}, 1))).toBe(false);
+      expect(isHeroUnlockRequirementMet(lumina, progress({}, 2))).toBe(true);
+    });
+
+    it("should have no requirement for the original heroes", () => {
+      expect(describeHeroUnlockRequirement(HERO_DEFINITIONS.helix)).toBeNull();
+      expect(isHeroUnlockRequirementMet(HERO_DEFINITIONS.helix, progress({}, 0))).toBe(true);
+    });
+  });
+
+  describe("getHeroSkillConfig()", () => {
+    it("should use the base skill without skill perks", () => {
+      const config = getHeroSkillConfig("atreus", new Set([10, 20]));
+      const skill = HERO_DEFINITIONS.atreus.activeSkill;
+      expect(config).toMatchObject({
+        id: skill.id,
+        cooldownMs: skill.cooldownMs,
+        power: skill.power,
+        count: skill.count,
+      });
+    });
+
+    it("should apply unlocked skill perks", () => {
+      const atreus = getHeroSkillConfig("atreus", new Set([10, 20, 30, 40, 50]));
+      expect(atreus.cooldownMs).toBe(9000);
+      expect(atreus.count).toBe(18);
+
+      const helix = getHeroSkillConfig("helix", new Set([30, 50]));
+      expect(helix.durationMs).toBe(7000);
+      expect(helix.power).toBeCloseTo(0.8);
+    });
+
+    it("should ignore perks that are not unlocked", () => {
+      const meowgik = getHeroSkillConfig("meowgik", new Set([50]));
+      expect(meowgik.cooldownMs).toBe(HERO_DEFINITIONS.meowgik.activeSkill.cooldownMs);
+      expect(meowgik.count).toBe(12);
+    });
+
+    it("should carry the area of effect of area skills", () => {
+      expect(getHeroSkillConfig("garrick", new Set()).radius).toBe(150);
+      expect(getHeroSkillConfig("vex", new Set()).radius).toBe(0);
+    });
+  });
+});
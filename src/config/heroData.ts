@@ -1,6 +1,11 @@
 /**
  * Hero configuration data and definitions.
  * Contains all hero stats, abilities, and perk unlocks.
+ *
+ * Heroes live in an open registry: a HeroDefinition carries everything the game
+ * needs (stats, perks, active skill, run hooks, sprite and unlock rules), and
+ * registerHero() makes it available to HeroManager, the save defaults, the
+ * preloader and the hero screen. Adding a hero means adding one definition.
  */
 
 // ============================================
@@ -8,9 +13,9 @@
 // ============================================
 
 /**
- * Valid hero identifiers
+ * Hero identifier (any registered hero, see registerHero)
  */
-export type HeroId = "atreus" | "helix" | "meowgik";
+export type HeroId = string;
 
 /**
  * Currency types for hero unlocks
@@ -41,6 +46,42 @@ export interface HeroAbility {
   type: HeroAbilityType;
 }
 
+/**
+ * Active hero skill identifiers
+ */
+export type HeroSkillId =
+  | "arrow_rain"
+  | "rage_burst"
+  | "cat_swarm"
+  | "chain_shot"
+  | "spirit_legion"
+  | "whirlwind";
+
+/**
+ * Tap-to-use hero skill with a cooldown (HUD button or the skill key)
+ */
+export interface HeroActiveSkill {
+  id: HeroSkillId;
+  name: string;
+  description: string;
+  icon: string; // Emoji shown on the HUD button
+  cooldownMs: number;
+  power: number; // Damage as a multiple of player damage, or the boost it grants
+  count: number; // Arrows, cats... (0 if unused)
+  durationMs: number; // How long the effect lasts (0 for instant skills)
+  radius?: number; // Area of effect in px (area skills only)
+}
+
+/**
+ * Change to a hero's active skill granted by a perk
+ */
+export interface HeroSkillModifier {
+  cooldownMultiplier?: number;
+  powerMultiplier?: number;
+  countBonus?: number;
+  durationBonusMs?: number;
+}
+
 /**
  * Perk unlock milestone
  */
@@ -49,13 +90,42 @@ export interface HeroPerk {
   name: string;
   description: string;
   effect: {
-    type: "stat_boost" | "ability_enhance" | "special";
+    type: "stat_boost" | "ability_enhance" | "skill_enhance" | "special";
     stat?: "attack" | "health" | "attackSpeed" | "critChance" | "critDamage";
     value?: number; // Percentage boost (e.g., 0.05 = +5%)
     special?: string; // Special effect identifier
+    skill?: HeroSkillModifier; // Active skill changes (skill_enhance)
   };
 }
 
+/**
+ * Gameplay a hero brings into every run (applied by InitializationSystem)
+ */
+export interface HeroHooks {
+  /** Abilities the hero starts each run with (ids from abilityData.ts) */
+  startingAbilities?: { id: string; level: number }[];
+  /** Summons spirit cats that auto-attack (see getSpiritCatConfig) */
+  spiritCats?: boolean;
+  /** Max reach of the hero's attacks in px (close-range heroes) */
+  attackRange?: number;
+}
+
+/**
+ * Hero art, used in game and on the hero cards (loaded by PreloaderScene)
+ */
+export interface HeroSprite {
+  key: string; // Texture key
+  path: string; // Image file
+  tint?: number; // Lets a hero reuse another hero's art
+}
+
+/**
+ * Progress a hero needs on top of its price before it can be unlocked
+ */
+export type HeroUnlockRequirement =
+  | { kind: "heroLevel"; heroId: HeroId; level: number }
+  | { kind: "heroesUnlocked"; count: number };
+
 /**
  * Complete hero definition
  */
@@ -65,18 +135,32 @@ export interface HeroDefinition {
   description: string;
   unlockCost: number;
   unlockCurrency: UnlockCurrency;
+  unlockRequirement?: HeroUnlockRequirement;
   baseStats: HeroBaseStats;
   ability: HeroAbility;
+  activeSkill: HeroActiveSkill;
+  hooks: HeroHooks;
   perks: HeroPerk[];
-  icon: string; // Asset key for hero icon
+  sprite: HeroSprite;
 }
 
 // ============================================
 // Hero Definitions
 // ============================================
 
-export const HERO_DEFINITIONS: Record<HeroId, HeroDefinition> = {
-  atreus: {
+/** Hero selected on a new save (always unlocked) */
+export const DEFAULT_HERO_ID: HeroId = "atreus";
+
+/**
+ * Registered heroes by id, in registration order
+ */
+export const HERO_DEFINITIONS: Record<HeroId, HeroDefinition> = {};
+
+/**
+ * Heroes shipped with the game, registered at the end of this file
+ */
+const BUILT_IN_HEROES: HeroDefinition[] = [
+  {
     id: "atreus",
     name: "Atreus",
     description: "A balanced warrior with no weaknesses. Perfect for beginners.",
@@ -93,6 +177,17 @@ export const HERO_DEFINITIONS: Record<HeroId, HeroDefinition> = {
       description: "No special ability, but no weaknesses either.",
       type: "passive",
     },
+    activeSkill: {
+      id: "arrow_rain",
+      name: "Arrow Rain",
+      description: "Rains 12 arrows on the nearest enemies for 150% damage each",
+      icon: "🏹",
+      cooldownMs: 12000,
+      power: 1.5,
+      count: 12,
+      durationMs: 0,
+    },
+    hooks: {},
     perks: [
       {
         level: 10,
@@ -106,12 +201,24 @@ export const HERO_DEFINITIONS: Record<HeroId, HeroDefinition> = {
         description: "+10% max health",
         effect: { type: "stat_boost", stat: "health", value: 0.1 },
       },
+      {
+        level: 30,
+        name: "Quick Draw",
+        description: "Arrow Rain recharges 25% faster",
+        effect: { type: "skill_enhance", skill: { cooldownMultiplier: 0.75 } },
+      },
       {
         level: 40,
         name: "Swift Strike",
         description: "+15% attack speed",
         effect: { type: "stat_boost", stat: "attackSpeed", value: 0.15 },
       },
+      {
+        level: 50,
+        name: "Storm of Arrows",
+        description: "Arrow Rain fires 6 more arrows",
+        effect: { type: "skill_enhance", skill: { countBonus: 6 } },
+      },
       {
         level: 60,
         name: "Master Archer",
@@ -119,9 +226,9 @@ export const HERO_DEFINITIONS: Record<HeroId, HeroDefinition> = {
         effect: { type: "special", special: "master_archer" },
       },
     ],
-    icon: "hero_atreus",
+    sprite: { key: "atreusSprite", path: "assets/sprites/player/archer.png" },
   },
-  helix: {
+  {
     id: "helix",
     name: "Helix",
     description: "A fierce warrior with deadly precision. Higher crit chance and damage.",
@@ -138,6 +245,19 @@ export const HERO_DEFINITIONS: Record<HeroId, HeroDefinition> = {
       description: "+10% crit chance, +20% crit damage",
       type: "passive",
     },
+    activeSkill: {
+      id: "rage_burst",
+      name: "Rage Burst",
+      description: "+50% damage and attack speed for 5 seconds",
+      icon: "💢",
+      cooldownMs: 15000,
+      power: 0.5,
+      count: 0,
+      durationMs: 5000,
+    },
+    hooks: {
+      startingAbilities: [{ id: "crit_boost", level: 1 }],
+    },
     perks: [
       {
         level: 10,
@@ -151,12 +271,24 @@ export const HERO_DEFINITIONS: Record<HeroId, HeroDefinition> = {
         description: "+5% additional crit chance",
         effect: { type: "stat_boost", stat: "critChance", value: 0.05 },
       },
+      {
+        level: 30,
+        name: "Bloodlust",
+        description: "Rage Burst lasts 2 seconds longer",
+        effect: { type: "skill_enhance", skill: { durationBonusMs: 2000 } },
+      },
       {
         level: 40,
         name: "Executioner",
         description: "+25% crit damage",
         effect: { type: "stat_boost", stat: "critDamage", value: 0.25 },
       },
+      {
+        level: 50,
+        name: "Berserker",
+        description: "Rage Burst grants +80% instead of +50%",
+        effect: { type: "skill_enhance", skill: { powerMultiplier: 1.6 } },
+      },
       {
         level: 60,
         name: "Undying Rage",
@@ -164,9 +296,9 @@ export const HERO_DEFINITIONS: Record<HeroId, HeroDefinition> = {
         effect: { type: "special", special: "undying_rage" },
       },
     ],
-    icon: "hero_helix",
+    sprite: { key: "helixSprite", path: "assets/sprites/player/helix.png" },
   },
-  meowgik: {
+  {
     id: "meowgik",
     name: "Meowgik",
     description: "A wizard who summons spirit cats to fight alongside.",
@@ -183,6 +315,19 @@ export const HERO_DEFINITIONS: Record<HeroId, HeroDefinition> = {
       description: "Summons 2 spirit cats that auto-attack enemies",
       type: "summon",
     },
+    activeSkill: {
+      id: "cat_swarm",
+      name: "Cat Swarm",
+      description: "Unleashes 8 spirit cats that deal 100% damage each",
+      icon: "🐾",
+      cooldownMs: 10000,
+      power: 1.0,
+      count: 8,
+      durationMs: 0,
+    },
+    hooks: {
+      spiritCats: true,
+    },
     perks: [
       {
         level: 10,
@@ -196,12 +341,24 @@ export const HERO_DEFINITIONS: Record<HeroId, HeroDefinition> = {
         description: "+10% max health",
         effect: { type: "stat_boost", stat: "health", value: 0.1 },
       },
+      {
+        level: 30,
+        name: "Pounce",
+        description: "Cat Swarm recharges 20% faster",
+        effect: { type: "skill_enhance", skill: { cooldownMultiplier: 0.8 } },
+      },
       {
         level: 40,
         name: "Cat Army",
         description: "Summon 1 additional spirit cat (3 total)",
         effect: { type: "ability_enhance", special: "extra_cat" },
       },
+      {
+        level: 50,
+        name: "Stampede",
+        description: "Cat Swarm unleashes 4 more cats",
+        effect: { type: "skill_enhance", skill: { countBonus: 4 } },
+      },
       {
         level: 60,
         name: "Cat Lord",
@@ -209,9 +366,224 @@ export const HERO_DEFINITIONS: Record<HeroId, HeroDefinition> = {
         effect: { type: "special", special: "cat_crits" },
       },
     ],
-    icon: "hero_meowgik",
+    sprite: { key: "meowgikSprite", path: "assets/sprites/player/meowgik.png" },
   },
-};
+  {
+    id: "vex",
+    name: "Vex",
+    description: "A trick shooter whose arrows bounce from foe to foe.",
+    unlockCost: 2500,
+    unlockCurrency: "gold",
+    unlockRequirement: { kind: "heroLevel", heroId: "atreus", level: 10 },
+    baseStats: {
+      maxHealth: 95,
+      attack: 11,
+      attackSpeed: 1.0,
+    },
+    ability: {
+      id: "ricochet_expert",
+      name: "Ricochet Expert",
+      description: "Starts every run with Ricochet.",
+      type: "passive",
+    },
+    activeSkill: {
+      id: "chain_shot",
+      name: "Chain Shot",
+      description: "A shot bounces between 6 enemies for 120% damage each",
+      icon: "🎯",
+      cooldownMs: 9000,
+      power: 1.2,
+      count: 6,
+      durationMs: 0,
+    },
+    hooks: {
+      startingAbilities: [{ id: "ricochet", level: 1 }],
+    },
+    perks: [
+      {
+        level: 10,
+        name: "Sharp Eye",
+        description: "+5% crit chance",
+        effect: { type: "stat_boost", stat: "critChance", value: 0.05 },
+      },
+      {
+        level: 20,
+        name: "Light Step",
+        description: "+10% attack speed",
+        effect: { type: "stat_boost", stat: "attackSpeed", value: 0.1 },
+      },
+      {
+        level: 30,
+        name: "Long Chain",
+        description: "Chain Shot bounces 3 more times",
+        effect: { type: "skill_enhance", skill: { countBonus: 3 } },
+      },
+      {
+        level: 40,
+        name: "Hardened",
+        description: "+15% max health",
+        effect: { type: "stat_boost", stat: "health", value: 0.15 },
+      },
+      {
+        level: 50,
+        name: "Piercing Chain",
+        description: "Chain Shot deals 50% more damage",
+        effect: { type: "skill_enhance", skill: { powerMultiplier: 1.5 } },
+      },
+      {
+        level: 60,
+        name: "Trick Shot",
+        description: "+15% attack damage",
+        effect: { type: "stat_boost", stat: "attack", value: 0.15 },
+      },
+    ],
+    sprite: { key: "vexSprite", path: "assets/sprites/player/archer.png", tint: 0x66ddff },
+  },
+  {
+    id: "lumina",
+    name: "Lumina",
+    description: "A summoner who fights alongside a circle of spirits.",
+    unlockCost: 400,
+    unlockCurrency: "gems",
+    unlockRequirement: { kind: "heroesUnlocked", count: 2 },
+    baseStats: {
+      maxHealth: 90,
+      attack: 9,
+      attackSpeed: 1.0,
+    },
+    ability: {
+      id: "spirit_bond",
+      name: "Spirit Bond",
+      description: "Starts every run with Spirit Pets.",
+      type: "summon",
+    },
+    activeSkill: {
+      id: "spirit_legion",
+      name: "Spirit Legion",
+      description: "Calls 3 extra spirit pets for 8 seconds",
+      icon: "🌿",
+      cooldownMs: 16000,
+      power: 1,
+      count: 3,
+      durationMs: 8000,
+    },
+    hooks: {
+      startingAbilities: [{ id: "spirit_pets", level: 1 }],
+    },
+    perks: [
+      {
+        level: 10,
+        name: "Kindred Soul",
+        description: "+10% max health",
+        effect: { type: "stat_boost", stat: "health", value: 0.1 },
+      },
+      {
+        level: 20,
+        name: "Attunement",
+        description: "+10% attack damage",
+        effect: { type: "stat_boost", stat: "attack", value: 0.1 },
+      },
+      {
+        level: 30,
+        name: "Greater Legion",
+        description: "Spirit Legion calls 2 more pets",
+        effect: { type: "skill_enhance", skill: { countBonus: 2 } },
+      },
+      {
+        level: 40,
+        name: "Swift Spirits",
+        description: "+15% attack speed",
+        effect: { type: "stat_boost", stat: "attackSpeed", value: 0.15 },
+      },
+      {
+        level: 50,
+        name: "Lingering Spirits",
+        description: "Spirit Legion lasts 4 seconds longer",
+        effect: { type: "skill_enhance", skill: { durationBonusMs: 4000 } },
+      },
+      {
+        level: 60,
+        name: "Spirit Queen",
+        description: "+20% crit damage",
+        effect: { type: "stat_boost", stat: "critDamage", value: 0.2 },
+      },
+    ],
+    sprite: { key: "luminaSprite", path: "assets/sprites/player/meowgik.png", tint: 0x88ff88 },
+  },
+  {
+    id: "garrick",
+    name: "Garrick",
+    description: "A sturdy brawler who fights up close and hits hard.",
+    unlockCost: 3000,
+    unlockCurrency: "gold",
+    unlockRequirement: { kind: "heroLevel", heroId: "atreus", level: 20 },
+    baseStats: {
+      maxHealth: 140,
+      attack: 15,
+      attackSpeed: 1.05,
+    },
+    ability: {
+      id: "brawler",
+      name: "Brawler",
+      description: "Attacks only reach nearby enemies, but knock them back.",
+      type: "passive",
+    },
+    activeSkill: {
+      id: "whirlwind",
+      name: "Whirlwind",
+      description: "Spins to deal 250% damage to every nearby enemy",
+      icon: "🌀",
+      cooldownMs: 8000,
+      power: 2.5,
+      count: 0,
+      durationMs: 0,
+      radius: 150,
+    },
+    hooks: {
+      startingAbilities: [{ id: "knockback", level: 1 }],
+      attackRange: 170,
+    },
+    perks: [
+      {
+        level: 10,
+        name: "Thick Skin",
+        description: "+10% max health",
+        effect: { type: "stat_boost", stat: "health", value: 0.1 },
+      },
+      {
+        level: 20,
+        name: "Heavy Hands",
+        description: "+10% attack damage",
+        effect: { type: "stat_boost", stat: "attack", value: 0.1 },
+      },
+      {
+        level: 30,
+        name: "Momentum",
+        description: "Whirlwind recharges 25% faster",
+        effect: { type: "skill_enhance", skill: { cooldownMultiplier: 0.75 } },
+      },
+      {
+        level: 40,
+        name: "Iron Will",
+        description: "+20% max health",
+        effect: { type: "stat_boost", stat: "health", value: 0.2 },
+      },
+      {
+        level: 50,
+        name: "Cyclone",
+        description: "Whirlwind deals 50% more damage",
+        effect: { type: "skill_enhance", skill: { powerMultiplier: 1.5 } },
+      },
+      {
+        level: 60,
+        name: "Warlord",
+        description: "+10% crit chance",
+        effect: { type: "stat_boost", stat: "critChance", value: 0.1 },
+      },
+    ],
+    sprite: { key: "garrickSprite", path: "assets/sprites/player/helix.png", tint: 0xffaa66 },
+  },
+];
 
 // ============================================
 // Hero Level Configuration
@@ -339,22 +711,73 @@ export function getSpiritCatConfig(
   };
 }
 
+/**
+ * Active skill as it plays in a run, after perk modifiers
+ */
+export interface HeroSkillConfig {
+  id: HeroSkillId;
+  name: string;
+  icon: string;
+  cooldownMs: number;
+  power: number;
+  count: number;
+  durationMs: number;
+  radius: number;
+}
+
+/**
+ * Get a hero's active skill with its unlocked skill perks applied
+ * @param heroId The hero playing the run
+ * @param unlockedPerks Set of unlocked perk level milestones
+ * @returns Active skill configuration for the run
+ */
+export function getHeroSkillConfig(heroId: HeroId, unlockedPerks: Set<number>): HeroSkillConfig {
+  const hero = HERO_DEFINITIONS[heroId];
+  const skill = hero.activeSkill;
+  let cooldownMs = skill.cooldownMs;
+  let power = skill.power;
+  let count = skill.count;
+  let durationMs = skill.durationMs;
+
+  for (const perk of hero.perks) {
+    const modifier = perk.effect.skill;
+    if (perk.effect.type !== "skill_enhance" || !modifier || !unlockedPerks.has(perk.level)) {
+      continue;
+    }
+    cooldownMs *= modifier.cooldownMultiplier ?? 1;
+    power *= modifier.powerMultiplier ?? 1;
+    count += modifier.countBonus ?? 0;
+    durationMs += modifier.durationBonusMs ?? 0;
+  }
+
+  return {
+    id: skill.id,
+    name: skill.name,
+    icon: skill.icon,
+    cooldownMs: Math.round(cooldownMs),
+    power,
+    count,
+    durationMs,
+    radius: skill.radius ?? 0,
+  };
+}
+
 // ============================================
 // Utility Functions
 // ============================================
 
 /**
- * Get all hero IDs
+ * Get all hero IDs, in registration order
  */
 export function getAllHeroIds(): HeroId[] {
-  return Object.keys(HERO_DEFINITIONS) as HeroId[];
+  return Object.keys(HERO_DEFINITIONS);
 }
 
 /**
- * Check if a hero ID is valid
+ * Check if a hero ID is registered
  */
 export function isValidHeroId(id: string): id is HeroId {
-  return id in HERO_DEFINITIONS;
+  return Object.prototype.hasOwnProperty.call(HERO_DEFINITIONS, id);
 }
 
 /**
@@ -387,3 +810,96 @@ export function getNextPerk(heroId: HeroId, level: number): HeroPerk | null {
   const nextPerk = hero.perks.find((perk) => perk.level > level);
   return nextPerk ?? null;
 }
+
+/**
+ * Get free heroes (unlocked on every save)
+ */
+export function getFreeHeroIds(): HeroId[] {
+  return getAllHeroIds().filter((id) => HERO_DEFINITIONS[id].unlockCurrency === "free");
+}
+
+/**
+ * Texture key of a hero's sprite (falls back to the default hero)
+ */
+export function getHeroSpriteKey(heroId: HeroId): string {
+  return HERO_DEFINITIONS[isValidHeroId(heroId) ? heroId : DEFAULT_HERO_ID].sprite.key;
+}
+
+// ============================================
+// Unlock Requirements
+// ============================================
+
+/**
+ * Hero progress an unlock requirement is checked against
+ */
+export interface HeroUnlockProgress {
+  getLevel: (heroId: HeroId) => number;
+  unlockedCount: number;
+}
+
+/**
+ * Check if a hero's unlock requirement (besides its price) is met
+ */
+export function isHeroUnlockRequirementMet(
+  hero: HeroDefinition,
+  progress: HeroUnlockProgress,
+): boolean {
+  const requirement = hero.unlockRequirement;
+  if (!requirement) return true;
+  switch (requirement.kind) {
+    case "heroLevel":
+      return progress.getLevel(requirement.heroId) >= requirement.level;
+    case "heroesUnlocked":
+      return progress.unlockedCount >= requirement.count;
+  }
+}
+
+/**
+ * Short text for a hero's unlock requirement (e.g. "Atreus Lv.10"), or null if none
+ */
+export function describeHeroUnlockRequirement(hero: HeroDefinition): string | null {
+  const requirement = hero.unlockRequirement;
+  if (!requirement) return null;
+  switch (requirement.kind) {
+    case "heroLevel": {
+      const name = HERO_DEFINITIONS[requirement.heroId]?.name ?? requirement.heroId;
+      return `${name} Lv.${requirement.level}`;
+    }
+    case "heroesUnlocked":
+      return `${requirement.count} heroes unlocked`;
+  }
+}
+
+// ============================================
+// Hero Registry
+// ============================================
+
+/**
+ * Add a hero to the roster. The hero shows up on the hero screen, is loaded by
+ * the preloader and is added to existing saves (locked unless free).
+ * Throws if the definition is invalid.
+ */
+export function registerHero(definition: HeroDefinition): void {
+  const { id } = definition;
+  if (isValidHeroId(id)) {
+    throw new Error(`heroData: Hero "${id}" is already registered`);
+  }
+  const levels = definition.perks.map((perk) => perk.level);
+  if (levels.some((level, i) => level > HERO_MAX_LEVEL || (i > 0 && level <= levels[i - 1]))) {
+    throw new Error(
+      `heroData: Hero "${id}" perks must have increasing levels up to ${HERO_MAX_LEVEL}`,
+    );
+  }
+  if (definition.activeSkill.cooldownMs <= 0) {
+    throw new Error(`heroData: Hero "${id}" skill needs a cooldown`);
+  }
+  const requirement = definition.unlockRequirement;
+  if (requirement?.kind === "heroLevel" && !isValidHeroId(requirement.heroId)) {
+    throw new Error(`heroData: Hero "${id}" requires unknown hero "${requirement.heroId}"`);
+  }
+  HERO_DEFINITIONS[id] = definition;
+}
+
+for (const hero of BUILT_IN_HEROES) {
+  registerHero(hero);
+}
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for inventory filtering, sorting and salvage
+ */
+import { describe, it, expect } from "vitest";
+import {
+  BASE_SALVAGE_SCROLLS,
+  calculateSalvageYield,
+  countActiveFilters,
+  filterInventory,
+  getItemStatValue,
+  sortInventory,
+  summarizeBulkAction,
+} from "./inventoryData";
+import { calculateSellPrice } from "./equipmentData";
+import { Equipment, PerkId, Rarity, WeaponType } from "../systems/Equipment";
+
+function createItem(id: string, overrides: Partial<Equipment> = {}): Equipment {
+  return {
+    id,
+    type: WeaponType.BRAVE_BOW,
+    slot: "weapon",
+    rarity: Rarity.COMMON,
+    level: 1,
+    baseStats: { attackDamage: 10 },
+    perks: [],
+    setId: null,
+    locked: false,
+    name: "Brave Bow",
+    description: "",
+    ...overrides,
+  };
+}
+
+describe("inventoryData", () => {
+  const common = createItem("common", { level: 8 });
+  const rare = createItem("rare", {
+    rarity: Rarity.RARE,
+    level: 3,
+    perks: [PerkId.ATTACK_BOOST_SMALL, PerkId.CRIT_CHANCE_SMALL],
+  });
+  const ring = createItem("ring", {
+    slot: "ring",
+    rarity: Rarity.EPIC,
+    level: 3,
+    baseStats: { critChance: 0.05 },
+    perks: [PerkId.CRIT_CHANCE_SMALL],
+  });
+  const items = [common, rare, ring];
+
+  describe("filterInventory()", () => {
+    it("should combine slot, rarity and level filters", () => {
+      expect(filterInventory(items, { slot: "weapon" })).toEqual([common, rare]);
+      expect(filterInventory(items, { slot: "weapon", rarity: Rarity.RARE })).toEqual([rare]);
+      expect(filterInventory(items, { minLevel: 5 })).toEqual([common]);
+      expect(filterInventory(items, {})).toEqual(items);
+    });
+
+    it("should filter by perk and by stats from base stats or perks", () => {
+      expect(filterInventory(items, { perk: PerkId.CRIT_CHANCE_SMALL })).toEqual([rare, ring]);
+      expect(filterInventory(items, { stat: "critChance" })).toEqual([rare, ring]);
+      expect(filterInventory(items, { stat: "attackDamagePercent" })).toEqual([rare]);
+    });
+
+    it("should count the filters in use", () => {
+      expect(countActiveFilters({})).toBe(0);
+      expect(countActiveFilters({ slot: "ring", minLevel: 10, perk: undefined })).toBe(2);
+    });
+  });
+
+  describe("sortInventory()", () => {
+    it("should sort by rarity, level and slot without changing the input", () => {
+      expect(sortInventory(items, "rarity").map((item) => item.id)).toEqual([
+        "ring",
+        "rare",
+        "common",
+      ]);
+      expect(sortInventory(items, "level").map((item) => item.id)).toEqual([
+        "common",
+        "ring",
+        "rare",
+      ]);
+      expect(sortInventory(items, "slot").map((item) => item.id)).toEqual([
+        "rare",
+        "common",
+        "ring",
+      ]);
+      expect(items.map((item) => item.id)).toEqual(["common", "rare", "ring"]);
+    });
+
+    it("should sort by perk quality with perkless items last", () => {
+      expect(sortInventory(items, "perks")[2]).toBe(common);
+    });
+
+    it("should sort by a stat, highest first", () => {
+      expect(getItemStatValue(ring, "critChance")).toBeCloseTo(0.08);
+      expect(sortInventory(items, "stat", "critChance").map((item) => item.id)).toEqual([
+        "ring",
+        "rare",
+        "common",
+      ]);
+    });
+  });
+
+  describe("salvage", () => {
+    it("should return more scrolls for upgraded and rarer items", () => {
+      expect(calculateSalvageYield(Rarity.COMMON, 1)).toBe(BASE_SALVAGE_SCROLLS[Rarity.COMMON]);
+      expect(calculateSalvageYield(Rarity.COMMON, 10)).toBeGreaterThan(
+        calculateSalvageYield(Rarity.COMMON, 1),
+      );
+      expect(calculateSalvageYield(Rarity.EPIC, 1)).toBeGreaterThan(
+        calculateSalvageYield(Rarity.RARE, 1),
+      );
+    });
+
+    it("should summarize a bulk sell or salvage", () => {
+      const sell = summarizeBulkAction([common, rare], "sell");
+      expect(sell).toEqual({
+        action: "sell",
+        count: 2,
+        byRarity: { common: 1, rare: 1 },
+        reward: {
+          gold: calculateSellPrice(Rarity.COMMON, 8) + calculateSellPrice(Rarity.RARE, 3),
+          scrolls: 0,
+        },
+      });
+
+      const salvage = summarizeBulkAction([common, rare], "salvage");
+      expect(salvage.reward).toEqual({
+        gold: 0,
+        scrolls: calculateSalvageYield(Rarity.COMMON, 8) + calculateSalvageYield(Rarity.RARE, 3),
+      });
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Inventory Data - Filtering, sorting and salvaging inventory items
+ *
+ * EquipmentScene lists the inventory through filterInventory and
+ * sortInventory. Bulk mode sells or salvages many items at once: selling
+ * pays gold (calculateSellPrice), salvaging breaks items down into scrolls,
+ * the upgrade material, instead. Locked items are never sold, salvaged or
+ * fused (see EquipmentManager).
+ */
+
+import {
+  Equipment,
+  EquipmentSlotType,
+  EquipmentStats,
+  PerkId,
+  Rarity,
+  UpgradeCost,
+} from "../systems/Equipment";
+import {
+  PERKS,
+  calculatePerkQuality,
+  calculateSellPrice,
+  calculateTotalUpgradeCost,
+} from "./equipmentData";
+
+// ============================================
+// Types
+// ============================================
+
+export type InventorySortKey = "rarity" | "level" | "slot" | "perks" | "stat";
+
+export type InventoryStatKey = keyof EquipmentStats;
+
+/** Every field is optional; unset fields match all items */
+export interface InventoryFilter {
+  slot?: EquipmentSlotType;
+  rarity?: Rarity;
+  minLevel?: number;
+  perk?: PerkId;
+  /** Only items with a bonus to this stat (from base stats or perks) */
+  stat?: InventoryStatKey;
+}
+
+export type BulkAction = "sell" | "salvage";
+
+/** What a bulk sell or salvage of some items pays out */
+export interface BulkActionSummary {
+  action: BulkAction;
+  count: number;
+  byRarity: Partial<Record<Rarity, number>>;
+  reward: UpgradeCost;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Rarity order for sorting (highest first) */
+export const RARITY_SORT_ORDER: Record<Rarity, number> = {
+  [Rarity.LEGENDARY]: 5,
+  [Rarity.EPIC]: 4,
+  [Rarity.RARE]: 3,
+  [Rarity.GREAT]: 2,
+  [Rarity.COMMON]: 1,
+};
+
+/** Slot order for sorting */
+export const SLOT_SORT_ORDER: Record<EquipmentSlotType, number> = {
+  weapon: 1,
+  armor: 2,
+  ring: 3,
+  spirit: 4,
+};
+
+/** Minimum level filter steps */
+export const INVENTORY_LEVEL_FILTERS = [5, 10, 20, 30];
+
+/** Stats that can be filtered and sorted by, in display order */
+export const INVENTORY_STAT_KEYS: InventoryStatKey[] = [
+  "attackDamage",
+  "attackDamagePercent",
+  "attackSpeed",
+  "attackSpeedPercent",
+  "projectileSpeed",
+  "projectileSpeedPercent",
+  "maxHealth",
+  "maxHealthPercent",
+  "damageReduction",
+  "damageReductionPercent",
+  "critChance",
+  "critDamage",
+  "dodgeChance",
+  "bonusXPPercent",
+  "goldBonusPercent",
+];
+
+/** Scrolls from salvaging a level 1 item */
+export const BASE_SALVAGE_SCROLLS: Record<Rarity, number> = {
+  [Rarity.COMMON]: 1,
+  [Rarity.GREAT]: 2,
+  [Rarity.RARE]: 4,
+  [Rarity.EPIC]: 8,
+  [Rarity.LEGENDARY]: 16,
+};
+
+/** Share of the scrolls invested in upgrades that salvage returns */
+export const SALVAGE_UPGRADE_REFUND = 0.5;
+
+// ============================================
+// Filtering and Sorting
+// ============================================
+
+/**
+ * An item's value for one stat, base stats and perks combined
+ */
+export function getItemStatValue(item: Equipment, stat: InventoryStatKey): number {
+  let value = item.baseStats[stat] ?? 0;
+  for (const perkId of item.perks) {
+    value += PERKS[perkId]?.stats[stat] ?? 0;
+  }
+  return value;
+}
+
+/**
+ * Check if an item matches every set field of a filter
+ */
+export function matchesInventoryFilter(item: Equipment, filter: InventoryFilter): boolean {
+  if (filter.slot && item.slot !== filter.slot) return false;
+  if (filter.rarity && item.rarity !== filter.rarity) return false;
+  if (filter.minLevel && item.level < filter.minLevel) return false;
+  if (filter.perk && !item.perks.includes(filter.perk)) return false;
+  if (filter.stat && getItemStatValue(item, filter.stat) <= 0) return false;
+  return true;
+}
+
+export function filterInventory(items: readonly Equipment[], filter: InventoryFilter): Equipment[] {
+  return items.filter((item) => matchesInventoryFilter(item, filter));
+}
+
+/**
+ * Number of filter fields in use (shown on the filter button)
+ */
+export function countActiveFilters(filter: InventoryFilter): number {
+  return Object.values(filter).filter((value) => value !== undefined).length;
+}
+
+/**
+ * Sort items without changing the given array
+ * @param stat - Stat to sort by for the "stat" key (highest first)
+ */
+export function sortInventory(
+  items: readonly Equipment[],
+  key: InventorySortKey,
+  stat: InventoryStatKey = "attackDamage",
+): Equipment[] {
+  const byRarity = (a: Equipment, b: Equipment) =>
+    RARITY_SORT_ORDER[b.rarity] - RARITY_SORT_ORDER[a.rarity];
+
+  return [...items].sort((a, b) => {
+    switch (key) {
+      case "rarity":
+        // Rarity (highest first), then level (highest first)
+        return byRarity(a, b) || b.level - a.level;
+
+      case "level":
+        // Level (highest first), then rarity
+        return b.level - a.level || byRarity(a, b);
+
+      case "slot":
+        // Slot type, then rarity
+        return SLOT_SORT_ORDER[a.slot] - SLOT_SORT_ORDER[b.slot] || byRarity(a, b);
+
+      case "perks": {
+        // Perk quality (items without perks last), then perk count, then rarity
+        const qualityA = calculatePerkQuality(a.perks, a.rarity) ?? -1;
+        const qualityB = calculatePerkQuality(b.perks, b.rarity) ?? -1;
+        return qualityB - qualityA || b.perks.length - a.perks.length || byRarity(a, b);
+      }
+
+      case "stat":
+        // Stat value (highest first), then rarity
+        return getItemStatValue(b, stat) - getItemStatValue(a, stat) || byRarity(a, b);
+
+      default:
+        return 0;
+    }
+  });
+}
+
+// ============================================
+// Selling and Salvage
+// ============================================
+
+/**
+ * Calculate the scrolls from salvaging an item
+ * Returns the base yield plus half of the scrolls invested in upgrades
+ */
+export function calculateSalvageYield(rarity: Rarity, level: number): number {
+  const invested = level > 1 ? calculateTotalUpgradeCost(rarity, 1, level).scrolls : 0;
+  return BASE_SALVAGE_SCROLLS[rarity] + Math.floor(invested * SALVAGE_UPGRADE_REFUND);
+}
+
+/**
+ * Sum up what selling or salvaging these items pays out
+ */
+export function summarizeBulkAction(
+  items: readonly Equipment[],
+  action: BulkAction,
+): BulkActionSummary {
+  const byRarity: Partial<Record<Rarity, number>> = {};
+  const reward: UpgradeCost = { gold: 0, scrolls: 0 };
+
+  for (const item of items) {
+    byRarity[item.rarity] = (byRarity[item.rarity] ?? 0) + 1;
+    if (action === "sell") {
+      reward.gold += calculateSellPrice(item.rarity, item.level);
+    } else {
+      reward.scrolls += calculateSalvageYield(item.rarity, item.level);
+    }
+  }
+
+  return { action, count: items.length, byRarity, reward };
+}
@@ -0,0 +1,177 @@
+/**
+ * Loadout Data - Named presets of hero, gear, ability priority and difficulty
+ *
+ * A loadout stores the selected hero, the equipped item IDs per slot, the
+ * ability priority order with its max levels, and the difficulty. Items can
+ * be sold, salvaged or fused after a loadout is saved, and heroes or
+ * abilities can be removed in updates, so planLoadout works out what can
+ * still be applied: missing items leave their slot unchanged and a locked
+ * hero keeps the current one. LoadoutManager stores the presets.
+ */
+
+import { EQUIPMENT_SLOTS, type EquipmentSlotType } from "../systems/Equipment";
+import { DifficultyLevel } from "./difficulty";
+import { ABILITIES } from "./abilityData";
+import { isValidHeroId, type HeroId } from "./heroData";
+
+// ============================================
+// Types
+// ============================================
+
+/** The setup a loadout captures */
+export interface LoadoutSnapshot {
+  heroId: string;
+  /** Equipped item ID per slot (null = empty slot) */
+  equipment: Record<EquipmentSlotType, string | null>;
+  priorityOrder: string[];
+  priorityMaxLevels: Record<string, number>;
+  difficulty: DifficultyLevel;
+}
+
+export interface LoadoutPreset extends LoadoutSnapshot {
+  id: string;
+  name: string;
+  savedAt: number;
+}
+
+/** Lookups into the player's current heroes and inventory */
+export interface LoadoutEnvironment {
+  isHeroUnlocked: (heroId: HeroId) => boolean;
+  /** Slot of an inventory item, or null if the item no longer exists */
+  getItemSlot: (itemId: string) => EquipmentSlotType | null;
+}
+
+/** What applying a loadout changes */
+export interface LoadoutPlan {
+  /** Hero to select, or null to keep the current hero (locked or removed) */
+  heroId: HeroId | null;
+  /** Item to equip per slot (null = unequip); missing items are left out */
+  equipment: Partial<Record<EquipmentSlotType, string | null>>;
+  /** Slots whose saved item is gone (sold, salvaged or fused) */
+  missingSlots: EquipmentSlotType[];
+  priorityOrder: string[];
+  priorityMaxLevels: Record<string, number>;
+  /** Difficulty to select, or null if the saved one is unknown */
+  difficulty: DifficultyLevel | null;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Most loadouts a player can save */
+export const MAX_LOADOUTS = 4;
+
+/** Longest loadout name */
+export const LOADOUT_NAME_MAX_LENGTH = 14;
+
+const SLOT_NAMES: Record<EquipmentSlotType, string> = {
+  weapon: "Weapon",
+  armor: "Armor",
+  ring: "Ring",
+  spirit: "Spirit",
+};
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Trim and shorten a loadout name, falling back when it is empty
+ */
+export function normalizeLoadoutName(name: string, fallback: string): string {
+  const trimmed = name.trim().replace(/\s+/g, " ").slice(0, LOADOUT_NAME_MAX_LENGTH).trim();
+  return trimmed || fallback;
+}
+
+/**
+ * Check if a value (e.g. from save data) has the shape of a loadout preset
+ */
+export function isLoadoutPreset(value: unknown): value is LoadoutPreset {
+  if (typeof value !== "object" || value === null) return false;
+  const preset = value as Partial<LoadoutPreset>;
+  return (
+    typeof preset.id === "string" &&
+    typeof preset.name === "string" &&
+    typeof preset.heroId === "string" &&
+    typeof preset.equipment === "object" &&
+    preset.equipment !== null &&
+    Array.isArray(preset.priorityOrder) &&
+    typeof preset.difficulty === "string"
+  );
+}
+
+/**
+ * Check if a loadout matches a setup (used to highlight the loadout in use)
+ */
+export function isSameLoadout(a: LoadoutSnapshot, b: LoadoutSnapshot): boolean {
+  return (
+    a.heroId === b.heroId &&
+    a.difficulty === b.difficulty &&
+    EQUIPMENT_SLOTS.every((slot) => (a.equipment[slot] ?? null) === (b.equipment[slot] ?? null)) &&
+    a.priorityOrder.join(",") === b.priorityOrder.join(",") &&
+    JSON.stringify(sortRecord(a.priorityMaxLevels)) ===
+      JSON.stringify(sortRecord(b.priorityMaxLevels))
+  );
+}
+
+function sortRecord(record: Record<string, number>): [string, number][] {
+  return Object.entries(record)
+    .filter(([, value]) => value > 0)
+    .sort(([a], [b]) => a.localeCompare(b));
+}
+
+/**
+ * Work out what applying a loadout changes for the player's current heroes and items
+ */
+export function planLoadout(preset: LoadoutSnapshot, env: LoadoutEnvironment): LoadoutPlan {
+  const heroId =
+    isValidHeroId(preset.heroId) && env.isHeroUnlocked(preset.heroId) ? preset.heroId : null;
+
+  const equipment: Partial<Record<EquipmentSlotType, string | null>> = {};
+  const missingSlots: EquipmentSlotType[] = [];
+  for (const slot of EQUIPMENT_SLOTS) {
+    const itemId = preset.equipment[slot] ?? null;
+    if (itemId === null) {
+      equipment[slot] = null;
+    } else if (env.getItemSlot(itemId) === slot) {
+      equipment[slot] = itemId;
+    } else {
+      missingSlots.push(slot);
+    }
+  }
+
+  // Same sync as AbilityPriorityManager: drop removed abilities, append new ones
+  const abilityIds = ABILITIES.map((ability) => ability.id);
+  const priorityOrder = preset.priorityOrder.filter((id) => abilityIds.includes(id));
+  for (const id of abilityIds) {
+    if (!priorityOrder.includes(id)) {
+      priorityOrder.push(id);
+    }
+  }
+  const priorityMaxLevels = Object.fromEntries(
+    Object.entries(preset.priorityMaxLevels ?? {}).filter(
+      ([id, level]) => abilityIds.includes(id) && level > 0,
+    ),
+  );
+
+  const difficulty = Object.values(DifficultyLevel).includes(preset.difficulty)
+    ? preset.difficulty
+    : null;
+
+  return { heroId, equipment, missingSlots, priorityOrder, priorityMaxLevels, difficulty };
+}
+
+/**
+ * Short notes on the parts of a loadout that could not be applied
+ */
+export function describeLoadoutIssues(plan: LoadoutPlan): string[] {
+  const issues: string[] = [];
+  if (plan.heroId === null) {
+    issues.push("hero locked");
+  }
+  if (plan.missingSlots.length > 0) {
+    issues.push(`missing ${plan.missingSlots.map((slot) => SLOT_NAMES[slot]).join(", ")}`);
+  }
+  return issues;
+}
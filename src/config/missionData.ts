@@ -0,0 +1,266 @@
+/**
+ * Mission Data - Daily and weekly mission pools
+ *
+ * Each period draws a few missions from its pool. The draw is seeded by the
+ * period's UTC key, so missions reroll at the UTC reset (daily at midnight,
+ * weekly on Monday) like the daily challenge. Hero missions are only drawn
+ * for heroes the player has unlocked.
+ */
+
+import { SeededRandom } from "../systems/SeededRandom";
+import type { Reward } from "../systems/DailyRewardManager";
+import type { HeroId } from "./heroData";
+
+// ============================================
+// Types
+// ============================================
+
+export type MissionPeriod = "daily" | "weekly";
+
+/** What a mission counts */
+export type MissionObjective =
+  | "kill_enemies"
+  | "kill_bosses"
+  | "clear_rooms"
+  | "flawless_rooms"
+  | "finish_runs"
+  | "hero_runs"
+  | "earn_gold";
+
+export interface MissionDefinition {
+  id: string;
+  period: MissionPeriod;
+  objective: MissionObjective;
+  target: number;
+  /** Hero a "hero_runs" mission must be played with */
+  heroId?: HeroId;
+  description: string;
+  rewards: Reward[];
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const MISSION_PERIODS: MissionPeriod[] = ["daily", "weekly"];
+
+/** Missions drawn per period */
+export const MISSIONS_PER_PERIOD: Record<MissionPeriod, number> = {
+  daily: 3,
+  weekly: 3,
+};
+
+export const MISSION_PERIOD_LABELS: Record<MissionPeriod, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Daily mission pool
+ */
+export const DAILY_MISSIONS: MissionDefinition[] = [
+  {
+    id: "daily_kill_enemies",
+    period: "daily",
+    objective: "kill_enemies",
+    target: 200,
+    description: "Defeat 200 enemies",
+    rewards: [{ type: "gold", amount: 500 }],
+  },
+  {
+    id: "daily_kill_bosses",
+    period: "daily",
+    objective: "kill_bosses",
+    target: 3,
+    description: "Defeat 3 bosses",
+    rewards: [{ type: "gems", amount: 10 }],
+  },
+  {
+    id: "daily_clear_rooms",
+    period: "daily",
+    objective: "clear_rooms",
+    target: 30,
+    description: "Clear 30 rooms",
+    rewards: [{ type: "gold", amount: 800 }],
+  },
+  {
+    id: "daily_flawless_room",
+    period: "daily",
+    objective: "flawless_rooms",
+    target: 1,
+    description: "Clear a room without taking damage",
+    rewards: [{ type: "gems", amount: 5 }],
+  },
+  {
+    id: "daily_finish_runs",
+    period: "daily",
+    objective: "finish_runs",
+    target: 3,
+    description: "Finish 3 runs",
+    rewards: [{ type: "chest", amount: 1, chestType: "wooden" }],
+  },
+  {
+    id: "daily_earn_gold",
+    period: "daily",
+    objective: "earn_gold",
+    target: 1000,
+    description: "Earn 1,000 gold in runs",
+    rewards: [{ type: "gems", amount: 5 }],
+  },
+  {
+    id: "daily_hero_helix",
+    period: "daily",
+    objective: "hero_runs",
+    target: 1,
+    heroId: "helix",
+    description: "Finish a run with Helix",
+    rewards: [{ type: "chest", amount: 1, chestType: "silver" }],
+  },
+  {
+    id: "daily_hero_meowgik",
+    period: "daily",
+    objective: "hero_runs",
+    target: 1,
+    heroId: "meowgik",
+    description: "Finish a run with Meowgik",
+    rewards: [{ type: "chest", amount: 1, chestType: "silver" }],
+  },
+  {
+    id: "daily_hero_vex",
+    period: "daily",
+    objective: "hero_runs",
+    target: 1,
+    heroId: "vex",
+    description: "Finish a run with Vex",
+    rewards: [{ type: "chest", amount: 1, chestType: "silver" }],
+  },
+];
+
+/**
+ * Weekly mission pool
+ */
+export const WEEKLY_MISSIONS: MissionDefinition[] = [
+  {
+    id: "weekly_kill_enemies",
+    period: "weekly",
+    objective: "kill_enemies",
+    target: 2000,
+    description: "Defeat 2,000 enemies",
+    rewards: [{ type: "gems", amount: 40 }],
+  },
+  {
+    id: "weekly_kill_bosses",
+    period: "weekly",
+    objective: "kill_bosses",
+    target: 25,
+    description: "Defeat 25 bosses",
+    rewards: [{ type: "chest", amount: 1, chestType: "golden" }],
+  },
+  {
+    id: "weekly_clear_rooms",
+    period: "weekly",
+    objective: "clear_rooms",
+    target: 250,
+    description: "Clear 250 rooms",
+    rewards: [{ type: "gold", amount: 5000 }],
+  },
+  {
+    id: "weekly_flawless_rooms",
+    period: "weekly",
+    objective: "flawless_rooms",
+    target: 40,
+    description: "Clear 40 rooms without taking damage",
+    rewards: [{ type: "chest", amount: 2, chestType: "silver" }],
+  },
+  {
+    id: "weekly_finish_runs",
+    period: "weekly",
+    objective: "finish_runs",
+    target: 20,
+    description: "Finish 20 runs",
+    rewards: [{ type: "gems", amount: 30 }],
+  },
+  {
+    id: "weekly_earn_gold",
+    period: "weekly",
+    objective: "earn_gold",
+    target: 15000,
+    description: "Earn 15,000 gold in runs",
+    rewards: [{ type: "chest", amount: 1, chestType: "golden" }],
+  },
+  {
+    id: "weekly_hero_meowgik",
+    period: "weekly",
+    objective: "hero_runs",
+    target: 5,
+    heroId: "meowgik",
+    description: "Finish 5 runs with Meowgik",
+    rewards: [{ type: "gems", amount: 30 }],
+  },
+];
+
+const MISSION_POOLS: Record<MissionPeriod, MissionDefinition[]> = {
+  daily: DAILY_MISSIONS,
+  weekly: WEEKLY_MISSIONS,
+};
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Get a mission from either pool by id
+ */
+export function getMissionDefinition(id: string): MissionDefinition | undefined {
+  return (
+    DAILY_MISSIONS.find((mission) => mission.id === id) ??
+    WEEKLY_MISSIONS.find((mission) => mission.id === id)
+  );
+}
+
+/**
+ * Start of the UTC period containing a timestamp. Weeks start on Monday.
+ */
+function getPeriodStart(period: MissionPeriod, time: number): number {
+  const date = new Date(time);
+  const dayStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  if (period === "daily") {
+    return dayStart;
+  }
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return dayStart - daysSinceMonday * DAY_MS;
+}
+
+/**
+ * Get the UTC key of the period containing a timestamp - the date (YYYY-MM-DD)
+ * for daily missions, the date of the week's Monday for weekly missions
+ */
+export function getMissionPeriodKey(period: MissionPeriod, time: number = Date.now()): string {
+  return new Date(getPeriodStart(period, time)).toISOString().slice(0, 10);
+}
+
+/**
+ * Milliseconds until the period's missions reroll
+ */
+export function getTimeUntilMissionReset(period: MissionPeriod, time: number = Date.now()): number {
+  const length = period === "daily" ? DAY_MS : 7 * DAY_MS;
+  return getPeriodStart(period, time) + length - time;
+}
+
+/**
+ * Draw the missions for a period key. Pure - the same key and heroes always
+ * give the same missions.
+ */
+export function rollMissions(
+  period: MissionPeriod,
+  periodKey: string,
+  isHeroAvailable: (heroId: HeroId) => boolean = () => true,
+): MissionDefinition[] {
+  const rng = new SeededRandom(`missions:${period}:${periodKey}`);
+  const pool = MISSION_POOLS[period].filter(
+    (mission) => mission.heroId === undefined || isHeroAvailable(mission.heroId),
+  );
+  return rng.shuffle(pool).slice(0, MISSIONS_PER_PERIOD[period]);
+}
@@ -0,0 +1,255 @@
+/**
+ * Season Data - Season pass seasons, tiers and XP sources
+ *
+ * Seasons run between fixed UTC dates. The authored seasons in SEASONS are
+ * followed by generated GENERATED_SEASON_MONTHS-long seasons, so a season is
+ * always running once the first one has started. Season XP comes from gameplay
+ * (kills, room clears, finished runs) and claimed missions; every
+ * SEASON_XP_PER_TIER XP reaches the next tier. Each tier has a free reward and
+ * a premium reward. The premium track is a mocked entitlement until IAP exists.
+ */
+
+import type { Reward } from "../systems/DailyRewardManager";
+import type { MissionPeriod } from "./missionData";
+
+// ============================================
+// Types
+// ============================================
+
+export type SeasonTrack = "free" | "premium";
+
+export interface SeasonTier {
+  /** 1-based tier number */
+  tier: number;
+  /** Total season XP needed to reach the tier */
+  xpRequired: number;
+  free: Reward[];
+  premium: Reward[];
+}
+
+export interface SeasonDefinition {
+  id: string;
+  name: string;
+  /** First UTC day of the season (YYYY-MM-DD) */
+  startDate: string;
+  /** UTC day the season ends at midnight (YYYY-MM-DD, exclusive) */
+  endDate: string;
+  tiers: SeasonTier[];
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Season XP per tier */
+export const SEASON_XP_PER_TIER = 500;
+
+/** Length of each generated season after the authored ones (UTC months) */
+export const GENERATED_SEASON_MONTHS = 2;
+
+/** Tiers per generated season */
+const GENERATED_SEASON_TIERS = 40;
+
+/** Most generated seasons (keeps corrupt saved season ids within valid dates) */
+const MAX_GENERATED_SEASONS = 600;
+
+/** Names the generated seasons cycle through */
+const GENERATED_SEASON_NAMES = [
+  "Verdant Call",
+  "Sunforge",
+  "Storm Reach",
+  "Ashen Crown",
+  "Moonlit Hunt",
+  "Iron Vigil",
+];
+
+/** Season XP granted per gameplay event */
+export const SEASON_XP = {
+  enemyKill: 1,
+  bossKill: 20,
+  roomCleared: 5,
+  runFinished: 50,
+  missionClaimed: { daily: 100, weekly: 300 } as Record<MissionPeriod, number>,
+};
+
+// ============================================
+// Tier Generation
+// ============================================
+
+/**
+ * Free track: gold, with gems every 3rd tier, a Silver Chest every 5th and a
+ * Golden Chest every 10th
+ */
+function getFreeTierRewards(tier: number): Reward[] {
+  if (tier % 10 === 0) return [{ type: "chest", amount: 1, chestType: "golden" }];
+  if (tier % 5 === 0) return [{ type: "chest", amount: 1, chestType: "silver" }];
+  if (tier % 3 === 0) return [{ type: "gems", amount: 10 }];
+  return [{ type: "gold", amount: 200 + tier * 20 }];
+}
+
+/**
+ * Premium track: gems and energy, with chests on every 5th tier
+ */
+function getPremiumTierRewards(tier: number): Reward[] {
+  if (tier % 10 === 0) {
+    return [
+      { type: "chest", amount: 2, chestType: "golden" },
+      { type: "gems", amount: 50 },
+    ];
+  }
+  if (tier % 5 === 0) return [{ type: "chest", amount: 1, chestType: "golden" }];
+  if (tier % 2 === 0) return [{ type: "gems", amount: 20 }];
+  return [{ type: "energy", amount: 5 }];
+}
+
+/**
+ * Build a season's tiers
+ */
+function buildSeasonTiers(count: number): SeasonTier[] {
+  return Array.from({ length: count }, (_, index) => {
+    const tier = index + 1;
+    return {
+      tier,
+      xpRequired: tier * SEASON_XP_PER_TIER,
+      free: getFreeTierRewards(tier),
+      premium: getPremiumTierRewards(tier),
+    };
+  });
+}
+
+/**
+ * Authored seasons in order. Gaps between them are allowed - no XP is earned
+ * then. Generated seasons start when the last one ends, on the 1st of a month.
+ */
+export const SEASONS: SeasonDefinition[] = [
+  {
+    id: "season_1",
+    name: "Ember Rising",
+    startDate: "2026-09-01",
+    endDate: "2026-11-01",
+    tiers: buildSeasonTiers(40),
+  },
+  {
+    id: "season_2",
+    name: "Frostbound",
+    startDate: "2026-11-01",
+    endDate: "2027-01-01",
+    tiers: buildSeasonTiers(40),
+  },
+  {
+    id: "season_3",
+    name: "Shadow Tide",
+    startDate: "2027-01-01",
+    endDate: "2027-03-01",
+    tiers: buildSeasonTiers(50),
+  },
+];
+
+// ============================================
+// Generated Seasons
+// ============================================
+
+const generatedSeasons = new Map<number, SeasonDefinition>();
+
+/**
+ * Shift a YYYY-MM-DD date by whole UTC months
+ */
+function addUtcMonths(date: string, months: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1 + months, day)).toISOString().slice(0, 10);
+}
+
+/**
+ * Get the index-th season after the authored ones (0 = the first generated season)
+ */
+function getGeneratedSeason(index: number): SeasonDefinition {
+  let season = generatedSeasons.get(index);
+  if (!season) {
+    const firstStart = SEASONS[SEASONS.length - 1].endDate;
+    season = {
+      id: `season_${SEASONS.length + index + 1}`,
+      name: GENERATED_SEASON_NAMES[index % GENERATED_SEASON_NAMES.length],
+      startDate: addUtcMonths(firstStart, index * GENERATED_SEASON_MONTHS),
+      endDate: addUtcMonths(firstStart, (index + 1) * GENERATED_SEASON_MONTHS),
+      tiers: buildSeasonTiers(GENERATED_SEASON_TIERS),
+    };
+    generatedSeasons.set(index, season);
+  }
+  return season;
+}
+
+/**
+ * Index of the generated season running at a timestamp (-1 before the first)
+ */
+function getGeneratedSeasonIndex(time: number): number {
+  const firstStart = getSeasonEndTime(SEASONS[SEASONS.length - 1]);
+  if (time < firstStart) return -1;
+
+  const start = new Date(firstStart);
+  const at = new Date(time);
+  const months =
+    (at.getUTCFullYear() - start.getUTCFullYear()) * 12 + at.getUTCMonth() - start.getUTCMonth();
+  const index = Math.floor(months / GENERATED_SEASON_MONTHS);
+  return index < MAX_GENERATED_SEASONS ? index : -1;
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Get a season by id (authored or generated)
+ */
+export function getSeasonDefinition(id: string): SeasonDefinition | undefined {
+  const authored = SEASONS.find((season) => season.id === id);
+  if (authored) return authored;
+
+  const match = /^season_(\d+)$/.exec(id);
+  const index = match ? Number(match[1]) - SEASONS.length - 1 : -1;
+  return index >= 0 && index < MAX_GENERATED_SEASONS ? getGeneratedSeason(index) : undefined;
+}
+
+/**
+ * UTC start of a season (milliseconds)
+ */
+export function getSeasonStartTime(season: SeasonDefinition): number {
+  return Date.parse(`${season.startDate}T00:00:00Z`);
+}
+
+/**
+ * UTC end of a season (milliseconds, exclusive)
+ */
+export function getSeasonEndTime(season: SeasonDefinition): number {
+  return Date.parse(`${season.endDate}T00:00:00Z`);
+}
+
+/**
+ * Get the season running at a timestamp, if any
+ */
+export function getSeasonAt(time: number = Date.now()): SeasonDefinition | undefined {
+  const authored = SEASONS.find(
+    (season) => time >= getSeasonStartTime(season) && time < getSeasonEndTime(season),
+  );
+  if (authored) return authored;
+
+  const index = getGeneratedSeasonIndex(time);
+  return index >= 0 ? getGeneratedSeason(index) : undefined;
+}
+
+/**
+ * Get the next season to start after a timestamp, if any
+ */
+export function getNextSeason(time: number = Date.now()): SeasonDefinition | undefined {
+  const authored = SEASONS.find((season) => getSeasonStartTime(season) > time);
+  if (authored) return authored;
+
+  const index = getGeneratedSeasonIndex(time) + 1;
+  return index < MAX_GENERATED_SEASONS ? getGeneratedSeason(index) : undefined;
+}
+
+/**
+ * Highest tier reached with an amount of season XP (0 = none)
+ */
+export function getTierForXp(season: SeasonDefinition, xp: number): number {
+  return season.tiers.filter((tier) => xp >= tier.xpRequired).length;
+}
@@ -0,0 +1,240 @@
+/**
+ * Shop Data - Gem-priced offers sold in the ShopScene
+ *
+ * The catalog has three kinds of offers:
+ * - Chests and energy refills, always in stock (full refills are capped per day)
+ * - Bundles of chests, gold and energy with limited stock, restocked daily
+ *   or sold once per player
+ * - A daily equipment offer: one random item of a rolled rarity and slot.
+ *   The offer is derived from the local date, so it is the same all day and
+ *   rotates at midnight together with daily stock (like daily rewards).
+ */
+
+import { SeededRandom } from "../systems/SeededRandom";
+import { EQUIPMENT_SLOTS, Rarity, type EquipmentSlotType } from "../systems/Equipment";
+import type { Reward } from "../systems/DailyRewardManager";
+
+// ============================================
+// Types
+// ============================================
+
+export type ShopCategory = "chests" | "energy" | "bundles";
+
+/** When an offer's stock comes back */
+export type ShopRestock = "daily" | "never";
+
+export interface ShopOffer {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  category: ShopCategory;
+  gemCost: number;
+  rewards: Reward[];
+  /** Purchases allowed per restock period (unlimited when omitted) */
+  stock?: number;
+  restock?: ShopRestock;
+}
+
+/** Today's equipment offer - the item itself is generated on purchase */
+export interface DailyEquipmentOffer {
+  dayKey: string;
+  rarity: Rarity;
+  slot: EquipmentSlotType;
+  gemCost: number;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Ledger and stock id of the daily equipment offer */
+export const DAILY_EQUIPMENT_OFFER_ID = "daily_equipment";
+
+/** Purchases kept in the shop ledger */
+export const SHOP_LEDGER_LIMIT = 50;
+
+/** Relative chance of each rarity for the daily equipment offer */
+export const DAILY_OFFER_RARITY_WEIGHTS: Partial<Record<Rarity, number>> = {
+  [Rarity.RARE]: 60,
+  [Rarity.EPIC]: 32,
+  [Rarity.LEGENDARY]: 8,
+};
+
+/** Gem price of the daily equipment offer by rarity */
+export const DAILY_OFFER_GEM_COSTS: Record<Rarity, number> = {
+  [Rarity.COMMON]: 10,
+  [Rarity.GREAT]: 25,
+  [Rarity.RARE]: 60,
+  [Rarity.EPIC]: 150,
+  [Rarity.LEGENDARY]: 400,
+};
+
+/** Display order and labels of the shop sections */
+export const SHOP_CATEGORY_LABELS: Record<ShopCategory, string> = {
+  chests: "CHESTS",
+  energy: "ENERGY",
+  bundles: "BUNDLES",
+};
+
+/**
+ * All catalog offers, grouped by category in display order
+ */
+export const SHOP_OFFERS: ShopOffer[] = [
+  // ----------------------------------------
+  // Chests
+  // ----------------------------------------
+  {
+    id: "chest_wooden",
+    name: "Wooden Chest",
+    description: "1 Wooden Chest",
+    icon: "📦",
+    category: "chests",
+    gemCost: 15,
+    rewards: [{ type: "chest", amount: 1, chestType: "wooden" }],
+  },
+  {
+    id: "chest_silver",
+    name: "Silver Chest",
+    description: "1 Silver Chest",
+    icon: "🎁",
+    category: "chests",
+    gemCost: 40,
+    rewards: [{ type: "chest", amount: 1, chestType: "silver" }],
+  },
+  {
+    id: "chest_golden",
+    name: "Golden Chest",
+    description: "1 Golden Chest",
+    icon: "👑",
+    category: "chests",
+    gemCost: 100,
+    rewards: [{ type: "chest", amount: 1, chestType: "golden" }],
+  },
+
+  // ----------------------------------------
+  // Energy
+  // ----------------------------------------
+  {
+    id: "energy_small",
+    name: "Energy Snack",
+    description: "+5 Energy",
+    icon: "⚡",
+    category: "energy",
+    gemCost: 10,
+    rewards: [{ type: "energy", amount: 5 }],
+  },
+  {
+    id: "energy_full",
+    name: "Full Refill",
+    description: "Refill energy to 20",
+    icon: "🔋",
+    category: "energy",
+    gemCost: 30,
+    rewards: [{ type: "energy", amount: 20 }],
+    stock: 3,
+    restock: "daily",
+  },
+
+  // ----------------------------------------
+  // Bundles
+  // ----------------------------------------
+  {
+    id: "bundle_daily",
+    name: "Daily Supply",
+    description: "1 Silver Chest + 500 Gold + 5 Energy",
+    icon: "🧺",
+    category: "bundles",
+    gemCost: 25,
+    rewards: [
+      { type: "chest", amount: 1, chestType: "silver" },
+      { type: "gold", amount: 500 },
+      { type: "energy", amount: 5 },
+    ],
+    stock: 1,
+    restock: "daily",
+  },
+  {
+    id: "bundle_adventurer",
+    name: "Adventurer Pack",
+    description: "3 Silver Chests + 1 Golden Chest + 2000 Gold",
+    icon: "🎒",
+    category: "bundles",
+    gemCost: 180,
+    rewards: [
+      { type: "chest", amount: 3, chestType: "silver" },
+      { type: "chest", amount: 1, chestType: "golden" },
+      { type: "gold", amount: 2000 },
+    ],
+    stock: 2,
+    restock: "daily",
+  },
+  {
+    id: "bundle_starter",
+    name: "Starter Bundle",
+    description: "2 Golden Chests + 5000 Gold + Full Energy (once)",
+    icon: "🌟",
+    category: "bundles",
+    gemCost: 150,
+    rewards: [
+      { type: "chest", amount: 2, chestType: "golden" },
+      { type: "gold", amount: 5000 },
+      { type: "energy", amount: 20 },
+    ],
+    stock: 1,
+    restock: "never",
+  },
+];
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Get a catalog offer by id
+ */
+export function getShopOffer(id: string): ShopOffer | undefined {
+  return SHOP_OFFERS.find((offer) => offer.id === id);
+}
+
+/**
+ * Get the catalog offers of one category
+ */
+export function getShopOffersByCategory(category: ShopCategory): ShopOffer[] {
+  return SHOP_OFFERS.filter((offer) => offer.category === category);
+}
+
+/**
+ * Get the local date key (YYYY-MM-DD) the shop stock belongs to
+ */
+export function getShopDayKey(time: number = Date.now()): string {
+  const date = new Date(time);
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Milliseconds until the next local midnight, when the shop restocks
+ */
+export function getTimeUntilShopRefresh(time: number = Date.now()): number {
+  const date = new Date(time);
+  const tomorrow = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+  return tomorrow.getTime() - time;
+}
+
+/**
+ * Build the equipment offer for a date key. Pure - the same day always gives
+ * the same rarity, slot and price.
+ */
+export function createDailyEquipmentOffer(dayKey: string): DailyEquipmentOffer {
+  const rng = new SeededRandom(`shop:${dayKey}`);
+  const rarities = Object.keys(DAILY_OFFER_RARITY_WEIGHTS) as Rarity[];
+  const rarity = rng.weightedPick(
+    rarities,
+    rarities.map((entry) => DAILY_OFFER_RARITY_WEIGHTS[entry] ?? 0),
+  );
+  const slot = rng.pick(EQUIPMENT_SLOTS);
+
+  return { dayKey, rarity, slot, gemCost: DAILY_OFFER_GEM_COSTS[rarity] };
+}
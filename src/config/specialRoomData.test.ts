@@ -0,0 +1,91 @@
+/**
+ * Unit tests for angel/devil room offers
+ */
+import { describe, it, expect } from "vitest";
+import { SeededRandom } from "../systems/SeededRandom";
+import {
+  ANGEL_HEAL_PERCENT,
+  DEVIL_ABILITY_IDS,
+  DEVIL_MAX_HEALTH_COST_PERCENT,
+  DEVIL_ROOM_CHANCE,
+  createAngelOffer,
+  createDevilOffer,
+  getDevilRoomChance,
+  rollSpecialRoomType,
+} from "./specialRoomData";
+
+describe("specialRoomData", () => {
+  describe("rollSpecialRoomType()", () => {
+    it("should always be an angel without a preceding boss room", () => {
+      const rng = new SeededRandom(1);
+      for (let i = 0; i < 20; i++) {
+        expect(rollSpecialRoomType(rng, null)).toBe("angel");
+      }
+    });
+
+    it("should favour the devil after a flawless boss room", () => {
+      expect(getDevilRoomChance(false)).toBe(DEVIL_ROOM_CHANCE.flawless);
+      expect(getDevilRoomChance(true)).toBe(DEVIL_ROOM_CHANCE.damaged);
+      expect(DEVIL_ROOM_CHANCE.flawless).toBeGreaterThan(DEVIL_ROOM_CHANCE.damaged);
+
+      const rolls = 2000;
+      const countDevils = (tookDamage: boolean) => {
+        const rng = new SeededRandom(42);
+        let devils = 0;
+        for (let i = 0; i < rolls; i++) {
+          if (rollSpecialRoomType(rng, { tookDamage }) === "devil") devils++;
+        }
+        return devils / rolls;
+      };
+
+      expect(countDevils(false)).toBeCloseTo(DEVIL_ROOM_CHANCE.flawless, 1);
+      expect(countDevils(true)).toBeCloseTo(DEVIL_ROOM_CHANCE.damaged, 1);
+    });
+  });
+
+  describe("createAngelOffer()", () => {
+    it("should offer a heal and a non-devil ability", () => {
+      const offer = createAngelOffer(new SeededRandom(7), ["multishot", ...DEVIL_ABILITY_IDS]);
+
+      expect(offer.roomType).toBe("angel");
+      expect(offer.choices).toEqual([
+        { id: "heal", kind: "heal", healPercent: ANGEL_HEAL_PERCENT },
+        { id: "ability", kind: "ability", abilityId: "multishot" },
+      ]);
+    });
+
+    it("should only offer a heal when no ability is left", () => {
+      const offer = createAngelOffer(new SeededRandom(7), [...DEVIL_ABILITY_IDS]);
+
+      expect(offer.choices.map((choice) => choice.kind)).toEqual(["heal"]);
+    });
+  });
+
+  describe("createDevilOffer()", () => {
+    it("should trade max HP for a devil ability, or let the player walk away", () => {
+      const offer = createDevilOffer(new SeededRandom(7), ["multishot", "through_wall"], 200);
+
+      expect(offer?.roomType).toBe("devil");
+      expect(offer?.choices).toEqual([
+        {
+          id: "deal",
+          kind: "devilDeal",
+          abilityId: "through_wall",
+          maxHealthCost: 200 * DEVIL_MAX_HEALTH_COST_PERCENT,
+        },
+        { id: "decline", kind: "decline" },
+      ]);
+    });
+
+    it("should not appear when every devil ability is taken", () => {
+      expect(createDevilOffer(new SeededRandom(7), ["multishot"], 200)).toBeNull();
+    });
+
+    it("should be deterministic for the same seed", () => {
+      const available = ["multishot", ...DEVIL_ABILITY_IDS];
+      expect(createDevilOffer(new SeededRandom(99), available, 150)).toEqual(
+        createDevilOffer(new SeededRandom(99), available, 150),
+      );
+    });
+  });
+});
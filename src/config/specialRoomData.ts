@@ -0,0 +1,159 @@
+/**
+ * Special Room Data - Angel and devil room configuration
+ *
+ * Angel rooms (see STANDARD_ROOM_LAYOUT) have no enemies: an angel offers a
+ * heal or a free ability. The angel room that follows a boss or mini-boss may
+ * be taken over by a devil instead, who trades max HP for a devil ability.
+ * The devil shows up more often when the boss room was cleared without taking
+ * damage.
+ */
+
+import type { RoomType } from "./chapterData";
+import type { SeededRandom } from "../systems/SeededRandom";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Room types that host an NPC instead of enemies
+ */
+export type SpecialRoomType = Extract<RoomType, "angel" | "devil">;
+
+/**
+ * What a special room choice does
+ */
+export type SpecialRoomChoiceKind = "heal" | "ability" | "devilDeal" | "decline";
+
+/**
+ * One option offered by the angel or devil
+ */
+export interface SpecialRoomChoice {
+  /** Unique within the offer (recorded in replays) */
+  id: string;
+  kind: SpecialRoomChoiceKind;
+  /** Ability granted (ability and devilDeal choices) */
+  abilityId?: string;
+  /** Fraction of max HP healed (heal choice) */
+  healPercent?: number;
+  /** Max HP given up (devilDeal choice) */
+  maxHealthCost?: number;
+}
+
+/**
+ * Everything the NPC offers in one room
+ */
+export interface SpecialRoomOffer {
+  roomType: SpecialRoomType;
+  choices: SpecialRoomChoice[];
+}
+
+/**
+ * Angel/devil room counts for one run (shown on the game over screen)
+ */
+export interface SpecialRoomRunStats {
+  angelHeals: number;
+  angelAbilities: number;
+  devilRoomsSeen: number;
+  devilDealsAccepted: number;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Fraction of max HP restored by the angel's heal */
+export const ANGEL_HEAL_PERCENT = 0.4;
+
+/** Fraction of current max HP given up for a devil ability */
+export const DEVIL_MAX_HEALTH_COST_PERCENT = 0.2;
+
+/** Chance the angel room after a boss becomes a devil room */
+export const DEVIL_ROOM_CHANCE = {
+  /** Boss room cleared without taking damage */
+  flawless: 0.7,
+  /** Took damage in the boss room */
+  damaged: 0.25,
+};
+
+/** Abilities only the devil offers in special rooms */
+export const DEVIL_ABILITY_IDS: string[] = ["extra_life", "through_wall"];
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Create empty run stats
+ */
+export function createSpecialRoomRunStats(): SpecialRoomRunStats {
+  return { angelHeals: 0, angelAbilities: 0, devilRoomsSeen: 0, devilDealsAccepted: 0 };
+}
+
+/**
+ * Chance of a devil room, given how the preceding boss room went
+ */
+export function getDevilRoomChance(tookDamageInBossRoom: boolean): number {
+  return tookDamageInBossRoom ? DEVIL_ROOM_CHANCE.damaged : DEVIL_ROOM_CHANCE.flawless;
+}
+
+/**
+ * Decide who hosts an angel room. Only the first angel room after a boss
+ * room can become a devil room.
+ * @param bossRoomResult Damage taken in the preceding boss room, or null if
+ *   there was no boss room since the last special room
+ */
+export function rollSpecialRoomType(
+  rng: SeededRandom,
+  bossRoomResult: { tookDamage: boolean } | null,
+): SpecialRoomType {
+  if (!bossRoomResult) {
+    return "angel";
+  }
+  return rng.chance(getDevilRoomChance(bossRoomResult.tookDamage)) ? "devil" : "angel";
+}
+
+/**
+ * Angel offer: a heal, plus one random ability the player can still take
+ * @param availableAbilityIds Abilities not yet at max level
+ */
+export function createAngelOffer(
+  rng: SeededRandom,
+  availableAbilityIds: string[],
+): SpecialRoomOffer {
+  const choices: SpecialRoomChoice[] = [
+    { id: "heal", kind: "heal", healPercent: ANGEL_HEAL_PERCENT },
+  ];
+
+  const abilityIds = availableAbilityIds.filter((id) => !DEVIL_ABILITY_IDS.includes(id));
+  if (abilityIds.length > 0) {
+    choices.push({ id: "ability", kind: "ability", abilityId: rng.pick(abilityIds) });
+  }
+
+  return { roomType: "angel", choices };
+}
+
+/**
+ * Devil offer: one devil ability for a share of max HP, or walk away.
+ * Returns null when the player already has every devil ability.
+ * @param availableAbilityIds Abilities not yet at max level
+ */
+export function createDevilOffer(
+  rng: SeededRandom,
+  availableAbilityIds: string[],
+  maxHealth: number,
+): SpecialRoomOffer | null {
+  const devilAbilityIds = DEVIL_ABILITY_IDS.filter((id) => availableAbilityIds.includes(id));
+  if (devilAbilityIds.length === 0) {
+    return null;
+  }
+
+  const maxHealthCost = Math.max(1, Math.floor(maxHealth * DEVIL_MAX_HEALTH_COST_PERCENT));
+  return {
+    roomType: "devil",
+    choices: [
+      { id: "deal", kind: "devilDeal", abilityId: rng.pick(devilAbilityIds), maxHealthCost },
+      { id: "decline", kind: "decline" },
+    ],
+  };
+}
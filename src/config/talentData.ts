@@ -240,6 +240,50 @@ export function createDefaultBonuses(): TalentBonuses {
   };
 }
 
+/**
+ * Add one talent's bonus to a bonuses object
+ * Shared by lottery talents and talent tree nodes
+ */
+export function applyTalentEffect(
+  bonuses: TalentBonuses,
+  effectType: TalentEffectType,
+  value: number,
+  threshold?: number,
+): void {
+  switch (effectType) {
+    case "flat_hp":
+      bonuses.flatHp += value;
+      break;
+    case "flat_attack":
+      bonuses.flatAttack += value;
+      break;
+    case "percent_damage_reduction":
+      bonuses.percentDamageReduction += value;
+      break;
+    case "percent_attack_speed":
+      bonuses.percentAttackSpeed += value;
+      break;
+    case "flat_heal_on_level":
+      bonuses.flatHealOnLevel += value;
+      break;
+    case "percent_crit_chance":
+      bonuses.percentCritChance += value;
+      break;
+    case "percent_equipment_stats":
+      bonuses.percentEquipmentStats += value;
+      break;
+    case "starting_abilities":
+      bonuses.startingAbilities += value;
+      break;
+    case "percent_hp_when_low":
+      bonuses.percentHpWhenLow += value;
+      if (threshold) {
+        bonuses.lowHpThreshold = threshold;
+      }
+      break;
+  }
+}
+
 /**
  * Display colors for each tier
  */
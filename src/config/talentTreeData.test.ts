@@ -0,0 +1,72 @@
+/**
+ * Unit tests for the talent tree definition and helpers
+ */
+import { describe, it, expect } from "vitest";
+import {
+  RESPEC_BASE_GOLD,
+  RESPEC_GOLD_PER_POINT,
+  TALENT_TREE,
+  TalentTreeNodeId,
+  calculateRespecCost,
+  calculateTreeBonuses,
+  getAllTreeNodes,
+  getTreeNodeBlocker,
+  getTreePointsSpent,
+  sanitizeTreeRanks,
+} from "./talentTreeData";
+
+describe("talentTreeData", () => {
+  it("should only reference existing nodes in earlier rows as prerequisites", () => {
+    for (const node of getAllTreeNodes()) {
+      for (const requiredId of node.requires) {
+        expect(TALENT_TREE[requiredId]).toBeDefined();
+        expect(TALENT_TREE[requiredId].row).toBeLessThan(node.row);
+      }
+    }
+  });
+
+  it("should block nodes until every prerequisite has a rank", () => {
+    expect(getTreeNodeBlocker({}, TalentTreeNodeId.SHARPNESS)).toBeNull();
+    expect(getTreeNodeBlocker({}, TalentTreeNodeId.DEADEYE)).toBe("Requires Quick Draw, Precision");
+    expect(
+      getTreeNodeBlocker(
+        { [TalentTreeNodeId.QUICK_DRAW]: 1, [TalentTreeNodeId.PRECISION]: 2 },
+        TalentTreeNodeId.DEADEYE,
+      ),
+    ).toBeNull();
+    expect(getTreeNodeBlocker({ [TalentTreeNodeId.MASTERY]: 1 }, TalentTreeNodeId.MASTERY)).toBe(
+      "Max rank",
+    );
+  });
+
+  it("should count spent points by node cost", () => {
+    const ranks = { [TalentTreeNodeId.SHARPNESS]: 3, [TalentTreeNodeId.PRECISION]: 2 };
+    expect(getTreePointsSpent(ranks)).toBe(3 * 1 + 2 * 2);
+    expect(calculateRespecCost(0)).toBe(0);
+    expect(calculateRespecCost(7)).toBe(RESPEC_BASE_GOLD + 7 * RESPEC_GOLD_PER_POINT);
+  });
+
+  it("should turn ranks into talent bonuses", () => {
+    const bonuses = calculateTreeBonuses({
+      [TalentTreeNodeId.SHARPNESS]: 2,
+      [TalentTreeNodeId.DEADEYE]: 1,
+      [TalentTreeNodeId.LAST_STAND]: 2,
+    });
+    expect(bonuses.flatAttack).toBe(2 * 15 + 40);
+    expect(bonuses.percentHpWhenLow).toBe(30);
+    expect(bonuses.lowHpThreshold).toBe(30);
+    expect(bonuses.flatHp).toBe(0);
+  });
+
+  it("should drop unknown nodes and clamp ranks from save data", () => {
+    expect(
+      sanitizeTreeRanks({
+        sharpness: 9,
+        precision: 2,
+        mastery: -1,
+        removed_node: 3,
+        vitality: "2",
+      }),
+    ).toEqual({ [TalentTreeNodeId.SHARPNESS]: 5, [TalentTreeNodeId.PRECISION]: 2 });
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * Talent Tree Data - Planned alternative to the talent lottery
+ *
+ * The tree has three branches of nodes. Each rank of a node costs talent
+ * points (earned from hero level-ups, stored in SaveData.talentPoints), and a
+ * node needs every prerequisite at rank 1 or higher. A respec refunds all
+ * spent points for gold. Tree nodes use the same effect types as lottery
+ * talents, so both feed the same TalentBonuses. TalentManager tracks which
+ * mode is active; only the active mode's bonuses apply.
+ */
+
+import {
+  TalentBonuses,
+  TalentEffectType,
+  applyTalentEffect,
+  createDefaultBonuses,
+} from "./talentData";
+
+// ============================================
+// Type Definitions
+// ============================================
+
+/** Which talent system grants bonuses */
+export type TalentMode = "lottery" | "tree";
+
+export enum TalentTreeBranch {
+  OFFENSE = "offense",
+  DEFENSE = "defense",
+  UTILITY = "utility",
+}
+
+/**
+ * Unique identifiers for all tree nodes
+ */
+export enum TalentTreeNodeId {
+  // Offense
+  SHARPNESS = "sharpness",
+  QUICK_DRAW = "quick_draw",
+  PRECISION = "precision",
+  DEADEYE = "deadeye",
+
+  // Defense
+  VITALITY = "vitality",
+  TOUGHNESS = "toughness",
+  SECOND_WIND = "second_wind",
+  LAST_STAND = "last_stand",
+
+  // Utility
+  TINKERER = "tinkerer",
+  HEAD_START = "head_start",
+  MASTERY = "mastery",
+}
+
+export interface TalentTreeNode {
+  id: TalentTreeNodeId;
+  name: string;
+  description: string;
+  branch: TalentTreeBranch;
+  maxRank: number;
+  /** Talent points per rank */
+  cost: number;
+  effectType: TalentEffectType;
+  effectPerRank: number;
+  /** For threshold-based effects like Last Stand */
+  threshold?: number;
+  /** Nodes that need at least rank 1 first */
+  requires: TalentTreeNodeId[];
+  /** Grid position: column (0-4, halves allowed) and row (0 = root) */
+  col: number;
+  row: number;
+}
+
+/** Rank per node; missing nodes are rank 0 */
+export type TalentTreeRanks = Partial<Record<TalentTreeNodeId, number>>;
+
+// ============================================
+// Constants
+// ============================================
+
+/** Gold cost of a respec before the per-point cost */
+export const RESPEC_BASE_GOLD = 1000;
+
+/** Extra respec gold per spent talent point */
+export const RESPEC_GOLD_PER_POINT = 50;
+
+/** Talent points granted per hero level-up */
+export const TALENT_POINTS_PER_HERO_LEVEL = 1;
+
+/**
+ * Display colors for each branch
+ */
+export const BRANCH_COLORS: Record<TalentTreeBranch, string> = {
+  [TalentTreeBranch.OFFENSE]: "#ff6644",
+  [TalentTreeBranch.DEFENSE]: "#44aaff",
+  [TalentTreeBranch.UTILITY]: "#ffcc33",
+};
+
+// ============================================
+// Tree Definition
+// ============================================
+
+export const TALENT_TREE: Record<TalentTreeNodeId, TalentTreeNode> = {
+  // ----------------------------------------
+  // Offense
+  // ----------------------------------------
+  [TalentTreeNodeId.SHARPNESS]: {
+    id: TalentTreeNodeId.SHARPNESS,
+    name: "Sharpness",
+    description: "+15 attack per rank",
+    branch: TalentTreeBranch.OFFENSE,
+    maxRank: 5,
+    cost: 1,
+    effectType: "flat_attack",
+    effectPerRank: 15,
+    requires: [],
+    col: 0.5,
+    row: 0,
+  },
+  [TalentTreeNodeId.QUICK_DRAW]: {
+    id: TalentTreeNodeId.QUICK_DRAW,
+    name: "Quick Draw",
+    description: "+2% attack speed per rank",
+    branch: TalentTreeBranch.OFFENSE,
+    maxRank: 5,
+    cost: 1,
+    effectType: "percent_attack_speed",
+    effectPerRank: 2,
+    requires: [TalentTreeNodeId.SHARPNESS],
+    col: 0,
+    row: 1,
+  },
+  [TalentTreeNodeId.PRECISION]: {
+    id: TalentTreeNodeId.PRECISION,
+    name: "Precision",
+    description: "+2% crit chance per rank",
+    branch: TalentTreeBranch.OFFENSE,
+    maxRank: 5,
+    cost: 2,
+    effectType: "percent_crit_chance",
+    effectPerRank: 2,
+    requires: [TalentTreeNodeId.SHARPNESS],
+    col: 1,
+    row: 1,
+  },
+  [TalentTreeNodeId.DEADEYE]: {
+    id: TalentTreeNodeId.DEADEYE,
+    name: "Deadeye",
+    description: "+40 attack per rank",
+    branch: TalentTreeBranch.OFFENSE,
+    maxRank: 3,
+    cost: 3,
+    effectType: "flat_attack",
+    effectPerRank: 40,
+    requires: [TalentTreeNodeId.QUICK_DRAW, TalentTreeNodeId.PRECISION],
+    col: 0.5,
+    row: 2,
+  },
+
+  // ----------------------------------------
+  // Defense
+  // ----------------------------------------
+  [TalentTreeNodeId.VITALITY]: {
+    id: TalentTreeNodeId.VITALITY,
+    name: "Vitality",
+    description: "+60 max HP per rank",
+    branch: TalentTreeBranch.DEFENSE,
+    maxRank: 5,
+    cost: 1,
+    effectType: "flat_hp",
+    effectPerRank: 60,
+    requires: [],
+    col: 2.5,
+    row: 0,
+  },
+  [TalentTreeNodeId.TOUGHNESS]: {
+    id: TalentTreeNodeId.TOUGHNESS,
+    name: "Toughness",
+    description: "+2% damage reduction per rank",
+    branch: TalentTreeBranch.DEFENSE,
+    maxRank: 5,
+    cost: 2,
+    effectType: "percent_damage_reduction",
+    effectPerRank: 2,
+    requires: [TalentTreeNodeId.VITALITY],
+    col: 2,
+    row: 1,
+  },
+  [TalentTreeNodeId.SECOND_WIND]: {
+    id: TalentTreeNodeId.SECOND_WIND,
+    name: "Second Wind",
+    description: "+30 HP when leveling during run per rank",
+    branch: TalentTreeBranch.DEFENSE,
+    maxRank: 5,
+    cost: 1,
+    effectType: "flat_heal_on_level",
+    effectPerRank: 30,
+    requires: [TalentTreeNodeId.VITALITY],
+    col: 3,
+    row: 1,
+  },
+  [TalentTreeNodeId.LAST_STAND]: {
+    id: TalentTreeNodeId.LAST_STAND,
+    name: "Last Stand",
+    description: "+15% HP when below 30% HP per rank",
+    branch: TalentTreeBranch.DEFENSE,
+    maxRank: 3,
+    cost: 3,
+    effectType: "percent_hp_when_low",
+    effectPerRank: 15,
+    threshold: 30,
+    requires: [TalentTreeNodeId.TOUGHNESS],
+    col: 2,
+    row: 2,
+  },
+
+  // ----------------------------------------
+  // Utility
+  // ----------------------------------------
+  [TalentTreeNodeId.TINKERER]: {
+    id: TalentTreeNodeId.TINKERER,
+    name: "Tinkerer",
+    description: "+2% equipment stats per rank",
+    branch: TalentTreeBranch.UTILITY,
+    maxRank: 5,
+    cost: 1,
+    effectType: "percent_equipment_stats",
+    effectPerRank: 2,
+    requires: [],
+    col: 4,
+    row: 0,
+  },
+  [TalentTreeNodeId.HEAD_START]: {
+    id: TalentTreeNodeId.HEAD_START,
+    name: "Head Start",
+    description: "Start runs with 1 random ability per rank",
+    branch: TalentTreeBranch.UTILITY,
+    maxRank: 2,
+    cost: 4,
+    effectType: "starting_abilities",
+    effectPerRank: 1,
+    requires: [TalentTreeNodeId.TINKERER, TalentTreeNodeId.SECOND_WIND],
+    col: 3.5,
+    row: 2,
+  },
+  [TalentTreeNodeId.MASTERY]: {
+    id: TalentTreeNodeId.MASTERY,
+    name: "Mastery",
+    description: "+5% equipment stats",
+    branch: TalentTreeBranch.UTILITY,
+    maxRank: 1,
+    cost: 5,
+    effectType: "percent_equipment_stats",
+    effectPerRank: 5,
+    requires: [TalentTreeNodeId.DEADEYE, TalentTreeNodeId.LAST_STAND, TalentTreeNodeId.HEAD_START],
+    col: 2,
+    row: 3,
+  },
+};
+
+// ============================================
+// Helper Functions
+// ============================================
+
+export function getTreeNode(id: TalentTreeNodeId): TalentTreeNode {
+  return TALENT_TREE[id];
+}
+
+export function getAllTreeNodes(): TalentTreeNode[] {
+  return Object.values(TALENT_TREE);
+}
+
+export function isTreeNodeId(id: string): id is TalentTreeNodeId {
+  return Object.values(TalentTreeNodeId).includes(id as TalentTreeNodeId);
+}
+
+/**
+ * Why the next rank of a node can't be bought, or null if it can
+ * (talent points are checked separately)
+ */
+export function getTreeNodeBlocker(ranks: TalentTreeRanks, id: TalentTreeNodeId): string | null {
+  const node = getTreeNode(id);
+  if ((ranks[id] ?? 0) >= node.maxRank) {
+    return "Max rank";
+  }
+  const missing = node.requires.filter((requiredId) => (ranks[requiredId] ?? 0) <= 0);
+  if (missing.length > 0) {
+    return `Requires ${missing.map((requiredId) => getTreeNode(requiredId).name).join(", ")}`;
+  }
+  return null;
+}
+
+/**
+ * Total talent points spent in the tree
+ */
+export function getTreePointsSpent(ranks: TalentTreeRanks): number {
+  let spent = 0;
+  for (const [id, rank] of Object.entries(ranks)) {
+    if (isTreeNodeId(id) && rank) {
+      spent += rank * getTreeNode(id).cost;
+    }
+  }
+  return spent;
+}
+
+/**
+ * Gold cost to refund every spent point (free when nothing is spent)
+ */
+export function calculateRespecCost(pointsSpent: number): number {
+  return pointsSpent > 0 ? RESPEC_BASE_GOLD + pointsSpent * RESPEC_GOLD_PER_POINT : 0;
+}
+
+/**
+ * Drop unknown nodes and clamp ranks to 0..maxRank (e.g. from save data)
+ */
+export function sanitizeTreeRanks(raw: Record<string, unknown>): TalentTreeRanks {
+  const ranks: TalentTreeRanks = {};
+  for (const [id, rank] of Object.entries(raw)) {
+    if (!isTreeNodeId(id) || typeof rank !== "number" || !Number.isFinite(rank)) continue;
+    const clamped = Math.max(0, Math.min(Math.floor(rank), getTreeNode(id).maxRank));
+    if (clamped > 0) {
+      ranks[id] = clamped;
+    }
+  }
+  return ranks;
+}
+
+/**
+ * Calculate bonuses from the tree's ranked nodes
+ */
+export function calculateTreeBonuses(ranks: TalentTreeRanks): TalentBonuses {
+  const bonuses = createDefaultBonuses();
+  for (const node of getAllTreeNodes()) {
+    const rank = ranks[node.id] ?? 0;
+    if (rank <= 0) continue;
+    applyTalentEffect(bonuses, node.effectType, rank * node.effectPerRank, node.threshold);
+  }
+  return bonuses;
+}
@@ -26,9 +26,6 @@ export const THEME_COLORS = {
 
 // Theme assets (medieval)
 export const THEME_ASSETS = {
-  atreusSprite: "atreusSprite",
-  helixSprite: "helixSprite",
-  meowgikSprite: "meowgikSprite",
   bulletSprite: "bulletSprite",
   menuBg: "menuBg",
   playButton: "playButton_medieval",
@@ -56,8 +53,6 @@ export const THEME_ASSETS = {
   enemyMinion: "enemyMinion",
 };
 
-export type HeroId = "atreus" | "helix" | "meowgik";
-
 // Map enemyType to the corresponding sprite key
 export function getEnemySpriteKey(enemyType: string): string {
   switch (enemyType) {
@@ -86,20 +81,6 @@ export function getEnemySpriteKey(enemyType: string): string {
   }
 }
 
-// Map heroId to the corresponding sprite key
-export function getHeroSpriteKey(heroId: HeroId): string {
-  switch (heroId) {
-    case "atreus":
-      return THEME_ASSETS.atreusSprite;
-    case "helix":
-      return THEME_ASSETS.helixSprite;
-    case "meowgik":
-      return THEME_ASSETS.meowgikSprite;
-    default:
-      return THEME_ASSETS.atreusSprite;
-  }
-}
-
 // Default enemy names
 const DEFAULT_ENEMY_NAMES: Record<string, string> = {
   melee: "Slime",
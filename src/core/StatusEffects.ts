@@ -122,6 +122,9 @@ export class StatusEffectSystem {
 
   private tints: StatusEffectTint = { ...DEFAULT_TINTS };
 
+  // Effects that are never applied (elite affixes)
+  private immunities: Set<StatusEffectType> = new Set();
+
   constructor(options?: {
     freezeDuration?: number;
     poisonMaxStacks?: number;
@@ -131,6 +134,7 @@ export class StatusEffectSystem {
     bleedTickInterval?: number;
     bleedMovingMultiplier?: number;
     tints?: Partial<StatusEffectTint>;
+    immuneTo?: StatusEffectType[];
   }) {
     if (options?.freezeDuration) this.freeze.duration = options.freezeDuration;
     if (options?.poisonMaxStacks) this.poison.maxStacks = options.poisonMaxStacks;
@@ -140,6 +144,14 @@ export class StatusEffectSystem {
     if (options?.bleedTickInterval) this.bleed.tickInterval = options.bleedTickInterval;
     if (options?.bleedMovingMultiplier) this.bleed.movingMultiplier = options.bleedMovingMultiplier;
     if (options?.tints) this.tints = { ...DEFAULT_TINTS, ...options.tints };
+    if (options?.immuneTo) this.immunities = new Set(options.immuneTo);
+  }
+
+  /**
+   * Check if an effect is ignored by this entity
+   */
+  isImmuneTo(type: StatusEffectType): boolean {
+    return this.immunities.has(type);
   }
 
   /**
@@ -149,7 +161,7 @@ export class StatusEffectSystem {
    * @param currentTime Current game time
    */
   applyFire(damage: number, duration: number = 2000, currentTime: number): void {
-    if (damage <= 0) return;
+    if (damage <= 0 || this.immunities.has("fire")) return;
 
     this.fire.damage = damage;
     this.fire.ticks = Math.ceil(duration / this.fire.tickInterval);
@@ -162,6 +174,7 @@ export class StatusEffectSystem {
    * @param duration Optional custom duration
    */
   applyFreeze(currentTime: number, duration?: number): void {
+    if (this.immunities.has("freeze")) return;
     this._isFrozen = true;
     this.freeze.endTime = currentTime + (duration ?? this.freeze.duration);
   }
@@ -172,7 +185,7 @@ export class StatusEffectSystem {
    * @param currentTime Current game time
    */
   applyPoison(damage: number, currentTime: number): void {
-    if (damage <= 0) return;
+    if (damage <= 0 || this.immunities.has("poison")) return;
 
     // Stack poison up to max
     if (this.poison.stacks < this.poison.maxStacks) {
@@ -191,7 +204,7 @@ export class StatusEffectSystem {
    * @param duration Duration in ms (default 3000ms)
    */
   applyBleed(damage: number, currentTime: number, duration: number = 3000): void {
-    if (damage <= 0) return;
+    if (damage <= 0 || this.immunities.has("bleed")) return;
 
     this.bleed.damage = damage;
     this.bleed.duration = duration;
@@ -205,6 +218,7 @@ export class StatusEffectSystem {
    * @param duration Optional custom duration (default 150ms)
    */
   applyKnockback(currentTime: number, duration?: number): void {
+    if (this.immunities.has("knockback")) return;
     this._isKnockedBack = true;
     this.knockback.endTime = currentTime + (duration ?? this.knockback.duration);
   }
@@ -5,7 +5,8 @@
  * Each chest type has different rarity drop rates for equipment.
  */
 
-import { Rarity } from "../systems/Equipment";
+import { EquipmentSetId, Rarity } from "../systems/Equipment";
+import { rollEquipmentSetId } from "../config/equipmentSetData";
 
 // ============================================
 // Chest Type Definitions
@@ -25,6 +26,9 @@ export interface ChestConfig {
   color: string; // Display color
   icon: string; // Unicode icon for display
   dropRates: Record<Rarity, number>; // Must sum to 100
+  setDropChance: number; // 0-1 chance the equipment is a set piece
+  /** Opens without an Epic or Legendary that guarantee one (chests that can drop them) */
+  pityThreshold?: number;
 }
 
 /**
@@ -43,6 +47,7 @@ export const CHEST_CONFIGS: Record<ChestType, ChestConfig> = {
       [Rarity.EPIC]: 0,
       [Rarity.LEGENDARY]: 0,
     },
+    setDropChance: 0.05,
   },
   silver: {
     name: "Silver Chest",
@@ -56,6 +61,8 @@ export const CHEST_CONFIGS: Record<ChestType, ChestConfig> = {
       [Rarity.EPIC]: 5,
       [Rarity.LEGENDARY]: 0,
     },
+    setDropChance: 0.12,
+    pityThreshold: 40,
   },
   golden: {
     name: "Golden Chest",
@@ -69,6 +76,8 @@ export const CHEST_CONFIGS: Record<ChestType, ChestConfig> = {
       [Rarity.EPIC]: 25,
       [Rarity.LEGENDARY]: 5,
     },
+    setDropChance: 0.25,
+    pityThreshold: 10,
   },
 };
 
@@ -397,26 +406,97 @@ export function getTotalChests(rewards: ChestRewards): number {
 // Rarity Selection
 // ============================================
 
+/** Rarities that reset a chest's pity counter */
+export const PITY_RARITIES: Rarity[] = [Rarity.EPIC, Rarity.LEGENDARY];
+
 /**
  * Roll for a random rarity based on chest drop rates
  *
  * @param chestType - Type of chest being opened
+ * @param pityCount - Opens of this chest type since the last Epic or Legendary
  * @returns The rolled rarity
  */
-export function rollChestRarity(chestType: ChestType): Rarity {
+export function rollChestRarity(chestType: ChestType, pityCount: number = 0): Rarity {
   const config = CHEST_CONFIGS[chestType];
-  const roll = Math.random() * 100;
+
+  // Pity: the threshold-th open without one is guaranteed Epic or Legendary,
+  // split by the chest's own Epic:Legendary rates
+  const rarities = isPityGuaranteed(chestType, pityCount)
+    ? PITY_RARITIES
+    : [Rarity.COMMON, Rarity.GREAT, Rarity.RARE, Rarity.EPIC, Rarity.LEGENDARY];
+  const ordered = [...rarities].reverse();
+  const total = ordered.reduce((sum, rarity) => sum + config.dropRates[rarity], 0);
+  const roll = Math.random() * total;
 
   let cumulative = 0;
-  for (const rarity of [Rarity.LEGENDARY, Rarity.EPIC, Rarity.RARE, Rarity.GREAT, Rarity.COMMON]) {
+  for (const rarity of ordered) {
     cumulative += config.dropRates[rarity];
     if (roll < cumulative) {
       return rarity;
     }
   }
 
-  // Fallback to common (should never reach here)
-  return Rarity.COMMON;
+  // Fallback to the lowest rarity in the pool (should never reach here)
+  return rarities[0];
+}
+
+/**
+ * Check if the next open of a chest type is a guaranteed Epic or Legendary
+ *
+ * @param pityCount - Opens of this chest type since the last Epic or Legendary
+ */
+export function isPityGuaranteed(chestType: ChestType, pityCount: number): boolean {
+  const threshold = CHEST_CONFIGS[chestType].pityThreshold;
+  return threshold !== undefined && pityCount >= threshold - 1;
+}
+
+// ============================================
+// Drop History
+// ============================================
+
+/** Most recent chest drops kept in the drop history */
+export const DROP_HISTORY_LIMIT = 100;
+
+/**
+ * One opened chest's equipment drop
+ */
+export interface ChestDropRecord {
+  chestType: ChestType;
+  rarity: Rarity;
+  itemName: string;
+  /** Whether the pity counter guaranteed this drop */
+  isPity: boolean;
+  openedAt: number;
+}
+
+/**
+ * Count drops per rarity (used to compare the history with the published rates)
+ */
+export function countDropsByRarity(records: readonly ChestDropRecord[]): Record<Rarity, number> {
+  const counts: Record<Rarity, number> = {
+    [Rarity.COMMON]: 0,
+    [Rarity.GREAT]: 0,
+    [Rarity.RARE]: 0,
+    [Rarity.EPIC]: 0,
+    [Rarity.LEGENDARY]: 0,
+  };
+  for (const record of records) {
+    counts[record.rarity]++;
+  }
+  return counts;
+}
+
+/**
+ * Roll whether a chest's equipment is a set piece, and of which set
+ *
+ * @param chestType - Type of chest being opened
+ * @returns The set of the dropped piece, or null for regular equipment
+ */
+export function rollChestSetDrop(chestType: ChestType): EquipmentSetId | null {
+  if (Math.random() >= CHEST_CONFIGS[chestType].setDropChance) {
+    return null;
+  }
+  return rollEquipmentSetId();
 }
 
 // ============================================
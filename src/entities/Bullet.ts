@@ -1,9 +1,13 @@
 import Phaser from "phaser";
+import { randomStreams } from "../systems/RandomStreams";
 
 export default class Bullet extends Phaser.Physics.Arcade.Sprite {
   private speed: number = 400;
   private lifetime: number = 10000; // 10 seconds - generous fallback, bullets should hit or go off-screen first
   private spawnTime: number = 0;
+  private spawnX: number = 0;
+  private spawnY: number = 0;
+  private maxRange: number = 0; // Max distance from the spawn point (0 = unlimited)
 
   // Ability tracking
   private hitCount: number = 0; // How many enemies this bullet has hit (for piercing)
@@ -85,6 +89,7 @@ export default class Bullet extends Phaser.Physics.Arcade.Sprite {
       knockbackDuration?: number;
       settingsSizeMultiplier?: number;
       settingsOpacity?: number;
+      maxRange?: number;
     },
   ) {
     this.setPosition(x, y);
@@ -93,6 +98,9 @@ export default class Bullet extends Phaser.Physics.Arcade.Sprite {
 
     this.speed = speed;
     this.spawnTime = this.scene.time.now;
+    this.spawnX = x;
+    this.spawnY = y;
+    this.maxRange = options?.maxRange ?? 0;
 
     // Reset ability tracking
     this.hitCount = 0;
@@ -174,6 +182,15 @@ export default class Bullet extends Phaser.Physics.Arcade.Sprite {
       return;
     }
 
+    // Close-range heroes: bullets fizzle out past their reach
+    if (
+      this.maxRange > 0 &&
+      Phaser.Math.Distance.Between(this.spawnX, this.spawnY, this.x, this.y) > this.maxRange
+    ) {
+      this.deactivate();
+      return;
+    }
+
     const gameWidth = this.scene.scale.width;
     const gameHeight = this.scene.scale.height;
 
@@ -324,7 +341,7 @@ export default class Bullet extends Phaser.Physics.Arcade.Sprite {
    * Roll for freeze based on bullet's freeze chance
    */
   rollFreeze(): boolean {
-    return Math.random() < this.freezeChance;
+    return randomStreams.get("combat").chance(this.freezeChance);
   }
 
   getPoisonDamage(): number {
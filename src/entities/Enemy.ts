@@ -3,6 +3,13 @@ import { EnemyType } from "../config/chapterData";
 import { getEnemySpriteKey } from "../config/themeData";
 import type WallGroup from "../systems/WallGroup";
 import { StatusEffectSystem } from "../core/StatusEffects";
+import { randomStreams } from "../systems/RandomStreams";
+import {
+  ELITE_AFFIXES,
+  ELITE_AFFIX_TUNING,
+  getEliteName,
+  type EliteAffixId,
+} from "../config/eliteAffixData";
 
 /**
  * Result of enemy update call
@@ -32,6 +39,8 @@ export interface EnemyOptions {
   abilityIntensityMultiplier?: number;
   /** Enemy type for tracking kills */
   enemyType?: EnemyType;
+  /** Elite affixes (see eliteAffixData.ts); stat multipliers are already folded in by applyEliteAffixes */
+  eliteAffixes?: EliteAffixId[];
 }
 
 export default class Enemy extends Phaser.Physics.Arcade.Sprite {
@@ -44,6 +53,9 @@ export default class Enemy extends Phaser.Physics.Arcade.Sprite {
   // Status effect system (handles fire, freeze, poison)
   protected statusEffects: StatusEffectSystem;
 
+  // Seeded randomness for movement and attack patterns (keeps runs replayable)
+  protected readonly rng = randomStreams.get("enemies");
+
   // Melee attack cooldown - per-enemy instance tracking
   private lastMeleeAttackTime: number = 0;
   private meleeAttackCooldown: number = 1000; // 1 second between melee hits (can be modified by chapter)
@@ -68,6 +80,14 @@ export default class Enemy extends Phaser.Physics.Arcade.Sprite {
   private wallDetectionFrame: number = 0; // Throttle wall detection
   private readonly WALL_DETECTION_INTERVAL = 5; // Only check every 5 frames
 
+  // Elite affixes
+  private eliteAffixes: EliteAffixId[] = [];
+  private eliteShield: number = 0;
+  private lastReflectTime: number = -Infinity;
+  private lastEliteRegenTime: number = 0;
+  private eliteAura?: Phaser.GameObjects.Graphics;
+  private eliteNameTag?: Phaser.GameObjects.Text;
+
   constructor(scene: Phaser.Scene, x: number, y: number, options?: EnemyOptions) {
     // Get sprite key for this enemy type
     const enemyType = options?.enemyType ?? "melee";
@@ -77,8 +97,14 @@ export default class Enemy extends Phaser.Physics.Arcade.Sprite {
     // Store enemy type for kill tracking
     this.enemyType = enemyType;
 
-    // Initialize status effects system
-    this.statusEffects = new StatusEffectSystem();
+    // Initialize status effects system (elite affixes can shorten freeze or grant immunities)
+    this.eliteAffixes = options?.eliteAffixes ?? [];
+    const eliteDefinitions = this.eliteAffixes.map((id) => ELITE_AFFIXES[id]);
+    const freezeDurations = eliteDefinitions.flatMap((affix) => affix.freezeDuration ?? []);
+    this.statusEffects = new StatusEffectSystem({
+      freezeDuration: freezeDurations.length > 0 ? Math.min(...freezeDurations) : undefined,
+      immuneTo: eliteDefinitions.flatMap((affix) => affix.immuneTo ?? []),
+    });
 
     // Apply difficulty modifiers
     const baseHealth = 30;
@@ -103,10 +129,24 @@ export default class Enemy extends Phaser.Physics.Arcade.Sprite {
     this.healthBar.setDepth(10); // Above everything
     this.healthBar.setVisible(false);
 
+    if (this.eliteAffixes.length > 0) {
+      this.setupElite();
+    }
+
     console.log("Enemy constructor called at", x, y, "with health:", this.maxHealth);
   }
 
   takeDamage(amount: number): boolean {
+    // Shielded elites lose their shield first
+    if (this.eliteShield > 0) {
+      const absorbed = Math.min(this.eliteShield, amount);
+      this.eliteShield -= absorbed;
+      amount -= absorbed;
+      if (this.eliteShield <= 0) {
+        this.drawEliteAura();
+      }
+    }
+
     this.health -= amount;
 
     // Flash effect
@@ -475,7 +515,7 @@ export default class Enemy extends Phaser.Physics.Arcade.Sprite {
    */
   applyKnockback(angle: number, force: number, duration: number = 150): void {
     const body = this.body as Phaser.Physics.Arcade.Body;
-    if (!body) return;
+    if (!body || this.statusEffects.isImmuneTo("knockback")) return;
 
     // Guard against destroyed enemy or missing scene (can happen with pooled enemies)
     if (!this.scene?.time) return;
@@ -527,6 +567,10 @@ export default class Enemy extends Phaser.Physics.Arcade.Sprite {
       return effectResult; // Signal to caller that enemy died from DoT
     }
 
+    if (this.eliteAffixes.length > 0) {
+      this.updateElite(time);
+    }
+
     // If frozen, don't move or act
     if (this.statusEffects.isFrozen()) {
       this.setVelocity(0, 0);
@@ -762,6 +806,102 @@ export default class Enemy extends Phaser.Physics.Arcade.Sprite {
     };
   }
 
+  // ============================================
+  // Elite affixes
+  // ============================================
+
+  isElite(): boolean {
+    return this.eliteAffixes.length > 0;
+  }
+
+  getEliteAffixes(): readonly EliteAffixId[] {
+    return this.eliteAffixes;
+  }
+
+  hasEliteAffix(affix: EliteAffixId): boolean {
+    return this.eliteAffixes.includes(affix);
+  }
+
+  /**
+   * Remaining shield of a shielded elite
+   */
+  getEliteShield(): number {
+    return this.eliteShield;
+  }
+
+  /**
+   * Called after this enemy's melee attack damaged the player (vampiric lifesteal)
+   */
+  onMeleeHitPlayer(damage: number): void {
+    if (this.hasEliteAffix("vampiric")) {
+      this.heal(Math.round(damage * ELITE_AFFIX_TUNING.vampiricLifesteal));
+    }
+  }
+
+  /**
+   * Damage a reflecting elite sends back at the player when hit
+   * @returns 0 when not reflecting or still on cooldown
+   */
+  tryReflectDamage(time: number): number {
+    if (!this.hasEliteAffix("reflecting")) return 0;
+    if (time - this.lastReflectTime < ELITE_AFFIX_TUNING.reflectCooldownMs) return 0;
+    this.lastReflectTime = time;
+    return Math.max(1, Math.round(this.getDamage() * ELITE_AFFIX_TUNING.reflectDamagePercent));
+  }
+
+  /**
+   * Create the elite's shield, aura and name tag
+   */
+  private setupElite(): void {
+    if (this.hasEliteAffix("shielded")) {
+      this.eliteShield = Math.round(this.maxHealth * ELITE_AFFIX_TUNING.shieldPercent);
+    }
+
+    this.eliteAura = this.scene.add.graphics();
+    this.eliteAura.setDepth(0); // Under the enemy sprite
+    this.drawEliteAura();
+
+    const primaryColor = ELITE_AFFIXES[this.eliteAffixes[0]].color;
+    this.eliteNameTag = this.scene.add
+      .text(this.x, this.y, getEliteName(this.eliteAffixes), {
+        fontSize: "9px",
+        color: `#${primaryColor.toString(16).padStart(6, "0")}`,
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5, 1)
+      .setDepth(10);
+    this.eliteNameTag.setStroke("#000000", 2);
+    this.updateEliteVisualPositions();
+  }
+
+  /**
+   * One ring per affix around the enemy (drawn at the origin, moved with the enemy)
+   */
+  private drawEliteAura(): void {
+    if (!this.eliteAura) return;
+    this.eliteAura.clear();
+    this.eliteAffixes.forEach((id, index) => {
+      // Shielded ring fades once the shield breaks
+      const alpha = id === "shielded" && this.eliteShield <= 0 ? 0.25 : 0.85;
+      this.eliteAura!.lineStyle(2, ELITE_AFFIXES[id].color, alpha);
+      this.eliteAura!.strokeCircle(0, 0, 18 + index * 4);
+    });
+  }
+
+  private updateElite(time: number): void {
+    // Vampiric regeneration, once per second
+    if (this.hasEliteAffix("vampiric") && time - this.lastEliteRegenTime >= 1000) {
+      this.lastEliteRegenTime = time;
+      this.heal(Math.max(1, Math.round(this.maxHealth * ELITE_AFFIX_TUNING.vampiricRegenPercent)));
+    }
+    this.updateEliteVisualPositions();
+  }
+
+  private updateEliteVisualPositions(): void {
+    this.eliteAura?.setPosition(this.x, this.y);
+    this.eliteNameTag?.setPosition(this.x, this.y + this.healthBarOffsetY - 2);
+  }
+
   destroy(fromScene?: boolean) {
     // Kill any active tweens to prevent them from continuing after destruction
     this.scene?.tweens.killTweensOf(this);
@@ -769,6 +909,10 @@ export default class Enemy extends Phaser.Physics.Arcade.Sprite {
       this.healthBar.destroy();
       this.healthBar = undefined;
     }
+    this.eliteAura?.destroy();
+    this.eliteAura = undefined;
+    this.eliteNameTag?.destroy();
+    this.eliteNameTag = undefined;
     super.destroy(fromScene);
   }
 }
@@ -1,12 +1,14 @@
 import Phaser from "phaser";
 import { PlayerStats, DamageResult } from "../systems/PlayerStats";
-import { getHeroSpriteKey, HeroId } from "../config/themeData";
+import { DEFAULT_HERO_ID, HERO_DEFINITIONS, isValidHeroId } from "../config/heroData";
+import type { AbilityHookId } from "../config/abilityData";
 
 export default class Player extends Phaser.Physics.Arcade.Sprite {
   private stats: PlayerStats;
   private isMoving: boolean = false;
   private hitboxRadius: number = 16;
   private isPlayingShootAnim: boolean = false;
+  private heroTint: number | null = null;
 
   constructor(
     scene: Phaser.Scene,
@@ -20,12 +22,16 @@ export default class Player extends Phaser.Physics.Arcade.Sprite {
       critChance?: number;
       critDamage?: number;
     },
-    heroId: string = "atreus",
+    heroId: string = DEFAULT_HERO_ID,
   ) {
-    // Determine texture key based on heroId
-    const textureKey = getHeroSpriteKey(heroId as HeroId);
+    // Determine texture based on heroId
+    const sprite = HERO_DEFINITIONS[isValidHeroId(heroId) ? heroId : DEFAULT_HERO_ID].sprite;
 
-    super(scene, x, y, textureKey);
+    super(scene, x, y, sprite.key);
+
+    // Heroes sharing art are told apart by their tint
+    this.heroTint = sprite.tint ?? null;
+    this.clearTint();
 
     // Initialize stats immediately after super
     this.stats = new PlayerStats(statsOptions);
@@ -168,132 +174,54 @@ export default class Player extends Phaser.Physics.Arcade.Sprite {
     return this.stats?.getAttackSpeed() ?? 1.0;
   }
 
-  getExtraProjectiles(): number {
-    return this.stats?.getExtraProjectiles() ?? 0;
-  }
-
-  getMultishotCount(): number {
-    return this.stats?.getMultishotCount() ?? 0;
-  }
-
-  // Ability application - delegate to stats
-  addAttackSpeedBoost(amount: number) {
-    this.stats?.addAttackSpeedBoost(amount);
-  }
-
-  addDamageBoost(amount: number) {
-    this.stats?.addDamageBoost(amount);
-  }
-
-  addFrontArrow() {
-    this.stats?.addFrontArrow();
-  }
-
-  addMultishot() {
-    this.stats?.addMultishot();
-  }
-
-  addPiercing() {
-    this.stats?.addPiercing();
-  }
-
-  addRicochet() {
-    this.stats?.addRicochet();
-  }
-
-  addFireDamage() {
-    this.stats?.addFireDamage();
-  }
-
-  addCritBoost() {
-    this.stats?.addCritBoost();
-  }
-
-  // New V1 ability application methods
-  addIceShot() {
-    this.stats?.addIceShot();
-  }
-
-  addPoisonShot() {
-    this.stats?.addPoisonShot();
-  }
-
-  addBleed() {
-    this.stats?.addBleed();
-  }
-
-  addLightningChain() {
-    this.stats?.addLightningChain();
-  }
-
-  addDiagonalArrows() {
-    this.stats?.addDiagonalArrows();
-  }
-
-  addBloodthirst() {
-    this.stats?.addBloodthirst();
-  }
-
-  addSpeedBoost() {
-    this.stats?.addSpeedBoost();
-  }
-
-  addMaxHealthBoost() {
-    this.stats?.addMaxHealthBoost();
-  }
-
-  addDodgeMaster() {
-    this.stats?.addDodgeMaster();
-  }
-
-  addExtraLife() {
-    this.stats?.addExtraLife();
-  }
-
-  addThroughWall() {
-    this.stats?.addThroughWall();
-  }
-
-  // New orbital and effect ability application methods
-  addRotatingOrbs() {
-    this.stats?.addRotatingOrbs();
+  /**
+   * Remove effect tints (hit flash, skills) and restore the hero's own tint
+   */
+  clearTint(): this {
+    super.clearTint();
+    if (this.heroTint !== null) {
+      this.setTint(this.heroTint);
+    }
+    return this;
   }
 
-  addOrbitalShields() {
-    this.stats?.addOrbitalShields();
+  // Hero skill boost (Rage Burst) - temporary damage and attack speed
+  setHeroSkillBoost(boost: number) {
+    this.stats?.setHeroSkillBoost(boost);
   }
 
-  addSpiritPets() {
-    this.stats?.addSpiritPets();
+  getHeroSkillBoost(): number {
+    return this.stats?.getHeroSkillBoost() ?? 0;
   }
 
-  addDeathNova() {
-    this.stats?.addDeathNova();
+  // Hero skill pets (Spirit Legion) - temporary extra spirit pets
+  setHeroSkillPets(count: number) {
+    this.stats?.setHeroSkillPets(count);
   }
 
-  addHomingArrows() {
-    this.stats?.addHomingArrows();
+  getExtraProjectiles(): number {
+    return this.stats?.getExtraProjectiles() ?? 0;
   }
 
-  addExplosiveArrows() {
-    this.stats?.addExplosiveArrows();
+  getMultishotCount(): number {
+    return this.stats?.getMultishotCount() ?? 0;
   }
 
-  addShieldBarrier() {
-    this.stats?.addShieldBarrier();
+  // Ability application - effects come from abilityData.ts via AbilityEffectRegistry
+  applyAbility(abilityId: string, level?: number): boolean {
+    return this.stats?.applyAbility(abilityId, level) ?? false;
   }
 
-  addKnockback() {
-    this.stats?.addKnockback();
+  /**
+   * Run owned abilities' hook effects for a gameplay event
+   */
+  runAbilityHook(hook: AbilityHookId): { healed: number } {
+    return this.stats?.runAbilityHook(hook) ?? { healed: 0 };
   }
 
   // Game modifier abilities
-  addAscetic() {
-    this.stats?.addAscetic();
-  }
-
-  addHordeMagnet() {
-    this.stats?.addHordeMagnet();
+  disableHealing() {
+    this.stats?.disableHealing();
   }
 
   isAsceticEnabled(): boolean {
@@ -304,10 +232,6 @@ export default class Player extends Phaser.Physics.Arcade.Sprite {
     return this.stats?.isGlassCannonEnabled() ?? false;
   }
 
-  addGlassCannon() {
-    this.stats?.addGlassCannon();
-  }
-
   getHordeMagnetLevel(): number {
     return this.stats?.getHordeMagnetLevel() ?? 0;
   }
@@ -321,10 +245,6 @@ export default class Player extends Phaser.Physics.Arcade.Sprite {
   }
 
   // Movement ability methods
-  addMobileFire() {
-    this.stats?.addMobileFire();
-  }
-
   getMobileFireLevel(): number {
     return this.stats?.getMobileFireLevel() ?? 0;
   }
@@ -404,6 +324,10 @@ export default class Player extends Phaser.Physics.Arcade.Sprite {
     return this.stats?.rollFreeze() ?? false;
   }
 
+  setEquipmentFreezeBonus(freezeChance: number, frozenDamagePercent: number): void {
+    this.stats?.setEquipmentFreezeBonus(freezeChance, frozenDamagePercent);
+  }
+
   getPoisonDamagePercent(): number {
     return this.stats?.getPoisonDamagePercent() ?? 0;
   }
@@ -508,6 +432,14 @@ export default class Player extends Phaser.Physics.Arcade.Sprite {
     return this.stats?.getExplosiveArrowDamagePercent() ?? 0;
   }
 
+  hasInfernoBurst(): boolean {
+    return this.stats?.hasInfernoBurst() ?? false;
+  }
+
+  hasStormOrbs(): boolean {
+    return this.stats?.hasStormOrbs() ?? false;
+  }
+
   getShieldBarrierLevel(): number {
     return this.stats?.getShieldBarrierLevel() ?? 0;
   }
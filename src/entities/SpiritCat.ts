@@ -1,5 +1,6 @@
 import Phaser from "phaser";
 import Enemy from "./Enemy";
+import { randomStreams } from "../systems/RandomStreams";
 
 export default class SpiritCat extends Phaser.Physics.Arcade.Sprite {
   private speed: number = 300;
@@ -38,7 +39,7 @@ export default class SpiritCat extends Phaser.Physics.Arcade.Sprite {
 
     this.target = target;
     this.damage = damage;
-    this.isCrit = canCrit && Math.random() < 0.1; // 10% base crit chance for cats
+    this.isCrit = canCrit && randomStreams.get("combat").chance(0.1); // 10% base crit chance for cats
     this.spawnTime = this.scene.time.now;
 
     // Initial velocity toward target
@@ -32,6 +32,9 @@ export default abstract class BaseBoss extends Enemy {
   // Display size
   protected displaySize: number = 64;
 
+  // Placeholder tint from the boss definition (if constructed from one)
+  protected definitionPlaceholderColor: number | null = null;
+
   // World bounds for clamping
   protected worldBounds: Phaser.Geom.Rectangle | null = null;
 
@@ -65,6 +68,7 @@ export default abstract class BaseBoss extends Enemy {
       this.displaySize = bossDef.visuals.displaySize;
       this.attackCooldown = bossDef.stats.attackCooldown;
       this.attackPatternCount = bossDef.attackPatterns.length;
+      this.definitionPlaceholderColor = bossDef.visuals.placeholderColor;
     }
 
     // Calculate boss health with multipliers
@@ -118,7 +122,7 @@ export default abstract class BaseBoss extends Enemy {
    * Override in subclasses to set placeholder color
    */
   protected getPlaceholderColor(): number {
-    return 0xff0000; // Default red
+    return this.definitionPlaceholderColor ?? 0xff0000; // Default red
   }
 
   getHealth(): number {
@@ -1,8 +1,10 @@
 import Phaser from "phaser";
 import { BossType } from "../../config/chapterData";
+import { getBossDefinition, isValidBossId } from "../../config/bossData";
 import EnemyBulletPool from "../../systems/EnemyBulletPool";
 import BaseBoss, { BossOptions } from "./BaseBoss";
 import Boss from "../Boss"; // Original chapter 1 boss
+import ScriptedBoss from "./ScriptedBoss";
 // Chapter 2 - Forest Ruins bosses
 import TreeGuardianBoss from "./TreeGuardianBoss";
 import WildBoarBoss from "./WildBoarBoss";
@@ -23,6 +25,8 @@ import FinalBoss from "./FinalBoss";
 /**
  * Factory for creating boss instances based on boss type.
  * Used by GameScene to spawn the correct boss for each chapter.
+ * Bosses with a script in bossData.ts are run by ScriptedBoss; the rest
+ * still use their hand-written classes.
  */
 export function createBoss(
   scene: Phaser.Scene,
@@ -32,6 +36,13 @@ export function createBoss(
   bulletPool: EnemyBulletPool,
   options?: BossOptions,
 ): BaseBoss | Boss {
+  if (isValidBossId(bossType)) {
+    const definition = getBossDefinition(bossType);
+    if (definition.script) {
+      return new ScriptedBoss(scene, x, y, bulletPool, definition, options);
+    }
+  }
+
   switch (bossType) {
     // Chapter 1 - Dark Dungeon
     case "demon":
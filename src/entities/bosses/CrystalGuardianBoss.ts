@@ -305,25 +305,25 @@ export default class CrystalGuardianBoss extends BaseBoss {
 
       for (let i = 0; i < turretsToSpawn; i++) {
         // Spawn at random position near edges
-        const side = Math.floor(Math.random() * 4);
+        const side = Math.floor(this.rng.random() * 4);
         let turretX: number, turretY: number;
 
         switch (side) {
           case 0: // Top
-            turretX = Phaser.Math.Between(50, 325);
-            turretY = Phaser.Math.Between(60, 120);
+            turretX = this.rng.randomInt(50, 325);
+            turretY = this.rng.randomInt(60, 120);
             break;
           case 1: // Bottom
-            turretX = Phaser.Math.Between(50, 325);
-            turretY = Phaser.Math.Between(500, 580);
+            turretX = this.rng.randomInt(50, 325);
+            turretY = this.rng.randomInt(500, 580);
             break;
           case 2: // Left
-            turretX = Phaser.Math.Between(30, 80);
-            turretY = Phaser.Math.Between(100, 500);
+            turretX = this.rng.randomInt(30, 80);
+            turretY = this.rng.randomInt(100, 500);
             break;
           default: // Right
-            turretX = Phaser.Math.Between(295, 345);
-            turretY = Phaser.Math.Between(100, 500);
+            turretX = this.rng.randomInt(295, 345);
+            turretY = this.rng.randomInt(100, 500);
             break;
         }
 
@@ -466,7 +466,7 @@ export default class CrystalGuardianBoss extends BaseBoss {
     // Create fragments flying outward
     const numFragments = 6;
     for (let i = 0; i < numFragments; i++) {
-      const angle = (Math.PI * 2 * i) / numFragments + Math.random() * 0.3;
+      const angle = (Math.PI * 2 * i) / numFragments + this.rng.random() * 0.3;
       this.createFragment(angle);
     }
 
@@ -141,7 +141,7 @@ export default class FinalBoss extends BaseBoss {
 
   private selectPhase3Attack(pattern: number, playerX: number, playerY: number): void {
     // Phase 3 has more attack variety
-    const attackRoll = Math.random();
+    const attackRoll = this.rng.random();
 
     // Occasionally summon minions
     if (!this.minionSpawnedThisPhase && attackRoll < 0.2) {
@@ -160,7 +160,7 @@ export default class FinalBoss extends BaseBoss {
     // Mix of previous phases
     switch (pattern) {
       case 0:
-        if (Math.random() < 0.5) {
+        if (this.rng.random() < 0.5) {
           this.phase = "fire_barrage";
           this.barrageWaves = 0;
         } else {
@@ -168,7 +168,7 @@ export default class FinalBoss extends BaseBoss {
         }
         break;
       case 1:
-        if (Math.random() < 0.5) {
+        if (this.rng.random() < 0.5) {
           this.phase = "meteor_storm";
           this.prepareMeteorStorm(playerX, playerY);
         } else {
@@ -297,14 +297,14 @@ export default class FinalBoss extends BaseBoss {
 
       if (i < meteorCount / 2) {
         // Near player
-        const angle = Math.random() * Math.PI * 2;
-        const dist = Math.random() * 80;
+        const angle = this.rng.random() * Math.PI * 2;
+        const dist = this.rng.random() * 80;
         targetX = Phaser.Math.Clamp(playerX + Math.cos(angle) * dist, 50, 325);
         targetY = Phaser.Math.Clamp(playerY + Math.sin(angle) * dist, 100, 550);
       } else {
         // Random
-        targetX = Phaser.Math.Between(50, 325);
-        targetY = Phaser.Math.Between(100, 550);
+        targetX = this.rng.randomInt(50, 325);
+        targetY = this.rng.randomInt(100, 550);
       }
 
       this.meteorTargets.push({
@@ -356,7 +356,7 @@ export default class FinalBoss extends BaseBoss {
 
       for (let i = 0; i < zoneCount; i++) {
         const angle = (Math.PI * 2 * i) / zoneCount;
-        const distance = 60 + Math.random() * 40;
+        const distance = 60 + this.rng.random() * 40;
 
         const zoneX = Phaser.Math.Clamp(playerX + Math.cos(angle) * distance, 60, 315);
         const zoneY = Phaser.Math.Clamp(playerY + Math.sin(angle) * distance, 110, 540);
@@ -648,7 +648,7 @@ export default class FinalBoss extends BaseBoss {
       if (!minion.active) continue;
 
       // Random chance to fire
-      if (Math.random() < 0.01) {
+      if (this.rng.random() < 0.01) {
         const angle = Phaser.Math.Angle.Between(minion.x, minion.y, playerX, playerY);
 
         switch (minion.type) {
@@ -669,7 +669,7 @@ export default class FinalBoss extends BaseBoss {
     // Update void zones
     for (const zone of this.voidZones) {
       const distToPlayer = Phaser.Math.Distance.Between(zone.x, zone.y, playerX, playerY);
-      if (distToPlayer < 45 && Math.random() < 0.02) {
+      if (distToPlayer < 45 && this.rng.random() < 0.02) {
         this.bulletPool.spawn(
           zone.x,
           zone.y,
@@ -127,8 +127,8 @@ export default class ForestSpiritBoss extends BaseBoss {
 
     if (progress >= 1) {
       // Choose teleport destination
-      const angle = Math.random() * Math.PI * 2;
-      const distance = Phaser.Math.Between(100, 200);
+      const angle = this.rng.random() * Math.PI * 2;
+      const distance = this.rng.randomInt(100, 200);
       const centerX = 375 / 2;
       const centerY = 667 / 2;
 
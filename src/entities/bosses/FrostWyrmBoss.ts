@@ -312,8 +312,8 @@ export default class FrostWyrmBoss extends BaseBoss {
       const baseAngle = Phaser.Math.Angle.Between(this.x, this.y, playerX, playerY);
 
       // Add some spread/randomness
-      const spread = (Math.random() - 0.5) * 0.4; // +/- 0.2 radians
-      const speed = 250 + Math.random() * 50;
+      const spread = (this.rng.random() - 0.5) * 0.4; // +/- 0.2 radians
+      const speed = 250 + this.rng.random() * 50;
 
       this.bulletPool.spawn(this.x, this.y, baseAngle + spread, speed);
 
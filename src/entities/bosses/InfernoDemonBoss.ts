@@ -187,7 +187,7 @@ export default class InfernoDemonBoss extends BaseBoss {
 
           // Fire projectiles on eruption
           if (age < 550) {
-            const angle = Math.random() * Math.PI * 2;
+            const angle = this.rng.random() * Math.PI * 2;
             this.bulletPool.spawn(pillar.x, pillar.y, angle, 150);
           }
         }
@@ -213,8 +213,8 @@ export default class InfernoDemonBoss extends BaseBoss {
 
   private spawnFlamePillar(playerX: number, playerY: number, index: number, time: number): void {
     // Spawn pillars in a pattern around player
-    const angle = (Math.PI * 2 * index) / this.maxPillars + Math.random() * 0.5;
-    const distance = 60 + Math.random() * 40;
+    const angle = (Math.PI * 2 * index) / this.maxPillars + this.rng.random() * 0.5;
+    const distance = 60 + this.rng.random() * 40;
 
     const pillarX = Phaser.Math.Clamp(playerX + Math.cos(angle) * distance, 50, 325);
     const pillarY = Phaser.Math.Clamp(playerY + Math.sin(angle) * distance, 100, 550);
@@ -314,8 +314,8 @@ export default class InfernoDemonBoss extends BaseBoss {
               break;
             case 2:
               // Quick teleport
-              this.x = Phaser.Math.Between(100, 275);
-              this.y = Phaser.Math.Between(150, 400);
+              this.x = this.rng.randomInt(100, 275);
+              this.y = this.rng.randomInt(150, 400);
               this.fireSpread(6, 200);
               break;
           }
@@ -146,8 +146,8 @@ export default class LavaGolemBoss extends BaseBoss {
     // Generate random target positions for meteors
     for (let i = 0; i < this.meteorsTotal; i++) {
       this.meteorTargets.push({
-        x: Phaser.Math.Between(50, 325),
-        y: Phaser.Math.Between(100, 550),
+        x: this.rng.randomInt(50, 325),
+        y: this.rng.randomInt(100, 550),
       });
     }
   }
@@ -255,9 +255,9 @@ export default class LavaGolemBoss extends BaseBoss {
       if (distToPlayer < this.lavaPoolRadius) {
         // Player is in lava - fire a bullet at them to deal damage
         // Only do this occasionally to prevent overwhelming damage
-        if (Math.random() < 0.02) {
+        if (this.rng.random() < 0.02) {
           // ~2% chance per frame
-          const angle = Math.random() * Math.PI * 2;
+          const angle = this.rng.random() * Math.PI * 2;
           this.bulletPool.spawn(
             pool.x + Math.cos(angle) * 10,
             pool.y + Math.sin(angle) * 10,
@@ -147,7 +147,7 @@ export default class NightmareBoss extends BaseBoss {
 
       // Fire random projectiles during distortion
       if (elapsed % 200 < 50) {
-        const randomAngle = Math.random() * Math.PI * 2;
+        const randomAngle = this.rng.random() * Math.PI * 2;
         this.bulletPool.spawn(this.x, this.y, randomAngle, 160);
         // Also fire at player
         this.fireAtPlayer(playerX, playerY, 1, 200, 0);
@@ -167,7 +167,7 @@ export default class NightmareBoss extends BaseBoss {
     this.cloneAttackFired = false;
 
     // Create clone positions in a circle around player
-    const realPosition = Phaser.Math.Between(0, this.cloneCount);
+    const realPosition = this.rng.randomInt(0, this.cloneCount);
 
     for (let i = 0; i <= this.cloneCount; i++) {
       const angle = (Math.PI * 2 * i) / (this.cloneCount + 1);
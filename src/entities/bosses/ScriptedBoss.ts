@@ -0,0 +1,359 @@
+import Phaser from "phaser";
+import BaseBoss, { BossOptions } from "./BaseBoss";
+import EnemyBulletPool from "../../systems/EnemyBulletPool";
+import { StateMachine } from "../../core/BaseStateMachine";
+import {
+  BossDefinition,
+  BossPatternStep,
+  BossScript,
+  BossScriptPhase,
+  ScriptedAttackPatternType,
+  getScriptPhaseIndex,
+  pickScriptedPatternIndex,
+  validateBossScript,
+} from "../../config/bossData";
+
+type ScriptState = "idle" | "telegraph" | "attack";
+
+/**
+ * How the interpreter runs one attack pattern
+ */
+interface PatternExecutor {
+  /** Called once when the telegraph starts (pick targets, etc.) */
+  prepare?: (playerX: number, playerY: number) => void;
+  /** Draw the wind-up warning. progress goes 0 -> 1 over the step's telegraphMs. */
+  telegraph: (progress: number, elapsed: number, playerX: number, playerY: number) => void;
+  /** Called once when the attack fires */
+  start?: (playerX: number, playerY: number) => void;
+  /** Called every frame while attacking. Return true when the attack is over. */
+  update: (elapsed: number, playerX: number, playerY: number) => boolean;
+}
+
+/**
+ * Generic boss driven by a BossScript from bossData.ts
+ *
+ * A StateMachine cycles idle -> telegraph -> attack. The script decides which
+ * attack comes next (by HP phase, sequence or weight), its cooldown and how
+ * long it is telegraphed; the attacks themselves come from a shared library
+ * of executors keyed by AttackPatternType.
+ */
+export default class ScriptedBoss extends BaseBoss {
+  private readonly definition: BossDefinition;
+  private readonly script: BossScript;
+  private readonly machine: StateMachine<ScriptState>;
+  private readonly executors: Record<ScriptedAttackPatternType, PatternExecutor>;
+
+  private scriptPhaseIndex: number = 0;
+  private lastPatternIndex: number = -1;
+  private currentStep: BossPatternStep | null = null;
+
+  // Latest player position, read by the state machine handlers
+  private playerX: number = 0;
+  private playerY: number = 0;
+
+  // Shared attack state
+  private chargeTargetX: number = 0;
+  private chargeTargetY: number = 0;
+  private volleysFired: number = 0;
+  private summonPoints: { x: number; y: number }[] = [];
+  private teleportDestination: { x: number; y: number } | null = null;
+
+  constructor(
+    scene: Phaser.Scene,
+    x: number,
+    y: number,
+    bulletPool: EnemyBulletPool,
+    definition: BossDefinition,
+    options?: BossOptions,
+  ) {
+    super(scene, x, y, bulletPool, definition, options);
+
+    if (!definition.script) {
+      throw new Error(`ScriptedBoss: "${definition.id}" has no script`);
+    }
+    const errors = validateBossScript(definition.script, definition.attackPatterns);
+    if (errors.length > 0) {
+      throw new Error(`ScriptedBoss: Invalid script for "${definition.id}": ${errors.join("; ")}`);
+    }
+
+    this.definition = definition;
+    this.script = definition.script;
+    this.executors = this.createExecutors();
+
+    this.machine = new StateMachine<ScriptState>({ initialPhase: "idle" }).registerPhases({
+      idle: {
+        onUpdate: (_context, time) => this.handleIdlePhase(time, this.playerX, this.playerY),
+      },
+      telegraph: {
+        onEnter: () => this.getExecutor().prepare?.(this.playerX, this.playerY),
+        onUpdate: (_context, time) => this.updateTelegraph(time),
+        onExit: () => {
+          this.clearTint();
+          this.clearTelegraphs();
+        },
+      },
+      attack: {
+        onEnter: () => this.getExecutor().start?.(this.playerX, this.playerY),
+        onUpdate: (_context, time) => {
+          const elapsed = this.machine.getPhaseElapsed(time);
+          if (this.getExecutor().update(elapsed, this.playerX, this.playerY)) {
+            this.finishAttack(time);
+          }
+        },
+      },
+    });
+  }
+
+  needsMinionSpawnCallback(): boolean {
+    return this.script.phases.some((phase) =>
+      phase.patterns.some((step) => step.pattern === "summon_minions"),
+    );
+  }
+
+  /**
+   * Name of the current script phase (e.g. "Enraged")
+   */
+  getScriptPhaseName(): string {
+    return this.getScriptPhase().name;
+  }
+
+  // ========================================
+  // Script interpreter
+  // ========================================
+
+  protected handlePhase(time: number, playerX: number, playerY: number): void {
+    this.playerX = playerX;
+    this.playerY = playerY;
+    this.updateScriptPhase();
+    this.machine.update(time, 0);
+  }
+
+  /**
+   * Move to a later phase once HP crosses its threshold (phases never go back)
+   */
+  private updateScriptPhase(): void {
+    const hpFraction = Math.max(0, this.bossHealth) / this.bossMaxHealth;
+    const phaseIndex = getScriptPhaseIndex(this.script, hpFraction);
+    if (phaseIndex <= this.scriptPhaseIndex) return;
+
+    this.scriptPhaseIndex = phaseIndex;
+    this.lastPatternIndex = -1;
+    console.log(`ScriptedBoss: ${this.definition.id} entered phase "${this.getScriptPhaseName()}"`);
+  }
+
+  protected startNextAttack(time: number, playerX: number, playerY: number): void {
+    const phase = this.getScriptPhase();
+    this.lastPatternIndex = pickScriptedPatternIndex(phase, this.rng, this.lastPatternIndex);
+    this.selectAttackPhase(this.lastPatternIndex, playerX, playerY);
+    this.phaseStartTime = time;
+    this.machine.transition("telegraph", time);
+  }
+
+  protected selectAttackPhase(pattern: number, _playerX: number, _playerY: number): void {
+    this.currentStep = this.getScriptPhase().patterns[pattern];
+    this.phase = this.currentStep.pattern;
+  }
+
+  protected handleAttackPhase(time: number, _playerX: number, _playerY: number): void {
+    this.machine.update(time, 0);
+  }
+
+  private updateTelegraph(time: number): void {
+    const step = this.currentStep!;
+    const elapsed = this.machine.getPhaseElapsed(time);
+    this.setVelocity(0, 0);
+
+    if (elapsed >= step.telegraphMs) {
+      this.machine.transition("attack", time);
+      return;
+    }
+    this.clearTelegraphs();
+    this.getExecutor().telegraph(elapsed / step.telegraphMs, elapsed, this.playerX, this.playerY);
+  }
+
+  protected finishAttack(time: number): void {
+    this.attackCooldown = this.currentStep?.cooldown ?? this.definition.stats.attackCooldown;
+    this.currentStep = null;
+    super.finishAttack(time);
+    this.machine.transition("idle", time);
+  }
+
+  private getScriptPhase(): BossScriptPhase {
+    return this.script.phases[this.scriptPhaseIndex];
+  }
+
+  private getExecutor(): PatternExecutor {
+    // validateBossScript guarantees every step uses a scripted pattern
+    return this.executors[this.currentStep!.pattern as ScriptedAttackPatternType];
+  }
+
+  private projectileSpeed(baseSpeed: number): number {
+    return baseSpeed * (this.getScriptPhase().projectileSpeedMultiplier ?? 1);
+  }
+
+  // ========================================
+  // Pattern library
+  // ========================================
+
+  private createExecutors(): Record<ScriptedAttackPatternType, PatternExecutor> {
+    return {
+      idle: {
+        telegraph: () => {},
+        update: () => true,
+      },
+
+      // Two rings of 8 projectiles, the second offset by half a gap
+      spread: {
+        telegraph: (_progress, elapsed) => {
+          const pulse = (elapsed % 200) / 200;
+          this.drawTelegraphCircle(this.x, this.y, 120, 0.3 + pulse * 0.4);
+          for (let i = 0; i < 8; i++) {
+            this.drawTelegraphLine(this.x, this.y, (Math.PI * 2 * i) / 8, 120, 0.4 + pulse * 0.3);
+          }
+        },
+        start: () => this.fireSpread(8, this.projectileSpeed(180)),
+        update: (elapsed) => {
+          if (elapsed < 200) return false;
+          this.fireSpread(8, this.projectileSpeed(180), Math.PI / 8);
+          return true;
+        },
+      },
+
+      // Three fast aimed shots
+      barrage: {
+        telegraph: (progress, _elapsed, playerX, playerY) => {
+          const angle = Phaser.Math.Angle.Between(this.x, this.y, playerX, playerY);
+          for (let i = -1; i <= 1; i++) {
+            this.drawTelegraphLine(this.x, this.y, angle + i * 0.15, 400, 0.3 + progress * 0.5);
+          }
+        },
+        start: (playerX, playerY) =>
+          this.fireAtPlayer(playerX, playerY, 3, this.projectileSpeed(350), 0.15),
+        update: () => true,
+      },
+
+      charge: this.createChargeExecutor(400, 500),
+      fast_charge: this.createChargeExecutor(500, 450),
+
+      // Shockwave ring around the boss
+      ground_stomp: {
+        telegraph: (progress, elapsed) => {
+          this.pulseWarning(elapsed, 80);
+          this.drawTelegraphCircle(this.x, this.y, 30 + progress * 120, 0.5);
+        },
+        start: () => {
+          this.fireSpread(12, this.projectileSpeed(160));
+          this.scene.cameras.main.shake(150, 0.006);
+        },
+        update: () => true,
+      },
+
+      // Rotating spiral of projectiles
+      leaf_storm: {
+        telegraph: (_progress, elapsed) => this.pulseWarning(elapsed, 120),
+        start: () => (this.volleysFired = 0),
+        update: (elapsed) => {
+          const volleys = Math.min(12, Math.floor(elapsed / 100) + 1);
+          while (this.volleysFired < volleys) {
+            this.fireSpread(3, this.projectileSpeed(150), this.volleysFired * 0.35);
+            this.volleysFired++;
+          }
+          return this.volleysFired >= 12;
+        },
+      },
+
+      // Rapid aimed volley
+      ice_barrage: {
+        telegraph: (progress, _elapsed, playerX, playerY) => {
+          const angle = Phaser.Math.Angle.Between(this.x, this.y, playerX, playerY);
+          this.drawTelegraphLine(this.x, this.y, angle, 400, 0.3 + progress * 0.5);
+        },
+        start: () => (this.volleysFired = 0),
+        update: (elapsed, playerX, playerY) => {
+          const volleys = Math.min(5, Math.floor(elapsed / 150) + 1);
+          while (this.volleysFired < volleys) {
+            this.fireAtPlayer(playerX, playerY, 1, this.projectileSpeed(300));
+            this.volleysFired++;
+          }
+          return this.volleysFired >= 5;
+        },
+      },
+
+      // Minions appear at the telegraphed spots
+      summon_minions: {
+        prepare: () => {
+          this.summonPoints = [-1, 1].map((side) => ({
+            x: Phaser.Math.Clamp(this.x + side * 70, 50, 325),
+            y: Phaser.Math.Clamp(this.y + 40, 100, 600),
+          }));
+        },
+        telegraph: (progress) => {
+          for (const point of this.summonPoints) {
+            this.drawTelegraphCircle(point.x, point.y, 10 + progress * 10, 0.5);
+          }
+        },
+        start: () => {
+          for (const point of this.summonPoints) {
+            this.onSpawnMinion?.(point.x, point.y);
+          }
+        },
+        update: () => true,
+      },
+
+      // Fade out, reappear away from the player
+      teleport: {
+        prepare: (playerX, playerY) => {
+          const angle = this.rng.random() * Math.PI * 2;
+          const distance = this.rng.randomInt(120, 200);
+          this.teleportDestination = {
+            x: Phaser.Math.Clamp(playerX + Math.cos(angle) * distance, 50, 325),
+            y: Phaser.Math.Clamp(playerY + Math.sin(angle) * distance, 100, 550),
+          };
+        },
+        telegraph: (progress) => {
+          this.setAlpha(1 - progress * 0.8);
+          if (this.teleportDestination) {
+            this.drawTelegraphCircle(this.teleportDestination.x, this.teleportDestination.y, 25);
+          }
+        },
+        start: () => {
+          if (this.teleportDestination) {
+            this.setPosition(this.teleportDestination.x, this.teleportDestination.y);
+          }
+          this.teleportDestination = null;
+          this.setAlpha(1);
+        },
+        update: () => true,
+      },
+    };
+  }
+
+  /**
+   * Wind up toward the player, then dash at the last seen position
+   */
+  private createChargeExecutor(speed: number, maxDuration: number): PatternExecutor {
+    return {
+      telegraph: (progress, elapsed, playerX, playerY) => {
+        this.pulseWarning(elapsed, 100);
+        const angle = Phaser.Math.Angle.Between(this.x, this.y, playerX, playerY);
+        const length = Phaser.Math.Distance.Between(this.x, this.y, playerX, playerY);
+        this.drawTelegraphLine(this.x, this.y, angle, length, 0.3 + progress * 0.5);
+      },
+      start: (playerX, playerY) => {
+        this.chargeTargetX = playerX;
+        this.chargeTargetY = playerY;
+        const angle = Phaser.Math.Angle.Between(this.x, this.y, playerX, playerY);
+        this.setVelocity(Math.cos(angle) * speed, Math.sin(angle) * speed);
+      },
+      update: (elapsed) => {
+        const distToTarget = Phaser.Math.Distance.Between(
+          this.x,
+          this.y,
+          this.chargeTargetX,
+          this.chargeTargetY,
+        );
+        return elapsed > maxDuration || distToTarget < 30;
+      },
+    };
+  }
+}
@@ -173,8 +173,8 @@ export default class TreeGuardianBoss extends BaseBoss {
     this.rootTraps = [];
 
     for (let i = 0; i < this.maxRootTraps; i++) {
-      const offsetX = Phaser.Math.Between(-80, 80);
-      const offsetY = Phaser.Math.Between(-80, 80);
+      const offsetX = this.rng.randomInt(-80, 80);
+      const offsetY = this.rng.randomInt(-80, 80);
       const trapX = Phaser.Math.Clamp(playerX + offsetX, 50, 325);
       const trapY = Phaser.Math.Clamp(playerY + offsetY, 50, 617);
 
@@ -135,8 +135,8 @@ export default class VoidLordBoss extends BaseBoss {
 
   private spawnDarknessZone(playerX: number, playerY: number, time: number): void {
     // Spawn zones in positions that cut off escape routes
-    const angle = Math.random() * Math.PI * 2;
-    const distance = 40 + Math.random() * 80;
+    const angle = this.rng.random() * Math.PI * 2;
+    const distance = 40 + this.rng.random() * 80;
 
     const zoneX = Phaser.Math.Clamp(playerX + Math.cos(angle) * distance, 60, 315);
     const zoneY = Phaser.Math.Clamp(playerY + Math.sin(angle) * distance, 110, 540);
@@ -202,7 +202,7 @@ export default class VoidLordBoss extends BaseBoss {
 
       // Check if player is in zone and deal damage
       const distToPlayer = Phaser.Math.Distance.Between(zone.x, zone.y, playerX, playerY);
-      if (distToPlayer < zone.radius && Math.random() < 0.03) {
+      if (distToPlayer < zone.radius && this.rng.random() < 0.03) {
         // Spawn slow bullet at player inside zone
         this.bulletPool.spawn(
           zone.x,
@@ -219,8 +219,8 @@ export default class VoidLordBoss extends BaseBoss {
 
     // Create tentacle warning positions around and toward player
     for (let i = 0; i < this.maxTentacles; i++) {
-      const angle = (Math.PI * 2 * i) / this.maxTentacles + Math.random() * 0.3;
-      const distance = 40 + Math.random() * 100;
+      const angle = (Math.PI * 2 * i) / this.maxTentacles + this.rng.random() * 0.3;
+      const distance = 40 + this.rng.random() * 100;
 
       const tentacleX = Phaser.Math.Clamp(playerX + Math.cos(angle) * distance, 50, 325);
       const tentacleY = Phaser.Math.Clamp(playerY + Math.sin(angle) * distance, 100, 550);
@@ -356,8 +356,8 @@ export default class VoidLordBoss extends BaseBoss {
       this.setVisible(false);
 
       // Move to random position
-      this.x = Phaser.Math.Between(100, 275);
-      this.y = Phaser.Math.Between(150, 400);
+      this.x = this.rng.randomInt(100, 275);
+      this.y = this.rng.randomInt(150, 400);
     }
 
     // Appear phase
@@ -320,7 +320,7 @@ export default class WildBoarBoss extends BaseBoss {
     }
 
     // Spawn 2-3 small boar minions around the boss
-    const numMinions = Phaser.Math.Between(2, 3);
+    const numMinions = this.rng.randomInt(2, 3);
     for (let i = 0; i < numMinions; i++) {
       const angle = (Math.PI * 2 * i) / numMinions;
       const distance = 60;
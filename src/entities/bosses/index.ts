@@ -6,8 +6,10 @@
 export { default as BaseBoss } from "./BaseBoss";
 export type { BossOptions, BossPhase } from "./BaseBoss";
 
-// Chapter 1 boss (existing)
-// Boss.ts in parent directory
+// Generic interpreter for bosses scripted in bossData.ts
+export { default as ScriptedBoss } from "./ScriptedBoss";
+
+// Chapter 1 boss (existing, now scripted - Boss.ts in parent directory is the fallback)
 
 // Chapter 2 - Forest Ruins bosses
 export { default as TreeGuardianBoss } from "./TreeGuardianBoss";
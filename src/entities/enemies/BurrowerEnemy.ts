@@ -137,8 +137,8 @@ export default class BurrowerEnemy extends Enemy {
     }
 
     // Move underground toward player position (slowly)
-    const targetX = playerX + Phaser.Math.Between(-50, 50);
-    const targetY = playerY + Phaser.Math.Between(-50, 50);
+    const targetX = playerX + this.rng.randomInt(-50, 50);
+    const targetY = playerY + this.rng.randomInt(-50, 50);
     const angle = Phaser.Math.Angle.Between(this.x, this.y, targetX, targetY);
     const speed = 40; // Slow underground movement
 
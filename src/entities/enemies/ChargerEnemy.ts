@@ -160,8 +160,8 @@ export default class ChargerEnemy extends Enemy {
     // Visual warning effects
     // 1. Shaking effect (increases with progress)
     const shakeIntensity = progress * 4;
-    const shakeX = (Math.random() - 0.5) * shakeIntensity;
-    const shakeY = (Math.random() - 0.5) * shakeIntensity;
+    const shakeX = (this.rng.random() - 0.5) * shakeIntensity;
+    const shakeY = (this.rng.random() - 0.5) * shakeIntensity;
     this.setPosition(this.x + shakeX, this.y + shakeY);
 
     // 2. Color flash (cyan -> red)
@@ -112,7 +112,8 @@ export default class SpawnerEnemy extends Enemy {
     };
     super(scene, x, y, spawnerOptions);
 
-    this.spawnOptions = options ?? {};
+    // Minions of an elite spawner are regular minions
+    this.spawnOptions = { ...options, eliteAffixes: undefined };
 
     // Apply chapter-specific modifiers
     this.spawnInterval = 4000 * (options?.attackCooldownMultiplier ?? 1.0);
@@ -319,7 +320,7 @@ export default class SpawnerEnemy extends Enemy {
     // Always spawn minions from top of screen - they walk in naturally
     const width = this.scene.cameras.main.width;
     const margin = 50;
-    const spawnX = margin + Math.random() * (width - margin * 2);
+    const spawnX = margin + this.rng.random() * (width - margin * 2);
     const spawnY = this.MINION_SPAWN_Y;
 
     // Create minion
@@ -97,16 +97,16 @@ export default class SpreaderEnemy extends RangedEnemy {
 
     // Calculate hop direction - tend to hop away from player or to a random nearby position
     const distToPlayer = Phaser.Math.Distance.Between(this.x, this.y, playerX, playerY);
-    const hopDistance = 40 + Math.random() * 30; // 40-70 pixels
+    const hopDistance = 40 + this.rng.random() * 30; // 40-70 pixels
 
     let hopAngle: number;
     if (distToPlayer < 120) {
       // Too close to player - hop away
       hopAngle = Phaser.Math.Angle.Between(playerX, playerY, this.x, this.y);
-      hopAngle += (Math.random() - 0.5) * Math.PI * 0.5; // Add some randomness
+      hopAngle += (this.rng.random() - 0.5) * Math.PI * 0.5; // Add some randomness
     } else {
       // Random direction
-      hopAngle = Math.random() * Math.PI * 2;
+      hopAngle = this.rng.random() * Math.PI * 2;
     }
 
     // Calculate target position
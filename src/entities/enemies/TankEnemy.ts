@@ -29,6 +29,7 @@ export default class TankEnemy extends Enemy {
       speedMultiplier: options?.speedMultiplier ?? 1.0,
       attackCooldownMultiplier: options?.attackCooldownMultiplier ?? 1.0,
       projectileSpeedMultiplier: options?.projectileSpeedMultiplier ?? 1.0,
+      eliteAffixes: options?.eliteAffixes,
     };
     super(scene, x, y, tankOptions);
 
@@ -4,8 +4,12 @@ import PreloaderScene from "./scenes/PreloaderScene";
 import MainMenuScene from "./scenes/MainMenuScene";
 import HeroesScene from "./scenes/HeroesScene";
 import EquipmentScene from "./scenes/EquipmentScene";
+import EnchantingScene from "./scenes/EnchantingScene";
 import TalentsScene from "./scenes/TalentsScene";
 import ChestScene from "./scenes/ChestScene";
+import ShopScene from "./scenes/ShopScene";
+import MissionsScene from "./scenes/MissionsScene";
+import SeasonPassScene from "./scenes/SeasonPassScene";
 import DailyRewardScene from "./scenes/DailyRewardScene";
 import AchievementsScene from "./scenes/AchievementsScene";
 import SettingsScene from "./scenes/SettingsScene";
@@ -20,12 +24,29 @@ import StartingAbilityScene from "./scenes/StartingAbilityScene";
 import PauseScene from "./scenes/PauseScene";
 import BuildInfoScene from "./scenes/BuildInfoScene";
 import HighScoreScene from "./scenes/HighScoreScene";
+import ChapterSelectScene from "./scenes/ChapterSelectScene";
+import SpecialRoomScene from "./scenes/SpecialRoomScene";
 import { errorToast } from "./systems/ErrorToast";
+import { saveSnapshots } from "./systems/storage";
+import { heroManager } from "./systems/HeroManager";
+import { missionManager } from "./systems/MissionManager";
+import { seasonManager } from "./systems/SeasonManager";
+import { loadoutManager } from "./systems/LoadoutManager";
+import { createLoadoutPlayerState } from "./systems/LoadoutPlayerState";
 
 // Initialize error toast for debugging on mobile
 // This sets up global error handlers to catch and display errors visually
 errorToast.setDuration(5000); // 5 seconds display
 
+// Snapshot progress on every launch so a corrupted session can be rolled back
+saveSnapshots.take("app_start");
+
+// Hero missions are only drawn for heroes the player owns
+missionManager.setHeroUnlockCheck((heroId) => heroManager.isUnlocked(heroId));
+
+// Claimed missions earn season XP
+missionManager.on("missionClaimed", ({ period }) => seasonManager.recordMissionClaimed(period));
+
 const config: Phaser.Types.Core.GameConfig = {
   type: Phaser.AUTO,
   width: 375,
@@ -50,8 +71,12 @@ const config: Phaser.Types.Core.GameConfig = {
     MainMenuScene,
     HeroesScene,
     EquipmentScene,
+    EnchantingScene,
     TalentsScene,
     ChestScene,
+    ShopScene,
+    MissionsScene,
+    SeasonPassScene,
     DailyRewardScene,
     AchievementsScene,
     SettingsScene,
@@ -66,6 +91,8 @@ const config: Phaser.Types.Core.GameConfig = {
     PauseScene,
     BuildInfoScene,
     HighScoreScene,
+    ChapterSelectScene,
+    SpecialRoomScene,
   ],
   scale: {
     mode: Phaser.Scale.FIT,
@@ -73,4 +100,11 @@ const config: Phaser.Types.Core.GameConfig = {
   },
 };
 
-new Phaser.Game(config);
+const game = new Phaser.Game(config);
+
+// Missions and season XP count the kills, room clears and finished runs a run emits
+missionManager.listenToRunEvents(game.events);
+seasonManager.listenToRunEvents(game.events);
+
+// Loadouts read and switch the hero, gear and difficulty the menu shows
+loadoutManager.setPlayerState(createLoadoutPlayerState(game));
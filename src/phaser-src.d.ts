@@ -0,0 +1,47 @@
+/**
+ * Type declarations for the Phaser source modules GameScene.test.ts loads directly.
+ * Phaser only ships types for its bundled "phaser" entry, so these map each
+ * module's default export onto the matching part of the Phaser namespace.
+ */
+
+declare module "phaser/src/scene/SceneManager" {
+  const SceneManager: typeof Phaser.Scenes.SceneManager;
+  export default SceneManager;
+}
+
+declare module "phaser/src/scene/Systems" {
+  const Systems: typeof Phaser.Scenes.Systems;
+  export default Systems;
+}
+
+declare module "phaser/src/scene/events" {
+  const SceneEvents: typeof Phaser.Scenes.Events;
+  export default SceneEvents;
+}
+
+declare module "phaser/src/scene/const" {
+  const SceneConst: Pick<
+    typeof Phaser.Scenes,
+    | "PENDING"
+    | "INIT"
+    | "START"
+    | "LOADING"
+    | "CREATING"
+    | "RUNNING"
+    | "PAUSED"
+    | "SLEEPING"
+    | "SHUTDOWN"
+    | "DESTROYED"
+  >;
+  export default SceneConst;
+}
+
+declare module "phaser/src/tweens/TweenManager" {
+  const TweenManager: typeof Phaser.Tweens.TweenManager;
+  export default TweenManager;
+}
+
+declare module "phaser/src/time/Clock" {
+  const Clock: typeof Phaser.Time.Clock;
+  export default Clock;
+}
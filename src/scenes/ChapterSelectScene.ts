@@ -0,0 +1,179 @@
+import Phaser from "phaser";
+import { audioManager } from "../systems/AudioManager";
+import { currencyManager } from "../systems/CurrencyManager";
+import { chapterManager } from "../systems/ChapterManager";
+import { dailyChallengeManager } from "../systems/DailyChallengeManager";
+import { getAllChapterIds, getChapterDefinition, ChapterId } from "../config/chapterData";
+import { fadeInScene, transitionToScene, TransitionType, DURATION } from "../systems/UIAnimations";
+import {
+  createBackButton,
+  createBackButtonFooter,
+  showNoEnergyModal,
+  showMockAdPopup,
+} from "../ui/components";
+import { bossRushManager } from "../systems/BossRushManager";
+
+/**
+ * ChapterSelectScene - Campaign chapter picker
+ *
+ * Features:
+ * - One card per chapter with best stars and best clear time
+ * - Locked chapters unlock by clearing the previous one
+ * - Starting a chapter costs 1 energy, like an endless run
+ */
+export default class ChapterSelectScene extends Phaser.Scene {
+  private readonly CARD_HEIGHT = 84;
+  private readonly CARD_SPACING = 94;
+
+  constructor() {
+    super({ key: "ChapterSelectScene" });
+  }
+
+  create() {
+    fadeInScene(this, DURATION.FAST);
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+
+    // Background
+    this.add.rectangle(width / 2, height / 2, width, height, 0x1a1a2e);
+
+    // Header
+    this.add
+      .text(width / 2, 30, "CAMPAIGN", {
+        fontSize: "24px",
+        color: "#ffffff",
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
+
+    this.add
+      .text(width / 2, 58, "Clear 20 rooms and the boss to finish a chapter", {
+        fontSize: "12px",
+        color: "#888888",
+      })
+      .setOrigin(0.5);
+
+    // Chapter cards
+    getAllChapterIds().forEach((chapterId, index) => {
+      this.createChapterCard(chapterId, width / 2, 130 + index * this.CARD_SPACING, width - 30);
+    });
+
+    // Footer and back button
+    createBackButtonFooter(this, width, height);
+    createBackButton({
+      scene: this,
+      x: width / 2,
+      y: height - 25,
+      targetScene: "MainMenuScene",
+    });
+  }
+
+  private createChapterCard(chapterId: ChapterId, x: number, y: number, cardWidth: number) {
+    const chapter = getChapterDefinition(chapterId);
+    const progress = chapterManager.getChapterProgress(chapterId);
+    const unlocked = chapterManager.isChapterUnlocked(chapterId);
+    const left = x - cardWidth / 2 + 14;
+
+    const card = this.add.rectangle(x, y, cardWidth, this.CARD_HEIGHT, 0x2a2a3e);
+    card.setStrokeStyle(2, unlocked ? chapter.theme.primaryColor : 0x444444);
+
+    this.add
+      .text(left, y - 28, `${chapterId}. ${chapter.name}`, {
+        fontSize: "17px",
+        color: unlocked ? "#ffffff" : "#666666",
+        fontStyle: "bold",
+      })
+      .setOrigin(0, 0.5);
+
+    this.add
+      .text(left, y - 6, chapter.description, {
+        fontSize: "11px",
+        color: unlocked ? "#aaaaaa" : "#555555",
+        wordWrap: { width: cardWidth - 110 },
+      })
+      .setOrigin(0, 0);
+
+    if (!unlocked) {
+      this.add
+        .text(x + cardWidth / 2 - 14, y - 28, `🔒 Clear Ch. ${chapterId - 1}`, {
+          fontSize: "11px",
+          color: "#888888",
+        })
+        .setOrigin(1, 0.5);
+      return;
+    }
+
+    // Best stars and clear time
+    const bestStars = progress?.bestStars ?? 0;
+    this.add
+      .text(x + cardWidth / 2 - 14, y - 28, "★".repeat(bestStars) + "☆".repeat(3 - bestStars), {
+        fontSize: "18px",
+        color: "#ffdd00",
+      })
+      .setOrigin(1, 0.5);
+
+    const bestTimeMs = progress?.bestTimeMs ?? null;
+    const bestText =
+      bestTimeMs !== null
+        ? `Best: ${this.formatTime(bestTimeMs)}`
+        : `Reached room ${progress?.highestRoom ?? 0}`;
+    this.add
+      .text(x + cardWidth / 2 - 14, y + 26, bestText, {
+        fontSize: "11px",
+        color: "#88ccff",
+      })
+      .setOrigin(1, 0.5);
+
+    card.setInteractive({ useHandCursor: true });
+    card.on("pointerover", () => card.setFillStyle(0x3a3a55));
+    card.on("pointerout", () => card.setFillStyle(0x2a2a3e));
+    card.on("pointerdown", () => {
+      audioManager.playGameStart();
+      if (!this.trySpendEnergy(() => this.startChapter(chapterId))) return;
+      this.startChapter(chapterId);
+    });
+  }
+
+  /**
+   * Start a campaign run of the chosen chapter
+   */
+  private startChapter(chapterId: ChapterId) {
+    this.game.registry.set("isEndlessMode", false);
+    dailyChallengeManager.cancelAttempt();
+    bossRushManager.cancelRun();
+
+    chapterManager.selectChapter(chapterId);
+
+    transitionToScene(this, "GameScene", TransitionType.FADE, DURATION.NORMAL);
+    this.scene.launch("UIScene");
+  }
+
+  private trySpendEnergy(start: () => void): boolean {
+    if (currencyManager.get("energy") <= 0) {
+      showNoEnergyModal({
+        scene: this,
+        onWatchAd: () => {
+          showMockAdPopup({
+            scene: this,
+            buttonText: "Play Now",
+            onComplete: () => {
+              // Ad gave us +1 energy, spend it and start the chapter
+              currencyManager.spendEnergy(1);
+              start();
+            },
+          });
+        },
+      });
+      return false;
+    }
+    currencyManager.spendEnergy(1);
+    return true;
+  }
+
+  private formatTime(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+  }
+}
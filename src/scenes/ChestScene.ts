@@ -6,6 +6,7 @@
  * - Tap chest to open with animation
  * - Equipment reveal card with details
  * - Equip button on reveal
+ * - Pity progress per chest type and a drop history panel
  */
 
 import Phaser from "phaser";
@@ -13,15 +14,19 @@ import {
   ChestType,
   CHEST_CONFIGS,
   CHEST_ORDER,
-  rollChestRarity,
+  ChestDropRecord,
+  countDropsByRarity,
+  rollChestSetDrop,
   rollChestCurrencyRewards,
   ChestCurrencyRewards,
 } from "../data/chestData";
 import { chestManager } from "../systems/ChestManager";
 import { currencyManager } from "../systems/CurrencyManager";
 import { equipmentManager } from "../systems/EquipmentManager";
+import { storageService } from "../systems/storage";
 import { Equipment, Rarity, RARITY_CONFIGS, EquipmentStats, PerkId } from "../systems/Equipment";
 import { PERKS } from "../config/equipmentData";
+import { EQUIPMENT_SETS } from "../config/equipmentSetData";
 import { audioManager } from "../systems/AudioManager";
 import { PlayerStats } from "../systems/PlayerStats";
 import * as UIAnimations from "../systems/UIAnimations";
@@ -32,12 +37,28 @@ interface ChestSlot {
   type: ChestType;
   countText: Phaser.GameObjects.Text;
   openAllBtn: Phaser.GameObjects.Text;
+  /** Only for chest types with pity */
+  pityText?: Phaser.GameObjects.Text;
+  pityBar?: Phaser.GameObjects.Rectangle;
 }
 
+/** Width of the pity progress bar on a chest card */
+const PITY_BAR_WIDTH = 110;
+
+/** Rarities from best to worst, for the drop history summary */
+const HISTORY_RARITY_ORDER: Rarity[] = [
+  Rarity.LEGENDARY,
+  Rarity.EPIC,
+  Rarity.RARE,
+  Rarity.GREAT,
+  Rarity.COMMON,
+];
+
 export default class ChestScene extends Phaser.Scene {
   private chestSlots: ChestSlot[] = [];
   private revealContainer: Phaser.GameObjects.Container | null = null;
   private bulkRevealContainer: Phaser.GameObjects.Container | null = null;
+  private historyContainer: Phaser.GameObjects.Container | null = null;
   private isOpening = false;
   private instructionText: Phaser.GameObjects.Text | null = null;
   private inventoryChangedHandler: (() => void) | null = null;
@@ -110,6 +131,22 @@ export default class ChestScene extends Phaser.Scene {
     backBtn.on("pointerover", () => backBtn.setColor("#ffffff"));
     backBtn.on("pointerout", () => backBtn.setColor("#aaaaaa"));
 
+    // Drop history (top-right)
+    const historyBtn = this.add
+      .text(width - 20, 40, "📜 History", {
+        fontSize: "14px",
+        color: "#aaaaaa",
+      })
+      .setOrigin(1, 0.5);
+    historyBtn.setInteractive({ useHandCursor: true });
+    historyBtn.on("pointerdown", () => {
+      if (this.isOpening) return;
+      audioManager.playMenuSelect();
+      this.showDropHistory();
+    });
+    historyBtn.on("pointerover", () => historyBtn.setColor("#ffffff"));
+    historyBtn.on("pointerout", () => historyBtn.setColor("#aaaaaa"));
+
     // Divider
     this.add.rectangle(width / 2, 70, width - 40, 2, 0x444444);
   }
@@ -193,6 +230,24 @@ export default class ChestScene extends Phaser.Scene {
     openAllBtn.setVisible(count > 1);
     container.add(openAllBtn);
 
+    // Pity progress (chests that can drop Epic or Legendary)
+    let pityText: Phaser.GameObjects.Text | undefined;
+    let pityBar: Phaser.GameObjects.Rectangle | undefined;
+    if (chestManager.getPityThreshold(chestType) !== null) {
+      pityText = this.add
+        .text(-20, 25, "", {
+          fontSize: "10px",
+          color: "#cc88ff",
+        })
+        .setOrigin(0, 0.5);
+      const pityTrack = this.add
+        .rectangle(-20, 38, PITY_BAR_WIDTH, 6, 0x1a1a2e)
+        .setOrigin(0, 0.5)
+        .setStrokeStyle(1, 0x555566);
+      pityBar = this.add.rectangle(-20, 38, 0, 6, 0xaa66ff).setOrigin(0, 0.5);
+      container.add([pityText, pityTrack, pityBar]);
+    }
+
     // Make interactive
     bg.setInteractive({ useHandCursor: true });
     bg.on("pointerdown", () => this.onChestClick(chestType));
@@ -221,6 +276,8 @@ export default class ChestScene extends Phaser.Scene {
       type: chestType,
       countText,
       openAllBtn,
+      pityText,
+      pityBar,
     };
   }
 
@@ -243,6 +300,7 @@ export default class ChestScene extends Phaser.Scene {
       this.updateChestCounts();
     };
     chestManager.on("inventoryChanged", this.inventoryChangedHandler);
+    chestManager.on("dropRecorded", this.inventoryChangedHandler);
   }
 
   private updateChestCounts(): void {
@@ -261,6 +319,19 @@ export default class ChestScene extends Phaser.Scene {
         slot.openAllBtn.setVisible(count > 1);
       }
 
+      // Pity progress
+      const threshold = chestManager.getPityThreshold(slot.type);
+      if (threshold !== null && slot.pityText?.active && slot.pityBar?.active) {
+        const pityCount = chestManager.getPityCount(slot.type);
+        const remaining = threshold - pityCount;
+        slot.pityText.setText(
+          remaining <= 1
+            ? "Next open: Epic or better guaranteed!"
+            : `Epic or better within ${remaining} opens`,
+        );
+        slot.pityBar.width = (PITY_BAR_WIDTH * Math.min(pityCount, threshold)) / threshold;
+      }
+
       // Dim if no chests available
       if (count <= 0) {
         slot.countText.setColor("#666666");
@@ -304,28 +375,45 @@ export default class ChestScene extends Phaser.Scene {
 
     this.isOpening = true;
 
-    // Remove the chest
-    chestManager.removeChest(chestType);
+    // Chest removal, item and currency rewards are persisted as one commit
+    const { equipment, currencyRewards } = storageService.transaction(() => {
+      // Remove the chest
+      chestManager.removeChest(chestType);
 
-    // Roll for rarity and generate equipment
-    const rarity = rollChestRarity(chestType);
-    const equipment = equipmentManager.generateRandomEquipment(rarity);
+      // Roll for rarity and generate equipment
+      const equipment = this.rollChestEquipment(chestType);
 
-    // Roll for currency rewards
-    const currencyRewards = rollChestCurrencyRewards(chestType);
+      // Roll for currency rewards
+      const currencyRewards = rollChestCurrencyRewards(chestType);
 
-    // Award currency immediately
-    if (currencyRewards.gold > 0) {
-      currencyManager.add("gold", currencyRewards.gold);
-    }
-    if (currencyRewards.gems > 0) {
-      currencyManager.add("gems", currencyRewards.gems);
-    }
+      // Award currency immediately
+      if (currencyRewards.gold > 0) {
+        currencyManager.add("gold", currencyRewards.gold);
+      }
+      if (currencyRewards.gems > 0) {
+        currencyManager.add("gems", currencyRewards.gems);
+      }
+
+      return { equipment, currencyRewards };
+    });
 
     // Play opening animation
     this.playChestOpenAnimation(chestType, equipment, currencyRewards);
   }
 
+  /**
+   * Roll a chest's equipment: rarity from the chest, sometimes a set piece
+   */
+  private rollChestEquipment(chestType: ChestType): Equipment {
+    const { rarity, isPity } = chestManager.rollRarity(chestType);
+    const setId = rollChestSetDrop(chestType);
+    const equipment = setId
+      ? equipmentManager.generateSetEquipment(rarity, setId)
+      : equipmentManager.generateRandomEquipment(rarity);
+    chestManager.recordDrop(chestType, equipment, isPity);
+    return equipment;
+  }
+
   private playChestOpenAnimation(
     chestType: ChestType,
     equipment: Equipment,
@@ -508,10 +596,13 @@ export default class ChestScene extends Phaser.Scene {
       .setOrigin(0.5);
     this.revealContainer.add(nameText);
 
-    // Rarity label
+    // Rarity label (and set for set pieces)
     const rarityY = nameY + 35;
+    const rarityLabel = equipment.setId
+      ? `${rarityConfig.name.toUpperCase()} • ${EQUIPMENT_SETS[equipment.setId].name.toUpperCase()}`
+      : rarityConfig.name.toUpperCase();
     const rarityText = this.add
-      .text(0, rarityY, rarityConfig.name.toUpperCase(), {
+      .text(0, rarityY, rarityLabel, {
         fontSize: "16px",
         color: rarityConfig.color,
       })
@@ -705,26 +796,28 @@ export default class ChestScene extends Phaser.Scene {
     const items: Equipment[] = [];
     const totalCurrency: ChestCurrencyRewards = { gold: 0, gems: 0 };
 
-    for (let i = 0; i < count; i++) {
-      chestManager.removeChest(chestType);
-      const rarity = rollChestRarity(chestType);
-      // generateRandomEquipment already adds to inventory via createEquipment
-      const equipment = equipmentManager.generateRandomEquipment(rarity);
-      items.push(equipment);
-
-      // Roll currency for each chest
-      const currencyRewards = rollChestCurrencyRewards(chestType);
-      totalCurrency.gold += currencyRewards.gold;
-      totalCurrency.gems += currencyRewards.gems;
-    }
+    // All chests are opened in a single storage commit
+    storageService.transaction(() => {
+      for (let i = 0; i < count; i++) {
+        chestManager.removeChest(chestType);
+        // Generated equipment is already added to inventory via createEquipment
+        const equipment = this.rollChestEquipment(chestType);
+        items.push(equipment);
+
+        // Roll currency for each chest
+        const currencyRewards = rollChestCurrencyRewards(chestType);
+        totalCurrency.gold += currencyRewards.gold;
+        totalCurrency.gems += currencyRewards.gems;
+      }
 
-    // Award total currency
-    if (totalCurrency.gold > 0) {
-      currencyManager.add("gold", totalCurrency.gold);
-    }
-    if (totalCurrency.gems > 0) {
-      currencyManager.add("gems", totalCurrency.gems);
-    }
+      // Award total currency
+      if (totalCurrency.gold > 0) {
+        currencyManager.add("gold", totalCurrency.gold);
+      }
+      if (totalCurrency.gems > 0) {
+        currencyManager.add("gems", totalCurrency.gems);
+      }
+    });
 
     this.showBulkReveal(items, chestType, totalCurrency);
   }
@@ -1104,10 +1197,225 @@ export default class ChestScene extends Phaser.Scene {
       .join(" ");
   }
 
+  /**
+   * Drop history panel: the last opened items with rarity, plus the
+   * observed rarity split to compare with the published drop rates
+   */
+  private showDropHistory(): void {
+    const { width, height } = this.cameras.main;
+    const history = chestManager.getDropHistory();
+
+    this.isOpening = true;
+
+    const overlay = this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.85);
+    overlay.setDepth(100);
+    overlay.setInteractive();
+
+    this.historyContainer = this.add.container(width / 2, height / 2);
+    this.historyContainer.setDepth(101);
+
+    const panelWidth = 330;
+    const panelHeight = 560;
+    const panel = this.add.rectangle(0, 0, panelWidth, panelHeight, 0x1a1a2e, 1);
+    panel.setStrokeStyle(2, 0x666677);
+    this.historyContainer.add(panel);
+
+    const headerText = this.add
+      .text(0, -panelHeight / 2 + 28, "DROP HISTORY", {
+        fontSize: "20px",
+        color: "#ffffff",
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
+    this.historyContainer.add(headerText);
+
+    // Observed split across the listed drops
+    const counts = countDropsByRarity(history);
+    const summary =
+      history.length === 0
+        ? "No chests opened yet"
+        : `Last ${history.length}: ` +
+          HISTORY_RARITY_ORDER.filter((rarity) => counts[rarity] > 0)
+            .map((rarity) => `${RARITY_CONFIGS[rarity].name} ${counts[rarity]}`)
+            .join(" • ");
+    const summaryText = this.add
+      .text(0, -panelHeight / 2 + 55, summary, {
+        fontSize: "11px",
+        color: "#aaaaaa",
+        align: "center",
+        wordWrap: { width: panelWidth - 30 },
+      })
+      .setOrigin(0.5, 0);
+    this.historyContainer.add(summaryText);
+
+    // Published rates per chest type
+    const ratesText = this.add
+      .text(
+        0,
+        -panelHeight / 2 + 90,
+        CHEST_ORDER.map((type) => {
+          const rates = CHEST_CONFIGS[type].dropRates;
+          const parts = HISTORY_RARITY_ORDER.filter((rarity) => rates[rarity] > 0).map(
+            (rarity) => `${RARITY_CONFIGS[rarity].name[0]} ${rates[rarity]}%`,
+          );
+          return `${CHEST_CONFIGS[type].name}: ${parts.join(" ")}`;
+        }).join("\n"),
+        {
+          fontSize: "10px",
+          color: "#777788",
+          align: "center",
+        },
+      )
+      .setOrigin(0.5, 0);
+    this.historyContainer.add(ratesText);
+
+    // Scrollable list
+    const listTop = -panelHeight / 2 + 140;
+    const listHeight = panelHeight - 140 - 70;
+    const rowHeight = 24;
+
+    const maskGraphics = this.add.graphics();
+    maskGraphics.fillStyle(0xffffff);
+    maskGraphics.fillRect(0, height / 2 + listTop, width, listHeight);
+    maskGraphics.setVisible(false);
+    const mask = new Phaser.Display.Masks.GeometryMask(this, maskGraphics);
+
+    const listContainer = this.add.container(0, listTop);
+    listContainer.setMask(mask);
+    this.historyContainer.add(listContainer);
+
+    history.forEach((record, index) => {
+      listContainer.add(
+        this.createHistoryRow(record, index * rowHeight + rowHeight / 2, panelWidth),
+      );
+    });
+
+    const maxScroll = Math.max(0, history.length * rowHeight - listHeight);
+    if (maxScroll > 0) {
+      let scrollY = 0;
+      let isDragging = false;
+      let lastPointerY = 0;
+
+      const dragZone = this.add.rectangle(
+        0,
+        listTop + listHeight / 2,
+        panelWidth,
+        listHeight,
+        0,
+        0,
+      );
+      dragZone.setInteractive();
+      this.historyContainer.add(dragZone);
+
+      dragZone.on("pointerdown", (pointer: Phaser.Input.Pointer) => {
+        isDragging = true;
+        lastPointerY = pointer.y;
+      });
+
+      this.input.on("pointermove", (pointer: Phaser.Input.Pointer) => {
+        if (isDragging) {
+          scrollY = Phaser.Math.Clamp(scrollY - (pointer.y - lastPointerY), 0, maxScroll);
+          listContainer.y = listTop - scrollY;
+          lastPointerY = pointer.y;
+        }
+      });
+
+      this.input.on("pointerup", () => {
+        isDragging = false;
+      });
+
+      this.input.on(
+        "wheel",
+        (
+          _pointer: Phaser.Input.Pointer,
+          _gameObjects: Phaser.GameObjects.GameObject[],
+          _deltaX: number,
+          deltaY: number,
+        ) => {
+          scrollY = Phaser.Math.Clamp(scrollY + deltaY * 0.5, 0, maxScroll);
+          listContainer.y = listTop - scrollY;
+        },
+      );
+    }
+
+    const closeBtn = this.add
+      .text(0, panelHeight / 2 - 35, "CLOSE", {
+        fontSize: "18px",
+        color: "#ffffff",
+        backgroundColor: "#666677",
+        padding: { x: 40, y: 12 },
+      })
+      .setOrigin(0.5);
+    closeBtn.setInteractive({ useHandCursor: true });
+    closeBtn.on("pointerdown", () => {
+      audioManager.playMenuSelect();
+      this.closeDropHistory(overlay, maskGraphics);
+    });
+    UIAnimations.applyButtonEffects(this, closeBtn);
+    this.historyContainer.add(closeBtn);
+
+    UIAnimations.showModal(this, this.historyContainer);
+  }
+
+  private createHistoryRow(
+    record: ChestDropRecord,
+    y: number,
+    panelWidth: number,
+  ): Phaser.GameObjects.Container {
+    const row = this.add.container(0, y);
+    const rarityConfig = RARITY_CONFIGS[record.rarity];
+    const left = -panelWidth / 2 + 15;
+
+    const chestText = this.add
+      .text(left, 0, CHEST_CONFIGS[record.chestType].name.replace(" Chest", ""), {
+        fontSize: "11px",
+        color: CHEST_CONFIGS[record.chestType].color,
+      })
+      .setOrigin(0, 0.5);
+
+    let itemName = record.itemName;
+    if (itemName.length > 18) {
+      itemName = itemName.substring(0, 17) + "...";
+    }
+    const nameText = this.add
+      .text(left + 55, 0, record.isPity ? `${itemName} ★` : itemName, {
+        fontSize: "11px",
+        color: "#dddddd",
+      })
+      .setOrigin(0, 0.5);
+
+    const rarityText = this.add
+      .text(panelWidth / 2 - 15, 0, rarityConfig.name, {
+        fontSize: "11px",
+        color: rarityConfig.color,
+        fontStyle: "bold",
+      })
+      .setOrigin(1, 0.5);
+
+    row.add([chestText, nameText, rarityText]);
+    return row;
+  }
+
+  private closeDropHistory(
+    overlay: Phaser.GameObjects.Rectangle,
+    maskGraphics: Phaser.GameObjects.Graphics,
+  ): void {
+    this.input.off("pointermove");
+    this.input.off("pointerup");
+    this.input.off("wheel");
+
+    this.historyContainer?.destroy();
+    this.historyContainer = null;
+    maskGraphics.destroy();
+    overlay.destroy();
+    this.isOpening = false;
+  }
+
   shutdown(): void {
     // Clean up event listeners to prevent updates on destroyed objects
     if (this.inventoryChangedHandler) {
       chestManager.off("inventoryChanged", this.inventoryChangedHandler);
+      chestManager.off("dropRecorded", this.inventoryChangedHandler);
       this.inventoryChangedHandler = null;
     }
     this.chestSlots = [];
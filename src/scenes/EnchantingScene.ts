@@ -0,0 +1,371 @@
+/**
+ * EnchantingScene - Perk rerolls and extra perk slots for one item
+ *
+ * Reached from the item popup in EquipmentScene. Features:
+ * - Tap a perk to lock it (locked perks survive the reroll, each lock costs more)
+ * - Reroll the unlocked perks for gold and scrolls
+ * - Add a perk slot to Epic and Legendary items
+ * - Undo the latest enchant once within the undo window
+ */
+
+import Phaser from "phaser";
+import {
+  Equipment,
+  PerkId,
+  RARITY_CONFIGS,
+  UpgradeCost,
+  isRarityAtLeast,
+} from "../systems/Equipment";
+import { PERKS } from "../config/equipmentData";
+import {
+  ENCHANT_EXTRA_SLOT_MIN_RARITY,
+  ENCHANT_UNDO_WINDOW_MS,
+  canAddPerkSlot,
+  canRerollPerks,
+} from "../config/enchantingData";
+import { equipmentManager } from "../systems/EquipmentManager";
+import { enchantingManager } from "../systems/EnchantingManager";
+import { currencyManager } from "../systems/CurrencyManager";
+import { audioManager } from "../systems/AudioManager";
+import * as UIAnimations from "../systems/UIAnimations";
+import { createBackButton } from "../ui/components/BackButton";
+import { createSceneHeader, SceneHeaderResult } from "../ui/components/SceneHeader";
+
+export interface EnchantingData {
+  itemId: string;
+}
+
+export default class EnchantingScene extends Phaser.Scene {
+  private item: Equipment | null = null;
+  private lockedIndices: Set<number> = new Set();
+  private header: SceneHeaderResult | null = null;
+  /** Everything that is rebuilt after an enchant */
+  private content: Phaser.GameObjects.Container | null = null;
+  private messageText: Phaser.GameObjects.Text | null = null;
+  private undoTimer: Phaser.Time.TimerEvent | null = null;
+
+  private readonly PERK_ROW_HEIGHT = 52;
+
+  constructor() {
+    super({ key: "EnchantingScene" });
+  }
+
+  init(data: EnchantingData) {
+    this.item = equipmentManager.findItem(data.itemId) ?? null;
+    this.lockedIndices = new Set();
+  }
+
+  create() {
+    const { width, height } = this.cameras.main;
+
+    // Reset state from previous scene visits (Phaser reuses scene instances)
+    this.content = null;
+    this.messageText = null;
+    this.undoTimer = null;
+
+    this.add.rectangle(width / 2, height / 2, width, height, 0x1a1a2e);
+
+    this.header = createSceneHeader({
+      scene: this,
+      title: "ENCHANT",
+      showCurrency: true,
+      currencyTypes: ["gold", "scrolls"],
+    });
+
+    this.messageText = this.add
+      .text(width / 2, height - 95, "", {
+        fontSize: "13px",
+        color: "#ffffff",
+        align: "center",
+        wordWrap: { width: width - 40 },
+      })
+      .setOrigin(0.5);
+
+    createBackButton({
+      scene: this,
+      y: height - 40,
+      targetScene: "EquipmentScene",
+      text: "BACK",
+    });
+
+    this.events.once("shutdown", this.shutdown, this);
+
+    if (!this.item) {
+      this.showMessage("Item not found", "#ff6666");
+      return;
+    }
+
+    this.refresh();
+
+    // Keep the undo countdown current
+    this.undoTimer = this.time.addEvent({
+      delay: 1000,
+      loop: true,
+      callback: () => this.refresh(),
+    });
+  }
+
+  // ============================================
+  // Layout
+  // ============================================
+
+  /**
+   * Rebuild the item card, perk rows and buttons
+   */
+  private refresh(): void {
+    const item = this.item;
+    if (!item) return;
+
+    this.content?.destroy();
+    this.content = this.add.container(0, 0);
+    this.header?.updateCurrency();
+
+    let y = this.createItemCard(item, 120);
+    y = this.createPerkRows(item, y + 15);
+    this.createActionButtons(item, y + 20);
+  }
+
+  private createItemCard(item: Equipment, y: number): number {
+    const { width } = this.cameras.main;
+    const rarityConfig = RARITY_CONFIGS[item.rarity];
+
+    const sprite = this.add.image(60, y + 30, `equip_${item.type}`);
+    sprite.setDisplaySize(64, 64);
+
+    const name = this.add
+      .text(105, y + 15, item.name, {
+        fontSize: "18px",
+        color: rarityConfig.color,
+        fontStyle: "bold",
+      })
+      .setOrigin(0, 0.5);
+
+    const info = this.add
+      .text(105, y + 40, `${rarityConfig.name} • Lv.${item.level} • ${item.perks.length} perks`, {
+        fontSize: "12px",
+        color: "#aaaaaa",
+      })
+      .setOrigin(0, 0.5);
+
+    const divider = this.add.rectangle(width / 2, y + 72, width - 40, 1, 0x444466);
+    this.content?.add([sprite, name, info, divider]);
+    return y + 72;
+  }
+
+  private createPerkRows(item: Equipment, y: number): number {
+    const { width } = this.cameras.main;
+
+    const label = this.add
+      .text(20, y, "PERKS - tap to lock", {
+        fontSize: "12px",
+        color: "#666666",
+      })
+      .setOrigin(0, 0.5);
+    this.content?.add(label);
+    y += 15;
+
+    if (item.perks.length === 0) {
+      const empty = this.add
+        .text(width / 2, y + 20, "This item has no perks to enchant", {
+          fontSize: "13px",
+          color: "#888888",
+        })
+        .setOrigin(0.5);
+      this.content?.add(empty);
+      return y + 40;
+    }
+
+    item.perks.forEach((perkId, index) => {
+      const rowY = y + index * (this.PERK_ROW_HEIGHT + 6) + this.PERK_ROW_HEIGHT / 2;
+      this.createPerkRow(perkId, index, rowY);
+    });
+
+    return y + item.perks.length * (this.PERK_ROW_HEIGHT + 6);
+  }
+
+  private createPerkRow(perkId: PerkId, index: number, y: number): void {
+    const { width } = this.cameras.main;
+    const isLocked = this.lockedIndices.has(index);
+    const perk = PERKS[perkId];
+
+    const bg = this.add.rectangle(
+      width / 2,
+      y,
+      width - 40,
+      this.PERK_ROW_HEIGHT,
+      isLocked ? 0x3d3520 : 0x2d2d44,
+    );
+    bg.setStrokeStyle(1, isLocked ? 0xffcc44 : 0x444466);
+    bg.setInteractive({ useHandCursor: true });
+    bg.on("pointerdown", () => {
+      audioManager.playMenuSelect();
+      if (isLocked) {
+        this.lockedIndices.delete(index);
+      } else {
+        this.lockedIndices.add(index);
+      }
+      this.refresh();
+    });
+
+    const name = this.add
+      .text(35, y - 9, perk?.name ?? perkId, {
+        fontSize: "14px",
+        color: RARITY_CONFIGS[perk?.rarity ?? "common"].color,
+        fontStyle: "bold",
+      })
+      .setOrigin(0, 0.5);
+
+    const description = this.add
+      .text(35, y + 11, perk?.description ?? "", {
+        fontSize: "11px",
+        color: "#aaaaaa",
+      })
+      .setOrigin(0, 0.5);
+
+    const lockIcon = this.add
+      .text(width - 40, y, isLocked ? "🔒" : "🔓", {
+        fontSize: "18px",
+      })
+      .setOrigin(0.5);
+
+    this.content?.add([bg, name, description, lockIcon]);
+  }
+
+  private createActionButtons(item: Equipment, y: number): void {
+    const { width } = this.cameras.main;
+    const lockedIndices = [...this.lockedIndices];
+
+    // Reroll
+    const rerollCost = equipmentManager.getRerollCost(item, lockedIndices);
+    const canReroll = canRerollPerks(item, lockedIndices);
+    this.createButton(
+      width / 2,
+      y,
+      `REROLL (${this.formatCost(rerollCost)})`,
+      "#7744aa",
+      canReroll && this.canAfford(rerollCost),
+      () => this.onReroll(),
+    );
+    y += 45;
+
+    // Extra perk slot (high-rarity items only)
+    if (isRarityAtLeast(item.rarity, ENCHANT_EXTRA_SLOT_MIN_RARITY)) {
+      const slotCost = equipmentManager.getAddPerkSlotCost(item);
+      const canAdd = canAddPerkSlot(item);
+      this.createButton(
+        width / 2,
+        y,
+        canAdd ? `ADD PERK SLOT (${this.formatCost(slotCost)})` : "PERK SLOTS FULL",
+        "#aa7722",
+        canAdd && this.canAfford(slotCost),
+        () => this.onAddPerkSlot(),
+      );
+      y += 45;
+    }
+
+    // Undo the latest enchant
+    const undoable = enchantingManager.getUndoableEnchant(item.id);
+    if (undoable) {
+      const secondsLeft = Math.max(
+        0,
+        Math.ceil((undoable.enchantedAt + ENCHANT_UNDO_WINDOW_MS - Date.now()) / 1000),
+      );
+      const timeLeft = `${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, "0")}`;
+      this.createButton(width / 2, y, `UNDO LAST ENCHANT (${timeLeft})`, "#446688", true, () =>
+        this.onUndo(),
+      );
+      const note = this.add
+        .text(width / 2, y + 25, "Restores the previous perks. Costs are not refunded.", {
+          fontSize: "10px",
+          color: "#888888",
+        })
+        .setOrigin(0.5);
+      this.content?.add(note);
+    }
+  }
+
+  private createButton(
+    x: number,
+    y: number,
+    label: string,
+    color: string,
+    enabled: boolean,
+    onClick: () => void,
+  ): void {
+    const button = this.add
+      .text(x, y, label, {
+        fontSize: "14px",
+        color: enabled ? "#ffffff" : "#888888",
+        backgroundColor: enabled ? color : "#333344",
+        padding: { x: 12, y: 8 },
+      })
+      .setOrigin(0.5);
+
+    if (enabled) {
+      button.setInteractive({ useHandCursor: true });
+      button.on("pointerdown", onClick);
+      UIAnimations.applyButtonEffects(this, button);
+    }
+    this.content?.add(button);
+  }
+
+  // ============================================
+  // Actions
+  // ============================================
+
+  private onReroll(): void {
+    if (!this.item) return;
+    const result = equipmentManager.rerollPerks(this.item, [...this.lockedIndices]);
+    this.onEnchantResult(result.success, result.error, "Perks rerolled!");
+  }
+
+  private onAddPerkSlot(): void {
+    if (!this.item) return;
+    const result = equipmentManager.addPerkSlot(this.item);
+    this.onEnchantResult(result.success, result.error, "New perk slot added!");
+  }
+
+  private onUndo(): void {
+    if (!this.item) return;
+    const result = equipmentManager.undoEnchant(this.item);
+    this.onEnchantResult(result.success, result.error, "Enchant undone");
+  }
+
+  private onEnchantResult(success: boolean, error: string | undefined, message: string): void {
+    if (success) {
+      audioManager.playAbilitySelect();
+      this.showMessage(message, "#88ff88");
+    } else {
+      console.warn("EnchantingScene: Enchant failed:", error);
+      this.showMessage(error ?? "Enchant failed", "#ff6666");
+    }
+    this.refresh();
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  private canAfford(cost: UpgradeCost): boolean {
+    return (
+      currencyManager.canAfford("gold", cost.gold) &&
+      currencyManager.canAfford("scrolls", cost.scrolls)
+    );
+  }
+
+  private formatCost(cost: UpgradeCost): string {
+    return `${cost.gold}g + ${cost.scrolls} scrolls`;
+  }
+
+  private showMessage(message: string, color: string): void {
+    this.messageText?.setText(message);
+    this.messageText?.setColor(color);
+  }
+
+  shutdown(): void {
+    this.undoTimer?.remove();
+    this.undoTimer = null;
+    this.content = null;
+    this.header = null;
+  }
+}
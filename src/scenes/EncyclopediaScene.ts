@@ -534,6 +534,11 @@ export default class EncyclopediaScene extends Phaser.Scene {
         const maxDim = Math.max(sprite.width, sprite.height);
         const scale = iconSize / maxDim;
         sprite.setScale(scale);
+        // Heroes sharing art are told apart by their tint
+        if (category === "heroes") {
+          const tint = (entry as HeroEncyclopediaEntry).spriteTint;
+          if (tint !== undefined) sprite.setTint(tint);
+        }
         container.add(sprite);
       } else {
         // Fallback: show colored circle with letter
@@ -678,8 +683,10 @@ export default class EncyclopediaScene extends Phaser.Scene {
         return "E";
       case "bosses":
         return "B";
-      case "abilities":
-        return "A";
+      case "abilities": {
+        const ab = entry as AbilityEncyclopediaEntry;
+        return ab.isEvolution ? "★" : "A";
+      }
       case "talents":
         return "T";
       case "heroes":
@@ -740,7 +747,7 @@ export default class EncyclopediaScene extends Phaser.Scene {
       }
       case "equipment": {
         const eq = entry as EquipmentEncyclopediaEntry;
-        return eq.statSummary;
+        return eq.setBonuses ? `Set • ${eq.statSummary}` : eq.statSummary;
       }
       case "enemies": {
         const en = entry as EnemyEncyclopediaEntry;
@@ -755,7 +762,7 @@ export default class EncyclopediaScene extends Phaser.Scene {
       }
       case "abilities": {
         const ab = entry as AbilityEncyclopediaEntry;
-        return ab.description;
+        return ab.isEvolution ? `Evolution • ${ab.requirements}` : ab.description;
       }
       case "talents": {
         const ta = entry as TalentEncyclopediaEntry;
@@ -871,6 +878,21 @@ export default class EncyclopediaScene extends Phaser.Scene {
       }
       case "equipment": {
         const eq = entry as EquipmentEncyclopediaEntry;
+        if (eq.setBonuses) {
+          this.addDetailLine(eq.description, y, "#aaaacc");
+          y += 30;
+          this.addDetailLine("Pieces:", y, "#ffdd00");
+          y += 22;
+          this.addDetailLine(eq.statSummary, y, "#ffffff");
+          y += 30;
+          this.addDetailLine("Set Bonuses:", y, "#ffdd00");
+          y += 22;
+          eq.setBonuses.forEach((bonus) => {
+            this.addDetailLine(bonus, y, "#88ff88");
+            y += 22;
+          });
+          break;
+        }
         this.addDetailLine(`Slot: ${eq.slot.toUpperCase()}`, y);
         y += 25;
         this.addDetailLine(eq.description, y, "#aaaacc");
@@ -914,13 +936,25 @@ export default class EncyclopediaScene extends Phaser.Scene {
       }
       case "abilities": {
         const ab = entry as AbilityEncyclopediaEntry;
-        this.addDetailLine("In-Run Upgrade", y, "#888899");
+        this.addDetailLine(ab.isEvolution ? "Evolution" : "In-Run Upgrade", y, "#888899");
         y += 30;
         this.addDetailLine("Effect:", y, "#ffdd00");
         y += 22;
         this.addDetailLine(ab.description, y, "#88ff88");
         y += 35;
-        this.addDetailLine("Choose from 3 random abilities each level-up", y, "#666677");
+        if (ab.isEvolution) {
+          this.addDetailLine("Requires:", y, "#ffdd00");
+          y += 22;
+          this.addDetailLine(ab.requirements ?? "", y, "#ffffff");
+          y += 30;
+          this.addDetailLine("Offered at every level-up once unlocked", y, "#666677");
+        } else {
+          if (ab.evolvesInto.length > 0) {
+            this.addDetailLine(`Evolves into: ${ab.evolvesInto.join(", ")}`, y, "#ffaa00");
+            y += 30;
+          }
+          this.addDetailLine("Choose from 3 random abilities each level-up", y, "#666677");
+        }
         break;
       }
       case "talents": {
@@ -3,6 +3,8 @@
  *
  * Displays equipped items, inventory grid, and allows
  * equipping/unequipping, upgrading, and fusing items.
+ * The inventory can be filtered and sorted, items can be locked, and bulk
+ * mode sells or salvages many items at once.
  */
 
 import Phaser from "phaser";
@@ -23,6 +25,19 @@ import {
   getQualityColor,
   getQualityLabel,
 } from "../config/equipmentData";
+import { getSetProgressFor, type EquipmentSetProgress } from "../config/equipmentSetData";
+import { canAddPerkSlot } from "../config/enchantingData";
+import {
+  INVENTORY_LEVEL_FILTERS,
+  INVENTORY_STAT_KEYS,
+  countActiveFilters,
+  filterInventory,
+  sortInventory,
+  type BulkAction,
+  type InventoryFilter,
+  type InventorySortKey,
+  type InventoryStatKey,
+} from "../config/inventoryData";
 import { equipmentManager, EQUIPMENT_EVENTS } from "../systems/EquipmentManager";
 import { currencyManager } from "../systems/CurrencyManager";
 import { audioManager } from "../systems/AudioManager";
@@ -53,25 +68,22 @@ interface InventorySlot {
   item: Equipment | null;
 }
 
-// Sort options for inventory
-type SortOption = "rarity" | "level" | "slot";
-
-// Rarity order for sorting (highest first)
-const RARITY_ORDER: Record<Rarity, number> = {
-  legendary: 5,
-  epic: 4,
-  rare: 3,
-  great: 2,
-  common: 1,
-};
+// Rarity order for the filter panel (lowest first)
+const FILTER_RARITIES: Rarity[] = [
+  Rarity.COMMON,
+  Rarity.GREAT,
+  Rarity.RARE,
+  Rarity.EPIC,
+  Rarity.LEGENDARY,
+];
 
-// Slot order for sorting
-const SLOT_ORDER: Record<EquipmentSlotType, number> = {
-  weapon: 1,
-  armor: 2,
-  ring: 3,
-  spirit: 4,
-};
+/**
+ * Step to the next option, wrapping around (undefined stands for "All")
+ */
+function cycleOption<T>(options: readonly T[], current: T): T {
+  const index = options.indexOf(current);
+  return options[(index + 1) % options.length];
+}
 
 export default class EquipmentScene extends Phaser.Scene {
   // Layout constants
@@ -88,6 +100,10 @@ export default class EquipmentScene extends Phaser.Scene {
   private goldText: Phaser.GameObjects.Text | null = null;
   private fusionButton: Phaser.GameObjects.Text | null = null;
   private fuseAllButton: Phaser.GameObjects.Text | null = null;
+  private setProgressText: Phaser.GameObjects.Text | null = null;
+  private filterButton: Phaser.GameObjects.Text | null = null;
+  private bulkButton: Phaser.GameObjects.Text | null = null;
+  private bulkBar: Phaser.GameObjects.Container | null = null;
 
   // Event handler references for cleanup
   private inventoryChangedHandler: (() => void) | null = null;
@@ -99,9 +115,15 @@ export default class EquipmentScene extends Phaser.Scene {
   // Scroll container for inventory
   private scrollContainer?: ScrollContainer;
 
-  // Sorting state
-  private currentSort: SortOption = "rarity";
-  private sortButtons: Map<SortOption, Phaser.GameObjects.Text> = new Map();
+  // Sorting and filter state
+  private currentSort: InventorySortKey = "rarity";
+  private sortStat: InventoryStatKey = "attackDamage";
+  private sortButtons: Map<InventorySortKey, Phaser.GameObjects.Text> = new Map();
+  private filter: InventoryFilter = {};
+
+  // Bulk sell/salvage state
+  private bulkMode = false;
+  private bulkSelection: Set<string> = new Set();
 
   constructor() {
     super({ key: "EquipmentScene" });
@@ -117,8 +139,14 @@ export default class EquipmentScene extends Phaser.Scene {
     this.goldText = null;
     this.fusionButton = null;
     this.fuseAllButton = null;
+    this.setProgressText = null;
+    this.filterButton = null;
+    this.bulkButton = null;
+    this.bulkBar = null;
     this.scrollContainer = undefined;
     this.sortButtons.clear();
+    this.bulkMode = false;
+    this.bulkSelection.clear();
 
     // Background
     this.add.rectangle(width / 2, height / 2, width, height, 0x1a1a2e);
@@ -187,6 +215,15 @@ export default class EquipmentScene extends Phaser.Scene {
       container.setDepth(10);
       this.equippedSlots.set(slot, container);
     });
+
+    // Equipment set progress (e.g. "Frost Set 2/3"), filled in refreshEquippedSlots
+    this.setProgressText = this.add
+      .text(width / 2, startY + this.SLOT_SIZE + 30, "", {
+        fontSize: "11px",
+        color: "#aaaaaa",
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
   }
 
   private createEquippedSlot(
@@ -261,13 +298,22 @@ export default class EquipmentScene extends Phaser.Scene {
     const inventoryY = 230;
     const visibleHeight = height - inventoryY - 120; // Leave room for buttons
 
-    // Section label with sort buttons
-    this.add
-      .text(20, inventoryY - 15, "INVENTORY", {
-        fontSize: "12px",
-        color: "#666666",
+    // Filter button with sort buttons
+    this.filterButton = this.add
+      .text(20, inventoryY - 15, "", {
+        fontSize: "11px",
+        color: "#aaaaaa",
+        backgroundColor: "#2a2a40",
+        padding: { x: 6, y: 2 },
       })
-      .setOrigin(0, 0.5);
+      .setOrigin(0, 0.5)
+      .setInteractive({ useHandCursor: true })
+      .setDepth(100); // Above scroll container
+    this.filterButton.on("pointerup", () => {
+      audioManager.playMenuSelect();
+      this.showFilterPanel();
+    });
+    this.updateFilterButton();
 
     // Sort buttons (right-aligned)
     this.createSortButtons(inventoryY - 15);
@@ -311,10 +357,12 @@ export default class EquipmentScene extends Phaser.Scene {
 
   private createSortButtons(y: number): void {
     const { width } = this.cameras.main;
-    const sortOptions: { key: SortOption; label: string }[] = [
+    const sortOptions: { key: InventorySortKey; label: string }[] = [
       { key: "rarity", label: "★" },
       { key: "level", label: "Lv" },
       { key: "slot", label: "⚔" },
+      { key: "perks", label: "✦" },
+      { key: "stat", label: "Stat" },
     ];
 
     let xPos = width - 20;
@@ -363,7 +411,7 @@ export default class EquipmentScene extends Phaser.Scene {
       .setDepth(100); // Above scroll container
   }
 
-  private setSort(sort: SortOption): void {
+  private setSort(sort: InventorySortKey): void {
     if (this.currentSort === sort) return;
 
     this.currentSort = sort;
@@ -380,36 +428,6 @@ export default class EquipmentScene extends Phaser.Scene {
     this.refreshInventorySlots();
   }
 
-  private sortInventory(items: Equipment[]): Equipment[] {
-    return [...items].sort((a, b) => {
-      switch (this.currentSort) {
-        case "rarity": {
-          // Sort by rarity (highest first), then level (highest first)
-          const rarityDiff = RARITY_ORDER[b.rarity] - RARITY_ORDER[a.rarity];
-          if (rarityDiff !== 0) return rarityDiff;
-          return b.level - a.level;
-        }
-
-        case "level": {
-          // Sort by level (highest first), then rarity
-          const levelDiff = b.level - a.level;
-          if (levelDiff !== 0) return levelDiff;
-          return RARITY_ORDER[b.rarity] - RARITY_ORDER[a.rarity];
-        }
-
-        case "slot": {
-          // Sort by slot type, then rarity
-          const slotDiff = SLOT_ORDER[a.slot] - SLOT_ORDER[b.slot];
-          if (slotDiff !== 0) return slotDiff;
-          return RARITY_ORDER[b.rarity] - RARITY_ORDER[a.rarity];
-        }
-
-        default:
-          return 0;
-      }
-    });
-  }
-
   private createInventorySlot(x: number, y: number, index: number): InventorySlot {
     const container = this.add.container(x, y);
 
@@ -510,9 +528,80 @@ export default class EquipmentScene extends Phaser.Scene {
     this.fuseAllButton.on("pointerdown", () => this.onFuseAllClick());
     UIAnimations.applyButtonEffects(this, this.fuseAllButton);
 
+    // Bulk sell/salvage button (to the left of FUSE ALL)
+    this.bulkButton = this.add
+      .text(this.fuseAllButton.x - this.fuseAllButton.width - 8, height - 100, "BULK", {
+        fontSize: "14px",
+        color: "#ffffff",
+        backgroundColor: "#aa6622",
+        padding: { x: 10, y: 8 },
+      })
+      .setOrigin(1, 0.5)
+      .setDepth(20); // Above inventory container
+
+    this.bulkButton.setInteractive({ useHandCursor: true });
+    this.bulkButton.on("pointerdown", () => {
+      audioManager.playMenuSelect();
+      this.setBulkMode(true);
+    });
+    UIAnimations.applyButtonEffects(this, this.bulkButton);
+
+    this.createBulkBar();
     this.updateFusionButton();
   }
 
+  /**
+   * Create the bulk mode bar that replaces the gold display and fusion buttons
+   */
+  private createBulkBar(): void {
+    const { width, height } = this.cameras.main;
+    const buttonStyle = {
+      fontSize: "12px",
+      color: "#ffffff",
+      backgroundColor: "#4a4a6a",
+      padding: { x: 8, y: 8 },
+    };
+
+    this.bulkBar = this.add.container(0, height - 100);
+    this.bulkBar.setDepth(20); // Above inventory container
+    this.bulkBar.setVisible(false);
+
+    const allBtn = this.add.text(20, 0, "ALL", buttonStyle).setOrigin(0, 0.5);
+    allBtn.setInteractive({ useHandCursor: true });
+    allBtn.on("pointerdown", () => {
+      audioManager.playMenuSelect();
+      this.toggleSelectAll();
+    });
+    UIAnimations.applyButtonEffects(this, allBtn);
+
+    const cancelBtn = this.add
+      .text(allBtn.x + allBtn.width + 8, 0, "CANCEL", buttonStyle)
+      .setOrigin(0, 0.5);
+    cancelBtn.setInteractive({ useHandCursor: true });
+    cancelBtn.on("pointerdown", () => {
+      audioManager.playMenuSelect();
+      this.setBulkMode(false);
+    });
+    UIAnimations.applyButtonEffects(this, cancelBtn);
+
+    const sellBtn = this.add
+      .text(width - 20, 0, "SELL", buttonStyle)
+      .setOrigin(1, 0.5)
+      .setName("sellButton");
+    sellBtn.on("pointerdown", () => this.showBulkConfirmPanel("sell"));
+    UIAnimations.applyButtonEffects(this, sellBtn);
+
+    const salvageBtn = this.add
+      .text(0, 0, "SALVAGE", buttonStyle)
+      .setOrigin(1, 0.5)
+      .setName("salvageButton");
+    salvageBtn.on("pointerdown", () => this.showBulkConfirmPanel("salvage"));
+    UIAnimations.applyButtonEffects(this, salvageBtn);
+
+    this.bulkBar.add([allBtn, cancelBtn, sellBtn, salvageBtn]);
+    this.updateBulkBar();
+  }
+
   private createBackButton(): void {
     const { height } = this.cameras.main;
 
@@ -561,6 +650,15 @@ export default class EquipmentScene extends Phaser.Scene {
   }
 
   private refreshDisplay(): void {
+    // Drop selected items that were removed, equipped or locked
+    for (const id of this.bulkSelection) {
+      const item = equipmentManager.findItem(id);
+      if (!item || !equipmentManager.canDiscard(item)) {
+        this.bulkSelection.delete(id);
+      }
+    }
+    this.updateBulkBar();
+
     this.refreshEquippedSlots();
     this.refreshInventorySlots();
     this.updateFusionButton();
@@ -640,6 +738,19 @@ export default class EquipmentScene extends Phaser.Scene {
         qualityIndicator.setVisible(false);
       }
     });
+
+    this.refreshSetProgress();
+  }
+
+  private refreshSetProgress(): void {
+    if (!this.setProgressText) return;
+
+    const progress = equipmentManager.getEquippedSetProgress();
+    this.setProgressText.setText(
+      progress.map(({ set, equipped, total }) => `${set.name} ${equipped}/${total}`).join("  •  "),
+    );
+    // A single set shows in its own color
+    this.setProgressText.setColor(progress.length === 1 ? progress[0].set.color : "#aaaaaa");
   }
 
   private refreshInventorySlots(): void {
@@ -651,9 +762,13 @@ export default class EquipmentScene extends Phaser.Scene {
         .map((item) => item.id),
     );
 
-    // Filter out equipped items from inventory display and sort
+    // Filter out equipped items from inventory display, then apply the filter and sort
     const unequippedInventory = inventory.filter((item) => !equippedIds.has(item.id));
-    const sortedInventory = this.sortInventory(unequippedInventory);
+    const sortedInventory = sortInventory(
+      filterInventory(unequippedInventory, this.filter),
+      this.currentSort,
+      this.sortStat,
+    );
 
     this.inventorySlots.forEach((slot, index) => {
       const item = sortedInventory[index] ?? null;
@@ -705,6 +820,36 @@ export default class EquipmentScene extends Phaser.Scene {
         slot.container.add(qualityIndicator);
       }
 
+      // Get or create lock and bulk selection indicators
+      let lockIndicator = slot.container.getByName(
+        "lockIndicator",
+      ) as Phaser.GameObjects.Text | null;
+      if (!lockIndicator) {
+        lockIndicator = this.add
+          .text(-this.INVENTORY_SLOT_SIZE / 2 + 2, this.INVENTORY_SLOT_SIZE / 2 - 2, "🔒", {
+            fontSize: "10px",
+          })
+          .setOrigin(0, 1)
+          .setName("lockIndicator");
+        slot.container.add(lockIndicator);
+      }
+      let selectIndicator = slot.container.getByName(
+        "selectIndicator",
+      ) as Phaser.GameObjects.Text | null;
+      if (!selectIndicator) {
+        selectIndicator = this.add
+          .text(this.INVENTORY_SLOT_SIZE / 2 - 2, this.INVENTORY_SLOT_SIZE / 2 - 2, "✓", {
+            fontSize: "14px",
+            color: "#44ff88",
+            fontStyle: "bold",
+            stroke: "#000000",
+            strokeThickness: 2,
+          })
+          .setOrigin(1, 1)
+          .setName("selectIndicator");
+        slot.container.add(selectIndicator);
+      }
+
       if (item) {
         const rarityColor = Phaser.Display.Color.HexStringToColor(
           RARITY_CONFIGS[item.rarity].color,
@@ -732,12 +877,21 @@ export default class EquipmentScene extends Phaser.Scene {
         } else {
           qualityIndicator.setVisible(false);
         }
+
+        lockIndicator.setVisible(item.locked);
+        const isSelected = this.bulkSelection.has(item.id);
+        selectIndicator.setVisible(isSelected);
+        if (isSelected) {
+          slot.background.setStrokeStyle(3, 0x44ff88);
+        }
       } else {
         slot.background.setStrokeStyle(1, 0x3a3a55);
         itemSprite.setVisible(false);
         levelText.setVisible(false);
         upgradeIndicator.setVisible(false);
         qualityIndicator.setVisible(false);
+        lockIndicator.setVisible(false);
+        selectIndicator.setVisible(false);
       }
     });
   }
@@ -757,6 +911,10 @@ export default class EquipmentScene extends Phaser.Scene {
     if (!slot || !slot.item) return;
 
     audioManager.playMenuSelect();
+    if (this.bulkMode) {
+      this.toggleBulkSelection(slot.item);
+      return;
+    }
     this.showDetailPanel(slot.item, false);
   }
 
@@ -787,10 +945,15 @@ export default class EquipmentScene extends Phaser.Scene {
         }
       }
     }
+    // Set section: set name and one line per bonus
+    const setProgress = item.setId
+      ? getSetProgressFor(item.setId, equipmentManager.getEquippedItems())
+      : null;
+    const setHeight = setProgress ? 32 + setProgress.bonuses.length * 20 : 0;
     // Button section: buttons + padding
     const buttonSectionHeight = 60;
     // Total content height with padding
-    const contentHeight = headerHeight + statsHeight + buttonSectionHeight + 40;
+    const contentHeight = headerHeight + statsHeight + setHeight + buttonSectionHeight + 40;
 
     const panelHeight = Math.max(280, contentHeight);
     const panelY = height / 2;
@@ -823,6 +986,23 @@ export default class EquipmentScene extends Phaser.Scene {
     UIAnimations.applyButtonEffects(this, closeBtn);
     this.detailPanel.add(closeBtn);
 
+    // Lock toggle (locked items cannot be sold, salvaged or fused)
+    const lockBtn = this.add
+      .text(panelWidth / 2 - 45, -panelHeight / 2 + 20, item.locked ? "🔒" : "🔓", {
+        fontSize: "14px",
+        backgroundColor: item.locked ? "#aa8822" : "#2a2a40",
+        padding: { x: 6, y: 4 },
+      })
+      .setOrigin(1, 0.5);
+    lockBtn.setInteractive({ useHandCursor: true });
+    lockBtn.on("pointerdown", () => {
+      audioManager.playMenuSelect();
+      equipmentManager.setLocked(item.id, !item.locked);
+      this.showDetailPanel(item, isEquipped);
+    });
+    UIAnimations.applyButtonEffects(this, lockBtn);
+    this.detailPanel.add(lockBtn);
+
     // Item large sprite - use setDisplaySize to avoid scaling issues with missing textures
     const largeSprite = this.add.image(
       -panelWidth / 2 + 60,
@@ -884,6 +1064,25 @@ export default class EquipmentScene extends Phaser.Scene {
       this.detailPanel.add(qualityText);
     }
 
+    // Enchant button (perk rerolls and extra perk slots)
+    if (item.perks.length > 0 || canAddPerkSlot(item)) {
+      const enchantBtn = this.add
+        .text(panelWidth / 2 - 20, -panelHeight / 2 + 95, "✦ ENCHANT", {
+          fontSize: "12px",
+          color: "#ffffff",
+          backgroundColor: "#7744aa",
+          padding: { x: 8, y: 4 },
+        })
+        .setOrigin(1, 0.5);
+      enchantBtn.setInteractive({ useHandCursor: true });
+      enchantBtn.on("pointerdown", () => {
+        audioManager.playMenuSelect();
+        this.scene.start("EnchantingScene", { itemId: item.id });
+      });
+      UIAnimations.applyButtonEffects(this, enchantBtn);
+      this.detailPanel.add(enchantBtn);
+    }
+
     // Divider
     const divider = this.add.rectangle(0, -panelHeight / 2 + 130, panelWidth - 40, 1, 0x444466);
     this.detailPanel.add(divider);
@@ -1010,6 +1209,11 @@ export default class EquipmentScene extends Phaser.Scene {
       }
     }
 
+    // Set bonuses with the number of pieces currently equipped
+    if (setProgress) {
+      this.addSetProgressLines(setProgress, -panelWidth / 2 + 30, statsY + yOffset + 10);
+    }
+
     // Action buttons - use smaller font and dynamic positioning
     const buttonY = panelHeight / 2 - 40;
     const buttonStyle = {
@@ -1075,10 +1279,10 @@ export default class EquipmentScene extends Phaser.Scene {
 
       const sellPrice = equipmentManager.getSellPrice(item);
       const sellBtn = this.add
-        .text(0, buttonY, `SELL (${sellPrice}g)`, {
+        .text(0, buttonY, item.locked ? "LOCKED" : `SELL (${sellPrice}g)`, {
           ...buttonStyle,
-          color: "#ffffff",
-          backgroundColor: "#aa6622",
+          color: item.locked ? "#888888" : "#ffffff",
+          backgroundColor: item.locked ? "#333344" : "#aa6622",
         })
         .setOrigin(0.5);
 
@@ -1108,9 +1312,11 @@ export default class EquipmentScene extends Phaser.Scene {
       UIAnimations.applyButtonEffects(this, equipBtn);
       this.detailPanel.add(equipBtn);
 
-      sellBtn.setInteractive({ useHandCursor: true });
-      sellBtn.on("pointerdown", () => this.onSellClick(item));
-      UIAnimations.applyButtonEffects(this, sellBtn);
+      if (!item.locked) {
+        sellBtn.setInteractive({ useHandCursor: true });
+        sellBtn.on("pointerdown", () => this.onSellClick(item));
+        UIAnimations.applyButtonEffects(this, sellBtn);
+      }
       this.detailPanel.add(sellBtn);
 
       if (canUpgrade.canUpgrade && canAfford) {
@@ -1125,6 +1331,31 @@ export default class EquipmentScene extends Phaser.Scene {
     UIAnimations.showModal(this, this.detailPanel);
   }
 
+  /**
+   * Add a set's name, equipped piece count and bonuses to the detail panel
+   */
+  private addSetProgressLines(progress: EquipmentSetProgress, x: number, y: number): void {
+    const { set, equipped, total, bonuses } = progress;
+    const header = this.add
+      .text(x, y, `${set.name} (${equipped}/${total} equipped)`, {
+        fontSize: "14px",
+        color: set.color,
+        fontStyle: "bold",
+      })
+      .setOrigin(0, 0);
+    this.detailPanel?.add(header);
+
+    bonuses.forEach(({ bonus, active }, index) => {
+      const bonusText = this.add
+        .text(x + 10, y + 22 + index * 20, `${bonus.pieces}-piece: ${bonus.description}`, {
+          fontSize: "12px",
+          color: active ? "#88ff88" : "#666677",
+        })
+        .setOrigin(0, 0);
+      this.detailPanel?.add(bonusText);
+    });
+  }
+
   private hideDetailPanel(): void {
     if (this.detailPanel) {
       const panel = this.detailPanel;
@@ -1156,6 +1387,8 @@ export default class EquipmentScene extends Phaser.Scene {
       "bonusXPPercent",
       "goldBonusPercent",
       "projectileSpeedPercent",
+      "freezeChance",
+      "frozenDamagePercent",
     ]);
 
     let displayValue = value;
@@ -1464,6 +1697,367 @@ export default class EquipmentScene extends Phaser.Scene {
     this.detailPanel.add(okBtn);
   }
 
+  // ============================================
+  // Filter Panel
+  // ============================================
+
+  private updateFilterButton(): void {
+    if (!this.filterButton) return;
+    const count = countActiveFilters(this.filter);
+    this.filterButton.setText(count > 0 ? `⚙ FILTER (${count})` : "⚙ FILTER");
+    this.filterButton.setColor(count > 0 ? "#4a9eff" : "#aaaaaa");
+  }
+
+  /**
+   * Filter rows: tapping a row's value steps to the next option
+   */
+  private getFilterRows(): { label: string; getValue: () => string; next: () => void }[] {
+    const perkIds = Object.keys(PERKS) as PerkId[];
+    return [
+      {
+        label: "Slot",
+        getValue: () => (this.filter.slot ? SLOT_NAMES[this.filter.slot] : "All"),
+        next: () => {
+          this.filter.slot = cycleOption([undefined, ...EQUIPMENT_SLOTS], this.filter.slot);
+        },
+      },
+      {
+        label: "Rarity",
+        getValue: () => (this.filter.rarity ? RARITY_CONFIGS[this.filter.rarity].name : "All"),
+        next: () => {
+          this.filter.rarity = cycleOption([undefined, ...FILTER_RARITIES], this.filter.rarity);
+        },
+      },
+      {
+        label: "Level",
+        getValue: () => (this.filter.minLevel ? `${this.filter.minLevel}+` : "Any"),
+        next: () => {
+          this.filter.minLevel = cycleOption(
+            [undefined, ...INVENTORY_LEVEL_FILTERS],
+            this.filter.minLevel,
+          );
+        },
+      },
+      {
+        label: "Perk",
+        getValue: () => (this.filter.perk ? PERKS[this.filter.perk].name : "Any"),
+        next: () => {
+          this.filter.perk = cycleOption([undefined, ...perkIds], this.filter.perk);
+        },
+      },
+      {
+        label: "Has stat",
+        getValue: () => (this.filter.stat ? this.formatStatName(this.filter.stat) : "Any"),
+        next: () => {
+          this.filter.stat = cycleOption([undefined, ...INVENTORY_STAT_KEYS], this.filter.stat);
+        },
+      },
+      {
+        label: "Sort by stat",
+        getValue: () => this.formatStatName(this.sortStat),
+        next: () => {
+          this.sortStat = cycleOption(INVENTORY_STAT_KEYS, this.sortStat);
+          this.setSort("stat");
+        },
+      },
+    ];
+  }
+
+  private showFilterPanel(): void {
+    this.hideDetailPanel();
+
+    const { width, height } = this.cameras.main;
+    const panelWidth = width - 40;
+    const rows = this.getFilterRows();
+    const rowHeight = 40;
+    const panelHeight = 60 + rows.length * rowHeight + 70;
+
+    this.detailPanel = this.add.container(width / 2, height / 2);
+    this.detailPanel.setDepth(100);
+
+    // Backdrop
+    const backdrop = this.add.rectangle(0, 0, width, height, 0x000000, 0.7);
+    backdrop.setInteractive();
+    backdrop.on("pointerdown", () => this.hideDetailPanel());
+    this.detailPanel.add(backdrop);
+
+    // Panel background
+    const bg = this.add.rectangle(0, 0, panelWidth, panelHeight, 0x1a1a2e, 1);
+    bg.setStrokeStyle(3, 0x4a9eff);
+    this.detailPanel.add(bg);
+
+    const title = this.add
+      .text(0, -panelHeight / 2 + 28, "FILTER & SORT", {
+        fontSize: "18px",
+        color: "#4a9eff",
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
+    this.detailPanel.add(title);
+
+    const valueTexts: Phaser.GameObjects.Text[] = [];
+    rows.forEach((row, index) => {
+      const y = -panelHeight / 2 + 60 + index * rowHeight + rowHeight / 2;
+
+      const label = this.add
+        .text(-panelWidth / 2 + 25, y, row.label, {
+          fontSize: "14px",
+          color: "#aaaaaa",
+        })
+        .setOrigin(0, 0.5);
+      this.detailPanel!.add(label);
+
+      const valueBtn = this.add
+        .text(panelWidth / 2 - 25, y, row.getValue(), {
+          fontSize: "13px",
+          color: "#ffffff",
+          backgroundColor: "#2a2a40",
+          padding: { x: 8, y: 5 },
+        })
+        .setOrigin(1, 0.5);
+      valueBtn.setInteractive({ useHandCursor: true });
+      valueBtn.on("pointerdown", () => {
+        audioManager.playMenuSelect();
+        row.next();
+        valueBtn.setText(row.getValue());
+        this.onFilterChanged();
+      });
+      this.detailPanel!.add(valueBtn);
+      valueTexts.push(valueBtn);
+    });
+
+    const buttonY = panelHeight / 2 - 35;
+    const resetBtn = this.add
+      .text(-60, buttonY, "RESET", {
+        fontSize: "14px",
+        color: "#ffffff",
+        backgroundColor: "#aa4444",
+        padding: { x: 15, y: 8 },
+      })
+      .setOrigin(0.5);
+    resetBtn.setInteractive({ useHandCursor: true });
+    resetBtn.on("pointerdown", () => {
+      audioManager.playMenuSelect();
+      this.filter = {};
+      rows.forEach((row, index) => valueTexts[index].setText(row.getValue()));
+      this.onFilterChanged();
+    });
+    UIAnimations.applyButtonEffects(this, resetBtn);
+    this.detailPanel.add(resetBtn);
+
+    const doneBtn = this.add
+      .text(60, buttonY, "DONE", {
+        fontSize: "14px",
+        color: "#ffffff",
+        backgroundColor: "#4a4a6a",
+        padding: { x: 15, y: 8 },
+      })
+      .setOrigin(0.5);
+    doneBtn.setInteractive({ useHandCursor: true });
+    doneBtn.on("pointerdown", () => this.hideDetailPanel());
+    UIAnimations.applyButtonEffects(this, doneBtn);
+    this.detailPanel.add(doneBtn);
+
+    UIAnimations.showModal(this, this.detailPanel);
+  }
+
+  private onFilterChanged(): void {
+    this.updateFilterButton();
+    this.refreshInventorySlots();
+  }
+
+  // ============================================
+  // Bulk Sell/Salvage
+  // ============================================
+
+  private setBulkMode(enabled: boolean): void {
+    this.bulkMode = enabled;
+    this.bulkSelection.clear();
+
+    for (const element of [this.goldText, this.fusionButton, this.fuseAllButton, this.bulkButton]) {
+      element?.setVisible(!enabled);
+    }
+    this.bulkBar?.setVisible(enabled);
+
+    this.updateBulkBar();
+    this.refreshInventorySlots();
+  }
+
+  private toggleBulkSelection(item: Equipment): void {
+    // Locked items cannot be selected
+    if (!equipmentManager.canDiscard(item)) return;
+
+    if (this.bulkSelection.has(item.id)) {
+      this.bulkSelection.delete(item.id);
+    } else {
+      this.bulkSelection.add(item.id);
+    }
+    this.updateBulkBar();
+    this.refreshInventorySlots();
+  }
+
+  /**
+   * Select every shown item that can be discarded, or clear the selection if all are selected
+   */
+  private toggleSelectAll(): void {
+    const selectable = this.inventorySlots
+      .map((slot) => slot.item)
+      .filter((item): item is Equipment => item !== null && equipmentManager.canDiscard(item));
+    const allSelected = selectable.every((item) => this.bulkSelection.has(item.id));
+
+    this.bulkSelection.clear();
+    if (!allSelected) {
+      for (const item of selectable) {
+        this.bulkSelection.add(item.id);
+      }
+    }
+    this.updateBulkBar();
+    this.refreshInventorySlots();
+  }
+
+  private updateBulkBar(): void {
+    if (!this.bulkBar) return;
+
+    const sellBtn = this.bulkBar.getByName("sellButton") as Phaser.GameObjects.Text | null;
+    const salvageBtn = this.bulkBar.getByName("salvageButton") as Phaser.GameObjects.Text | null;
+    if (!sellBtn || !salvageBtn) return;
+
+    const count = this.bulkSelection.size;
+    sellBtn.setText(`SELL (${count})`);
+    salvageBtn.setText(`SALVAGE (${count})`);
+    salvageBtn.setX(sellBtn.x - sellBtn.width - 8);
+
+    const buttons: [Phaser.GameObjects.Text, string][] = [
+      [sellBtn, "#aa6622"],
+      [salvageBtn, "#4477aa"],
+    ];
+    for (const [button, color] of buttons) {
+      if (count > 0) {
+        button.setStyle({ backgroundColor: color, color: "#ffffff" });
+        button.setInteractive({ useHandCursor: true });
+      } else {
+        button.setStyle({ backgroundColor: "#3a3a55", color: "#666666" });
+        button.disableInteractive();
+      }
+    }
+  }
+
+  /**
+   * Show what selling or salvaging the selection pays out before doing it
+   */
+  private showBulkConfirmPanel(action: BulkAction): void {
+    const summary = equipmentManager.getBulkSummary([...this.bulkSelection], action);
+    if (summary.count === 0) return;
+
+    audioManager.playMenuSelect();
+    this.hideDetailPanel();
+
+    const { width, height } = this.cameras.main;
+    const panelWidth = width - 60;
+    const panelHeight = 240;
+    const isSell = action === "sell";
+
+    this.detailPanel = this.add.container(width / 2, height / 2);
+    this.detailPanel.setDepth(100);
+
+    // Backdrop
+    const backdrop = this.add.rectangle(0, 0, width, height, 0x000000, 0.7);
+    backdrop.setInteractive();
+    backdrop.on("pointerdown", () => this.hideDetailPanel());
+    this.detailPanel.add(backdrop);
+
+    // Panel background
+    const bg = this.add.rectangle(0, 0, panelWidth, panelHeight, 0x1a1a2e, 1);
+    bg.setStrokeStyle(3, isSell ? 0xaa6622 : 0x4477aa);
+    this.detailPanel.add(bg);
+
+    const itemLabel = summary.count === 1 ? "item" : "items";
+    const lines: { text: string; color: string; fontSize: string }[] = [
+      {
+        text: `${isSell ? "Sell" : "Salvage"} ${summary.count} ${itemLabel}?`,
+        color: "#ffffff",
+        fontSize: "18px",
+      },
+      {
+        text: FILTER_RARITIES.filter((rarity) => summary.byRarity[rarity])
+          .map((rarity) => `${summary.byRarity[rarity]} ${RARITY_CONFIGS[rarity].name}`)
+          .join(" • "),
+        color: "#aaaaaa",
+        fontSize: "12px",
+      },
+      {
+        text: isSell ? `+${summary.reward.gold} gold` : `+${summary.reward.scrolls} scrolls`,
+        color: isSell ? "#FFD700" : "#88ccff",
+        fontSize: "16px",
+      },
+    ];
+    if (!isSell) {
+      lines.push({
+        text: "Scrolls are used for upgrades and enchanting",
+        color: "#888888",
+        fontSize: "11px",
+      });
+    }
+    if (summary.byRarity[Rarity.EPIC] || summary.byRarity[Rarity.LEGENDARY]) {
+      lines.push({ text: "Includes Epic or Legendary items!", color: "#ff6666", fontSize: "12px" });
+    }
+
+    lines.forEach((line, index) => {
+      const text = this.add
+        .text(0, -panelHeight / 2 + 30 + index * 28, line.text, {
+          fontSize: line.fontSize,
+          color: line.color,
+          fontStyle: index === 0 ? "bold" : "normal",
+          align: "center",
+          wordWrap: { width: panelWidth - 30 },
+        })
+        .setOrigin(0.5);
+      this.detailPanel!.add(text);
+    });
+
+    const buttonY = panelHeight / 2 - 35;
+    const confirmBtn = this.add
+      .text(-60, buttonY, "CONFIRM", {
+        fontSize: "14px",
+        color: "#ffffff",
+        backgroundColor: isSell ? "#aa6622" : "#4477aa",
+        padding: { x: 12, y: 8 },
+      })
+      .setOrigin(0.5);
+    confirmBtn.setInteractive({ useHandCursor: true });
+    confirmBtn.on("pointerdown", () => this.onBulkConfirm(action));
+    UIAnimations.applyButtonEffects(this, confirmBtn);
+    this.detailPanel.add(confirmBtn);
+
+    const cancelBtn = this.add
+      .text(60, buttonY, "CANCEL", {
+        fontSize: "14px",
+        color: "#ffffff",
+        backgroundColor: "#4a4a6a",
+        padding: { x: 12, y: 8 },
+      })
+      .setOrigin(0.5);
+    cancelBtn.setInteractive({ useHandCursor: true });
+    cancelBtn.on("pointerdown", () => this.hideDetailPanel());
+    UIAnimations.applyButtonEffects(this, cancelBtn);
+    this.detailPanel.add(cancelBtn);
+
+    UIAnimations.showModal(this, this.detailPanel);
+  }
+
+  private onBulkConfirm(action: BulkAction): void {
+    const ids = [...this.bulkSelection];
+    const summary =
+      action === "sell" ? equipmentManager.sellItems(ids) : equipmentManager.salvageItems(ids);
+
+    if (summary.count > 0) {
+      audioManager.playAbilitySelect();
+    }
+    this.hideDetailPanel();
+    this.setBulkMode(false);
+    this.updateGoldDisplay();
+  }
+
   private updateFusionButton(): void {
     const fusionCandidates = equipmentManager.findFusionCandidates();
     const hasFusionAvailable = fusionCandidates.size > 0;
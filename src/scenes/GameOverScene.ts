@@ -6,13 +6,25 @@ import { achievementManager } from "../systems/AchievementManager";
 import { currencyManager } from "../systems/CurrencyManager";
 import { chestManager } from "../systems/ChestManager";
 import { chapterManager, type ChapterCompletionResult } from "../systems/ChapterManager";
+import { getChapterDefinition, ROOMS_PER_CHAPTER, type ChapterId } from "../config/chapterData";
+import type { SpecialRoomRunStats } from "../config/specialRoomData";
 import { heroManager } from "../systems/HeroManager";
 import type { HeroLevelUpEvent } from "../systems/Hero";
 import { debugToast } from "../systems/DebugToast";
-import { ABILITIES } from "./LevelUpScene";
+import { getAbilityById } from "../config/abilityData";
+import { TALENT_POINTS_PER_HERO_LEVEL } from "../config/talentTreeData";
 import { showMockAdPopup } from "../ui/components/MockAdPopup";
 import { showSecondChancePopup } from "../ui/components/SecondChancePopup";
+import { createSeedDisplay } from "../ui/components/SeedDisplay";
 import { errorReporting } from "../systems/ErrorReportingManager";
+import { saveSnapshots } from "../systems/storage";
+import { replayManager } from "../systems/ReplayManager";
+import { dailyChallengeManager, type DailyChallenge } from "../systems/DailyChallengeManager";
+import { RUN_EVENTS, type RunFinishedEventData } from "../systems/RunEvents";
+import { DAILY_CHALLENGE_REWARD_TIERS } from "../systems/DailyRewardManager";
+import { bossRushManager, type BossRushResult, type BossRushRun } from "../systems/BossRushManager";
+import { formatBossRushTime } from "../config/bossRushData";
+import { getBossDefinition } from "../config/bossData";
 import {
   calculateChestRewards,
   getTotalChests,
@@ -62,8 +74,14 @@ export interface GameOverData {
   endlessWave?: number;
   chapterId?: number;
   difficulty?: string;
+  /** Run seed, shown for sharing */
+  runSeed?: string;
+  /** Run was started from a typed seed (not ranked for high scores) */
+  isSeededRun?: boolean;
   /** Player's level at end of run */
   playerLevel?: number;
+  /** Angel/devil room choices made during the run */
+  specialRooms?: SpecialRoomRunStats;
   /** Whether player can respawn (one-time use per run) */
   canRespawn?: boolean;
   /** Saved room state for respawn */
@@ -177,6 +195,11 @@ export default class GameOverScene extends Phaser.Scene {
   private respawnRoomState: RespawnRoomState | null = null;
   private showingSecondChancePopup: boolean = false;
   private playerLevel: number = 1;
+  private dailyChallenge: DailyChallenge | null = null;
+  private isNewDailyBest: boolean = false;
+  private isSeededRun: boolean = false;
+  private bossRushRun: Readonly<BossRushRun> | null = null;
+  private bossRushResult: BossRushResult | null = null;
 
   constructor() {
     super({ key: "GameOverScene" });
@@ -186,12 +209,15 @@ export default class GameOverScene extends Phaser.Scene {
     this.stats = data || { roomsCleared: 0, enemiesKilled: 0, isVictory: false };
     this.rewardsCollected = false;
     this.acquiredAbilities = data?.acquiredAbilities ?? [];
-    // Always endless mode now
-    this.isEndlessMode = true;
+    this.isEndlessMode = data?.isEndlessMode ?? true;
     this.endlessWave = data?.endlessWave ?? 1;
     this.canRespawn = data?.canRespawn ?? false;
     this.respawnRoomState = data?.respawnRoomState ?? null;
     this.playerLevel = data?.playerLevel ?? 1;
+    this.isSeededRun = data?.isSeededRun ?? false;
+    // The rush stays active until the rewards screen (the player may still respawn)
+    this.bossRushRun = bossRushManager.getActiveRun();
+    this.bossRushResult = null;
     // Reset second chance popup state
     this.showingSecondChancePopup = this.canRespawn;
 
@@ -232,12 +258,23 @@ export default class GameOverScene extends Phaser.Scene {
       scoreDifficulty,
     );
 
+    // Daily challenge runs are ranked against the day's best, not the high score
+    this.dailyChallenge = dailyChallengeManager.getActiveChallenge();
+    const currentScore = this.scoreBreakdown?.total ?? 0;
+    this.isNewDailyBest =
+      this.dailyChallenge !== null &&
+      currentScore > dailyChallengeManager.getDayRecord(this.dailyChallenge.dateKey).bestScore;
+
     // Check if new high score - store previous BEFORE recordRunStats() updates it
+    // (daily challenge, seeded and campaign runs are not ranked)
+    const isRanked = !this.dailyChallenge && !this.isSeededRun && this.isEndlessMode;
     this.previousEndlessHighWave = saveManager.getStatistics().endlessHighWave ?? 0;
-    this.isNewEndlessHighScore = this.endlessWave > this.previousEndlessHighWave;
+    this.isNewEndlessHighScore = isRanked && this.endlessWave > this.previousEndlessHighWave;
     this.previousHighScore = saveManager.getStatistics().highestScore ?? 0;
-    const currentScore = this.scoreBreakdown?.total ?? 0;
-    this.isNewHighScore = currentScore > this.previousHighScore;
+    this.isNewHighScore = isRanked && currentScore > this.previousHighScore;
+    if (this.isNewHighScore) {
+      replayManager.markNewBest(currentScore);
+    }
 
     // Record run statistics to save data
     this.recordRunStats();
@@ -249,10 +286,15 @@ export default class GameOverScene extends Phaser.Scene {
       const selectedHeroId = heroManager.getSelectedHeroId();
       this.heroLevelUps = heroManager.addXP(selectedHeroId, this.heroXPEarned);
     }
+
+    // Hero level-ups pay talent points for the talent tree
+    if (this.heroLevelUps.length > 0) {
+      saveManager.addTalentPoints(this.heroLevelUps.length * TALENT_POINTS_PER_HERO_LEVEL);
+    }
   }
 
   /**
-   * Record this run's statistics to persistent save data (always endless mode)
+   * Record this run's statistics to persistent save data
    */
   private recordRunStats(): void {
     const selectedChapter = chapterManager.getSelectedChapter();
@@ -265,14 +307,18 @@ export default class GameOverScene extends Phaser.Scene {
       playTimeMs: this.stats.playTimeMs ?? 0,
       bossDefeated: this.stats.bossDefeated ?? false,
       abilitiesGained: this.stats.abilitiesGained ?? 0,
-      victory: false, // Always false in endless mode
+      victory: this.stats.isVictory ?? false,
       score,
       difficulty: (this.stats.difficulty as DifficultyLevel) ?? DifficultyLevel.NORMAL,
-      isEndlessMode: true,
+      isEndlessMode: this.isEndlessMode,
       endlessWave: this.endlessWave,
       goldEarned: this.goldEarned,
       heroId: selectedHeroId,
       acquiredAbilities: this.acquiredAbilities.map((a) => ({ id: a.id, level: a.level })),
+      isDailyChallenge: this.dailyChallenge !== null,
+      seed: this.stats.runSeed,
+      isSeededRun: this.isSeededRun,
+      specialRooms: this.stats.specialRooms,
     });
 
     // Track run completion metrics in Sentry
@@ -281,8 +327,8 @@ export default class GameOverScene extends Phaser.Scene {
       enemiesKilled: this.stats.enemiesKilled,
       playTimeMs: this.stats.playTimeMs ?? 0,
       score,
-      isVictory: false,
-      isEndlessMode: true,
+      isVictory: this.stats.isVictory ?? false,
+      isEndlessMode: this.isEndlessMode,
       endlessWave: this.endlessWave,
       chapterId: selectedChapter,
       difficulty: this.stats.difficulty,
@@ -294,13 +340,17 @@ export default class GameOverScene extends Phaser.Scene {
       errorReporting.trackNewHighScore(score, this.previousHighScore);
     }
 
-    // Chapter progress update removed - endless mode doesn't track chapter completion
-
-    // Log updated statistics (always endless mode)
-    const totalStats = saveManager.getStatistics();
-    console.log(
-      `GameOverScene: Endless run recorded - Wave ${this.endlessWave}, High Wave: ${totalStats.endlessHighWave ?? 0}`,
-    );
+    // Chapter progress is recorded by ChapterManager when the chapter is completed
+    if (this.isEndlessMode) {
+      const totalStats = saveManager.getStatistics();
+      console.log(
+        `GameOverScene: Endless run recorded - Wave ${this.endlessWave}, High Wave: ${totalStats.endlessHighWave ?? 0}`,
+      );
+    } else {
+      console.log(
+        `GameOverScene: Campaign run recorded - Chapter ${selectedChapter}, Rooms: ${this.stats.roomsCleared}`,
+      );
+    }
 
     // Check achievements after recording stats
     achievementManager.checkAchievements();
@@ -319,9 +369,45 @@ export default class GameOverScene extends Phaser.Scene {
     // Add chests
     chestManager.addChests(this.chestRewards);
 
+    // Chapter clear rewards (stars and first-clear bonus already factored in)
+    const chapterRewards = this.stats.completionResult?.rewards;
+    if (chapterRewards) {
+      currencyManager.add("gold", chapterRewards.gold);
+      currencyManager.add("gems", chapterRewards.gems);
+      currencyManager.add("scrolls", chapterRewards.scrolls);
+    }
+
+    // A campaign run that ended in death is over once the rewards are collected
+    if (!this.isEndlessMode && !this.stats.isVictory) {
+      chapterManager.endRun(true);
+    }
+
+    // Finished runs count once, with the hero that was played
+    const finished: RunFinishedEventData = {
+      heroId: this.dailyChallenge?.heroId ?? heroManager.getSelectedHeroId(),
+      goldEarned: this.goldEarned,
+    };
+    this.game.events.emit(RUN_EVENTS.RUN_FINISHED, finished);
+
     console.log(
       `GameOverScene: Rewards collected - Gold: ${this.goldEarned}, Chests: ${getTotalChests(this.chestRewards)}`,
     );
+
+    // Keep the replay if this was a new best run
+    replayManager.finishRecording();
+
+    // Record the daily challenge result (grants newly reached reward tiers)
+    if (this.dailyChallenge) {
+      dailyChallengeManager.finishAttempt({
+        score: this.scoreBreakdown?.total ?? 0,
+        endlessWave: this.endlessWave,
+        roomsCleared: this.stats.roomsCleared,
+      });
+    }
+
+    // Every run ends here (death, victory, or skip/quit via RunEndSystem) - snapshot
+    // the post-run state once everything above has been credited
+    saveSnapshots.take("run_end");
   }
 
   create() {
@@ -403,12 +489,35 @@ export default class GameOverScene extends Phaser.Scene {
       }
     });
 
+    // No respawn from here on - the Boss Rush is over, put it on the leaderboard
+    if (this.bossRushRun) {
+      this.bossRushResult = bossRushManager.finishRun({
+        heroId: heroManager.getSelectedHeroId(),
+        difficulty: this.stats.difficulty ?? "normal",
+      });
+    }
+
     // Dark overlay background
     this.add.rectangle(0, 0, width * 2, height * 2, 0x000000, 0.85).setOrigin(0);
 
-    // Title text - always endless mode
-    const titleText = `WAVE ${this.endlessWave}`;
-    const titleColor = this.isNewEndlessHighScore ? "#ffdd00" : "#ff6b35";
+    // Run seed, so the run can be shared
+    if (this.stats.runSeed) {
+      createSeedDisplay({ scene: this, x: width / 2, y: 22, seed: this.stats.runSeed });
+    }
+
+    // Title text - wave reached in endless, chapter result in campaign, bosses in Boss Rush
+    const chapterId = (this.stats.chapterId ?? chapterManager.getSelectedChapter()) as ChapterId;
+    const completion = this.stats.completionResult;
+    let titleText = `WAVE ${this.endlessWave}`;
+    let titleColor = this.isNewEndlessHighScore ? "#ffdd00" : "#ff6b35";
+    if (!this.isEndlessMode) {
+      titleText = completion ? `CHAPTER ${chapterId} CLEAR!` : `CHAPTER ${chapterId}`;
+      titleColor = completion ? "#ffdd00" : "#ff6b35";
+    }
+    if (this.bossRushRun) {
+      titleText = this.stats.isVictory ? "BOSS RUSH CLEAR!" : "BOSS RUSH";
+      titleColor = this.stats.isVictory ? "#ffdd00" : "#ff6b35";
+    }
 
     this.add
       .text(width / 2, 60, titleText, {
@@ -419,8 +528,42 @@ export default class GameOverScene extends Phaser.Scene {
       })
       .setOrigin(0.5);
 
-    // Show new best for endless high wave
+    // Campaign subtitle: stars earned, or how far the run got
     let subtitleOffset = 0;
+    if (this.bossRushRun) {
+      this.add
+        .text(
+          width / 2,
+          95,
+          `Bosses defeated: ${this.bossRushRun.splits.length}/${this.bossRushRun.lineup.length}`,
+          {
+            fontSize: "14px",
+            fontFamily: "Arial",
+            color: this.stats.isVictory ? "#ffdd00" : "#aaaaaa",
+            fontStyle: "bold",
+          },
+        )
+        .setOrigin(0.5);
+      subtitleOffset = 10;
+    } else if (!this.isEndlessMode) {
+      const subtitle = completion
+        ? "★".repeat(completion.stars) + "☆".repeat(3 - completion.stars)
+        : `${getChapterDefinition(chapterId).name} - Fell in room ${Math.min(
+            this.stats.roomsCleared + 1,
+            ROOMS_PER_CHAPTER,
+          )}/${ROOMS_PER_CHAPTER}`;
+      this.add
+        .text(width / 2, 95, subtitle, {
+          fontSize: completion ? "22px" : "14px",
+          fontFamily: "Arial",
+          color: completion ? "#ffdd00" : "#aaaaaa",
+          fontStyle: "bold",
+        })
+        .setOrigin(0.5);
+      subtitleOffset = 10;
+    }
+
+    // Show new best for endless high wave
     if (this.isNewEndlessHighScore) {
       this.add
         .text(width / 2, 95, "NEW BEST!", {
@@ -447,9 +590,15 @@ export default class GameOverScene extends Phaser.Scene {
       })
       .setOrigin(0.5);
 
-    // Rooms cleared - always show total across all waves (endless mode)
+    // Rooms cleared - total across all waves in endless mode, plus angel/devil choices
+    const specialRooms = this.stats.specialRooms;
+    const angelChoices = specialRooms ? specialRooms.angelHeals + specialRooms.angelAbilities : 0;
+    let roomsText = `Rooms Cleared: ${this.stats.roomsCleared}`;
+    if (angelChoices > 0 || (specialRooms?.devilDealsAccepted ?? 0) > 0) {
+      roomsText += ` (😇${angelChoices} 😈${specialRooms?.devilDealsAccepted ?? 0})`;
+    }
     this.add
-      .text(width / 2, statsStartY + lineHeight, `Rooms Cleared: ${this.stats.roomsCleared}`, {
+      .text(width / 2, statsStartY + lineHeight, roomsText, {
         fontSize: "20px",
         fontFamily: "Arial",
         color: "#ffffff",
@@ -601,15 +750,16 @@ export default class GameOverScene extends Phaser.Scene {
     if (!this.scoreBreakdown) return;
 
     // Main score
-    const scoreText = this.isNewHighScore
+    const isNewBest = this.isNewHighScore || this.isNewDailyBest;
+    const scoreText = isNewBest
       ? `SCORE: ${this.scoreBreakdown.total.toLocaleString()} - NEW BEST!`
       : `SCORE: ${this.scoreBreakdown.total.toLocaleString()}`;
 
-    const scoreColor = this.isNewHighScore ? "#00ff88" : "#ffffff";
+    const scoreColor = isNewBest ? "#00ff88" : "#ffffff";
 
     this.add
       .text(width / 2, startY, scoreText, {
-        fontSize: this.isNewHighScore ? "26px" : "22px",
+        fontSize: isNewBest ? "26px" : "22px",
         fontFamily: "Arial",
         color: scoreColor,
         fontStyle: "bold",
@@ -654,9 +804,46 @@ export default class GameOverScene extends Phaser.Scene {
         .setOrigin(0.5);
     }
 
+    const bestY = this.scoreBreakdown.difficultyMultiplier !== 1.0 ? startY + 55 : startY + 42;
+
+    // Daily challenge: today's best and any newly reached reward tiers
+    if (this.dailyChallenge) {
+      this.displayDailyChallengeResult(bestY);
+      return;
+    }
+
+    // Boss Rush is ranked by time on its own leaderboard
+    if (this.bossRushRun) {
+      this.displayBossRushResult(bestY);
+      return;
+    }
+
+    // Campaign runs show the chapter clear rewards instead of a best score
+    if (!this.isEndlessMode) {
+      this.displayCampaignResult(bestY);
+      return;
+    }
+
+    // Seeded runs are compared against other seeded runs only
+    if (this.isSeededRun) {
+      const seededBest = saveManager.getStatistics().seededHighScore ?? 0;
+      this.add
+        .text(
+          width / 2,
+          bestY,
+          `Seeded run (unranked) - Seeded Best: ${seededBest.toLocaleString()}`,
+          {
+            fontSize: "13px",
+            fontFamily: "Arial",
+            color: "#aaaaaa",
+          },
+        )
+        .setOrigin(0.5);
+      return;
+    }
+
     // Personal best (if not new high score)
     if (!this.isNewHighScore && saveManager.getStatistics().highestScore > 0) {
-      const bestY = this.scoreBreakdown.difficultyMultiplier !== 1.0 ? startY + 55 : startY + 42;
       this.add
         .text(
           width / 2,
@@ -672,6 +859,132 @@ export default class GameOverScene extends Phaser.Scene {
     }
   }
 
+  /**
+   * Display the chapter clear rewards and any newly unlocked chapter
+   */
+  private displayCampaignResult(y: number): void {
+    const width = this.cameras.main.width;
+    const completion = this.stats.completionResult;
+    if (!completion) {
+      this.add
+        .text(width / 2, y, "Campaign run (unranked)", {
+          fontSize: "13px",
+          fontFamily: "Arial",
+          color: "#aaaaaa",
+        })
+        .setOrigin(0.5);
+      return;
+    }
+
+    const { gold, gems, scrolls } = completion.rewards;
+    const rewardParts = [`+${gold} gold`];
+    if (gems > 0) rewardParts.push(`+${gems} gems`);
+    if (scrolls > 0) rewardParts.push(`+${scrolls} scrolls`);
+    const label = completion.isFirstCompletion ? "First Clear" : "Chapter Reward";
+
+    this.add
+      .text(width / 2, y, `${label}: ${rewardParts.join(", ")}`, {
+        fontSize: "13px",
+        fontFamily: "Arial",
+        color: "#FFD700",
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
+
+    if (completion.newChapterUnlocked) {
+      this.add
+        .text(width / 2, y + 16, `Chapter ${completion.newChapterUnlocked} unlocked!`, {
+          fontSize: "12px",
+          fontFamily: "Arial",
+          color: "#00ff88",
+          fontStyle: "bold",
+        })
+        .setOrigin(0.5);
+    }
+  }
+
+  /**
+   * Display the rush's total time, leaderboard rank and new best splits
+   */
+  private displayBossRushResult(y: number): void {
+    const width = this.cameras.main.width;
+    const result = this.bossRushResult;
+    if (!result) {
+      this.add
+        .text(width / 2, y, "Boss Rush - no boss defeated", {
+          fontSize: "13px",
+          fontFamily: "Arial",
+          color: "#aaaaaa",
+        })
+        .setOrigin(0.5);
+      return;
+    }
+
+    const rankText = result.rank !== null ? ` - Rank #${result.rank}` : "";
+    this.add
+      .text(
+        width / 2,
+        y,
+        `Boss Rush Time: ${formatBossRushTime(result.entry.totalTimeMs)}${rankText}`,
+        {
+          fontSize: "13px",
+          fontFamily: "Arial",
+          color: result.rank === 1 ? "#00ff88" : "#FFD700",
+          fontStyle: "bold",
+        },
+      )
+      .setOrigin(0.5);
+
+    if (result.newBestSplits.length > 0) {
+      const bossNames = result.newBestSplits.map((bossId) => getBossDefinition(bossId).name);
+      this.add
+        .text(width / 2, y + 16, `New best splits: ${bossNames.join(", ")}`, {
+          fontSize: "12px",
+          fontFamily: "Arial",
+          color: "#00ff88",
+          fontStyle: "bold",
+        })
+        .setOrigin(0.5);
+    }
+  }
+
+  /**
+   * Display the daily challenge best and the reward tiers this run reaches
+   */
+  private displayDailyChallengeResult(y: number): void {
+    if (!this.dailyChallenge || !this.scoreBreakdown) return;
+    const width = this.cameras.main.width;
+    const dayRecord = dailyChallengeManager.getDayRecord(this.dailyChallenge.dateKey);
+    const dailyBest = Math.max(dayRecord.bestScore, this.scoreBreakdown.total);
+
+    this.add
+      .text(width / 2, y, `Daily Challenge Best: ${dailyBest.toLocaleString()}`, {
+        fontSize: "13px",
+        fontFamily: "Arial",
+        color: "#66ccff",
+      })
+      .setOrigin(0.5);
+
+    const newTiers = DAILY_CHALLENGE_REWARD_TIERS.filter(
+      (tier) => tier.tier > dayRecord.claimedTier && this.scoreBreakdown!.total >= tier.minScore,
+    );
+    if (newTiers.length > 0) {
+      this.add
+        .text(
+          width / 2,
+          y + 16,
+          `Challenge Reward: ${newTiers.map((tier) => tier.description).join(", ")}`,
+          {
+            fontSize: "12px",
+            fontFamily: "Arial",
+            color: "#FFD700",
+            fontStyle: "bold",
+          },
+        )
+        .setOrigin(0.5);
+    }
+  }
+
   /**
    * Display chest rewards with icons and counts
    */
@@ -763,7 +1076,7 @@ export default class GameOverScene extends Phaser.Scene {
 
     this.acquiredAbilities.forEach((acquired, index) => {
       // Find the ability data
-      const abilityData = ABILITIES.find((a) => a.id === acquired.id);
+      const abilityData = getAbilityById(acquired.id);
       if (!abilityData) return;
 
       const row = Math.floor(index / maxPerRow);
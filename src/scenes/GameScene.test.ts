@@ -0,0 +1,69 @@
+/**
+ * Contract tests for the Phaser internals GameScene's fixed-tick step relies on
+ *
+ * setupFixedTickStep replaces the scene's `sys.step` and `tweens.getDelta`.
+ * These tests exercise the Phaser source modules directly so a Phaser upgrade
+ * that changes how either is called fails here instead of silently breaking
+ * replay determinism.
+ */
+import { describe, it, expect, vi } from "vitest";
+import SceneManager from "phaser/src/scene/SceneManager";
+import Systems from "phaser/src/scene/Systems";
+import SceneEvents from "phaser/src/scene/events";
+import SceneConst from "phaser/src/scene/const";
+import TweenManager from "phaser/src/tweens/TweenManager";
+import Clock from "phaser/src/time/Clock";
+import { FIXED_TICK_MS } from "../systems/RunReplay";
+
+describe("Phaser internals used by the fixed-tick step", () => {
+  it("should step each running scene through its own sys.step", () => {
+    const step = vi.fn();
+    const manager = {
+      processQueue: () => {},
+      scenes: [{ sys: { settings: { status: SceneConst.RUNNING }, step } }],
+    };
+
+    SceneManager.prototype.update.call(manager, 1234, 16.7);
+
+    expect(step).toHaveBeenCalledWith(1234, 16.7);
+  });
+
+  it("should run the update events and scene update() from one sys.step call", () => {
+    const calls: string[] = [];
+    const systems = {
+      events: { emit: (event: string) => calls.push(event) },
+      scene: {},
+      sceneUpdate: () => calls.push("sceneUpdate"),
+    };
+
+    Systems.prototype.step.call(systems, 100, FIXED_TICK_MS);
+
+    expect(calls).toEqual([
+      SceneEvents.PRE_UPDATE,
+      SceneEvents.UPDATE,
+      "sceneUpdate",
+      SceneEvents.POST_UPDATE,
+    ]);
+  });
+
+  it("should advance the clock to the time passed to sys.step", () => {
+    const clock = { now: 0, paused: false, timeScale: 1, _active: [] };
+
+    Clock.prototype.update.call(clock, 500, FIXED_TICK_MS);
+
+    expect(clock.now).toBe(500);
+  });
+
+  it("should advance tweens by the delta getDelta returns", () => {
+    const tween = { update: vi.fn(() => false) };
+    const tweens = {
+      getDelta: () => FIXED_TICK_MS,
+      tweens: [tween],
+      processing: false,
+    };
+
+    TweenManager.prototype.step.call(tweens, false);
+
+    expect(tween.update).toHaveBeenCalledWith(FIXED_TICK_MS);
+  });
+});
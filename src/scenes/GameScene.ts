@@ -2,7 +2,8 @@ import Phaser from "phaser";
 import Player from "../entities/Player";
 import Enemy from "../entities/Enemy";
 import Boss from "../entities/Boss";
-import { getCurrentDifficulty } from "../config/difficulty";
+import { getCurrentDifficulty, setDifficulty, type DifficultyLevel } from "../config/difficulty";
+import { DAILY_CHALLENGE_DIFFICULTY } from "../config/dailyChallengeData";
 import { InputSystem } from "./game/InputSystem";
 import { CombatSystem } from "./game/CombatSystem";
 import { RoomManager } from "./game/RoomManager";
@@ -11,6 +12,7 @@ import { ShootingSystem } from "./game/ShootingSystem";
 import { LevelUpSystem } from "./game/LevelUpSystem";
 import { RespawnSystem } from "./game/RespawnSystem";
 import { PassiveEffectSystem } from "./game/PassiveEffectSystem";
+import { HeroSkillSystem } from "./game/HeroSkillSystem";
 import { TutorialSystem } from "./game/TutorialSystem";
 import { PickupSystem } from "./game/PickupSystem";
 import { RunEndSystem } from "./game/RunEndSystem";
@@ -35,6 +37,18 @@ import type { TalentBonuses } from "../config/talentData";
 import { performanceMonitor } from "../systems/PerformanceMonitor";
 import WallGroup from "../systems/WallGroup";
 import type { RespawnRoomState } from "./GameOverScene";
+import {
+  FIXED_TICK_MS,
+  type ReplayEvent,
+  type ReplayPlayer,
+  type ReplayRecorder,
+  type RunReplayData,
+} from "../systems/RunReplay";
+import { replayManager } from "../systems/ReplayManager";
+import { dailyChallengeManager } from "../systems/DailyChallengeManager";
+
+/** Most simulation ticks run in one frame before the game slows down instead */
+const MAX_TICKS_PER_FRAME = 4;
 
 export default class GameScene extends Phaser.Scene {
   private player!: Player;
@@ -46,6 +60,7 @@ export default class GameScene extends Phaser.Scene {
   private levelUpSystem!: LevelUpSystem;
   private respawnSystem!: RespawnSystem;
   private passiveEffectSystem!: PassiveEffectSystem;
+  private heroSkillSystem!: HeroSkillSystem;
   private tutorialSystem!: TutorialSystem;
   private pickupSystem!: PickupSystem;
   private runEndSystem!: RunEndSystem;
@@ -75,11 +90,33 @@ export default class GameScene extends Phaser.Scene {
   // Spirit cat pool (needed for physics setup)
   private spiritCatPool: SpiritCatPool | null = null;
 
+  // Fixed-tick simulation (see setupFixedTickStep)
+  private baseStep: ((time: number, delta: number) => void) | null = null;
+  private tickAccumulator: number = 0;
+  private simulationTime: number = 0;
+
+  // Replay recording (live runs) or playback (watching a replay)
+  private replayRecorder: ReplayRecorder | null = null;
+  private replayPlayer: ReplayPlayer | null = null;
+  private isReplayEnding: boolean = false;
+  private difficultyBeforeReplay: DifficultyLevel | null = null;
+
   constructor() {
     super({ key: "GameScene" });
   }
 
   create() {
+    // Replay playback: restore the recorded build, seed and difficulty
+    const replay = this.game.registry.get("replay") as RunReplayData | undefined;
+    this.game.registry.remove("replay");
+    this.replayPlayer = replay ? this.startReplayPlayback(replay) : null;
+    this.replayRecorder = null;
+    this.isReplayEnding = false;
+    const buildRecords = this.replayPlayer ? null : replayManager.captureBuild();
+
+    // Simulate in fixed ticks so runs can be recorded and replayed exactly
+    this.setupFixedTickStep();
+
     // Register event listeners
     this.registerEventListeners();
 
@@ -130,6 +167,27 @@ export default class GameScene extends Phaser.Scene {
     // Store all initialized objects
     this.storeInitializationResult(result);
 
+    // Feed inputs from the replay, or record this run. First runs are not
+    // recorded: the tutorial waits for a tap that is not part of the replay.
+    // Daily challenges, seeded and campaign runs are not recorded either: they
+    // never set the high score.
+    const dailyChallenge = dailyChallengeManager.getActiveChallenge();
+    const countsForHighScore =
+      !dailyChallenge && !result.gameState.isSeededRun && result.gameState.isEndlessMode;
+    if (this.replayPlayer) {
+      this.inputSystem.setReplayPlayer(this.replayPlayer);
+      this.showReplayLabel();
+    } else if (buildRecords && saveManager.isTutorialCompleted() && countsForHighScore) {
+      this.replayRecorder = replayManager.startRecording(
+        result.gameState.runSeedString,
+        getCurrentDifficulty(this.game),
+        buildRecords,
+      );
+      this.inputSystem.setReplayRecorder(this.replayRecorder);
+    } else {
+      replayManager.discardRecording();
+    }
+
     // Set up physics collisions (uses private methods)
     this.setupPhysicsCollisions();
 
@@ -163,13 +221,24 @@ export default class GameScene extends Phaser.Scene {
       this.roomManager.spawnEnemiesForRoom();
     }
 
+    // Show the hero skill button
+    const heroSkill = this.heroSkillSystem.getSkill();
+    if (heroSkill) {
+      this.scene.get("UIScene").events.emit("initHeroSkill", heroSkill.icon, heroSkill.name);
+    }
+
     // Send initial health to UIScene
     this.scene
       .get("UIScene")
       .events.emit("updateHealth", this.player.getHealth(), this.player.getMaxHealth());
 
     // Initialize score tracking with current difficulty
-    this.scene.get("UIScene").events.emit("initScore", getCurrentDifficulty(this.game));
+    this.scene
+      .get("UIScene")
+      .events.emit(
+        "initScore",
+        dailyChallenge ? DAILY_CHALLENGE_DIFFICULTY : getCurrentDifficulty(this.game),
+      );
 
     // Show tutorial for first-time players
     if (!saveManager.isTutorialCompleted()) {
@@ -195,7 +264,15 @@ export default class GameScene extends Phaser.Scene {
     }
 
     // Skip run event (delegated to RunEndSystem)
-    const handleSkipRun = () => this.runEndSystem?.handleSkipRun();
+    // While watching a replay, skipping (or quitting from pause) ends playback
+    const handleSkipRun = () => {
+      if (this.replayPlayer) {
+        this.stopReplay();
+        return;
+      }
+      this.replayRecorder?.recordEvent("skipRun");
+      this.runEndSystem?.handleSkipRun();
+    };
     this.game.events.on("skipRun", handleSkipRun);
     this.events.once("shutdown", () => {
       this.game.events.off("skipRun", handleSkipRun);
@@ -209,7 +286,16 @@ export default class GameScene extends Phaser.Scene {
     });
 
     // Quit from pause event (delegated to RunEndSystem)
-    const handleQuitFromPause = () => this.runEndSystem?.handleQuitFromPause();
+    // Recorded as a skip - the pause itself does not advance the simulation
+    const handleQuitFromPause = () => {
+      if (this.replayPlayer) {
+        this.scene.resume();
+        this.stopReplay();
+        return;
+      }
+      this.replayRecorder?.recordEvent("skipRun");
+      this.runEndSystem?.handleQuitFromPause();
+    };
     this.game.events.on("quitFromPause", handleQuitFromPause);
     this.events.once("shutdown", () => {
       this.game.events.off("quitFromPause", handleQuitFromPause);
@@ -217,6 +303,7 @@ export default class GameScene extends Phaser.Scene {
 
     // Respawn event
     this.game.events.on("playerRespawn", (roomState: RespawnRoomState) => {
+      this.replayRecorder?.recordEvent("playerRespawn", roomState);
       this.respawnSystem.handleRespawn(roomState);
     });
     this.events.once("shutdown", () => {
@@ -224,13 +311,55 @@ export default class GameScene extends Phaser.Scene {
     });
 
     // Game speed change event
+    // During playback the speed follows the recording
     const handleSpeedChange = (speed: GameSpeedMultiplier) => {
+      if (this.replayPlayer) return;
+      this.replayRecorder?.recordEvent("gameSpeedChanged", speed);
       this.applyGameSpeed(speed);
     };
     this.game.events.on("gameSpeedChanged", handleSpeedChange);
     this.events.once("shutdown", () => {
       this.game.events.off("gameSpeedChanged", handleSpeedChange);
     });
+
+    // Hero skill (HUD button or SPACE) - recorded only when it actually fires
+    // During playback the skill follows the recording
+    const handleHeroSkillRequested = () => {
+      if (this.replayPlayer || !this.canUseHeroSkill()) return;
+      if (this.heroSkillSystem.tryActivate(this.time.now)) {
+        this.replayRecorder?.recordEvent("heroSkillUsed");
+      }
+    };
+    this.game.events.on("heroSkillRequested", handleHeroSkillRequested);
+    this.events.once("shutdown", () => {
+      this.game.events.off("heroSkillRequested", handleHeroSkillRequested);
+    });
+
+    // Ability and angel/devil choices are made in overlay scenes - record when they arrive
+    const recordAbilitySelected = (data: unknown) =>
+      this.replayRecorder?.recordEvent("abilitySelected", data);
+    const recordStartingAbilitySelected = (data: unknown) =>
+      this.replayRecorder?.recordEvent("startingAbilitySelected", data);
+    const recordSpecialRoomChoice = (data: unknown) =>
+      this.replayRecorder?.recordEvent("specialRoomChoice", data);
+    this.game.events.on("abilitySelected", recordAbilitySelected);
+    this.game.events.on("startingAbilitySelected", recordStartingAbilitySelected);
+    this.game.events.on("specialRoomChoice", recordSpecialRoomChoice);
+    this.events.once("shutdown", () => {
+      this.game.events.off("abilitySelected", recordAbilitySelected);
+      this.game.events.off("startingAbilitySelected", recordStartingAbilitySelected);
+      this.game.events.off("specialRoomChoice", recordSpecialRoomChoice);
+    });
+
+    // Replayed run ended (death or skip) - keep going only for a recorded respawn
+    this.events.on("replayRunEnded", () => {
+      if (!this.replayPlayer?.hasPendingEvent("playerRespawn")) {
+        this.stopReplay();
+      }
+    });
+    this.events.once("shutdown", () => {
+      this.events.off("replayRunEnded");
+    });
   }
 
   /**
@@ -262,6 +391,7 @@ export default class GameScene extends Phaser.Scene {
     this.levelUpSystem = result.systems.levelUpSystem;
     this.respawnSystem = result.systems.respawnSystem;
     this.passiveEffectSystem = result.systems.passiveEffectSystem;
+    this.heroSkillSystem = result.systems.heroSkillSystem;
     this.tutorialSystem = result.systems.tutorialSystem;
     this.pickupSystem = result.systems.pickupSystem;
     this.runEndSystem = result.systems.runEndSystem;
@@ -519,9 +649,6 @@ export default class GameScene extends Phaser.Scene {
     this.combatSystem.setGameState(this.isGameOver, isLevelingUp, isTransitioning);
     this.roomManager.setGameState(this.isGameOver, isLevelingUp);
 
-    // Update performance monitor
-    performanceMonitor.update(delta);
-
     if (this.player) {
       // Get input from InputSystem (handles keyboard + joystick, stuck state detection)
       const input = this.inputSystem.update();
@@ -598,6 +725,11 @@ export default class GameScene extends Phaser.Scene {
         this.passiveEffectSystem.update(time, delta, playerX, playerY);
       }
 
+      // Hero skill cooldown and auto-use
+      if (!isLevelingUp) {
+        this.heroSkillSystem.update(time, !isTransitioning && !this.tutorialSystem.isShowing);
+      }
+
       // Update shield bar UI (shield regenerates over time)
       this.updateShieldUI();
 
@@ -613,6 +745,167 @@ export default class GameScene extends Phaser.Scene {
     }
   }
 
+  // ============================================
+  // Fixed Ticks & Replays
+  // ============================================
+
+  /**
+   * Advance the scene in fixed ticks of FIXED_TICK_MS instead of the variable
+   * frame delta, so a run is reproducible from its inputs. Physics, timers,
+   * tweens and update() all see the same tick; rendering stays once per frame.
+   * This replaces Phaser internals (`sys.step`, `tweens.getDelta`); GameScene.test.ts
+   * fails if a Phaser upgrade changes how they are called.
+   */
+  private setupFixedTickStep(): void {
+    this.tickAccumulator = 0;
+    this.simulationTime = 0;
+    this.time.now = 0;
+
+    // Tweens normally advance by wall-clock time - drive them by ticks as well
+    this.tweens.getDelta = () => FIXED_TICK_MS;
+
+    // Systems outlive scene restarts - wrap their step only once
+    if (this.baseStep) return;
+    const systems = this.sys;
+    this.baseStep = systems.step.bind(systems);
+    systems.step = (_time: number, delta: number) => this.stepFixedTicks(delta);
+  }
+
+  /**
+   * Run as many fixed ticks as the frame delta covers
+   */
+  private stepFixedTicks(delta: number): void {
+    performanceMonitor.update(delta);
+
+    this.tickAccumulator += delta;
+    let ticks = 0;
+    while (this.tickAccumulator >= FIXED_TICK_MS && ticks < MAX_TICKS_PER_FRAME) {
+      this.tickAccumulator -= FIXED_TICK_MS;
+      this.runTick();
+      ticks++;
+    }
+
+    // Too far behind - slow the game down rather than spiral
+    if (ticks === MAX_TICKS_PER_FRAME) {
+      this.tickAccumulator = 0;
+    }
+  }
+
+  /**
+   * Simulate one tick, dispatching replayed decisions that are due first
+   */
+  private runTick(): void {
+    const player = this.replayPlayer;
+    if (player) {
+      for (const event of player.takeDueEvents()) {
+        this.dispatchReplayEvent(event);
+      }
+    }
+
+    this.simulationTime += FIXED_TICK_MS;
+    this.baseStep!(this.simulationTime, FIXED_TICK_MS);
+
+    this.replayRecorder?.advanceTick();
+    if (player) {
+      player.advanceTick();
+      if (player.isFinished()) {
+        this.stopReplay();
+      }
+    }
+  }
+
+  /**
+   * Re-apply a recorded player decision
+   */
+  private dispatchReplayEvent(event: ReplayEvent): void {
+    switch (event.type) {
+      case "abilitySelected":
+      case "startingAbilitySelected":
+      case "specialRoomChoice":
+        this.game.events.emit(event.type, event.data);
+        break;
+      case "gameSpeedChanged": {
+        const speed = event.data as GameSpeedMultiplier;
+        saveManager.setGameSpeedMultiplier(speed);
+        this.applyGameSpeed(speed);
+        break;
+      }
+      case "skipRun":
+        this.runEndSystem.handleSkipRun();
+        break;
+      case "playerRespawn":
+        this.respawnSystem.handleRespawn(event.data as RespawnRoomState);
+        break;
+      case "heroSkillUsed":
+        this.heroSkillSystem.tryActivate(this.time.now);
+        break;
+    }
+  }
+
+  /**
+   * Load a replay into a storage sandbox and point the run at its seed.
+   * Returns null (plays a normal run) if the replay cannot be loaded.
+   */
+  private startReplayPlayback(replay: RunReplayData): ReplayPlayer | null {
+    try {
+      const player = replayManager.startPlayback(replay);
+      dailyChallengeManager.cancelAttempt();
+      this.difficultyBeforeReplay = getCurrentDifficulty(this.game);
+      setDifficulty(this.game, replay.difficulty as DifficultyLevel);
+      this.game.registry.set("runSeed", replay.seed);
+      console.log(`GameScene: Playing replay of seed ${replay.seed} (${replay.ticks} ticks)`);
+      return player;
+    } catch (error) {
+      console.error("GameScene: Failed to start replay:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Leave playback and return to the high score screen
+   */
+  private stopReplay(): void {
+    if (this.isReplayEnding) return;
+    this.isReplayEnding = true;
+
+    this.scene.stop("UIScene");
+    this.scene.start("HighScoreScene");
+  }
+
+  /**
+   * Mark the screen as a replay
+   */
+  private showReplayLabel(): void {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+    this.add
+      .text(width / 2, height - 24, "REPLAY", {
+        fontSize: "16px",
+        fontFamily: "Arial",
+        color: "#ffffff",
+        fontStyle: "bold",
+        stroke: "#000000",
+        strokeThickness: 3,
+      })
+      .setOrigin(0.5)
+      .setAlpha(0.8)
+      .setDepth(1000);
+  }
+
+  /**
+   * Whether the player can use the hero skill right now
+   */
+  private canUseHeroSkill(): boolean {
+    return (
+      !!this.heroSkillSystem &&
+      !this.isGameOver &&
+      !this.scene.isPaused() &&
+      !this.levelUpSystem.isLevelingUp &&
+      !this.roomManager.isInTransition() &&
+      !this.tutorialSystem.isShowing
+    );
+  }
+
   /**
    * Reset joystick state to prevent stuck input
    * Called when pausing, resuming, or when browser loses focus
@@ -639,6 +932,17 @@ export default class GameScene extends Phaser.Scene {
     // Stop all delayed calls to prevent callbacks on destroyed objects
     this.time.removeAllEvents();
 
+    // End playback: drop everything the replayed run wrote and restore settings.
+    // A live recording is finished by GameOverScene once rewards are collected.
+    if (this.replayPlayer) {
+      replayManager.stopPlayback();
+      if (this.difficultyBeforeReplay) {
+        setDifficulty(this.game, this.difficultyBeforeReplay);
+      }
+      this.replayPlayer = null;
+    }
+    this.replayRecorder = null;
+
     // Clean up input system when scene shuts down
     if (this.inputSystem) {
       this.inputSystem.destroy();
@@ -675,6 +979,12 @@ export default class GameScene extends Phaser.Scene {
       this.passiveEffectSystem = null!;
     }
 
+    // Clean up hero skill system (ends an active Rage Burst)
+    if (this.heroSkillSystem) {
+      this.heroSkillSystem.destroy();
+      this.heroSkillSystem = null!;
+    }
+
     // Clean up tutorial system
     if (this.tutorialSystem) {
       this.tutorialSystem.destroy();
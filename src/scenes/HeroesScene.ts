@@ -7,11 +7,13 @@ import { talentManager } from "../systems/TalentManager";
 import {
   HERO_DEFINITIONS,
   HERO_MAX_LEVEL,
+  describeHeroUnlockRequirement,
   getHeroXPThreshold,
   type HeroId,
 } from "../config/heroData";
 import type { HeroState } from "../systems/Hero";
 import { createBackButton } from "../ui/components/BackButton";
+import { ScrollContainer } from "../ui/components/ScrollContainer";
 import * as UIAnimations from "../systems/UIAnimations";
 
 /**
@@ -21,6 +23,8 @@ export default class HeroesScene extends Phaser.Scene {
   private heroCards: Phaser.GameObjects.Container[] = [];
   private goldText?: Phaser.GameObjects.Text;
   private statsPanel?: Phaser.GameObjects.Container;
+  private scrollContainer?: ScrollContainer;
+  private scrollBounds = { top: 95, bottom: 0 };
 
   constructor() {
     super({ key: "HeroesScene" });
@@ -29,6 +33,8 @@ export default class HeroesScene extends Phaser.Scene {
   create() {
     const width = this.cameras.main.width;
     const height = this.cameras.main.height;
+    this.heroCards = [];
+    this.scrollBounds = { top: 95, bottom: height - 85 };
 
     // Dark semi-transparent background
     this.add.rectangle(width / 2, height / 2, width, height, 0x1a1a2e, 0.98);
@@ -89,7 +95,14 @@ export default class HeroesScene extends Phaser.Scene {
     const heroIds = heroManager.getAllHeroStates().map((h) => h.id);
     const cardHeight = 140;
     const cardSpacing = 15;
-    const startY = 120;
+    const startY = this.scrollBounds.top + 10 + cardHeight / 2;
+
+    // The roster grows with every registered hero, so the cards scroll
+    this.scrollContainer = new ScrollContainer({
+      scene: this,
+      width,
+      bounds: this.scrollBounds,
+    });
 
     heroIds.forEach((heroId, index) => {
       const heroState = heroManager.getHeroState(heroId as HeroId);
@@ -97,8 +110,11 @@ export default class HeroesScene extends Phaser.Scene {
       const yPos = startY + index * (cardHeight + cardSpacing);
 
       const card = this.createHeroCard(width / 2, yPos, heroState, isSelected);
+      this.scrollContainer!.add(card);
       this.heroCards.push(card);
     });
+
+    this.scrollContainer.setContentHeight(heroIds.length * (cardHeight + cardSpacing) + 10);
   }
 
   private createHeroCard(
@@ -132,18 +148,16 @@ export default class HeroesScene extends Phaser.Scene {
     const iconX = -cardWidth / 2 + 15 + iconSize / 2;
     const iconY = -cardHeight / 2 + 15 + iconSize / 2;
 
-    // Use the icon from HERO_DEFINITIONS
+    // Use the hero's sprite (and tint) from HERO_DEFINITIONS
     const heroDef = HERO_DEFINITIONS[heroState.id as HeroId];
 
-    // In PreloaderScene icons are named differently (heroAtreus vs hero_atreus)
-    // Let's normalize to what's in PreloaderScene
-    const preloaderIconKey = "hero" + heroDef.id.charAt(0).toUpperCase() + heroDef.id.slice(1);
-
-    const heroIcon = this.add.image(iconX, iconY, preloaderIconKey);
+    const heroIcon = this.add.image(iconX, iconY, heroDef.sprite.key);
     heroIcon.setDisplaySize(iconSize, iconSize);
     // Apply grayscale tint if locked
     if (!isUnlocked) {
       heroIcon.setTint(0x666666);
+    } else if (heroDef.sprite.tint !== undefined) {
+      heroIcon.setTint(heroDef.sprite.tint);
     }
     container.add(heroIcon);
 
@@ -300,6 +314,19 @@ export default class HeroesScene extends Phaser.Scene {
       );
       container.add(unlockBtn);
 
+      // Unlock requirement on top of the price (e.g. another hero's level)
+      const requirement = describeHeroUnlockRequirement(heroDef);
+      if (requirement) {
+        const requirementMet = heroManager.isUnlockRequirementMet(heroState.id);
+        const requirementText = this.add
+          .text(-cardWidth / 2 + 15, cardHeight / 2 - 25, `Requires ${requirement}`, {
+            fontSize: "11px",
+            color: requirementMet ? "#88cc88" : "#ff6b6b",
+          })
+          .setOrigin(0, 0.5);
+        container.add(requirementText);
+      }
+
       // Lock icon
       const lockText = this.add
         .text(cardWidth / 2 - 15, -cardHeight / 2 + 15, "LOCKED", {
@@ -344,7 +371,10 @@ export default class HeroesScene extends Phaser.Scene {
       bg.setFillStyle(Phaser.Display.Color.HexStringToColor(color).color);
     });
 
-    bg.on("pointerdown", () => {
+    bg.on("pointerup", (pointer: Phaser.Input.Pointer) => {
+      // Ignore drags and taps on the parts of cards scrolled out of view
+      if (this.scrollContainer?.isDragScrolling()) return;
+      if (pointer.y < this.scrollBounds.top || pointer.y > this.scrollBounds.bottom) return;
       audioManager.playMenuSelect();
       onClick();
     });
@@ -364,7 +394,7 @@ export default class HeroesScene extends Phaser.Scene {
   private unlockHero(heroId: string): void {
     const canAfford = heroManager.canUnlock(heroId as HeroId);
     if (!canAfford) {
-      // Flash gold text red to indicate insufficient funds
+      // Flash gold text red to indicate the hero can't be unlocked yet
       if (this.goldText) {
         this.goldText.setColor("#ff4444");
         this.time.delayedCall(300, () => {
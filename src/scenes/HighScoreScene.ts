@@ -1,8 +1,12 @@
 import Phaser from "phaser";
 import { saveManager } from "../systems/SaveManager";
 import { heroManager } from "../systems/HeroManager";
-import { ABILITIES } from "../config/abilityData";
+import { getAbilityById } from "../config/abilityData";
 import { fadeInScene, transitionToScene, TransitionType, DURATION } from "../systems/UIAnimations";
+import { replayManager } from "../systems/ReplayManager";
+import type { RunReplayData } from "../systems/RunReplay";
+import { createSeedDisplay } from "../ui/components/SeedDisplay";
+import { bossRushManager } from "../systems/BossRushManager";
 
 /**
  * HighScoreScene - Displays the player's best run details
@@ -13,6 +17,8 @@ import { fadeInScene, transitionToScene, TransitionType, DURATION } from "../sys
  * - Stats (rooms, enemies, gold, time)
  * - Hero used
  * - All skills acquired during that run
+ * - The run's seed with a copy button (runs recorded before seeds were kept have none)
+ * - A "Watch best run" replay of the run, if one was recorded
  */
 export default class HighScoreScene extends Phaser.Scene {
   constructor() {
@@ -165,10 +171,28 @@ export default class HighScoreScene extends Phaser.Scene {
       })
       .setOrigin(0.5);
 
+    // Seed (for sharing)
+    let seedOffset = 0;
+    if (highScoreRun.seed) {
+      createSeedDisplay({
+        scene: this,
+        x: width / 2,
+        y: statsY + lineHeight * 6,
+        seed: highScoreRun.seed,
+      });
+      seedOffset = lineHeight;
+    }
+
     // Skills section
-    const skillsY = statsY + lineHeight * 6.5;
+    const skillsY = statsY + lineHeight * 6.5 + seedOffset;
     this.displayAcquiredSkills(skillsY, highScoreRun.acquiredAbilities);
 
+    // Replay button (only if the saved replay belongs to this run)
+    const replay = replayManager.getBest();
+    if (replay && replay.score === highScoreRun.score) {
+      this.createWatchButton(height, replay);
+    }
+
     // Back button
     this.createBackButton(height);
 
@@ -222,7 +246,7 @@ export default class HighScoreScene extends Phaser.Scene {
     const gridStartY = startY + 35;
 
     abilities.forEach((acquired, index) => {
-      const abilityData = ABILITIES.find((a) => a.id === acquired.id);
+      const abilityData = getAbilityById(acquired.id);
       if (!abilityData) return;
 
       const row = Math.floor(index / maxPerRow);
@@ -263,6 +287,40 @@ export default class HighScoreScene extends Phaser.Scene {
     });
   }
 
+  private createWatchButton(height: number, replay: RunReplayData) {
+    const width = this.cameras.main.width;
+    const buttonWidth = 180;
+    const buttonHeight = 40;
+    const buttonY = height - 115;
+
+    const button = this.add
+      .rectangle(width / 2, buttonY, buttonWidth, buttonHeight, 0x2e7d32)
+      .setInteractive({ useHandCursor: true });
+
+    this.add
+      .text(width / 2, buttonY, "WATCH BEST RUN", {
+        fontSize: "16px",
+        fontFamily: "Arial",
+        color: "#ffffff",
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
+
+    button.on("pointerover", () => button.setFillStyle(0x43a047));
+    button.on("pointerout", () => button.setFillStyle(0x2e7d32));
+    button.on("pointerdown", () => this.watchReplay(replay));
+  }
+
+  private watchReplay(replay: RunReplayData) {
+    // GameScene picks the replay up from the registry and plays it back
+    this.game.registry.set("isEndlessMode", true);
+    this.game.registry.set("replay", replay);
+    bossRushManager.cancelRun();
+
+    transitionToScene(this, "GameScene", TransitionType.FADE, DURATION.NORMAL);
+    this.scene.launch("UIScene");
+  }
+
   private createBackButton(height: number) {
     const width = this.cameras.main.width;
     const buttonWidth = 180;
@@ -4,7 +4,14 @@ import { DURATION, EASING } from "../systems/UIAnimations";
 import { errorReporting } from "../systems/ErrorReportingManager";
 import { ScrollContainer } from "../ui/components/ScrollContainer";
 import { abilityPriorityManager } from "../systems/AbilityPriorityManager";
-import { ABILITIES, AbilityData } from "../config/abilityData";
+import {
+  ABILITIES,
+  AbilityData,
+  getEvolutionsForAbility,
+  getUnlockedEvolutions,
+  isEvolution,
+} from "../config/abilityData";
+import { randomStreams } from "../systems/RandomStreams";
 
 // Re-export for backward compatibility
 export { ABILITIES };
@@ -135,6 +142,7 @@ export default class LevelUpScene extends Phaser.Scene {
 
           return true;
         });
+        this.selectedAbilities.unshift(...getUnlockedEvolutions(this.abilityLevels));
       } else {
         // Normal mode: 3 random abilities
         this.selectedAbilities = this.selectRandomAbilities(3);
@@ -203,10 +211,61 @@ export default class LevelUpScene extends Phaser.Scene {
       return true;
     });
 
-    const shuffled = [...availableAbilities].sort(() => Math.random() - 0.5);
+    const rng = randomStreams.get("levelUp");
+    const shuffled = [...availableAbilities].sort(() => rng.random() - 0.5);
+
+    // An unlocked evolution always takes the first slot until it is picked
+    const evolution = getUnlockedEvolutions(this.abilityLevels)[0];
+    if (evolution) {
+      return [evolution, ...shuffled.slice(0, count - 1)];
+    }
     return shuffled.slice(0, count);
   }
 
+  /**
+   * Evolution badge on evolution cards, or a hint naming the evolution an
+   * ability leads to
+   */
+  private addEvolutionHint(
+    container: Phaser.GameObjects.Container,
+    ability: AbilityData,
+    cardWidth: number,
+    cardHeight: number,
+  ): void {
+    const x = cardWidth / 2 - 10;
+    const y = -cardHeight / 2 + 8;
+
+    if (isEvolution(ability)) {
+      const border = this.add.graphics();
+      border.lineStyle(2, ability.color, 1);
+      border.strokeRoundedRect(-cardWidth / 2, -cardHeight / 2, cardWidth, cardHeight, 10);
+      container.add(border);
+
+      const badge = this.add
+        .text(x, y, "★ EVOLUTION", {
+          fontSize: "9px",
+          color: `#${ability.color.toString(16).padStart(6, "0")}`,
+          fontStyle: "bold",
+        })
+        .setOrigin(1, 0.5);
+      container.add(badge);
+      return;
+    }
+
+    const evolution = getEvolutionsForAbility(ability.id).find(
+      (e) => (this.abilityLevels[e.id] ?? 0) === 0,
+    );
+    if (!evolution) return;
+
+    const hint = this.add
+      .text(x, y, `→ ${evolution.name}`, {
+        fontSize: "9px",
+        color: `#${evolution.color.toString(16).padStart(6, "0")}`,
+      })
+      .setOrigin(1, 0.5);
+    container.add(hint);
+  }
+
   private createRerollButton(x: number, y: number, _width: number) {
     const buttonWidth = 120;
     const buttonHeight = 36;
@@ -507,6 +566,8 @@ export default class LevelUpScene extends Phaser.Scene {
         .setOrigin(0.5);
       cardContainer.add(levelPriorityText);
 
+      this.addEvolutionHint(cardContainer, ability, cardWidth, cardHeight);
+
       // Hover effects
       hitArea.on("pointerover", () => {
         this.tweens.add({
@@ -671,6 +732,8 @@ export default class LevelUpScene extends Phaser.Scene {
         .setOrigin(0.5);
       container.add(priorityText);
 
+      this.addEvolutionHint(container, ability, cardWidth, cardHeight);
+
       // Hover effects
       hitArea.on("pointerover", () => {
         this.tweens.add({
@@ -4,10 +4,17 @@ import { saveManager } from "../systems/SaveManager";
 import { currencyManager } from "../systems/CurrencyManager";
 import { chapterManager } from "../systems/ChapterManager";
 import { dailyRewardManager } from "../systems/DailyRewardManager";
+import { dailyChallengeManager } from "../systems/DailyChallengeManager";
+import { bossRushManager } from "../systems/BossRushManager";
+import { getBossRushLineup, isBossRushUnlocked } from "../config/bossRushData";
+import type { BossId } from "../config/bossData";
 import { achievementManager } from "../systems/AchievementManager";
+import { missionManager } from "../systems/MissionManager";
+import { seasonManager } from "../systems/SeasonManager";
 import { chestManager } from "../systems/ChestManager";
 import { equipmentManager } from "../systems/EquipmentManager";
 import { heroManager } from "../systems/HeroManager";
+import { getAllHeroIds } from "../config/heroData";
 import { Rarity, WeaponType, ArmorType, RingType, SpiritType } from "../systems/Equipment";
 import { fadeInScene, transitionToScene, TransitionType, DURATION } from "../systems/UIAnimations";
 import {
@@ -15,6 +22,7 @@ import {
   CurrencyBarResult,
   showNoEnergyModal,
   showMockAdPopup,
+  showSeedInputModal,
   createNavigationGrid,
 } from "../ui/components";
 import { createPlaySection } from "./menus/PlaySection";
@@ -136,16 +144,41 @@ export default class MainMenuScene extends Phaser.Scene {
       y: 115,
       width,
       onPlay: () => {
-        if (!this.trySpendEnergy()) return;
+        if (!this.trySpendEnergy(() => this.startGame())) return;
         this.startGame();
       },
+      onCampaign: () => {
+        transitionToScene(this, "ChapterSelectScene", TransitionType.FADE, DURATION.FAST);
+      },
+      onBossRush: () => {
+        // Check the unlock before any energy is spent on the run
+        const lineup = getBossRushLineup((bossId) => saveManager.getBossKillCount(bossId));
+        if (!isBossRushUnlocked(lineup)) return;
+        if (!this.trySpendEnergy(() => this.startBossRush(lineup))) return;
+        this.startBossRush(lineup);
+      },
+      onDailyChallenge: () => {
+        if (!this.trySpendEnergy(() => this.startDailyChallenge())) return;
+        this.startDailyChallenge();
+      },
+      onPlaySeed: () => {
+        showSeedInputModal({
+          scene: this,
+          onSubmit: (seed) => {
+            if (!this.trySpendEnergy(() => this.startSeededRun(seed))) return;
+            this.startSeededRun(seed);
+          },
+        });
+      },
       depth: 10,
     });
   }
 
   private startGame() {
-    // Always endless mode now
+    // Endless mode - campaign runs start from ChapterSelectScene
     this.game.registry.set("isEndlessMode", true);
+    dailyChallengeManager.cancelAttempt();
+    bossRushManager.cancelRun();
 
     // Set chapter 1 as default for wave 1
     chapterManager.selectChapter(1);
@@ -154,10 +187,59 @@ export default class MainMenuScene extends Phaser.Scene {
     this.scene.launch("UIScene");
   }
 
+  /**
+   * Start a Boss Rush against every boss defeated so far
+   */
+  private startBossRush(lineup: BossId[]) {
+    bossRushManager.startRun(lineup);
+    this.game.registry.set("isEndlessMode", false);
+    dailyChallengeManager.cancelAttempt();
+
+    // The first fight switches to its boss's chapter
+    chapterManager.selectChapter(1);
+
+    transitionToScene(this, "GameScene", TransitionType.FADE, DURATION.NORMAL);
+    this.scene.launch("UIScene");
+  }
+
+  /**
+   * Start today's daily challenge - same seed, hero, gear and modifiers for everyone
+   */
+  private startDailyChallenge() {
+    const challenge = dailyChallengeManager.startAttempt();
+    bossRushManager.cancelRun();
+    this.game.registry.set("isEndlessMode", true);
+    this.game.registry.set("runSeed", challenge.seed);
+
+    chapterManager.selectChapter(1);
+
+    transitionToScene(this, "GameScene", TransitionType.FADE, DURATION.NORMAL);
+    this.scene.launch("UIScene");
+  }
+
+  /**
+   * Start an endless run from a seed the player typed (same rooms and enemies
+   * as the run it was shared from)
+   */
+  private startSeededRun(seed: string) {
+    this.game.registry.set("isEndlessMode", true);
+    this.game.registry.set("runSeed", seed);
+    this.game.registry.set("isSeededRun", true);
+    dailyChallengeManager.cancelAttempt();
+    bossRushManager.cancelRun();
+
+    chapterManager.selectChapter(1);
+
+    transitionToScene(this, "GameScene", TransitionType.FADE, DURATION.NORMAL);
+    this.scene.launch("UIScene");
+  }
+
   private createNavigationGrid(width: number, height: number) {
     const chestCount = chestManager.getTotalChests();
     const dailyBadge = dailyRewardManager.canClaimToday() ? 1 : 0;
     const achieveBadge = achievementManager.getUnclaimedRewardsCount();
+    const missionBadge = missionManager.getClaimableCount();
+    const seasonBadge = seasonManager.getClaimableCount();
 
     createNavigationGrid({
       scene: this,
@@ -170,6 +252,21 @@ export default class MainMenuScene extends Phaser.Scene {
         { id: "gear", icon: "⚔️", label: "Gear", scene: "EquipmentScene" },
         { id: "talents", icon: "⭐", label: "Talents", scene: "TalentsScene" },
         { id: "rewards", icon: "🎁", label: "Chests", scene: "ChestScene", badge: chestCount },
+        { id: "shop", icon: "🛒", label: "Shop", scene: "ShopScene" },
+        {
+          id: "missions",
+          icon: "🎯",
+          label: "Missions",
+          scene: "MissionsScene",
+          badge: missionBadge,
+        },
+        {
+          id: "season",
+          icon: "🏅",
+          label: "Season",
+          scene: "SeasonPassScene",
+          badge: seasonBadge,
+        },
         // Row 2
         { id: "daily", icon: "📅", label: "Daily", scene: "DailyRewardScene", badge: dailyBadge },
         {
@@ -191,7 +288,7 @@ export default class MainMenuScene extends Phaser.Scene {
           },
         },
       ],
-      columns: 6,
+      columns: 7,
       depth: 10,
     });
   }
@@ -207,7 +304,7 @@ export default class MainMenuScene extends Phaser.Scene {
     instructionsText.setDepth(10);
   }
 
-  private trySpendEnergy(): boolean {
+  private trySpendEnergy(start: () => void): boolean {
     const currentEnergy = currencyManager.get("energy");
     if (currentEnergy <= 0) {
       showNoEnergyModal({
@@ -219,7 +316,7 @@ export default class MainMenuScene extends Phaser.Scene {
             onComplete: () => {
               // Ad gave us +1 energy, spend it and start game
               currencyManager.spendEnergy(1);
-              this.startGame();
+              start();
             },
           });
         },
@@ -255,8 +352,9 @@ export default class MainMenuScene extends Phaser.Scene {
       for (let i = 1; i <= 5; i++) {
         chapterManager.forceUnlockChapter(i as ChapterId);
       }
-      heroManager.forceUnlock("helix");
-      heroManager.forceUnlock("meowgik");
+      for (const heroId of getAllHeroIds()) {
+        if (!heroManager.isUnlocked(heroId)) heroManager.forceUnlock(heroId);
+      }
       equipmentManager.createEquipment(WeaponType.DEATH_SCYTHE, Rarity.LEGENDARY, 70);
       equipmentManager.createEquipment(ArmorType.GOLDEN_CHESTPLATE, Rarity.LEGENDARY, 70);
       equipmentManager.createEquipment(RingType.LION_RING, Rarity.LEGENDARY, 70);
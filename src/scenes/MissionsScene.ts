@@ -0,0 +1,312 @@
+/**
+ * MissionsScene - Daily and weekly missions
+ *
+ * Features:
+ * - Daily / Weekly tabs with a count of missions ready to claim
+ * - Mission cards with progress bars and rewards
+ * - Claim buttons for completed missions
+ * - Countdown to the UTC reset of the shown period
+ */
+
+import Phaser from "phaser";
+import { missionManager, type MissionStatus } from "../systems/MissionManager";
+import type { Reward } from "../systems/DailyRewardManager";
+import { audioManager } from "../systems/AudioManager";
+import { CHEST_CONFIGS } from "../data/chestData";
+import {
+  MISSION_PERIODS,
+  MISSION_PERIOD_LABELS,
+  getMissionPeriodKey,
+  type MissionPeriod,
+} from "../config/missionData";
+import { createBackButton, createBackButtonFooter } from "../ui/components/BackButton";
+import { createSceneHeader } from "../ui/components/SceneHeader";
+
+const TAB_ACTIVE_COLOR = "#4a90d9";
+const TAB_INACTIVE_COLOR = "#333344";
+const CLAIM_BUTTON_COLOR = "#44aa44";
+const CLAIMED_COLOR = "#555555";
+
+const CARD_HEIGHT = 92;
+const CARD_SPACING = 10;
+const LIST_TOP = 160;
+
+export default class MissionsScene extends Phaser.Scene {
+  private headerRef?: { updateCurrency: () => void };
+  private activePeriod: MissionPeriod = "daily";
+  private dailyKey = "";
+  private tabButtons = new Map<MissionPeriod, Phaser.GameObjects.Text>();
+  private timerText?: Phaser.GameObjects.Text;
+  private listContainer?: Phaser.GameObjects.Container;
+
+  constructor() {
+    super({ key: "MissionsScene" });
+  }
+
+  create() {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+
+    this.tabButtons = new Map();
+    this.dailyKey = getMissionPeriodKey("daily");
+
+    // Background (lowest depth)
+    this.add.rectangle(width / 2, height / 2, width, height, 0x1a1a2e).setDepth(0);
+
+    this.headerRef = createSceneHeader({
+      scene: this,
+      title: "MISSIONS",
+      showCurrency: true,
+      currencyTypes: ["gold", "gems"],
+      y: 0,
+      titleFontSize: "24px",
+      depth: 11,
+      showBackground: false,
+    });
+
+    this.createTabs(width);
+
+    this.timerText = this.add
+      .text(width / 2, 138, "", {
+        fontSize: "12px",
+        color: "#aaaaaa",
+      })
+      .setOrigin(0.5)
+      .setDepth(11);
+
+    this.createBackButtonSection(width, height);
+    this.refresh();
+  }
+
+  update() {
+    // Missions reroll at the UTC reset while the scene is open
+    if (getMissionPeriodKey("daily") !== this.dailyKey) {
+      this.scene.restart();
+      return;
+    }
+    this.timerText?.setText(
+      `New ${MISSION_PERIOD_LABELS[this.activePeriod].toLowerCase()} missions in ${missionManager.getFormattedTimeUntilReset(this.activePeriod)}`,
+    );
+  }
+
+  private createTabs(width: number) {
+    const tabWidth = (width - 40) / MISSION_PERIODS.length;
+
+    MISSION_PERIODS.forEach((period, index) => {
+      const tab = this.add
+        .text(20 + tabWidth * index + tabWidth / 2, 104, "", {
+          fontSize: "14px",
+          color: "#ffffff",
+          backgroundColor: TAB_INACTIVE_COLOR,
+          padding: { x: 10, y: 6 },
+          fixedWidth: tabWidth - 8,
+          align: "center",
+          fontStyle: "bold",
+        })
+        .setOrigin(0.5)
+        .setDepth(11)
+        .setInteractive({ useHandCursor: true });
+
+      tab.on("pointerdown", () => {
+        if (this.activePeriod === period) return;
+        audioManager.playMenuSelect();
+        this.activePeriod = period;
+        this.refresh();
+      });
+
+      this.tabButtons.set(period, tab);
+    });
+  }
+
+  /**
+   * Rebuild the tab labels and the mission list of the active period
+   */
+  private refresh() {
+    for (const [period, tab] of this.tabButtons) {
+      const claimable = missionManager
+        .getMissions(period)
+        .filter((mission) => mission.isComplete && !mission.isClaimed).length;
+      const label = MISSION_PERIOD_LABELS[period];
+      tab.setText(claimable > 0 ? `${label} (${claimable})` : label);
+      tab.setStyle({
+        backgroundColor: period === this.activePeriod ? TAB_ACTIVE_COLOR : TAB_INACTIVE_COLOR,
+      });
+    }
+
+    this.listContainer?.destroy();
+    this.listContainer = this.add.container(0, 0).setDepth(1);
+
+    const width = this.cameras.main.width;
+    missionManager.getMissions(this.activePeriod).forEach((mission, index) => {
+      const y = LIST_TOP + index * (CARD_HEIGHT + CARD_SPACING) + CARD_HEIGHT / 2;
+      this.listContainer!.add(this.createMissionCard(width, y, mission));
+    });
+
+    this.headerRef?.updateCurrency();
+  }
+
+  private createMissionCard(
+    width: number,
+    y: number,
+    mission: MissionStatus,
+  ): Phaser.GameObjects.Container {
+    const { definition } = mission;
+    const cardWidth = width - 30;
+    const card = this.add.container(width / 2, y);
+
+    const bg = this.add.rectangle(0, 0, cardWidth, CARD_HEIGHT, 0x2a2a3e);
+    bg.setStrokeStyle(
+      mission.isComplete && !mission.isClaimed ? 2 : 1,
+      mission.isComplete && !mission.isClaimed ? 0x44aa44 : 0x3a3a4e,
+    );
+    card.add(bg);
+
+    const descText = this.add
+      .text(-cardWidth / 2 + 12, -CARD_HEIGHT / 2 + 20, definition.description, {
+        fontSize: "13px",
+        color: mission.isClaimed ? "#888888" : "#ffffff",
+        fontStyle: "bold",
+        wordWrap: { width: cardWidth - 120 },
+      })
+      .setOrigin(0, 0.5);
+
+    const rewardText = this.add
+      .text(-cardWidth / 2 + 12, 0, this.formatRewards(definition.rewards), {
+        fontSize: "12px",
+        color: "#FFD700",
+      })
+      .setOrigin(0, 0.5);
+    card.add([descText, rewardText]);
+
+    // Progress bar
+    const barWidth = cardWidth - 24;
+    const barY = CARD_HEIGHT / 2 - 18;
+    const fillWidth = barWidth * Math.min(1, mission.progress / definition.target);
+    const barBg = this.add.rectangle(0, barY, barWidth, 8, 0x333333);
+    const barFill = this.add.rectangle(-barWidth / 2 + fillWidth / 2, barY, fillWidth, 8, 0x44aa44);
+    const progressText = this.add
+      .text(barWidth / 2, barY - 12, `${mission.progress}/${definition.target}`, {
+        fontSize: "10px",
+        color: "#ffffff",
+      })
+      .setOrigin(1, 0.5);
+    card.add([barBg, barFill, progressText]);
+
+    card.add(this.createClaimButton(cardWidth / 2 - 50, -12, mission));
+    return card;
+  }
+
+  private createClaimButton(x: number, y: number, mission: MissionStatus) {
+    const label = mission.isClaimed ? "✓ Claimed" : mission.isComplete ? "CLAIM" : "In progress";
+    const button = this.add
+      .text(x, y, label, {
+        fontSize: "12px",
+        color: mission.isComplete ? "#ffffff" : "#aaaaaa",
+        backgroundColor:
+          mission.isComplete && !mission.isClaimed ? CLAIM_BUTTON_COLOR : CLAIMED_COLOR,
+        padding: { x: 8, y: 5 },
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
+
+    if (mission.isComplete && !mission.isClaimed) {
+      button.setInteractive({ useHandCursor: true });
+      button.on("pointerdown", () => this.claimMission(mission));
+    }
+    return button;
+  }
+
+  private claimMission(mission: MissionStatus) {
+    const result = missionManager.claim(this.activePeriod, mission.definition.id);
+    if (!result.success) {
+      this.showClaimPopup(result.error ?? "Claim failed", "", "#ff6666");
+      return;
+    }
+
+    audioManager.playLevelUp();
+    this.showClaimPopup("Mission complete!", this.formatRewards(result.rewards ?? []), "#44aa44");
+    this.refresh();
+  }
+
+  private formatRewards(rewards: Reward[]): string {
+    return rewards
+      .map((reward) => {
+        switch (reward.type) {
+          case "gold":
+            return `💰 ${reward.amount}`;
+          case "gems":
+            return `💎 ${reward.amount}`;
+          case "energy":
+            return `⚡ ${reward.amount}`;
+          case "chest":
+            return `🎁 ${reward.amount}× ${reward.chestType ? CHEST_CONFIGS[reward.chestType].name : "Chest"}`;
+        }
+      })
+      .join("   ");
+  }
+
+  private showClaimPopup(title: string, message: string, color: string) {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+
+    const popup = this.add.container(width / 2, height / 2);
+    popup.setDepth(100);
+
+    const bg = this.add.rectangle(0, 0, 260, message ? 80 : 50, 0x1a1a2e);
+    bg.setStrokeStyle(2, parseInt(color.replace("#", ""), 16));
+
+    const titleText = this.add
+      .text(0, message ? -18 : 0, title, {
+        fontSize: "16px",
+        color,
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
+    popup.add([bg, titleText]);
+
+    if (message) {
+      const messageText = this.add
+        .text(0, 12, message, {
+          fontSize: "12px",
+          color: "#ffffff",
+          align: "center",
+          wordWrap: { width: 240 },
+        })
+        .setOrigin(0.5);
+      popup.add(messageText);
+    }
+
+    popup.setScale(0.5);
+    popup.setAlpha(0);
+
+    this.tweens.add({
+      targets: popup,
+      scale: 1,
+      alpha: 1,
+      duration: 200,
+      ease: "Back.easeOut",
+    });
+
+    this.time.delayedCall(1500, () => {
+      this.tweens.add({
+        targets: popup,
+        alpha: 0,
+        y: popup.y - 30,
+        duration: 300,
+        onComplete: () => popup.destroy(),
+      });
+    });
+  }
+
+  private createBackButtonSection(width: number, height: number) {
+    createBackButtonFooter(this, width, height, 50, 0x1a1a2e, 20);
+
+    createBackButton({
+      scene: this,
+      x: width / 2,
+      y: height - 25,
+      targetScene: "MainMenuScene",
+      depth: 20,
+    });
+  }
+}
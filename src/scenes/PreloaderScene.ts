@@ -1,4 +1,5 @@
 import Phaser from "phaser";
+import { HERO_DEFINITIONS } from "../config/heroData";
 
 export default class PreloaderScene extends Phaser.Scene {
   private loadingDots: Phaser.GameObjects.Arc[] = [];
@@ -178,10 +179,10 @@ export default class PreloaderScene extends Phaser.Scene {
     // Load game assets
     this.load.image("portal", "assets/sprites/door/portal.png");
 
-    // Load hero sprites (medieval/default theme)
-    this.load.image("atreusSprite", "assets/sprites/player/archer.png");
-    this.load.image("helixSprite", "assets/sprites/player/helix.png");
-    this.load.image("meowgikSprite", "assets/sprites/player/meowgik.png");
+    // Load hero sprites (every registered hero, also used as hero icons)
+    for (const hero of Object.values(HERO_DEFINITIONS)) {
+      this.load.image(hero.sprite.key, hero.sprite.path);
+    }
     // Enemy sprites
     this.load.image("enemyMelee", "assets/sprites/enemy/melee_slime.png");
     this.load.image("enemyRanged", "assets/sprites/enemy/ranged_skeleton.png");
@@ -283,11 +284,6 @@ export default class PreloaderScene extends Phaser.Scene {
     this.load.image("abilityAscetic", "assets/sprites/abilities/ascetic.png");
     this.load.image("abilityHordeMagnet", "assets/sprites/abilities/horde_magnet.png");
 
-    // Load hero icons (use player sprites)
-    this.load.image("heroAtreus", "assets/sprites/player/archer.png");
-    this.load.image("heroHelix", "assets/sprites/player/helix.png");
-    this.load.image("heroMeowgik", "assets/sprites/player/meowgik.png");
-
     // Load chapter icons
     this.load.image("chapter1Icon_medieval", "assets/sprites/ui/chapter1_icon_medieval.png");
     this.load.image("chapter2Icon_medieval", "assets/sprites/ui/chapter2_icon_medieval.png");
@@ -0,0 +1,457 @@
+/**
+ * SeasonPassScene - Season pass tiers and rewards
+ *
+ * Features:
+ * - Season name, time left, current tier and XP progress
+ * - Free and premium reward tracks side by side, tap a reached reward to claim
+ * - Claim All for every reached tier
+ * - Mocked premium pass toggle (no purchase behind it)
+ * - Summary of rewards granted when the previous season ended
+ */
+
+import Phaser from "phaser";
+import { seasonManager, type SeasonRolloverResult } from "../systems/SeasonManager";
+import type { Reward } from "../systems/DailyRewardManager";
+import { audioManager } from "../systems/AudioManager";
+import { CHEST_CONFIGS } from "../data/chestData";
+import { getNextSeason, getSeasonStartTime, type SeasonTrack } from "../config/seasonData";
+import { ScrollContainer } from "../ui/components/ScrollContainer";
+import { createBackButton, createBackButtonFooter } from "../ui/components/BackButton";
+import { createSceneHeader } from "../ui/components/SceneHeader";
+
+const ROW_HEIGHT = 56;
+const CELL_WIDTH = 140;
+const FREE_X = 135;
+const PREMIUM_X = 285;
+
+const CLAIMABLE_COLOR = 0x2f5a2f;
+const REACHED_COLOR = 0x2a2a3e;
+const LOCKED_COLOR = 0x1f1f2a;
+
+interface RewardCell {
+  tier: number;
+  track: SeasonTrack;
+  bg: Phaser.GameObjects.Rectangle;
+  stateText: Phaser.GameObjects.Text;
+}
+
+export default class SeasonPassScene extends Phaser.Scene {
+  private scrollContainer?: ScrollContainer;
+  private scrollBounds = { top: 200, bottom: 610 };
+  private headerRef?: { updateCurrency: () => void };
+  private seasonId: string | null = null;
+  private cells: RewardCell[] = [];
+  private tierText?: Phaser.GameObjects.Text;
+  private xpText?: Phaser.GameObjects.Text;
+  private xpBarFill?: Phaser.GameObjects.Rectangle;
+  private timerText?: Phaser.GameObjects.Text;
+  private premiumButton?: Phaser.GameObjects.Text;
+  private claimAllButton?: Phaser.GameObjects.Text;
+
+  constructor() {
+    super({ key: "SeasonPassScene" });
+  }
+
+  create() {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+
+    this.cells = [];
+    const season = seasonManager.getActiveSeason();
+    this.seasonId = season?.id ?? null;
+
+    // Background (lowest depth)
+    this.add.rectangle(width / 2, height / 2, width, height, 0x1a1a2e).setDepth(0);
+
+    // Header background to cover scroll content
+    this.add
+      .rectangle(width / 2, this.scrollBounds.top / 2, width, this.scrollBounds.top, 0x1a1a2e)
+      .setDepth(10);
+
+    this.headerRef = createSceneHeader({
+      scene: this,
+      title: "SEASON PASS",
+      showCurrency: true,
+      currencyTypes: ["gold", "gems", "energy"],
+      y: 0,
+      titleFontSize: "24px",
+      depth: 11,
+      showBackground: false,
+    });
+
+    if (season) {
+      this.createSeasonInfo(width, season.name);
+      this.createTierList(width);
+      this.updateRows();
+    } else {
+      this.createOffSeasonMessage(width);
+    }
+
+    this.createBackButtonSection(width, height);
+
+    const rollover = seasonManager.consumeRolloverResult();
+    if (rollover) {
+      this.showRolloverPopup(rollover);
+    }
+  }
+
+  update() {
+    // Roll over to the next season while the scene is open
+    if ((seasonManager.getActiveSeason()?.id ?? null) !== this.seasonId) {
+      this.scene.restart();
+      return;
+    }
+    this.timerText?.setText(
+      `Ends in ${this.formatDuration(seasonManager.getTimeUntilSeasonEnd())}`,
+    );
+  }
+
+  private createSeasonInfo(width: number, seasonName: string) {
+    this.add
+      .text(15, 92, seasonName, {
+        fontSize: "16px",
+        color: "#FFD700",
+        fontStyle: "bold",
+      })
+      .setOrigin(0, 0.5)
+      .setDepth(11);
+
+    this.timerText = this.add
+      .text(width - 15, 92, "", {
+        fontSize: "12px",
+        color: "#aaaaaa",
+      })
+      .setOrigin(1, 0.5)
+      .setDepth(11);
+
+    this.tierText = this.add
+      .text(15, 116, "", {
+        fontSize: "13px",
+        color: "#ffffff",
+        fontStyle: "bold",
+      })
+      .setOrigin(0, 0.5)
+      .setDepth(11);
+
+    this.xpText = this.add
+      .text(width - 15, 116, "", {
+        fontSize: "11px",
+        color: "#aaaaaa",
+      })
+      .setOrigin(1, 0.5)
+      .setDepth(11);
+
+    const barWidth = width - 30;
+    this.add.rectangle(width / 2, 134, barWidth, 8, 0x333333).setDepth(11);
+    this.xpBarFill = this.add.rectangle(15, 134, 0, 8, 0x44aa44).setOrigin(0, 0.5).setDepth(11);
+
+    this.premiumButton = this.add
+      .text(15, 160, "", {
+        fontSize: "12px",
+        color: "#ffffff",
+        padding: { x: 8, y: 5 },
+        fontStyle: "bold",
+      })
+      .setOrigin(0, 0.5)
+      .setDepth(11)
+      .setInteractive({ useHandCursor: true });
+    this.premiumButton.on("pointerdown", () => {
+      audioManager.playMenuSelect();
+      seasonManager.setPremiumEntitlement(!seasonManager.hasPremium());
+      this.updateRows();
+    });
+
+    this.claimAllButton = this.add
+      .text(width - 15, 160, "Claim All", {
+        fontSize: "12px",
+        color: "#ffffff",
+        padding: { x: 10, y: 5 },
+        fontStyle: "bold",
+      })
+      .setOrigin(1, 0.5)
+      .setDepth(11)
+      .setInteractive({ useHandCursor: true });
+    this.claimAllButton.on("pointerdown", () => this.claimAll());
+
+    // Column headers
+    const headerStyle = { fontSize: "11px", color: "#888888", fontStyle: "bold" };
+    this.add.text(30, 188, "TIER", headerStyle).setOrigin(0.5).setDepth(11);
+    this.add.text(FREE_X, 188, "FREE", headerStyle).setOrigin(0.5).setDepth(11);
+    this.add.text(PREMIUM_X, 188, "👑 PREMIUM", headerStyle).setOrigin(0.5).setDepth(11);
+  }
+
+  private createTierList(width: number) {
+    this.scrollContainer = new ScrollContainer({
+      scene: this,
+      width,
+      bounds: this.scrollBounds,
+      depth: 1,
+    });
+
+    const tiers = seasonManager.getTiers();
+    tiers.forEach((status, index) => {
+      const y = this.scrollBounds.top + 8 + index * ROW_HEIGHT + ROW_HEIGHT / 2;
+
+      const tierCircle = this.add.circle(30, y, 16, 0x2a2a4e);
+      tierCircle.setStrokeStyle(2, 0x444466);
+      const tierLabel = this.add
+        .text(30, y, `${status.tier.tier}`, {
+          fontSize: "13px",
+          color: "#ffffff",
+          fontStyle: "bold",
+        })
+        .setOrigin(0.5);
+      this.scrollContainer!.addMultiple([tierCircle, tierLabel]);
+
+      this.createRewardCell(FREE_X, y, status.tier.tier, "free", status.tier.free);
+      this.createRewardCell(PREMIUM_X, y, status.tier.tier, "premium", status.tier.premium);
+    });
+
+    this.scrollContainer.setContentHeight(tiers.length * ROW_HEIGHT + 16);
+  }
+
+  private createRewardCell(
+    x: number,
+    y: number,
+    tier: number,
+    track: SeasonTrack,
+    rewards: Reward[],
+  ) {
+    const bg = this.add.rectangle(x, y, CELL_WIDTH, ROW_HEIGHT - 8, REACHED_COLOR);
+    bg.setStrokeStyle(1, 0x3a3a4e);
+    bg.setInteractive({ useHandCursor: true });
+
+    const rewardText = this.add
+      .text(x, y - 8, this.formatRewards(rewards, "\n"), {
+        fontSize: "11px",
+        color: "#ffffff",
+        align: "center",
+      })
+      .setOrigin(0.5);
+
+    const stateText = this.add
+      .text(x, y + 14, "", {
+        fontSize: "10px",
+        color: "#aaaaaa",
+      })
+      .setOrigin(0.5);
+
+    // Use pointerup so a drag-scroll does not claim, and ignore taps on
+    // cells scrolled out of the visible area
+    bg.on("pointerup", (pointer: Phaser.Input.Pointer) => {
+      const inScrollArea =
+        pointer.y >= this.scrollBounds.top && pointer.y <= this.scrollBounds.bottom;
+      if (!inScrollArea || this.scrollContainer?.isDragScrolling()) {
+        return;
+      }
+      this.claimTier(tier, track);
+    });
+
+    this.scrollContainer!.addMultiple([bg, rewardText, stateText]);
+    this.cells.push({ tier, track, bg, stateText });
+  }
+
+  /**
+   * Refresh tier progress, cell states and buttons
+   */
+  private updateRows() {
+    const width = this.cameras.main.width;
+    const hasPremium = seasonManager.hasPremium();
+    const tier = seasonManager.getCurrentTier();
+    const tierCount = seasonManager.getTiers().length;
+    const progress = seasonManager.getTierProgress();
+
+    this.tierText?.setText(`Tier ${tier}/${tierCount}`);
+    this.xpText?.setText(
+      tier >= tierCount
+        ? `${seasonManager.getXp()} XP - max tier`
+        : `${progress.current}/${progress.required} XP to tier ${tier + 1}`,
+    );
+    this.xpBarFill?.setSize((width - 30) * (progress.current / progress.required), 8);
+
+    this.premiumButton?.setText(hasPremium ? "👑 Premium (test) ✓" : "👑 Unlock Premium (test)");
+    this.premiumButton?.setStyle({ backgroundColor: hasPremium ? "#6a4a9a" : "#444455" });
+
+    const claimable = seasonManager.getClaimableCount();
+    this.claimAllButton?.setText(claimable > 0 ? `Claim All (${claimable})` : "Claim All");
+    this.claimAllButton?.setStyle({ backgroundColor: claimable > 0 ? "#44aa44" : "#555555" });
+
+    const statuses = seasonManager.getTiers();
+    for (const cell of this.cells) {
+      const status = statuses.find((entry) => entry.tier.tier === cell.tier);
+      if (!status) continue;
+
+      const claimed = cell.track === "free" ? status.freeClaimed : status.premiumClaimed;
+      const locked = cell.track === "premium" && !hasPremium;
+
+      if (claimed) {
+        cell.stateText.setText("✓ Claimed").setColor("#44aa44");
+        cell.bg.setFillStyle(REACHED_COLOR, 0.5);
+      } else if (!status.isReached) {
+        cell.stateText.setText(locked ? "🔒" : "").setColor("#aaaaaa");
+        cell.bg.setFillStyle(LOCKED_COLOR);
+      } else if (locked) {
+        cell.stateText.setText("🔒 Premium").setColor("#aaaaaa");
+        cell.bg.setFillStyle(LOCKED_COLOR);
+      } else {
+        cell.stateText.setText("Tap to claim").setColor("#ffffff");
+        cell.bg.setFillStyle(CLAIMABLE_COLOR);
+      }
+    }
+
+    this.headerRef?.updateCurrency();
+  }
+
+  private claimTier(tier: number, track: SeasonTrack) {
+    const result = seasonManager.claimTier(tier, track);
+    if (!result.success) {
+      // Taps on unreached or claimed cells are not errors worth a popup
+      if (result.error === "Premium pass required") {
+        this.showPopup(result.error, "", "#ff6666");
+      }
+      return;
+    }
+
+    audioManager.playLevelUp();
+    this.showPopup(
+      `Tier ${tier} claimed!`,
+      this.formatRewards(result.rewards ?? [], "   "),
+      "#44aa44",
+    );
+    this.updateRows();
+  }
+
+  private claimAll() {
+    const rewards = seasonManager.claimAll();
+    if (rewards.length === 0) {
+      return;
+    }
+
+    audioManager.playLevelUp();
+    this.showPopup("Rewards claimed!", this.formatRewards(rewards, "   "), "#44aa44");
+    this.updateRows();
+  }
+
+  private createOffSeasonMessage(width: number) {
+    const now = Date.now();
+    const nextSeason = getNextSeason(now);
+    const message = nextSeason
+      ? `No season is running.\n\n${nextSeason.name} starts in ${this.formatDuration(getSeasonStartTime(nextSeason) - now)}.`
+      : "No season is running.\n\nCheck back soon!";
+
+    this.add
+      .text(width / 2, 260, message, {
+        fontSize: "15px",
+        color: "#aaaaaa",
+        align: "center",
+        wordWrap: { width: width - 60 },
+      })
+      .setOrigin(0.5)
+      .setDepth(11);
+  }
+
+  private showRolloverPopup(rollover: SeasonRolloverResult) {
+    this.showPopup(
+      `${rollover.seasonName} ended`,
+      `Unclaimed rewards granted:\n${this.formatRewards(rollover.rewards, "   ")}`,
+      "#FFD700",
+      3000,
+    );
+  }
+
+  private formatRewards(rewards: Reward[], separator: string): string {
+    return rewards
+      .map((reward) => {
+        switch (reward.type) {
+          case "gold":
+            return `💰 ${reward.amount}`;
+          case "gems":
+            return `💎 ${reward.amount}`;
+          case "energy":
+            return `⚡ ${reward.amount}`;
+          case "chest":
+            return `🎁 ${reward.amount}× ${reward.chestType ? CHEST_CONFIGS[reward.chestType].name : "Chest"}`;
+        }
+      })
+      .join(separator);
+  }
+
+  /**
+   * Format a duration as "Xd HHh" or "HH:MM"
+   */
+  private formatDuration(ms: number): string {
+    const totalMinutes = Math.max(0, Math.ceil(ms / 60000));
+    const days = Math.floor(totalMinutes / 1440);
+    const hours = Math.floor((totalMinutes % 1440) / 60);
+    const minutes = totalMinutes % 60;
+    if (days > 0) {
+      return `${days}d ${hours.toString().padStart(2, "0")}h`;
+    }
+    return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}`;
+  }
+
+  private showPopup(title: string, message: string, color: string, duration: number = 1500) {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+
+    const popup = this.add.container(width / 2, height / 2);
+    popup.setDepth(100);
+
+    const bg = this.add.rectangle(0, 0, 280, message ? 100 : 50, 0x1a1a2e);
+    bg.setStrokeStyle(2, parseInt(color.replace("#", ""), 16));
+
+    const titleText = this.add
+      .text(0, message ? -28 : 0, title, {
+        fontSize: "16px",
+        color,
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
+    popup.add([bg, titleText]);
+
+    if (message) {
+      const messageText = this.add
+        .text(0, 10, message, {
+          fontSize: "12px",
+          color: "#ffffff",
+          align: "center",
+          wordWrap: { width: 260 },
+        })
+        .setOrigin(0.5);
+      popup.add(messageText);
+    }
+
+    popup.setScale(0.5);
+    popup.setAlpha(0);
+
+    this.tweens.add({
+      targets: popup,
+      scale: 1,
+      alpha: 1,
+      duration: 200,
+      ease: "Back.easeOut",
+    });
+
+    this.time.delayedCall(duration, () => {
+      this.tweens.add({
+        targets: popup,
+        alpha: 0,
+        y: popup.y - 30,
+        duration: 300,
+        onComplete: () => popup.destroy(),
+      });
+    });
+  }
+
+  private createBackButtonSection(width: number, height: number) {
+    createBackButtonFooter(this, width, height, 50, 0x1a1a2e, 20);
+
+    createBackButton({
+      scene: this,
+      x: width / 2,
+      y: height - 25,
+      targetScene: "MainMenuScene",
+      depth: 20,
+    });
+  }
+}
@@ -4,6 +4,17 @@ import { saveManager, GameSettings, GraphicsQuality, ColorblindMode } from "../s
 import { hapticManager } from "../systems/HapticManager";
 import { createBackButton } from "../ui/components/BackButton";
 import { ScrollContainer } from "../ui/components/ScrollContainer";
+import {
+  SaveDiff,
+  SaveImport,
+  SaveSnapshot,
+  SNAPSHOT_REASON_LABELS,
+  applySaveImport,
+  exportSaveCode,
+  readSaveCode,
+  saveSnapshots,
+  summarizeSnapshot,
+} from "../systems/storage";
 
 /**
  * SettingsScene - Game options and preferences
@@ -14,6 +25,8 @@ import { ScrollContainer } from "../ui/components/ScrollContainer";
  * - Audio toggle with volume slider
  * - Damage numbers toggle
  * - Vibration toggle
+ * - Save transfer (export/import progress as a save code)
+ * - Danger zone: restore an automatic snapshot, reset all progress
  */
 export default class SettingsScene extends Phaser.Scene {
   private settings!: GameSettings;
@@ -25,6 +38,10 @@ export default class SettingsScene extends Phaser.Scene {
   // Scroll container
   private scrollContainer?: ScrollContainer;
 
+  // Save transfer
+  private transferStatusText?: Phaser.GameObjects.Text;
+  private importContainer?: HTMLDivElement;
+
   constructor() {
     super({ key: "SettingsScene" });
   }
@@ -47,6 +64,9 @@ export default class SettingsScene extends Phaser.Scene {
 
     // Back button (fixed at bottom)
     this.createBackButton(width, height);
+
+    // Clean up HTML elements on shutdown
+    this.events.once("shutdown", this.removeImportInput, this);
   }
 
   private createHeader(width: number) {
@@ -220,11 +240,15 @@ export default class SettingsScene extends Phaser.Scene {
         this.saveSettings();
       },
     );
+    currentY += rowHeight;
+
+    // Save Transfer
+    this.createSaveTransferSetting(width, currentY);
     currentY += rowHeight + 40; // Extra spacing before danger zone
 
     // Danger Zone (collapsible reset section)
     this.createDangerZone(width, currentY);
-    currentY += 160; // Account for danger zone height (expanded)
+    currentY += 220; // Account for danger zone height (expanded)
 
     // Set content height for scroll calculations
     const contentHeight = currentY + 20 - contentStartY;
@@ -392,6 +416,320 @@ export default class SettingsScene extends Phaser.Scene {
     });
   }
 
+  private createSaveTransferSetting(width: number, y: number) {
+    const leftX = 20;
+    const rightX = width - 20;
+
+    // Label
+    const label = this.add
+      .text(leftX, y, "Save Transfer", {
+        fontSize: "16px",
+        color: "#ffffff",
+      })
+      .setOrigin(0, 0.5);
+    this.scrollContainer!.add(label);
+
+    // Description (also used for export/import status)
+    this.transferStatusText = this.add
+      .text(leftX, y + 18, "Move progress between devices", {
+        fontSize: "11px",
+        color: "#888888",
+      })
+      .setOrigin(0, 0.5);
+    this.scrollContainer!.add(this.transferStatusText);
+
+    // Export / Import buttons
+    const buttons = [
+      { label: "Export", x: rightX - 110, onClick: () => this.exportSave() },
+      { label: "Import", x: rightX - 35, onClick: () => this.showImportDialog(width) },
+    ];
+
+    buttons.forEach(({ label: buttonLabel, x, onClick }) => {
+      const button = this.add
+        .text(x, y, buttonLabel, {
+          fontSize: "14px",
+          color: "#ffffff",
+          backgroundColor: "#444444",
+          padding: { x: 10, y: 6 },
+        })
+        .setOrigin(0.5)
+        .setInteractive({ useHandCursor: true });
+      this.scrollContainer!.add(button);
+
+      button.on("pointerover", () => {
+        button.setStyle({ backgroundColor: "#666666" });
+      });
+
+      button.on("pointerout", () => {
+        button.setStyle({ backgroundColor: "#444444" });
+      });
+
+      button.on("pointerdown", () => {
+        audioManager.playMenuSelect();
+        onClick();
+      });
+    });
+  }
+
+  private setTransferStatus(message: string, color: string) {
+    this.transferStatusText?.setText(message).setColor(color);
+  }
+
+  /**
+   * Copy the save code to the clipboard and download it as a file
+   */
+  private async exportSave() {
+    try {
+      const code = await exportSaveCode();
+      const copied = await navigator.clipboard
+        ?.writeText(code)
+        .then(() => true)
+        .catch(() => false);
+      this.downloadSaveFile(code);
+      this.setTransferStatus(
+        copied ? "Save code copied and downloaded" : "Save code downloaded",
+        "#44ff44",
+      );
+    } catch (error) {
+      console.error("SettingsScene: Failed to export save:", error);
+      this.setTransferStatus("Export failed", "#ff4444");
+    }
+  }
+
+  private downloadSaveFile(code: string) {
+    const url = URL.createObjectURL(new Blob([code], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `aura-archer-save-${new Date().toISOString().slice(0, 10)}.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private showImportDialog(width: number) {
+    const height = this.cameras.main.height;
+
+    // Overlay
+    const overlay = this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.8);
+    overlay.setDepth(100);
+    overlay.setInteractive(); // Block clicks through
+
+    // Dialog container
+    const dialog = this.add.container(width / 2, height / 2);
+    dialog.setDepth(101);
+
+    const close = () => {
+      this.removeImportInput();
+      overlay.destroy();
+      dialog.destroy();
+    };
+
+    // Background
+    const bg = this.add.rectangle(0, 0, 300, 260, 0x222233);
+    bg.setStrokeStyle(2, 0x4a9eff);
+
+    // Title
+    const title = this.add
+      .text(0, -105, "Import Save", {
+        fontSize: "20px",
+        color: "#4a9eff",
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
+
+    // Error message
+    const message = this.add
+      .text(0, 55, "Paste a save code or load a save file", {
+        fontSize: "12px",
+        color: "#aaaaaa",
+        align: "center",
+        wordWrap: { width: 270 },
+      })
+      .setOrigin(0.5);
+
+    // Code input (HTML elements, positioned over the dialog)
+    const textarea = this.createImportInput(height / 2 - 80);
+
+    const checkCode = async (code: string) => {
+      try {
+        const result = await readSaveCode(code);
+        close();
+        this.showImportConfirmation(width, result);
+      } catch (error) {
+        message.setText(error instanceof Error ? error.message : "Invalid save code");
+        message.setColor("#ff4444");
+      }
+    };
+
+    const loadBtn = this.createDialogButton(-90, 95, "Load File", "#444444", "#666666", () => {
+      const fileInput = document.createElement("input");
+      fileInput.type = "file";
+      fileInput.accept = ".txt,text/plain";
+      fileInput.addEventListener("change", async () => {
+        const file = fileInput.files?.[0];
+        if (!file) return;
+        textarea.value = (await file.text()).trim();
+        void checkCode(textarea.value);
+      });
+      fileInput.click();
+    });
+
+    const checkBtn = this.createDialogButton(10, 95, "Check", "#2266cc", "#3388ff", () => {
+      void checkCode(textarea.value);
+    });
+
+    const cancelBtn = this.createDialogButton(95, 95, "Cancel", "#444444", "#666666", close);
+
+    dialog.add([bg, title, message, loadBtn, checkBtn, cancelBtn]);
+  }
+
+  private createImportInput(gameY: number): HTMLTextAreaElement {
+    const canvasRect = this.game.canvas.getBoundingClientRect();
+    const scaleY = canvasRect.height / this.cameras.main.height;
+
+    this.importContainer = document.createElement("div");
+    this.importContainer.style.cssText = `
+      position: absolute;
+      transform: translateX(-50%);
+      z-index: 10000;
+      top: ${canvasRect.top + window.scrollY + gameY * scaleY}px;
+      left: ${canvasRect.left + canvasRect.width / 2}px;
+    `;
+
+    const textarea = document.createElement("textarea");
+    textarea.placeholder = "AA1....";
+    textarea.spellcheck = false;
+    textarea.style.cssText = `
+      width: 250px;
+      height: 90px;
+      padding: 8px;
+      font-size: 11px;
+      font-family: monospace;
+      background-color: #2a2a3e;
+      color: #ffffff;
+      border: 2px solid #444466;
+      border-radius: 8px;
+      outline: none;
+      resize: none;
+      word-break: break-all;
+      box-sizing: border-box;
+    `;
+
+    this.importContainer.appendChild(textarea);
+    document.body.appendChild(this.importContainer);
+    return textarea;
+  }
+
+  private removeImportInput() {
+    this.importContainer?.remove();
+    this.importContainer = undefined;
+  }
+
+  private showImportConfirmation(width: number, result: SaveImport) {
+    const height = this.cameras.main.height;
+
+    // Overlay
+    const overlay = this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.8);
+    overlay.setDepth(100);
+    overlay.setInteractive(); // Block clicks through
+
+    // Dialog container
+    const dialog = this.add.container(width / 2, height / 2);
+    dialog.setDepth(101);
+
+    // Background
+    const bg = this.add.rectangle(0, 0, 300, 260, 0x222233);
+    bg.setStrokeStyle(2, 0xff4444);
+
+    // Title
+    const title = this.add
+      .text(0, -105, "Overwrite Progress?", {
+        fontSize: "20px",
+        color: "#ff4444",
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
+
+    // Current -> incoming comparison
+    const rows = this.formatSaveDiff(result.diff);
+    const diffTexts = rows.flatMap(([label, current, incoming], index) => {
+      const rowY = -65 + index * 28;
+      const changed = current !== incoming;
+      return [
+        this.add.text(-130, rowY, label, { fontSize: "14px", color: "#aaaaaa" }).setOrigin(0, 0.5),
+        this.add
+          .text(130, rowY, `${current}  →  ${incoming}`, {
+            fontSize: "14px",
+            color: changed ? "#ffdd44" : "#ffffff",
+          })
+          .setOrigin(1, 0.5),
+      ];
+    });
+
+    const warning = this.add
+      .text(0, 50, "Your current progress on this\ndevice will be replaced.", {
+        fontSize: "12px",
+        color: "#cccccc",
+        align: "center",
+      })
+      .setOrigin(0.5);
+
+    const confirmBtn = this.createDialogButton(-60, 95, "IMPORT", "#cc2222", "#ff3333", () => {
+      applySaveImport(result.bundle);
+      // Restart from the main menu so every scene picks up the imported data
+      this.scene.start("MainMenuScene");
+    });
+
+    const cancelBtn = this.createDialogButton(60, 95, "Cancel", "#444444", "#666666", () => {
+      overlay.destroy();
+      dialog.destroy();
+    });
+
+    dialog.add([bg, title, ...diffTexts, warning, confirmBtn, cancelBtn]);
+  }
+
+  private formatSaveDiff(diff: SaveDiff): [string, string, string][] {
+    return [
+      ["Gold", diff.gold.current.toLocaleString(), diff.gold.incoming.toLocaleString()],
+      ["Gems", diff.gems.current.toLocaleString(), diff.gems.incoming.toLocaleString()],
+      ["Heroes", `${diff.heroes.current.length}`, `${diff.heroes.incoming.length}`],
+      ["Equipment", `${diff.equipment.current} items`, `${diff.equipment.incoming} items`],
+    ];
+  }
+
+  private createDialogButton(
+    x: number,
+    y: number,
+    label: string,
+    color: string,
+    hoverColor: string,
+    onClick: () => void,
+  ): Phaser.GameObjects.Text {
+    const button = this.add
+      .text(x, y, label, {
+        fontSize: "14px",
+        color: "#ffffff",
+        backgroundColor: color,
+        padding: { x: 12, y: 8 },
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+
+    button.on("pointerover", () => {
+      button.setStyle({ backgroundColor: hoverColor });
+    });
+
+    button.on("pointerout", () => {
+      button.setStyle({ backgroundColor: color });
+    });
+
+    button.on("pointerdown", () => {
+      audioManager.playMenuSelect();
+      onClick();
+    });
+
+    return button;
+  }
+
   private createToggleSetting(
     width: number,
     y: number,
@@ -579,7 +917,7 @@ export default class SettingsScene extends Phaser.Scene {
   private createDangerZone(width: number, y: number) {
     const zoneWidth = width - 40;
     const headerHeight = 44;
-    const contentHeight = 100;
+    const contentHeight = 160;
     const centerX = width / 2;
 
     // Reset expanded state
@@ -618,8 +956,39 @@ export default class SettingsScene extends Phaser.Scene {
     const contentBg = this.add.rectangle(0, 0, zoneWidth, contentHeight, 0x220808);
     contentBg.setStrokeStyle(2, 0xff4444);
 
+    const restoreText = this.add
+      .text(0, -58, "Roll back to an automatic snapshot.", {
+        fontSize: "12px",
+        color: "#cccccc",
+        align: "center",
+      })
+      .setOrigin(0.5);
+
+    const restoreButton = this.add
+      .text(0, -28, "Restore Snapshot", {
+        fontSize: "14px",
+        color: "#ffaa44",
+        backgroundColor: "#332211",
+        padding: { x: 20, y: 10 },
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+
+    restoreButton.on("pointerover", () => {
+      restoreButton.setStyle({ backgroundColor: "#553a22" });
+    });
+
+    restoreButton.on("pointerout", () => {
+      restoreButton.setStyle({ backgroundColor: "#332211" });
+    });
+
+    restoreButton.on("pointerdown", () => {
+      audioManager.playMenuSelect();
+      this.showSnapshotList(width);
+    });
+
     const warningText = this.add
-      .text(0, -25, "This will permanently delete ALL\nyour progress and currencies.", {
+      .text(0, 15, "This will permanently delete ALL\nyour progress and currencies.", {
         fontSize: "12px",
         color: "#cccccc",
         align: "center",
@@ -627,7 +996,7 @@ export default class SettingsScene extends Phaser.Scene {
       .setOrigin(0.5);
 
     const resetButton = this.add
-      .text(0, 25, "Reset All Progress", {
+      .text(0, 55, "Reset All Progress", {
         fontSize: "14px",
         color: "#ff4444",
         backgroundColor: "#331111",
@@ -649,7 +1018,7 @@ export default class SettingsScene extends Phaser.Scene {
       this.showResetConfirmation(width);
     });
 
-    this.dangerZoneContent.add([contentBg, warningText, resetButton]);
+    this.dangerZoneContent.add([contentBg, restoreText, restoreButton, warningText, resetButton]);
     this.dangerZoneContainer.add(this.dangerZoneContent);
 
     // === TOGGLE LOGIC ===
@@ -756,6 +1125,173 @@ export default class SettingsScene extends Phaser.Scene {
     dialog.add([bg, title, warning, confirmBtn, cancelBtn]);
   }
 
+  private showSnapshotList(width: number) {
+    const height = this.cameras.main.height;
+    const snapshots = saveSnapshots.list();
+    const rowHeight = 44;
+    const dialogHeight = 110 + Math.max(snapshots.length, 1) * rowHeight;
+    const top = -dialogHeight / 2;
+
+    // Overlay
+    const overlay = this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.8);
+    overlay.setDepth(100);
+    overlay.setInteractive(); // Block clicks through
+
+    // Dialog container
+    const dialog = this.add.container(width / 2, height / 2);
+    dialog.setDepth(101);
+
+    const close = () => {
+      overlay.destroy();
+      dialog.destroy();
+    };
+
+    // Background
+    const bg = this.add.rectangle(0, 0, 320, dialogHeight, 0x222233);
+    bg.setStrokeStyle(2, 0xffaa44);
+
+    // Title
+    const title = this.add
+      .text(0, top + 25, "Restore Snapshot", {
+        fontSize: "20px",
+        color: "#ffaa44",
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
+
+    dialog.add([bg, title]);
+
+    if (snapshots.length === 0) {
+      const empty = this.add
+        .text(0, top + 55 + rowHeight / 2, "No snapshots yet", {
+          fontSize: "14px",
+          color: "#888888",
+        })
+        .setOrigin(0.5);
+      dialog.add(empty);
+    }
+
+    // One row per snapshot, newest first
+    snapshots.forEach((snapshot, index) => {
+      const rowY = top + 55 + index * rowHeight + rowHeight / 2;
+      const summary = summarizeSnapshot(snapshot);
+      const heroLevels = Object.values(summary.heroLevels).join("/") || "-";
+
+      const rowBg = this.add.rectangle(0, rowY, 300, rowHeight - 4, 0x2a2a3e);
+      rowBg.setInteractive({ useHandCursor: true });
+
+      const whenText = this.add
+        .text(-140, rowY - 9, `${this.formatSnapshotTime(snapshot.takenAt)}`, {
+          fontSize: "13px",
+          color: "#ffffff",
+        })
+        .setOrigin(0, 0.5);
+
+      const reasonText = this.add
+        .text(140, rowY - 9, SNAPSHOT_REASON_LABELS[snapshot.reason], {
+          fontSize: "11px",
+          color: "#ffaa44",
+        })
+        .setOrigin(1, 0.5);
+
+      const statsText = this.add
+        .text(
+          -140,
+          rowY + 9,
+          `${summary.gold.toLocaleString()} gold · Ch ${summary.highestChapter} · Hero Lv ${heroLevels}`,
+          { fontSize: "11px", color: "#aaaaaa" },
+        )
+        .setOrigin(0, 0.5);
+
+      rowBg.on("pointerover", () => {
+        rowBg.setFillStyle(0x3a3a5e);
+      });
+
+      rowBg.on("pointerout", () => {
+        rowBg.setFillStyle(0x2a2a3e);
+      });
+
+      rowBg.on("pointerdown", () => {
+        audioManager.playMenuSelect();
+        close();
+        this.showRestoreConfirmation(width, snapshot);
+      });
+
+      dialog.add([rowBg, whenText, reasonText, statsText]);
+    });
+
+    const cancelBtn = this.createDialogButton(0, -top - 28, "Cancel", "#444444", "#666666", close);
+    dialog.add(cancelBtn);
+  }
+
+  private showRestoreConfirmation(width: number, snapshot: SaveSnapshot) {
+    const height = this.cameras.main.height;
+
+    // Overlay
+    const overlay = this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.8);
+    overlay.setDepth(100);
+    overlay.setInteractive(); // Block clicks through
+
+    // Dialog container
+    const dialog = this.add.container(width / 2, height / 2);
+    dialog.setDepth(101);
+
+    // Background
+    const bg = this.add.rectangle(0, 0, 280, 180, 0x222233);
+    bg.setStrokeStyle(2, 0xffaa44);
+
+    // Title
+    const title = this.add
+      .text(0, -60, "Restore Snapshot?", {
+        fontSize: "20px",
+        color: "#ffaa44",
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
+
+    // Warning text
+    const warning = this.add
+      .text(
+        0,
+        -15,
+        `Progress will be rolled back to\n${this.formatSnapshotTime(snapshot.takenAt)}.\nYour current progress is kept\nas a new snapshot.`,
+        {
+          fontSize: "13px",
+          color: "#ffffff",
+          align: "center",
+        },
+      )
+      .setOrigin(0.5);
+
+    const confirmBtn = this.createDialogButton(-60, 55, "RESTORE", "#cc7722", "#ff9933", () => {
+      try {
+        saveSnapshots.restore(snapshot.id);
+        // Restart from the main menu so every scene picks up the restored data
+        this.scene.start("MainMenuScene");
+      } catch (error) {
+        console.error("SettingsScene: Failed to restore snapshot:", error);
+        warning.setText(error instanceof Error ? error.message : "Restore failed");
+        warning.setColor("#ff4444");
+      }
+    });
+
+    const cancelBtn = this.createDialogButton(60, 55, "Cancel", "#444444", "#666666", () => {
+      overlay.destroy();
+      dialog.destroy();
+    });
+
+    dialog.add([bg, title, warning, confirmBtn, cancelBtn]);
+  }
+
+  private formatSnapshotTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleString(undefined, {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  }
+
   private createBackButton(_width: number, height: number) {
     createBackButton({
       scene: this,
@@ -0,0 +1,627 @@
+/**
+ * ShopScene - Spend gems on chests, energy and equipment
+ *
+ * Features:
+ * - Daily equipment deal (rarity and slot rotate at midnight)
+ * - Gem-priced chests and energy refills
+ * - Limited-stock bundles with remaining stock shown
+ * - Restock countdown and a ledger of recent purchases
+ */
+
+import Phaser from "phaser";
+import { shopManager, type ShopPurchaseRecord } from "../systems/ShopManager";
+import { equipmentManager } from "../systems/EquipmentManager";
+import { EquipmentSlotType, RARITY_CONFIGS } from "../systems/Equipment";
+import { audioManager } from "../systems/AudioManager";
+import * as UIAnimations from "../systems/UIAnimations";
+import {
+  DAILY_EQUIPMENT_OFFER_ID,
+  SHOP_CATEGORY_LABELS,
+  getShopDayKey,
+  getShopOffer,
+  getShopOffersByCategory,
+  type ShopCategory,
+  type ShopOffer,
+} from "../config/shopData";
+import { ScrollContainer } from "../ui/components/ScrollContainer";
+import { createBackButton, createBackButtonFooter } from "../ui/components/BackButton";
+import { createSceneHeader } from "../ui/components/SceneHeader";
+
+// Slot display names
+const SLOT_NAMES: Record<EquipmentSlotType, string> = {
+  weapon: "Weapon",
+  armor: "Armor",
+  ring: "Ring",
+  spirit: "Spirit",
+};
+
+// Slot icons (emoji fallback)
+const SLOT_ICONS: Record<EquipmentSlotType, string> = {
+  weapon: "🏹",
+  armor: "🛡️",
+  ring: "💍",
+  spirit: "👻",
+};
+
+const CATEGORY_ORDER: ShopCategory[] = ["chests", "energy", "bundles"];
+
+const BUY_BUTTON_COLOR = "#4a90d9";
+const SOLD_OUT_COLOR = "#555555";
+
+interface OfferCard {
+  offerId: string;
+  buyButton: Phaser.GameObjects.Text;
+  stockText: Phaser.GameObjects.Text;
+}
+
+export default class ShopScene extends Phaser.Scene {
+  private scrollContainer?: ScrollContainer;
+  private scrollBounds = { top: 120, bottom: 610 };
+  private headerRef?: { updateCurrency: () => void };
+  private timerText?: Phaser.GameObjects.Text;
+  private offerCards: OfferCard[] = [];
+  private dayKey = "";
+
+  // Ledger modal
+  private ledgerContainer: Phaser.GameObjects.Container | null = null;
+  private ledgerInputHandlers: Array<{ event: string; handler: (...args: never[]) => void }> = [];
+
+  constructor() {
+    super({ key: "ShopScene" });
+  }
+
+  create() {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+
+    this.offerCards = [];
+    this.ledgerContainer = null;
+    this.ledgerInputHandlers = [];
+    this.dayKey = getShopDayKey();
+
+    // Background (lowest depth)
+    this.add.rectangle(width / 2, height / 2, width, height, 0x1a1a2e).setDepth(0);
+
+    this.createHeader(width);
+    this.createOfferList(width);
+    this.createBackButtonSection(width, height);
+
+    this.updateOffers();
+  }
+
+  update() {
+    // Restock at midnight while the shop is open
+    if (getShopDayKey() !== this.dayKey) {
+      this.scene.restart();
+      return;
+    }
+    this.timerText?.setText(`Restocks in ${shopManager.getFormattedTimeUntilRefresh()}`);
+  }
+
+  private createHeader(width: number) {
+    // Header background to cover scroll content
+    this.add.rectangle(width / 2, 60, width, 120, 0x1a1a2e).setDepth(10);
+
+    this.headerRef = createSceneHeader({
+      scene: this,
+      title: "SHOP",
+      showCurrency: true,
+      currencyTypes: ["gems", "gold", "energy"],
+      y: 0,
+      titleFontSize: "24px",
+      depth: 11,
+      showBackground: false,
+    });
+
+    this.timerText = this.add
+      .text(15, 102, "", {
+        fontSize: "12px",
+        color: "#aaaaaa",
+      })
+      .setOrigin(0, 0.5)
+      .setDepth(11);
+
+    const ledgerBtn = this.add
+      .text(width - 15, 102, "🧾 Purchases", {
+        fontSize: "12px",
+        color: "#ffffff",
+        backgroundColor: "#444455",
+        padding: { x: 8, y: 4 },
+      })
+      .setOrigin(1, 0.5)
+      .setDepth(11)
+      .setInteractive({ useHandCursor: true });
+    ledgerBtn.on("pointerdown", () => {
+      if (this.ledgerContainer) return;
+      audioManager.playMenuSelect();
+      this.showLedger();
+    });
+  }
+
+  private createOfferList(width: number) {
+    this.scrollContainer = new ScrollContainer({
+      scene: this,
+      width,
+      bounds: this.scrollBounds,
+      depth: 1,
+    });
+
+    let currentY = this.scrollBounds.top + 10;
+
+    currentY = this.addSectionLabel("DAILY DEAL", currentY);
+    currentY = this.createDailyDealCard(width, currentY);
+
+    for (const category of CATEGORY_ORDER) {
+      currentY = this.addSectionLabel(SHOP_CATEGORY_LABELS[category], currentY + 6);
+      for (const offer of getShopOffersByCategory(category)) {
+        currentY = this.createOfferCard(width, currentY, offer);
+      }
+    }
+
+    this.scrollContainer.setContentHeight(currentY - this.scrollBounds.top + 10);
+  }
+
+  private addSectionLabel(label: string, y: number): number {
+    const text = this.add.text(15, y, label, {
+      fontSize: "13px",
+      color: "#FFD700",
+      fontStyle: "bold",
+    });
+    this.scrollContainer!.add(text);
+    return y + 22;
+  }
+
+  private createDailyDealCard(width: number, y: number): number {
+    const offer = shopManager.getDailyEquipmentOffer();
+    const rarityConfig = RARITY_CONFIGS[offer.rarity];
+    const rarityColor = parseInt(rarityConfig.color.replace("#", ""), 16);
+    const cardWidth = width - 30;
+    const cardHeight = 80;
+
+    const card = this.add.container(width / 2, y + cardHeight / 2);
+
+    const bg = this.add.rectangle(0, 0, cardWidth, cardHeight, 0x2a2a3e);
+    bg.setStrokeStyle(2, rarityColor);
+    card.add(bg);
+
+    const icon = this.add
+      .text(-cardWidth / 2 + 30, 0, SLOT_ICONS[offer.slot], { fontSize: "30px" })
+      .setOrigin(0.5);
+
+    const nameText = this.add
+      .text(-cardWidth / 2 + 60, -18, `${rarityConfig.name} ${SLOT_NAMES[offer.slot]}`, {
+        fontSize: "16px",
+        color: rarityConfig.color,
+        fontStyle: "bold",
+      })
+      .setOrigin(0, 0.5);
+
+    const perkLabel = rarityConfig.perkSlots === 1 ? "perk" : "perks";
+    const descText = this.add
+      .text(
+        -cardWidth / 2 + 60,
+        2,
+        `Random ${SLOT_NAMES[offer.slot].toLowerCase()}, ${rarityConfig.perkSlots} ${perkLabel}`,
+        {
+          fontSize: "11px",
+          color: "#aaaaaa",
+        },
+      )
+      .setOrigin(0, 0.5);
+
+    const stockText = this.add
+      .text(-cardWidth / 2 + 60, 22, "", {
+        fontSize: "10px",
+        color: "#ffaa44",
+      })
+      .setOrigin(0, 0.5);
+
+    const buyButton = this.createBuyButton(cardWidth / 2 - 45, 0, offer.gemCost, () =>
+      this.buyDailyDeal(),
+    );
+
+    card.add([icon, nameText, descText, stockText, buyButton]);
+    this.scrollContainer!.add(card);
+    this.offerCards.push({ offerId: DAILY_EQUIPMENT_OFFER_ID, buyButton, stockText });
+
+    return y + cardHeight + 8;
+  }
+
+  private createOfferCard(width: number, y: number, offer: ShopOffer): number {
+    const cardWidth = width - 30;
+    const cardHeight = 64;
+
+    const card = this.add.container(width / 2, y + cardHeight / 2);
+
+    const bg = this.add.rectangle(0, 0, cardWidth, cardHeight, 0x2a2a3e);
+    bg.setStrokeStyle(1, 0x3a3a4e);
+    card.add(bg);
+
+    const icon = this.add
+      .text(-cardWidth / 2 + 28, 0, offer.icon, { fontSize: "26px" })
+      .setOrigin(0.5);
+
+    const nameText = this.add
+      .text(-cardWidth / 2 + 55, -16, offer.name, {
+        fontSize: "14px",
+        color: "#ffffff",
+        fontStyle: "bold",
+      })
+      .setOrigin(0, 0.5);
+
+    const descText = this.add
+      .text(-cardWidth / 2 + 55, 2, offer.description, {
+        fontSize: "10px",
+        color: "#aaaaaa",
+        wordWrap: { width: cardWidth - 150 },
+      })
+      .setOrigin(0, 0.5);
+
+    const stockText = this.add
+      .text(-cardWidth / 2 + 55, 20, "", {
+        fontSize: "10px",
+        color: "#ffaa44",
+      })
+      .setOrigin(0, 0.5);
+
+    const buyButton = this.createBuyButton(cardWidth / 2 - 45, 0, offer.gemCost, () =>
+      this.buyOffer(offer),
+    );
+
+    card.add([icon, nameText, descText, stockText, buyButton]);
+    this.scrollContainer!.add(card);
+    this.offerCards.push({ offerId: offer.id, buyButton, stockText });
+
+    return y + cardHeight + 8;
+  }
+
+  private createBuyButton(
+    x: number,
+    y: number,
+    gemCost: number,
+    onBuy: () => void,
+  ): Phaser.GameObjects.Text {
+    const button = this.add
+      .text(x, y, `💎 ${gemCost}`, {
+        fontSize: "13px",
+        color: "#ffffff",
+        backgroundColor: BUY_BUTTON_COLOR,
+        padding: { x: 10, y: 6 },
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+
+    // Use pointerup so a drag-scroll does not buy, and ignore taps on
+    // buttons scrolled out of the visible area
+    button.on("pointerup", (pointer: Phaser.Input.Pointer) => {
+      const inScrollArea =
+        pointer.y >= this.scrollBounds.top && pointer.y <= this.scrollBounds.bottom;
+      if (!inScrollArea || this.scrollContainer?.isDragScrolling() || this.ledgerContainer) {
+        return;
+      }
+      onBuy();
+    });
+
+    return button;
+  }
+
+  /**
+   * Refresh stock labels and buy buttons
+   */
+  private updateOffers() {
+    for (const card of this.offerCards) {
+      const remaining = shopManager.getRemainingStock(card.offerId);
+      const offer = getShopOffer(card.offerId);
+      const soldOut = remaining === 0;
+
+      if (card.offerId === DAILY_EQUIPMENT_OFFER_ID) {
+        card.stockText.setText(soldOut ? "Bought today - new deal at midnight" : "1 per day");
+      } else if (remaining === null || !offer) {
+        card.stockText.setText("");
+      } else if (offer.restock === "never") {
+        card.stockText.setText(`${remaining} left (one-time offer)`);
+      } else {
+        card.stockText.setText(`${remaining}/${offer.stock} left today`);
+      }
+
+      if (soldOut) {
+        card.buyButton.setText("SOLD OUT");
+        card.buyButton.setStyle({ backgroundColor: SOLD_OUT_COLOR });
+        card.buyButton.disableInteractive();
+      }
+    }
+  }
+
+  private buyOffer(offer: ShopOffer) {
+    const result = shopManager.purchase(offer.id);
+    if (!result.success) {
+      this.showPurchasePopup(result.error ?? "Purchase failed", "", "#ff6666");
+      return;
+    }
+
+    audioManager.playLevelUp();
+    this.showPurchasePopup("Purchased!", offer.description, "#44aa44");
+    this.headerRef?.updateCurrency();
+    this.updateOffers();
+  }
+
+  private buyDailyDeal() {
+    const result = shopManager.purchaseDailyEquipmentOffer((rarity, slot) =>
+      equipmentManager.generateRandomEquipment(rarity, slot),
+    );
+    if (!result.success || !result.item) {
+      this.showPurchasePopup(result.error ?? "Purchase failed", "", "#ff6666");
+      return;
+    }
+
+    audioManager.playLevelUp();
+    this.showPurchasePopup(
+      "Purchased!",
+      `${result.item.name} added to inventory`,
+      RARITY_CONFIGS[result.item.rarity].color,
+    );
+    this.headerRef?.updateCurrency();
+    this.updateOffers();
+  }
+
+  private showPurchasePopup(title: string, message: string, color: string) {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+
+    const popup = this.add.container(width / 2, height / 2);
+    popup.setDepth(100);
+
+    const bg = this.add.rectangle(0, 0, 260, message ? 80 : 50, 0x1a1a2e);
+    bg.setStrokeStyle(2, parseInt(color.replace("#", ""), 16));
+
+    const titleText = this.add
+      .text(0, message ? -18 : 0, title, {
+        fontSize: "16px",
+        color,
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
+    popup.add([bg, titleText]);
+
+    if (message) {
+      const messageText = this.add
+        .text(0, 12, message, {
+          fontSize: "12px",
+          color: "#ffffff",
+          align: "center",
+          wordWrap: { width: 240 },
+        })
+        .setOrigin(0.5);
+      popup.add(messageText);
+    }
+
+    popup.setScale(0.5);
+    popup.setAlpha(0);
+
+    this.tweens.add({
+      targets: popup,
+      scale: 1,
+      alpha: 1,
+      duration: 200,
+      ease: "Back.easeOut",
+    });
+
+    this.time.delayedCall(1500, () => {
+      this.tweens.add({
+        targets: popup,
+        alpha: 0,
+        y: popup.y - 30,
+        duration: 300,
+        onComplete: () => popup.destroy(),
+      });
+    });
+  }
+
+  // ============================================
+  // Purchase Ledger
+  // ============================================
+
+  private showLedger(): void {
+    const { width, height } = this.cameras.main;
+    const ledger = shopManager.getLedger();
+
+    const overlay = this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.85);
+    overlay.setDepth(100);
+    overlay.setInteractive();
+
+    this.ledgerContainer = this.add.container(width / 2, height / 2);
+    this.ledgerContainer.setDepth(101);
+
+    const panelWidth = 330;
+    const panelHeight = 540;
+    const panel = this.add.rectangle(0, 0, panelWidth, panelHeight, 0x1a1a2e, 1);
+    panel.setStrokeStyle(2, 0x666677);
+    this.ledgerContainer.add(panel);
+
+    const headerText = this.add
+      .text(0, -panelHeight / 2 + 28, "PURCHASES", {
+        fontSize: "20px",
+        color: "#ffffff",
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
+    this.ledgerContainer.add(headerText);
+
+    const summary =
+      ledger.length === 0
+        ? "No purchases yet"
+        : `Last ${ledger.length} purchases • 💎 ${shopManager.getLedgerGemsSpent()} spent`;
+    const summaryText = this.add
+      .text(0, -panelHeight / 2 + 58, summary, {
+        fontSize: "11px",
+        color: "#aaaaaa",
+      })
+      .setOrigin(0.5);
+    this.ledgerContainer.add(summaryText);
+
+    // Scrollable list
+    const listTop = -panelHeight / 2 + 80;
+    const listHeight = panelHeight - 80 - 70;
+    const rowHeight = 26;
+
+    const maskGraphics = this.add.graphics();
+    maskGraphics.fillStyle(0xffffff);
+    maskGraphics.fillRect(0, height / 2 + listTop, width, listHeight);
+    maskGraphics.setVisible(false);
+    const mask = new Phaser.Display.Masks.GeometryMask(this, maskGraphics);
+
+    const listContainer = this.add.container(0, listTop);
+    listContainer.setMask(mask);
+    this.ledgerContainer.add(listContainer);
+
+    ledger.forEach((record, index) => {
+      listContainer.add(
+        this.createLedgerRow(record, index * rowHeight + rowHeight / 2, panelWidth),
+      );
+    });
+
+    const maxScroll = Math.max(0, ledger.length * rowHeight - listHeight);
+    if (maxScroll > 0) {
+      let scrollY = 0;
+      let isDragging = false;
+      let lastPointerY = 0;
+
+      const dragZone = this.add.rectangle(
+        0,
+        listTop + listHeight / 2,
+        panelWidth,
+        listHeight,
+        0,
+        0,
+      );
+      dragZone.setInteractive();
+      this.ledgerContainer.add(dragZone);
+
+      dragZone.on("pointerdown", (pointer: Phaser.Input.Pointer) => {
+        isDragging = true;
+        lastPointerY = pointer.y;
+      });
+
+      // Removed by reference on close - the ScrollContainer behind the modal
+      // listens to the same scene input events
+      const onPointerMove = (pointer: Phaser.Input.Pointer) => {
+        if (isDragging) {
+          scrollY = Phaser.Math.Clamp(scrollY - (pointer.y - lastPointerY), 0, maxScroll);
+          listContainer.y = listTop - scrollY;
+          lastPointerY = pointer.y;
+        }
+      };
+      const onPointerUp = () => {
+        isDragging = false;
+      };
+      const onWheel = (
+        _pointer: Phaser.Input.Pointer,
+        _gameObjects: Phaser.GameObjects.GameObject[],
+        _deltaX: number,
+        deltaY: number,
+      ) => {
+        scrollY = Phaser.Math.Clamp(scrollY + deltaY * 0.5, 0, maxScroll);
+        listContainer.y = listTop - scrollY;
+      };
+
+      this.input.on("pointermove", onPointerMove);
+      this.input.on("pointerup", onPointerUp);
+      this.input.on("wheel", onWheel);
+      this.ledgerInputHandlers = [
+        { event: "pointermove", handler: onPointerMove },
+        { event: "pointerup", handler: onPointerUp },
+        { event: "wheel", handler: onWheel },
+      ];
+    }
+
+    const closeBtn = this.add
+      .text(0, panelHeight / 2 - 35, "CLOSE", {
+        fontSize: "18px",
+        color: "#ffffff",
+        backgroundColor: "#666677",
+        padding: { x: 40, y: 12 },
+      })
+      .setOrigin(0.5);
+    closeBtn.setInteractive({ useHandCursor: true });
+    closeBtn.on("pointerdown", () => {
+      audioManager.playMenuSelect();
+      this.closeLedger(overlay, maskGraphics);
+    });
+    UIAnimations.applyButtonEffects(this, closeBtn);
+    this.ledgerContainer.add(closeBtn);
+
+    UIAnimations.showModal(this, this.ledgerContainer);
+  }
+
+  private createLedgerRow(
+    record: ShopPurchaseRecord,
+    y: number,
+    panelWidth: number,
+  ): Phaser.GameObjects.Container {
+    const row = this.add.container(0, y);
+    const left = -panelWidth / 2 + 15;
+
+    const date = new Date(record.purchasedAt);
+    const dateStr = date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+    const dateText = this.add
+      .text(left, 0, dateStr, {
+        fontSize: "11px",
+        color: "#777788",
+      })
+      .setOrigin(0, 0.5);
+
+    let name = record.name;
+    if (name.length > 22) {
+      name = name.substring(0, 21) + "...";
+    }
+    const nameText = this.add
+      .text(left + 55, 0, name, {
+        fontSize: "11px",
+        color: record.offerId === DAILY_EQUIPMENT_OFFER_ID ? "#ffcc66" : "#dddddd",
+      })
+      .setOrigin(0, 0.5);
+
+    const costText = this.add
+      .text(panelWidth / 2 - 15, 0, `💎 ${record.gemCost}`, {
+        fontSize: "11px",
+        color: "#66ccff",
+        fontStyle: "bold",
+      })
+      .setOrigin(1, 0.5);
+
+    row.add([dateText, nameText, costText]);
+    return row;
+  }
+
+  private closeLedger(
+    overlay: Phaser.GameObjects.Rectangle,
+    maskGraphics: Phaser.GameObjects.Graphics,
+  ): void {
+    this.removeLedgerInputHandlers();
+
+    this.ledgerContainer?.destroy();
+    this.ledgerContainer = null;
+    maskGraphics.destroy();
+    overlay.destroy();
+  }
+
+  private removeLedgerInputHandlers(): void {
+    for (const { event, handler } of this.ledgerInputHandlers) {
+      this.input.off(event, handler);
+    }
+    this.ledgerInputHandlers = [];
+  }
+
+  private createBackButtonSection(width: number, height: number) {
+    createBackButtonFooter(this, width, height, 50, 0x1a1a2e, 20);
+
+    createBackButton({
+      scene: this,
+      x: width / 2,
+      y: height - 25,
+      targetScene: "MainMenuScene",
+      depth: 20,
+    });
+  }
+}
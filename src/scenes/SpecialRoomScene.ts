@@ -0,0 +1,172 @@
+import Phaser from "phaser";
+import { audioManager } from "../systems/AudioManager";
+import { DURATION, EASING } from "../systems/UIAnimations";
+import { ABILITIES } from "../config/abilityData";
+import type { SpecialRoomChoice, SpecialRoomOffer } from "../config/specialRoomData";
+
+export interface SpecialRoomData {
+  offer: SpecialRoomOffer;
+  maxHealth: number;
+}
+
+/**
+ * SpecialRoomScene - Angel/devil choice overlay, launched over GameScene
+ * when the player reaches the room's NPC. Emits "specialRoomChoice" on the
+ * game events with the picked choice id.
+ */
+export default class SpecialRoomScene extends Phaser.Scene {
+  private offer!: SpecialRoomOffer;
+  private maxHealth: number = 100;
+  private isSelecting: boolean = false;
+  private modalContainer!: Phaser.GameObjects.Container;
+
+  constructor() {
+    super({ key: "SpecialRoomScene" });
+  }
+
+  init(data: SpecialRoomData) {
+    this.offer = data.offer;
+    this.maxHealth = data.maxHealth;
+    this.isSelecting = false;
+  }
+
+  create() {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+    const isDevil = this.offer.roomType === "devil";
+
+    this.input.enabled = true;
+    this.scene.bringToTop();
+
+    // Dark overlay
+    const bg = this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0);
+    bg.setInteractive();
+    bg.setDepth(-1);
+    this.tweens.add({
+      targets: bg,
+      alpha: 0.8,
+      duration: DURATION.FAST,
+      ease: EASING.EASE_OUT,
+    });
+
+    // Modal
+    const modalWidth = width - 40;
+    const modalHeight = 100 + this.offer.choices.length * 80;
+    this.modalContainer = this.add.container(width / 2, height / 2);
+    this.modalContainer.setDepth(10);
+    this.modalContainer.setScale(0.8);
+    this.modalContainer.setAlpha(0);
+
+    const accent = isDevil ? 0xcc2244 : 0xffdd66;
+    const modalBg = this.add.graphics();
+    modalBg.fillStyle(isDevil ? 0x2a0f16 : 0x1a1a2e, 0.98);
+    modalBg.fillRoundedRect(-modalWidth / 2, -modalHeight / 2, modalWidth, modalHeight, 16);
+    modalBg.lineStyle(2, accent, 1);
+    modalBg.strokeRoundedRect(-modalWidth / 2, -modalHeight / 2, modalWidth, modalHeight, 16);
+    this.modalContainer.add(modalBg);
+
+    const title = this.add
+      .text(0, -modalHeight / 2 + 30, isDevil ? "😈 DEVIL" : "😇 ANGEL", {
+        fontSize: "24px",
+        color: isDevil ? "#ff4466" : "#ffdd66",
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
+    title.setStroke("#000000", 3);
+    this.modalContainer.add(title);
+
+    const subtitle = this.add
+      .text(0, -modalHeight / 2 + 56, isDevil ? "A power... for a price" : "Choose a blessing", {
+        fontSize: "12px",
+        color: "#aaaaaa",
+      })
+      .setOrigin(0.5);
+    this.modalContainer.add(subtitle);
+
+    const cardWidth = modalWidth - 30;
+    const startY = -modalHeight / 2 + 110;
+    this.offer.choices.forEach((choice, index) => {
+      this.createChoiceCard(choice, startY + index * 80, cardWidth, accent);
+    });
+
+    this.tweens.add({
+      targets: this.modalContainer,
+      scale: 1,
+      alpha: 1,
+      duration: 200,
+      ease: "Back.easeOut",
+    });
+  }
+
+  private createChoiceCard(
+    choice: SpecialRoomChoice,
+    y: number,
+    cardWidth: number,
+    accent: number,
+  ): void {
+    const { label, description } = this.describeChoice(choice);
+    const isDecline = choice.kind === "decline";
+
+    const card = this.add.rectangle(0, y, cardWidth, 64, isDecline ? 0x222222 : 0x2a2a3e);
+    card.setStrokeStyle(2, isDecline ? 0x555555 : accent);
+    card.setInteractive({ useHandCursor: true });
+    this.modalContainer.add(card);
+
+    const labelText = this.add
+      .text(0, y - 12, label, {
+        fontSize: "16px",
+        color: isDecline ? "#aaaaaa" : "#ffffff",
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
+    const descriptionText = this.add
+      .text(0, y + 12, description, {
+        fontSize: "11px",
+        color: choice.kind === "devilDeal" ? "#ff8899" : "#aaaaaa",
+      })
+      .setOrigin(0.5);
+    this.modalContainer.add([labelText, descriptionText]);
+
+    card.on("pointerover", () => card.setFillStyle(isDecline ? 0x333333 : 0x3a3a55));
+    card.on("pointerout", () => card.setFillStyle(isDecline ? 0x222222 : 0x2a2a3e));
+    card.on("pointerdown", () => this.selectChoice(choice.id));
+  }
+
+  private describeChoice(choice: SpecialRoomChoice): { label: string; description: string } {
+    const ability = ABILITIES.find((a) => a.id === choice.abilityId);
+    switch (choice.kind) {
+      case "heal": {
+        const amount = Math.floor(this.maxHealth * (choice.healPercent ?? 0));
+        return { label: "Heal", description: `Restore ${amount} HP` };
+      }
+      case "ability":
+        return { label: ability?.name ?? "Ability", description: ability?.description ?? "" };
+      case "devilDeal":
+        return {
+          label: ability?.name ?? "Devil Ability",
+          description: `${ability?.description ?? ""} • Costs ${choice.maxHealthCost} max HP`,
+        };
+      case "decline":
+        return { label: "Walk away", description: "Keep your max HP" };
+    }
+  }
+
+  private selectChoice(choiceId: string) {
+    if (this.isSelecting) return;
+    this.isSelecting = true;
+    audioManager.playAbilitySelect();
+
+    this.tweens.add({
+      targets: this.modalContainer,
+      alpha: 0,
+      scale: 0.9,
+      duration: 150,
+      ease: "Power2.easeIn",
+      onComplete: () => {
+        // Emit before stopping, like LevelUpScene, so the choice is always delivered
+        this.game.events.emit("specialRoomChoice", { choiceId });
+        this.scene.stop("SpecialRoomScene");
+      },
+    });
+  }
+}
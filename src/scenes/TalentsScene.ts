@@ -6,13 +6,17 @@ import { TalentId, TalentTier, Talent, TALENTS, TIER_NAMES } from "../config/tal
 import { ScrollContainer } from "../ui/components/ScrollContainer";
 import { createBackButton } from "../ui/components/BackButton";
 import { hapticManager } from "../systems/HapticManager";
+import { saveManager } from "../systems/SaveManager";
+import { TalentTreeView } from "../ui/components/TalentTreeView";
+import { TalentTreeNodeId, getTreeNode } from "../config/talentTreeData";
 
 /**
- * TalentsScene - UI for the talent lottery system
+ * TalentsScene - UI for the talent lottery and the talent tree
  *
  * Features:
  * - Spin button to perform lottery spins
  * - Display of all talents with their current levels
+ * - Mode toggle to the talent tree (pan/zoom view, talent points, respec)
  * - Total bonus display at bottom
  * - Spin animation with visual feedback
  *
@@ -26,6 +30,9 @@ export default class TalentsScene extends Phaser.Scene {
   private goldText?: Phaser.GameObjects.Text;
   private talentCards: Map<TalentId, Phaser.GameObjects.Container> = new Map();
   private bonusTexts: Phaser.GameObjects.Text[] = [];
+  private bonusTitle?: Phaser.GameObjects.Text;
+  private modeButton?: Phaser.GameObjects.Text;
+  private treeView?: TalentTreeView;
 
   // Scroll container (using reusable component)
   private scrollContainer?: ScrollContainer;
@@ -62,6 +69,15 @@ export default class TalentsScene extends Phaser.Scene {
     // Talent grid
     this.createTalentGrid(width, height);
 
+    // Talent tree (shown instead of the lottery in tree mode)
+    this.treeView = new TalentTreeView({
+      scene: this,
+      top: 68,
+      bottom: this.scrollBounds.bottom,
+      onUnlockNode: (nodeId) => this.unlockTreeNode(nodeId),
+      onRespec: () => this.respecTree(),
+    });
+
     // Bonus display at bottom
     this.createBonusDisplay(width, height);
 
@@ -74,6 +90,7 @@ export default class TalentsScene extends Phaser.Scene {
     });
 
     // Initial update
+    this.applyMode();
     this.updateUI();
   }
 
@@ -94,6 +111,73 @@ export default class TalentsScene extends Phaser.Scene {
         color: "#FFD700",
       })
       .setOrigin(1, 0.5);
+
+    // Mode toggle (top left) - names the mode it switches to
+    this.modeButton = this.add
+      .text(15, 30, "", {
+        fontSize: "12px",
+        color: "#ffffff",
+        backgroundColor: "#333355",
+        padding: { x: 8, y: 4 },
+        fontStyle: "bold",
+      })
+      .setOrigin(0, 0.5)
+      .setInteractive({ useHandCursor: true });
+    this.modeButton.on("pointerdown", () => {
+      if (this.isSpinning) return;
+      audioManager.playMenuSelect();
+      talentManager.setMode(talentManager.getMode() === "tree" ? "lottery" : "tree");
+      this.applyMode();
+      this.updateUI();
+    });
+  }
+
+  /**
+   * Show the lottery or the tree for the active talent mode
+   */
+  private applyMode() {
+    const isTree = talentManager.getMode() === "tree";
+
+    this.modeButton?.setText(isTree ? "🎰 LOTTERY" : "🌳 TREE");
+    this.bonusTitle?.setText(isTree ? "TOTAL BONUSES (TREE)" : "TOTAL BONUSES");
+
+    this.spinButton?.setVisible(!isTree);
+    this.spinsRemainingText?.setVisible(!isTree);
+    this.scrollContainer?.getContainer().setVisible(!isTree);
+    this.treeView?.setVisible(isTree);
+  }
+
+  private unlockTreeNode(nodeId: TalentTreeNodeId) {
+    const result = talentManager.unlockTreeNode(nodeId, saveManager.getTalentPoints(), (amount) =>
+      saveManager.spendTalentPoints(amount),
+    );
+
+    if (result.success && result.newRank !== undefined) {
+      audioManager.playLevelUp();
+      hapticManager.light();
+      this.showMessage(`${getTreeNode(nodeId).name} rank ${result.newRank}!`, "#44ff44");
+    } else {
+      this.showMessage(result.error ?? "Can't unlock talent", "#ff4444");
+    }
+
+    this.updateUI();
+  }
+
+  private respecTree() {
+    const result = talentManager.respecTree(
+      currencyManager.get("gold"),
+      (amount) => currencyManager.spend("gold", amount),
+      (points) => saveManager.addTalentPoints(points),
+    );
+
+    if (result.success) {
+      audioManager.playMenuSelect();
+      this.showMessage(`Refunded ${result.pointsRefunded} talent points`, "#44ff44");
+    } else {
+      this.showMessage(result.error ?? "Respec failed", "#ff4444");
+    }
+
+    this.updateUI();
   }
 
   private createSpinSection(width: number) {
@@ -277,7 +361,7 @@ export default class TalentsScene extends Phaser.Scene {
     this.add.rectangle(width / 2, bonusY + 20, width - 20, 70, 0x2a2a3e, 0.8);
 
     // Title
-    this.add
+    this.bonusTitle = this.add
       .text(width / 2, bonusY - 10, "TOTAL BONUSES", {
         fontSize: "11px",
         color: "#888888",
@@ -1053,6 +1137,7 @@ export default class TalentsScene extends Phaser.Scene {
       text.setColor(value > 0 ? "#44ff44" : "#555555");
     });
 
+    this.treeView?.refresh();
     this.updateSpinButtonState();
   }
 
@@ -1,7 +1,8 @@
 import Phaser from "phaser";
 import { THEME_COLORS } from "../config/themeData";
-import { ABILITIES, type AbilityData } from "./LevelUpScene";
+import { getAbilityById, type AbilityData } from "../config/abilityData";
 import { DifficultyLevel, DIFFICULTY_CONFIGS } from "../config/difficulty";
+import { formatBossRushTime } from "../config/bossRushData";
 import { performanceMonitor } from "../systems/PerformanceMonitor";
 import { saveManager, type GameSpeedMultiplier } from "../systems/SaveManager";
 
@@ -29,6 +30,16 @@ export default class UIScene extends Phaser.Scene {
   private bossNameText!: Phaser.GameObjects.Text;
   private bossHealthContainer!: Phaser.GameObjects.Container;
 
+  // Boss Rush fight timer (hidden outside Boss Rush)
+  private bossRushTimerText!: Phaser.GameObjects.Text;
+
+  // Hero skill button (hidden until the hero's skill is known)
+  private heroSkillButton!: Phaser.GameObjects.Container;
+  private heroSkillBg!: Phaser.GameObjects.Arc;
+  private heroSkillCooldownOverlay!: Phaser.GameObjects.Graphics;
+  private heroSkillCooldownText!: Phaser.GameObjects.Text;
+  private readonly HERO_SKILL_BUTTON_RADIUS = 24;
+
   // HUD container for toggling visibility
   private hudContainer!: Phaser.GameObjects.Container;
   private isHudVisible: boolean = true;
@@ -117,6 +128,20 @@ export default class UIScene extends Phaser.Scene {
     // === BOSS HEALTH BAR ===
     this.createBossHealthBar(width, height);
 
+    // === HERO SKILL BUTTON (bottom right) ===
+    this.createHeroSkillButton(width, height);
+
+    // === BOSS RUSH TIMER (below score) ===
+    this.bossRushTimerText = this.add.text(width / 2, 56, "", {
+      fontSize: "12px",
+      color: "#ffffff",
+      fontStyle: "bold",
+    });
+    this.bossRushTimerText.setOrigin(0.5);
+    this.bossRushTimerText.setStroke("#000000", 2);
+    this.bossRushTimerText.setVisible(false);
+    this.hudContainer.add(this.bossRushTimerText);
+
     // === NOTIFICATION AREA ===
     this.notificationContainer = this.add.container(width / 2, 70);
     this.notificationContainer.setDepth(100);
@@ -418,6 +443,89 @@ export default class UIScene extends Phaser.Scene {
     this.updateSpeedDisplay(1);
   }
 
+  /**
+   * Create the hero skill button above the bottom-right corner
+   * Tapping it asks GameScene to use the skill (same as the SPACE key)
+   */
+  private createHeroSkillButton(width: number, height: number) {
+    const radius = this.HERO_SKILL_BUTTON_RADIUS;
+    this.heroSkillButton = this.add.container(width - 40, height - 110);
+    this.heroSkillButton.setDepth(50);
+    this.heroSkillButton.setVisible(false);
+
+    this.heroSkillBg = this.add.circle(0, 0, radius, 0x000000, 0.6);
+    this.heroSkillBg.setStrokeStyle(2, 0xffdd00);
+    this.heroSkillButton.add(this.heroSkillBg);
+
+    const icon = this.add.text(0, 0, "", { fontSize: "22px" }).setOrigin(0.5);
+    icon.setName("icon");
+    this.heroSkillButton.add(icon);
+
+    this.heroSkillCooldownOverlay = this.add.graphics();
+    this.heroSkillButton.add(this.heroSkillCooldownOverlay);
+
+    this.heroSkillCooldownText = this.add
+      .text(0, 0, "", {
+        fontSize: "14px",
+        color: "#ffffff",
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
+    this.heroSkillCooldownText.setStroke("#000000", 3);
+    this.heroSkillButton.add(this.heroSkillCooldownText);
+
+    // Make container interactive with explicit hit area (per CLAUDE.md pattern)
+    this.heroSkillButton.setInteractive(
+      new Phaser.Geom.Circle(0, 0, radius),
+      Phaser.Geom.Circle.Contains,
+    );
+    this.heroSkillButton.input!.cursor = "pointer";
+
+    this.heroSkillButton.on("pointerdown", () => {
+      this.game.events.emit("heroSkillRequested");
+    });
+  }
+
+  private initHeroSkill(icon: string, name: string) {
+    const iconText = this.heroSkillButton.getByName("icon") as Phaser.GameObjects.Text;
+    iconText.setText(icon);
+    this.heroSkillButton.setVisible(true);
+    this.updateHeroSkillCooldown(0, 1);
+    console.log(`UIScene: Hero skill ${name} ready`);
+  }
+
+  /**
+   * Draw the remaining cooldown as a shrinking pie over the button
+   */
+  private updateHeroSkillCooldown(remainingMs: number, cooldownMs: number) {
+    const radius = this.HERO_SKILL_BUTTON_RADIUS;
+    const fraction = cooldownMs > 0 ? Math.min(1, remainingMs / cooldownMs) : 0;
+
+    this.heroSkillCooldownOverlay.clear();
+    if (fraction > 0) {
+      const start = -Math.PI / 2;
+      this.heroSkillCooldownOverlay.fillStyle(0x000000, 0.6);
+      this.heroSkillCooldownOverlay.slice(0, 0, radius, start, start + fraction * Math.PI * 2);
+      this.heroSkillCooldownOverlay.fillPath();
+    }
+
+    this.heroSkillCooldownText.setText(fraction > 0 ? `${Math.ceil(remainingMs / 1000)}` : "");
+    this.heroSkillBg.setStrokeStyle(2, fraction > 0 ? 0x666666 : 0xffdd00);
+  }
+
+  /**
+   * Pulse the hero skill button when the skill fires
+   */
+  private flashHeroSkillButton() {
+    this.heroSkillButton.setScale(1.2);
+    this.tweens.add({
+      targets: this.heroSkillButton,
+      scale: 1,
+      duration: 200,
+      ease: "Back.easeOut",
+    });
+  }
+
   /**
    * Create skills bar at the bottom with pre-allocated slots for performance
    */
@@ -557,6 +665,20 @@ export default class UIScene extends Phaser.Scene {
       this.hideBossHealthBar();
     });
 
+    // Boss Rush fight timer
+    this.events.on("updateBossRushTimer", (elapsedMs: number, bestMs: number | null) => {
+      this.updateBossRushTimer(elapsedMs, bestMs);
+    });
+
+    // Hero skill button
+    this.events.on("initHeroSkill", (icon: string, name: string) => {
+      this.initHeroSkill(icon, name);
+    });
+    this.events.on("updateHeroSkillCooldown", (remainingMs: number, cooldownMs: number) => {
+      this.updateHeroSkillCooldown(remainingMs, cooldownMs);
+    });
+    this.events.on("heroSkillUsed", () => this.flashHeroSkillButton());
+
     // HUD visibility
     this.events.on("roomCleared", () => this.fadeOutHUD());
     this.events.on("roomEntered", () => this.fadeInHUD());
@@ -800,6 +922,13 @@ export default class UIScene extends Phaser.Scene {
     }
   }
 
+  private updateBossRushTimer(elapsedMs: number, bestMs: number | null) {
+    const best = bestMs !== null ? ` / PB ${formatBossRushTime(bestMs)}` : "";
+    this.bossRushTimerText.setText(`⏱ ${formatBossRushTime(elapsedMs)}${best}`);
+    this.bossRushTimerText.setColor(bestMs !== null && elapsedMs > bestMs ? "#ff6666" : "#ffffff");
+    this.bossRushTimerText.setVisible(true);
+  }
+
   /**
    * Queue a notification to show
    */
@@ -937,7 +1066,7 @@ export default class UIScene extends Phaser.Scene {
       if (!slot) continue;
 
       const acquired = abilities[index];
-      const abilityData = acquired ? ABILITIES.find((a) => a.id === acquired.id) : null;
+      const abilityData = acquired ? getAbilityById(acquired.id) : null;
 
       if (acquired && abilityData) {
         const row = Math.floor(index / this.SKILLS_PER_ROW);
@@ -1012,6 +1141,10 @@ export default class UIScene extends Phaser.Scene {
     this.events.off("showBossHealth");
     this.events.off("updateBossHealth");
     this.events.off("hideBossHealth");
+    this.events.off("updateBossRushTimer");
+    this.events.off("initHeroSkill");
+    this.events.off("updateHeroSkillCooldown");
+    this.events.off("heroSkillUsed");
     this.events.off("roomCleared");
     this.events.off("roomEntered");
     this.events.off("showAutoLevelUp");
@@ -37,121 +37,13 @@ export class AbilitySystem {
    * Apply an ability to the player
    */
   applyAbility(abilityId: string): void {
-    switch (abilityId) {
-      // Original 8 abilities
-      case "front_arrow":
-        this.player.addFrontArrow();
-        break;
-      case "multishot":
-        this.player.addMultishot();
-        break;
-      case "attack_speed":
-        this.player.addAttackSpeedBoost(0.25); // +25%
-        break;
-      case "attack_boost":
-        this.player.addDamageBoost(0.3); // +30%
-        break;
-      case "piercing":
-        this.player.addPiercing();
-        break;
-      case "ricochet":
-        this.player.addRicochet();
-        break;
-      case "fire_damage":
-        this.player.addFireDamage();
-        break;
-      case "crit_boost":
-        this.player.addCritBoost();
-        break;
-
-      // New V1 abilities
-      case "ice_shot":
-        this.player.addIceShot();
-        break;
-      case "poison_shot":
-        this.player.addPoisonShot();
-        break;
-      case "lightning_chain":
-        this.player.addLightningChain();
-        break;
-      case "diagonal_arrows":
-        this.player.addDiagonalArrows();
-        break;
-      case "bloodthirst":
-        this.player.addBloodthirst();
-        break;
-      case "speed_boost":
-        this.player.addSpeedBoost();
-        break;
-      case "max_health":
-        this.player.addMaxHealthBoost();
-        break;
-      case "dodge_master":
-        this.player.addDodgeMaster();
-        break;
-
-      // Devil abilities
-      case "extra_life":
-        this.player.addExtraLife();
-        break;
-      case "through_wall":
-        this.player.addThroughWall();
-        break;
-
-      // Note: Shatter and Fire Spread are now passive effects of Ice Shot and Fire Damage
-      case "bleed":
-        this.player.addBleed();
-        break;
-
-      // New orbital and effect abilities
-      case "rotating_orbs":
-        this.player.addRotatingOrbs();
-        break;
-      case "orbital_shields":
-        this.player.addOrbitalShields();
-        break;
-      case "spirit_pets":
-        this.player.addSpiritPets();
-        break;
-      case "death_nova":
-        this.player.addDeathNova();
-        break;
-      case "homing_arrows":
-        this.player.addHomingArrows();
-        break;
-      case "explosive_arrows":
-        this.player.addExplosiveArrows();
-        break;
-      case "shield_barrier":
-        this.player.addShieldBarrier();
-        break;
-      case "knockback":
-        this.player.addKnockback();
-        break;
-
-      // Game modifier abilities
-      case "ascetic":
-        this.player.addAscetic();
-        break;
-      case "horde_magnet":
-        this.player.addHordeMagnet();
-        break;
-
-      // Movement abilities
-      case "mobile_fire":
-        this.player.addMobileFire();
-        break;
-
-      // Glass Cannon ability
-      case "glass_cannon":
-        this.player.addGlassCannon();
-        break;
-    }
-
-    this.abilitiesGained++;
-
     // Track ability with its level
     const currentLevel = this.acquiredAbilities.get(abilityId) || 0;
+
+    // Effects are declared in abilityData.ts and applied by AbilityEffectRegistry
+    this.player.applyAbility(abilityId, currentLevel + 1);
+
+    this.abilitiesGained++;
     this.acquiredAbilities.set(abilityId, currentLevel + 1);
 
     // Notify about ability update
@@ -0,0 +1,217 @@
+import Phaser from "phaser";
+import Player from "../../entities/Player";
+import { bossRushManager, type BossRushSplitResult } from "../../systems/BossRushManager";
+import { chapterManager } from "../../systems/ChapterManager";
+import { getBossDefinition, type BossId } from "../../config/bossData";
+import type { ChapterId } from "../../config/chapterData";
+import {
+  BOSS_RUSH_HEAL_PERCENT,
+  BOSS_RUSH_INTERMISSION_DELAY_MS,
+  formatBossRushTime,
+} from "../../config/bossRushData";
+
+/**
+ * Event handlers interface for BossRushRoomManager callbacks
+ */
+export interface BossRushRoomEventHandlers {
+  /** Fight timer tick (time spent on the current boss and its personal best) */
+  onBossRushTimer: (elapsedMs: number, bestMs: number | null) => void;
+  /** Boss defeated and the next fight is coming - offer an ability pick */
+  onBossRushIntermission: () => void;
+  onChapterChanged: (newChapter: ChapterId) => void;
+}
+
+/**
+ * Configuration for BossRushRoomManager initialization
+ */
+export interface BossRushRoomManagerConfig {
+  scene: Phaser.Scene;
+  player: Player;
+  /** Bosses to fight, one per room */
+  lineup: BossId[];
+  eventHandlers: BossRushRoomEventHandlers;
+}
+
+/**
+ * BossRushRoomManager - Runs the boss rooms of a Boss Rush
+ *
+ * Owned by RoomManager (like SpecialRoomManager). Every room of a rush is a boss
+ * room; this picks its boss, times the fight, records the split with
+ * BossRushManager and runs the intermission (partial heal, then an ability pick)
+ * before the next boss. The fight clock is the game scene's clock, so pausing
+ * the game also pauses the split.
+ */
+export class BossRushRoomManager {
+  private scene: Phaser.Scene;
+  private player: Player;
+  private lineup: BossId[];
+  private eventHandlers: BossRushRoomEventHandlers;
+
+  // Fight state
+  private fightStartTime: number = 0;
+  private fightTimer: Phaser.Time.TimerEvent | null = null;
+
+  private readonly TIMER_INTERVAL_MS = 100;
+
+  constructor(config: BossRushRoomManagerConfig) {
+    this.scene = config.scene;
+    this.player = config.player;
+    this.lineup = config.lineup;
+    this.eventHandlers = config.eventHandlers;
+  }
+
+  // ========================================
+  // State getters
+  // ========================================
+
+  getBossCount(): number {
+    return this.lineup.length;
+  }
+
+  /**
+   * Boss fought in a room (rooms are numbered from 1)
+   */
+  getBossForRoom(roomNumber: number): BossId {
+    const bossId = this.lineup[roomNumber - 1];
+    if (!bossId) {
+      throw new Error(`BossRushRoomManager: No boss for room ${roomNumber}`);
+    }
+    return bossId;
+  }
+
+  // ========================================
+  // Fight flow
+  // ========================================
+
+  /**
+   * Prepare a room's fight: switch to the boss's chapter and start its timer
+   * @returns The boss to spawn
+   */
+  startFight(roomNumber: number): BossId {
+    const bossId = this.getBossForRoom(roomNumber);
+
+    // Fight each boss in its own chapter (background and boss scaling)
+    const chapter = getBossDefinition(bossId).chapter;
+    if (chapter !== chapterManager.getSelectedChapter()) {
+      chapterManager.setChapterForEndlessMode(chapter);
+      this.eventHandlers.onChapterChanged(chapter);
+    }
+
+    this.stopTimer();
+    this.fightStartTime = this.scene.time.now;
+    const bestMs = bossRushManager.getBestSplit(bossId);
+    this.eventHandlers.onBossRushTimer(0, bestMs);
+    this.fightTimer = this.scene.time.addEvent({
+      delay: this.TIMER_INTERVAL_MS,
+      loop: true,
+      callback: () => {
+        this.eventHandlers.onBossRushTimer(this.scene.time.now - this.fightStartTime, bestMs);
+      },
+    });
+
+    return bossId;
+  }
+
+  /**
+   * The room's boss is down: record the split and heal the player.
+   * Schedules the ability pick unless this was the last boss.
+   */
+  finishFight(roomNumber: number): void {
+    const bossId = this.getBossForRoom(roomNumber);
+    const timeMs = this.scene.time.now - this.fightStartTime;
+    this.stopTimer();
+
+    const result = bossRushManager.recordSplit(bossId, timeMs);
+    this.eventHandlers.onBossRushTimer(timeMs, result?.previousBestMs ?? null);
+    if (result) {
+      this.showSplit(bossId, result);
+    }
+
+    this.player.heal(Math.round(this.player.getMaxHealth() * BOSS_RUSH_HEAL_PERCENT));
+
+    if (roomNumber < this.lineup.length) {
+      this.scene.time.delayedCall(BOSS_RUSH_INTERMISSION_DELAY_MS, () => {
+        // Guard against callback firing after scene shutdown
+        if (!this.scene.scene.isActive("GameScene")) {
+          return;
+        }
+        this.eventHandlers.onBossRushIntermission();
+      });
+    }
+  }
+
+  /**
+   * Show the split and how it compares with the personal best
+   */
+  private showSplit(bossId: BossId, result: BossRushSplitResult): void {
+    const width = this.scene.cameras.main.width;
+    const height = this.scene.cameras.main.height;
+
+    let comparison = "FIRST CLEAR";
+    let color = "#ffdd00";
+    if (result.previousBestMs !== null) {
+      const deltaSeconds = (result.timeMs - result.previousBestMs) / 1000;
+      comparison = `${deltaSeconds <= 0 ? "-" : "+"}${Math.abs(deltaSeconds).toFixed(1)}s`;
+      color = result.isNewBest ? "#00ff88" : "#ff6666";
+    }
+
+    const splitText = this.scene.add.text(
+      width / 2,
+      height / 2 - 40,
+      `${getBossDefinition(bossId).name} ${formatBossRushTime(result.timeMs)}`,
+      {
+        fontSize: "24px",
+        color: "#ffffff",
+        fontStyle: "bold",
+        stroke: "#000000",
+        strokeThickness: 5,
+      },
+    );
+    splitText.setOrigin(0.5);
+    splitText.setDepth(100);
+
+    const comparisonText = this.scene.add.text(
+      width / 2,
+      height / 2 - 8,
+      result.isNewBest ? `${comparison} - NEW BEST!` : comparison,
+      {
+        fontSize: "18px",
+        color,
+        fontStyle: "bold",
+        stroke: "#000000",
+        strokeThickness: 3,
+      },
+    );
+    comparisonText.setOrigin(0.5);
+    comparisonText.setDepth(100);
+
+    // Animate and destroy
+    this.scene.tweens.add({
+      targets: [splitText, comparisonText],
+      alpha: 0,
+      y: "-=30",
+      duration: 1200,
+      delay: 1200,
+      ease: "Power2",
+      onComplete: () => {
+        splitText.destroy();
+        comparisonText.destroy();
+      },
+    });
+  }
+
+  private stopTimer(): void {
+    if (this.fightTimer) {
+      this.fightTimer.remove();
+      this.fightTimer = null;
+    }
+  }
+
+  // ========================================
+  // Cleanup
+  // ========================================
+
+  destroy(): void {
+    this.stopTimer();
+  }
+}
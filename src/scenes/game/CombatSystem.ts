@@ -17,6 +17,7 @@ import type { TalentBonuses } from "../../config/talentData";
 import type { DifficultyConfig } from "../../config/difficulty";
 import type { PassiveEffectSystem } from "./PassiveEffectSystem";
 import { chapterManager } from "../../systems/ChapterManager";
+import { randomStreams } from "../../systems/RandomStreams";
 import {
   getChapterDefinition,
   getXpMultiplierForChapter,
@@ -227,11 +228,22 @@ export class CombatSystem {
       this.triggerArrowExplosion(bulletSprite, enemySprite, damage);
     }
 
+    // Reflecting elites send part of their damage back
+    if (!killed) {
+      this.reflectDamageToPlayer(enemySprite);
+    }
+
     // Apply knockback if enabled (and enemy not killed)
     if (!killed && bulletSprite.getKnockbackForce() > 0) {
       this.applyBulletKnockback(bulletSprite, enemySprite);
     }
 
+    // On-hit ability hooks
+    const { healed } = this.player.runAbilityHook("onHit");
+    if (healed > 0) {
+      this.eventHandlers.onPlayerHealed(healed);
+    }
+
     // Update boss health bar if this is the boss
     const isBoss = this.boss && enemySprite === (this.boss as unknown as Enemy);
     if (isBoss && !killed) {
@@ -270,7 +282,7 @@ export class CombatSystem {
     // Apply fire DOT (affected by fire resistance)
     const fireDamage = bullet.getFireDamage();
     if (fireDamage > 0) {
-      const adjustedFireDamage = Math.round(fireDamage * resistances.fire);
+      const adjustedFireDamage = this.getAdjustedFireDamage(fireDamage);
       enemy.applyFireDamage(adjustedFireDamage, 2000); // 2 second burn
       this.particles.emitFire(enemy.x, enemy.y);
     }
@@ -279,7 +291,7 @@ export class CombatSystem {
     if (bullet.rollFreeze()) {
       // Cold resistance reduces freeze chance - if resistance is 0.5, freeze has 50% chance to apply
       // If resistance is 1.5, freeze always applies (vulnerability doesn't increase freeze chance)
-      if (resistances.cold >= 1.0 || Math.random() < resistances.cold) {
+      if (resistances.cold >= 1.0 || randomStreams.get("combat").chance(resistances.cold)) {
         enemy.applyFreeze();
       }
     }
@@ -298,6 +310,15 @@ export class CombatSystem {
     }
   }
 
+  /**
+   * Fire DOT damage after the chapter's fire resistance
+   */
+  private getAdjustedFireDamage(fireDamage: number): number {
+    if (fireDamage <= 0) return 0;
+    const chapterId = chapterManager.getSelectedChapter() as ChapterId;
+    return Math.round(fireDamage * getChapterElementalResistances(chapterId).fire);
+  }
+
   /**
    * Handle bullet ricochet to nearest enemy
    */
@@ -473,10 +494,39 @@ export class CombatSystem {
 
     this.handlePlayerDamaged(playerSprite, damage, false);
 
+    // Vampiric elites heal from their hits
+    enemySprite.onMeleeHitPlayer(damage);
+
     // Apply knockback
     this.applyKnockback(enemySprite, playerSprite, 150);
   }
 
+  /**
+   * Damage the player when hitting a reflecting elite
+   */
+  private reflectDamageToPlayer(enemy: Enemy): void {
+    if (this.isGameOver || this.isLevelingUp) return;
+
+    let damage = enemy.tryReflectDamage(this.scene.time.now);
+    if (damage <= 0) return;
+
+    // Absorb damage through shield barrier first
+    const passiveSystem = this.getPassiveEffectSystem?.();
+    if (passiveSystem) {
+      damage = passiveSystem.absorbDamageWithShield(damage);
+      if (damage <= 0) return;
+    }
+
+    const damageResult = this.player.takeDamage(damage);
+    if (damageResult.dodged) {
+      this.damageNumberPool.showDodge(this.player.x, this.player.y);
+      return;
+    }
+    if (!damageResult.damaged) return;
+
+    this.handlePlayerDamaged(this.player, damage, true);
+  }
+
   /**
    * Handle bomb explosion damage to player
    */
@@ -613,6 +663,12 @@ export class CombatSystem {
     // Visual effects
     this.particles.emitHit(enemySprite.x, enemySprite.y);
 
+    // Storm Orbs evolution: orb hits arc lightning like arrows do
+    const lightningChainCount = this.player.getLightningChainCount();
+    if (this.player.hasStormOrbs() && lightningChainCount > 0) {
+      this.applyLightningChain(enemySprite, damage, lightningChainCount);
+    }
+
     // Update boss health bar if this is the boss
     const isBoss = this.boss && enemySprite === (this.boss as unknown as Enemy);
     if (isBoss && !killed) {
@@ -744,6 +800,27 @@ export class CombatSystem {
     });
   }
 
+  /**
+   * Deal damage that does not come from a projectile (hero skills)
+   */
+  damageEnemy(enemy: Enemy, damage: number): void {
+    if (this.isGameOver || !enemy.active) return;
+
+    const killed = enemy.takeDamage(damage);
+    this.particles.emitHit(enemy.x, enemy.y);
+    this.damageNumberPool.showEnemyDamage(enemy.x, enemy.y, damage, false);
+
+    // Update boss health bar if this is the boss
+    const isBoss = this.boss && enemy === (this.boss as unknown as Enemy);
+    if (isBoss && !killed) {
+      this.eventHandlers.onBossHealthUpdate(this.boss!.getHealth(), this.boss!.getMaxHealth());
+    }
+
+    if (killed) {
+      this.handleEnemyKilled(enemy, !!isBoss);
+    }
+  }
+
   /**
    * Handle common enemy killed logic
    */
@@ -763,11 +840,10 @@ export class CombatSystem {
       hapticManager.light();
     }
 
-    // Bloodthirst: Heal on kill
-    const bloodthirstHeal = this.player.getBloodthirstHeal();
-    if (bloodthirstHeal > 0) {
-      this.player.heal(bloodthirstHeal);
-      this.eventHandlers.onPlayerHealed(bloodthirstHeal);
+    // On-kill ability hooks (Bloodthirst heal)
+    const { healed } = this.player.runAbilityHook("onKill");
+    if (healed > 0) {
+      this.eventHandlers.onPlayerHealed(healed);
     }
 
     // Add XP with equipment XP bonus, chapter scaling, and player ability multipliers
@@ -993,12 +1069,22 @@ export class CombatSystem {
 
     if (explosionDamage <= 0 || explosionRadius <= 0) return;
 
-    // Visual effect - orange/red explosion circle
+    // Inferno Burst evolution: everything caught in the blast is set on fire
+    const infernoBurst = this.player.hasInfernoBurst();
+    const igniteDamage = infernoBurst ? this.getAdjustedFireDamage(bullet.getFireDamage()) : 0;
+
+    // Visual effect - orange/red explosion circle (golden with a white-hot core for Inferno Burst)
     const graphics = this.scene.add.graphics();
-    graphics.lineStyle(2, 0xff4400, 1);
+    const explosionColor = infernoBurst ? 0xffaa00 : 0xff4400;
+    graphics.lineStyle(2, explosionColor, 1);
     graphics.strokeCircle(bullet.x, bullet.y, explosionRadius);
-    graphics.fillStyle(0xff4400, 0.4);
+    graphics.fillStyle(explosionColor, 0.4);
     graphics.fillCircle(bullet.x, bullet.y, explosionRadius);
+    if (infernoBurst) {
+      graphics.fillStyle(0xffffcc, 0.6);
+      graphics.fillCircle(bullet.x, bullet.y, explosionRadius * 0.4);
+      this.particles.emitFire(bullet.x, bullet.y);
+    }
 
     // Fade out effect
     this.scene.tweens.add({
@@ -1027,6 +1113,10 @@ export class CombatSystem {
         // Show damage number
         this.damageNumberPool.showEnemyDamage(e.x, e.y, explosionDamage, false);
 
+        if (!killed && igniteDamage > 0) {
+          e.applyFireDamage(igniteDamage, 2000);
+        }
+
         if (killed) {
           const isBoss = this.boss && e === (this.boss as unknown as Enemy);
           this.handleEnemyKilled(e, !!isBoss);
@@ -2,6 +2,7 @@ import Phaser from "phaser";
 import Player from "../../entities/Player";
 import Enemy from "../../entities/Enemy";
 import Boss from "../../entities/Boss";
+import ScriptedBoss from "../../entities/bosses/ScriptedBoss";
 import { RangedShooterEnemy, SpreaderEnemy } from "../../entities/enemies";
 import type { ScreenShake } from "../../systems/ScreenShake";
 import type { ParticleManager } from "../../systems/ParticleManager";
@@ -16,8 +17,11 @@ import type { BossType } from "../../config/chapterData";
 import { getXpMultiplierForChapter } from "../../config/chapterData";
 import { chapterManager } from "../../systems/ChapterManager";
 import { saveManager } from "../../systems/SaveManager";
+import { RUN_EVENTS, type EnemyKilledEventData } from "../../systems/RunEvents";
 import { errorReporting } from "../../systems/ErrorReportingManager";
 import { hapticManager } from "../../systems/HapticManager";
+import { randomStreams } from "../../systems/RandomStreams";
+import { ELITE_AFFIX_TUNING, ELITE_DROPS } from "../../config/eliteAffixData";
 
 /**
  * Event handlers that GameScene provides for death-related side effects
@@ -29,6 +33,8 @@ export interface EnemyDeathEventHandlers {
   onLevelUp: () => void;
   onBossKilled: () => void;
   onEnemyCacheInvalidated: () => void;
+  /** Explosive elite blast, damages the player if in range */
+  onEliteExplosion: (x: number, y: number, radius: number, damage: number) => void;
 }
 
 /**
@@ -162,10 +168,8 @@ export class EnemyDeathHandler {
       this.triggerDeathNova(enemy);
     }
 
-    // 2. Bloodthirst healing on kill
-    const bloodthirstHeal = this.player.getBloodthirstHeal();
-    if (bloodthirstHeal > 0) {
-      this.player.heal(bloodthirstHeal);
+    // 2. On-kill ability hooks (Bloodthirst healing)
+    if (this.player.runAbilityHook("onKill").healed > 0) {
       this.eventHandlers.onPlayerHealthUpdated();
     }
 
@@ -206,7 +210,8 @@ export class EnemyDeathHandler {
       this.eventHandlers.onBossKilled();
     }
 
-    // 9. Destroy enemy
+    // 9. Elite death effects, then destroy enemy
+    this.triggerEliteDeathEffects(enemy);
     enemy.destroy();
 
     // 10. Invalidate nearest enemy cache
@@ -269,7 +274,8 @@ export class EnemyDeathHandler {
       this.boss = null;
     }
 
-    // 6. Destroy enemy
+    // 6. Elite death effects, then destroy enemy
+    this.triggerEliteDeathEffects(enemy);
     enemy.destroy();
 
     // 7. Invalidate nearest enemy cache
@@ -281,26 +287,106 @@ export class EnemyDeathHandler {
 
   /**
    * Spawn drops at enemy death position
-   * - 50% chance to drop gold
-   * - 5% chance to drop health potion
+   * - 50% chance to drop gold (guaranteed plus extra drops per affix for elites)
+   * - 2% chance to drop health potion (ELITE_DROPS.healthPotionChance for elites)
    */
   private spawnDrops(enemy: Enemy): void {
     const enemyType = this.getEnemyType(enemy);
+    const eliteAffixCount = enemy.getEliteAffixes().length;
 
-    // 50% chance to drop gold
-    if (Math.random() < 0.5) {
+    // 50% chance to drop gold (always rolled so regular drops keep their random sequence)
+    if (randomStreams.get("loot").chance(0.5) || eliteAffixCount > 0) {
       const goldValue = this.goldPool.spawnForEnemy(enemy.x, enemy.y, enemyType);
       console.log(`Gold spawned: ${goldValue} from ${enemyType}`);
     }
 
+    // Elites scatter extra gold
+    const extraGoldDrops = eliteAffixCount * ELITE_DROPS.extraGoldDropsPerAffix;
+    for (let i = 0; i < extraGoldDrops; i++) {
+      const angle = (i / extraGoldDrops) * Math.PI * 2;
+      this.goldPool.spawnForEnemy(
+        enemy.x + Math.cos(angle) * 16,
+        enemy.y + Math.sin(angle) * 16,
+        enemyType,
+      );
+    }
+
     // 2% chance to drop health potion (scales with difficulty)
-    if (Math.random() < 0.02) {
+    const potionChance = eliteAffixCount > 0 ? ELITE_DROPS.healthPotionChance : 0.02;
+    if (randomStreams.get("loot").chance(potionChance)) {
       const healValue = this.calculateHealthPotionValue();
       this.healthPool.spawn(enemy.x, enemy.y, healValue);
       console.log(`Health potion spawned: ${healValue} HP`);
     }
   }
 
+  /**
+   * Splitting and explosive elite affixes, triggered before the enemy is destroyed
+   * (splits are added before the room cleared check runs)
+   */
+  private triggerEliteDeathEffects(enemy: Enemy): void {
+    if (!enemy.isElite()) return;
+
+    if (enemy.hasEliteAffix("splitting")) {
+      const count = ELITE_AFFIX_TUNING.splitCount;
+      for (let i = 0; i < count; i++) {
+        const angle = (i / count) * Math.PI * 2;
+        this.roomManager.spawnMinion(
+          enemy.x + Math.cos(angle) * 20,
+          enemy.y + Math.sin(angle) * 20,
+        );
+      }
+    }
+
+    if (enemy.hasEliteAffix("explosive")) {
+      this.scheduleEliteExplosion(
+        enemy.x,
+        enemy.y,
+        Math.round(enemy.getDamage() * ELITE_AFFIX_TUNING.explosionDamageMultiplier),
+      );
+    }
+  }
+
+  /**
+   * Telegraph an explosive elite's death blast, then damage the player if still in range
+   */
+  private scheduleEliteExplosion(x: number, y: number, damage: number): void {
+    const { explosionRadius, explosionDelayMs } = ELITE_AFFIX_TUNING;
+
+    // Warning ring that fills up over the fuse
+    const warning = this.scene.add.graphics();
+    warning.setDepth(1);
+    warning.lineStyle(2, 0xff6600, 0.9);
+    warning.strokeCircle(x, y, explosionRadius);
+    warning.fillStyle(0xff6600, 0.15);
+    warning.fillCircle(x, y, explosionRadius);
+    this.scene.tweens.add({
+      targets: warning,
+      alpha: { from: 0.4, to: 1 },
+      duration: explosionDelayMs,
+    });
+
+    this.scene.time.delayedCall(explosionDelayMs, () => {
+      warning.destroy();
+      // Guard against callback firing after scene shutdown
+      if (!this.scene.scene.isActive("GameScene")) return;
+
+      this.particles.emitFire(x, y);
+      this.screenShake.onExplosion();
+      const blast = this.scene.add.graphics();
+      blast.fillStyle(0xff6600, 0.5);
+      blast.fillCircle(x, y, explosionRadius);
+      this.scene.tweens.add({
+        targets: blast,
+        alpha: 0,
+        duration: 250,
+        onComplete: () => blast.destroy(),
+      });
+
+      this.eventHandlers.onEliteExplosion(x, y, explosionRadius, damage);
+    });
+  }
+
   /**
    * Calculate health potion heal value based on player stats and difficulty
    * - Scales with player's max health (10% of max HP)
@@ -322,7 +408,7 @@ export class EnemyDeathHandler {
   }
 
   /**
-   * Record a kill for statistics tracking
+   * Record a kill for statistics tracking, missions and season XP
    * Note: Only boss kills are tracked in Sentry. Regular enemy kills are
    * tracked in aggregate via trackRunCompleted() to avoid excessive events.
    */
@@ -340,6 +426,9 @@ export class EnemyDeathHandler {
       saveManager.recordEnemyKill(enemyType);
       // Per-enemy Sentry events removed - aggregate tracked in trackRunCompleted()
     }
+
+    const killed: EnemyKilledEventData = { isBoss };
+    this.scene.game.events.emit(RUN_EVENTS.ENEMY_KILLED, killed);
   }
 
   /**
@@ -361,7 +450,8 @@ export class EnemyDeathHandler {
    * Get enemy type for drop calculations
    */
   private getEnemyType(enemy: Enemy): EnemyType {
-    if (enemy instanceof Boss) {
+    // The demon is a ScriptedBoss; keep its drops the same as the old Boss class
+    if (enemy instanceof Boss || enemy instanceof ScriptedBoss) {
       return "boss";
     }
     if (enemy instanceof SpreaderEnemy) {
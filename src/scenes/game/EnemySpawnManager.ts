@@ -24,9 +24,11 @@ import {
   STANDARD_ROOM_LAYOUT,
   type BossType,
   type ChapterId,
+  type RoomType,
   type EnemyType as ChapterEnemyType,
 } from "../../config/chapterData";
 import { BossId, getBossDefinition } from "../../config/bossData";
+import { applyEliteAffixes, rollEliteAffixes } from "../../config/eliteAffixData";
 import type { DifficultyConfig } from "../../config/difficulty";
 import { THEME_COLORS } from "../../config/themeData";
 import {
@@ -160,11 +162,32 @@ export class EnemySpawnManager {
   // Enemy spawning
   // ========================================
 
-  spawnEnemiesForRoom(roomNumber: number, totalRooms: number): void {
+  /**
+   * @param bossRushBossId Boss Rush: the boss to fight in this room (every room is a boss room)
+   */
+  spawnEnemiesForRoom(
+    roomNumber: number,
+    totalRooms: number,
+    roomType: RoomType = "combat",
+    bossRushBossId?: BossId,
+  ): void {
     // Always reset spawn state at the start of any room
     this.cancelWaveTimers();
     this.pendingEnemySpawns = 0;
 
+    // Angel and devil rooms are empty apart from their NPC (placed by RoomManager)
+    if (roomType === "angel" || roomType === "devil") {
+      this.wallGroup.clearWalls();
+      console.log(`Room ${roomNumber}: ${roomType} room - no enemies`);
+      return;
+    }
+
+    if (bossRushBossId) {
+      this.wallGroup.clearWalls();
+      this.spawnBoss(roomNumber, bossRushBossId);
+      return;
+    }
+
     // Room 20 is the final boss room
     if (roomNumber === totalRooms) {
       this.spawnBoss(roomNumber);
@@ -260,10 +283,16 @@ export class EnemySpawnManager {
     });
     const topSpawnCount = topSpawnFlags.filter(Boolean).length;
 
+    // Pre-roll elite affixes the same way (endless mode only)
+    const eliteAffixRolls = generatedRoom.enemySpawns.map(() =>
+      this.isEndlessMode ? rollEliteAffixes(this.endlessWave, this.runRng) : [],
+    );
+
     for (let i = 0; i < waveCount; i++) {
       const startIdx = i * chunkSize;
       const waveSpawns = generatedRoom.enemySpawns.slice(startIdx, (i + 1) * chunkSize);
       const waveTopFlags = topSpawnFlags.slice(startIdx, (i + 1) * chunkSize);
+      const waveEliteAffixes = eliteAffixRolls.slice(startIdx, (i + 1) * chunkSize);
       if (waveSpawns.length === 0) continue;
 
       const delay = i === 0 ? 0 : waveDelay * i;
@@ -286,7 +315,7 @@ export class EnemySpawnManager {
           const roomScaling = getRoomProgressionScaling(roomNumber);
 
           // Combine difficulty config with chapter modifiers, chapter scaling, and room progression
-          const enemyOptions = {
+          const baseOptions: EnemyOptions = {
             healthMultiplier:
               this.difficultyConfig.enemyHealthMultiplier *
               chapterDef.scaling.enemyHpMultiplier *
@@ -297,10 +326,11 @@ export class EnemySpawnManager {
               chapterDef.scaling.enemyDamageMultiplier *
               endlessMult *
               roomScaling.damageMultiplier,
-            speedMultiplier: Math.min(
-              1.8,
-              (chapterModifiers.speedMultiplier ?? 1) * (1 + (endlessMult - 1) * 0.15),
-            ), // Speed scales gently, capped at 1.8x
+            speedMultiplier:
+              Math.min(
+                1.8,
+                (chapterModifiers.speedMultiplier ?? 1) * (1 + (endlessMult - 1) * 0.15),
+              ) * (this.difficultyConfig.enemySpeedMultiplier ?? 1), // Speed scales gently, capped at 1.8x
             attackCooldownMultiplier: Math.max(
               0.5,
               (chapterModifiers.attackCooldownMultiplier ?? 1) / (1 + (endlessMult - 1) * 0.15),
@@ -311,6 +341,7 @@ export class EnemySpawnManager {
             ), // Projectile speed capped at 1.6x
             abilityIntensityMultiplier: chapterModifiers.abilityIntensityMultiplier,
           };
+          const enemyOptions = applyEliteAffixes(baseOptions, waveEliteAffixes[index] ?? []);
 
           // Determine if this enemy spawns from the top of screen
           const spawnFromTop = waveTopFlags[index] ?? false;
@@ -478,7 +509,7 @@ export class EnemySpawnManager {
         chapterDef.scaling.enemyDamageMultiplier *
         roomScaling.damageMultiplier *
         0.6,
-      speedMultiplier: 1.3, // Minions are faster
+      speedMultiplier: 1.3 * (this.difficultyConfig.enemySpeedMultiplier ?? 1), // Minions are faster
       enemyType: "charger",
     };
 
@@ -490,7 +521,10 @@ export class EnemySpawnManager {
   // Boss spawning
   // ========================================
 
-  private spawnBoss(roomNumber: number): void {
+  /**
+   * @param requestedBoss Boss to spawn (Boss Rush), otherwise a random boss of the chapter
+   */
+  private spawnBoss(roomNumber: number, requestedBoss?: BossType): void {
     // Reset game speed to 1x if setting is enabled
     this.resetSpeedIfEnabled();
 
@@ -503,7 +537,8 @@ export class EnemySpawnManager {
 
     // Get current chapter and select a boss from its pool (using seeded RNG)
     const selectedChapter = chapterManager.getSelectedChapter() as ChapterId;
-    const bossType: BossType = getRandomBossForChapter(selectedChapter, this.runRng);
+    const bossType: BossType =
+      requestedBoss ?? getRandomBossForChapter(selectedChapter, this.runRng);
 
     // Difficulty modifiers for boss (combine difficulty config with chapter scaling)
     const chapterDef = getChapterDefinition(selectedChapter);
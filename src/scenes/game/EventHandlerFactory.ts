@@ -13,6 +13,7 @@ import type { RespawnSystem } from "./RespawnSystem";
 import type { CombatSystem } from "./CombatSystem";
 import type { ShootingSystem } from "./ShootingSystem";
 import type { GameSceneEventHandlers } from "./InitializationSystem";
+import { RUN_EVENTS, type RoomClearedEventData } from "../../systems/RunEvents";
 
 /**
  * Dependencies needed by event handlers
@@ -53,13 +54,14 @@ export interface EventHandlerFactoryConfig {
  * EventHandlerFactory - Creates event handlers for GameScene
  *
  * Extracts the ~135-line createEventHandlers() method from GameScene into a
- * focused factory class. Organizes 35+ event handlers across 10 categories:
+ * focused factory class. Organizes 35+ event handlers across 11 categories:
  * - Combat (6 handlers)
- * - Room (7 handlers)
+ * - Room (13 handlers)
  * - Level up (6 handlers)
  * - Enemy death (4 handlers)
  * - Respawn (2 handlers)
  * - Passive effects (2 handlers)
+ * - Hero skill (2 handlers)
  * - Tutorial (2 handlers)
  * - Ability (3 handlers)
  * - Run end (1 handler)
@@ -95,6 +97,9 @@ export class EventHandlerFactory {
       // Passive effects handlers
       ...this.createPassiveEffectHandlers(),
 
+      // Hero skill handlers
+      ...this.createHeroSkillHandlers(),
+
       // Tutorial handlers
       ...this.createTutorialHandlers(),
 
@@ -127,6 +132,7 @@ export class EventHandlerFactory {
         enemyDeathHandler.handleCombatDeath(enemy as Enemy, isBoss);
       },
       onPlayerDamaged: (_damage) => {
+        this.deps.getRoomManager().recordPlayerDamaged();
         this.deps.updatePlayerHealthUI(this.deps.getPlayer());
       },
       onPlayerHealed: (_amount) => {
@@ -147,7 +153,7 @@ export class EventHandlerFactory {
   }
 
   /**
-   * Room event handlers (8 handlers)
+   * Room event handlers (15 handlers)
    */
   private createRoomHandlers(): Pick<
     GameSceneEventHandlers,
@@ -160,18 +166,27 @@ export class EventHandlerFactory {
     | "onVictory"
     | "onBombExplosion"
     | "onChapterChanged"
+    | "getAvailableAbilityIds"
+    | "onSpecialRoomAbility"
+    | "onSpecialRoomChoiceStarted"
+    | "onSpecialRoomChoiceCompleted"
+    | "onBossRushTimer"
+    | "onBossRushIntermission"
   > {
     return {
       onRoomCleared: (roomNumber, collectedGold) => {
         this.deps.getPickupSystem().addGoldEarned(collectedGold);
         this.deps.scene.scene.get("UIScene").events.emit("roomCleared");
         const player = this.deps.getPlayer();
+        player.runAbilityHook("onRoomClear");
         this.deps.scene.scene
           .get("UIScene")
           .events.emit("updateHealth", player.getHealth(), player.getMaxHealth());
 
         // Update score display with cumulative rooms cleared
         const roomManager = this.deps.getRoomManager();
+        const cleared: RoomClearedEventData = { flawless: !roomManager.tookDamageInRoom() };
+        this.deps.scene.game.events.emit(RUN_EVENTS.ROOM_CLEARED, cleared);
         const totalRooms = roomManager.getTotalRooms();
         const endlessWave = roomManager.getEndlessWave();
         const cumulativeRooms = (endlessWave - 1) * totalRooms + roomNumber;
@@ -216,6 +231,33 @@ export class EventHandlerFactory {
         this.deps.scene.scene.get("UIScene").events.emit("chapterChanged", newChapter);
         console.log(`Chapter changed to ${newChapter}`);
       },
+      getAvailableAbilityIds: () =>
+        this.deps
+          .getLevelUpSystem()
+          .getAvailableAbilities()
+          .map((ability) => ability.id),
+      onSpecialRoomAbility: (abilityId) => {
+        this.deps.getLevelUpSystem().applyAbility(abilityId);
+      },
+      onSpecialRoomChoiceStarted: () => {
+        this.deps.resetJoystickState();
+        this.deps.getInputSystem()?.hide();
+      },
+      onSpecialRoomChoiceCompleted: () => {
+        this.deps.resetJoystickState();
+        this.deps.getInputSystem()?.show();
+        this.deps.updatePlayerHealthUI(this.deps.getPlayer());
+      },
+      onBossRushTimer: (elapsedMs, bestMs) => {
+        this.deps.scene.scene.get("UIScene").events.emit("updateBossRushTimer", elapsedMs, bestMs);
+      },
+      onBossRushIntermission: () => {
+        // A level-up from the boss's XP already offers a pick
+        const levelUpSystem = this.deps.getLevelUpSystem();
+        if (!levelUpSystem.isLevelingUp) {
+          levelUpSystem.handleLevelUp(this.deps.getIsGameOver());
+        }
+      },
     };
   }
 
@@ -327,6 +369,25 @@ export class EventHandlerFactory {
     };
   }
 
+  /**
+   * Hero skill event handlers (2 handlers)
+   */
+  private createHeroSkillHandlers(): Pick<
+    GameSceneEventHandlers,
+    "onHeroSkillCooldown" | "onHeroSkillUsed"
+  > {
+    return {
+      onHeroSkillCooldown: (remainingMs, cooldownMs) => {
+        this.deps.scene.scene
+          .get("UIScene")
+          .events.emit("updateHeroSkillCooldown", remainingMs, cooldownMs);
+      },
+      onHeroSkillUsed: (skillId) => {
+        this.deps.scene.scene.get("UIScene").events.emit("heroSkillUsed", skillId);
+      },
+    };
+  }
+
   /**
    * Tutorial event handlers (2 handlers)
    */
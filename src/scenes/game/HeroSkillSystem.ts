@@ -0,0 +1,391 @@
+import Phaser from "phaser";
+import Player from "../../entities/Player";
+import Enemy from "../../entities/Enemy";
+import type SpiritCatPool from "../../systems/SpiritCatPool";
+import type { ParticleManager } from "../../systems/ParticleManager";
+import type { CombatSystem } from "./CombatSystem";
+import type { HeroSkillConfig, HeroSkillId, SpiritCatConfig } from "../../config/heroData";
+import { saveManager } from "../../systems/SaveManager";
+
+/**
+ * Event handlers for hero skill events
+ */
+export interface HeroSkillEventHandlers {
+  /** Cooldown changed (remaining is 0 once the skill is ready) */
+  onHeroSkillCooldown: (remainingMs: number, cooldownMs: number) => void;
+  /** Skill was activated */
+  onHeroSkillUsed: (skillId: HeroSkillId) => void;
+}
+
+/**
+ * Configuration for HeroSkillSystem
+ */
+export interface HeroSkillSystemConfig {
+  scene: Phaser.Scene;
+  player: Player;
+  enemies: Phaser.Physics.Arcade.Group;
+  spiritCatPool: SpiritCatPool | null;
+  spiritCatConfig: SpiritCatConfig | null;
+  /** Selected hero's skill with perks applied (null = no skill) */
+  skill: HeroSkillConfig | null;
+  particles: ParticleManager;
+  getCombatSystem: () => CombatSystem;
+  eventHandlers: HeroSkillEventHandlers;
+}
+
+/**
+ * HeroSkillSystem - Runs the selected hero's active skill
+ *
+ * The skill is used from the HUD button or the SPACE key (both emit
+ * "heroSkillRequested", handled by GameScene) and then goes on cooldown.
+ * With auto level up or auto room advance enabled it is used as soon as it is
+ * ready and enemies are around. Skills:
+ * - Arrow Rain (Atreus): arrows fall on the nearest enemies
+ * - Rage Burst (Helix): damage and attack speed boost for a while
+ * - Cat Swarm (Meowgik): a ring of spirit cats leaps at the nearest enemies
+ * - Chain Shot (Vex): a shot bounces from enemy to enemy
+ * - Spirit Legion (Lumina): extra spirit pets for a while
+ * - Whirlwind (Garrick): damages every enemy around the player
+ */
+export class HeroSkillSystem {
+  private scene: Phaser.Scene;
+  private player: Player;
+  private enemies: Phaser.Physics.Arcade.Group;
+  private spiritCatPool: SpiritCatPool | null;
+  private spiritCatConfig: SpiritCatConfig | null;
+  private skill: HeroSkillConfig | null;
+  private particles: ParticleManager;
+  private getCombatSystem: () => CombatSystem;
+  private eventHandlers: HeroSkillEventHandlers;
+
+  // Cooldown state (scene time when the skill is ready again)
+  private readyAt: number = 0;
+  private lastReportedStep: number = -1;
+
+  // Rage Burst state
+  private rageTimer: Phaser.Time.TimerEvent | null = null;
+
+  // Spirit Legion state
+  private legionTimer: Phaser.Time.TimerEvent | null = null;
+
+  private readonly COOLDOWN_REPORT_STEP_MS = 100;
+  private readonly ARROW_INTERVAL_MS = 60;
+  private readonly ARROW_FALL_MS = 180;
+  private readonly CAT_RING_RADIUS = 40;
+  private readonly CHAIN_INTERVAL_MS = 80;
+  private readonly WHIRLWIND_SPIN_MS = 300;
+
+  constructor(config: HeroSkillSystemConfig) {
+    this.scene = config.scene;
+    this.player = config.player;
+    this.enemies = config.enemies;
+    this.spiritCatPool = config.spiritCatPool;
+    this.spiritCatConfig = config.spiritCatConfig;
+    this.skill = config.skill;
+    this.particles = config.particles;
+    this.getCombatSystem = config.getCombatSystem;
+    this.eventHandlers = config.eventHandlers;
+  }
+
+  // ========================================
+  // State getters
+  // ========================================
+
+  getSkill(): HeroSkillConfig | null {
+    return this.skill;
+  }
+
+  /**
+   * Time left before the skill can be used again
+   */
+  getRemainingCooldown(time: number): number {
+    return Math.max(0, this.readyAt - time);
+  }
+
+  // ========================================
+  // Activation
+  // ========================================
+
+  /**
+   * Use the skill if it is ready and there is an enemy to use it on
+   * @returns Whether the skill was activated
+   */
+  tryActivate(time: number): boolean {
+    if (!this.skill || !this.player.active) return false;
+    if (this.getRemainingCooldown(time) > 0) return false;
+
+    const targets = this.getTargetsByDistance(this.skill.radius || Infinity);
+    if (targets.length === 0) return false;
+
+    switch (this.skill.id) {
+      case "arrow_rain":
+        this.castArrowRain(targets);
+        break;
+      case "rage_burst":
+        this.castRageBurst();
+        break;
+      case "cat_swarm":
+        this.castCatSwarm(targets);
+        break;
+      case "chain_shot":
+        this.castChainShot(targets[0]);
+        break;
+      case "spirit_legion":
+        this.castSpiritLegion();
+        break;
+      case "whirlwind":
+        this.castWhirlwind(targets);
+        break;
+    }
+
+    this.readyAt = time + this.skill.cooldownMs;
+    this.reportCooldown(time);
+    this.eventHandlers.onHeroSkillUsed(this.skill.id);
+    console.log(`HeroSkillSystem: ${this.skill.name} activated`);
+    return true;
+  }
+
+  /**
+   * Per-tick update: cooldown display and auto-use
+   * @param canAutoUse False while the skill must not fire on its own (e.g. room transition)
+   */
+  update(time: number, canAutoUse: boolean): void {
+    if (!this.skill) return;
+
+    this.reportCooldown(time);
+
+    if (
+      canAutoUse &&
+      (saveManager.getAutoLevelUp() || saveManager.getAutoRoomAdvance()) &&
+      this.getRemainingCooldown(time) === 0
+    ) {
+      this.tryActivate(time);
+    }
+  }
+
+  /**
+   * Report the cooldown in COOLDOWN_REPORT_STEP_MS steps rather than every tick
+   */
+  private reportCooldown(time: number): void {
+    if (!this.skill) return;
+    const remaining = this.getRemainingCooldown(time);
+    const step = Math.ceil(remaining / this.COOLDOWN_REPORT_STEP_MS);
+    if (step === this.lastReportedStep) return;
+    this.lastReportedStep = step;
+    this.eventHandlers.onHeroSkillCooldown(remaining, this.skill.cooldownMs);
+  }
+
+  /**
+   * Active enemies within a range of the player, nearest first
+   */
+  private getTargetsByDistance(range: number = Infinity): Enemy[] {
+    return this.getEnemiesNear(this.player.x, this.player.y, range);
+  }
+
+  /**
+   * Active enemies within a range of a point, nearest first
+   */
+  private getEnemiesNear(x: number, y: number, range: number): Enemy[] {
+    const rangeSq = range * range;
+    const targets: { enemy: Enemy; distanceSq: number }[] = [];
+    for (const child of this.enemies.getChildren()) {
+      const enemy = child as Enemy;
+      if (!enemy.active) continue;
+      const dx = enemy.x - x;
+      const dy = enemy.y - y;
+      const distanceSq = dx * dx + dy * dy;
+      if (distanceSq > rangeSq) continue;
+      targets.push({ enemy, distanceSq });
+    }
+    return targets.sort((a, b) => a.distanceSq - b.distanceSq).map((target) => target.enemy);
+  }
+
+  // ========================================
+  // Skills
+  // ========================================
+
+  /**
+   * Arrow Rain: arrows fall one after another, spread over the nearest enemies
+   */
+  private castArrowRain(targets: Enemy[]): void {
+    const skill = this.skill!;
+    for (let i = 0; i < skill.count; i++) {
+      const target = targets[i % targets.length];
+      this.scene.time.delayedCall(i * this.ARROW_INTERVAL_MS, () => {
+        // The target may have died to an earlier arrow
+        const enemy = target.active ? target : this.getTargetsByDistance()[0];
+        if (!enemy) return;
+        this.dropArrow(enemy, Math.round(this.player.getDamage() * skill.power));
+      });
+    }
+  }
+
+  private dropArrow(enemy: Enemy, damage: number): void {
+    const arrow = this.scene.add.rectangle(enemy.x, enemy.y - 120, 3, 22, 0xffdd66);
+    arrow.setDepth(enemy.depth + 1);
+    this.scene.tweens.add({
+      targets: arrow,
+      y: enemy.y,
+      duration: this.ARROW_FALL_MS,
+      ease: "Quad.easeIn",
+      onComplete: () => {
+        arrow.destroy();
+        if (enemy.active) {
+          this.getCombatSystem().damageEnemy(enemy, damage);
+        }
+      },
+    });
+  }
+
+  /**
+   * Rage Burst: boost damage and attack speed for the skill's duration
+   */
+  private castRageBurst(): void {
+    const skill = this.skill!;
+    this.clearRage();
+
+    this.player.setHeroSkillBoost(skill.power);
+    this.player.setTint(0xff6666);
+    this.particles.emitHit(this.player.x, this.player.y);
+
+    this.rageTimer = this.scene.time.delayedCall(skill.durationMs, () => {
+      this.rageTimer = null;
+      this.clearRage();
+    });
+  }
+
+  private clearRage(): void {
+    if (this.rageTimer) {
+      this.rageTimer.remove();
+      this.rageTimer = null;
+    }
+    if (this.player.active) {
+      this.player.clearTint();
+    }
+    this.player.setHeroSkillBoost(0);
+  }
+
+  /**
+   * Cat Swarm: spirit cats leap from a ring around the player at the nearest enemies
+   */
+  private castCatSwarm(targets: Enemy[]): void {
+    if (!this.spiritCatPool) return;
+    const skill = this.skill!;
+    const damage = Math.round(this.player.getDamage() * skill.power);
+    const canCrit = this.spiritCatConfig?.canCrit ?? false;
+
+    for (let i = 0; i < skill.count; i++) {
+      const angle = (i / skill.count) * Math.PI * 2;
+      const x = this.player.x + Math.cos(angle) * this.CAT_RING_RADIUS;
+      const y = this.player.y + Math.sin(angle) * this.CAT_RING_RADIUS;
+      this.spiritCatPool.spawn(x, y, targets[i % targets.length], damage, canCrit);
+    }
+  }
+
+  /**
+   * Chain Shot: hits the nearest enemy, then jumps to the closest enemy not hit yet
+   */
+  private castChainShot(firstTarget: Enemy): void {
+    const skill = this.skill!;
+    const damage = Math.round(this.player.getDamage() * skill.power);
+
+    // Pick the whole chain up front so each link is drawn from the previous one
+    const chain: Enemy[] = [firstTarget];
+    while (chain.length < skill.count) {
+      const last = chain[chain.length - 1];
+      const next = this.getEnemiesNear(last.x, last.y, Infinity).find(
+        (enemy) => !chain.includes(enemy),
+      );
+      if (!next) break;
+      chain.push(next);
+    }
+
+    let fromX = this.player.x;
+    let fromY = this.player.y;
+    chain.forEach((enemy, i) => {
+      const startX = fromX;
+      const startY = fromY;
+      fromX = enemy.x;
+      fromY = enemy.y;
+      this.scene.time.delayedCall(i * this.CHAIN_INTERVAL_MS, () => {
+        if (!enemy.active) return;
+        this.drawChainLink(startX, startY, enemy);
+        this.getCombatSystem().damageEnemy(enemy, damage);
+      });
+    });
+  }
+
+  private drawChainLink(fromX: number, fromY: number, enemy: Enemy): void {
+    const link = this.scene.add.graphics();
+    link.setDepth(enemy.depth + 1);
+    link.lineStyle(3, 0x66ddff, 1);
+    link.lineBetween(fromX, fromY, enemy.x, enemy.y);
+    this.scene.tweens.add({
+      targets: link,
+      alpha: 0,
+      duration: 250,
+      onComplete: () => link.destroy(),
+    });
+  }
+
+  /**
+   * Spirit Legion: extra spirit pets fight alongside the player for the skill's duration
+   */
+  private castSpiritLegion(): void {
+    const skill = this.skill!;
+    this.clearLegion();
+
+    this.player.setHeroSkillPets(skill.count);
+    this.particles.emitHit(this.player.x, this.player.y);
+
+    this.legionTimer = this.scene.time.delayedCall(skill.durationMs, () => {
+      this.legionTimer = null;
+      this.clearLegion();
+    });
+  }
+
+  private clearLegion(): void {
+    if (this.legionTimer) {
+      this.legionTimer.remove();
+      this.legionTimer = null;
+    }
+    this.player.setHeroSkillPets(0);
+  }
+
+  /**
+   * Whirlwind: damage every enemy within the skill's radius
+   */
+  private castWhirlwind(targets: Enemy[]): void {
+    const skill = this.skill!;
+    const damage = Math.round(this.player.getDamage() * skill.power);
+
+    const ring = this.scene.add.circle(this.player.x, this.player.y, skill.radius, 0xffaa66, 0.35);
+    ring.setDepth(this.player.depth - 1);
+    ring.setScale(0.2);
+    this.scene.tweens.add({
+      targets: ring,
+      scale: 1,
+      alpha: 0,
+      duration: this.WHIRLWIND_SPIN_MS,
+      ease: "Quad.easeOut",
+      onComplete: () => ring.destroy(),
+    });
+
+    for (const enemy of targets) {
+      this.getCombatSystem().damageEnemy(enemy, damage);
+    }
+  }
+
+  // ========================================
+  // Cleanup
+  // ========================================
+
+  destroy(): void {
+    if (this.rageTimer) {
+      this.rageTimer.remove();
+      this.rageTimer = null;
+    }
+    this.player.setHeroSkillBoost(0);
+    this.clearLegion();
+  }
+}
@@ -13,17 +13,35 @@ import { PassiveEffectSystem } from "./PassiveEffectSystem";
 import { TutorialSystem } from "./TutorialSystem";
 import { PickupSystem } from "./PickupSystem";
 import { RunEndSystem } from "./RunEndSystem";
+import { HeroSkillSystem } from "./HeroSkillSystem";
 import BulletPool from "../../systems/BulletPool";
 import EnemyBulletPool from "../../systems/EnemyBulletPool";
 import SpiritCatPool from "../../systems/SpiritCatPool";
-import { getSpiritCatConfig, type SpiritCatConfig } from "../../config/heroData";
+import {
+  HERO_DEFINITIONS,
+  getHeroSkillConfig,
+  getSpiritCatConfig,
+  getUnlockedPerks,
+  isValidHeroId,
+  type HeroSkillConfig,
+  type HeroSkillId,
+  type SpiritCatConfig,
+} from "../../config/heroData";
 import BombPool from "../../systems/BombPool";
 import GoldPool from "../../systems/GoldPool";
 import HealthPool from "../../systems/HealthPool";
 import DamageNumberPool from "../../systems/DamageNumberPool";
-import { getDifficultyConfig, type DifficultyConfig } from "../../config/difficulty";
+import {
+  DIFFICULTY_CONFIGS,
+  getDifficultyConfig,
+  type DifficultyConfig,
+} from "../../config/difficulty";
 import { chapterManager } from "../../systems/ChapterManager";
-import { getChapterDefinition } from "../../config/chapterData";
+import {
+  getChapterDefinition,
+  ENDLESS_ROOMS_PER_WAVE,
+  ROOMS_PER_CHAPTER,
+} from "../../config/chapterData";
 import { saveManager } from "../../systems/SaveManager";
 import { ScreenShake, createScreenShake } from "../../systems/ScreenShake";
 import { ParticleManager, createParticleManager } from "../../systems/ParticleManager";
@@ -35,11 +53,20 @@ import { heroManager } from "../../systems/HeroManager";
 import { equipmentManager } from "../../systems/EquipmentManager";
 import { THEME_ASSETS } from "../../config/themeData";
 import { talentManager } from "../../systems/TalentManager";
-import type { TalentBonuses } from "../../config/talentData";
+import { createDefaultBonuses, type TalentBonuses } from "../../config/talentData";
+import {
+  DAILY_CHALLENGE_DIFFICULTY,
+  applyDailyModifiers,
+  getDailyEquipmentTemplate,
+} from "../../config/dailyChallengeData";
+import { dailyChallengeManager, type DailyChallenge } from "../../systems/DailyChallengeManager";
+import { bossRushManager } from "../../systems/BossRushManager";
+import type { BossId } from "../../config/bossData";
 import { performanceMonitor } from "../../systems/PerformanceMonitor";
 import { getRoomGenerator, type RoomGenerator } from "../../systems/RoomGenerator";
 import WallGroup from "../../systems/WallGroup";
 import { SeededRandom } from "../../systems/SeededRandom";
+import { randomStreams } from "../../systems/RandomStreams";
 import { errorReporting } from "../../systems/ErrorReportingManager";
 import {
   calculatePlayerStats,
@@ -72,6 +99,12 @@ export interface GameSceneEventHandlers {
   onVictory: () => void;
   onBombExplosion: (x: number, y: number, radius: number, damage: number) => void;
   onChapterChanged: (newChapter: number) => void;
+  getAvailableAbilityIds: () => string[];
+  onSpecialRoomAbility: (abilityId: string) => void;
+  onSpecialRoomChoiceStarted: () => void;
+  onSpecialRoomChoiceCompleted: () => void;
+  onBossRushTimer: (elapsedMs: number, bestMs: number | null) => void;
+  onBossRushIntermission: () => void;
 
   // Level up events
   onLevelUpStarted: () => void;
@@ -97,6 +130,10 @@ export interface GameSceneEventHandlers {
   onIronWillActivated: (bonusHP: number) => void;
   onIronWillDeactivated: (bonusHP: number) => void;
 
+  // Hero skill events
+  onHeroSkillCooldown: (remainingMs: number, cooldownMs: number) => void;
+  onHeroSkillUsed: (skillId: HeroSkillId) => void;
+
   // Tutorial events
   onTutorialShown: () => void;
   onTutorialDismissed: () => void;
@@ -158,6 +195,7 @@ export interface InitializationSystems {
   levelUpSystem: LevelUpSystem;
   respawnSystem: RespawnSystem;
   passiveEffectSystem: PassiveEffectSystem;
+  heroSkillSystem: HeroSkillSystem;
   tutorialSystem: TutorialSystem;
   pickupSystem: PickupSystem;
   runEndSystem: RunEndSystem;
@@ -182,10 +220,14 @@ export interface InitializationGameState {
   goldBonusMultiplier: number;
   runRng: SeededRandom;
   runSeedString: string;
+  /** Run was started from a seed typed by the player */
+  isSeededRun: boolean;
   weaponProjectileConfig: ProjectileConfig;
   spiritCatConfig: SpiritCatConfig | null;
   roomGenerator: RoomGenerator;
   totalRooms: number;
+  /** Endless waves, or a single campaign chapter */
+  isEndlessMode: boolean;
   runStartTime: number;
   selectedHeroId: string | null;
 }
@@ -239,12 +281,34 @@ export class InitializationSystem {
    * Returns all created objects for GameScene to store
    */
   initialize(): InitializationResult {
-    // Load difficulty configuration
-    const difficultyConfig = getDifficultyConfig(this.game);
+    // Load difficulty configuration (daily challenges use a fixed difficulty plus modifiers)
+    const dailyChallenge = dailyChallengeManager.getActiveChallenge();
+    const difficultyConfig = dailyChallenge
+      ? applyDailyModifiers(
+          DIFFICULTY_CONFIGS[DAILY_CHALLENGE_DIFFICULTY],
+          dailyChallenge.modifierIds,
+        )
+      : getDifficultyConfig(this.game);
     console.log("Starting game with difficulty:", difficultyConfig.label);
 
+    // Initialize seeded RNG and room generator first so everything created
+    // below draws from this run's random streams
+    const { runRng, runSeedString, isSeededRun, roomGenerator } =
+      this.initializeRngAndRoomGenerator();
+
     // Initialize game state
-    const gameState = this.initializeGameState(difficultyConfig);
+    // Campaign runs play one chapter and Boss Rush runs one lineup of bosses;
+    // daily challenges are always endless
+    const bossRushLineup = dailyChallenge ? null : (bossRushManager.getActiveRun()?.lineup ?? null);
+    const isEndlessMode =
+      dailyChallenge !== null ||
+      (bossRushLineup === null && this.game.registry.get("isEndlessMode") !== false);
+    const gameState = this.initializeGameState(
+      difficultyConfig,
+      dailyChallenge,
+      isEndlessMode,
+      bossRushLineup,
+    );
 
     // Set up background
     const { bg, backgroundAnimations } = this.initializeBackground(
@@ -253,12 +317,21 @@ export class InitializationSystem {
     );
 
     // Calculate player stats and create player
-    const { player, spiritCatPool, spiritCatConfig, weaponProjectileConfig } = this.createPlayer(
+    const {
+      player,
+      spiritCatPool,
+      spiritCatConfig,
+      heroSkill,
+      attackRange,
+      weaponProjectileConfig,
+    } = this.createPlayer(
       difficultyConfig,
       gameState.talentBonuses,
       gameState.heroStats,
       gameState.equipStats,
       gameState.selectedHeroId,
+      gameState.heroLevel,
+      gameState.heroPerkLevels,
     );
 
     // Create pools
@@ -276,9 +349,6 @@ export class InitializationSystem {
     // Create visual effects
     const visualEffects = this.createVisualEffects(backgroundAnimations, bg);
 
-    // Initialize seeded RNG and room generator
-    const { runRng, runSeedString, roomGenerator } = this.initializeRngAndRoomGenerator();
-
     // Create all systems - always endless mode
     const systems = this.createSystems(
       player,
@@ -290,11 +360,18 @@ export class InitializationSystem {
       gameState.talentBonuses,
       runRng,
       runSeedString,
+      isSeededRun,
       weaponProjectileConfig,
       spiritCatConfig,
+      heroSkill,
+      attackRange,
       roomGenerator,
       gameState.totalRooms,
+      isEndlessMode,
+      bossRushLineup,
       gameState.runStartTime,
+      gameState.bonusXPMultiplier,
+      gameState.goldBonusMultiplier,
     );
 
     // Initialize passive effect graphics
@@ -321,10 +398,12 @@ export class InitializationSystem {
         goldBonusMultiplier: gameState.goldBonusMultiplier,
         runRng,
         runSeedString,
+        isSeededRun,
         weaponProjectileConfig,
         spiritCatConfig,
         roomGenerator,
         totalRooms: gameState.totalRooms,
+        isEndlessMode,
         runStartTime: gameState.runStartTime,
         selectedHeroId: gameState.selectedHeroId,
       },
@@ -333,15 +412,24 @@ export class InitializationSystem {
 
   /**
    * Initialize game state: timing, error reporting, physics bounds
-   * Always endless mode with 10 rooms per wave
+   * Endless mode has 10 rooms per wave, a campaign chapter has 20 rooms and
+   * Boss Rush one room per boss
+   * A daily challenge replaces the player's hero, gear and talents with its own
    */
-  private initializeGameState(difficultyConfig: DifficultyConfig) {
-    // Always endless mode with 10 rooms per wave
-    const totalRooms = 10;
+  private initializeGameState(
+    difficultyConfig: DifficultyConfig,
+    dailyChallenge: DailyChallenge | null,
+    isEndlessMode: boolean,
+    bossRushLineup: readonly BossId[] | null,
+  ) {
+    let totalRooms = isEndlessMode ? ENDLESS_ROOMS_PER_WAVE : ROOMS_PER_CHAPTER;
+    if (bossRushLineup) {
+      totalRooms = bossRushLineup.length;
+    }
     const runStartTime = Date.now();
 
     // Update error reporting context
-    const selectedHeroId = heroManager.getSelectedHeroId();
+    const selectedHeroId = dailyChallenge?.heroId ?? heroManager.getSelectedHeroId();
     errorReporting.setScene("GameScene");
     errorReporting.setProgress(chapterManager.getSelectedChapter(), 1);
     errorReporting.setPlayerStats(1, 100, selectedHeroId || undefined);
@@ -350,9 +438,13 @@ export class InitializationSystem {
       hero: selectedHeroId,
     });
 
-    // Track game start in Sentry metrics - always endless mode
+    // Track game start in Sentry metrics
+    let gameMode: "normal" | "endless" | "boss_rush" = isEndlessMode ? "endless" : "normal";
+    if (bossRushLineup) {
+      gameMode = "boss_rush";
+    }
     errorReporting.trackGameStart(
-      "endless",
+      gameMode,
       chapterManager.getSelectedChapter(),
       difficultyConfig.label,
     );
@@ -379,11 +471,21 @@ export class InitializationSystem {
     }
 
     // Get hero and equipment stats
-    const heroStats = heroManager.getSelectedHeroStats();
-    const equipStats = equipmentManager.getEquippedStats();
-
-    // Get talent bonuses
-    const talentBonuses = talentManager.calculateTotalBonuses();
+    const heroLevel = dailyChallenge?.heroLevel ?? heroManager.getLevel(selectedHeroId);
+    const heroPerkLevels = dailyChallenge
+      ? getUnlockedPerks(selectedHeroId, heroLevel).map((perk) => perk.level)
+      : heroManager.getUnlockedPerkLevels(selectedHeroId);
+    const heroStats = dailyChallenge
+      ? heroManager.getStatsAtLevel(selectedHeroId, heroLevel)
+      : heroManager.getSelectedHeroStats();
+    const equipStats = dailyChallenge
+      ? this.getDailyChallengeEquipStats(dailyChallenge)
+      : equipmentManager.getEquippedStats();
+
+    // Get talent bonuses (none in daily challenges)
+    const talentBonuses = dailyChallenge
+      ? createDefaultBonuses()
+      : talentManager.calculateTotalBonuses();
 
     // Calculate bonus multipliers
     const equipmentStatMultiplier = 1 + talentBonuses.percentEquipmentStats / 100;
@@ -404,6 +506,8 @@ export class InitializationSystem {
       totalRooms,
       runStartTime,
       selectedHeroId,
+      heroLevel,
+      heroPerkLevels,
       selectedChapter,
       chapterDef,
       heroStats,
@@ -415,6 +519,20 @@ export class InitializationSystem {
     };
   }
 
+  /**
+   * Combined stats of a daily challenge's equipment template
+   */
+  private getDailyChallengeEquipStats(dailyChallenge: DailyChallenge) {
+    const template = getDailyEquipmentTemplate(dailyChallenge.equipmentTemplateId);
+    if (!template) {
+      throw new Error(`Unknown daily equipment template: ${dailyChallenge.equipmentTemplateId}`);
+    }
+    const items = template.items.map((item) =>
+      equipmentManager.buildEquipment(item.type, item.rarity, item.level, item.perks),
+    );
+    return equipmentManager.calculateStats(items);
+  }
+
   /**
    * Initialize background with chapter-specific theme
    */
@@ -454,6 +572,8 @@ export class InitializationSystem {
     heroStats: ReturnType<typeof heroManager.getSelectedHeroStats>,
     equipStats: ReturnType<typeof equipmentManager.getEquippedStats>,
     selectedHeroId: string | null,
+    heroLevel: number,
+    heroPerkLevels: number[],
   ) {
     const width = this.scene.cameras.main.width;
     const height = this.scene.cameras.main.height;
@@ -500,24 +620,49 @@ export class InitializationSystem {
     // Set dodge chance from equipment
     player.setDodgeChance(calculatedStats.dodgeChance);
 
-    // Apply Helix crit passive
-    if (selectedHeroId === "helix") {
-      player.addCritBoost();
-      console.log("GameScene: Helix passive - Critical Strike level 1 applied automatically");
+    // Freeze bonuses from equipment sets
+    player.setEquipmentFreezeBonus(
+      calculatedStats.freezeChance,
+      calculatedStats.frozenDamagePercent,
+    );
+
+    // Run modifiers
+    if (difficultyConfig.playerHealingDisabled) {
+      player.disableHealing();
+    }
+
+    // Hero passives from the definition's hooks
+    const heroHooks =
+      selectedHeroId && isValidHeroId(selectedHeroId) ? HERO_DEFINITIONS[selectedHeroId].hooks : {};
+    for (const ability of heroHooks.startingAbilities ?? []) {
+      player.applyAbility(ability.id, ability.level);
+      console.log(`GameScene: Hero passive - ${ability.id} level ${ability.level} applied`);
     }
 
-    // Initialize spirit cat system if Meowgik
+    // Initialize spirit cat system for summoning heroes (Meowgik)
     let spiritCatPool: SpiritCatPool | null = null;
     let spiritCatConfig: SpiritCatConfig | null = null;
-    if (selectedHeroId === "meowgik") {
+    if (heroHooks.spiritCats) {
       spiritCatPool = new SpiritCatPool(this.scene);
-      const heroLevel = heroManager.getLevel("meowgik");
-      const unlockedPerks = new Set(heroManager.getUnlockedPerkLevels("meowgik"));
+      const unlockedPerks = new Set(heroPerkLevels);
       spiritCatConfig = getSpiritCatConfig(heroLevel, unlockedPerks, heroStats.attack);
-      console.log("GameScene: Meowgik spirit cats initialized:", spiritCatConfig);
+      console.log("GameScene: Spirit cats initialized:", spiritCatConfig);
     }
 
-    return { player, spiritCatPool, spiritCatConfig, weaponProjectileConfig };
+    // Active skill with the hero's skill perks
+    const heroSkill: HeroSkillConfig | null =
+      selectedHeroId && isValidHeroId(selectedHeroId)
+        ? getHeroSkillConfig(selectedHeroId, new Set(heroPerkLevels))
+        : null;
+
+    return {
+      player,
+      spiritCatPool,
+      spiritCatConfig,
+      heroSkill,
+      attackRange: heroHooks.attackRange ?? null,
+      weaponProjectileConfig,
+    };
   }
 
   /**
@@ -594,6 +739,7 @@ export class InitializationSystem {
 
     // Initialize seeded random
     const passedSeed = this.game.registry.get("runSeed");
+    const isSeededRun = this.game.registry.get("isSeededRun") === true;
     let runRng: SeededRandom;
     if (passedSeed) {
       runRng = new SeededRandom(SeededRandom.parseSeed(passedSeed));
@@ -601,14 +747,18 @@ export class InitializationSystem {
     } else {
       runRng = new SeededRandom();
     }
+    this.game.registry.remove("isSeededRun");
     const runSeedString = runRng.getSeedString();
     console.log(`GameScene: Run seed: ${runSeedString}`);
 
+    // Re-seed gameplay random streams (combat, enemies, loot, ...)
+    randomStreams.reset(runRng.getSeed());
+
     // Initialize room generator
     const roomGenerator = getRoomGenerator(width, height);
     roomGenerator.setRng(runRng);
 
-    return { runRng, runSeedString, roomGenerator };
+    return { runRng, runSeedString, isSeededRun, roomGenerator };
   }
 
   /**
@@ -625,11 +775,18 @@ export class InitializationSystem {
     talentBonuses: TalentBonuses,
     runRng: SeededRandom,
     runSeedString: string,
+    isSeededRun: boolean,
     weaponProjectileConfig: ProjectileConfig,
     spiritCatConfig: SpiritCatConfig | null,
+    heroSkill: HeroSkillConfig | null,
+    attackRange: number | null,
     roomGenerator: RoomGenerator,
     totalRooms: number,
+    isEndlessMode: boolean,
+    bossRushLineup: readonly BossId[] | null,
     runStartTime: number,
+    bonusXPMultiplier: number,
+    goldBonusMultiplier: number,
   ): InitializationSystems {
     // Input system
     const gameContainer = this.game.canvas.parentElement;
@@ -649,7 +806,7 @@ export class InitializationSystem {
       damageNumberPool: pools.damageNumberPool,
       talentBonuses,
       difficultyConfig,
-      bonusXPMultiplier: 1 + (equipmentManager.getEquippedStats().bonusXPPercent ?? 0),
+      bonusXPMultiplier,
       eventHandlers: {
         onEnemyKilled: this.eventHandlers.onEnemyKilled,
         onPlayerDamaged: this.eventHandlers.onPlayerDamaged,
@@ -671,6 +828,7 @@ export class InitializationSystem {
       wallGroup: physics.wallGroup,
       baseFireRate: 500,
       weaponProjectileConfig,
+      attackRange,
       eventHandlers: {
         onShotFired: () => {},
       },
@@ -693,6 +851,8 @@ export class InitializationSystem {
       runRng,
       difficultyConfig,
       totalRooms,
+      isEndlessMode,
+      bossRushLineup: bossRushLineup ? [...bossRushLineup] : undefined,
       eventHandlers: {
         onRoomCleared: this.eventHandlers.onRoomCleared,
         onRoomEntered: this.eventHandlers.onRoomEntered,
@@ -724,6 +884,12 @@ export class InitializationSystem {
           console.log(`Background updated for chapter ${newChapter} (texture: ${bgKey})`);
           this.eventHandlers.onChapterChanged(newChapter);
         },
+        getAvailableAbilityIds: this.eventHandlers.getAvailableAbilityIds,
+        onSpecialRoomAbility: this.eventHandlers.onSpecialRoomAbility,
+        onSpecialRoomChoiceStarted: this.eventHandlers.onSpecialRoomChoiceStarted,
+        onSpecialRoomChoiceCompleted: this.eventHandlers.onSpecialRoomChoiceCompleted,
+        onBossRushTimer: this.eventHandlers.onBossRushTimer,
+        onBossRushIntermission: this.eventHandlers.onBossRushIntermission,
       },
     });
 
@@ -738,7 +904,7 @@ export class InitializationSystem {
       healthPool: pools.healthPool,
       damageNumberPool: pools.damageNumberPool,
       difficultyConfig,
-      bonusXPMultiplier: 1 + (equipmentManager.getEquippedStats().bonusXPPercent ?? 0),
+      bonusXPMultiplier,
       eventHandlers: {
         onKillRecorded: this.eventHandlers.onKillRecorded,
         onPlayerHealthUpdated: this.eventHandlers.onPlayerHealthUpdated,
@@ -749,6 +915,7 @@ export class InitializationSystem {
           roomManager.clearBoss();
         },
         onEnemyCacheInvalidated: () => shootingSystem.invalidateTargetCache(),
+        onEliteExplosion: this.eventHandlers.onBombExplosion,
       },
     });
 
@@ -804,6 +971,7 @@ export class InitializationSystem {
       difficultyConfig,
       getPickupSystem: () => pickupSystem,
       runSeedString,
+      isSeededRun,
       eventHandlers: {
         onRespawnComplete: this.eventHandlers.onRespawnComplete,
         onUpdateHealthUI: this.eventHandlers.onUpdateHealthUI,
@@ -835,6 +1003,22 @@ export class InitializationSystem {
     // Wire up passive effect system to combat system for shield barrier
     combatSystem.setPassiveEffectSystemGetter(() => passiveEffectSystem);
 
+    // Hero skill system
+    const heroSkillSystem = new HeroSkillSystem({
+      scene: this.scene,
+      player,
+      enemies: physics.enemies,
+      spiritCatPool: pools.spiritCatPool,
+      spiritCatConfig,
+      skill: heroSkill,
+      particles: visualEffects.particles,
+      getCombatSystem: () => combatSystem,
+      eventHandlers: {
+        onHeroSkillCooldown: this.eventHandlers.onHeroSkillCooldown,
+        onHeroSkillUsed: this.eventHandlers.onHeroSkillUsed,
+      },
+    });
+
     // Tutorial system
     const tutorialSystem = new TutorialSystem({
       scene: this.scene,
@@ -851,7 +1035,7 @@ export class InitializationSystem {
       goldPool: pools.goldPool,
       healthPool: pools.healthPool,
       particles: visualEffects.particles,
-      goldBonusMultiplier: 1 + (equipmentManager.getEquippedStats().goldBonusPercent ?? 0),
+      goldBonusMultiplier,
       getPassiveEffectSystem: () => passiveEffectSystem,
       eventHandlers: {
         onGoldCollected: () => {},
@@ -878,6 +1062,7 @@ export class InitializationSystem {
       difficultyConfig,
       runStartTime,
       runSeedString,
+      isSeededRun,
       eventHandlers: {
         onDestroyInput: this.eventHandlers.onInputDestroyed,
       },
@@ -893,6 +1078,7 @@ export class InitializationSystem {
       levelUpSystem,
       respawnSystem,
       passiveEffectSystem,
+      heroSkillSystem,
       tutorialSystem,
       pickupSystem,
       runEndSystem,
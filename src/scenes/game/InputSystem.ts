@@ -1,5 +1,6 @@
 import Phaser from "phaser";
 import Joystick from "../../ui/Joystick";
+import { quantizeInput, type ReplayPlayer, type ReplayRecorder } from "../../systems/RunReplay";
 
 /**
  * Input result returned by InputSystem.update()
@@ -32,7 +33,10 @@ export interface InputSystemConfig {
  * InputSystem - Handles player input from keyboard and touch joystick
  *
  * Extracted from GameScene to provide a reusable input handling system.
- * Supports keyboard (WASD/Arrow keys) and virtual joystick for mobile.
+ * Supports keyboard (WASD/Arrow keys, SPACE for the hero skill) and virtual
+ * joystick for mobile.
+ * Inputs are quantized to replay precision and can be recorded, or read back
+ * from a replay instead of the devices.
  */
 export class InputSystem {
   private scene: Phaser.Scene;
@@ -43,6 +47,7 @@ export class InputSystem {
     S: Phaser.Input.Keyboard.Key;
     D: Phaser.Input.Keyboard.Key;
   } | null = null;
+  private skillKey: Phaser.Input.Keyboard.Key | null = null;
 
   private joystick: Joystick | null = null;
   private joystickAngle: number = 0;
@@ -54,6 +59,9 @@ export class InputSystem {
 
   private readonly JOYSTICK_STUCK_TIMEOUT = 500; // ms
 
+  private replayRecorder: ReplayRecorder | null = null;
+  private replayPlayer: ReplayPlayer | null = null;
+
   private isDestroyed: boolean = false;
 
   constructor(config: InputSystemConfig) {
@@ -67,7 +75,7 @@ export class InputSystem {
   }
 
   /**
-   * Setup keyboard input (WASD and arrow keys)
+   * Setup keyboard input (WASD and arrow keys, SPACE for the hero skill)
    */
   private setupKeyboard(): void {
     if (!this.scene.input.keyboard) return;
@@ -79,6 +87,14 @@ export class InputSystem {
       S: this.scene.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.S),
       D: this.scene.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.D),
     };
+
+    // Hero skill (same request as the HUD button, handled by GameScene)
+    this.skillKey = this.scene.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.SPACE);
+    this.skillKey.on("down", this.requestHeroSkill, this);
+  }
+
+  private requestHeroSkill(): void {
+    this.scene.game.events.emit("heroSkillRequested");
   }
 
   /**
@@ -136,6 +152,12 @@ export class InputSystem {
       return { velocityX: 0, velocityY: 0, isShooting: false, hasInput: false };
     }
 
+    // Replay playback: use the recorded input for this tick
+    if (this.replayPlayer) {
+      const recorded = this.replayPlayer.nextInput();
+      return { ...recorded, isShooting: !recorded.hasInput };
+    }
+
     let velocityX = 0;
     let velocityY = 0;
     let hasInput = false;
@@ -189,14 +211,16 @@ export class InputSystem {
       velocityY /= length;
     }
 
+    // Quantize so live runs see exactly what a replay will play back
+    const input = quantizeInput({ velocityX, velocityY, hasInput });
+    this.replayRecorder?.recordInput(input);
+
     // Player shoots when stationary (no movement input)
-    const isShooting = !hasInput;
+    const isShooting = !input.hasInput;
 
     return {
-      velocityX,
-      velocityY,
+      ...input,
       isShooting,
-      hasInput,
     };
   }
 
@@ -249,6 +273,20 @@ export class InputSystem {
     this.moveSpeed = speed;
   }
 
+  /**
+   * Record every input read from now on
+   */
+  setReplayRecorder(recorder: ReplayRecorder | null): void {
+    this.replayRecorder = recorder;
+  }
+
+  /**
+   * Read inputs from a replay instead of the keyboard and joystick
+   */
+  setReplayPlayer(player: ReplayPlayer | null): void {
+    this.replayPlayer = player;
+  }
+
   /**
    * Set a callback to check if joystick creation should be blocked at a point.
    * Used to prevent joystick activation when tapping on walls.
@@ -265,6 +303,11 @@ export class InputSystem {
   destroy(): void {
     this.isDestroyed = true;
 
+    if (this.skillKey) {
+      this.skillKey.off("down", this.requestHeroSkill, this);
+      this.skillKey = null;
+    }
+
     if (this.joystick) {
       this.joystick.destroy();
       this.joystick = null;
@@ -7,11 +7,13 @@ import type EnemyBulletPool from "../../systems/EnemyBulletPool";
 import type { ParticleManager } from "../../systems/ParticleManager";
 import type { TalentBonuses } from "../../config/talentData";
 import type { SeededRandom } from "../../systems/SeededRandom";
-import { ABILITIES, type AbilityData } from "../../config/abilityData";
+import { ABILITIES, getUnlockedEvolutions, type AbilityData } from "../../config/abilityData";
 import { saveManager } from "../../systems/SaveManager";
 import { audioManager } from "../../systems/AudioManager";
 import { hapticManager } from "../../systems/HapticManager";
 import { abilityPriorityManager } from "../../systems/AbilityPriorityManager";
+import { randomStreams } from "../../systems/RandomStreams";
+import { replayManager } from "../../systems/ReplayManager";
 
 /**
  * Event handlers for level-up related events
@@ -188,7 +190,7 @@ export class LevelUpSystem {
       abilityLevels[ability.id] = ability.level;
     }
 
-    this.scene.scene.launch("LevelUpScene", {
+    this.launchSelectionScene("LevelUpScene", {
       playerLevel: this.player.getLevel(),
       abilityLevels,
       hasExtraLife: this.player.hasExtraLife(),
@@ -228,7 +230,7 @@ export class LevelUpSystem {
               `LevelUpSystem: ${data.remainingSelections} more starting abilities to select`,
             );
             this.scene.time.delayedCall(200, () => {
-              this.scene.scene.launch("StartingAbilityScene", {
+              this.launchSelectionScene("StartingAbilityScene", {
                 remainingSelections: data.remainingSelections,
                 currentSelection: totalSelections - data.remainingSelections + 1,
                 totalSelections: totalSelections,
@@ -263,7 +265,7 @@ export class LevelUpSystem {
       this.scene.scene.stop("StartingAbilityScene");
     }
 
-    this.scene.scene.launch("StartingAbilityScene", {
+    this.launchSelectionScene("StartingAbilityScene", {
       remainingSelections: totalSelections,
       currentSelection: 1,
       totalSelections: totalSelections,
@@ -286,10 +288,19 @@ export class LevelUpSystem {
     this.game.events.off("startingAbilitySelected");
   }
 
+  /**
+   * Launch an ability selection UI. During replay playback the recorded
+   * choice is dispatched by GameScene instead, so no UI is shown.
+   */
+  private launchSelectionScene(key: string, data: object): void {
+    if (replayManager.isPlaying()) return;
+    this.scene.scene.launch(key, data);
+  }
+
   /**
    * Get available abilities (not at max level)
    */
-  private getAvailableAbilities(): AbilityData[] {
+  getAvailableAbilities(): AbilityData[] {
     return ABILITIES.filter((ability) => {
       const currentLevel = this.abilitySystem.getAbilityLevel(ability.id);
 
@@ -333,7 +344,12 @@ export class LevelUpSystem {
       // Check if debug mode is enabled
       const isDebugMode = this.game.registry.get("debug") === true;
 
-      if (isDebugMode) {
+      // An unlocked evolution is always offered, and always beats a regular pick
+      const evolution = getUnlockedEvolutions(abilityLevels)[0];
+
+      if (evolution) {
+        selectedAbility = evolution;
+      } else if (isDebugMode) {
         // Debug mode: Select from ALL abilities based on priority
         selectedAbility = abilityPriorityManager.getHighestPriorityAbility(
           availableAbilities,
@@ -343,7 +359,8 @@ export class LevelUpSystem {
       } else {
         // Normal mode: First randomly select 3 abilities, then pick highest priority from those 3
         // This ensures variety while still respecting priority for the random subset
-        const shuffled = [...availableAbilities].sort(() => Math.random() - 0.5);
+        const rng = randomStreams.get("abilities");
+        const shuffled = [...availableAbilities].sort(() => rng.random() - 0.5);
         const randomSubset = shuffled.slice(0, 3);
 
         selectedAbility = abilityPriorityManager.getHighestPriorityAbility(
@@ -450,8 +467,9 @@ export class LevelUpSystem {
 
   /**
    * Apply an ability to the player via the ability system
+   * (also used for abilities granted in angel/devil rooms)
    */
-  private applyAbility(abilityId: string): void {
+  applyAbility(abilityId: string): void {
     this.abilitySystem.applyAbility(abilityId);
     this.eventHandlers.onAbilityApplied(abilityId);
   }
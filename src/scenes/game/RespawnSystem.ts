@@ -15,6 +15,7 @@ import type { DifficultyConfig } from "../../config/difficulty";
 import { audioManager } from "../../systems/AudioManager";
 import { hapticManager } from "../../systems/HapticManager";
 import { chapterManager } from "../../systems/ChapterManager";
+import { replayManager } from "../../systems/ReplayManager";
 import { getBossDefinition, BossId } from "../../config/bossData";
 import type { RespawnRoomState, EnemyRespawnState } from "../GameOverScene";
 
@@ -56,6 +57,8 @@ export interface RespawnSystemConfig {
   difficultyConfig: DifficultyConfig;
   getPickupSystem: () => PickupSystem;
   runSeedString: string;
+  /** Run was started from a typed seed */
+  isSeededRun: boolean;
   eventHandlers: RespawnEventHandlers;
 }
 
@@ -89,6 +92,7 @@ export class RespawnSystem {
   private difficultyConfig: DifficultyConfig;
   private getPickupSystem: () => PickupSystem;
   private runSeedString: string;
+  private isSeededRun: boolean;
   private eventHandlers: RespawnEventHandlers;
 
   // Respawn tracking (one-time use per run)
@@ -117,6 +121,7 @@ export class RespawnSystem {
     this.difficultyConfig = config.difficultyConfig;
     this.getPickupSystem = config.getPickupSystem;
     this.runSeedString = config.runSeedString;
+    this.isSeededRun = config.isSeededRun;
     this.eventHandlers = config.eventHandlers;
   }
 
@@ -216,11 +221,18 @@ export class RespawnSystem {
       // Stop UIScene first (but keep GameScene if respawn is available)
       this.scene.scene.stop("UIScene");
 
+      // Replays have no game over screen - GameScene waits for a recorded
+      // respawn or ends playback
+      if (replayManager.isPlaying()) {
+        this.scene.events.emit("replayRunEnded");
+        return;
+      }
+
       const roomManager = this.getRoomManager();
       const enemyDeathHandler = this.getEnemyDeathHandler();
       const levelUpSystem = this.getLevelUpSystem();
 
-      // Calculate total rooms cleared across all waves (always endless mode)
+      // Calculate total rooms cleared across all waves (campaign runs stay on wave 1)
       const currentRoom = roomManager.getRoomNumber();
       const totalRooms = roomManager.getTotalRooms();
       const endlessWave = roomManager.getEndlessWave();
@@ -235,13 +247,15 @@ export class RespawnSystem {
         abilitiesGained: abilitySystem.getTotalAbilitiesGained(),
         goldEarned: this.getPickupSystem().getGoldEarned(),
         runSeed: this.runSeedString,
+        isSeededRun: this.isSeededRun,
         acquiredAbilities: levelUpSystem.getAcquiredAbilitiesArray(),
         heroXPEarned: enemyDeathHandler.getHeroXPEarned(),
-        isEndlessMode: true,
+        isEndlessMode: roomManager.isEndless(),
         endlessWave: endlessWave,
         chapterId: chapterManager.getSelectedChapter(),
         difficulty: this.difficultyConfig.label.toLowerCase(),
         playerLevel: this.player.getLevel(),
+        specialRooms: { ...roomManager.getSpecialRoomStats() },
         canRespawn,
         respawnRoomState,
       });
@@ -299,6 +313,9 @@ export class RespawnSystem {
     // Mark respawn as used (one-time per run)
     this.respawnUsed = true;
 
+    // A revived death still costs the campaign's no-death star
+    chapterManager.recordDeath();
+
     // Reset game over state
     this.gameOverSetter(false);
 
@@ -1,5 +1,28 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
-import type { RoomEventHandlers } from "./RoomManager";
+import { RoomManager, type RoomEventHandlers, type RoomManagerConfig } from "./RoomManager";
+import { chapterManager } from "../../systems/ChapterManager";
+
+// The delegated managers spawn Phaser game objects (Phaser cannot boot under jsdom) -
+// RoomManager only drives them
+vi.mock("./EnemySpawnManager", () => ({
+  EnemySpawnManager: class {
+    setEndlessMode = vi.fn();
+    spawnEnemiesForRoom = vi.fn();
+    getPendingSpawnCount = vi.fn(() => 0);
+    cancelWaveTimers = vi.fn();
+    clearBoss = vi.fn();
+  },
+}));
+vi.mock("./SpecialRoomManager", () => ({
+  SpecialRoomManager: class {
+    isActive = vi.fn(() => false);
+    resetRoomDamage = vi.fn();
+    recordBossRoomCleared = vi.fn();
+    cleanupRoom = vi.fn();
+  },
+}));
+vi.mock("./BossRushRoomManager", () => ({ BossRushRoomManager: class {} }));
+vi.mock("../../systems/AudioManager", () => ({ audioManager: { playRoomClear: vi.fn() } }));
 
 /**
  * Tests for RoomManager core logic.
@@ -153,6 +176,12 @@ describe("RoomManager Event Handlers", () => {
       onVictory: vi.fn(),
       onBombExplosion: vi.fn(),
       onChapterChanged: vi.fn(),
+      getAvailableAbilityIds: vi.fn(() => []),
+      onSpecialRoomAbility: vi.fn(),
+      onSpecialRoomChoiceStarted: vi.fn(),
+      onSpecialRoomChoiceCompleted: vi.fn(),
+      onBossRushTimer: vi.fn(),
+      onBossRushIntermission: vi.fn(),
     };
   });
 
@@ -206,6 +235,124 @@ describe("RoomManager Event Handlers", () => {
   });
 });
 
+describe("RoomManager room progression", () => {
+  let eventHandlers: RoomEventHandlers;
+
+  function createRoomManager(totalRooms: number, isEndlessMode: boolean): RoomManager {
+    const gameObject = {
+      width: 60,
+      height: 60,
+      body: { setCircle: vi.fn() },
+      setScale: vi.fn(),
+      setOrigin: vi.fn().mockReturnThis(),
+      setDepth: vi.fn(),
+      destroy: vi.fn(),
+    };
+    const scene = {
+      cameras: { main: { width: 375, height: 667, fadeIn: vi.fn(), fadeOut: vi.fn() } },
+      time: { delayedCall: vi.fn((_delay: number, callback: () => void) => callback()) },
+      scene: { isActive: () => true },
+      add: { sprite: () => gameObject, text: () => gameObject },
+      physics: { add: { existing: vi.fn(), overlap: vi.fn() } },
+      tweens: { add: vi.fn() },
+    };
+    const pool = { clear: vi.fn(), cleanup: vi.fn(), collectAll: vi.fn(() => 0) };
+    const config = {
+      scene,
+      player: { x: 0, y: 0, setPosition: vi.fn(), setVelocity: vi.fn(), heal: vi.fn() },
+      enemies: { clear: vi.fn(), getChildren: () => [] },
+      bulletPool: pool,
+      enemyBulletPool: pool,
+      bombPool: pool,
+      goldPool: pool,
+      healthPool: pool,
+      spiritCatPool: null,
+      wallGroup: { clearWalls: vi.fn() },
+      totalRooms,
+      isEndlessMode,
+      eventHandlers,
+    } as unknown as RoomManagerConfig;
+    return new RoomManager(config);
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    chapterManager.reset();
+    chapterManager.startChapter(1);
+    eventHandlers = {
+      onRoomCleared: vi.fn(),
+      onRoomEntered: vi.fn(),
+      onUpdateRoomUI: vi.fn(),
+      onBossSpawned: vi.fn(),
+      onShowBossHealth: vi.fn(),
+      onHideBossHealth: vi.fn(),
+      onVictory: vi.fn(),
+      onBombExplosion: vi.fn(),
+      onChapterChanged: vi.fn(),
+      getAvailableAbilityIds: vi.fn(() => []),
+      onSpecialRoomAbility: vi.fn(),
+      onSpecialRoomChoiceStarted: vi.fn(),
+      onSpecialRoomChoiceCompleted: vi.fn(),
+      onBossRushTimer: vi.fn(),
+      onBossRushIntermission: vi.fn(),
+    };
+  });
+
+  it("should win a campaign run when room 20 is cleared", () => {
+    const roomManager = createRoomManager(20, false);
+    roomManager.setRoomNumber(20);
+
+    roomManager.checkRoomCleared();
+
+    expect(eventHandlers.onRoomCleared).toHaveBeenCalledWith(20, 0);
+    expect(eventHandlers.onVictory).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not win a campaign run before room 20", () => {
+    const roomManager = createRoomManager(20, false);
+    roomManager.setRoomNumber(19);
+
+    roomManager.checkRoomCleared();
+
+    expect(eventHandlers.onVictory).not.toHaveBeenCalled();
+  });
+
+  it("should end a campaign run instead of leaving room 20", () => {
+    const roomManager = createRoomManager(20, false);
+    roomManager.setRoomNumber(20);
+
+    roomManager.triggerTransitionToNextRoom();
+
+    expect(eventHandlers.onVictory).toHaveBeenCalledTimes(1);
+    expect(eventHandlers.onRoomEntered).not.toHaveBeenCalled();
+    expect(roomManager.getRoomNumber()).toBe(20);
+  });
+
+  it("should stay on wave 1 in campaign mode past room 10", () => {
+    const roomManager = createRoomManager(20, false);
+    roomManager.setRoomNumber(10);
+
+    roomManager.triggerTransitionToNextRoom();
+
+    expect(eventHandlers.onRoomEntered).toHaveBeenCalledWith(11, 1);
+    expect(eventHandlers.onUpdateRoomUI).toHaveBeenCalledWith(11, 20, undefined);
+    expect(eventHandlers.onChapterChanged).not.toHaveBeenCalled();
+    expect(roomManager.getEndlessDifficultyMultiplier()).toBe(1);
+    expect(chapterManager.getCurrentRoom()).toBe(2);
+  });
+
+  it("should start the next wave after the last room in endless mode", () => {
+    const roomManager = createRoomManager(10, true);
+    roomManager.setRoomNumber(10);
+
+    roomManager.triggerTransitionToNextRoom();
+
+    expect(eventHandlers.onRoomEntered).toHaveBeenCalledWith(1, 2);
+    expect(eventHandlers.onVictory).not.toHaveBeenCalled();
+    expect(roomManager.getEndlessDifficultyMultiplier()).toBe(1.25);
+  });
+});
+
 describe("Stationary Enemy Types", () => {
   const STATIONARY_ENEMY_TYPES = ["spreader", "spawner"];
 
@@ -11,12 +11,21 @@ import { audioManager } from "../../systems/AudioManager";
 import { chapterManager } from "../../systems/ChapterManager";
 import { currencyManager } from "../../systems/CurrencyManager";
 import { saveManager } from "../../systems/SaveManager";
-import type { BossType, ChapterId } from "../../config/chapterData";
+import {
+  getRoomTypeForNumber,
+  type BossType,
+  type ChapterId,
+  type RoomType,
+} from "../../config/chapterData";
+import type { SpecialRoomRunStats } from "../../config/specialRoomData";
 import type { DifficultyConfig } from "../../config/difficulty";
 import type { RoomGenerator } from "../../systems/RoomGenerator";
 import type WallGroup from "../../systems/WallGroup";
 import type { SeededRandom } from "../../systems/SeededRandom";
+import type { BossId } from "../../config/bossData";
 import { EnemySpawnManager } from "./EnemySpawnManager";
+import { SpecialRoomManager, type SpecialRoomEventHandlers } from "./SpecialRoomManager";
+import { BossRushRoomManager, type BossRushRoomEventHandlers } from "./BossRushRoomManager";
 
 /**
  * Calculate chapter based on endless wave number.
@@ -48,6 +57,12 @@ export interface RoomEventHandlers {
   onVictory: () => void;
   onBombExplosion: (x: number, y: number, radius: number, damage: number) => void;
   onChapterChanged: (newChapter: ChapterId) => void;
+  getAvailableAbilityIds: SpecialRoomEventHandlers["getAvailableAbilityIds"];
+  onSpecialRoomAbility: SpecialRoomEventHandlers["onSpecialRoomAbility"];
+  onSpecialRoomChoiceStarted: SpecialRoomEventHandlers["onSpecialRoomChoiceStarted"];
+  onSpecialRoomChoiceCompleted: SpecialRoomEventHandlers["onSpecialRoomChoiceCompleted"];
+  onBossRushTimer: BossRushRoomEventHandlers["onBossRushTimer"];
+  onBossRushIntermission: BossRushRoomEventHandlers["onBossRushIntermission"];
 }
 
 /**
@@ -72,8 +87,11 @@ export interface RoomManagerConfig {
   runRng: SeededRandom;
   difficultyConfig: DifficultyConfig;
 
-  // Config - always endless mode with 10 rooms per wave
+  // Config - endless waves of 10 rooms, or a finite 20-room chapter (campaign)
   totalRooms: number;
+  isEndlessMode: boolean;
+  /** Boss Rush: one boss per room, in order (totalRooms is the lineup length) */
+  bossRushLineup?: BossId[];
 
   eventHandlers: RoomEventHandlers;
 }
@@ -83,6 +101,10 @@ export interface RoomManagerConfig {
  *
  * Extracted from GameScene to provide focused room management functionality.
  * Manages room transitions, enemy/boss spawning, door creation, and room clearing.
+ * Endless runs loop 10-room waves; campaign runs play one chapter's 20 rooms
+ * (mini-boss in room 10, boss in room 20) and end in victory.
+ * Angel rooms have no enemies - SpecialRoomManager hosts the angel (or devil) instead.
+ * Boss Rush runs are finite too: every room is a boss room run by BossRushRoomManager.
  */
 export class RoomManager {
   private scene: Phaser.Scene;
@@ -102,15 +124,23 @@ export class RoomManager {
   // Enemy spawning (delegated)
   private enemySpawnManager: EnemySpawnManager;
 
+  // Angel/devil rooms (delegated)
+  private specialRoomManager: SpecialRoomManager;
+
+  // Boss Rush rooms (delegated, null outside Boss Rush)
+  private bossRushRoomManager: BossRushRoomManager | null = null;
+
   // Room state
   private currentRoom: number = 1;
+  private currentRoomType: RoomType = "combat";
   private totalRooms: number;
   private isRoomCleared: boolean = false;
   private doorSprite: Phaser.GameObjects.Sprite | null = null;
   private doorText: Phaser.GameObjects.Text | null = null;
   private isTransitioning: boolean = false;
 
-  // Endless mode state (always endless now)
+  // Endless mode state (campaign runs stay on wave 1)
+  private isEndlessMode: boolean;
   private endlessWave: number = 1;
   private endlessDifficultyMultiplier: number = 1.0;
 
@@ -138,8 +168,9 @@ export class RoomManager {
     // Systems
     this.wallGroup = config.wallGroup;
 
-    // Config - always 10 rooms per wave
+    // Config - 10 rooms per endless wave, 20 rooms per campaign chapter
     this.totalRooms = config.totalRooms;
+    this.isEndlessMode = config.isEndlessMode;
 
     this.eventHandlers = config.eventHandlers;
 
@@ -160,6 +191,32 @@ export class RoomManager {
         onBombExplosion: config.eventHandlers.onBombExplosion,
       },
     });
+
+    // Initialize angel/devil room manager
+    this.specialRoomManager = new SpecialRoomManager({
+      scene: config.scene,
+      player: config.player,
+      eventHandlers: {
+        getAvailableAbilityIds: config.eventHandlers.getAvailableAbilityIds,
+        onSpecialRoomAbility: config.eventHandlers.onSpecialRoomAbility,
+        onSpecialRoomChoiceStarted: config.eventHandlers.onSpecialRoomChoiceStarted,
+        onSpecialRoomChoiceCompleted: config.eventHandlers.onSpecialRoomChoiceCompleted,
+        onSpecialRoomResolved: () => this.checkRoomCleared(),
+      },
+    });
+
+    if (config.bossRushLineup) {
+      this.bossRushRoomManager = new BossRushRoomManager({
+        scene: config.scene,
+        player: config.player,
+        lineup: config.bossRushLineup,
+        eventHandlers: {
+          onBossRushTimer: config.eventHandlers.onBossRushTimer,
+          onBossRushIntermission: config.eventHandlers.onBossRushIntermission,
+          onChapterChanged: config.eventHandlers.onChapterChanged,
+        },
+      });
+    }
   }
 
   // ========================================
@@ -170,6 +227,14 @@ export class RoomManager {
     return this.currentRoom;
   }
 
+  getRoomType(): RoomType {
+    return this.currentRoomType;
+  }
+
+  getSpecialRoomStats(): Readonly<SpecialRoomRunStats> {
+    return this.specialRoomManager.getRunStats();
+  }
+
   getTotalRooms(): number {
     return this.totalRooms;
   }
@@ -198,6 +263,14 @@ export class RoomManager {
     return this.endlessWave;
   }
 
+  isEndless(): boolean {
+    return this.isEndlessMode;
+  }
+
+  isBossRush(): boolean {
+    return this.bossRushRoomManager !== null;
+  }
+
   getEnemyGroup(): Phaser.Physics.Arcade.Group {
     return this.enemies;
   }
@@ -222,6 +295,20 @@ export class RoomManager {
     // _isLevelingUp is passed for API consistency but not used by RoomManager
   }
 
+  /**
+   * Note a hit on the player (a flawless boss room makes a devil room likelier)
+   */
+  recordPlayerDamaged(): void {
+    this.specialRoomManager.recordPlayerDamaged();
+  }
+
+  /**
+   * Whether the player was hit in the current room (a flawless clear counts for missions)
+   */
+  tookDamageInRoom(): boolean {
+    return this.specialRoomManager.tookDamageInRoom();
+  }
+
   /**
    * Reset gold earned counter (called when gold is collected by GameScene)
    */
@@ -254,6 +341,11 @@ export class RoomManager {
    * Force transition to next room (for debug skip)
    */
   triggerTransitionToNextRoom(): void {
+    // No room after the chapter boss - skipping it completes the chapter
+    if (!this.isEndlessMode && this.currentRoom >= this.totalRooms) {
+      this.eventHandlers.onVictory();
+      return;
+    }
     this.transitionToNextRoom();
   }
 
@@ -284,8 +376,12 @@ export class RoomManager {
   // ========================================
 
   updateRoomUI(): void {
-    // Always endless mode - pass wave number
-    this.eventHandlers.onUpdateRoomUI(this.currentRoom, this.totalRooms, this.endlessWave);
+    // Wave number only shown in endless mode
+    this.eventHandlers.onUpdateRoomUI(
+      this.currentRoom,
+      this.totalRooms,
+      this.isEndlessMode ? this.endlessWave : undefined,
+    );
   }
 
   // ========================================
@@ -383,12 +479,17 @@ export class RoomManager {
   private transitionToNextRoom(): void {
     this.currentRoom++;
 
-    // Check for wave completion - always endless mode
-    if (this.currentRoom > this.totalRooms) {
+    // Check for wave completion (campaign runs end with victory in the boss room instead)
+    if (this.isEndlessMode && this.currentRoom > this.totalRooms) {
       this.startNextEndlessWave();
       return;
     }
 
+    // Keep the chapter run in step (highest room reached, star rating)
+    if (!this.isEndlessMode && !this.bossRushRoomManager) {
+      chapterManager.advanceRoom();
+    }
+
     // Clean up current room
     this.cleanupRoom();
 
@@ -530,6 +631,7 @@ export class RoomManager {
 
     this.enemySpawnManager.cancelWaveTimers();
     this.enemySpawnManager.clearBoss();
+    this.specialRoomManager.cleanupRoom();
 
     // Reset boss health UI
     this.eventHandlers.onHideBossHealth();
@@ -566,6 +668,9 @@ export class RoomManager {
   checkRoomCleared(): void {
     if (this.isRoomCleared) return;
 
+    // Angel/devil rooms clear once the NPC's offer is resolved
+    if (this.specialRoomManager.isActive()) return;
+
     const enemyCount = this.enemies.getChildren().filter((e) => e.active).length;
     const pendingSpawns = this.enemySpawnManager.getPendingSpawnCount();
     if (enemyCount === 0 && pendingSpawns === 0) {
@@ -579,6 +684,14 @@ export class RoomManager {
       // Notify chapter manager that room was cleared
       chapterManager.clearRoom();
 
+      // The next angel room may be taken over by the devil
+      if (this.currentRoomType === "boss" || this.currentRoomType === "miniboss") {
+        this.specialRoomManager.recordBossRoomCleared();
+      }
+
+      // Boss Rush: record the split, heal, and offer an ability before the next boss
+      this.bossRushRoomManager?.finishFight(this.currentRoom);
+
       // Magnetically collect all remaining gold and health pickups
       const collectedGold = this.goldPool.collectAll(this.player.x, this.player.y);
       if (collectedGold > 0) {
@@ -593,6 +706,20 @@ export class RoomManager {
       // Notify handlers with collected gold amount
       this.eventHandlers.onRoomCleared(this.currentRoom, this.goldEarnedThisRoom);
 
+      // Campaign/Boss Rush: clearing the last boss room completes the run
+      if (!this.isEndlessMode && this.currentRoom >= this.totalRooms) {
+        this.scene.time.delayedCall(1000, () => {
+          // Guard against callback firing after scene shutdown
+          if (!this.scene.scene.isActive("GameScene")) {
+            return;
+          }
+          if (!this.isGameOver) {
+            this.eventHandlers.onVictory();
+          }
+        });
+        return;
+      }
+
       // Show door OR auto-advance after brief delay
       this.scene.time.delayedCall(500, () => {
         // Guard against callback firing after scene shutdown
@@ -615,9 +742,40 @@ export class RoomManager {
   // ========================================
 
   spawnEnemiesForRoom(): void {
-    // Always endless mode with progressive difficulty
-    this.enemySpawnManager.setEndlessMode(true, this.endlessWave, this.endlessDifficultyMultiplier);
-    this.enemySpawnManager.spawnEnemiesForRoom(this.currentRoom, this.totalRooms);
+    // Endless waves add progressive difficulty; campaign chapters use chapter scaling only
+    this.enemySpawnManager.setEndlessMode(
+      this.isEndlessMode,
+      this.endlessWave,
+      this.endlessDifficultyMultiplier,
+    );
+
+    this.specialRoomManager.resetRoomDamage();
+
+    // Boss Rush: every room is a boss room, no angel rooms
+    if (this.bossRushRoomManager) {
+      this.currentRoomType = "boss";
+      const bossId = this.bossRushRoomManager.startFight(this.currentRoom);
+      this.enemySpawnManager.spawnEnemiesForRoom(
+        this.currentRoom,
+        this.totalRooms,
+        this.currentRoomType,
+        bossId,
+      );
+      return;
+    }
+
+    // The last room of a wave/chapter is always the boss room
+    this.currentRoomType =
+      this.currentRoom === this.totalRooms ? "boss" : getRoomTypeForNumber(this.currentRoom);
+    if (this.currentRoomType === "angel") {
+      this.currentRoomType = this.specialRoomManager.enterSpecialRoom();
+    }
+
+    this.enemySpawnManager.spawnEnemiesForRoom(
+      this.currentRoom,
+      this.totalRooms,
+      this.currentRoomType,
+    );
   }
 
   /**
@@ -637,6 +795,8 @@ export class RoomManager {
    */
   destroy(): void {
     this.enemySpawnManager.destroy();
+    this.specialRoomManager.destroy();
+    this.bossRushRoomManager?.destroy();
 
     if (this.doorSprite) {
       this.doorSprite.destroy();
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for RunEndSystem's campaign victory
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+// jsdom has no Web Audio
+vi.mock("../../systems/AudioManager", () => ({ audioManager: { playVictory: vi.fn() } }));
+
+import { RunEndSystem, type RunEndSystemConfig } from "./RunEndSystem";
+import { chapterManager } from "../../systems/ChapterManager";
+import { DIFFICULTY_CONFIGS, DifficultyLevel } from "../../config/difficulty";
+
+describe("RunEndSystem", () => {
+  let isGameOver: boolean;
+  let launchScene: ReturnType<typeof vi.fn>;
+
+  function createRunEndSystem(isBossRush: boolean = false): RunEndSystem {
+    launchScene = vi.fn();
+    const roomManager = {
+      isEndless: () => false,
+      isBossRush: () => isBossRush,
+      getRoomNumber: () => 20,
+      getTotalRooms: () => 20,
+      getEndlessWave: () => 1,
+      getSpecialRoomStats: () => ({}),
+    };
+    const config = {
+      scene: {
+        time: { delayedCall: (_delay: number, callback: () => void) => callback() },
+        scene: { launch: launchScene, stop: vi.fn() },
+      },
+      player: {
+        getHealth: () => 100,
+        getMaxHealth: () => 100,
+        getLevel: () => 5,
+        setVelocity: vi.fn(),
+      },
+      getInputSystem: () => null,
+      getRoomManager: () => roomManager,
+      getAbilitySystem: () => ({ getTotalAbilitiesGained: () => 0 }),
+      getEnemyDeathHandler: () => ({ getEnemiesKilled: () => 0, getHeroXPEarned: () => 0 }),
+      getLevelUpSystem: () => ({ getAcquiredAbilitiesArray: () => [] }),
+      getPickupSystem: () => ({ getGoldEarned: () => 0 }),
+      getIsGameOver: () => isGameOver,
+      setIsGameOver: (value: boolean) => {
+        isGameOver = value;
+      },
+      difficultyConfig: DIFFICULTY_CONFIGS[DifficultyLevel.NORMAL],
+      runStartTime: Date.now(),
+      runSeedString: "TEST",
+      isSeededRun: false,
+      eventHandlers: { onDestroyInput: vi.fn() },
+    } as unknown as RunEndSystemConfig;
+    return new RunEndSystem(config);
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    chapterManager.reset();
+    chapterManager.startChapter(1);
+    isGameOver = false;
+  });
+
+  describe("triggerVictory", () => {
+    it("should record the campaign result", () => {
+      createRunEndSystem().triggerVictory();
+
+      const progress = chapterManager.getChapterProgress(1);
+      expect(progress?.completed).toBe(true);
+      expect(progress?.bestStars).toBe(3);
+      expect(chapterManager.isChapterUnlocked(2)).toBe(true);
+      expect(chapterManager.getCurrentRun()?.isActive).toBeFalsy();
+      expect(isGameOver).toBe(true);
+    });
+
+    it("should pass the completion result to the results screen", () => {
+      createRunEndSystem().triggerVictory();
+
+      expect(launchScene).toHaveBeenCalledWith(
+        "GameOverScene",
+        expect.objectContaining({
+          isVictory: true,
+          roomsCleared: 20,
+          completionResult: expect.objectContaining({ chapterId: 1, stars: 3 }),
+        }),
+      );
+    });
+
+    it("should not complete the chapter for a cleared Boss Rush", () => {
+      createRunEndSystem(true).triggerVictory();
+
+      expect(chapterManager.isChapterCompleted(1)).toBe(false);
+      expect(launchScene).toHaveBeenCalledWith(
+        "GameOverScene",
+        expect.objectContaining({ isVictory: true, completionResult: undefined }),
+      );
+    });
+  });
+});
@@ -7,19 +7,25 @@ import type { EnemyDeathHandler } from "./EnemyDeathHandler";
 import type { LevelUpSystem } from "./LevelUpSystem";
 import type { PickupSystem } from "./PickupSystem";
 import type { DifficultyConfig } from "../../config/difficulty";
-import { chapterManager } from "../../systems/ChapterManager";
+import type { SpecialRoomRunStats } from "../../config/specialRoomData";
+import { chapterManager, type ChapterCompletionResult } from "../../systems/ChapterManager";
+import { audioManager } from "../../systems/AudioManager";
+import { replayManager } from "../../systems/ReplayManager";
 
 /**
- * Data passed to GameOverScene (always endless mode)
+ * Data passed to GameOverScene
  */
 interface GameOverData {
   roomsCleared: number;
   enemiesKilled: number;
   isVictory: boolean;
+  bossDefeated?: boolean;
+  completionResult?: ChapterCompletionResult;
   playTimeMs: number;
   abilitiesGained: number;
   goldEarned: number;
   runSeed: string;
+  isSeededRun: boolean;
   acquiredAbilities: AcquiredAbility[];
   heroXPEarned: number;
   isEndlessMode: boolean;
@@ -27,6 +33,7 @@ interface GameOverData {
   chapterId: number;
   difficulty: string;
   playerLevel: number;
+  specialRooms: SpecialRoomRunStats;
 }
 
 /**
@@ -55,6 +62,8 @@ export interface RunEndSystemConfig {
   difficultyConfig: DifficultyConfig;
   runStartTime: number;
   runSeedString: string;
+  /** Run was started from a typed seed */
+  isSeededRun: boolean;
   eventHandlers: RunEndEventHandlers;
 }
 
@@ -83,6 +92,7 @@ export class RunEndSystem {
   private difficultyConfig: DifficultyConfig;
   private runStartTime: number;
   private runSeedString: string;
+  private isSeededRun: boolean;
   private eventHandlers: RunEndEventHandlers;
 
   constructor(config: RunEndSystemConfig) {
@@ -99,18 +109,60 @@ export class RunEndSystem {
     this.difficultyConfig = config.difficultyConfig;
     this.runStartTime = config.runStartTime;
     this.runSeedString = config.runSeedString;
+    this.isSeededRun = config.isSeededRun;
     this.eventHandlers = config.eventHandlers;
   }
 
   /**
-   * Trigger victory - no longer used in endless mode
-   * Endless mode always transitions to next wave, never "wins"
-   * @deprecated This method is kept for interface compatibility but is never called
+   * Trigger victory - the campaign chapter's boss room (or a Boss Rush's last boss) was cleared.
+   * Completes the chapter run (stars, rewards, next chapter unlock) and shows the results.
+   * Endless mode never wins - it moves on to the next wave instead.
    */
   triggerVictory(): void {
-    // In endless mode, we never win - just go to next wave
-    // This method is kept for interface compatibility
-    console.warn("triggerVictory called but endless mode never ends with victory");
+    if (this.gameOverGetter()) return;
+
+    const roomManager = this.getRoomManager();
+    if (roomManager.isEndless()) {
+      console.warn("RunEndSystem: triggerVictory called but endless mode never ends with victory");
+      return;
+    }
+
+    this.gameOverSetter(true);
+    audioManager.playVictory();
+
+    // Rewards scale with difficulty like gold drops do.
+    // A cleared Boss Rush is not a chapter clear - its result is the rush time.
+    let completionResult: ChapterCompletionResult | undefined;
+    if (roomManager.isBossRush()) {
+      chapterManager.endRun(false);
+      console.log("RunEndSystem: Boss Rush cleared");
+    } else {
+      completionResult =
+        chapterManager.completeChapter(
+          this.player.getHealth(),
+          this.player.getMaxHealth(),
+          this.difficultyConfig.goldMultiplier,
+        ) ?? undefined;
+      console.log(
+        `RunEndSystem: Chapter complete - ${completionResult?.stars ?? 0} stars`,
+        completionResult?.rewards,
+      );
+    }
+
+    // Stop player movement
+    this.player.setVelocity(0, 0);
+
+    // Clean up input system
+    this.destroyInputSystem();
+
+    const data: GameOverData = {
+      ...this.buildGameOverData(),
+      roomsCleared: roomManager.getTotalRooms(),
+      isVictory: true,
+      bossDefeated: true,
+      completionResult,
+    };
+    this.transitionToGameOver(data, 1000);
   }
 
   /**
@@ -169,7 +221,7 @@ export class RunEndSystem {
   }
 
   /**
-   * Calculate rooms cleared based on game state (always endless mode)
+   * Calculate rooms cleared based on game state (across all waves in endless mode)
    */
   private calculateRoomsCleared(): number {
     const roomManager = this.getRoomManager();
@@ -177,12 +229,12 @@ export class RunEndSystem {
     const totalRooms = roomManager.getTotalRooms();
     const endlessWave = roomManager.getEndlessWave();
 
-    // Always endless: calculate total rooms across all waves
+    // Campaign runs stay on wave 1, so this is just the rooms before the current one
     return (endlessWave - 1) * totalRooms + currentRoom - 1;
   }
 
   /**
-   * Build game over data object with all stats (always endless mode)
+   * Build game over data object with all stats
    */
   private buildGameOverData(): GameOverData {
     const roomManager = this.getRoomManager();
@@ -198,18 +250,20 @@ export class RunEndSystem {
     const data: GameOverData = {
       roomsCleared,
       enemiesKilled: enemyDeathHandler.getEnemiesKilled(),
-      isVictory: false, // Always false in endless mode
+      isVictory: false, // Victory data is built by triggerVictory
       playTimeMs,
       abilitiesGained: abilitySystem.getTotalAbilitiesGained(),
       goldEarned: pickupSystem.getGoldEarned(),
       runSeed: this.runSeedString,
+      isSeededRun: this.isSeededRun,
       acquiredAbilities: levelUpSystem.getAcquiredAbilitiesArray(),
       heroXPEarned: enemyDeathHandler.getHeroXPEarned(),
       chapterId: chapterManager.getSelectedChapter(),
       difficulty: this.difficultyConfig.label.toLowerCase(),
-      isEndlessMode: true,
+      isEndlessMode: roomManager.isEndless(),
       endlessWave,
       playerLevel: this.player.getLevel(),
+      specialRooms: { ...roomManager.getSpecialRoomStats() },
     };
 
     return data;
@@ -220,6 +274,12 @@ export class RunEndSystem {
    */
   private transitionToGameOver(data: GameOverData, delay: number): void {
     this.scene.time.delayedCall(delay, () => {
+      // Replays have no rewards screen - GameScene ends playback
+      if (replayManager.isPlaying()) {
+        this.scene.events.emit("replayRunEnded");
+        return;
+      }
+
       // Stop UIScene first
       this.scene.scene.stop("UIScene");
 
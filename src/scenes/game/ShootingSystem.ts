@@ -33,6 +33,8 @@ export interface ShootingSystemConfig {
   wallGroup: WallGroup;
   baseFireRate: number;
   weaponProjectileConfig: WeaponProjectileConfig | null;
+  /** Max reach of the hero's attacks in px (null = whole room) */
+  attackRange?: number | null;
   eventHandlers: ShootingEventHandlers;
 }
 
@@ -56,6 +58,7 @@ export class ShootingSystem {
 
   // Weapon configuration
   private weaponProjectileConfig: WeaponProjectileConfig | null;
+  private attackRange: number | null;
 
   // Fire rate state
   private fireRate: number;
@@ -78,6 +81,7 @@ export class ShootingSystem {
     this.wallGroup = config.wallGroup;
     this.fireRate = config.baseFireRate;
     this.weaponProjectileConfig = config.weaponProjectileConfig;
+    this.attackRange = config.attackRange ?? null;
     this.eventHandlers = config.eventHandlers;
   }
 
@@ -108,7 +112,7 @@ export class ShootingSystem {
 
     // Find and shoot at nearest enemy
     const nearestEnemy = this.getCachedNearestEnemy();
-    if (nearestEnemy) {
+    if (nearestEnemy && this.isInAttackRange(nearestEnemy)) {
       this.shootAtEnemy(nearestEnemy, time);
       return true;
     }
@@ -142,6 +146,15 @@ export class ShootingSystem {
     return this.cachedNearestEnemy;
   }
 
+  /**
+   * Whether an enemy is within the hero's attack range (always true without one)
+   */
+  private isInAttackRange(enemy: Enemy): boolean {
+    if (this.attackRange === null) return true;
+    const distance = Phaser.Math.Distance.Between(this.player.x, this.player.y, enemy.x, enemy.y);
+    return distance <= this.attackRange;
+  }
+
   /**
    * Invalidate the nearest enemy cache (call when enemies die or spawn)
    */
@@ -344,6 +357,8 @@ export class ShootingSystem {
       // Visual settings from user preferences
       settingsSizeMultiplier: settings.bulletSizeMultiplier ?? 1.0,
       settingsOpacity: settings.bulletOpacity ?? 1.0,
+      // Close-range heroes
+      maxRange: this.attackRange ?? 0,
     };
   }
 
@@ -0,0 +1,309 @@
+import Phaser from "phaser";
+import Player from "../../entities/Player";
+import { randomStreams } from "../../systems/RandomStreams";
+import { replayManager } from "../../systems/ReplayManager";
+import {
+  createAngelOffer,
+  createDevilOffer,
+  createSpecialRoomRunStats,
+  rollSpecialRoomType,
+  type SpecialRoomChoice,
+  type SpecialRoomOffer,
+  type SpecialRoomRunStats,
+  type SpecialRoomType,
+} from "../../config/specialRoomData";
+
+/**
+ * Event handlers interface for SpecialRoomManager callbacks
+ */
+export interface SpecialRoomEventHandlers {
+  /** Abilities the player can still take (not at max level) */
+  getAvailableAbilityIds: () => string[];
+  onSpecialRoomAbility: (abilityId: string) => void;
+  onSpecialRoomChoiceStarted: () => void;
+  onSpecialRoomChoiceCompleted: () => void;
+  /** The NPC is gone - the room can be cleared */
+  onSpecialRoomResolved: () => void;
+}
+
+/**
+ * Configuration for SpecialRoomManager initialization
+ */
+export interface SpecialRoomManagerConfig {
+  scene: Phaser.Scene;
+  player: Player;
+  eventHandlers: SpecialRoomEventHandlers;
+}
+
+/**
+ * SpecialRoomManager - Handles angel and devil rooms
+ *
+ * Extracted from RoomManager alongside EnemySpawnManager. Places the room's NPC,
+ * opens SpecialRoomScene when the player reaches it, and applies the choice.
+ * Whether an angel room becomes a devil room depends on damage taken in the
+ * preceding boss room (tracked here via recordPlayerDamaged).
+ */
+export class SpecialRoomManager {
+  private scene: Phaser.Scene;
+  private player: Player;
+  private eventHandlers: SpecialRoomEventHandlers;
+
+  // NPC state
+  private npcSprite: Phaser.GameObjects.Sprite | null = null;
+  private npcText: Phaser.GameObjects.Text | null = null;
+  private currentOffer: SpecialRoomOffer | null = null;
+  private isChoosing: boolean = false;
+
+  // Boss room tracking for devil rooms
+  private tookDamageThisRoom: boolean = false;
+  private bossRoomResult: { tookDamage: boolean } | null = null;
+
+  private runStats: SpecialRoomRunStats = createSpecialRoomRunStats();
+
+  private readonly NPC_Y = 200;
+
+  constructor(config: SpecialRoomManagerConfig) {
+    this.scene = config.scene;
+    this.player = config.player;
+    this.eventHandlers = config.eventHandlers;
+
+    this.handleChoice = this.handleChoice.bind(this);
+    this.scene.game.events.on("specialRoomChoice", this.handleChoice);
+  }
+
+  // ========================================
+  // State getters
+  // ========================================
+
+  getRunStats(): Readonly<SpecialRoomRunStats> {
+    return this.runStats;
+  }
+
+  isActive(): boolean {
+    return this.currentOffer !== null;
+  }
+
+  // ========================================
+  // Boss room tracking
+  // ========================================
+
+  /**
+   * Called on every hit the player takes
+   */
+  recordPlayerDamaged(): void {
+    this.tookDamageThisRoom = true;
+  }
+
+  /**
+   * Whether the player was hit since entering the current room
+   */
+  tookDamageInRoom(): boolean {
+    return this.tookDamageThisRoom;
+  }
+
+  /**
+   * Called when a room is entered (before enterSpecialRoom for special rooms)
+   */
+  resetRoomDamage(): void {
+    this.tookDamageThisRoom = false;
+  }
+
+  /**
+   * Called when a boss or mini-boss room is cleared - the next angel room may be a devil room
+   */
+  recordBossRoomCleared(): void {
+    this.bossRoomResult = { tookDamage: this.tookDamageThisRoom };
+  }
+
+  // ========================================
+  // Room setup
+  // ========================================
+
+  /**
+   * Set up an angel room: decide who hosts it, build the offer and place the NPC
+   */
+  enterSpecialRoom(): SpecialRoomType {
+    const rng = randomStreams.get("rooms");
+    const availableAbilityIds = this.eventHandlers.getAvailableAbilityIds();
+
+    let roomType = rollSpecialRoomType(rng, this.bossRoomResult);
+    this.bossRoomResult = null;
+
+    let offer: SpecialRoomOffer | null = null;
+    if (roomType === "devil") {
+      offer = createDevilOffer(rng, availableAbilityIds, this.player.getMaxHealth());
+    }
+    if (!offer) {
+      // No devil abilities left to trade - the angel shows up instead
+      roomType = "angel";
+      offer = createAngelOffer(rng, availableAbilityIds);
+    }
+
+    this.currentOffer = offer;
+    if (roomType === "devil") {
+      this.runStats.devilRoomsSeen++;
+    }
+    this.spawnNpc(roomType);
+
+    console.log(`SpecialRoomManager: ${roomType} room with ${offer.choices.length} choices`);
+    return roomType;
+  }
+
+  private spawnNpc(roomType: SpecialRoomType): void {
+    const width = this.scene.cameras.main.width;
+    const textureKey = roomType === "devil" ? "npcDevil" : "npcAngel";
+    this.ensureNpcTexture(textureKey, roomType);
+
+    this.npcSprite = this.scene.add.sprite(width / 2, this.NPC_Y, textureKey);
+    this.scene.physics.add.existing(this.npcSprite, true);
+    const body = this.npcSprite.body as Phaser.Physics.Arcade.StaticBody;
+    body.setCircle(24, this.npcSprite.width / 2 - 24, this.npcSprite.height / 2 - 24);
+
+    this.scene.physics.add.overlap(
+      this.player,
+      this.npcSprite,
+      this.openChoice as Phaser.Types.Physics.Arcade.ArcadePhysicsCallback,
+      undefined,
+      this,
+    );
+
+    this.npcText = this.scene.add
+      .text(width / 2, this.NPC_Y + 40, roomType === "devil" ? "DEVIL" : "ANGEL", {
+        fontSize: "12px",
+        color: roomType === "devil" ? "#ff4466" : "#ffdd66",
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
+
+    // Hover animation
+    this.scene.tweens.add({
+      targets: this.npcSprite,
+      y: { from: this.NPC_Y - 4, to: this.NPC_Y + 4 },
+      duration: 900,
+      yoyo: true,
+      repeat: -1,
+      ease: "Sine.easeInOut",
+    });
+  }
+
+  /**
+   * NPC textures are drawn once per game (no art assets for them)
+   */
+  private ensureNpcTexture(key: string, roomType: SpecialRoomType): void {
+    if (this.scene.textures.exists(key)) return;
+
+    const graphics = this.scene.make.graphics({ x: 0, y: 0 }, false);
+    if (roomType === "devil") {
+      graphics.fillStyle(0xcc2244, 1);
+      graphics.fillTriangle(10, 18, 16, 0, 22, 16);
+      graphics.fillTriangle(42, 16, 48, 0, 54, 18);
+      graphics.fillCircle(32, 36, 22);
+      graphics.fillStyle(0xffdd00, 1);
+      graphics.fillCircle(24, 32, 3);
+      graphics.fillCircle(40, 32, 3);
+    } else {
+      graphics.lineStyle(3, 0xffdd66, 1);
+      graphics.strokeEllipse(32, 8, 28, 8);
+      graphics.fillStyle(0xffffff, 1);
+      graphics.fillCircle(32, 36, 22);
+      graphics.fillStyle(0x66aaff, 1);
+      graphics.fillCircle(24, 32, 3);
+      graphics.fillCircle(40, 32, 3);
+    }
+    graphics.generateTexture(key, 64, 64);
+    graphics.destroy();
+  }
+
+  // ========================================
+  // Choice flow
+  // ========================================
+
+  private openChoice(): void {
+    if (!this.currentOffer || this.isChoosing) return;
+    this.isChoosing = true;
+
+    this.player.setVelocity(0, 0);
+    this.eventHandlers.onSpecialRoomChoiceStarted();
+    this.scene.physics.pause();
+
+    // During replay playback the recorded choice is dispatched by GameScene instead
+    if (replayManager.isPlaying()) return;
+    this.scene.scene.launch("SpecialRoomScene", {
+      offer: this.currentOffer,
+      maxHealth: this.player.getMaxHealth(),
+    });
+  }
+
+  private handleChoice(data: { choiceId: string }): void {
+    if (!this.currentOffer || !this.isChoosing) return;
+
+    const choice = this.currentOffer.choices.find((c) => c.id === data.choiceId);
+    try {
+      if (choice) {
+        this.applyChoice(choice);
+      } else {
+        console.warn(`SpecialRoomManager: Unknown choice "${data.choiceId}"`);
+      }
+    } catch (error) {
+      console.error("SpecialRoomManager: Error applying choice:", error);
+    }
+
+    this.isChoosing = false;
+    this.currentOffer = null;
+    this.destroyNpc();
+    this.scene.physics.resume();
+    this.eventHandlers.onSpecialRoomChoiceCompleted();
+    this.eventHandlers.onSpecialRoomResolved();
+  }
+
+  private applyChoice(choice: SpecialRoomChoice): void {
+    switch (choice.kind) {
+      case "heal":
+        this.player.heal(Math.floor(this.player.getMaxHealth() * (choice.healPercent ?? 0)));
+        this.runStats.angelHeals++;
+        break;
+      case "ability":
+        this.eventHandlers.onSpecialRoomAbility(choice.abilityId!);
+        this.runStats.angelAbilities++;
+        break;
+      case "devilDeal":
+        this.player.removeMaxHealthBonus(choice.maxHealthCost ?? 0);
+        this.eventHandlers.onSpecialRoomAbility(choice.abilityId!);
+        this.runStats.devilDealsAccepted++;
+        break;
+      case "decline":
+        break;
+    }
+    console.log(`SpecialRoomManager: Chose ${choice.kind}`, choice.abilityId ?? "");
+  }
+
+  // ========================================
+  // Cleanup
+  // ========================================
+
+  /**
+   * Remove the NPC (room cleanup or choice made)
+   */
+  cleanupRoom(): void {
+    this.currentOffer = null;
+    this.isChoosing = false;
+    this.destroyNpc();
+  }
+
+  private destroyNpc(): void {
+    if (this.npcSprite) {
+      this.scene.tweens.killTweensOf(this.npcSprite);
+      this.npcSprite.destroy();
+      this.npcSprite = null;
+    }
+    if (this.npcText) {
+      this.npcText.destroy();
+      this.npcText = null;
+    }
+  }
+
+  destroy(): void {
+    this.scene.game.events.off("specialRoomChoice", this.handleChoice);
+    this.destroyNpc();
+  }
+}
@@ -40,6 +40,11 @@ export {
   type TutorialSystemConfig,
   type TutorialEventHandlers,
 } from "./TutorialSystem";
+export {
+  HeroSkillSystem,
+  type HeroSkillSystemConfig,
+  type HeroSkillEventHandlers,
+} from "./HeroSkillSystem";
 export { PickupSystem, type PickupSystemConfig, type PickupEventHandlers } from "./PickupSystem";
 export { RunEndSystem, type RunEndSystemConfig, type RunEndEventHandlers } from "./RunEndSystem";
 export {
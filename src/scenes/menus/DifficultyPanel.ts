@@ -114,16 +114,26 @@ export class DifficultyPanel {
     this.selectedDifficulty = difficulty;
     setDifficulty(this.game, difficulty);
     saveManager.setDifficulty(difficulty);
+    this.updateButtonStyles();
 
-    // Update all button styles
+    this.onDifficultySelect?.(difficulty);
+  }
+
+  private updateButtonStyles(): void {
     this.buttons.forEach((btn) => {
       const config = DIFFICULTY_CONFIGS[btn.difficulty];
       btn.button.setStyle({
-        backgroundColor: btn.difficulty === difficulty ? config.color : "#444444",
+        backgroundColor: btn.difficulty === this.selectedDifficulty ? config.color : "#444444",
       });
     });
+  }
 
-    this.onDifficultySelect?.(difficulty);
+  /**
+   * Show a difficulty that was selected elsewhere (e.g. by a loadout)
+   */
+  setSelectedDifficulty(difficulty: DifficultyLevel): void {
+    this.selectedDifficulty = difficulty;
+    this.updateButtonStyles();
   }
 
   /**
@@ -3,6 +3,19 @@ import { audioManager } from "../../systems/AudioManager";
 import { THEME_ASSETS, THEME_COLORS } from "../../config/themeData";
 import { applyButtonEffects } from "../../systems/UIAnimations";
 import { DifficultyPanel } from "./DifficultyPanel";
+import { dailyChallengeManager } from "../../systems/DailyChallengeManager";
+import { getDailyModifier } from "../../config/dailyChallengeData";
+import { getHeroDefinition } from "../../config/heroData";
+import {
+  BOSS_RUSH_MIN_BOSSES,
+  getBossRushLineup,
+  isBossRushUnlocked,
+} from "../../config/bossRushData";
+import { saveManager } from "../../systems/SaveManager";
+import { loadoutManager } from "../../systems/LoadoutManager";
+import { isSameLoadout } from "../../config/loadoutData";
+import { getCurrentDifficulty } from "../../config/difficulty";
+import { showLoadoutModal } from "../../ui/components/LoadoutModal";
 
 export interface PlaySectionConfig {
   scene: Phaser.Scene;
@@ -10,6 +23,10 @@ export interface PlaySectionConfig {
   y: number;
   width: number;
   onPlay: () => void;
+  onCampaign?: () => void;
+  onBossRush?: () => void;
+  onDailyChallenge?: () => void;
+  onPlaySeed?: () => void;
   depth?: number;
 }
 
@@ -18,11 +35,29 @@ export interface PlaySectionResult {
   destroy: () => void;
 }
 
+/** Holding a loadout chip this long opens its edit dialog */
+const LOADOUT_HOLD_MS = 500;
+
+/** Longest loadout name shown on a chip */
+const LOADOUT_CHIP_NAME_LENGTH = 9;
+
 /**
- * PlaySection - Contains difficulty selector and PLAY button (endless mode only)
+ * PlaySection - Contains difficulty selector, PLAY button (endless mode),
+ * the Campaign and Boss Rush buttons, the Daily Challenge entry, the seed
+ * entry link and the loadout presets row
  */
 export function createPlaySection(config: PlaySectionConfig): PlaySectionResult {
-  const { scene, x, y, onPlay, depth = 10 } = config;
+  const {
+    scene,
+    x,
+    y,
+    onPlay,
+    onCampaign,
+    onBossRush,
+    onDailyChallenge,
+    onPlaySeed,
+    depth = 10,
+  } = config;
 
   const container = scene.add.container(x, y);
   container.setDepth(depth);
@@ -71,6 +106,61 @@ export function createPlaySection(config: PlaySectionConfig): PlaySectionResult
     onPlay();
   });
 
+  // Campaign and Boss Rush share a row
+  const modeButtonOffset = onCampaign && onBossRush ? 72 : 0;
+
+  if (onCampaign) {
+    const campaignButton = scene.add.text(-modeButtonOffset, playButtonY + 58, "CAMPAIGN", {
+      fontSize: "15px",
+      color: "#ffffff",
+      backgroundColor: "#6a1b9a",
+      padding: { x: 24, y: 6 },
+      fontStyle: "bold",
+    });
+    campaignButton.setOrigin(0.5);
+    campaignButton.setInteractive({ useHandCursor: true });
+    container.add(campaignButton);
+
+    applyButtonEffects(scene, campaignButton, {
+      scaleOnHover: 1.05,
+      scaleOnPress: 0.95,
+    });
+
+    campaignButton.on("pointerdown", () => {
+      audioManager.playMenuSelect();
+      onCampaign();
+    });
+  }
+
+  if (onBossRush) {
+    createBossRushEntry(scene, container, modeButtonOffset, playButtonY + 58, onBossRush);
+  }
+
+  if (onDailyChallenge) {
+    createDailyChallengeEntry(scene, container, playButtonY + 108, onDailyChallenge);
+  }
+
+  if (onPlaySeed) {
+    const seedLink = scene.add.text(0, playButtonY + 183, "🎲 Play a Seed", {
+      fontSize: "13px",
+      color: "#cccccc",
+      stroke: "#000000",
+      strokeThickness: 2,
+    });
+    seedLink.setOrigin(0.5);
+    seedLink.setInteractive({ useHandCursor: true });
+    container.add(seedLink);
+
+    seedLink.on("pointerover", () => seedLink.setColor("#ffffff"));
+    seedLink.on("pointerout", () => seedLink.setColor("#cccccc"));
+    seedLink.on("pointerdown", () => {
+      audioManager.playMenuSelect();
+      onPlaySeed();
+    });
+  }
+
+  createLoadoutRow(scene, container, playButtonY + 212, difficultyPanel);
+
   const destroy = () => {
     difficultyPanel.destroy();
     container.destroy();
@@ -81,3 +171,271 @@ export function createPlaySection(config: PlaySectionConfig): PlaySectionResult
     destroy,
   };
 }
+
+/**
+ * Boss Rush button, locked until enough bosses have been defeated
+ */
+function createBossRushEntry(
+  scene: Phaser.Scene,
+  container: Phaser.GameObjects.Container,
+  x: number,
+  y: number,
+  onBossRush: () => void,
+): void {
+  const lineup = getBossRushLineup((bossId) => saveManager.getBossKillCount(bossId));
+  const unlocked = isBossRushUnlocked(lineup);
+
+  const button = scene.add.text(x, y, unlocked ? "BOSS RUSH" : "🔒 BOSS RUSH", {
+    fontSize: "15px",
+    color: unlocked ? "#ffffff" : "#999999",
+    backgroundColor: unlocked ? "#b71c1c" : "#444444",
+    padding: { x: 18, y: 6 },
+    fontStyle: "bold",
+  });
+  button.setOrigin(0.5);
+  container.add(button);
+
+  if (!unlocked) {
+    const hint = scene.add.text(
+      x,
+      y + 22,
+      `Defeat ${BOSS_RUSH_MIN_BOSSES} bosses (${lineup.length}/${BOSS_RUSH_MIN_BOSSES})`,
+      {
+        fontSize: "10px",
+        color: "#999999",
+        stroke: "#000000",
+        strokeThickness: 2,
+      },
+    );
+    hint.setOrigin(0.5, 0);
+    container.add(hint);
+    return;
+  }
+
+  button.setInteractive({ useHandCursor: true });
+  applyButtonEffects(scene, button, {
+    scaleOnHover: 1.05,
+    scaleOnPress: 0.95,
+  });
+
+  button.on("pointerdown", () => {
+    audioManager.playGameStart();
+    onBossRush();
+  });
+}
+
+/**
+ * Daily Challenge button with today's hero, modifiers and best score
+ */
+function createDailyChallengeEntry(
+  scene: Phaser.Scene,
+  container: Phaser.GameObjects.Container,
+  y: number,
+  onDailyChallenge: () => void,
+): void {
+  const challenge = dailyChallengeManager.getChallenge();
+  const todayRecord = dailyChallengeManager.getTodayRecord();
+
+  const button = scene.add.text(0, y, "DAILY CHALLENGE", {
+    fontSize: "16px",
+    color: "#ffffff",
+    backgroundColor: "#1565c0",
+    padding: { x: 20, y: 8 },
+    fontStyle: "bold",
+  });
+  button.setOrigin(0.5);
+  button.setInteractive({ useHandCursor: true });
+  container.add(button);
+
+  applyButtonEffects(scene, button, {
+    scaleOnHover: 1.05,
+    scaleOnPress: 0.95,
+  });
+
+  button.on("pointerdown", () => {
+    audioManager.playGameStart();
+    onDailyChallenge();
+  });
+
+  const heroName = getHeroDefinition(challenge.heroId).name;
+  const modifierNames = challenge.modifierIds.map((id) => getDailyModifier(id).name).join(" + ");
+  const bestText =
+    todayRecord.attempts > 0
+      ? `Best today: ${todayRecord.bestScore.toLocaleString()}`
+      : "Not played yet";
+
+  const details = scene.add.text(0, y + 30, `${heroName} • ${modifierNames}\n${bestText}`, {
+    fontSize: "11px",
+    color: "#aaccff",
+    align: "center",
+    stroke: "#000000",
+    strokeThickness: 2,
+  });
+  details.setOrigin(0.5, 0);
+  container.add(details);
+}
+
+// ============================================
+// Loadouts
+// ============================================
+
+/**
+ * Row of loadout chips: tap to switch, hold to rename, update or delete,
+ * and "+" to save the current setup
+ */
+function createLoadoutRow(
+  scene: Phaser.Scene,
+  container: Phaser.GameObjects.Container,
+  y: number,
+  difficultyPanel: DifficultyPanel,
+): void {
+  const row = scene.add.container(0, y);
+  container.add(row);
+
+  const status = scene.add.text(0, y + 22, "", {
+    fontSize: "10px",
+    color: "#aaaaaa",
+    stroke: "#000000",
+    strokeThickness: 2,
+  });
+  status.setOrigin(0.5, 0);
+  container.add(status);
+
+  const render = (message?: string) => {
+    row.removeAll(true);
+
+    const loadouts = loadoutManager.getLoadouts();
+    const current = loadoutManager.captureLoadout();
+    const chips: Phaser.GameObjects.Text[] = [];
+
+    for (const loadout of loadouts) {
+      const isCurrent = isSameLoadout(loadout, current);
+      const name =
+        loadout.name.length > LOADOUT_CHIP_NAME_LENGTH
+          ? `${loadout.name.slice(0, LOADOUT_CHIP_NAME_LENGTH - 1)}…`
+          : loadout.name;
+      const chip = scene.add.text(0, 0, name, {
+        fontSize: "11px",
+        color: isCurrent ? "#ffffff" : "#cccccc",
+        backgroundColor: isCurrent ? "#2e7d32" : "#333344",
+        padding: { x: 6, y: 4 },
+        fontStyle: isCurrent ? "bold" : "normal",
+      });
+      chip.setOrigin(0.5);
+      chip.setInteractive({ useHandCursor: true });
+      addHoldHandlers(
+        scene,
+        chip,
+        () => {
+          audioManager.playMenuSelect();
+          const issues = loadoutManager.applyLoadout(loadout);
+          difficultyPanel.setSelectedDifficulty(getCurrentDifficulty(scene.game));
+          render(
+            issues.length > 0 ? `✓ ${loadout.name} (${issues.join(", ")})` : `✓ ${loadout.name}`,
+          );
+        },
+        () => {
+          audioManager.playMenuSelect();
+          showLoadoutModal({
+            scene,
+            loadout,
+            onSave: (newName) => {
+              loadoutManager.renameLoadout(loadout.id, newName);
+              render();
+            },
+            onUpdate: (newName) => {
+              loadoutManager.updateLoadout(loadout.id, loadoutManager.captureLoadout());
+              loadoutManager.renameLoadout(loadout.id, newName);
+              render(`Saved ${loadoutManager.getLoadout(loadout.id)?.name ?? newName}`);
+            },
+            onDelete: () => {
+              loadoutManager.deleteLoadout(loadout.id);
+              render();
+            },
+          });
+        },
+      );
+      chips.push(chip);
+    }
+
+    if (loadoutManager.canAddLoadout()) {
+      const addChip = scene.add.text(0, 0, loadouts.length === 0 ? "+ LOADOUT" : "+", {
+        fontSize: "11px",
+        color: "#ffffff",
+        backgroundColor: "#1565c0",
+        padding: { x: 8, y: 4 },
+        fontStyle: "bold",
+      });
+      addChip.setOrigin(0.5);
+      addChip.setInteractive({ useHandCursor: true });
+      addChip.on("pointerdown", () => {
+        audioManager.playMenuSelect();
+        showLoadoutModal({
+          scene,
+          defaultName: loadoutManager.getNextLoadoutName(),
+          onSave: (name) => {
+            const loadout = loadoutManager.addLoadout(name, loadoutManager.captureLoadout());
+            render(loadout ? `Saved ${loadout.name}` : undefined);
+          },
+        });
+      });
+      chips.push(addChip);
+    }
+
+    // Center the chips in one row
+    const gap = 6;
+    const totalWidth = chips.reduce((sum, chip) => sum + chip.width, 0) + gap * (chips.length - 1);
+    let x = -totalWidth / 2;
+    for (const chip of chips) {
+      chip.setX(x + chip.width / 2);
+      x += chip.width + gap;
+    }
+    row.add(chips);
+
+    status.setText(
+      message ??
+        (loadouts.length > 0
+          ? "Loadouts: tap to switch • hold to edit"
+          : "Save your hero, gear and priority as a loadout"),
+    );
+  };
+
+  render();
+}
+
+/**
+ * Call onTap for a short press and onHold once a press lasts LOADOUT_HOLD_MS
+ */
+function addHoldHandlers(
+  scene: Phaser.Scene,
+  target: Phaser.GameObjects.Text,
+  onTap: () => void,
+  onHold: () => void,
+): void {
+  let holdTimer: Phaser.Time.TimerEvent | null = null;
+  let held = false;
+
+  const cancel = () => {
+    holdTimer?.remove();
+    holdTimer = null;
+  };
+
+  target.on("pointerdown", () => {
+    held = false;
+    cancel();
+    holdTimer = scene.time.delayedCall(LOADOUT_HOLD_MS, () => {
+      held = true;
+      holdTimer = null;
+      onHold();
+    });
+  });
+  target.on("pointerup", () => {
+    const pressed = holdTimer !== null;
+    cancel();
+    if (pressed && !held) {
+      onTap();
+    }
+  });
+  target.on("pointerout", cancel);
+  target.once("destroy", cancel);
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ABILITIES } from "../config/abilityData";
+import {
+  AbilityEffectRegistry,
+  abilityEffectRegistry,
+  resolveLevelValue,
+} from "./AbilityEffectRegistry";
+import { PlayerStats } from "./PlayerStats";
+
+describe("AbilityEffectRegistry", () => {
+  let registry: AbilityEffectRegistry;
+  let stats: PlayerStats;
+
+  beforeEach(() => {
+    registry = new AbilityEffectRegistry();
+    stats = new PlayerStats();
+  });
+
+  describe("built-in abilities", () => {
+    it("registers every ability in abilityData with at least one effect", () => {
+      for (const ability of ABILITIES) {
+        expect(abilityEffectRegistry.has(ability.id), ability.id).toBe(true);
+        expect(abilityEffectRegistry.getEffects(ability.id).length, ability.id).toBeGreaterThan(0);
+      }
+    });
+
+    it("applies every ability to PlayerStats", () => {
+      for (const ability of ABILITIES) {
+        expect(stats.applyAbility(ability.id), ability.id).toBe(true);
+      }
+    });
+  });
+
+  describe("stat modifiers", () => {
+    it("stacks additively up to the cap", () => {
+      registry.register("test", [
+        { kind: "stat", stat: "rotatingOrbCount", stacking: "add", value: 2, cap: 5 },
+      ]);
+      for (let level = 1; level <= 4; level++) {
+        registry.apply("test", level, stats);
+      }
+      expect(stats.getRotatingOrbCount()).toBe(5);
+    });
+
+    it("stacks multiplicatively", () => {
+      registry.register("test", [
+        { kind: "stat", stat: "damageMultiplier", stacking: "multiply", value: 1.5 },
+      ]);
+      registry.apply("test", 1, stats);
+      registry.apply("test", 2, stats);
+      expect(stats.getDamage()).toBe(22); // floor(10 * 2.25)
+    });
+
+    it("sets flags", () => {
+      registry.register("test", [{ kind: "stat", stat: "throughWall", stacking: "set", value: 1 }]);
+      registry.apply("test", 1, stats);
+      expect(stats.isThroughWallEnabled()).toBe(true);
+    });
+
+    it("reads per-level tables, repeating the last entry", () => {
+      registry.register("test", [
+        { kind: "stat", stat: "ricochetBounces", stacking: "add", value: [1, 2, 4] },
+      ]);
+      const bounces: number[] = [];
+      for (let level = 1; level <= 4; level++) {
+        registry.apply("test", level, stats);
+        bounces.push(stats.getRicochetBounces());
+      }
+      expect(bounces).toEqual([1, 3, 7, 11]);
+    });
+  });
+
+  describe("max health effects", () => {
+    it("scales max HP and heals the gain", () => {
+      stats.takeDamage(50);
+      registry.register("test", [{ kind: "maxHealth", mode: "multiply", value: 1.2 }]);
+      registry.apply("test", 1, stats);
+      expect(stats.getMaxHealth()).toBe(120);
+      expect(stats.getHealth()).toBe(70);
+    });
+
+    it("caps max HP and current HP", () => {
+      const tanky = new PlayerStats({ maxHealth: 300 });
+      registry.register("test", [{ kind: "maxHealth", mode: "cap", value: 100 }]);
+      registry.apply("test", 1, tanky);
+      expect(tanky.getMaxHealth()).toBe(100);
+      expect(tanky.getHealth()).toBe(100);
+    });
+  });
+
+  describe("apply()", () => {
+    it("does nothing past maxLevel", () => {
+      registry.register(
+        "test",
+        [{ kind: "stat", stat: "extraLives", stacking: "add", value: 1 }],
+        1,
+      );
+      expect(registry.apply("test", 1, stats)).toBe(true);
+      expect(registry.apply("test", 2, stats)).toBe(false);
+      expect(stats.getExtraLives()).toBe(1);
+    });
+
+    it("rejects unknown abilities", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      expect(registry.apply("missing", 1, stats)).toBe(false);
+      warn.mockRestore();
+    });
+  });
+
+  describe("hooks", () => {
+    it("runs Bloodthirst's on-kill heal only on kills", () => {
+      stats = new PlayerStats({ maxHealth: 200 });
+      stats.takeDamage(100);
+      stats.applyAbility("bloodthirst");
+
+      expect(stats.runAbilityHook("onHit").healed).toBe(0);
+      expect(stats.runAbilityHook("onRoomClear").healed).toBe(0);
+      expect(stats.runAbilityHook("onKill").healed).toBe(2); // 1% of 200
+      expect(stats.getHealth()).toBe(102);
+    });
+
+    it("stops running hooks after a reset", () => {
+      stats.applyAbility("bloodthirst");
+      stats.resetRunStats();
+      expect(stats.runAbilityHook("onKill").healed).toBe(0);
+    });
+  });
+
+  describe("resolveLevelValue()", () => {
+    it("returns plain numbers for every level", () => {
+      expect(resolveLevelValue(3, 1)).toBe(3);
+      expect(resolveLevelValue(3, 10)).toBe(3);
+    });
+
+    it("indexes tables from level 1", () => {
+      expect(resolveLevelValue([5, 10], 1)).toBe(5);
+      expect(resolveLevelValue([5, 10], 2)).toBe(10);
+      expect(resolveLevelValue([5, 10], 3)).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  ABILITIES,
+  ABILITY_EVOLUTIONS,
+  AbilityEffect,
+  AbilityHookEffect,
+  AbilityHookId,
+  AbilityStatId,
+  StatStacking,
+} from "../config/abilityData";
+
+/**
+ * What the registry applies ability effects to (implemented by PlayerStats)
+ */
+export interface AbilityEffectTarget {
+  modifyStat(stat: AbilityStatId, stacking: StatStacking, value: number, cap?: number): void;
+  scaleMaxHealth(multiplier: number): void;
+  capMaxHealth(cap: number): void;
+}
+
+interface RegisteredAbility {
+  effects: AbilityEffect[];
+  maxLevel?: number;
+}
+
+/**
+ * AbilityEffectRegistry - Applies the effects abilities declare in abilityData.ts
+ *
+ * Pure logic (no Phaser), so it is shared by PlayerStats and unit tests.
+ * Adding an ability that only combines existing stats and hooks needs no code:
+ * its AbilityData entry is registered automatically.
+ */
+export class AbilityEffectRegistry {
+  private abilities: Map<string, RegisteredAbility> = new Map();
+
+  constructor(abilities: { id: string; effects: AbilityEffect[]; maxLevel?: number }[] = []) {
+    for (const ability of abilities) {
+      this.register(ability.id, ability.effects, ability.maxLevel);
+    }
+  }
+
+  /**
+   * Register (or replace) an ability's effects
+   */
+  register(abilityId: string, effects: AbilityEffect[], maxLevel?: number): void {
+    this.abilities.set(abilityId, { effects, maxLevel });
+  }
+
+  has(abilityId: string): boolean {
+    return this.abilities.has(abilityId);
+  }
+
+  getEffects(abilityId: string): readonly AbilityEffect[] {
+    return this.abilities.get(abilityId)?.effects ?? [];
+  }
+
+  /**
+   * Hook effects an ability runs on the given event
+   */
+  getHookEffects(abilityId: string, hook: AbilityHookId): AbilityHookEffect[] {
+    return this.getEffects(abilityId).filter(
+      (effect): effect is AbilityHookEffect => effect.kind === "hook" && effect.hook === hook,
+    );
+  }
+
+  /**
+   * Apply one level of an ability
+   * @param level The level being reached (1 = first time taken)
+   * @returns false for unknown abilities and levels past maxLevel (nothing applied)
+   */
+  apply(abilityId: string, level: number, target: AbilityEffectTarget): boolean {
+    const ability = this.abilities.get(abilityId);
+    if (!ability) {
+      console.warn(`AbilityEffectRegistry: Unknown ability "${abilityId}"`);
+      return false;
+    }
+    if (ability.maxLevel !== undefined && level > ability.maxLevel) {
+      return false;
+    }
+
+    for (const effect of ability.effects) {
+      switch (effect.kind) {
+        case "stat":
+          target.modifyStat(
+            effect.stat,
+            effect.stacking,
+            resolveLevelValue(effect.value, level),
+            effect.cap,
+          );
+          break;
+        case "maxHealth":
+          if (effect.mode === "multiply") {
+            target.scaleMaxHealth(effect.value);
+          } else {
+            target.capMaxHealth(effect.value);
+          }
+          break;
+        case "hook":
+          // Hooks run on their gameplay event, see PlayerStats.runAbilityHook
+          break;
+      }
+    }
+    return true;
+  }
+}
+
+/**
+ * Value of a modifier at a given level. Tables are indexed from level 1 and
+ * keep using their last entry past the end.
+ */
+export function resolveLevelValue(value: number | number[], level: number): number {
+  if (typeof value === "number") return value;
+  if (value.length === 0) {
+    throw new Error("Ability effect level table must not be empty");
+  }
+  const index = Math.min(Math.max(level, 1), value.length) - 1;
+  return value[index];
+}
+
+// Export singleton instance with every ability and evolution from abilityData.ts
+export const abilityEffectRegistry = new AbilityEffectRegistry([
+  ...ABILITIES,
+  ...ABILITY_EVOLUTIONS,
+]);
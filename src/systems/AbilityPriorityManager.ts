@@ -11,6 +11,7 @@
  */
 
 import { ABILITIES, AbilityData } from "../config/abilityData";
+import { storageService, STORAGE_KEYS } from "./storage";
 
 // ============================================
 // Type Definitions
@@ -40,8 +41,8 @@ export type AbilityPriorityEventCallback = (priorityOrder: string[]) => void;
 // Constants
 // ============================================
 
-/** localStorage key for ability priority data persistence */
-const STORAGE_KEY = "aura_archer_ability_priority_data";
+/** Storage record key for ability priority data persistence */
+const STORAGE_KEY = STORAGE_KEYS.abilityPriority;
 
 // ============================================
 // AbilityPriorityManager Class
@@ -61,6 +62,7 @@ class AbilityPriorityManager {
 
   private constructor() {
     this.loadFromStorage();
+    storageService.register(STORAGE_KEY, () => this.loadFromStorage());
   }
 
   /**
@@ -193,6 +195,17 @@ class AbilityPriorityManager {
     this.saveToStorage();
   }
 
+  /**
+   * Replace all priority max levels (e.g. when switching loadouts)
+   * @param maxLevels Record of ability ID to max level (0 = no limit)
+   */
+  setPriorityMaxLevels(maxLevels: Record<string, number>): void {
+    this.priorityMaxLevels = Object.fromEntries(
+      Object.entries(maxLevels).filter(([, level]) => level > 0),
+    );
+    this.saveToStorage();
+  }
+
   /**
    * Get all priority max levels
    * @returns Record of ability ID to max level
@@ -259,25 +272,23 @@ class AbilityPriorityManager {
   // ============================================
 
   /**
-   * Save current state to localStorage
+   * Save current state to storage
    */
   private saveToStorage(): void {
     const saveData: AbilityPrioritySaveData = {
       priorityOrder: this.priorityOrder,
       priorityMaxLevels: this.priorityMaxLevels,
     };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(saveData));
+    storageService.set(STORAGE_KEY, saveData);
   }
 
   /**
-   * Load state from localStorage
+   * Load state from storage
    */
   private loadFromStorage(): void {
-    const stored = localStorage.getItem(STORAGE_KEY);
-
-    if (stored) {
+    if (storageService.has(STORAGE_KEY)) {
       try {
-        const saveData: AbilityPrioritySaveData = JSON.parse(stored);
+        const saveData = storageService.get<AbilityPrioritySaveData>(STORAGE_KEY)!;
         this.priorityOrder = saveData.priorityOrder || [];
         this.priorityMaxLevels = saveData.priorityMaxLevels || {};
 
@@ -324,7 +335,7 @@ class AbilityPriorityManager {
    * Clear all saved data (for testing)
    */
   clearSaveData(): void {
-    localStorage.removeItem(STORAGE_KEY);
+    storageService.remove(STORAGE_KEY);
     this.resetToDefault();
   }
 }
@@ -17,6 +17,7 @@ import { currencyManager } from "./CurrencyManager";
 import { equipmentManager } from "./EquipmentManager";
 import { talentManager } from "./TalentManager";
 import { heroManager } from "./HeroManager";
+import { storageService, STORAGE_KEYS } from "./storage";
 
 // ============================================
 // Types and Interfaces
@@ -54,7 +55,7 @@ export type AchievementEventCallback = (data: AchievementEventData) => void;
 // Constants
 // ============================================
 
-const STORAGE_KEY = "aura_archer_achievements";
+const STORAGE_KEY = STORAGE_KEYS.achievements;
 
 // ============================================
 // AchievementManager Class
@@ -73,6 +74,7 @@ export class AchievementManager {
     this.eventListeners = new Map();
 
     this.loadFromStorage();
+    storageService.register(STORAGE_KEY, () => this.loadFromStorage());
   }
 
   // ============================================
@@ -80,14 +82,15 @@ export class AchievementManager {
   // ============================================
 
   /**
-   * Load achievement data from localStorage
+   * Load achievement data from storage
    */
   private loadFromStorage(): void {
+    this.claimedTiers = new Map();
+    this.totalGoldEarned = 0;
+    this.totalGemsEarned = 0;
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (!stored) return;
-
-      const data = JSON.parse(stored) as AchievementSaveData;
+      const data = storageService.get<AchievementSaveData>(STORAGE_KEY);
+      if (!data) return;
 
       if (data.claimedTiers) {
         this.claimedTiers = new Map(Object.entries(data.claimedTiers));
@@ -101,7 +104,7 @@ export class AchievementManager {
   }
 
   /**
-   * Save achievement data to localStorage
+   * Save achievement data to storage
    */
   private saveToStorage(): void {
     try {
@@ -110,7 +113,7 @@ export class AchievementManager {
         totalGoldEarned: this.totalGoldEarned,
         totalGemsEarned: this.totalGemsEarned,
       };
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+      storageService.set(STORAGE_KEY, data);
     } catch (error) {
       console.warn("AchievementManager: Failed to save to storage:", error);
     }
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for BossRushManager
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  BossRushManager,
+  compareBossRushEntries,
+  type BossRushLeaderboardEntry,
+} from "./BossRushManager";
+import {
+  BOSS_RUSH_LEADERBOARD_SIZE,
+  formatBossRushTime,
+  getBossRushLineup,
+  isBossRushUnlocked,
+} from "../config/bossRushData";
+import type { BossId } from "../config/bossData";
+
+const DETAILS = { heroId: "atreus", difficulty: "normal" };
+
+function createEntry(overrides: Partial<BossRushLeaderboardEntry>): BossRushLeaderboardEntry {
+  return {
+    bossesDefeated: 3,
+    lineupSize: 3,
+    totalTimeMs: 60000,
+    splits: [],
+    heroId: "atreus",
+    difficulty: "normal",
+    finishedAt: 0,
+    ...overrides,
+  };
+}
+
+describe("BossRushManager", () => {
+  let manager: BossRushManager;
+
+  beforeEach(() => {
+    localStorage.clear();
+    manager = new BossRushManager();
+  });
+
+  describe("lineup", () => {
+    it("should use every defeated boss in chapter order", () => {
+      const kills: Partial<Record<BossId, number>> = { void_lord: 1, demon: 2, ice_golem: 1 };
+      expect(getBossRushLineup((id) => kills[id] ?? 0)).toEqual([
+        "demon",
+        "ice_golem",
+        "void_lord",
+      ]);
+    });
+
+    it("should unlock once enough bosses are defeated", () => {
+      expect(isBossRushUnlocked(["demon", "wild_boar"])).toBe(false);
+      expect(isBossRushUnlocked(["demon", "wild_boar", "ice_golem"])).toBe(true);
+    });
+  });
+
+  describe("active run", () => {
+    it("should refuse an empty lineup", () => {
+      expect(() => manager.startRun([])).toThrow();
+    });
+
+    it("should record splits in lineup order only", () => {
+      manager.startRun(["demon", "wild_boar"]);
+      expect(manager.recordSplit("wild_boar", 1000)).toBeNull();
+      expect(manager.recordSplit("demon", 1000)?.isNewBest).toBe(true);
+      expect(manager.getActiveRun()?.splits).toEqual([{ bossId: "demon", timeMs: 1000 }]);
+    });
+
+    it("should ignore splits outside Boss Rush", () => {
+      expect(manager.recordSplit("demon", 1000)).toBeNull();
+      expect(manager.getBestSplit("demon")).toBeNull();
+    });
+  });
+
+  describe("personal best splits", () => {
+    it("should keep the fastest split per boss across rushes", () => {
+      manager.startRun(["demon"]);
+      manager.recordSplit("demon", 30000);
+      manager.finishRun(DETAILS);
+
+      manager.startRun(["demon"]);
+      const slower = manager.recordSplit("demon", 40000);
+      expect(slower).toEqual({ timeMs: 40000, previousBestMs: 30000, isNewBest: false });
+
+      manager.startRun(["demon"]);
+      expect(manager.recordSplit("demon", 25000)?.isNewBest).toBe(true);
+      expect(manager.getBestSplit("demon")).toBe(25000);
+    });
+
+    it("should persist splits immediately", () => {
+      manager.startRun(["demon"]);
+      manager.recordSplit("demon", 30000);
+      expect(new BossRushManager().getBestSplit("demon")).toBe(30000);
+    });
+  });
+
+  describe("leaderboard", () => {
+    it("should rank more bosses first, then faster times", () => {
+      const entries = [
+        createEntry({ bossesDefeated: 2, totalTimeMs: 10000 }),
+        createEntry({ bossesDefeated: 3, totalTimeMs: 90000 }),
+        createEntry({ bossesDefeated: 3, totalTimeMs: 50000 }),
+      ].sort(compareBossRushEntries);
+      expect(entries.map((entry) => entry.totalTimeMs)).toEqual([50000, 90000, 10000]);
+    });
+
+    it("should add a finished rush with its total time and rank", () => {
+      manager.startRun(["demon", "wild_boar", "ice_golem"]);
+      manager.recordSplit("demon", 20000);
+      manager.recordSplit("wild_boar", 25000);
+
+      const result = manager.finishRun(DETAILS, 1234);
+      expect(result?.rank).toBe(1);
+      expect(result?.newBestSplits).toEqual(["demon", "wild_boar"]);
+      expect(result?.entry).toMatchObject({
+        bossesDefeated: 2,
+        lineupSize: 3,
+        totalTimeMs: 45000,
+        finishedAt: 1234,
+      });
+      expect(manager.getActiveRun()).toBeNull();
+      expect(new BossRushManager().getLeaderboard()).toHaveLength(1);
+    });
+
+    it("should not record a rush without a defeated boss", () => {
+      manager.startRun(["demon"]);
+      expect(manager.finishRun(DETAILS)).toBeNull();
+      expect(manager.getLeaderboard()).toEqual([]);
+    });
+
+    it("should keep only the best rushes", () => {
+      for (let i = 0; i <= BOSS_RUSH_LEADERBOARD_SIZE; i++) {
+        manager.startRun(["demon"]);
+        manager.recordSplit("demon", 10000 + i * 1000);
+        manager.finishRun(DETAILS, i);
+      }
+
+      manager.startRun(["demon"]);
+      manager.recordSplit("demon", 99000);
+      expect(manager.finishRun(DETAILS)?.rank).toBeNull();
+      expect(manager.getLeaderboard()).toHaveLength(BOSS_RUSH_LEADERBOARD_SIZE);
+      expect(manager.getLeaderboard()[0].totalTimeMs).toBe(10000);
+    });
+  });
+
+  describe("formatBossRushTime()", () => {
+    it("should format minutes, seconds and tenths", () => {
+      expect(formatBossRushTime(0)).toBe("0:00.0");
+      expect(formatBossRushTime(65432)).toBe("1:05.4");
+      expect(formatBossRushTime(600000)).toBe("10:00.0");
+    });
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * BossRushManager - Manages Boss Rush runs and records.
+ * Tracks the rush being played (lineup and splits), the personal best split
+ * per boss, and the leaderboard of finished rushes.
+ * The rush in progress stays in memory only; best splits are saved as they
+ * happen and finished rushes when the run ends.
+ */
+
+import { storageService, STORAGE_KEYS } from "./storage";
+import type { BossId } from "../config/bossData";
+import { BOSS_RUSH_LEADERBOARD_SIZE } from "../config/bossRushData";
+
+// ============================================
+// Types and Interfaces
+// ============================================
+
+/** Time taken to defeat one boss */
+export interface BossRushSplit {
+  bossId: BossId;
+  timeMs: number;
+}
+
+/** The rush being played */
+export interface BossRushRun {
+  lineup: BossId[];
+  splits: BossRushSplit[];
+}
+
+/** One finished rush on the leaderboard */
+export interface BossRushLeaderboardEntry {
+  bossesDefeated: number;
+  lineupSize: number;
+  totalTimeMs: number;
+  splits: BossRushSplit[];
+  heroId: string;
+  difficulty: string;
+  finishedAt: number;
+}
+
+/** Save data structure for persistence */
+export interface BossRushSaveData {
+  /** Fastest kill per boss in Boss Rush (ms) */
+  bestSplits: Partial<Record<BossId, number>>;
+  /** Best rushes first, see compareBossRushEntries */
+  leaderboard: BossRushLeaderboardEntry[];
+}
+
+/** Outcome of defeating a boss in a rush */
+export interface BossRushSplitResult {
+  timeMs: number;
+  previousBestMs: number | null;
+  isNewBest: boolean;
+}
+
+/** Outcome of finishing a rush */
+export interface BossRushResult {
+  entry: BossRushLeaderboardEntry;
+  /** 1-based leaderboard position, or null if the rush did not make the board */
+  rank: number | null;
+  /** Bosses whose personal best split was beaten in this rush */
+  newBestSplits: BossId[];
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Storage record key for Boss Rush records */
+const BOSS_RUSH_STORAGE_KEY = STORAGE_KEYS.bossRush;
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Leaderboard order: more bosses defeated first, then faster total time,
+ * then the earlier rush
+ */
+export function compareBossRushEntries(
+  a: BossRushLeaderboardEntry,
+  b: BossRushLeaderboardEntry,
+): number {
+  return (
+    b.bossesDefeated - a.bossesDefeated ||
+    a.totalTimeMs - b.totalTimeMs ||
+    a.finishedAt - b.finishedAt
+  );
+}
+
+// ============================================
+// BossRushManager Class
+// ============================================
+
+export class BossRushManager {
+  private bestSplits: Partial<Record<BossId, number>> = {};
+  private leaderboard: BossRushLeaderboardEntry[] = [];
+  private activeRun: BossRushRun | null = null;
+  /** Bosses that got a new best split during the active run */
+  private newBestSplits: BossId[] = [];
+
+  constructor() {
+    this.loadFromStorage();
+    storageService.register(BOSS_RUSH_STORAGE_KEY, () => this.loadFromStorage());
+  }
+
+  // ============================================
+  // Persistence (StorageService)
+  // ============================================
+
+  /**
+   * Load Boss Rush records from storage
+   */
+  private loadFromStorage(): void {
+    this.bestSplits = {};
+    this.leaderboard = [];
+    try {
+      const data = storageService.get<BossRushSaveData>(BOSS_RUSH_STORAGE_KEY);
+      if (data?.bestSplits) {
+        this.bestSplits = data.bestSplits;
+      }
+      if (Array.isArray(data?.leaderboard)) {
+        this.leaderboard = data.leaderboard;
+      }
+    } catch (error) {
+      console.warn("BossRushManager: Failed to load from storage:", error);
+    }
+  }
+
+  /**
+   * Save Boss Rush records
+   */
+  private saveToStorage(): void {
+    try {
+      const data: BossRushSaveData = {
+        bestSplits: this.bestSplits,
+        leaderboard: this.leaderboard,
+      };
+      storageService.set(BOSS_RUSH_STORAGE_KEY, data);
+    } catch (error) {
+      console.warn("BossRushManager: Failed to save to storage:", error);
+    }
+  }
+
+  // ============================================
+  // Active Run
+  // ============================================
+
+  /**
+   * Start a rush against the given bosses, in order
+   */
+  startRun(lineup: BossId[]): BossRushRun {
+    if (lineup.length === 0) {
+      throw new Error("BossRushManager: A boss rush needs at least one boss");
+    }
+    this.activeRun = { lineup: [...lineup], splits: [] };
+    this.newBestSplits = [];
+    console.log(`BossRushManager: Starting boss rush with ${lineup.length} bosses`);
+    return this.activeRun;
+  }
+
+  /**
+   * The rush being played, or null outside Boss Rush
+   */
+  getActiveRun(): Readonly<BossRushRun> | null {
+    return this.activeRun;
+  }
+
+  /**
+   * Leave Boss Rush without recording a result
+   */
+  cancelRun(): void {
+    this.activeRun = null;
+    this.newBestSplits = [];
+  }
+
+  /**
+   * Record the time taken to defeat the active rush's next boss.
+   * Personal best splits are saved right away.
+   * Returns null if no rush is active or the boss is not the next in the lineup.
+   */
+  recordSplit(bossId: BossId, timeMs: number): BossRushSplitResult | null {
+    const run = this.activeRun;
+    if (!run) return null;
+    if (run.lineup[run.splits.length] !== bossId) {
+      console.warn(`BossRushManager: ${bossId} is not the next boss in the rush`);
+      return null;
+    }
+
+    run.splits.push({ bossId, timeMs });
+
+    const previousBestMs = this.bestSplits[bossId] ?? null;
+    const isNewBest = previousBestMs === null || timeMs < previousBestMs;
+    if (isNewBest) {
+      this.bestSplits[bossId] = timeMs;
+      this.newBestSplits.push(bossId);
+      this.saveToStorage();
+    }
+
+    return { timeMs, previousBestMs, isNewBest };
+  }
+
+  /**
+   * End the active rush (cleared, died or quit) and add it to the leaderboard.
+   * Returns null if no rush is active or no boss was defeated.
+   */
+  finishRun(
+    details: { heroId: string; difficulty: string },
+    currentTime: number = Date.now(),
+  ): BossRushResult | null {
+    const run = this.activeRun;
+    const newBestSplits = this.newBestSplits;
+    this.cancelRun();
+    if (!run || run.splits.length === 0) return null;
+
+    const entry: BossRushLeaderboardEntry = {
+      bossesDefeated: run.splits.length,
+      lineupSize: run.lineup.length,
+      totalTimeMs: run.splits.reduce((total, split) => total + split.timeMs, 0),
+      splits: run.splits,
+      heroId: details.heroId,
+      difficulty: details.difficulty,
+      finishedAt: currentTime,
+    };
+
+    this.leaderboard = [...this.leaderboard, entry]
+      .sort(compareBossRushEntries)
+      .slice(0, BOSS_RUSH_LEADERBOARD_SIZE);
+    const index = this.leaderboard.indexOf(entry);
+    this.saveToStorage();
+
+    return { entry, rank: index >= 0 ? index + 1 : null, newBestSplits };
+  }
+
+  // ============================================
+  // Records
+  // ============================================
+
+  /**
+   * Personal best split for a boss, or null if never defeated in Boss Rush
+   */
+  getBestSplit(bossId: BossId): number | null {
+    return this.bestSplits[bossId] ?? null;
+  }
+
+  /**
+   * Finished rushes, best first
+   */
+  getLeaderboard(): readonly BossRushLeaderboardEntry[] {
+    return this.leaderboard;
+  }
+
+  /**
+   * Reset all Boss Rush records (for testing)
+   */
+  reset(): void {
+    this.bestSplits = {};
+    this.leaderboard = [];
+    this.cancelRun();
+    this.saveToStorage();
+  }
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+/** Global singleton instance for use throughout the game */
+export const bossRushManager = new BossRushManager();
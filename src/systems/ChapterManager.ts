@@ -26,6 +26,7 @@ import {
   calculateStarRating,
   calculateChapterRewards as calculateRewardsFromData,
 } from "../config/chapterData";
+import { storageService, STORAGE_KEYS } from "./storage";
 
 // ============================================
 // Type Definitions
@@ -125,7 +126,7 @@ export type ChapterEventCallback = (data: ChapterEventData) => void;
 
 /** Default starting chapter */
 const DEFAULT_CHAPTER: ChapterId = 1;
-const CHAPTER_STORAGE_KEY = "aura_archer_chapter_data";
+const CHAPTER_STORAGE_KEY = STORAGE_KEYS.chapters;
 
 // ============================================
 // ChapterManager Class
@@ -158,10 +159,11 @@ export class ChapterManager {
 
     // Load from persistent storage
     this.loadFromStorage();
+    storageService.register(CHAPTER_STORAGE_KEY, () => this.loadFromStorage());
   }
 
   /**
-   * Save chapter data to localStorage
+   * Save chapter data to storage
    */
   private saveToStorage(): void {
     try {
@@ -170,20 +172,23 @@ export class ChapterManager {
         unlockedChapters: data.unlockedChapters,
         selectedChapter: data.selectedChapter,
       });
-      localStorage.setItem(CHAPTER_STORAGE_KEY, JSON.stringify(data));
+      storageService.set(CHAPTER_STORAGE_KEY, data);
     } catch (error) {
       console.error("ChapterManager: Failed to save data:", error);
     }
   }
 
   /**
-   * Load chapter data from localStorage
+   * Load chapter data from storage
    */
   private loadFromStorage(): void {
+    this.chapterProgress = new Map();
+    this.unlockedChapters = new Set([1]);
+    this.selectedChapter = DEFAULT_CHAPTER;
+    this.initializeChapterProgress(1);
     try {
-      const stored = localStorage.getItem(CHAPTER_STORAGE_KEY);
-      if (stored) {
-        const data = JSON.parse(stored) as ChapterSaveData;
+      const data = storageService.get<ChapterSaveData>(CHAPTER_STORAGE_KEY);
+      if (data) {
         this.fromSaveData(data);
         console.log(
           `ChapterManager: Loaded ${this.unlockedChapters.size} unlocked chapters from storage:`,
@@ -787,7 +792,7 @@ export class ChapterManager {
     console.log("- Unlocked chapters:", Array.from(this.unlockedChapters));
     console.log("- Selected chapter:", this.selectedChapter);
     console.log("- Current run:", this.currentRun);
-    console.log("- LocalStorage value:", localStorage.getItem(CHAPTER_STORAGE_KEY));
+    console.log("- Stored value:", storageService.get<ChapterSaveData>(CHAPTER_STORAGE_KEY));
 
     return {
       selectedChapter: this.selectedChapter,
@@ -3,6 +3,10 @@
  */
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { ChestManager } from "./ChestManager";
+import { DROP_HISTORY_LIMIT } from "../data/chestData";
+import { Rarity } from "./Equipment";
+import { currencyManager } from "./CurrencyManager";
+import { storageService } from "./storage";
 
 // Mock localStorage
 const localStorageMock = (() => {
@@ -296,6 +300,8 @@ describe("ChestManager", () => {
     it("should handle missing fields in save data", () => {
       const partialData = {
         inventory: { wooden: 5 },
+        pity: { wooden: 0, silver: 0, golden: 0 },
+        dropHistory: [],
       };
 
       const newManager = new ChestManager();
@@ -313,10 +319,98 @@ describe("ChestManager", () => {
 
       manager.fromSaveData({
         inventory: { wooden: 5, silver: 3, golden: 1 },
+        pity: { wooden: 0, silver: 0, golden: 0 },
+        dropHistory: [],
       });
 
       expect(callback).toHaveBeenCalled();
     });
+
+    it("should fall back to defaults when a rollback leaves no saved record", () => {
+      currencyManager.reset();
+      localStorageMock.clear();
+
+      expect(() =>
+        storageService.transaction(() => {
+          manager.addChest("golden", 3);
+          currencyManager.add("gold", 500);
+          throw new Error("purchase failed");
+        }),
+      ).toThrow("purchase failed");
+
+      expect(manager.getChestCount("golden")).toBe(0);
+      expect(currencyManager.get("gold")).toBe(0);
+      expect(localStorageMock.getItem("aura_archer_chest_data")).toBeNull();
+    });
+  });
+
+  describe("pity and drop history", () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should guarantee an Epic or Legendary on the threshold-th dry open", () => {
+      // Always roll the top of the table (Common for silver)
+      vi.spyOn(Math, "random").mockReturnValue(0.999);
+      const threshold = manager.getPityThreshold("silver")!;
+
+      for (let i = 0; i < threshold - 1; i++) {
+        const roll = manager.rollRarity("silver");
+        expect(roll).toEqual({ rarity: Rarity.COMMON, isPity: false });
+        manager.recordDrop("silver", { name: "Brave Bow", rarity: roll.rarity }, roll.isPity);
+      }
+      expect(manager.getPityCount("silver")).toBe(threshold - 1);
+
+      const pityRoll = manager.rollRarity("silver");
+      expect(pityRoll).toEqual({ rarity: Rarity.EPIC, isPity: true });
+      manager.recordDrop("silver", { name: "Saw Blade", rarity: pityRoll.rarity }, true);
+      expect(manager.getPityCount("silver")).toBe(0);
+    });
+
+    it("should keep counters per chest type and none for wooden chests", () => {
+      manager.recordDrop("golden", { name: "Brave Bow", rarity: Rarity.RARE }, false);
+      manager.recordDrop("silver", { name: "Brave Bow", rarity: Rarity.GREAT }, false);
+      manager.recordDrop("golden", { name: "Saw Blade", rarity: Rarity.LEGENDARY }, false);
+
+      expect(manager.getPityCount("golden")).toBe(0);
+      expect(manager.getPityCount("silver")).toBe(1);
+      expect(manager.getPityThreshold("wooden")).toBeNull();
+    });
+
+    it("should keep the last 100 drops, newest first", () => {
+      for (let i = 0; i < DROP_HISTORY_LIMIT + 5; i++) {
+        manager.recordDrop("wooden", { name: `Item ${i}`, rarity: Rarity.COMMON }, false);
+      }
+
+      const history = manager.getDropHistory();
+      expect(history).toHaveLength(DROP_HISTORY_LIMIT);
+      expect(history[0].itemName).toBe(`Item ${DROP_HISTORY_LIMIT + 4}`);
+    });
+
+    it("should persist pity counters and drop history", () => {
+      manager.recordDrop("golden", { name: "Brave Bow", rarity: Rarity.RARE }, false);
+      manager.recordDrop("golden", { name: "Brave Bow", rarity: Rarity.GREAT }, false);
+
+      const newManager = new ChestManager();
+      expect(newManager.getPityCount("golden")).toBe(2);
+      expect(newManager.getDropHistory().map((record) => record.rarity)).toEqual([
+        Rarity.GREAT,
+        Rarity.RARE,
+      ]);
+    });
+
+    it("should start v1 saves from before pity with empty counters and history", () => {
+      localStorageMock.setItem(
+        "aura_archer_chest_data",
+        JSON.stringify({ version: 1, inventory: { wooden: 2, silver: 1, golden: 0 } }),
+      );
+
+      const newManager = new ChestManager();
+
+      expect(newManager.getChestCount("wooden")).toBe(2);
+      expect(newManager.getPityCount("silver")).toBe(0);
+      expect(newManager.getDropHistory()).toEqual([]);
+    });
   });
 
   describe("reset()", () => {
@@ -4,11 +4,25 @@
  * Handles:
  * - Tracking owned chests by type
  * - Adding/removing chests
- * - Save/load integration with localStorage
+ * - Pity counters that guarantee an Epic or Legendary after a dry streak
+ * - Drop history of the last 100 opened items
+ * - Save/load integration with StorageService
  * - Event emitting for UI updates
  */
 
-import { ChestType, ChestRewards, CHEST_ORDER } from "../data/chestData";
+import {
+  ChestType,
+  ChestRewards,
+  CHEST_CONFIGS,
+  CHEST_ORDER,
+  ChestDropRecord,
+  DROP_HISTORY_LIMIT,
+  PITY_RARITIES,
+  isPityGuaranteed,
+  rollChestRarity,
+} from "../data/chestData";
+import { Rarity } from "./Equipment";
+import { storageService, STORAGE_KEYS } from "./storage";
 
 // ============================================
 // Types
@@ -23,10 +37,23 @@ export interface ChestInventory {
   golden: number;
 }
 
+/**
+ * Opens per chest type since its last Epic or Legendary
+ */
+export type ChestPityCounters = Record<ChestType, number>;
+
+/**
+ * A rolled chest rarity and whether pity guaranteed it
+ */
+export interface ChestRarityRoll {
+  rarity: Rarity;
+  isPity: boolean;
+}
+
 /**
  * Event types emitted by ChestManager
  */
-export type ChestEventType = "chestAdded" | "chestRemoved" | "inventoryChanged";
+export type ChestEventType = "chestAdded" | "chestRemoved" | "inventoryChanged" | "dropRecorded";
 
 /**
  * Event callback type
@@ -47,13 +74,17 @@ export interface ChestEventData {
  */
 export interface ChestSaveData {
   inventory: ChestInventory;
+  /** Opens since the last pity-rarity drop, per chest type */
+  pity: ChestPityCounters;
+  /** Newest first, at most DROP_HISTORY_LIMIT entries */
+  dropHistory: ChestDropRecord[];
 }
 
 // ============================================
 // Constants
 // ============================================
 
-const STORAGE_KEY = "aura_archer_chest_data";
+const STORAGE_KEY = STORAGE_KEYS.chests;
 
 const DEFAULT_INVENTORY: ChestInventory = {
   wooden: 0,
@@ -61,58 +92,77 @@ const DEFAULT_INVENTORY: ChestInventory = {
   golden: 0,
 };
 
+const DEFAULT_PITY: ChestPityCounters = {
+  wooden: 0,
+  silver: 0,
+  golden: 0,
+};
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function isChestDropRecord(value: unknown): value is ChestDropRecord {
+  if (typeof value !== "object" || value === null) return false;
+  const record = value as Partial<ChestDropRecord>;
+  return (
+    CHEST_ORDER.includes(record.chestType as ChestType) &&
+    Object.values(Rarity).includes(record.rarity as Rarity) &&
+    typeof record.itemName === "string" &&
+    typeof record.openedAt === "number"
+  );
+}
+
 // ============================================
 // ChestManager Class
 // ============================================
 
 export class ChestManager {
   private inventory: ChestInventory;
+  private pity: ChestPityCounters;
+  private dropHistory: ChestDropRecord[];
   private eventListeners: Map<ChestEventType, Set<ChestEventCallback>>;
 
   constructor() {
     this.inventory = { ...DEFAULT_INVENTORY };
+    this.pity = { ...DEFAULT_PITY };
+    this.dropHistory = [];
     this.eventListeners = new Map();
 
     // Load persisted data on initialization
     this.loadFromStorage();
+    storageService.register(STORAGE_KEY, () => this.loadFromStorage());
   }
 
   // ============================================
-  // Persistence (LocalStorage)
+  // Persistence (StorageService)
   // ============================================
 
   /**
-   * Load chest data from localStorage
+   * Load chest data from storage
    */
   private loadFromStorage(): void {
+    this.inventory = { ...DEFAULT_INVENTORY };
+    this.pity = { ...DEFAULT_PITY };
+    this.dropHistory = [];
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (!stored) {
+      const data = storageService.get<ChestSaveData>(STORAGE_KEY);
+      if (!data) {
         return;
       }
 
-      const data = JSON.parse(stored) as ChestSaveData;
-      if (data.inventory) {
-        this.inventory = {
-          wooden: data.inventory.wooden ?? 0,
-          silver: data.inventory.silver ?? 0,
-          golden: data.inventory.golden ?? 0,
-        };
-      }
+      this.applySaveData(data);
     } catch (error) {
       console.warn("ChestManager: Failed to load from storage:", error);
     }
   }
 
   /**
-   * Save chest data to localStorage
+   * Save chest data to storage
    */
   private saveToStorage(): void {
     try {
-      const data: ChestSaveData = {
-        inventory: { ...this.inventory },
-      };
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+      storageService.set(STORAGE_KEY, this.toSaveData());
     } catch (error) {
       console.warn("ChestManager: Failed to save to storage:", error);
     }
@@ -267,6 +317,64 @@ export class ChestManager {
     return this.inventory[type] > 0;
   }
 
+  // ============================================
+  // Pity and Drop History
+  // ============================================
+
+  /**
+   * Opens of a chest type since its last Epic or Legendary
+   */
+  getPityCount(type: ChestType): number {
+    return this.pity[type];
+  }
+
+  /**
+   * Opens without an Epic or Legendary that guarantee one, or null if the
+   * chest type has no pity
+   */
+  getPityThreshold(type: ChestType): number | null {
+    return CHEST_CONFIGS[type].pityThreshold ?? null;
+  }
+
+  /**
+   * Roll the rarity for the next open of a chest type, honoring its pity counter.
+   * Call recordDrop with the resulting item to advance the counter.
+   */
+  rollRarity(type: ChestType): ChestRarityRoll {
+    const isPity = isPityGuaranteed(type, this.pity[type]);
+    return { rarity: rollChestRarity(type, this.pity[type]), isPity };
+  }
+
+  /**
+   * Record an opened chest's item: updates the pity counter and drop history
+   */
+  recordDrop(type: ChestType, item: { name: string; rarity: Rarity }, isPity: boolean): void {
+    this.pity[type] = PITY_RARITIES.includes(item.rarity) ? 0 : this.pity[type] + 1;
+
+    const record: ChestDropRecord = {
+      chestType: type,
+      rarity: item.rarity,
+      itemName: item.name,
+      isPity,
+      openedAt: Date.now(),
+    };
+    this.dropHistory = [record, ...this.dropHistory].slice(0, DROP_HISTORY_LIMIT);
+
+    this.emit("dropRecorded", {
+      chestType: type,
+      inventory: { ...this.inventory },
+    });
+
+    this.saveToStorage();
+  }
+
+  /**
+   * Get the most recent drops, newest first
+   */
+  getDropHistory(): ChestDropRecord[] {
+    return this.dropHistory.map((record) => ({ ...record }));
+  }
+
   // ============================================
   // Persistence (Save/Load)
   // ============================================
@@ -277,6 +385,8 @@ export class ChestManager {
   toSaveData(): ChestSaveData {
     return {
       inventory: { ...this.inventory },
+      pity: { ...this.pity },
+      dropHistory: this.dropHistory.map((record) => ({ ...record })),
     };
   }
 
@@ -284,6 +394,17 @@ export class ChestManager {
    * Load data from save
    */
   fromSaveData(data: ChestSaveData): void {
+    this.applySaveData(data);
+
+    this.emit("inventoryChanged", {
+      inventory: { ...this.inventory },
+    });
+  }
+
+  /**
+   * Apply save data (pity and history are defaulted by the chests v2 migration)
+   */
+  private applySaveData(data: ChestSaveData): void {
     if (data.inventory) {
       this.inventory = {
         wooden: data.inventory.wooden ?? 0,
@@ -292,16 +413,17 @@ export class ChestManager {
       };
     }
 
-    this.emit("inventoryChanged", {
-      inventory: { ...this.inventory },
-    });
+    this.pity = { ...data.pity };
+    this.dropHistory = data.dropHistory.filter(isChestDropRecord).slice(0, DROP_HISTORY_LIMIT);
   }
 
   /**
-   * Reset all chests
+   * Reset all chests, pity counters and drop history
    */
   reset(): void {
     this.inventory = { ...DEFAULT_INVENTORY };
+    this.pity = { ...DEFAULT_PITY };
+    this.dropHistory = [];
     this.saveToStorage();
 
     this.emit("inventoryChanged", {
@@ -319,10 +441,12 @@ export class ChestManager {
   getDebugSnapshot(): {
     inventory: ChestInventory;
     totalChests: number;
+    pity: ChestPityCounters;
   } {
     return {
       inventory: this.getInventory(),
       totalChests: this.getTotalChests(),
+      pity: { ...this.pity },
     };
   }
 }
@@ -5,6 +5,7 @@
  */
 
 import { currencyManager } from "./CurrencyManager";
+import { storageService, STORAGE_KEYS } from "./storage";
 
 // ============================================
 // Types and Interfaces
@@ -59,8 +60,8 @@ export interface CouponEventData {
 // Constants
 // ============================================
 
-/** LocalStorage key for coupon data */
-const COUPON_STORAGE_KEY = "aura_archer_coupon_data";
+/** Storage record key for coupon data */
+const COUPON_STORAGE_KEY = STORAGE_KEYS.coupons;
 
 /**
  * Available compensation coupons
@@ -91,6 +92,7 @@ export class CouponManager {
 
   private constructor() {
     this.loadFromStorage();
+    storageService.register(COUPON_STORAGE_KEY, () => this.loadFromStorage());
   }
 
   static get instance(): CouponManager {
@@ -101,20 +103,20 @@ export class CouponManager {
   }
 
   // ============================================
-  // Persistence (LocalStorage)
+  // Persistence (StorageService)
   // ============================================
 
   /**
-   * Load coupon data from localStorage
+   * Load coupon data from storage
    */
   private loadFromStorage(): void {
+    this.redeemedCoupons = new Set();
     try {
-      const stored = localStorage.getItem(COUPON_STORAGE_KEY);
-      if (!stored) {
+      const data = storageService.get<CouponSaveData>(COUPON_STORAGE_KEY);
+      if (!data) {
         return;
       }
 
-      const data = JSON.parse(stored) as CouponSaveData;
       this.redeemedCoupons = new Set(data.redeemedCoupons ?? []);
     } catch (error) {
       console.warn("CouponManager: Failed to load from storage:", error);
@@ -122,14 +124,14 @@ export class CouponManager {
   }
 
   /**
-   * Save coupon data to localStorage
+   * Save coupon data to storage
    */
   private saveToStorage(): void {
     try {
       const data: CouponSaveData = {
         redeemedCoupons: Array.from(this.redeemedCoupons),
       };
-      localStorage.setItem(COUPON_STORAGE_KEY, JSON.stringify(data));
+      storageService.set(COUPON_STORAGE_KEY, data);
     } catch (error) {
       console.warn("CouponManager: Failed to save to storage:", error);
     }
@@ -4,6 +4,9 @@
  * Uses EventEmitter pattern for UI updates.
  */
 
+import { storageService, STORAGE_KEYS } from "./storage";
+import { randomStreams } from "./RandomStreams";
+
 // ============================================
 // Types and Interfaces
 // ============================================
@@ -74,8 +77,8 @@ const DEFAULT_CURRENCIES: CurrencyState = {
   energy: 5, // Start with 5 energy for runs
 };
 
-/** LocalStorage key for currency data persistence */
-const CURRENCY_STORAGE_KEY = "aura_archer_currency_data";
+/** Storage record key for currency data persistence */
+const CURRENCY_STORAGE_KEY = STORAGE_KEYS.currency;
 
 // ============================================
 // CurrencyManager Class
@@ -93,24 +96,26 @@ export class CurrencyManager {
 
     // Load persisted data on initialization
     this.loadFromStorage();
+    storageService.register(CURRENCY_STORAGE_KEY, () => this.loadFromStorage());
   }
 
   // ============================================
-  // Persistence (LocalStorage)
+  // Persistence (StorageService)
   // ============================================
 
   /**
-   * Load currency data from localStorage
+   * Load currency data from storage
    * Calculates energy regeneration based on time since last save
    */
   private loadFromStorage(): void {
+    this.currencies = { ...DEFAULT_CURRENCIES };
+    this.lastEnergyUpdate = Date.now();
     try {
-      const stored = localStorage.getItem(CURRENCY_STORAGE_KEY);
-      if (!stored) {
+      const data = storageService.get<CurrencySaveData>(CURRENCY_STORAGE_KEY);
+      if (!data) {
         return;
       }
 
-      const data = JSON.parse(stored) as CurrencySaveData;
       if (data.currencies) {
         this.currencies = {
           gold: data.currencies.gold ?? DEFAULT_CURRENCIES.gold,
@@ -132,7 +137,7 @@ export class CurrencyManager {
   }
 
   /**
-   * Save currency data to localStorage
+   * Save currency data to storage
    */
   private saveToStorage(): void {
     try {
@@ -140,7 +145,7 @@ export class CurrencyManager {
         currencies: { ...this.currencies },
         lastEnergyUpdate: this.lastEnergyUpdate,
       };
-      localStorage.setItem(CURRENCY_STORAGE_KEY, JSON.stringify(data));
+      storageService.set(CURRENCY_STORAGE_KEY, data);
     } catch (error) {
       console.warn("CurrencyManager: Failed to save to storage:", error);
     }
@@ -425,7 +430,7 @@ export class CurrencyManager {
     }
 
     // Random integer between min and max (inclusive)
-    return Math.floor(Math.random() * (range.max - range.min + 1)) + range.min;
+    return randomStreams.get("loot").randomInt(range.min, range.max);
   }
 
   /**
@@ -0,0 +1,180 @@
+/**
+ * Unit tests for DailyChallengeManager
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  DailyChallengeManager,
+  createDailyChallenge,
+  getDailyChallengeDateKey,
+} from "./DailyChallengeManager";
+import { currencyManager } from "./CurrencyManager";
+import { DAILY_CHALLENGE_REWARD_TIERS, dailyRewardManager } from "./DailyRewardManager";
+import {
+  DAILY_CHALLENGE_DAYS_KEPT,
+  DAILY_CHALLENGE_HISTORY_LIMIT,
+  DAILY_EQUIPMENT_TEMPLATES,
+  DAILY_MODIFIERS,
+} from "../config/dailyChallengeData";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OCT_19 = Date.UTC(2026, 9, 19, 12, 0, 0);
+
+describe("DailyChallengeManager", () => {
+  let manager: DailyChallengeManager;
+
+  beforeEach(() => {
+    localStorage.clear();
+    manager = new DailyChallengeManager();
+  });
+
+  describe("challenge generation", () => {
+    it("should use the UTC date as the day key", () => {
+      expect(getDailyChallengeDateKey(OCT_19)).toBe("2026-10-19");
+      expect(getDailyChallengeDateKey(Date.UTC(2026, 9, 19, 23, 59, 59))).toBe("2026-10-19");
+      expect(getDailyChallengeDateKey(Date.UTC(2026, 9, 20, 0, 0, 0))).toBe("2026-10-20");
+    });
+
+    it("should give the same challenge for the same day", () => {
+      expect(createDailyChallenge("2026-10-19")).toEqual(createDailyChallenge("2026-10-19"));
+      expect(manager.getChallenge(OCT_19)).toEqual(createDailyChallenge("2026-10-19"));
+    });
+
+    it("should vary the seed from day to day", () => {
+      const seeds = new Set<string>();
+      for (let i = 0; i < 7; i++) {
+        seeds.add(manager.getChallenge(OCT_19 + i * DAY_MS).seed);
+      }
+      expect(seeds.size).toBe(7);
+    });
+
+    it("should pick a valid template and one or two distinct modifiers", () => {
+      for (let i = 0; i < 30; i++) {
+        const challenge = manager.getChallenge(OCT_19 + i * DAY_MS);
+        const templateIds = DAILY_EQUIPMENT_TEMPLATES.map((template) => template.id);
+
+        expect(templateIds).toContain(challenge.equipmentTemplateId);
+        expect(challenge.modifierIds.length).toBeGreaterThanOrEqual(1);
+        expect(challenge.modifierIds.length).toBeLessThanOrEqual(2);
+        expect(new Set(challenge.modifierIds).size).toBe(challenge.modifierIds.length);
+        for (const id of challenge.modifierIds) {
+          expect(DAILY_MODIFIERS[id]).toBeDefined();
+        }
+      }
+    });
+  });
+
+  describe("attempts", () => {
+    it("should only record a result while a challenge is active", () => {
+      expect(manager.finishAttempt({ score: 100, endlessWave: 1, roomsCleared: 3 })).toBeNull();
+
+      manager.startAttempt(OCT_19);
+      expect(manager.getActiveChallenge()?.dateKey).toBe("2026-10-19");
+
+      manager.cancelAttempt();
+      expect(manager.getActiveChallenge()).toBeNull();
+    });
+
+    it("should track best score and history per day", () => {
+      manager.startAttempt(OCT_19);
+      const first = manager.finishAttempt({ score: 800, endlessWave: 1, roomsCleared: 5 }, OCT_19);
+      manager.startAttempt(OCT_19);
+      const second = manager.finishAttempt({ score: 500, endlessWave: 1, roomsCleared: 4 }, OCT_19);
+
+      expect(first?.isNewBest).toBe(true);
+      expect(second?.isNewBest).toBe(false);
+      expect(second?.bestScore).toBe(800);
+
+      const record = manager.getDayRecord("2026-10-19");
+      expect(record.attempts).toBe(2);
+      expect(record.history.map((attempt) => attempt.score)).toEqual([500, 800]);
+      expect(manager.getActiveChallenge()).toBeNull();
+      expect(manager.getTodayRecord(OCT_19 + DAY_MS).attempts).toBe(0);
+    });
+
+    it("should record the result on the day the challenge started", () => {
+      manager.startAttempt(OCT_19);
+      manager.finishAttempt({ score: 300, endlessWave: 1, roomsCleared: 2 }, OCT_19 + DAY_MS);
+
+      expect(manager.getDayRecord("2026-10-19").bestScore).toBe(300);
+    });
+
+    it("should cap history and stored days", () => {
+      for (let i = 0; i < DAILY_CHALLENGE_HISTORY_LIMIT + 2; i++) {
+        manager.startAttempt(OCT_19);
+        manager.finishAttempt({ score: i, endlessWave: 1, roomsCleared: 1 }, OCT_19);
+      }
+      expect(manager.getDayRecord("2026-10-19").history).toHaveLength(
+        DAILY_CHALLENGE_HISTORY_LIMIT,
+      );
+
+      for (let i = 1; i <= DAILY_CHALLENGE_DAYS_KEPT; i++) {
+        manager.startAttempt(OCT_19 + i * DAY_MS);
+        manager.finishAttempt({ score: 10, endlessWave: 1, roomsCleared: 1 });
+      }
+      expect(manager.getPlayedDays()).toHaveLength(DAILY_CHALLENGE_DAYS_KEPT);
+      expect(manager.getDayRecord("2026-10-19").attempts).toBe(0);
+    });
+
+    it("should keep the challenge active when saving the result fails", () => {
+      manager.startAttempt(OCT_19);
+      const claim = vi
+        .spyOn(dailyRewardManager, "claimChallengeRewards")
+        .mockImplementationOnce(() => {
+          throw new Error("quota exceeded");
+        });
+
+      expect(() =>
+        manager.finishAttempt({ score: 400, endlessWave: 1, roomsCleared: 3 }, OCT_19),
+      ).toThrow("quota exceeded");
+      expect(manager.getActiveChallenge()?.dateKey).toBe("2026-10-19");
+      expect(manager.getDayRecord("2026-10-19").attempts).toBe(0);
+
+      const result = manager.finishAttempt({ score: 400, endlessWave: 1, roomsCleared: 3 }, OCT_19);
+      expect(result?.bestScore).toBe(400);
+      expect(manager.getDayRecord("2026-10-19").attempts).toBe(1);
+      expect(manager.getActiveChallenge()).toBeNull();
+      claim.mockRestore();
+    });
+
+    it("should persist results", () => {
+      manager.startAttempt(OCT_19);
+      manager.finishAttempt({ score: 1234, endlessWave: 2, roomsCleared: 12 }, OCT_19);
+
+      const reloaded = new DailyChallengeManager();
+      expect(reloaded.getDayRecord("2026-10-19")).toMatchObject({ bestScore: 1234, attempts: 1 });
+    });
+  });
+
+  describe("rewards", () => {
+    it("should grant each reward tier once per day", () => {
+      const firstTier = DAILY_CHALLENGE_REWARD_TIERS[0];
+      const goldBefore = currencyManager.get("gold");
+
+      manager.startAttempt(OCT_19);
+      const first = manager.finishAttempt({
+        score: firstTier.minScore,
+        endlessWave: 1,
+        roomsCleared: 5,
+      });
+      manager.startAttempt(OCT_19);
+      const second = manager.finishAttempt({
+        score: firstTier.minScore + 1,
+        endlessWave: 1,
+        roomsCleared: 5,
+      });
+
+      expect(first?.rewards).toEqual(firstTier.rewards);
+      expect(second?.rewards).toEqual([]);
+      expect(currencyManager.get("gold")).toBe(goldBefore + firstTier.rewards[0].amount);
+      expect(manager.getDayRecord("2026-10-19").claimedTier).toBe(1);
+    });
+
+    it("should grant nothing below the first tier", () => {
+      manager.startAttempt(OCT_19);
+      const result = manager.finishAttempt({ score: 0, endlessWave: 1, roomsCleared: 0 });
+
+      expect(result?.rewards).toEqual([]);
+      expect(manager.getDayRecord("2026-10-19").claimedTier).toBe(0);
+    });
+  });
+});
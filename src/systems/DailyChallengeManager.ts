@@ -0,0 +1,296 @@
+/**
+ * DailyChallengeManager - Manages the daily seeded challenge mode.
+ * Derives each UTC day's challenge (seed, hero, equipment template, modifiers)
+ * and stores per-day results separately from the endless high score.
+ * The attempt in progress stays in memory only; finishing it records the score
+ * and claims newly reached reward tiers from DailyRewardManager together.
+ */
+
+import { SeededRandom } from "./SeededRandom";
+import { dailyRewardManager, type Reward } from "./DailyRewardManager";
+import { storageService, STORAGE_KEYS } from "./storage";
+import type { HeroId } from "../config/heroData";
+import {
+  DAILY_CHALLENGE_DAYS_KEPT,
+  DAILY_CHALLENGE_HERO_LEVEL,
+  DAILY_CHALLENGE_HEROES,
+  DAILY_CHALLENGE_HISTORY_LIMIT,
+  DAILY_EQUIPMENT_TEMPLATES,
+  DAILY_MODIFIERS,
+  type DailyModifierId,
+} from "../config/dailyChallengeData";
+
+// ============================================
+// Types and Interfaces
+// ============================================
+
+/** A day's challenge - identical for every player */
+export interface DailyChallenge {
+  /** UTC date (YYYY-MM-DD) */
+  dateKey: string;
+  /** Run seed string passed to SeededRandom/RoomGenerator */
+  seed: string;
+  heroId: HeroId;
+  heroLevel: number;
+  equipmentTemplateId: string;
+  modifierIds: DailyModifierId[];
+}
+
+/** One finished challenge run */
+export interface DailyChallengeAttempt {
+  score: number;
+  endlessWave: number;
+  roomsCleared: number;
+  playedAt: number;
+}
+
+/** Results for one day */
+export interface DailyChallengeDayRecord {
+  bestScore: number;
+  attempts: number;
+  /** Highest reward tier already granted for this day (0 = none) */
+  claimedTier: number;
+  /** Most recent attempts, newest first */
+  history: DailyChallengeAttempt[];
+}
+
+/** Save data structure for persistence */
+export interface DailyChallengeSaveData {
+  days: Record<string, DailyChallengeDayRecord>;
+}
+
+/** Outcome of finishing a challenge run */
+export interface DailyChallengeResult {
+  dateKey: string;
+  score: number;
+  bestScore: number;
+  isNewBest: boolean;
+  /** Rewards granted for newly reached tiers */
+  rewards: Reward[];
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Storage record key for daily challenge results */
+const DAILY_CHALLENGE_STORAGE_KEY = STORAGE_KEYS.dailyChallenge;
+
+// ============================================
+// Challenge Generation
+// ============================================
+
+/**
+ * Get the UTC date key (YYYY-MM-DD) for a timestamp
+ */
+export function getDailyChallengeDateKey(time: number = Date.now()): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Build the challenge for a UTC date key. Pure - the same date always gives
+ * the same challenge.
+ */
+export function createDailyChallenge(dateKey: string): DailyChallenge {
+  const seedRng = new SeededRandom(`daily:${dateKey}`);
+  const rng = seedRng.derive("challenge");
+
+  const heroId = rng.pick(DAILY_CHALLENGE_HEROES);
+  const template = rng.pick(DAILY_EQUIPMENT_TEMPLATES);
+
+  // One or two distinct modifiers
+  const modifierCount = rng.randomInt(1, 2);
+  const modifierIds = rng
+    .shuffle(Object.keys(DAILY_MODIFIERS) as DailyModifierId[])
+    .slice(0, modifierCount);
+
+  return {
+    dateKey,
+    seed: seedRng.getSeedString(),
+    heroId,
+    heroLevel: DAILY_CHALLENGE_HERO_LEVEL,
+    equipmentTemplateId: template.id,
+    modifierIds,
+  };
+}
+
+function createEmptyDayRecord(): DailyChallengeDayRecord {
+  return { bestScore: 0, attempts: 0, claimedTier: 0, history: [] };
+}
+
+// ============================================
+// DailyChallengeManager Class
+// ============================================
+
+export class DailyChallengeManager {
+  private days: Record<string, DailyChallengeDayRecord> = {};
+  private activeChallenge: DailyChallenge | null = null;
+
+  constructor() {
+    this.loadFromStorage();
+    storageService.register(DAILY_CHALLENGE_STORAGE_KEY, () => this.loadFromStorage());
+  }
+
+  // ============================================
+  // Persistence (StorageService)
+  // ============================================
+
+  /**
+   * Load daily challenge results from storage
+   */
+  private loadFromStorage(): void {
+    this.days = {};
+    try {
+      const data = storageService.get<DailyChallengeSaveData>(DAILY_CHALLENGE_STORAGE_KEY);
+      if (data?.days) {
+        this.days = data.days;
+      }
+    } catch (error) {
+      console.warn("DailyChallengeManager: Failed to load from storage:", error);
+    }
+  }
+
+  /**
+   * Save results, keeping only the most recent days
+   */
+  private saveToStorage(): void {
+    const keptDays = Object.keys(this.days).sort().slice(-DAILY_CHALLENGE_DAYS_KEPT);
+    const days: Record<string, DailyChallengeDayRecord> = {};
+    for (const dateKey of keptDays) {
+      days[dateKey] = this.days[dateKey];
+    }
+    this.days = days;
+
+    try {
+      const data: DailyChallengeSaveData = { days };
+      storageService.set(DAILY_CHALLENGE_STORAGE_KEY, data);
+    } catch (error) {
+      console.warn("DailyChallengeManager: Failed to save to storage:", error);
+    }
+  }
+
+  // ============================================
+  // Challenge
+  // ============================================
+
+  /**
+   * Get the challenge for the current UTC day
+   */
+  getChallenge(currentTime: number = Date.now()): DailyChallenge {
+    return createDailyChallenge(getDailyChallengeDateKey(currentTime));
+  }
+
+  /**
+   * Start a challenge run. The challenge stays active until the run's result
+   * is recorded (or cancelled), even if the run crosses midnight.
+   */
+  startAttempt(currentTime: number = Date.now()): DailyChallenge {
+    this.activeChallenge = this.getChallenge(currentTime);
+    console.log(
+      `DailyChallengeManager: Starting ${this.activeChallenge.dateKey} challenge (seed ${this.activeChallenge.seed})`,
+    );
+    return this.activeChallenge;
+  }
+
+  /**
+   * The challenge being played, or null during a normal run
+   */
+  getActiveChallenge(): DailyChallenge | null {
+    return this.activeChallenge;
+  }
+
+  /**
+   * Leave challenge mode without recording a result
+   */
+  cancelAttempt(): void {
+    this.activeChallenge = null;
+  }
+
+  /**
+   * Record the active challenge run's result and grant any newly reached
+   * reward tiers. Returns null if no challenge is active.
+   */
+  finishAttempt(
+    attempt: Omit<DailyChallengeAttempt, "playedAt">,
+    currentTime: number = Date.now(),
+  ): DailyChallengeResult | null {
+    const challenge = this.activeChallenge;
+    if (!challenge) return null;
+
+    const dateKey = challenge.dateKey;
+    const record = { ...(this.days[dateKey] ?? createEmptyDayRecord()) };
+    const isNewBest = attempt.score > record.bestScore;
+
+    record.attempts++;
+    record.bestScore = Math.max(record.bestScore, attempt.score);
+    record.history = [{ ...attempt, playedAt: currentTime }, ...record.history].slice(
+      0,
+      DAILY_CHALLENGE_HISTORY_LIMIT,
+    );
+
+    // Reward grant and result are persisted together
+    const claim = storageService.transaction(() => {
+      const granted = dailyRewardManager.claimChallengeRewards(
+        record.bestScore,
+        record.claimedTier,
+      );
+      record.claimedTier = granted.tier;
+
+      this.days[dateKey] = record;
+      this.saveToStorage();
+      return granted;
+    });
+
+    // Only once the result is saved - a failed save leaves the attempt to finish again
+    this.activeChallenge = null;
+
+    return {
+      dateKey,
+      score: attempt.score,
+      bestScore: record.bestScore,
+      isNewBest,
+      rewards: claim.rewards,
+    };
+  }
+
+  // ============================================
+  // Results
+  // ============================================
+
+  /**
+   * Get the results for a day (empty record if never played)
+   */
+  getDayRecord(dateKey: string): Readonly<DailyChallengeDayRecord> {
+    return this.days[dateKey] ?? createEmptyDayRecord();
+  }
+
+  /**
+   * Get today's results
+   */
+  getTodayRecord(currentTime: number = Date.now()): Readonly<DailyChallengeDayRecord> {
+    return this.getDayRecord(getDailyChallengeDateKey(currentTime));
+  }
+
+  /**
+   * Get every stored day, newest first
+   */
+  getPlayedDays(): string[] {
+    return Object.keys(this.days).sort().reverse();
+  }
+
+  /**
+   * Reset all challenge results (for testing)
+   */
+  reset(): void {
+    this.days = {};
+    this.activeChallenge = null;
+    this.saveToStorage();
+  }
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+/** Global singleton instance for use throughout the game */
+export const dailyChallengeManager = new DailyChallengeManager();
@@ -2,7 +2,11 @@
  * Unit tests for DailyRewardManager
  */
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { DailyRewardManager, DAILY_REWARDS } from "./DailyRewardManager";
+import {
+  DailyRewardManager,
+  DAILY_REWARDS,
+  DAILY_CHALLENGE_REWARD_TIERS,
+} from "./DailyRewardManager";
 
 // Mock localStorage
 const localStorageMock = (() => {
@@ -319,6 +323,37 @@ describe("DailyRewardManager", () => {
     });
   });
 
+  describe("daily challenge rewards", () => {
+    it("should map scores to reward tiers", () => {
+      const [first, second] = DAILY_CHALLENGE_REWARD_TIERS;
+
+      expect(manager.getChallengeRewardTier(0)).toBe(0);
+      expect(manager.getChallengeRewardTier(first.minScore)).toBe(1);
+      expect(manager.getChallengeRewardTier(second.minScore - 1)).toBe(1);
+      expect(manager.getChallengeRewardTier(Number.MAX_SAFE_INTEGER)).toBe(
+        DAILY_CHALLENGE_REWARD_TIERS.length,
+      );
+    });
+
+    it("should grant every tier above the claimed one", () => {
+      const [, second, third] = DAILY_CHALLENGE_REWARD_TIERS;
+      const result = manager.claimChallengeRewards(third.minScore, 1);
+
+      expect(result.tier).toBe(3);
+      expect(result.rewards).toEqual([...second.rewards, ...third.rewards]);
+    });
+
+    it("should grant nothing for an already claimed tier", () => {
+      const callback = vi.fn();
+      manager.on("challengeRewardClaimed", callback);
+
+      const result = manager.claimChallengeRewards(DAILY_CHALLENGE_REWARD_TIERS[0].minScore, 1);
+
+      expect(result).toEqual({ tier: 1, rewards: [] });
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+
   describe("event system", () => {
     it("should allow subscribing to events", () => {
       const callback = vi.fn();
@@ -1,12 +1,14 @@
 /**
  * DailyRewardManager - Manages the 7-day daily reward calendar system.
  * Tracks consecutive login days and handles reward claiming.
+ * Also grants the daily challenge score tier rewards.
  * No Phaser dependencies - fully unit testable.
  */
 
 import { currencyManager } from "./CurrencyManager";
 import { chestManager } from "./ChestManager";
 import { ChestType } from "../data/chestData";
+import { storageService, STORAGE_KEYS } from "./storage";
 
 // ============================================
 // Types and Interfaces
@@ -37,8 +39,20 @@ export interface DailyRewardSaveData {
   claimedToday: boolean;
 }
 
+/** Daily challenge reward tier, reached by scoring at least minScore */
+export interface DailyChallengeRewardTier {
+  tier: number; // 1-based, in ascending score order
+  minScore: number;
+  rewards: Reward[];
+  description: string;
+}
+
 /** Event types emitted by DailyRewardManager */
-export type DailyRewardEventType = "rewardClaimed" | "streakReset" | "cycleCompleted";
+export type DailyRewardEventType =
+  | "rewardClaimed"
+  | "streakReset"
+  | "cycleCompleted"
+  | "challengeRewardClaimed";
 
 /** Event listener callback type */
 export type DailyRewardEventCallback = (data: DailyRewardEventData) => void;
@@ -55,7 +69,7 @@ export interface DailyRewardEventData {
 // ============================================
 
 /** LocalStorage key for daily reward data */
-const DAILY_REWARD_STORAGE_KEY = "aura_archer_daily_rewards";
+const DAILY_REWARD_STORAGE_KEY = STORAGE_KEYS.dailyRewards;
 
 /** Maximum hours allowed between claims before streak resets (48 hours) */
 const STREAK_TIMEOUT_HOURS = 48;
@@ -111,6 +125,59 @@ export const DAILY_REWARDS: DailyReward[] = [
   },
 ];
 
+/**
+ * Daily challenge reward tiers
+ * Each tier is granted once per challenge day when its score is first reached
+ */
+export const DAILY_CHALLENGE_REWARD_TIERS: DailyChallengeRewardTier[] = [
+  {
+    tier: 1,
+    minScore: 1000,
+    rewards: [{ type: "gold", amount: 250 }],
+    description: "250 Gold",
+  },
+  {
+    tier: 2,
+    minScore: 5000,
+    rewards: [
+      { type: "gems", amount: 10 },
+      { type: "chest", amount: 1, chestType: "silver" },
+    ],
+    description: "10 Gems + 1 Silver Chest",
+  },
+  {
+    tier: 3,
+    minScore: 15000,
+    rewards: [
+      { type: "gems", amount: 30 },
+      { type: "chest", amount: 1, chestType: "golden" },
+    ],
+    description: "30 Gems + 1 Golden Chest",
+  },
+];
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Grant a list of rewards (chests via ChestManager, currencies via
+ * CurrencyManager), returning copies of what was granted. Shared by every
+ * system that hands out Reward lists.
+ */
+export function grantRewards(rewards: readonly Reward[]): Reward[] {
+  const grantedRewards: Reward[] = [];
+  for (const reward of rewards) {
+    if (reward.type === "chest" && reward.chestType) {
+      chestManager.addChest(reward.chestType, reward.amount);
+    } else if (reward.type === "gold" || reward.type === "gems" || reward.type === "energy") {
+      currencyManager.add(reward.type, reward.amount);
+    }
+    grantedRewards.push({ ...reward });
+  }
+  return grantedRewards;
+}
+
 // ============================================
 // DailyRewardManager Class
 // ============================================
@@ -124,23 +191,26 @@ export class DailyRewardManager {
   constructor() {
     this.loadFromStorage();
     this.checkStreakStatus();
+    storageService.register(DAILY_REWARD_STORAGE_KEY, () => this.loadFromStorage());
   }
 
   // ============================================
-  // Persistence (LocalStorage)
+  // Persistence (StorageService)
   // ============================================
 
   /**
-   * Load daily reward data from localStorage
+   * Load daily reward data from storage
    */
   private loadFromStorage(): void {
+    this.lastClaimTimestamp = null;
+    this.currentDay = 1;
+    this.claimedToday = false;
     try {
-      const stored = localStorage.getItem(DAILY_REWARD_STORAGE_KEY);
-      if (!stored) {
+      const data = storageService.get<DailyRewardSaveData>(DAILY_REWARD_STORAGE_KEY);
+      if (!data) {
         return;
       }
 
-      const data = JSON.parse(stored) as DailyRewardSaveData;
       this.lastClaimTimestamp = data.lastClaimTimestamp ?? null;
       this.currentDay = data.currentDay ?? 1;
       this.claimedToday = data.claimedToday ?? false;
@@ -150,7 +220,7 @@ export class DailyRewardManager {
   }
 
   /**
-   * Save daily reward data to localStorage
+   * Save daily reward data to storage
    */
   private saveToStorage(): void {
     try {
@@ -159,7 +229,7 @@ export class DailyRewardManager {
         currentDay: this.currentDay,
         claimedToday: this.claimedToday,
       };
-      localStorage.setItem(DAILY_REWARD_STORAGE_KEY, JSON.stringify(data));
+      storageService.set(DAILY_REWARD_STORAGE_KEY, data);
     } catch (error) {
       console.warn("DailyRewardManager: Failed to save to storage:", error);
     }
@@ -283,17 +353,7 @@ export class DailyRewardManager {
     }
 
     // Grant rewards
-    const grantedRewards: Reward[] = [];
-    for (const reward of dailyReward.rewards) {
-      if (reward.type === "chest" && reward.chestType) {
-        // Grant chest via ChestManager
-        chestManager.addChest(reward.chestType, reward.amount);
-      } else if (reward.type === "gold" || reward.type === "gems" || reward.type === "energy") {
-        // Grant currency via CurrencyManager (only for currency types)
-        currencyManager.add(reward.type, reward.amount);
-      }
-      grantedRewards.push({ ...reward });
-    }
+    const grantedRewards = grantRewards(dailyReward.rewards);
 
     // Update state
     this.lastClaimTimestamp = currentTime;
@@ -318,6 +378,55 @@ export class DailyRewardManager {
     return grantedRewards;
   }
 
+  // ============================================
+  // Daily Challenge Rewards
+  // ============================================
+
+  /**
+   * Get the highest challenge reward tier reached by a score (0 = none)
+   */
+  getChallengeRewardTier(score: number): number {
+    let reached = 0;
+    for (const tier of DAILY_CHALLENGE_REWARD_TIERS) {
+      if (score >= tier.minScore) {
+        reached = tier.tier;
+      }
+    }
+    return reached;
+  }
+
+  /**
+   * Get all daily challenge reward tiers
+   */
+  getChallengeRewardTiers(): DailyChallengeRewardTier[] {
+    return [...DAILY_CHALLENGE_REWARD_TIERS];
+  }
+
+  /**
+   * Grant every challenge tier reached by a score above the tier already
+   * claimed for that day. The caller stores the returned tier with the day.
+   */
+  claimChallengeRewards(score: number, claimedTier: number): { tier: number; rewards: Reward[] } {
+    const reachedTier = this.getChallengeRewardTier(score);
+    if (reachedTier <= claimedTier) {
+      return { tier: claimedTier, rewards: [] };
+    }
+
+    const rewards: Reward[] = [];
+    for (const tier of DAILY_CHALLENGE_REWARD_TIERS) {
+      if (tier.tier > claimedTier && tier.tier <= reachedTier) {
+        rewards.push(...grantRewards(tier.rewards));
+      }
+    }
+
+    this.emit("challengeRewardClaimed", { day: this.currentDay, rewards });
+    return { tier: reachedTier, rewards };
+  }
+
+  // ============================================
+  // Calendar State
+  // ============================================
+
   /**
    * Get the current day in the 7-day cycle (1-7)
    */
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for EnchantingManager
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import { EnchantingManager } from "./EnchantingManager";
+import { storageService, STORAGE_KEYS } from "./storage";
+import { PerkId } from "./Equipment";
+import { ENCHANT_HISTORY_SIZE, ENCHANT_UNDO_WINDOW_MS } from "../config/enchantingData";
+
+const COST = { gold: 500, scrolls: 3 };
+const BEFORE = [PerkId.ATTACK_BOOST_SMALL];
+const AFTER = [PerkId.CRIT_CHANCE_SMALL];
+
+describe("EnchantingManager", () => {
+  let manager: EnchantingManager;
+
+  beforeEach(() => {
+    localStorage.clear();
+    manager = new EnchantingManager();
+  });
+
+  it("should record enchants newest first and persist them", () => {
+    manager.record("item_a", "reroll", BEFORE, AFTER, COST, 1000);
+    manager.record("item_b", "add_slot", AFTER, [...AFTER, ...BEFORE], COST, 2000);
+
+    const history = new EnchantingManager().getHistory();
+    expect(history.map((record) => record.itemId)).toEqual(["item_b", "item_a"]);
+    expect(history[1]).toMatchObject({ previousPerks: BEFORE, perks: AFTER, undone: false });
+  });
+
+  it("should keep only the newest enchants", () => {
+    for (let i = 0; i <= ENCHANT_HISTORY_SIZE; i++) {
+      manager.record(`item_${i}`, "reroll", BEFORE, AFTER, COST, i);
+    }
+    expect(manager.getHistory()).toHaveLength(ENCHANT_HISTORY_SIZE);
+    expect(manager.getHistory()[0].itemId).toBe(`item_${ENCHANT_HISTORY_SIZE}`);
+  });
+
+  it("should drop malformed history entries and cap the history on load", () => {
+    manager.record("item_a", "reroll", BEFORE, AFTER, COST, 1000);
+    const [valid] = manager.getHistory();
+    storageService.set(STORAGE_KEYS.enchanting, {
+      history: [
+        null,
+        { ...valid, id: "no_cost", cost: undefined },
+        { ...valid, id: "bad_kind", kind: "polish" },
+        { ...valid, id: "bad_perks", perks: "crit" },
+        ...Array.from({ length: ENCHANT_HISTORY_SIZE + 5 }, (_, i) => ({
+          ...valid,
+          id: `ok_${i}`,
+        })),
+      ],
+    });
+
+    const history = new EnchantingManager().getHistory();
+    expect(history).toHaveLength(ENCHANT_HISTORY_SIZE);
+    expect(history[0].id).toBe("ok_0");
+  });
+
+  describe("undo", () => {
+    it("should allow undoing the item's latest enchant within the window", () => {
+      manager.record("item_a", "reroll", BEFORE, AFTER, COST, 1000);
+      expect(manager.getUndoableEnchant("item_a", 1000 + ENCHANT_UNDO_WINDOW_MS)).not.toBeNull();
+      expect(manager.getUndoableEnchant("item_a", 1001 + ENCHANT_UNDO_WINDOW_MS)).toBeNull();
+      expect(manager.getUndoableEnchant("item_b", 1000)).toBeNull();
+    });
+
+    it("should allow an undo only once", () => {
+      const record = manager.record("item_a", "reroll", BEFORE, AFTER, COST, 1000);
+      expect(manager.markUndone(record.id)).toBe(true);
+      expect(manager.markUndone(record.id)).toBe(false);
+      expect(manager.getUndoableEnchant("item_a", 1000)).toBeNull();
+    });
+
+    it("should not undo an older enchant past a newer one", () => {
+      const first = manager.record("item_a", "reroll", BEFORE, AFTER, COST, 1000);
+      const second = manager.record("item_a", "reroll", AFTER, BEFORE, COST, 2000);
+      manager.markUndone(second.id);
+      expect(manager.getUndoableEnchant("item_a", 2000)).toBeNull();
+      expect(first.undone).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * EnchantingManager - Records enchants and decides which can be undone.
+ * Every perk reroll and added perk slot is kept in a capped history with the
+ * perks before and after. The latest enchant of an item can be undone once
+ * within ENCHANT_UNDO_WINDOW_MS (EquipmentManager.undoEnchant restores the perks).
+ * The history is capped at ENCHANT_HISTORY_SIZE and is validated on load.
+ */
+
+import { storageService, STORAGE_KEYS } from "./storage";
+import type { PerkId, UpgradeCost } from "./Equipment";
+import {
+  ENCHANT_HISTORY_SIZE,
+  ENCHANT_UNDO_WINDOW_MS,
+  type EnchantKind,
+} from "../config/enchantingData";
+
+// ============================================
+// Types and Interfaces
+// ============================================
+
+/** One enchant applied to an item */
+export interface EnchantRecord {
+  id: string;
+  itemId: string;
+  kind: EnchantKind;
+  previousPerks: PerkId[];
+  perks: PerkId[];
+  cost: UpgradeCost;
+  enchantedAt: number;
+  undone: boolean;
+}
+
+/** Save data structure for persistence */
+export interface EnchantingSaveData {
+  /** Newest first */
+  history: EnchantRecord[];
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Storage record key for the enchant history */
+const ENCHANTING_STORAGE_KEY = STORAGE_KEYS.enchanting;
+
+// ============================================
+// Helper Functions
+// ============================================
+
+const ENCHANT_KINDS: readonly EnchantKind[] = ["reroll", "add_slot"];
+
+function isPerkList(value: unknown): value is PerkId[] {
+  return Array.isArray(value) && value.every((perk) => typeof perk === "string");
+}
+
+/**
+ * Check that a saved history entry has every field the history and undo UI read
+ */
+function isEnchantRecord(value: unknown): value is EnchantRecord {
+  if (!value || typeof value !== "object") return false;
+  const record = value as Record<string, unknown>;
+  const cost = record.cost as Record<string, unknown> | null | undefined;
+  return (
+    typeof record.id === "string" &&
+    typeof record.itemId === "string" &&
+    ENCHANT_KINDS.includes(record.kind as EnchantKind) &&
+    isPerkList(record.previousPerks) &&
+    isPerkList(record.perks) &&
+    !!cost &&
+    typeof cost === "object" &&
+    typeof cost.gold === "number" &&
+    typeof cost.scrolls === "number" &&
+    typeof record.enchantedAt === "number" &&
+    typeof record.undone === "boolean"
+  );
+}
+
+/**
+ * Check if an enchant can still be undone at a given time
+ */
+export function isEnchantUndoable(record: EnchantRecord, currentTime: number): boolean {
+  return !record.undone && currentTime - record.enchantedAt <= ENCHANT_UNDO_WINDOW_MS;
+}
+
+// ============================================
+// EnchantingManager Class
+// ============================================
+
+export class EnchantingManager {
+  private history: EnchantRecord[] = [];
+
+  constructor() {
+    this.loadFromStorage();
+    storageService.register(ENCHANTING_STORAGE_KEY, () => this.loadFromStorage());
+  }
+
+  // ============================================
+  // Persistence (StorageService)
+  // ============================================
+
+  /**
+   * Load the enchant history from storage
+   */
+  private loadFromStorage(): void {
+    this.history = [];
+    try {
+      const data = storageService.get<EnchantingSaveData>(ENCHANTING_STORAGE_KEY);
+      if (Array.isArray(data?.history)) {
+        this.history = data.history.filter(isEnchantRecord).slice(0, ENCHANT_HISTORY_SIZE);
+      }
+    } catch (error) {
+      console.warn("EnchantingManager: Failed to load from storage:", error);
+    }
+  }
+
+  /**
+   * Save the enchant history
+   */
+  private saveToStorage(): void {
+    try {
+      const data: EnchantingSaveData = { history: this.history };
+      storageService.set(ENCHANTING_STORAGE_KEY, data);
+    } catch (error) {
+      console.warn("EnchantingManager: Failed to save to storage:", error);
+    }
+  }
+
+  // ============================================
+  // History
+  // ============================================
+
+  /**
+   * Record an enchant. Only the newest ENCHANT_HISTORY_SIZE enchants are kept.
+   */
+  record(
+    itemId: string,
+    kind: EnchantKind,
+    previousPerks: PerkId[],
+    perks: PerkId[],
+    cost: UpgradeCost,
+    currentTime: number = Date.now(),
+  ): EnchantRecord {
+    const record: EnchantRecord = {
+      id: `${currentTime}_${itemId}_${this.history.length}`,
+      itemId,
+      kind,
+      previousPerks: [...previousPerks],
+      perks: [...perks],
+      cost,
+      enchantedAt: currentTime,
+      undone: false,
+    };
+    this.history = [record, ...this.history].slice(0, ENCHANT_HISTORY_SIZE);
+    this.saveToStorage();
+    return record;
+  }
+
+  /**
+   * All recorded enchants, newest first
+   */
+  getHistory(): readonly EnchantRecord[] {
+    return this.history;
+  }
+
+  /**
+   * The item's latest enchant if it can still be undone, otherwise null
+   */
+  getUndoableEnchant(itemId: string, currentTime: number = Date.now()): EnchantRecord | null {
+    const latest = this.history.find((record) => record.itemId === itemId);
+    return latest && isEnchantUndoable(latest, currentTime) ? latest : null;
+  }
+
+  /**
+   * Mark an enchant as undone so it cannot be undone again
+   */
+  markUndone(recordId: string): boolean {
+    const record = this.history.find((entry) => entry.id === recordId);
+    if (!record || record.undone) return false;
+    record.undone = true;
+    this.saveToStorage();
+    return true;
+  }
+
+  /**
+   * Reset the enchant history (for testing)
+   */
+  reset(): void {
+    this.history = [];
+    this.saveToStorage();
+  }
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+/** Global singleton instance for use throughout the game */
+export const enchantingManager = new EnchantingManager();
@@ -12,12 +12,13 @@ import { ChapterId, EnemyType } from "../config/chapterData";
 import { BossId, BOSS_DEFINITIONS } from "../config/bossData";
 import { getEnemyIntroChapter } from "../config/encyclopediaData";
 import { chapterManager } from "./ChapterManager";
+import { storageService, STORAGE_KEYS } from "./storage";
 
 // ============================================
 // Constants
 // ============================================
 
-const STORAGE_KEY = "aura_archer_encyclopedia_data";
+const STORAGE_KEY = STORAGE_KEYS.encyclopedia;
 
 // ============================================
 // Type Definitions
@@ -117,7 +118,7 @@ class EncyclopediaManager {
   // ============================================
 
   /**
-   * Save to localStorage
+   * Save to storage
    * Currently minimal since unlocks are derived from ChapterManager
    */
   private saveToStorage(): void {
@@ -125,20 +126,19 @@ class EncyclopediaManager {
       const data: EncyclopediaSaveData = {
         version: 1,
       };
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+      storageService.set(STORAGE_KEY, data);
     } catch (error) {
       console.error("EncyclopediaManager: Failed to save data:", error);
     }
   }
 
   /**
-   * Load from localStorage
+   * Load from storage
    */
   private loadFromStorage(): void {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const data = JSON.parse(stored) as EncyclopediaSaveData;
+      const data = storageService.get<EncyclopediaSaveData>(STORAGE_KEY);
+      if (data) {
         // Future: handle migrations based on version
         console.log("EncyclopediaManager: Loaded from storage, version:", data.version);
       }
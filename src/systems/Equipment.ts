@@ -252,6 +252,10 @@ export interface EquipmentStats {
   // Spirit stats
   bonusXPPercent?: number;
   goldBonusPercent?: number;
+
+  // Set bonus stats
+  freezeChance?: number; // Absolute (e.g., 0.1 = 10%)
+  frozenDamagePercent?: number; // Bonus damage to frozen enemies (e.g., 0.3 = +30%)
 }
 
 /**
@@ -309,6 +313,15 @@ export interface Perk {
   rarity: Rarity; // Minimum rarity required for this perk
 }
 
+// ============================================
+// Equipment Sets
+// ============================================
+
+/**
+ * Equipment set identifiers (definitions in config/equipmentSetData.ts)
+ */
+export type EquipmentSetId = "frost" | "warlord" | "hunter";
+
 // ============================================
 // Equipment Item Interface
 // ============================================
@@ -324,6 +337,8 @@ export interface Equipment {
   level: number;
   baseStats: EquipmentStats; // Base stats before level scaling
   perks: PerkId[]; // Unlocked perks
+  setId: EquipmentSetId | null; // Set this item is a piece of (null for regular items)
+  locked: boolean; // Locked items cannot be sold, salvaged or fused
   name: string; // Display name
   description: string;
 }
@@ -360,6 +375,15 @@ export interface UpgradeResult {
   error?: string;
 }
 
+/**
+ * Enchant result (perk reroll, extra perk slot or undo)
+ */
+export interface EnchantResult {
+  success: boolean;
+  perks?: PerkId[];
+  error?: string;
+}
+
 // ============================================
 // Fusion System
 // ============================================
@@ -0,0 +1,225 @@
+/**
+ * Unit tests for EquipmentManager item locking, bulk sell/salvage and enchanting
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+// Phaser cannot boot under jsdom (no canvas) - EquipmentManager only needs its event emitter
+vi.mock("phaser", () => {
+  class EventEmitter {
+    private listeners = new Map<string, Set<(...args: unknown[]) => void>>();
+
+    on(event: string, callback: (...args: unknown[]) => void): this {
+      if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+      this.listeners.get(event)!.add(callback);
+      return this;
+    }
+
+    off(event: string, callback: (...args: unknown[]) => void): this {
+      this.listeners.get(event)?.delete(callback);
+      return this;
+    }
+
+    emit(event: string, ...args: unknown[]): boolean {
+      this.listeners.get(event)?.forEach((callback) => callback(...args));
+      return this.listeners.has(event);
+    }
+
+    removeAllListeners(): this {
+      this.listeners.clear();
+      return this;
+    }
+  }
+  return { default: { Events: { EventEmitter } } };
+});
+
+import { EquipmentManager, EQUIPMENT_EVENTS } from "./EquipmentManager";
+import { ArmorType, PerkId, Rarity, SpiritType, WeaponType } from "./Equipment";
+import { currencyManager } from "./CurrencyManager";
+import { calculateSalvageYield } from "../config/inventoryData";
+import { calculateSellPrice } from "../config/equipmentData";
+import { getPerkCandidates } from "../config/enchantingData";
+
+describe("EquipmentManager", () => {
+  let manager: EquipmentManager;
+
+  beforeEach(() => {
+    localStorage.clear();
+    currencyManager.reset();
+    EquipmentManager.resetInstance();
+    manager = EquipmentManager.getInstance();
+  });
+
+  function createBows(count: number, rarity: Rarity = Rarity.COMMON) {
+    return Array.from({ length: count }, () =>
+      manager.createEquipment(WeaponType.BRAVE_BOW, rarity),
+    );
+  }
+
+  describe("locked items", () => {
+    it("should persist the lock state", () => {
+      const [bow] = createBows(1);
+
+      manager.setLocked(bow.id, true);
+      EquipmentManager.resetInstance();
+
+      expect(EquipmentManager.getInstance().isLocked(bow.id)).toBe(true);
+    });
+
+    it("should refuse to sell a locked item", () => {
+      const [bow] = createBows(1);
+      manager.setLocked(bow.id, true);
+      const goldBefore = currencyManager.get("gold");
+
+      expect(manager.sellItem(bow.id)).toBe(0);
+
+      expect(manager.findItem(bow.id)).toBeDefined();
+      expect(currencyManager.get("gold")).toBe(goldBefore);
+    });
+
+    it("should skip locked items in bulk sell and salvage", () => {
+      const [locked, sold, salvaged] = createBows(3);
+      manager.setLocked(locked.id, true);
+
+      expect(manager.sellItems([locked.id, sold.id]).count).toBe(1);
+      expect(manager.salvageItems([locked.id, salvaged.id]).count).toBe(1);
+
+      expect(manager.getInventory().map((item) => item.id)).toEqual([locked.id]);
+    });
+
+    it("should refuse to fuse a locked item", () => {
+      const bows = createBows(3);
+      manager.setLocked(bows[0].id, true);
+
+      const result = manager.fuse(bows);
+
+      expect(result).toEqual({ success: false, error: "Locked items cannot be fused" });
+      expect(manager.getInventory()).toHaveLength(3);
+    });
+
+    it("should leave locked items out of fuseAll", () => {
+      const bows = createBows(4);
+      manager.setLocked(bows[0].id, true);
+
+      const result = manager.fuseAll();
+
+      expect(result.consumed).toBe(3);
+      expect(manager.findItem(bows[0].id)).toBeDefined();
+      expect(manager.getInventory().map((item) => item.rarity)).toEqual([
+        Rarity.COMMON,
+        Rarity.GREAT,
+      ]);
+    });
+  });
+
+  describe("bulk sell and salvage", () => {
+    it("should emit the single-item sold payload once per item", () => {
+      const bows = createBows(2);
+      const onSold = vi.fn();
+      manager.on(EQUIPMENT_EVENTS.ITEM_SOLD, onSold);
+
+      const summary = manager.sellItems(bows.map((bow) => bow.id));
+
+      expect(onSold).toHaveBeenCalledTimes(2);
+      for (const bow of bows) {
+        expect(onSold).toHaveBeenCalledWith({
+          item: bow,
+          goldEarned: calculateSellPrice(bow.rarity, bow.level),
+        });
+      }
+      expect(currencyManager.get("gold")).toBe(summary.reward.gold);
+    });
+
+    it("should remove salvaged items through the shared removal path", () => {
+      const vest = manager.createEquipment(ArmorType.VEST, Rarity.RARE);
+      const onChanged = vi.fn();
+      const onSalvaged = vi.fn();
+      manager.on(EQUIPMENT_EVENTS.INVENTORY_CHANGED, onChanged);
+      manager.on(EQUIPMENT_EVENTS.ITEM_SALVAGED, onSalvaged);
+      const scrollsBefore = currencyManager.get("scrolls");
+
+      manager.salvageItems([vest.id]);
+
+      expect(onChanged).toHaveBeenCalledWith({ action: "remove", item: vest });
+      expect(onSalvaged).toHaveBeenCalledWith({
+        item: vest,
+        scrollsEarned: calculateSalvageYield(vest.rarity, vest.level),
+      });
+      expect(currencyManager.get("scrolls")).toBe(
+        scrollsBefore + calculateSalvageYield(vest.rarity, vest.level),
+      );
+      EquipmentManager.resetInstance();
+      expect(EquipmentManager.getInstance().findItem(vest.id)).toBeUndefined();
+    });
+  });
+
+  describe("enchanting", () => {
+    function createBow(rarity: Rarity, perks: PerkId[], level: number = 1) {
+      const bow = manager.createEquipment(WeaponType.BRAVE_BOW, rarity, level);
+      bow.perks = perks;
+      return bow;
+    }
+
+    beforeEach(() => {
+      currencyManager.add("gold", 100000);
+      currencyManager.add("scrolls", 1000);
+    });
+
+    it("should scale costs with rarity, level, locked perks and extra slots", () => {
+      const perks = [PerkId.ATTACK_BOOST_SMALL, PerkId.CRIT_CHANCE_SMALL];
+      const rare = createBow(Rarity.RARE, perks);
+
+      expect(manager.getRerollCost(rare)).toEqual({ gold: 500, scrolls: 3 });
+      expect(manager.getRerollCost(rare, [0])).toEqual({ gold: 750, scrolls: 5 });
+      expect(manager.getAddPerkSlotCost(rare)).toEqual({ gold: 2000, scrolls: 12 });
+      expect(manager.getRerollCost(createBow(Rarity.RARE, perks, 21))).toEqual({
+        gold: 1000,
+        scrolls: 6,
+      });
+      expect(manager.getRerollCost(createBow(Rarity.EPIC, perks)).gold).toBeGreaterThan(500);
+    });
+
+    it("should keep locked perks and reroll the others into fitting perks", () => {
+      const bow = createBow(Rarity.RARE, [PerkId.ATTACK_BOOST_SMALL, PerkId.CRIT_CHANCE_SMALL]);
+      const allowed = getPerkCandidates(bow, []);
+
+      for (let i = 0; i < 10; i++) {
+        const result = manager.rerollPerks(bow, [0]);
+        expect(result.success).toBe(true);
+        expect(bow.perks[0]).toBe(PerkId.ATTACK_BOOST_SMALL);
+        expect(new Set(bow.perks).size).toBe(bow.perks.length);
+        expect(bow.perks.every((perk) => allowed.includes(perk))).toBe(true);
+      }
+    });
+
+    it("should need an unlocked perk and enough resources to reroll", () => {
+      const bow = createBow(Rarity.RARE, [PerkId.ATTACK_BOOST_SMALL, PerkId.CRIT_CHANCE_SMALL]);
+
+      expect(manager.rerollPerks(bow, [0, 1, 1]).error).toBe("No perk slot to reroll");
+      currencyManager.reset();
+      expect(manager.rerollPerks(bow).error).toBe("Insufficient resources");
+      expect(bow.perks).toEqual([PerkId.ATTACK_BOOST_SMALL, PerkId.CRIT_CHANCE_SMALL]);
+    });
+
+    it("should add one extra perk slot to Epic and Legendary items", () => {
+      const rare = createBow(Rarity.RARE, [PerkId.ATTACK_BOOST_SMALL, PerkId.CRIT_CHANCE_SMALL]);
+      const epic = createBow(Rarity.EPIC, [
+        PerkId.ATTACK_BOOST_SMALL,
+        PerkId.CRIT_CHANCE_SMALL,
+        PerkId.CRIT_DAMAGE_SMALL,
+      ]);
+
+      expect(manager.addPerkSlot(rare).success).toBe(false);
+      expect(manager.addPerkSlot(epic).success).toBe(true);
+      expect(epic.perks).toHaveLength(4);
+      expect(new Set(epic.perks).size).toBe(4);
+      expect(manager.addPerkSlot(epic).error).toBe("Item cannot gain another perk slot");
+    });
+
+    it("should not add a slot when no perk is left for the item", () => {
+      const spirit = manager.createEquipment(SpiritType.BAT, Rarity.LEGENDARY);
+      spirit.perks = [PerkId.XP_BOOST_SMALL, PerkId.GOLD_BOOST_SMALL];
+
+      expect(manager.addPerkSlot(spirit).error).toBe("Item cannot gain another perk slot");
+    });
+  });
+});
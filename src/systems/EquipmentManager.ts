@@ -5,6 +5,7 @@
  * - Inventory management (add, remove, find)
  * - Equipping/unequipping items
  * - Upgrades and fusion
+ * - Locking, selling and salvage
  * - Stat calculations from equipped items
  * - Save/load integration with SaveManager
  */
@@ -20,6 +21,7 @@ import {
   PerkId,
   UpgradeCost,
   UpgradeResult,
+  EnchantResult,
   FusionResult,
   RARITY_CONFIGS,
   FUSION_REQUIREMENTS,
@@ -29,6 +31,7 @@ import {
   WeaponType,
   WEAPON_TYPE_CONFIGS,
   EQUIPMENT_SLOTS,
+  EquipmentSetId,
 } from "./Equipment";
 import {
   getEquipmentBaseData,
@@ -39,14 +42,42 @@ import {
   getRandomRarity,
   PERKS,
 } from "../config/equipmentData";
+import {
+  EquipmentSetProgress,
+  getSetBonusStats,
+  getSetPieceName,
+  getSetPieceTypes,
+  getSetProgress,
+  isEquipmentSetId,
+  isSetPieceType,
+  rollEquipmentSetId,
+} from "../config/equipmentSetData";
+import {
+  calculateAddPerkSlotCost,
+  calculateRerollCost,
+  canAddPerkSlot,
+  canRerollPerks,
+  normalizeLockedIndices,
+  rerollPerks,
+  rollExtraPerk,
+  type EnchantKind,
+} from "../config/enchantingData";
+import {
+  calculateSalvageYield,
+  summarizeBulkAction,
+  type BulkAction,
+  type BulkActionSummary,
+} from "../config/inventoryData";
 import { currencyManager } from "./CurrencyManager";
+import { enchantingManager } from "./EnchantingManager";
+import { storageService, STORAGE_KEYS, saveSnapshots } from "./storage";
 
 // ============================================
 // Constants
 // ============================================
 
-/** localStorage key for equipment data persistence */
-const EQUIPMENT_STORAGE_KEY = "aura_archer_equipment_data";
+/** Storage record key for equipment data persistence */
+const EQUIPMENT_STORAGE_KEY = STORAGE_KEYS.equipment;
 
 // ============================================
 // Event Types
@@ -61,6 +92,8 @@ export const EQUIPMENT_EVENTS = {
   ITEM_UPGRADED: "equipment:item-upgraded",
   ITEM_FUSED: "equipment:item-fused",
   ITEM_SOLD: "equipment:item-sold",
+  ITEM_SALVAGED: "equipment:item-salvaged",
+  ITEM_ENCHANTED: "equipment:item-enchanted",
   STATS_CHANGED: "equipment:stats-changed",
 } as const;
 
@@ -78,6 +111,8 @@ export interface EquipmentSaveItem {
   rarity: string;
   level: number;
   perks: string[];
+  setId: string | null;
+  locked: boolean;
 }
 
 /**
@@ -110,6 +145,7 @@ export class EquipmentManager extends Phaser.Events.EventEmitter {
     super();
     // Load saved data on construction
     this.loadFromStorage();
+    storageService.register(EQUIPMENT_STORAGE_KEY, () => this.loadFromStorage());
   }
 
   /**
@@ -196,6 +232,28 @@ export class EquipmentManager extends Phaser.Events.EventEmitter {
     return true;
   }
 
+  /**
+   * Lock or unlock an item
+   * Locked items cannot be sold, salvaged or fused
+   */
+  setLocked(id: string, locked: boolean): boolean {
+    const item = this.findItem(id);
+    if (!item) return false;
+
+    item.locked = locked;
+
+    this.emit(EQUIPMENT_EVENTS.INVENTORY_CHANGED, { action: "update", item });
+    this.saveToStorage();
+    return true;
+  }
+
+  /**
+   * Check if an item is locked
+   */
+  isLocked(id: string): boolean {
+    return this.findItem(id)?.locked ?? false;
+  }
+
   /**
    * Create a new equipment item and add to inventory
    */
@@ -203,30 +261,48 @@ export class EquipmentManager extends Phaser.Events.EventEmitter {
     type: EquipmentType,
     rarity: Rarity = Rarity.COMMON,
     level: number = 1,
+    setId: EquipmentSetId | null = null,
+  ): Equipment {
+    const equipment = this.buildEquipment(type, rarity, level, undefined, setId);
+    this.addToInventory(equipment);
+    return equipment;
+  }
+
+  /**
+   * Build an equipment item without adding it to the inventory
+   * Perks are rolled for the rarity unless given
+   */
+  buildEquipment(
+    type: EquipmentType,
+    rarity: Rarity = Rarity.COMMON,
+    level: number = 1,
+    perks?: PerkId[],
+    setId: EquipmentSetId | null = null,
   ): Equipment {
     const baseData = getEquipmentBaseData(type);
     if (!baseData) {
       throw new Error(`Unknown equipment type: ${type}`);
     }
+    if (setId && !isSetPieceType(setId, type)) {
+      throw new Error(`${type} is not a piece of equipment set ${setId}`);
+    }
 
     const slot = getSlotForType(type);
-    const perks = selectRandomPerks(slot, rarity);
     const baseStats = calculateEquipmentStats(baseData.baseStats, rarity, level);
 
-    const equipment: Equipment = {
+    return {
       id: generateEquipmentId(),
       type,
       slot,
       rarity,
       level,
       baseStats,
-      perks,
-      name: baseData.name,
+      perks: perks ?? selectRandomPerks(slot, rarity),
+      setId,
+      locked: false,
+      name: setId ? getSetPieceName(setId, baseData.name) : baseData.name,
       description: baseData.description,
     };
-
-    this.addToInventory(equipment);
-    return equipment;
   }
 
   /**
@@ -274,6 +350,16 @@ export class EquipmentManager extends Phaser.Events.EventEmitter {
     return this.createEquipment(randomType, rarity);
   }
 
+  /**
+   * Generate a random piece of an equipment set with a specific rarity
+   * The set is rolled by drop weight unless given
+   */
+  generateSetEquipment(rarity: Rarity, setId: EquipmentSetId = rollEquipmentSetId()): Equipment {
+    const pieceTypes = getSetPieceTypes(setId);
+    const randomType = pieceTypes[Math.floor(Math.random() * pieceTypes.length)];
+    return this.createEquipment(randomType, rarity, 1, setId);
+  }
+
   private getTypesForSlot(slot: EquipmentSlotType): EquipmentType[] {
     switch (slot) {
       case "weapon":
@@ -380,11 +466,35 @@ export class EquipmentManager extends Phaser.Events.EventEmitter {
       return this.cachedStats;
     }
 
+    this.cachedStats = this.calculateStats(this.getEquippedItems());
+    return this.cachedStats;
+  }
+
+  /**
+   * Progress of the equipment sets with at least one equipped piece
+   */
+  getEquippedSetProgress(): EquipmentSetProgress[] {
+    return getSetProgress(this.getEquippedItems());
+  }
+
+  /**
+   * Equipped items in slot order (empty slots skipped)
+   */
+  getEquippedItems(): Equipment[] {
+    return EQUIPMENT_SLOTS.map((slot) => this.equipped[slot]).filter(
+      (item): item is Equipment => item !== null,
+    );
+  }
+
+  /**
+   * Calculate combined stats for a set of items (one per slot),
+   * including the bonuses of equipment sets they complete
+   */
+  calculateStats(items: Equipment[]): CombinedEquipmentStats {
     const combined: CombinedEquipmentStats = {};
 
-    for (const slot of EQUIPMENT_SLOTS) {
-      const item = this.equipped[slot];
-      if (!item) continue;
+    for (const item of items) {
+      const slot = item.slot;
 
       // Add base stats
       this.addStats(combined, item.baseStats);
@@ -406,7 +516,9 @@ export class EquipmentManager extends Phaser.Events.EventEmitter {
       }
     }
 
-    this.cachedStats = combined;
+    // Add equipment set bonuses
+    this.addStats(combined, getSetBonusStats(items));
+
     return combined;
   }
 
@@ -465,47 +577,180 @@ export class EquipmentManager extends Phaser.Events.EventEmitter {
    * Returns success status and error message if failed
    */
   upgrade(equipment: Equipment, paymentCallback: (cost: UpgradeCost) => boolean): UpgradeResult {
-    const { canUpgrade, reason } = this.canUpgrade(equipment);
+    // Payment and level-up are persisted together or not at all
+    return storageService.transaction(() => {
+      const { canUpgrade, reason } = this.canUpgrade(equipment);
 
-    if (!canUpgrade) {
-      return { success: false, newLevel: equipment.level, error: reason };
-    }
+      if (!canUpgrade) {
+        return { success: false, newLevel: equipment.level, error: reason };
+      }
 
-    const cost = this.getUpgradeCost(equipment);
+      const cost = this.getUpgradeCost(equipment);
 
-    // Attempt payment
-    if (!paymentCallback(cost)) {
-      return { success: false, newLevel: equipment.level, error: "Insufficient resources" };
-    }
+      // Attempt payment
+      if (!paymentCallback(cost)) {
+        return { success: false, newLevel: equipment.level, error: "Insufficient resources" };
+      }
 
-    // Upgrade successful
-    equipment.level++;
+      // Upgrade successful
+      equipment.level++;
 
-    // Recalculate stats
-    const baseData = getEquipmentBaseData(equipment.type);
-    if (baseData) {
-      equipment.baseStats = calculateEquipmentStats(
-        baseData.baseStats,
-        equipment.rarity,
-        equipment.level,
-      );
+      // Recalculate stats
+      const baseData = getEquipmentBaseData(equipment.type);
+      if (baseData) {
+        equipment.baseStats = calculateEquipmentStats(
+          baseData.baseStats,
+          equipment.rarity,
+          equipment.level,
+        );
+      }
+
+      // Invalidate stats if equipped
+      if (this.isEquipped(equipment.id)) {
+        this.invalidateStats();
+        this.emit(EQUIPMENT_EVENTS.STATS_CHANGED, this.getEquippedStats());
+      }
+
+      this.emit(EQUIPMENT_EVENTS.ITEM_UPGRADED, { item: equipment, newLevel: equipment.level });
+      this.emit(EQUIPMENT_EVENTS.INVENTORY_CHANGED, { action: "update", item: equipment });
+      this.saveToStorage();
+
+      return { success: true, newLevel: equipment.level };
+    });
+  }
+
+  // ============================================
+  // Enchanting
+  // ============================================
+
+  /**
+   * Get the cost to reroll an item's perks with some perk slots locked
+   */
+  getRerollCost(equipment: Equipment, lockedIndices: number[] = []): UpgradeCost {
+    return calculateRerollCost(equipment, normalizeLockedIndices(equipment, lockedIndices).length);
+  }
+
+  /**
+   * Get the cost to add a perk slot to an item
+   */
+  getAddPerkSlotCost(equipment: Equipment): UpgradeCost {
+    return calculateAddPerkSlotCost(equipment);
+  }
+
+  /**
+   * Reroll an item's perks for gold and scrolls, keeping the locked perk slots
+   */
+  rerollPerks(equipment: Equipment, lockedIndices: number[] = []): EnchantResult {
+    // Payment, new perks and the enchant record are persisted together
+    return storageService.transaction(() => {
+      if (!this.findItem(equipment.id)) {
+        return { success: false, error: "Item must be in inventory" };
+      }
+      if (!canRerollPerks(equipment, lockedIndices)) {
+        return { success: false, error: "No perk slot to reroll" };
+      }
+
+      const cost = this.getRerollCost(equipment, lockedIndices);
+      if (!this.payEnchantCost(cost)) {
+        return { success: false, error: "Insufficient resources" };
+      }
+
+      const perks = rerollPerks(equipment, normalizeLockedIndices(equipment, lockedIndices));
+      this.applyEnchant(equipment, "reroll", perks, cost);
+      return { success: true, perks };
+    });
+  }
+
+  /**
+   * Add a perk slot (with a random perk) to an Epic or Legendary item
+   */
+  addPerkSlot(equipment: Equipment): EnchantResult {
+    return storageService.transaction(() => {
+      if (!this.findItem(equipment.id)) {
+        return { success: false, error: "Item must be in inventory" };
+      }
+      const newPerk = canAddPerkSlot(equipment) ? rollExtraPerk(equipment) : null;
+      if (!newPerk) {
+        return { success: false, error: "Item cannot gain another perk slot" };
+      }
+
+      const cost = this.getAddPerkSlotCost(equipment);
+      if (!this.payEnchantCost(cost)) {
+        return { success: false, error: "Insufficient resources" };
+      }
+
+      const perks = [...equipment.perks, newPerk];
+      this.applyEnchant(equipment, "add_slot", perks, cost);
+      return { success: true, perks };
+    });
+  }
+
+  /**
+   * Undo the item's latest enchant (once, within the undo window)
+   * Restores the previous perks; the enchant cost is not refunded.
+   */
+  undoEnchant(equipment: Equipment, currentTime: number = Date.now()): EnchantResult {
+    return storageService.transaction(() => {
+      const record = enchantingManager.getUndoableEnchant(equipment.id, currentTime);
+      if (!record || !this.findItem(equipment.id)) {
+        return { success: false, error: "Nothing to undo" };
+      }
+      if (record.perks.join() !== equipment.perks.join()) {
+        return { success: false, error: "Item changed since the enchant" };
+      }
+
+      enchantingManager.markUndone(record.id);
+      this.setPerks(equipment, [...record.previousPerks]);
+      return { success: true, perks: equipment.perks };
+    });
+  }
+
+  /**
+   * Spend an enchant's gold and scrolls, or nothing if either is short
+   */
+  private payEnchantCost(cost: UpgradeCost): boolean {
+    if (
+      !currencyManager.canAfford("gold", cost.gold) ||
+      !currencyManager.canAfford("scrolls", cost.scrolls)
+    ) {
+      return false;
     }
+    return (
+      currencyManager.spend("gold", cost.gold) && currencyManager.spend("scrolls", cost.scrolls)
+    );
+  }
+
+  /**
+   * Give an item its enchanted perks and record the enchant
+   */
+  private applyEnchant(
+    equipment: Equipment,
+    kind: EnchantKind,
+    perks: PerkId[],
+    cost: UpgradeCost,
+  ): void {
+    enchantingManager.record(equipment.id, kind, equipment.perks, perks, cost);
+    this.setPerks(equipment, perks);
+  }
+
+  /**
+   * Replace an item's perks and refresh stats if it is equipped
+   */
+  private setPerks(equipment: Equipment, perks: PerkId[]): void {
+    equipment.perks = perks;
 
-    // Invalidate stats if equipped
     if (this.isEquipped(equipment.id)) {
       this.invalidateStats();
       this.emit(EQUIPMENT_EVENTS.STATS_CHANGED, this.getEquippedStats());
     }
 
-    this.emit(EQUIPMENT_EVENTS.ITEM_UPGRADED, { item: equipment, newLevel: equipment.level });
+    this.emit(EQUIPMENT_EVENTS.ITEM_ENCHANTED, { item: equipment });
     this.emit(EQUIPMENT_EVENTS.INVENTORY_CHANGED, { action: "update", item: equipment });
     this.saveToStorage();
-
-    return { success: true, newLevel: equipment.level };
   }
 
   // ============================================
-  // Selling
+  // Selling and Salvage
   // ============================================
 
   /**
@@ -520,30 +765,123 @@ export class EquipmentManager extends Phaser.Events.EventEmitter {
    * Returns the gold earned, or 0 if the item couldn't be sold
    */
   sellItem(id: string): number {
-    const item = this.findItem(id);
-    if (!item) {
-      console.warn("Cannot sell item not in inventory:", id);
-      return 0;
-    }
+    saveSnapshots.take("sell");
+
+    // Item removal and gold payout are persisted together
+    return storageService.transaction(() => {
+      const item = this.findItem(id);
+      if (!item) {
+        console.warn("Cannot sell item not in inventory:", id);
+        return 0;
+      }
 
-    // Cannot sell equipped items
-    if (this.isEquipped(id)) {
-      console.warn("Cannot sell equipped item:", id);
-      return 0;
-    }
+      // Cannot sell equipped items
+      if (this.isEquipped(id)) {
+        console.warn("Cannot sell equipped item:", id);
+        return 0;
+      }
+
+      if (item.locked) {
+        console.warn("Cannot sell locked item:", id);
+        return 0;
+      }
+
+      const sellPrice = this.getSellPrice(item);
+
+      // Remove from inventory
+      this.removeFromInventory(id);
+
+      // Add gold to player
+      currencyManager.add("gold", sellPrice);
+
+      // Emit sold event
+      this.emit(EQUIPMENT_EVENTS.ITEM_SOLD, { item, goldEarned: sellPrice });
+
+      return sellPrice;
+    });
+  }
+
+  /**
+   * Get the scrolls from salvaging an item
+   */
+  getSalvageYield(equipment: Equipment): number {
+    return calculateSalvageYield(equipment.rarity, equipment.level);
+  }
+
+  /**
+   * Check if an item can be sold or salvaged (in inventory, not equipped, not locked)
+   */
+  canDiscard(equipment: Equipment): boolean {
+    return (
+      this.findItem(equipment.id) !== undefined &&
+      !this.isEquipped(equipment.id) &&
+      !equipment.locked
+    );
+  }
+
+  /**
+   * Preview a bulk sell or salvage
+   * Items that cannot be discarded are left out
+   */
+  getBulkSummary(ids: string[], action: BulkAction): BulkActionSummary {
+    return summarizeBulkAction(this.getDiscardableItems(ids), action);
+  }
+
+  /**
+   * Sell many items for gold at once
+   * Equipped and locked items are skipped
+   */
+  sellItems(ids: string[]): BulkActionSummary {
+    return this.discardItems(ids, "sell");
+  }
+
+  /**
+   * Salvage many items into scrolls at once
+   * Equipped and locked items are skipped
+   */
+  salvageItems(ids: string[]): BulkActionSummary {
+    return this.discardItems(ids, "salvage");
+  }
+
+  private getDiscardableItems(ids: string[]): Equipment[] {
+    const idSet = new Set(ids);
+    return this.inventory.filter((item) => idSet.has(item.id) && this.canDiscard(item));
+  }
+
+  private discardItems(ids: string[], action: BulkAction): BulkActionSummary {
+    saveSnapshots.take(action);
 
-    const sellPrice = this.getSellPrice(item);
+    // Item removal and the payout are persisted together
+    return storageService.transaction(() => {
+      const items = this.getDiscardableItems(ids);
+      const summary = summarizeBulkAction(items, action);
+      if (items.length === 0) return summary;
 
-    // Remove from inventory
-    this.removeFromInventory(id);
+      for (const item of items) {
+        this.removeFromInventory(item.id);
+      }
 
-    // Add gold to player
-    currencyManager.add("gold", sellPrice);
+      if (summary.reward.gold > 0) {
+        currencyManager.add("gold", summary.reward.gold);
+      }
+      if (summary.reward.scrolls > 0) {
+        currencyManager.add("scrolls", summary.reward.scrolls);
+      }
 
-    // Emit sold event
-    this.emit(EQUIPMENT_EVENTS.ITEM_SOLD, { item, goldEarned: sellPrice });
+      // Same per-item payloads as sellItem, so listeners handle both alike
+      for (const item of items) {
+        if (action === "sell") {
+          this.emit(EQUIPMENT_EVENTS.ITEM_SOLD, { item, goldEarned: this.getSellPrice(item) });
+        } else {
+          this.emit(EQUIPMENT_EVENTS.ITEM_SALVAGED, {
+            item,
+            scrollsEarned: this.getSalvageYield(item),
+          });
+        }
+      }
 
-    return sellPrice;
+      return summary;
+    });
   }
 
   // ============================================
@@ -552,7 +890,7 @@ export class EquipmentManager extends Phaser.Events.EventEmitter {
 
   /**
    * Find items that can be fused together
-   * Returns groups of items that share type, rarity, and can be fused
+   * Returns groups of unlocked items that share type, rarity, set, and can be fused
    */
   findFusionCandidates(): Map<string, Equipment[]> {
     const groups = new Map<string, Equipment[]>();
@@ -560,8 +898,9 @@ export class EquipmentManager extends Phaser.Events.EventEmitter {
     for (const item of this.inventory) {
       // Can't fuse legendary items (already max rarity)
       if (item.rarity === Rarity.LEGENDARY) continue;
+      if (item.locked) continue;
 
-      const key = `${item.type}_${item.rarity}`;
+      const key = `${item.type}_${item.rarity}_${item.setId ?? ""}`;
       const group = groups.get(key) ?? [];
       group.push(item);
       groups.set(key, group);
@@ -580,59 +919,77 @@ export class EquipmentManager extends Phaser.Events.EventEmitter {
 
   /**
    * Attempt to fuse items
-   * Requires 3 items of same type and rarity
+   * Requires 3 items of same type and rarity (set pieces fuse with the same set only)
    */
   fuse(items: Equipment[]): FusionResult {
-    if (items.length !== FUSION_REQUIREMENTS.itemsRequired) {
-      return {
-        success: false,
-        error: `Fusion requires exactly ${FUSION_REQUIREMENTS.itemsRequired} items`,
-      };
-    }
+    saveSnapshots.take("fusion");
+
+    // Consumed items and the fused result are persisted together
+    return storageService.transaction(() => {
+      if (items.length !== FUSION_REQUIREMENTS.itemsRequired) {
+        return {
+          success: false,
+          error: `Fusion requires exactly ${FUSION_REQUIREMENTS.itemsRequired} items`,
+        };
+      }
 
-    // Verify all items are same type and rarity
-    const firstItem = items[0];
-    const allSameType = items.every((item) => item.type === firstItem.type);
-    const allSameRarity = items.every((item) => item.rarity === firstItem.rarity);
+      // Verify all items are same type and rarity
+      const firstItem = items[0];
+      const allSameType = items.every((item) => item.type === firstItem.type);
+      const allSameRarity = items.every((item) => item.rarity === firstItem.rarity);
 
-    if (!allSameType || !allSameRarity) {
-      return { success: false, error: "All items must be the same type and rarity" };
-    }
+      if (!allSameType || !allSameRarity) {
+        return { success: false, error: "All items must be the same type and rarity" };
+      }
 
-    // Verify all items exist in inventory
-    const allInInventory = items.every((item) => this.findItem(item.id));
-    if (!allInInventory) {
-      return { success: false, error: "All items must be in inventory" };
-    }
+      if (!items.every((item) => item.setId === firstItem.setId)) {
+        return { success: false, error: "Set pieces can only be fused with the same set" };
+      }
 
-    // Cannot fuse legendary items
-    if (firstItem.rarity === Rarity.LEGENDARY) {
-      return { success: false, error: "Legendary items cannot be fused" };
-    }
+      // Verify all items exist in inventory
+      const allInInventory = items.every((item) => this.findItem(item.id));
+      if (!allInInventory) {
+        return { success: false, error: "All items must be in inventory" };
+      }
 
-    // Get next rarity
-    const nextRarity = getNextRarity(firstItem.rarity);
-    if (!nextRarity) {
-      return { success: false, error: "Cannot upgrade rarity further" };
-    }
+      if (items.some((item) => item.locked)) {
+        return { success: false, error: "Locked items cannot be fused" };
+      }
 
-    // Calculate average level (rounded up)
-    const avgLevel = Math.ceil(items.reduce((sum, item) => sum + item.level, 0) / items.length);
+      // Cannot fuse legendary items
+      if (firstItem.rarity === Rarity.LEGENDARY) {
+        return { success: false, error: "Legendary items cannot be fused" };
+      }
 
-    // Remove fused items
-    for (const item of items) {
-      this.removeFromInventory(item.id);
-    }
+      // Get next rarity
+      const nextRarity = getNextRarity(firstItem.rarity);
+      if (!nextRarity) {
+        return { success: false, error: "Cannot upgrade rarity further" };
+      }
 
-    // Create new item with higher rarity
-    const resultItem = this.createEquipment(firstItem.type, nextRarity, avgLevel);
+      // Calculate average level (rounded up)
+      const avgLevel = Math.ceil(items.reduce((sum, item) => sum + item.level, 0) / items.length);
 
-    this.emit(EQUIPMENT_EVENTS.ITEM_FUSED, {
-      consumed: items,
-      result: resultItem,
-    });
+      // Remove fused items
+      for (const item of items) {
+        this.removeFromInventory(item.id);
+      }
 
-    return { success: true, resultingItem: resultItem };
+      // Create new item with higher rarity
+      const resultItem = this.createEquipment(
+        firstItem.type,
+        nextRarity,
+        avgLevel,
+        firstItem.setId,
+      );
+
+      this.emit(EQUIPMENT_EVENTS.ITEM_FUSED, {
+        consumed: items,
+        result: resultItem,
+      });
+
+      return { success: true, resultingItem: resultItem };
+    });
   }
 
   /**
@@ -640,28 +997,33 @@ export class EquipmentManager extends Phaser.Events.EventEmitter {
    * Keeps fusing until no more groups of 3 exist at any rarity.
    */
   fuseAll(): { success: boolean; results: Equipment[]; consumed: number } {
-    const results: Equipment[] = [];
-    let totalConsumed = 0;
-
-    // Keep fusing while candidates exist (chain fusion)
-    let candidates = this.findFusionCandidates();
-    while (candidates.size > 0) {
-      for (const [_key, items] of candidates) {
-        // Fuse in batches of 3
-        while (items.length >= 3) {
-          const toFuse = items.splice(0, 3);
-          const result = this.fuse(toFuse);
-          if (result.success && result.resultingItem) {
-            results.push(result.resultingItem);
-            totalConsumed += 3;
+    saveSnapshots.take("fusion");
+
+    // The whole fusion chain is persisted as one commit
+    return storageService.transaction(() => {
+      const results: Equipment[] = [];
+      let totalConsumed = 0;
+
+      // Keep fusing while candidates exist (chain fusion)
+      let candidates = this.findFusionCandidates();
+      while (candidates.size > 0) {
+        for (const [_key, items] of candidates) {
+          // Fuse in batches of 3
+          while (items.length >= 3) {
+            const toFuse = items.splice(0, 3);
+            const result = this.fuse(toFuse);
+            if (result.success && result.resultingItem) {
+              results.push(result.resultingItem);
+              totalConsumed += 3;
+            }
           }
         }
+        // Re-check for new candidates (chain fusion from newly created items)
+        candidates = this.findFusionCandidates();
       }
-      // Re-check for new candidates (chain fusion from newly created items)
-      candidates = this.findFusionCandidates();
-    }
 
-    return { success: results.length > 0, results, consumed: totalConsumed };
+      return { success: results.length > 0, results, consumed: totalConsumed };
+    });
   }
 
   // ============================================
@@ -679,6 +1041,8 @@ export class EquipmentManager extends Phaser.Events.EventEmitter {
       rarity: item.rarity,
       level: item.level,
       perks: item.perks,
+      setId: item.setId,
+      locked: item.locked,
     }));
 
     const equippedData: Record<string, string | null> = {};
@@ -719,6 +1083,19 @@ export class EquipmentManager extends Phaser.Events.EventEmitter {
         return false;
       });
 
+      // Drop set tags of removed sets (the item stays as a regular piece)
+      let setId: EquipmentSetId | null = null;
+      if (saveItem.setId !== null) {
+        if (
+          isEquipmentSetId(saveItem.setId) &&
+          isSetPieceType(saveItem.setId, saveItem.type as EquipmentType)
+        ) {
+          setId = saveItem.setId;
+        } else {
+          console.warn("Unknown equipment set in save data, skipping:", saveItem.setId);
+        }
+      }
+
       const equipment: Equipment = {
         id: saveItem.id,
         type: saveItem.type as EquipmentType,
@@ -726,7 +1103,9 @@ export class EquipmentManager extends Phaser.Events.EventEmitter {
         rarity: saveItem.rarity as Rarity,
         level: saveItem.level,
         perks: validPerks,
-        name: baseData.name,
+        setId,
+        locked: saveItem.locked,
+        name: setId ? getSetPieceName(setId, baseData.name) : baseData.name,
         description: baseData.description,
         baseStats: calculateEquipmentStats(
           baseData.baseStats,
@@ -768,29 +1147,31 @@ export class EquipmentManager extends Phaser.Events.EventEmitter {
   }
 
   // ============================================
-  // LocalStorage Persistence
+  // Storage Persistence
   // ============================================
 
   /**
-   * Save equipment data to localStorage
+   * Save equipment data to storage
    */
   private saveToStorage(): void {
     try {
       const data = this.toSaveData();
-      localStorage.setItem(EQUIPMENT_STORAGE_KEY, JSON.stringify(data));
+      storageService.set(EQUIPMENT_STORAGE_KEY, data);
     } catch (error) {
       console.error("EquipmentManager: Failed to save data:", error);
     }
   }
 
   /**
-   * Load equipment data from localStorage
+   * Load equipment data from storage
    */
   private loadFromStorage(): void {
+    this.inventory = [];
+    this.equipped = { weapon: null, armor: null, ring: null, spirit: null };
+    this.cachedStats = null;
     try {
-      const stored = localStorage.getItem(EQUIPMENT_STORAGE_KEY);
-      if (stored) {
-        const data = JSON.parse(stored) as EquipmentSaveData;
+      const data = storageService.get<EquipmentSaveData>(EQUIPMENT_STORAGE_KEY);
+      if (data) {
         this.fromSaveData(data);
         console.log(`EquipmentManager: Loaded ${this.inventory.length} items from storage`);
       }
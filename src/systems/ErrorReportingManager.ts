@@ -1,4 +1,3 @@
-/* eslint-disable no-undef */
 /**
  * ErrorReportingManager - Remote error tracking with Sentry
  *
@@ -354,7 +353,7 @@ class ErrorReportingManager {
    * Track game start
    */
   trackGameStart(
-    mode: "normal" | "endless" | "daily",
+    mode: "normal" | "endless" | "daily" | "boss_rush",
     chapterId: number,
     difficulty: string,
   ): void {
@@ -4,6 +4,7 @@
  */
 
 import type { HeroId, HeroBaseStats, HeroPerk } from "../config/heroData";
+import { DEFAULT_HERO_ID, getAllHeroIds, getFreeHeroIds } from "../config/heroData";
 
 // Re-export HeroId for convenience
 export type { HeroId } from "../config/heroData";
@@ -117,16 +118,16 @@ export function createDefaultHeroProgress(): HeroProgress {
 }
 
 /**
- * Create default save data for heroes
+ * Create default save data for heroes (every registered hero, free ones unlocked)
  */
 export function createDefaultHeroSaveData(): HeroSaveData {
+  const heroProgress: Record<HeroId, HeroProgress> = {};
+  for (const heroId of getAllHeroIds()) {
+    heroProgress[heroId] = createDefaultHeroProgress();
+  }
   return {
-    unlockedHeroes: ["atreus"], // Atreus is free
-    selectedHeroId: "atreus",
-    heroProgress: {
-      atreus: createDefaultHeroProgress(),
-      helix: createDefaultHeroProgress(),
-      meowgik: createDefaultHeroProgress(),
-    },
+    unlockedHeroes: getFreeHeroIds(),
+    selectedHeroId: DEFAULT_HERO_ID,
+    heroProgress,
   };
 }
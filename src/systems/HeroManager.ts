@@ -30,14 +30,16 @@ import {
   getUnlockedPerks,
   getNextPerk,
   isValidHeroId,
+  isHeroUnlockRequirementMet,
   getAllHeroIds,
 } from "../config/heroData";
+import { storageService, STORAGE_KEYS } from "./storage";
 
 // ============================================
 // Constants
 // ============================================
 
-const HERO_STORAGE_KEY = "aura_archer_hero_data";
+const HERO_STORAGE_KEY = STORAGE_KEYS.heroes;
 
 // ============================================
 // HeroManager Class
@@ -67,28 +69,32 @@ export class HeroManager extends Phaser.Events.EventEmitter {
 
     // Load persisted data
     this.loadFromStorage();
+    storageService.register(HERO_STORAGE_KEY, () => this.loadFromStorage());
   }
 
   /**
-   * Save hero data to localStorage
+   * Save hero data to storage
    */
   private saveToStorage(): void {
     try {
       const data = this.toSaveData();
-      localStorage.setItem(HERO_STORAGE_KEY, JSON.stringify(data));
+      storageService.set(HERO_STORAGE_KEY, data);
     } catch (error) {
       console.error("HeroManager: Failed to save data:", error);
     }
   }
 
   /**
-   * Load hero data from localStorage
+   * Load hero data from storage
    */
   private loadFromStorage(): void {
+    const defaults = createDefaultHeroSaveData();
+    this.unlockedHeroes = new Set(defaults.unlockedHeroes);
+    this.selectedHeroId = defaults.selectedHeroId;
+    this.heroProgress = defaults.heroProgress;
     try {
-      const stored = localStorage.getItem(HERO_STORAGE_KEY);
-      if (stored) {
-        const data = JSON.parse(stored) as HeroSaveData;
+      const data = storageService.get<HeroSaveData>(HERO_STORAGE_KEY);
+      if (data) {
         this.fromSaveData(data);
         console.log(`HeroManager: Loaded ${this.unlockedHeroes.size} heroes from storage`);
       }
@@ -159,19 +165,28 @@ export class HeroManager extends Phaser.Events.EventEmitter {
    * Import data from save
    */
   fromSaveData(data: Partial<HeroSaveData>): void {
+    // Start from the defaults so heroes added since the save was written are
+    // present (locked unless free) and nothing leaks from a previous load
+    const defaults = createDefaultHeroSaveData();
+    this.unlockedHeroes = new Set(defaults.unlockedHeroes);
+    this.selectedHeroId = defaults.selectedHeroId;
+    this.heroProgress = defaults.heroProgress;
+
     if (data.unlockedHeroes) {
-      this.unlockedHeroes = new Set(data.unlockedHeroes.filter((id) => isValidHeroId(id)));
-      // Ensure Atreus is always unlocked
-      this.unlockedHeroes.add("atreus");
+      for (const heroId of data.unlockedHeroes) {
+        if (isValidHeroId(heroId)) {
+          this.unlockedHeroes.add(heroId);
+        }
+      }
     }
 
-    if (data.selectedHeroId && isValidHeroId(data.selectedHeroId)) {
-      // Ensure selected hero is unlocked
-      if (this.unlockedHeroes.has(data.selectedHeroId)) {
-        this.selectedHeroId = data.selectedHeroId;
-      } else {
-        this.selectedHeroId = "atreus";
-      }
+    // Ensure selected hero is unlocked
+    if (
+      data.selectedHeroId &&
+      isValidHeroId(data.selectedHeroId) &&
+      this.unlockedHeroes.has(data.selectedHeroId)
+    ) {
+      this.selectedHeroId = data.selectedHeroId;
     }
 
     if (data.heroProgress) {
@@ -181,6 +196,8 @@ export class HeroManager extends Phaser.Events.EventEmitter {
             ...createDefaultHeroProgress(),
             ...data.heroProgress[heroId],
           };
+          // Perks added to the game after the hero passed their level
+          this.checkAndUnlockPerks(heroId);
         }
       }
     }
@@ -253,6 +270,7 @@ export class HeroManager extends Phaser.Events.EventEmitter {
     if (this.unlockedHeroes.has(heroId)) return false;
 
     const hero = HERO_DEFINITIONS[heroId];
+    if (!this.isUnlockRequirementMet(heroId)) return false;
     if (hero.unlockCurrency === "free") return true;
     if (hero.unlockCurrency === "gold") {
       return this.getGold() >= hero.unlockCost;
@@ -263,6 +281,17 @@ export class HeroManager extends Phaser.Events.EventEmitter {
     return false;
   }
 
+  /**
+   * Check if a hero's unlock requirement (e.g. another hero's level) is met
+   */
+  isUnlockRequirementMet(heroId: HeroId): boolean {
+    if (!isValidHeroId(heroId)) return false;
+    return isHeroUnlockRequirementMet(HERO_DEFINITIONS[heroId], {
+      getLevel: (id) => this.getLevel(id),
+      unlockedCount: this.unlockedHeroes.size,
+    });
+  }
+
   /**
    * Get unlock cost and currency for a hero
    */
@@ -278,29 +307,32 @@ export class HeroManager extends Phaser.Events.EventEmitter {
    * Attempt to unlock a hero
    */
   unlock(heroId: HeroId): boolean {
-    if (!this.canUnlock(heroId)) return false;
+    // Currency spend and unlock are persisted together
+    return storageService.transaction(() => {
+      if (!this.canUnlock(heroId)) return false;
 
-    const hero = HERO_DEFINITIONS[heroId];
+      const hero = HERO_DEFINITIONS[heroId];
 
-    // Spend currency if not free
-    if (hero.unlockCurrency === "gold") {
-      if (!this.spendGold(hero.unlockCost)) return false;
-    } else if (hero.unlockCurrency === "gems") {
-      if (!this.spendGems(hero.unlockCost)) return false;
-    }
+      // Spend currency if not free
+      if (hero.unlockCurrency === "gold") {
+        if (!this.spendGold(hero.unlockCost)) return false;
+      } else if (hero.unlockCurrency === "gems") {
+        if (!this.spendGems(hero.unlockCost)) return false;
+      }
 
-    this.unlockedHeroes.add(heroId);
+      this.unlockedHeroes.add(heroId);
 
-    const event: HeroUnlockEvent = {
-      heroId,
-      cost: hero.unlockCost,
-      currency: hero.unlockCurrency === "free" ? "gold" : hero.unlockCurrency,
-    };
-    this.emit(HERO_EVENTS.HERO_UNLOCKED, event);
-    this.saveToStorage();
-    this.onSave();
+      const event: HeroUnlockEvent = {
+        heroId,
+        cost: hero.unlockCost,
+        currency: hero.unlockCurrency === "free" ? "gold" : hero.unlockCurrency,
+      };
+      this.emit(HERO_EVENTS.HERO_UNLOCKED, event);
+      this.saveToStorage();
+      this.onSave();
 
-    return true;
+      return true;
+    });
   }
 
   /**
@@ -355,31 +387,34 @@ export class HeroManager extends Phaser.Events.EventEmitter {
    * Attempt to level up a hero
    */
   levelUp(heroId: HeroId): boolean {
-    if (!this.canLevelUp(heroId)) return false;
-
-    const cost = this.getLevelUpCost(heroId);
-    if (!this.spendGold(cost)) return false;
-
-    const progress = this.heroProgress[heroId];
-    const previousLevel = progress.level;
-    progress.level++;
-
-    // Check for new perks
-    const newPerks = this.checkAndUnlockPerks(heroId);
-
-    const event: HeroLevelUpEvent = {
-      heroId,
-      previousLevel,
-      newLevel: progress.level,
-      cost,
-      newPerks,
-    };
-    this.emit(HERO_EVENTS.HERO_LEVELED_UP, event);
-    this.emit(HERO_EVENTS.HERO_STATS_CHANGED, { heroId });
-    this.saveToStorage();
-    this.onSave();
+    // Gold spend and level-up are persisted together
+    return storageService.transaction(() => {
+      if (!this.canLevelUp(heroId)) return false;
+
+      const cost = this.getLevelUpCost(heroId);
+      if (!this.spendGold(cost)) return false;
+
+      const progress = this.heroProgress[heroId];
+      const previousLevel = progress.level;
+      progress.level++;
+
+      // Check for new perks
+      const newPerks = this.checkAndUnlockPerks(heroId);
+
+      const event: HeroLevelUpEvent = {
+        heroId,
+        previousLevel,
+        newLevel: progress.level,
+        cost,
+        newPerks,
+      };
+      this.emit(HERO_EVENTS.HERO_LEVELED_UP, event);
+      this.emit(HERO_EVENTS.HERO_STATS_CHANGED, { heroId });
+      this.saveToStorage();
+      this.onSave();
 
-    return true;
+      return true;
+    });
   }
 
   /**
@@ -468,10 +503,28 @@ export class HeroManager extends Phaser.Events.EventEmitter {
    * Get computed stats for a hero (after level bonuses and perks)
    */
   getStats(heroId: HeroId): ComputedHeroStats {
-    const hero = HERO_DEFINITIONS[heroId];
     const progress = this.heroProgress[heroId] ?? createDefaultHeroProgress();
-    const level = progress.level;
-    const unlockedPerkLevels = new Set(progress.unlockedPerks);
+    return this.computeStats(heroId, progress.level, new Set(progress.unlockedPerks));
+  }
+
+  /**
+   * Get stats for a hero at a fixed level with every perk up to that level
+   * unlocked, regardless of the player's progress (used by the daily challenge)
+   */
+  getStatsAtLevel(heroId: HeroId, level: number): ComputedHeroStats {
+    const perkLevels = getUnlockedPerks(heroId, level).map((perk) => perk.level);
+    return this.computeStats(heroId, level, new Set(perkLevels));
+  }
+
+  /**
+   * Compute stats from level scaling and unlocked perks
+   */
+  private computeStats(
+    heroId: HeroId,
+    level: number,
+    unlockedPerkLevels: Set<number>,
+  ): ComputedHeroStats {
+    const hero = HERO_DEFINITIONS[heroId];
 
     // Start with base stats
     let maxHealth = hero.baseStats.maxHealth;
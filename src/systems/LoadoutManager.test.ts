@@ -0,0 +1,224 @@
+/**
+ * Unit tests for LoadoutManager
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import { LoadoutManager, type LoadoutPlayerState } from "./LoadoutManager";
+import { abilityPriorityManager } from "./AbilityPriorityManager";
+import { storageService, STORAGE_KEYS } from "./storage";
+import {
+  LOADOUT_NAME_MAX_LENGTH,
+  MAX_LOADOUTS,
+  isSameLoadout,
+  type LoadoutSnapshot,
+} from "../config/loadoutData";
+import { ABILITIES } from "../config/abilityData";
+import { DifficultyLevel } from "../config/difficulty";
+import type { EquipmentSlotType } from "./Equipment";
+
+const SNAPSHOT: LoadoutSnapshot = {
+  heroId: "atreus",
+  equipment: { weapon: "bow", armor: null, ring: null, spirit: null },
+  priorityOrder: ["multishot", "front_arrow"],
+  priorityMaxLevels: { multishot: 2 },
+  difficulty: DifficultyLevel.HARD,
+};
+
+describe("LoadoutManager", () => {
+  let manager: LoadoutManager;
+
+  beforeEach(() => {
+    localStorage.clear();
+    manager = new LoadoutManager();
+  });
+
+  it("should save loadouts and persist them", () => {
+    const loadout = manager.addLoadout(" Boss Killer ", SNAPSHOT, 1000);
+    expect(loadout).toMatchObject({ name: "Boss Killer", heroId: "atreus", savedAt: 1000 });
+
+    const loaded = new LoadoutManager().getLoadouts();
+    expect(loaded).toHaveLength(1);
+    expect(loaded[0]).toMatchObject({ name: "Boss Killer", equipment: SNAPSHOT.equipment });
+  });
+
+  it("should copy the snapshot instead of keeping a reference", () => {
+    const snapshot = { ...SNAPSHOT, equipment: { ...SNAPSHOT.equipment } };
+    const loadout = manager.addLoadout("Farm", snapshot)!;
+    snapshot.equipment.weapon = "other";
+    expect(loadout.equipment.weapon).toBe("bow");
+  });
+
+  it("should cap the number of loadouts and name them by default", () => {
+    for (let i = 0; i < MAX_LOADOUTS; i++) {
+      expect(manager.addLoadout("", SNAPSHOT)?.name).toBe(`Loadout ${i + 1}`);
+    }
+    expect(manager.canAddLoadout()).toBe(false);
+    expect(manager.addLoadout("Extra", SNAPSHOT)).toBeNull();
+  });
+
+  it("should update, rename and delete loadouts", () => {
+    const loadout = manager.addLoadout("Farm", SNAPSHOT, 1000)!;
+
+    expect(
+      manager.updateLoadout(loadout.id, { ...SNAPSHOT, difficulty: DifficultyLevel.EASY }, 2000),
+    ).toBe(true);
+    expect(manager.renameLoadout(loadout.id, "Endless")).toBe(true);
+    expect(manager.getLoadout(loadout.id)).toMatchObject({
+      name: "Endless",
+      difficulty: DifficultyLevel.EASY,
+      savedAt: 2000,
+    });
+
+    expect(manager.deleteLoadout(loadout.id)).toBe(true);
+    expect(manager.deleteLoadout(loadout.id)).toBe(false);
+    expect(new LoadoutManager().getLoadouts()).toEqual([]);
+  });
+
+  it("should tidy names and keep the old name when the new one is blank", () => {
+    const loadout = manager.addLoadout("  Boss   Killer ", SNAPSHOT)!;
+    expect(loadout.name).toBe("Boss Killer");
+
+    manager.renameLoadout(loadout.id, "   ");
+    expect(loadout.name).toBe("Boss Killer");
+    manager.renameLoadout(loadout.id, "A very long loadout name");
+    expect(loadout.name).toHaveLength(LOADOUT_NAME_MAX_LENGTH);
+  });
+
+  it("should skip malformed saved loadouts", () => {
+    storageService.set(STORAGE_KEYS.loadouts, {
+      loadouts: [{ id: "a", name: "A", savedAt: 0, ...SNAPSHOT }, { id: "b", name: "B" }, null],
+    });
+
+    expect(new LoadoutManager().getLoadouts().map((loadout) => loadout.id)).toEqual(["a"]);
+  });
+
+  describe("captureLoadout() and applyLoadout()", () => {
+    /** Player with atreus and helix unlocked and a bow and vest in the inventory */
+    function createPlayer(): LoadoutPlayerState & {
+      heroId: string;
+      equipped: LoadoutSnapshot["equipment"];
+      difficulty: DifficultyLevel;
+    } {
+      const inventory: Record<string, EquipmentSlotType> = { bow: "weapon", vest: "armor" };
+      return {
+        heroId: "atreus",
+        equipped: { weapon: null, armor: "vest", ring: null, spirit: null },
+        difficulty: DifficultyLevel.NORMAL,
+        isHeroUnlocked(heroId) {
+          return heroId === "atreus" || heroId === "helix";
+        },
+        getItemSlot: (itemId) => inventory[itemId] ?? null,
+        getSelectedHeroId() {
+          return this.heroId;
+        },
+        selectHero(heroId) {
+          this.heroId = heroId;
+        },
+        getEquippedItemIds() {
+          return { ...this.equipped };
+        },
+        setEquippedItem(slot, itemId) {
+          this.equipped[slot] = itemId;
+        },
+        getDifficulty() {
+          return this.difficulty;
+        },
+        setDifficulty(difficulty) {
+          this.difficulty = difficulty;
+        },
+      };
+    }
+
+    beforeEach(() => {
+      abilityPriorityManager.resetToDefault();
+    });
+
+    it("should require the player state", () => {
+      expect(() => manager.captureLoadout()).toThrow("setPlayerState");
+    });
+
+    it("should capture the current hero, gear, priority and difficulty", () => {
+      manager.setPlayerState(createPlayer());
+      abilityPriorityManager.setPriorityMaxLevels({ multishot: 2 });
+
+      expect(manager.captureLoadout()).toEqual({
+        heroId: "atreus",
+        equipment: { weapon: null, armor: "vest", ring: null, spirit: null },
+        priorityOrder: abilityPriorityManager.getPriorityOrder(),
+        priorityMaxLevels: { multishot: 2 },
+        difficulty: DifficultyLevel.NORMAL,
+      });
+    });
+
+    it("should apply a loadout and round-trip through capture", () => {
+      const player = createPlayer();
+      manager.setPlayerState(player);
+      const loadout = {
+        ...SNAPSHOT,
+        heroId: "helix",
+        equipment: { weapon: "bow", armor: null, ring: null, spirit: null },
+      };
+
+      expect(manager.applyLoadout(loadout)).toEqual([]);
+
+      expect(player.heroId).toBe("helix");
+      expect(player.equipped).toEqual(loadout.equipment);
+      expect(player.difficulty).toBe(DifficultyLevel.HARD);
+      expect(abilityPriorityManager.getPriorityOrder().slice(0, 2)).toEqual([
+        "multishot",
+        "front_arrow",
+      ]);
+      expect(abilityPriorityManager.getAllPriorityMaxLevels()).toEqual({ multishot: 2 });
+      expect(manager.captureLoadout()).toMatchObject({
+        heroId: "helix",
+        equipment: loadout.equipment,
+        difficulty: DifficultyLevel.HARD,
+      });
+    });
+
+    it("should drop removed abilities and append new ones to the priority", () => {
+      manager.setPlayerState(createPlayer());
+      const [first, second] = ABILITIES.map((ability) => ability.id);
+
+      manager.applyLoadout({
+        ...SNAPSHOT,
+        priorityOrder: [second, "removed_ability", first],
+        priorityMaxLevels: { [second]: 3, removed_ability: 2, [first]: 0 },
+      });
+
+      const order = abilityPriorityManager.getPriorityOrder();
+      expect(order.slice(0, 2)).toEqual([second, first]);
+      expect(order).toHaveLength(ABILITIES.length);
+      expect(abilityPriorityManager.getAllPriorityMaxLevels()).toEqual({ [second]: 3 });
+    });
+
+    it("should match the applied loadout regardless of unset max levels", () => {
+      manager.setPlayerState(createPlayer());
+      const loadout = {
+        ...SNAPSHOT,
+        priorityOrder: ABILITIES.map((ability) => ability.id),
+        priorityMaxLevels: { multishot: 2, front_arrow: 0 },
+      };
+      manager.applyLoadout(loadout);
+
+      const current = manager.captureLoadout();
+      expect(isSameLoadout(loadout, current)).toBe(true);
+      expect(isSameLoadout({ ...loadout, difficulty: DifficultyLevel.EASY }, current)).toBe(false);
+    });
+
+    it("should apply what it can and list the parts that are gone", () => {
+      const player = createPlayer();
+      manager.setPlayerState(player);
+
+      const issues = manager.applyLoadout({
+        ...SNAPSHOT,
+        heroId: "meowgik",
+        equipment: { weapon: "bow", armor: "sold_vest", ring: "sold_ring", spirit: null },
+      });
+
+      expect(issues).toEqual(["hero locked", "missing Armor, Ring"]);
+      expect(player.heroId).toBe("atreus");
+      expect(player.equipped).toEqual({ weapon: "bow", armor: "vest", ring: null, spirit: null });
+      expect(player.difficulty).toBe(DifficultyLevel.HARD);
+    });
+  });
+});
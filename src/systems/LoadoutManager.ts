@@ -0,0 +1,272 @@
+/**
+ * LoadoutManager - Stores named loadout presets.
+ * A loadout captures the hero, equipped item IDs, ability priority and
+ * difficulty (see loadoutData). captureLoadout reads the current setup and
+ * applyLoadout switches to a preset, using planLoadout to skip parts that no
+ * longer exist. Heroes, gear and difficulty live in Phaser-backed systems, so
+ * the game hands them in through setPlayerState at startup (see LoadoutPlayerState).
+ */
+
+import { storageService, STORAGE_KEYS } from "./storage";
+import { abilityPriorityManager } from "./AbilityPriorityManager";
+import { EQUIPMENT_SLOTS, type EquipmentSlotType } from "./Equipment";
+import type { DifficultyLevel } from "../config/difficulty";
+import type { HeroId } from "../config/heroData";
+import {
+  MAX_LOADOUTS,
+  describeLoadoutIssues,
+  isLoadoutPreset,
+  normalizeLoadoutName,
+  planLoadout,
+  type LoadoutEnvironment,
+  type LoadoutPreset,
+  type LoadoutSnapshot,
+} from "../config/loadoutData";
+
+// ============================================
+// Types and Interfaces
+// ============================================
+
+/** Save data structure for persistence */
+export interface LoadoutSaveData {
+  loadouts: LoadoutPreset[];
+}
+
+/** The player's hero, gear and difficulty, as read and changed by loadouts */
+export interface LoadoutPlayerState extends LoadoutEnvironment {
+  getSelectedHeroId: () => HeroId;
+  selectHero: (heroId: HeroId) => void;
+  /** Equipped item ID per slot (null = empty slot) */
+  getEquippedItemIds: () => LoadoutSnapshot["equipment"];
+  /** Equip an inventory item, or empty the slot when itemId is null */
+  setEquippedItem: (slot: EquipmentSlotType, itemId: string | null) => void;
+  getDifficulty: () => DifficultyLevel;
+  setDifficulty: (difficulty: DifficultyLevel) => void;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Storage record key for loadout presets */
+const LOADOUT_STORAGE_KEY = STORAGE_KEYS.loadouts;
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function copySnapshot(snapshot: LoadoutSnapshot): LoadoutSnapshot {
+  return {
+    heroId: snapshot.heroId,
+    equipment: { ...snapshot.equipment },
+    priorityOrder: [...snapshot.priorityOrder],
+    priorityMaxLevels: { ...snapshot.priorityMaxLevels },
+    difficulty: snapshot.difficulty,
+  };
+}
+
+// ============================================
+// LoadoutManager Class
+// ============================================
+
+export class LoadoutManager {
+  private loadouts: LoadoutPreset[] = [];
+  private player: LoadoutPlayerState | null = null;
+
+  constructor() {
+    this.loadFromStorage();
+    storageService.register(LOADOUT_STORAGE_KEY, () => this.loadFromStorage());
+  }
+
+  // ============================================
+  // Persistence (StorageService)
+  // ============================================
+
+  /**
+   * Load loadouts from storage, skipping malformed entries
+   */
+  private loadFromStorage(): void {
+    this.loadouts = [];
+    try {
+      const data = storageService.get<LoadoutSaveData>(LOADOUT_STORAGE_KEY);
+      if (Array.isArray(data?.loadouts)) {
+        this.loadouts = data.loadouts.filter(isLoadoutPreset).slice(0, MAX_LOADOUTS);
+      }
+    } catch (error) {
+      console.warn("LoadoutManager: Failed to load from storage:", error);
+    }
+  }
+
+  /**
+   * Save loadouts
+   */
+  private saveToStorage(): void {
+    try {
+      const data: LoadoutSaveData = { loadouts: this.loadouts };
+      storageService.set(LOADOUT_STORAGE_KEY, data);
+    } catch (error) {
+      console.warn("LoadoutManager: Failed to save to storage:", error);
+    }
+  }
+
+  // ============================================
+  // Loadouts
+  // ============================================
+
+  /**
+   * All loadouts in the order they were created
+   */
+  getLoadouts(): readonly LoadoutPreset[] {
+    return this.loadouts;
+  }
+
+  getLoadout(id: string): LoadoutPreset | undefined {
+    return this.loadouts.find((loadout) => loadout.id === id);
+  }
+
+  /**
+   * Check if another loadout can be saved
+   */
+  canAddLoadout(): boolean {
+    return this.loadouts.length < MAX_LOADOUTS;
+  }
+
+  /**
+   * Default name for the next loadout, e.g. "Loadout 2"
+   */
+  getNextLoadoutName(): string {
+    return `Loadout ${this.loadouts.length + 1}`;
+  }
+
+  /**
+   * Save a setup as a new loadout
+   * @returns The loadout, or null when MAX_LOADOUTS are already saved
+   */
+  addLoadout(
+    name: string,
+    snapshot: LoadoutSnapshot,
+    currentTime: number = Date.now(),
+  ): LoadoutPreset | null {
+    if (!this.canAddLoadout()) return null;
+
+    const loadout: LoadoutPreset = {
+      id: `loadout_${currentTime}_${this.loadouts.length}`,
+      name: normalizeLoadoutName(name, this.getNextLoadoutName()),
+      savedAt: currentTime,
+      ...copySnapshot(snapshot),
+    };
+    this.loadouts.push(loadout);
+    this.saveToStorage();
+    return loadout;
+  }
+
+  /**
+   * Replace a loadout's setup, keeping its name
+   */
+  updateLoadout(id: string, snapshot: LoadoutSnapshot, currentTime: number = Date.now()): boolean {
+    const loadout = this.getLoadout(id);
+    if (!loadout) return false;
+
+    Object.assign(loadout, copySnapshot(snapshot), { savedAt: currentTime });
+    this.saveToStorage();
+    return true;
+  }
+
+  renameLoadout(id: string, name: string): boolean {
+    const loadout = this.getLoadout(id);
+    if (!loadout) return false;
+
+    loadout.name = normalizeLoadoutName(name, loadout.name);
+    this.saveToStorage();
+    return true;
+  }
+
+  deleteLoadout(id: string): boolean {
+    const index = this.loadouts.findIndex((loadout) => loadout.id === id);
+    if (index === -1) return false;
+
+    this.loadouts.splice(index, 1);
+    this.saveToStorage();
+    return true;
+  }
+
+  // ============================================
+  // Capture and Apply
+  // ============================================
+
+  /**
+   * Set how loadouts read and change the player's hero, gear and difficulty.
+   * HeroManager, EquipmentManager and the game registry depend on Phaser, so
+   * the game wires this up at startup.
+   */
+  setPlayerState(player: LoadoutPlayerState): void {
+    this.player = player;
+  }
+
+  /**
+   * The player's current hero, gear, ability priority and difficulty
+   */
+  captureLoadout(): LoadoutSnapshot {
+    const player = this.requirePlayerState();
+    return {
+      heroId: player.getSelectedHeroId(),
+      equipment: player.getEquippedItemIds(),
+      priorityOrder: abilityPriorityManager.getPriorityOrder(),
+      priorityMaxLevels: abilityPriorityManager.getAllPriorityMaxLevels(),
+      difficulty: player.getDifficulty(),
+    };
+  }
+
+  /**
+   * Switch to a loadout. Parts that no longer exist (sold items, locked heroes)
+   * are skipped and returned as short notes.
+   */
+  applyLoadout(loadout: LoadoutSnapshot): string[] {
+    const player = this.requirePlayerState();
+    const plan = planLoadout(loadout, player);
+
+    // Hero, gear, priority and difficulty are persisted together
+    storageService.transaction(() => {
+      if (plan.heroId) {
+        player.selectHero(plan.heroId);
+      }
+
+      for (const slot of EQUIPMENT_SLOTS) {
+        if (slot in plan.equipment) {
+          player.setEquippedItem(slot, plan.equipment[slot] ?? null);
+        }
+      }
+
+      abilityPriorityManager.setPriorityOrder(plan.priorityOrder);
+      abilityPriorityManager.setPriorityMaxLevels(plan.priorityMaxLevels);
+
+      if (plan.difficulty) {
+        player.setDifficulty(plan.difficulty);
+      }
+    });
+
+    return describeLoadoutIssues(plan);
+  }
+
+  private requirePlayerState(): LoadoutPlayerState {
+    if (!this.player) {
+      throw new Error("LoadoutManager: setPlayerState must be called before using loadouts");
+    }
+    return this.player;
+  }
+
+  /**
+   * Delete all loadouts (for testing)
+   */
+  reset(): void {
+    this.loadouts = [];
+    this.saveToStorage();
+  }
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+/** Global singleton instance for use throughout the game */
+export const loadoutManager = new LoadoutManager();
@@ -0,0 +1,46 @@
+/**
+ * LoadoutPlayerState - Connects LoadoutManager to the player's hero, gear and
+ * difficulty. Those live in Phaser-backed systems (HeroManager,
+ * EquipmentManager and the game registry), so LoadoutManager gets them
+ * through this adapter instead of importing them.
+ */
+
+import { heroManager } from "./HeroManager";
+import { equipmentManager } from "./EquipmentManager";
+import { saveManager } from "./SaveManager";
+import type { LoadoutPlayerState } from "./LoadoutManager";
+import { getCurrentDifficulty, setDifficulty } from "../config/difficulty";
+
+/**
+ * Create the player state a game's loadouts read and switch
+ */
+export function createLoadoutPlayerState(game: Phaser.Game): LoadoutPlayerState {
+  return {
+    isHeroUnlocked: (heroId) => heroManager.isUnlocked(heroId),
+    getSelectedHeroId: () => heroManager.getSelectedHeroId(),
+    selectHero: (heroId) => heroManager.select(heroId),
+    getItemSlot: (itemId) => equipmentManager.findItem(itemId)?.slot ?? null,
+    getEquippedItemIds: () => {
+      const equipped = equipmentManager.getAllEquipped();
+      return {
+        weapon: equipped.weapon?.id ?? null,
+        armor: equipped.armor?.id ?? null,
+        ring: equipped.ring?.id ?? null,
+        spirit: equipped.spirit?.id ?? null,
+      };
+    },
+    setEquippedItem: (slot, itemId) => {
+      const item = itemId ? equipmentManager.findItem(itemId) : undefined;
+      if (item) {
+        equipmentManager.equip(item);
+      } else {
+        equipmentManager.unequip(slot);
+      }
+    },
+    getDifficulty: () => getCurrentDifficulty(game),
+    setDifficulty: (difficulty) => {
+      setDifficulty(game, difficulty);
+      saveManager.setDifficulty(difficulty);
+    },
+  };
+}
@@ -0,0 +1,199 @@
+/**
+ * Unit tests for MissionManager
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { EventEmitter } from "node:events";
+import { MissionManager } from "./MissionManager";
+import { RUN_EVENTS } from "./RunEvents";
+import { currencyManager } from "./CurrencyManager";
+import { chestManager } from "./ChestManager";
+import {
+  DAILY_MISSIONS,
+  WEEKLY_MISSIONS,
+  getMissionPeriodKey,
+  rollMissions,
+  type MissionObjective,
+  type MissionPeriod,
+} from "../config/missionData";
+
+const MONDAY = Date.UTC(2026, 9, 19, 9, 0, 0);
+const TUESDAY = Date.UTC(2026, 9, 20, 9, 0, 0);
+const NEXT_MONDAY = Date.UTC(2026, 9, 26, 9, 0, 0);
+
+/** Find a period key whose draw includes a mission with this objective */
+function findTimeWithObjective(period: MissionPeriod, objective: MissionObjective): number {
+  for (let week = 0; week < 52; week++) {
+    const time = MONDAY + week * 7 * 24 * 60 * 60 * 1000;
+    const key = getMissionPeriodKey(period, time);
+    if (rollMissions(period, key).some((mission) => mission.objective === objective)) {
+      return time;
+    }
+  }
+  throw new Error(`No ${period} draw with ${objective}`);
+}
+
+describe("MissionManager", () => {
+  let manager: MissionManager;
+
+  beforeEach(() => {
+    localStorage.clear();
+    currencyManager.reset();
+    chestManager.reset();
+    manager = new MissionManager();
+  });
+
+  it("should have unique mission ids with positive targets and rewards", () => {
+    const missions = [...DAILY_MISSIONS, ...WEEKLY_MISSIONS];
+    expect(new Set(missions.map((mission) => mission.id)).size).toBe(missions.length);
+    for (const mission of missions) {
+      expect(mission.target).toBeGreaterThan(0);
+      expect(mission.rewards.length).toBeGreaterThan(0);
+      expect(mission.objective === "hero_runs").toBe(mission.heroId !== undefined);
+    }
+  });
+
+  it("should draw distinct missions for both periods", () => {
+    const daily = manager.getMissions("daily", MONDAY);
+    expect(daily).toHaveLength(3);
+    expect(new Set(daily.map((mission) => mission.definition.id)).size).toBe(3);
+    expect(manager.getMissions("weekly", MONDAY)).toHaveLength(3);
+    expect(manager.getClaimableCount(MONDAY)).toBe(0);
+  });
+
+  it("should reset at UTC midnight and on Monday", () => {
+    const wednesday = Date.UTC(2026, 9, 21, 18, 0, 0);
+    expect(manager.getTimeUntilReset("daily", wednesday)).toBe(6 * 60 * 60 * 1000);
+    expect(manager.getTimeUntilReset("weekly", wednesday)).toBe((4 * 24 + 6) * 60 * 60 * 1000);
+    expect(getMissionPeriodKey("weekly", Date.UTC(2026, 9, 25, 23, 59))).toBe("2026-10-19");
+    expect(getMissionPeriodKey("weekly", Date.UTC(2026, 9, 26, 0, 0))).toBe("2026-10-26");
+  });
+
+  it("should count kills towards kill missions", () => {
+    const time = findTimeWithObjective("weekly", "kill_bosses");
+    manager.recordEnemyKill(false, time);
+    manager.recordEnemyKill(true, time);
+
+    const missions = manager.getMissions("weekly", time);
+    const bossMission = missions.find((mission) => mission.definition.objective === "kill_bosses");
+    expect(bossMission?.progress).toBe(1);
+    const killMission = missions.find((mission) => mission.definition.objective === "kill_enemies");
+    if (killMission) {
+      expect(killMission.progress).toBe(2);
+    }
+  });
+
+  it("should count progress from run events", () => {
+    const events = new EventEmitter();
+    const onKill = vi.spyOn(manager, "recordEnemyKill");
+    const onRoom = vi.spyOn(manager, "recordRoomCleared");
+    const onRun = vi.spyOn(manager, "recordRunFinished");
+    manager.listenToRunEvents(events);
+
+    events.emit(RUN_EVENTS.ENEMY_KILLED, { isBoss: true });
+    events.emit(RUN_EVENTS.ROOM_CLEARED, { flawless: false });
+    events.emit(RUN_EVENTS.RUN_FINISHED, { heroId: "helix", goldEarned: 120 });
+
+    expect(onKill).toHaveBeenCalledWith(true);
+    expect(onRoom).toHaveBeenCalledWith(false);
+    expect(onRun).toHaveBeenCalledWith({ heroId: "helix", goldEarned: 120 });
+  });
+
+  it("should only count flawless rooms without damage", () => {
+    const time = findTimeWithObjective("weekly", "flawless_rooms");
+    manager.recordRoomCleared(false, time);
+    manager.recordRoomCleared(true, time);
+
+    const mission = manager
+      .getMissions("weekly", time)
+      .find((entry) => entry.definition.objective === "flawless_rooms");
+    expect(mission?.progress).toBe(1);
+  });
+
+  it("should only count hero runs with the mission's hero", () => {
+    const time = findTimeWithObjective("weekly", "hero_runs");
+    manager.recordRunFinished({ heroId: "atreus", goldEarned: 0 }, time);
+    const mission = () =>
+      manager
+        .getMissions("weekly", time)
+        .find((entry) => entry.definition.objective === "hero_runs")!;
+    expect(mission().progress).toBe(0);
+
+    manager.recordRunFinished({ heroId: mission().definition.heroId!, goldEarned: 0 }, time);
+    expect(mission().progress).toBe(1);
+  });
+
+  it("should pay out a completed mission once", () => {
+    const time = findTimeWithObjective("weekly", "earn_gold");
+    manager.recordRunFinished({ heroId: "atreus", goldEarned: 20000 }, time);
+    const mission = manager
+      .getMissions("weekly", time)
+      .find((entry) => entry.definition.objective === "earn_gold")!;
+    expect(mission.isComplete).toBe(true);
+    expect(mission.progress).toBe(mission.definition.target);
+    expect(manager.getClaimableCount(time)).toBeGreaterThanOrEqual(1);
+
+    const result = manager.claim("weekly", mission.definition.id, time);
+    expect(result.success).toBe(true);
+    expect(chestManager.getChestCount("golden")).toBe(1);
+    expect(manager.claim("weekly", mission.definition.id, time)).toEqual({
+      success: false,
+      error: "Already claimed",
+    });
+  });
+
+  it("should refuse to claim unfinished missions", () => {
+    const [mission] = manager.getMissions("daily", MONDAY);
+    expect(manager.claim("daily", mission.definition.id, MONDAY)).toEqual({
+      success: false,
+      error: "Mission not complete",
+    });
+    expect(manager.claim("daily", "unknown", MONDAY).error).toBe("Unknown mission");
+  });
+
+  it("should reroll daily missions at UTC midnight and weekly ones on Monday", () => {
+    manager.recordEnemyKill(true, MONDAY);
+    const weekly = manager.getMissions("weekly", MONDAY);
+
+    manager.getMissions("daily", TUESDAY);
+    expect(manager.getMissions("weekly", TUESDAY)).toEqual(weekly);
+    expect(manager.getMissions("daily", TUESDAY).every((mission) => mission.progress === 0)).toBe(
+      true,
+    );
+
+    expect(
+      manager.getMissions("weekly", NEXT_MONDAY).every((mission) => mission.progress === 0),
+    ).toBe(true);
+  });
+
+  it("should not draw hero missions for locked heroes", () => {
+    manager.setHeroUnlockCheck(() => false);
+    for (let day = 0; day < 14; day++) {
+      const time = MONDAY + day * 24 * 60 * 60 * 1000;
+      const missions = manager.getMissions("daily", time);
+      expect(missions.every((mission) => mission.definition.heroId === undefined)).toBe(true);
+    }
+  });
+
+  it("should keep kill progress in memory until a room is cleared", () => {
+    const time = findTimeWithObjective("weekly", "kill_bosses");
+    manager.recordEnemyKill(true, time);
+    const bossProgress = (missionManager: MissionManager) =>
+      missionManager
+        .getMissions("weekly", time)
+        .find((entry) => entry.definition.objective === "kill_bosses")?.progress;
+    expect(bossProgress(manager)).toBe(1);
+    expect(bossProgress(new MissionManager())).toBe(0);
+
+    manager.recordRoomCleared(false, time);
+    expect(bossProgress(new MissionManager())).toBe(1);
+  });
+
+  it("should persist progress across instances", () => {
+    manager.recordEnemyKill(true, MONDAY);
+    manager.recordRoomCleared(true, MONDAY);
+    const missions = manager.getMissions("weekly", MONDAY);
+
+    const reloaded = new MissionManager();
+    expect(reloaded.getMissions("weekly", MONDAY)).toEqual(missions);
+  });
+});
@@ -0,0 +1,454 @@
+/**
+ * MissionManager - Tracks daily and weekly missions.
+ * Missions reroll at the UTC reset of their period and count progress from
+ * the run events (kills, room clears, finished runs). Completed missions pay
+ * out gold, gems or chests when claimed, in one storage commit.
+ * Mission pools and period keys live in missionData; hero missions are only
+ * drawn for unlocked heroes (see setHeroUnlockCheck).
+ */
+
+import { grantRewards, type Reward } from "./DailyRewardManager";
+import { RUN_EVENTS, type RunEventSource, type RunFinishedEventData } from "./RunEvents";
+import { storageService, STORAGE_KEYS } from "./storage";
+import type { HeroId } from "../config/heroData";
+import {
+  MISSION_PERIODS,
+  getMissionDefinition,
+  getMissionPeriodKey,
+  getTimeUntilMissionReset,
+  rollMissions,
+  type MissionDefinition,
+  type MissionObjective,
+  type MissionPeriod,
+} from "../config/missionData";
+
+// ============================================
+// Types and Interfaces
+// ============================================
+
+/** One period's drawn missions and their progress */
+export interface MissionPeriodState {
+  /** UTC key of the period the missions were drawn for */
+  periodKey: string | null;
+  missionIds: string[];
+  progress: Record<string, number>;
+  claimed: string[];
+}
+
+/** Save data structure for persistence */
+export interface MissionSaveData {
+  daily: MissionPeriodState;
+  weekly: MissionPeriodState;
+}
+
+/** A drawn mission with its progress */
+export interface MissionStatus {
+  definition: MissionDefinition;
+  progress: number;
+  isComplete: boolean;
+  isClaimed: boolean;
+}
+
+/** Result of a claim attempt */
+export interface MissionClaimResult {
+  success: boolean;
+  error?: string;
+  rewards?: Reward[];
+}
+
+/** Event types emitted by MissionManager */
+export type MissionEventType =
+  | "missionProgress"
+  | "missionCompleted"
+  | "missionClaimed"
+  | "missionsRerolled";
+
+/** Event listener callback type */
+export type MissionEventCallback = (data: MissionEventData) => void;
+
+/** Event data passed to listeners */
+export interface MissionEventData {
+  period: MissionPeriod;
+  mission?: MissionStatus;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Storage record key for mission progress */
+const MISSION_STORAGE_KEY = STORAGE_KEYS.missions;
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function createEmptyPeriodState(): MissionPeriodState {
+  return { periodKey: null, missionIds: [], progress: {}, claimed: [] };
+}
+
+/**
+ * Rebuild a period's state from save data, dropping unknown missions
+ */
+function sanitizePeriodState(raw: unknown, period: MissionPeriod): MissionPeriodState {
+  const state = createEmptyPeriodState();
+  if (!raw || typeof raw !== "object") return state;
+  const data = raw as Partial<Record<keyof MissionPeriodState, unknown>>;
+
+  state.periodKey = typeof data.periodKey === "string" ? data.periodKey : null;
+  if (Array.isArray(data.missionIds)) {
+    state.missionIds = data.missionIds.filter(
+      (id): id is string => typeof id === "string" && getMissionDefinition(id)?.period === period,
+    );
+  }
+  if (data.progress && typeof data.progress === "object") {
+    for (const [id, value] of Object.entries(data.progress as Record<string, unknown>)) {
+      if (state.missionIds.includes(id) && typeof value === "number" && value > 0) {
+        state.progress[id] = Math.floor(value);
+      }
+    }
+  }
+  if (Array.isArray(data.claimed)) {
+    state.claimed = data.claimed.filter(
+      (id): id is string => typeof id === "string" && state.missionIds.includes(id),
+    );
+  }
+  return state;
+}
+
+// ============================================
+// MissionManager Class
+// ============================================
+
+export class MissionManager {
+  private periods: Record<MissionPeriod, MissionPeriodState> = {
+    daily: createEmptyPeriodState(),
+    weekly: createEmptyPeriodState(),
+  };
+  private isHeroUnlocked: (heroId: HeroId) => boolean = () => true;
+  /** Kill progress not saved yet (saved with the next room clear or run end) */
+  private hasUnsavedProgress = false;
+  private eventListeners: Map<MissionEventType, Set<MissionEventCallback>> = new Map();
+
+  constructor() {
+    this.loadFromStorage();
+    storageService.register(MISSION_STORAGE_KEY, () => this.loadFromStorage());
+  }
+
+  // ============================================
+  // Persistence (StorageService)
+  // ============================================
+
+  /**
+   * Load mission data from storage
+   */
+  private loadFromStorage(): void {
+    this.periods = { daily: createEmptyPeriodState(), weekly: createEmptyPeriodState() };
+    this.hasUnsavedProgress = false;
+    try {
+      const data = storageService.get<MissionSaveData>(MISSION_STORAGE_KEY);
+      if (!data) {
+        return;
+      }
+
+      for (const period of MISSION_PERIODS) {
+        this.periods[period] = sanitizePeriodState(data[period], period);
+      }
+    } catch (error) {
+      console.warn("MissionManager: Failed to load from storage:", error);
+    }
+  }
+
+  /**
+   * Save mission data to storage
+   */
+  private saveToStorage(): void {
+    this.hasUnsavedProgress = false;
+    try {
+      const data: MissionSaveData = {
+        daily: { ...this.periods.daily },
+        weekly: { ...this.periods.weekly },
+      };
+      storageService.set(MISSION_STORAGE_KEY, data);
+    } catch (error) {
+      console.warn("MissionManager: Failed to save to storage:", error);
+    }
+  }
+
+  // ============================================
+  // Event System
+  // ============================================
+
+  /**
+   * Subscribe to mission events
+   */
+  on(eventType: MissionEventType, callback: MissionEventCallback): void {
+    if (!this.eventListeners.has(eventType)) {
+      this.eventListeners.set(eventType, new Set());
+    }
+    this.eventListeners.get(eventType)!.add(callback);
+  }
+
+  /**
+   * Unsubscribe from mission events
+   */
+  off(eventType: MissionEventType, callback: MissionEventCallback): void {
+    const listeners = this.eventListeners.get(eventType);
+    if (listeners) {
+      listeners.delete(callback);
+    }
+  }
+
+  /**
+   * Emit an event to all listeners
+   */
+  private emit(eventType: MissionEventType, data: MissionEventData): void {
+    const listeners = this.eventListeners.get(eventType);
+    if (listeners) {
+      listeners.forEach((callback) => callback(data));
+    }
+  }
+
+  // ============================================
+  // Rerolls
+  // ============================================
+
+  /**
+   * Set how hero missions check for an unlocked hero. HeroManager depends on
+   * Phaser, so the game wires this up at startup.
+   */
+  setHeroUnlockCheck(check: (heroId: HeroId) => boolean): void {
+    this.isHeroUnlocked = check;
+  }
+
+  /**
+   * Draw new missions for every period whose UTC key has changed
+   */
+  private checkReroll(currentTime: number): void {
+    let rerolled = false;
+    for (const period of MISSION_PERIODS) {
+      const periodKey = getMissionPeriodKey(period, currentTime);
+      if (this.periods[period].periodKey === periodKey) {
+        continue;
+      }
+
+      this.periods[period] = {
+        periodKey,
+        missionIds: rollMissions(period, periodKey, this.isHeroUnlocked).map(
+          (mission) => mission.id,
+        ),
+        progress: {},
+        claimed: [],
+      };
+      rerolled = true;
+      this.emit("missionsRerolled", { period });
+    }
+
+    if (rerolled) {
+      this.saveToStorage();
+    }
+  }
+
+  /**
+   * Get time until a period's missions reroll (in milliseconds)
+   */
+  getTimeUntilReset(period: MissionPeriod, currentTime: number = Date.now()): number {
+    return getTimeUntilMissionReset(period, currentTime);
+  }
+
+  /**
+   * Get formatted time until a period's missions reroll (HH:MM:SS, or "Xd HHh" beyond a day)
+   */
+  getFormattedTimeUntilReset(period: MissionPeriod, currentTime: number = Date.now()): string {
+    const totalSeconds = Math.ceil(this.getTimeUntilReset(period, currentTime) / 1000);
+    const days = Math.floor(totalSeconds / 86400);
+    const hours = Math.floor((totalSeconds % 86400) / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    if (days > 0) {
+      return `${days}d ${hours.toString().padStart(2, "0")}h`;
+    }
+    return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+  }
+
+  // ============================================
+  // Missions
+  // ============================================
+
+  /**
+   * Get the current missions of a period with their progress
+   */
+  getMissions(period: MissionPeriod, currentTime: number = Date.now()): MissionStatus[] {
+    this.checkReroll(currentTime);
+    return this.periods[period].missionIds
+      .map((id) => getMissionDefinition(id))
+      .filter((definition): definition is MissionDefinition => definition !== undefined)
+      .map((definition) => this.getStatus(period, definition));
+  }
+
+  private getStatus(period: MissionPeriod, definition: MissionDefinition): MissionStatus {
+    const state = this.periods[period];
+    const progress = Math.min(state.progress[definition.id] ?? 0, definition.target);
+    return {
+      definition,
+      progress,
+      isComplete: progress >= definition.target,
+      isClaimed: state.claimed.includes(definition.id),
+    };
+  }
+
+  /**
+   * Number of completed missions waiting to be claimed (for the menu badge)
+   */
+  getClaimableCount(currentTime: number = Date.now()): number {
+    return MISSION_PERIODS.reduce(
+      (count, period) =>
+        count +
+        this.getMissions(period, currentTime).filter(
+          (mission) => mission.isComplete && !mission.isClaimed,
+        ).length,
+      0,
+    );
+  }
+
+  // ============================================
+  // Progress
+  // ============================================
+
+  /**
+   * Count progress from a run's events (game.events, wired up at startup)
+   */
+  listenToRunEvents(events: RunEventSource): void {
+    events.on(RUN_EVENTS.ENEMY_KILLED, ({ isBoss }) => this.recordEnemyKill(isBoss));
+    events.on(RUN_EVENTS.ROOM_CLEARED, ({ flawless }) => this.recordRoomCleared(flawless));
+    events.on(RUN_EVENTS.RUN_FINISHED, (result) => this.recordRunFinished(result));
+  }
+
+  /**
+   * Count an enemy kill (bosses also count as kills). Kills only update memory;
+   * they are saved with the next room clear or run end.
+   */
+  recordEnemyKill(isBoss: boolean, currentTime: number = Date.now()): void {
+    this.recordProgress("kill_enemies", 1, currentTime);
+    if (isBoss) {
+      this.recordProgress("kill_bosses", 1, currentTime);
+    }
+  }
+
+  /**
+   * Count a cleared room
+   * @param flawless The player took no damage in the room
+   */
+  recordRoomCleared(flawless: boolean, currentTime: number = Date.now()): void {
+    this.recordProgress("clear_rooms", 1, currentTime);
+    if (flawless) {
+      this.recordProgress("flawless_rooms", 1, currentTime);
+    }
+    this.saveProgress();
+  }
+
+  /**
+   * Count a finished run, its hero and the gold it earned
+   */
+  recordRunFinished(result: RunFinishedEventData, currentTime: number = Date.now()): void {
+    this.recordProgress("finish_runs", 1, currentTime);
+    this.recordProgress("hero_runs", 1, currentTime, result.heroId);
+    if (result.goldEarned > 0) {
+      this.recordProgress("earn_gold", Math.floor(result.goldEarned), currentTime);
+    }
+    this.saveProgress();
+  }
+
+  /**
+   * Add progress to every unfinished mission with this objective (in memory)
+   */
+  private recordProgress(
+    objective: MissionObjective,
+    amount: number,
+    currentTime: number,
+    heroId?: HeroId,
+  ): void {
+    for (const period of MISSION_PERIODS) {
+      for (const mission of this.getMissions(period, currentTime)) {
+        const { definition } = mission;
+        if (
+          definition.objective !== objective ||
+          mission.isComplete ||
+          (definition.heroId !== undefined && definition.heroId !== heroId)
+        ) {
+          continue;
+        }
+
+        const state = this.periods[period];
+        state.progress[definition.id] = Math.min(mission.progress + amount, definition.target);
+        this.hasUnsavedProgress = true;
+
+        const status = this.getStatus(period, definition);
+        this.emit("missionProgress", { period, mission: status });
+        if (status.isComplete) {
+          this.emit("missionCompleted", { period, mission: status });
+        }
+      }
+    }
+  }
+
+  /**
+   * Save progress recorded since the last save
+   */
+  private saveProgress(): void {
+    if (this.hasUnsavedProgress) {
+      this.saveToStorage();
+    }
+  }
+
+  // ============================================
+  // Claiming
+  // ============================================
+
+  /**
+   * Claim a completed mission's rewards
+   */
+  claim(
+    period: MissionPeriod,
+    missionId: string,
+    currentTime: number = Date.now(),
+  ): MissionClaimResult {
+    const mission = this.getMissions(period, currentTime).find(
+      (entry) => entry.definition.id === missionId,
+    );
+    if (!mission) {
+      return { success: false, error: "Unknown mission" };
+    }
+    if (mission.isClaimed) {
+      return { success: false, error: "Already claimed" };
+    }
+    if (!mission.isComplete) {
+      return { success: false, error: "Mission not complete" };
+    }
+
+    return storageService.transaction(() => {
+      const rewards = grantRewards(mission.definition.rewards);
+      this.periods[period].claimed.push(missionId);
+      this.saveToStorage();
+
+      this.emit("missionClaimed", { period, mission: this.getStatus(period, mission.definition) });
+      return { success: true, rewards };
+    });
+  }
+
+  /**
+   * Reset all mission data (for testing)
+   */
+  reset(): void {
+    this.periods = { daily: createEmptyPeriodState(), weekly: createEmptyPeriodState() };
+    this.saveToStorage();
+  }
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+/** Global singleton instance for use throughout the game */
+export const missionManager = new MissionManager();
@@ -14,6 +14,7 @@ export class OrbitalManager {
   // Track last known ability levels to detect changes
   private lastOrbCount: number = 0;
   private lastShieldCount: number = 0;
+  private lastStormOrbs: boolean = false;
 
   constructor(scene: Phaser.Scene, player: Player) {
     this.player = player;
@@ -50,8 +51,9 @@ export class OrbitalManager {
    */
   private syncOrbs(): void {
     const targetCount = this.player.getRotatingOrbCount();
+    const countChanged = targetCount !== this.lastOrbCount;
 
-    if (targetCount !== this.lastOrbCount) {
+    if (countChanged) {
       this.lastOrbCount = targetCount;
 
       // Calculate orb damage (50% of player damage)
@@ -65,6 +67,13 @@ export class OrbitalManager {
       // Remove excess orbs
       this.rotatingOrbPool.syncOrbCount(targetCount);
     }
+
+    // Storm Orbs evolution recolors the orbs electric purple (newly spawned ones too)
+    const stormOrbs = this.player.hasStormOrbs();
+    if (stormOrbs !== this.lastStormOrbs || (stormOrbs && countChanged)) {
+      this.lastStormOrbs = stormOrbs;
+      this.rotatingOrbPool.setOrbTint(stormOrbs ? 0xbb88ff : 0xff8800);
+    }
   }
 
   /**
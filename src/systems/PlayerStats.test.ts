@@ -85,6 +85,22 @@ describe("PlayerStats", () => {
       expect(stats.getHealth()).toBe(100);
     });
 
+    it("heal does nothing while healing is disabled, but forceHeal still works", () => {
+      stats.disableHealing();
+      stats.takeDamage(50);
+
+      stats.heal(30);
+      expect(stats.getHealth()).toBe(50);
+
+      stats.resetRunStats();
+      stats.takeDamage(50);
+      stats.heal(30);
+      expect(stats.getHealth()).toBe(50);
+
+      stats.forceHeal(30);
+      expect(stats.getHealth()).toBe(80);
+    });
+
     it("getHealthPercentage returns correct value", () => {
       expect(stats.getHealthPercentage()).toBe(1);
       stats.takeDamage(50);
@@ -198,22 +214,22 @@ describe("PlayerStats", () => {
     describe("Front Arrow", () => {
       it("increments extraProjectiles", () => {
         expect(stats.getExtraProjectiles()).toBe(0);
-        stats.addFrontArrow();
+        stats.applyAbility("front_arrow");
         expect(stats.getExtraProjectiles()).toBe(1);
       });
 
       it("stacks linearly", () => {
-        stats.addFrontArrow();
-        stats.addFrontArrow();
-        stats.addFrontArrow();
+        stats.applyAbility("front_arrow");
+        stats.applyAbility("front_arrow");
+        stats.applyAbility("front_arrow");
         expect(stats.getExtraProjectiles()).toBe(3);
       });
 
       it("does not affect damage", () => {
         const baseDamage = stats.getDamage(); // 10
-        stats.addFrontArrow();
-        stats.addFrontArrow();
-        stats.addFrontArrow();
+        stats.applyAbility("front_arrow");
+        stats.applyAbility("front_arrow");
+        stats.applyAbility("front_arrow");
         expect(stats.getDamage()).toBe(baseDamage); // still 10
       });
     });
@@ -221,63 +237,63 @@ describe("PlayerStats", () => {
     describe("Multishot", () => {
       it("increments multishotCount", () => {
         expect(stats.getMultishotCount()).toBe(0);
-        stats.addMultishot();
+        stats.applyAbility("multishot");
         expect(stats.getMultishotCount()).toBe(1);
       });
 
       it("stacks linearly", () => {
-        stats.addMultishot();
-        stats.addMultishot();
+        stats.applyAbility("multishot");
+        stats.applyAbility("multishot");
         expect(stats.getMultishotCount()).toBe(2);
       });
 
       it("does not affect attack speed", () => {
         const baseSpeed = stats.getAttackSpeed(); // 1.0
-        stats.addMultishot();
+        stats.applyAbility("multishot");
         expect(stats.getAttackSpeed()).toBeCloseTo(baseSpeed);
-        stats.addMultishot();
+        stats.applyAbility("multishot");
         expect(stats.getAttackSpeed()).toBeCloseTo(baseSpeed);
       });
     });
 
     describe("Attack Speed Boost", () => {
       it("multiplies attack speed (25% boost)", () => {
-        stats.addAttackSpeedBoost(0.25);
+        stats.applyAbility("attack_speed");
         expect(stats.getAttackSpeed()).toBeCloseTo(1.25);
       });
 
       it("stacks multiplicatively", () => {
         // 1st boost: 1.0 * 1.25 = 1.25
-        stats.addAttackSpeedBoost(0.25);
+        stats.applyAbility("attack_speed");
         expect(stats.getAttackSpeed()).toBeCloseTo(1.25);
 
         // 2nd boost: 1.25 * 1.25 = 1.5625
-        stats.addAttackSpeedBoost(0.25);
+        stats.applyAbility("attack_speed");
         expect(stats.getAttackSpeed()).toBeCloseTo(1.5625);
 
         // 3rd boost: 1.5625 * 1.25 = 1.953125
-        stats.addAttackSpeedBoost(0.25);
+        stats.applyAbility("attack_speed");
         expect(stats.getAttackSpeed()).toBeCloseTo(1.953125);
       });
     });
 
     describe("Attack Boost (Damage)", () => {
       it("multiplies damage (30% boost)", () => {
-        stats.addDamageBoost(0.3);
+        stats.applyAbility("attack_boost");
         expect(stats.getDamage()).toBe(13); // floor(10 * 1.30)
       });
 
       it("stacks multiplicatively", () => {
         // 1st boost: 10 * 1.30 = 13
-        stats.addDamageBoost(0.3);
+        stats.applyAbility("attack_boost");
         expect(stats.getDamage()).toBe(13);
 
         // 2nd boost: 10 * 1.69 = 16.9 -> 16
-        stats.addDamageBoost(0.3);
+        stats.applyAbility("attack_boost");
         expect(stats.getDamage()).toBe(16);
 
         // 3rd boost: 10 * 2.197 = 21.97 -> 21
-        stats.addDamageBoost(0.3);
+        stats.applyAbility("attack_boost");
         expect(stats.getDamage()).toBe(21);
       });
     });
@@ -285,31 +301,31 @@ describe("PlayerStats", () => {
     describe("Combined Abilities", () => {
       it("Front Arrow does not affect Attack Boost damage", () => {
         // Attack Boost: 10 * 1.30 = 13
-        stats.addDamageBoost(0.3);
+        stats.applyAbility("attack_boost");
         expect(stats.getDamage()).toBe(13);
 
         // Add Front Arrow: damage unchanged at 13
-        stats.addFrontArrow();
+        stats.applyAbility("front_arrow");
         expect(stats.getDamage()).toBe(13);
       });
 
       it("Multishot does not affect Attack Speed Boost", () => {
         // Attack Speed Boost: 1.0 * 1.25 = 1.25
-        stats.addAttackSpeedBoost(0.25);
+        stats.applyAbility("attack_speed");
         expect(stats.getAttackSpeed()).toBeCloseTo(1.25);
 
         // Add Multishot: no penalty, attack speed unchanged at 1.25
-        stats.addMultishot();
+        stats.applyAbility("multishot");
         expect(stats.getAttackSpeed()).toBeCloseTo(1.25);
       });
 
       it("all 4 abilities stack together correctly", () => {
         // Add all abilities
-        stats.addFrontArrow(); // +1 arrow (no damage penalty)
-        stats.addFrontArrow(); // +1 arrow (no damage penalty)
-        stats.addMultishot(); // +2 side arrows (no penalty)
-        stats.addAttackSpeedBoost(0.25); // +25% attack speed
-        stats.addDamageBoost(0.3); // +30% damage
+        stats.applyAbility("front_arrow"); // +1 arrow (no damage penalty)
+        stats.applyAbility("front_arrow"); // +1 arrow (no damage penalty)
+        stats.applyAbility("multishot"); // +2 side arrows (no penalty)
+        stats.applyAbility("attack_speed"); // +25% attack speed
+        stats.applyAbility("attack_boost"); // +30% damage
 
         // Damage: 10 * 1.30 = 13 (front arrow has no penalty)
         expect(stats.getDamage()).toBe(13);
@@ -320,14 +336,14 @@ describe("PlayerStats", () => {
 
       it("stacking same ability 5 times works", () => {
         for (let i = 0; i < 5; i++) {
-          stats.addFrontArrow();
+          stats.applyAbility("front_arrow");
         }
         expect(stats.getExtraProjectiles()).toBe(5);
         // Front arrow has no damage penalty
         expect(stats.getDamage()).toBe(10);
 
         for (let i = 0; i < 5; i++) {
-          stats.addAttackSpeedBoost(0.25);
+          stats.applyAbility("attack_speed");
         }
         // 1.25^5 = 3.0517...
         expect(stats.getAttackSpeed()).toBeCloseTo(3.0517578125);
@@ -336,7 +352,7 @@ describe("PlayerStats", () => {
       it("attack speed is capped at 5.0 (10 attacks per second)", () => {
         // Stack many attack speed boosts to exceed the cap
         for (let i = 0; i < 10; i++) {
-          stats.addAttackSpeedBoost(0.5); // +50% each time, 1.5^10 = 57.66
+          stats.modifyStat("attackSpeedMultiplier", "multiply", 1.5); // +50% each time, 1.5^10 = 57.66
         }
         // Raw would be 1.0 * 1.5^10 = 57.66, but should be capped at 5.0
         expect(stats.getAttackSpeed()).toBe(5.0);
@@ -346,10 +362,10 @@ describe("PlayerStats", () => {
         // Create player with high base attack speed
         const fastStats = new PlayerStats({ baseAttackSpeed: 3.0 });
         // Add some boosts
-        fastStats.addAttackSpeedBoost(0.5); // 3.0 * 1.5 = 4.5 (under cap)
+        fastStats.modifyStat("attackSpeedMultiplier", "multiply", 1.5); // 3.0 * 1.5 = 4.5 (under cap)
         expect(fastStats.getAttackSpeed()).toBeCloseTo(4.5);
 
-        fastStats.addAttackSpeedBoost(0.5); // 4.5 * 1.5 = 6.75 (over cap)
+        fastStats.modifyStat("attackSpeedMultiplier", "multiply", 1.5); // 4.5 * 1.5 = 6.75 (over cap)
         expect(fastStats.getAttackSpeed()).toBe(5.0);
       });
     });
@@ -357,14 +373,14 @@ describe("PlayerStats", () => {
     describe("Piercing Shot", () => {
       it("increments piercing level", () => {
         expect(stats.getPiercingLevel()).toBe(0);
-        stats.addPiercing();
+        stats.applyAbility("piercing");
         expect(stats.getPiercingLevel()).toBe(1);
       });
 
       it("stacks linearly", () => {
-        stats.addPiercing();
-        stats.addPiercing();
-        stats.addPiercing();
+        stats.applyAbility("piercing");
+        stats.applyAbility("piercing");
+        stats.applyAbility("piercing");
         expect(stats.getPiercingLevel()).toBe(3);
       });
 
@@ -383,7 +399,7 @@ describe("PlayerStats", () => {
       });
 
       it("piercing damage works with damage boost", () => {
-        stats.addDamageBoost(0.3); // 10 * 1.30 = 13
+        stats.applyAbility("attack_boost"); // 10 * 1.30 = 13
         expect(stats.getPiercingDamage(0)).toBe(13);
         // 13 * 0.67 = 8.71 -> 8
         expect(stats.getPiercingDamage(1)).toBe(8);
@@ -393,16 +409,16 @@ describe("PlayerStats", () => {
     describe("Ricochet", () => {
       it("adds 3 bounces per level", () => {
         expect(stats.getRicochetBounces()).toBe(0);
-        stats.addRicochet();
+        stats.applyAbility("ricochet");
         expect(stats.getRicochetBounces()).toBe(3);
       });
 
       it("stacks linearly (each level adds 3)", () => {
-        stats.addRicochet();
-        stats.addRicochet();
+        stats.applyAbility("ricochet");
+        stats.applyAbility("ricochet");
         expect(stats.getRicochetBounces()).toBe(6);
 
-        stats.addRicochet();
+        stats.applyAbility("ricochet");
         expect(stats.getRicochetBounces()).toBe(9);
       });
     });
@@ -410,27 +426,27 @@ describe("PlayerStats", () => {
     describe("Fire Damage", () => {
       it("adds 18% fire damage", () => {
         expect(stats.getFireDamagePercent()).toBe(0);
-        stats.addFireDamage();
+        stats.applyAbility("fire_damage");
         expect(stats.getFireDamagePercent()).toBeCloseTo(0.18);
       });
 
       it("stacks additively", () => {
-        stats.addFireDamage();
-        stats.addFireDamage();
+        stats.applyAbility("fire_damage");
+        stats.applyAbility("fire_damage");
         expect(stats.getFireDamagePercent()).toBeCloseTo(0.36);
 
-        stats.addFireDamage();
+        stats.applyAbility("fire_damage");
         expect(stats.getFireDamagePercent()).toBeCloseTo(0.54);
       });
 
       it("calculates fire damage based on weapon damage", () => {
-        stats.addFireDamage(); // 18% of 10 = 1.8 -> 1
+        stats.applyAbility("fire_damage"); // 18% of 10 = 1.8 -> 1
         expect(stats.getFireDamage()).toBe(1);
       });
 
       it("fire damage scales with attack boost", () => {
-        stats.addDamageBoost(0.3); // 10 * 1.30 = 13
-        stats.addFireDamage(); // 18% of 13 = 2.34 -> 2
+        stats.applyAbility("attack_boost"); // 10 * 1.30 = 13
+        stats.applyAbility("fire_damage"); // 18% of 13 = 2.34 -> 2
         expect(stats.getFireDamage()).toBe(2);
       });
 
@@ -442,22 +458,22 @@ describe("PlayerStats", () => {
     describe("Crit Boost", () => {
       it("adds 10% crit chance", () => {
         expect(stats.getCritChance()).toBe(0);
-        stats.addCritBoost();
+        stats.applyAbility("crit_boost");
         expect(stats.getCritChance()).toBeCloseTo(0.1);
       });
 
       it("crit chance stacks additively", () => {
-        stats.addCritBoost();
-        stats.addCritBoost();
+        stats.applyAbility("crit_boost");
+        stats.applyAbility("crit_boost");
         expect(stats.getCritChance()).toBeCloseTo(0.2);
 
-        stats.addCritBoost();
+        stats.applyAbility("crit_boost");
         expect(stats.getCritChance()).toBeCloseTo(0.3);
       });
 
       it("crit chance caps at 100%", () => {
         for (let i = 0; i < 15; i++) {
-          stats.addCritBoost();
+          stats.applyAbility("crit_boost");
         }
         expect(stats.getCritChance()).toBe(1);
       });
@@ -468,15 +484,15 @@ describe("PlayerStats", () => {
 
       it("crit damage multiplier increases by 40% per level", () => {
         // 1st crit boost: 1.5 * 1.40 = 2.1
-        stats.addCritBoost();
+        stats.applyAbility("crit_boost");
         expect(stats.getCritDamageMultiplier()).toBeCloseTo(2.1);
 
         // 2nd crit boost: 2.1 * 1.40 = 2.94
-        stats.addCritBoost();
+        stats.applyAbility("crit_boost");
         expect(stats.getCritDamageMultiplier()).toBeCloseTo(2.94);
 
         // 3rd crit boost: 2.94 * 1.40 = 4.116
-        stats.addCritBoost();
+        stats.applyAbility("crit_boost");
         expect(stats.getCritDamageMultiplier()).toBeCloseTo(4.116);
       });
 
@@ -489,14 +505,14 @@ describe("PlayerStats", () => {
       });
 
       it("crit damage scales with crit boost", () => {
-        stats.addCritBoost(); // Crit multiplier: 1.5 * 1.40 = 2.1
+        stats.applyAbility("crit_boost"); // Crit multiplier: 1.5 * 1.40 = 2.1
         // Crit: 10 * 2.1 = 21 (but floating point: 10 * 2.0999... = 20.999... → 20)
         expect(stats.getDamageWithCrit(true)).toBe(20);
       });
 
       it("crit damage combines with attack boost", () => {
-        stats.addDamageBoost(0.3); // 10 * 1.30 = 13
-        stats.addCritBoost(); // Crit multiplier: 1.5 * 1.4 = 2.0999...
+        stats.applyAbility("attack_boost"); // 10 * 1.30 = 13
+        stats.applyAbility("crit_boost"); // Crit multiplier: 1.5 * 1.4 = 2.0999...
         // Crit: 13 * 2.0999... = 27.299... -> 27
         expect(stats.getDamageWithCrit(true)).toBe(27);
       });
@@ -511,7 +527,7 @@ describe("PlayerStats", () => {
       it("rollCrit can return true with 100% crit", () => {
         // Set crit to 100%
         for (let i = 0; i < 10; i++) {
-          stats.addCritBoost();
+          stats.applyAbility("crit_boost");
         }
         // With 100% crit chance, should always return true
         expect(stats.rollCrit()).toBe(true);
@@ -522,17 +538,17 @@ describe("PlayerStats", () => {
 
     describe("Max Health Boost", () => {
       it("increases max health by 15%", () => {
-        stats.addMaxHealthBoost();
+        stats.applyAbility("max_health");
         // floor(100 * 1.15) = 114 (floating-point: 114.99999...)
         expect(stats.getMaxHealth()).toBe(114);
       });
 
       it("stacks multiplicatively (100 -> 114 -> 131 -> 150)", () => {
-        stats.addMaxHealthBoost();
+        stats.applyAbility("max_health");
         expect(stats.getMaxHealth()).toBe(114); // floor(100 * 1.15)
-        stats.addMaxHealthBoost();
+        stats.applyAbility("max_health");
         expect(stats.getMaxHealth()).toBe(131); // floor(114 * 1.15)
-        stats.addMaxHealthBoost();
+        stats.applyAbility("max_health");
         expect(stats.getMaxHealth()).toBe(150); // floor(131 * 1.15)
       });
 
@@ -540,7 +556,7 @@ describe("PlayerStats", () => {
         stats.takeDamage(50); // Health is now 50
         expect(stats.getHealth()).toBe(50);
 
-        stats.addMaxHealthBoost(); // Max health goes from 100 to 114, gain is 14
+        stats.applyAbility("max_health"); // Max health goes from 100 to 114, gain is 14
         expect(stats.getMaxHealth()).toBe(114);
         expect(stats.getHealth()).toBe(64); // 50 + 14 = 64
       });
@@ -549,16 +565,16 @@ describe("PlayerStats", () => {
         expect(stats.getHealth()).toBe(100);
         expect(stats.getMaxHealth()).toBe(100);
 
-        stats.addMaxHealthBoost();
+        stats.applyAbility("max_health");
         expect(stats.getHealth()).toBe(114);
         expect(stats.getMaxHealth()).toBe(114);
       });
 
       it("tracks maxHealthMultiplier correctly", () => {
         expect(stats.getMaxHealthMultiplier()).toBeCloseTo(1.0);
-        stats.addMaxHealthBoost();
+        stats.applyAbility("max_health");
         expect(stats.getMaxHealthMultiplier()).toBeCloseTo(1.15);
-        stats.addMaxHealthBoost();
+        stats.applyAbility("max_health");
         expect(stats.getMaxHealthMultiplier()).toBeCloseTo(1.3225);
       });
     });
@@ -566,20 +582,20 @@ describe("PlayerStats", () => {
     describe("Speed Boost", () => {
       it("increases movement speed by 15%", () => {
         expect(stats.getMovementSpeedMultiplier()).toBeCloseTo(1.0);
-        stats.addSpeedBoost();
+        stats.applyAbility("speed_boost");
         expect(stats.getMovementSpeedMultiplier()).toBeCloseTo(1.15);
       });
 
       it("also increases attack speed by 5%", () => {
         expect(stats.getAttackSpeed()).toBeCloseTo(1.0);
-        stats.addSpeedBoost();
+        stats.applyAbility("speed_boost");
         // 1.0 * 1.05 = 1.05
         expect(stats.getAttackSpeed()).toBeCloseTo(1.05);
       });
 
       it("stacks multiplicatively for both speeds", () => {
-        stats.addSpeedBoost();
-        stats.addSpeedBoost();
+        stats.applyAbility("speed_boost");
+        stats.applyAbility("speed_boost");
         // Movement: 1.0 * 1.15^2 = 1.3225
         expect(stats.getMovementSpeedMultiplier()).toBeCloseTo(1.3225);
         // Attack: 1.0 * 1.05^2 = 1.1025
@@ -590,9 +606,9 @@ describe("PlayerStats", () => {
     describe("Lightning Chain", () => {
       it("adds 2 chain targets per level", () => {
         expect(stats.getLightningChainCount()).toBe(0);
-        stats.addLightningChain();
+        stats.applyAbility("lightning_chain");
         expect(stats.getLightningChainCount()).toBe(2);
-        stats.addLightningChain();
+        stats.applyAbility("lightning_chain");
         expect(stats.getLightningChainCount()).toBe(4);
       });
 
@@ -609,6 +625,60 @@ describe("PlayerStats", () => {
     });
   });
 
+  // ============================================
+  // Hero Skill Boost Tests
+  // ============================================
+  describe("Hero Skill Boost", () => {
+    it("boosts damage and attack speed until cleared", () => {
+      stats.setHeroSkillBoost(0.5);
+      expect(stats.getDamage()).toBe(15);
+      expect(stats.getAttackSpeed()).toBeCloseTo(1.5);
+
+      stats.setHeroSkillBoost(0);
+      expect(stats.getDamage()).toBe(10);
+      expect(stats.getAttackSpeed()).toBeCloseTo(1.0);
+    });
+
+    it("stacks with ability multipliers", () => {
+      stats.applyAbility("attack_boost");
+      const boostedDamage = stats.getDamage();
+      stats.setHeroSkillBoost(1);
+      expect(stats.getDamage()).toBe(Math.floor(boostedDamage * 2));
+    });
+
+    it("adds temporary spirit pets on top of Spirit Pets", () => {
+      stats.applyAbility("spirit_pets");
+      const baseCount = stats.getSpiritPetCount();
+      stats.setHeroSkillPets(3);
+      expect(stats.getSpiritPetCount()).toBe(baseCount + 3);
+
+      stats.resetRunStats();
+      expect(stats.getSpiritPetCount()).toBe(0);
+    });
+  });
+
+  // ============================================
+  // Equipment Set Bonus Tests
+  // ============================================
+  describe("Equipment Freeze Bonus", () => {
+    it("adds freeze chance and frozen damage without Ice Shot", () => {
+      expect(stats.getShatterLevel()).toBe(0);
+      stats.setEquipmentFreezeBonus(0.1, 0.3);
+      expect(stats.getFreezeChance()).toBeCloseTo(0.1);
+      expect(stats.getShatterLevel()).toBe(1);
+      expect(stats.getShatterDamageMultiplier()).toBeCloseTo(1.3);
+    });
+
+    it("stacks with Ice Shot and lasts through a run reset", () => {
+      stats.setEquipmentFreezeBonus(0.1, 0.3);
+      stats.applyAbility("ice_shot");
+      expect(stats.getShatterDamageMultiplier()).toBeCloseTo(1.8);
+
+      stats.resetRunStats();
+      expect(stats.getFreezeChance()).toBeCloseTo(0.1);
+    });
+  });
+
   // ============================================
   // Reset Tests
   // ============================================
@@ -617,14 +687,15 @@ describe("PlayerStats", () => {
       // Modify everything
       stats.takeDamage(50);
       stats.addXP(5);
-      stats.addFrontArrow();
-      stats.addMultishot();
-      stats.addAttackSpeedBoost(0.25);
-      stats.addDamageBoost(0.3);
-      stats.addPiercing();
-      stats.addRicochet();
-      stats.addFireDamage();
-      stats.addCritBoost();
+      stats.applyAbility("front_arrow");
+      stats.applyAbility("multishot");
+      stats.applyAbility("attack_speed");
+      stats.applyAbility("attack_boost");
+      stats.applyAbility("piercing");
+      stats.applyAbility("ricochet");
+      stats.applyAbility("fire_damage");
+      stats.applyAbility("crit_boost");
+      stats.setHeroSkillBoost(0.5);
 
       // Reset
       stats.resetRunStats();
@@ -653,12 +724,12 @@ describe("PlayerStats", () => {
     it("returns correct snapshot of current state", () => {
       stats.takeDamage(20);
       stats.addXP(2); // Only 2 XP so we stay at level 1 (needs 4 for first level up)
-      stats.addFrontArrow();
-      stats.addDamageBoost(0.3);
-      stats.addPiercing();
-      stats.addRicochet();
-      stats.addFireDamage();
-      stats.addCritBoost();
+      stats.applyAbility("front_arrow");
+      stats.applyAbility("attack_boost");
+      stats.applyAbility("piercing");
+      stats.applyAbility("ricochet");
+      stats.applyAbility("fire_damage");
+      stats.applyAbility("crit_boost");
 
       const snapshot = stats.getStatsSnapshot();
 
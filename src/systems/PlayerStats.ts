@@ -1,3 +1,13 @@
+import { randomStreams } from "./RandomStreams";
+import { abilityEffectRegistry, type AbilityEffectTarget } from "./AbilityEffectRegistry";
+import {
+  ABILITY_STAT_DEFAULTS,
+  type AbilityHookId,
+  type AbilityStatId,
+  type AbilityStatValues,
+  type StatStacking,
+} from "../config/abilityData";
+
 /**
  * Pure game logic for player stats, health, abilities, and leveling.
  * No Phaser dependencies - fully unit testable.
@@ -8,7 +18,7 @@ export interface DamageResult {
   dodged?: boolean;
 }
 
-export class PlayerStats {
+export class PlayerStats implements AbilityEffectTarget {
   // Health system
   private health: number;
   private maxHealth: number;
@@ -28,62 +38,27 @@ export class PlayerStats {
   // Dodge cap: Maximum 15% dodge chance (buffed from 3%)
   public static readonly MAX_DODGE_CHANCE = 0.15;
 
-  // Ability counters (linear stacking)
-  private extraProjectiles: number = 0;
-  private multishotCount: number = 0;
-  private piercingLevel: number = 0; // How many enemies bullet can pass through
-  private ricochetBounces: number = 0; // How many times bullet bounces
+  // Ability stats (modified through AbilityEffectRegistry, see abilityData.ts)
+  private abilityStats: AbilityStatValues = { ...ABILITY_STAT_DEFAULTS };
+
+  private poisonMaxStacks: number = 5; // Maximum poison stacks
 
-  // Ability multipliers (multiplicative stacking)
-  private damageMultiplier: number = 1.0;
-  private attackSpeedMultiplier: number = 1.0;
+  // Level of each ability taken this run (hooks run for owned abilities)
+  private abilityLevels: Map<string, number> = new Map();
 
-  // Fire damage (DOT)
-  private fireDamagePercent: number = 0; // Percentage of weapon damage as fire DOT
+  // Run modifier (daily challenge) - lasts the whole run, not reset with run stats
+  private healingDisabled: boolean = false; // No healing, no XP bonus
 
-  // Critical hit
-  private critChance: number = 0; // 0-1 (e.g., 0.1 = 10%)
-  private critDamageMultiplier: number = 1.5; // Base crit multiplier (150%)
+  // Temporary damage and attack speed boost from a hero skill (Rage Burst)
+  private heroSkillBoost: number = 0;
+  // Temporary extra spirit pets from a hero skill (Spirit Legion)
+  private heroSkillPets: number = 0;
 
-  // Dodge
-  private dodgeChance: number = 0; // 0-1 (e.g., 0.1 = 10%), capped at 3%
+  // Equipment set bonuses - last the whole run, not reset with run stats
+  private equipmentFreezeChance: number = 0;
+  private equipmentFrozenDamagePercent: number = 0;
 
-  // New V1 abilities
-  private freezeChance: number = 0; // 0-1 (e.g., 0.15 = 15%)
-  private poisonDamagePercent: number = 0; // Percentage of weapon damage as poison DOT per second
-  private poisonMaxStacks: number = 5; // Maximum poison stacks
-  private lightningChainCount: number = 0; // Number of enemies lightning chains to
-  private bleedDamagePercent: number = 0; // Percentage of weapon damage as bleed DOT (2x when moving)
-  private diagonalArrows: number = 0; // Number of diagonal arrow pairs
-  private bloodthirstHealPercent: number = 0; // Percentage of max HP healed per kill (caps at 5%)
-  private movementSpeedMultiplier: number = 1.0; // Movement speed multiplier
-  private maxHealthMultiplier: number = 1.0; // Max health multiplier from Vitality ability
-
-  // Devil abilities
-  private extraLives: number = 0; // Number of revives available
-  private throughWallEnabled: boolean = false; // Arrows pass through walls
-
-  // New orbital and effect abilities
-  private rotatingOrbCount: number = 0; // Number of orbs orbiting player
-  private orbitalShieldCount: number = 0; // Number of shields blocking projectiles
-  private spiritPetCount: number = 0; // Number of homing spirit pets
-  private deathNovaLevel: number = 0; // Death nova AOE level (affects radius/damage)
-  private homingStrength: number = 0; // Bullet tracking strength (0-1)
-  private explosiveArrowLevel: number = 0; // Explosive arrow AOE level (affects radius/damage)
-  private shieldBarrierLevel: number = 0; // Shield barrier level (affects shield HP)
-  private knockbackStrength: number = 0; // Knockback force on hit
-
-  // Game modifier abilities (Risk/Reward)
-  private asceticEnabled: boolean = false; // No healing, +200% XP gain
-  private hordeMagnetLevel: number = 0; // Each level: +50% enemies, +100% XP gain (stacks)
-
-  // Movement abilities
-  private mobileFireLevel: number = 0; // Allows shooting while moving (L1: 33%, L2: 67%, L3: 100% attack speed)
-
-  // Glass Cannon ability
-  private glassCannonEnabled: boolean = false; // Cap base HP at 100, gain offensive bonuses
-
-  // Note: Shatter and Fire Spread are now passive effects:
+  // Note: Shatter and Fire Spread are passive effects:
   // - Shatter: Ice Shot enables +50% damage to frozen enemies automatically
   // - Fire Spread: Fire Damage enables fire spread on death automatically
 
@@ -100,8 +75,8 @@ export class PlayerStats {
     this.baseDamage = options?.baseDamage ?? 10;
     this.baseAttackSpeed = options?.baseAttackSpeed ?? 1.0;
     this.baseXpToLevelUp = options?.xpToLevelUp ?? 10; // Base XP for exponential scaling (increased for balance)
-    this.critChance = options?.critChance ?? 0;
-    this.critDamageMultiplier = options?.critDamage ?? 1.5;
+    this.abilityStats.critChance = options?.critChance ?? 0;
+    this.abilityStats.critDamageMultiplier = options?.critDamage ?? 1.5;
   }
 
   /**
@@ -136,7 +111,10 @@ export class PlayerStats {
 
   takeDamage(amount: number): DamageResult {
     // Roll for dodge
-    if (this.dodgeChance > 0 && Math.random() < this.dodgeChance) {
+    if (
+      this.abilityStats.dodgeChance > 0 &&
+      randomStreams.get("combat").chance(this.abilityStats.dodgeChance)
+    ) {
       return { damaged: false, died: false, dodged: true };
     }
 
@@ -150,8 +128,8 @@ export class PlayerStats {
   }
 
   heal(amount: number): void {
-    // Ascetic modifier blocks all healing
-    if (this.asceticEnabled) {
+    // Ascetic ability and the no-healing run modifier block all healing
+    if (this.abilityStats.ascetic > 0 || this.healingDisabled) {
       return;
     }
     this.health = Math.min(this.maxHealth, this.health + amount);
@@ -238,7 +216,9 @@ export class PlayerStats {
    * Calculate current damage with ability modifiers
    */
   getDamage(): number {
-    return Math.floor(this.baseDamage * this.damageMultiplier);
+    return Math.floor(
+      this.baseDamage * this.abilityStats.damageMultiplier * (1 + this.heroSkillBoost),
+    );
   }
 
   /**
@@ -246,61 +226,70 @@ export class PlayerStats {
    * Capped at MAX_ATTACK_SPEED (5.0) to limit to 10 attacks per second
    */
   getAttackSpeed(): number {
-    const rawAttackSpeed = this.baseAttackSpeed * this.attackSpeedMultiplier;
+    const rawAttackSpeed =
+      this.baseAttackSpeed * this.abilityStats.attackSpeedMultiplier * (1 + this.heroSkillBoost);
     return Math.min(rawAttackSpeed, PlayerStats.MAX_ATTACK_SPEED);
   }
 
   getExtraProjectiles(): number {
-    return this.extraProjectiles;
+    return this.abilityStats.extraProjectiles;
   }
 
   getMultishotCount(): number {
-    return this.multishotCount;
+    return this.abilityStats.multishotCount;
   }
 
   getPiercingLevel(): number {
-    return this.piercingLevel;
+    return this.abilityStats.piercingLevel;
   }
 
   getRicochetBounces(): number {
-    return this.ricochetBounces;
+    return this.abilityStats.ricochetBounces;
   }
 
   getFireDamagePercent(): number {
-    return this.fireDamagePercent;
+    return this.abilityStats.fireDamagePercent;
   }
 
   /**
    * Calculate fire damage amount based on current weapon damage
    */
   getFireDamage(): number {
-    if (this.fireDamagePercent === 0) return 0;
-    return Math.floor(this.getDamage() * this.fireDamagePercent);
+    if (this.abilityStats.fireDamagePercent === 0) return 0;
+    return Math.floor(this.getDamage() * this.abilityStats.fireDamagePercent);
   }
 
   getCritChance(): number {
-    return this.critChance;
+    return this.abilityStats.critChance;
   }
 
   getCritDamageMultiplier(): number {
-    return this.critDamageMultiplier;
+    return this.abilityStats.critDamageMultiplier;
   }
 
   getDodgeChance(): number {
-    return this.dodgeChance;
+    return this.abilityStats.dodgeChance;
   }
 
   setDodgeChance(chance: number): void {
-    this.dodgeChance = Math.min(0.15, Math.max(0, chance)); // Cap at 15% (buffed from 3%)
+    this.abilityStats.dodgeChance = Math.min(0.15, Math.max(0, chance)); // Cap at 15% (buffed from 3%)
   }
 
   // New V1 ability getters
   getFreezeChance(): number {
-    return this.freezeChance;
+    return Math.min(1, this.abilityStats.freezeChance + this.equipmentFreezeChance);
+  }
+
+  /**
+   * Freeze chance and bonus damage to frozen enemies from equipment sets
+   */
+  setEquipmentFreezeBonus(freezeChance: number, frozenDamagePercent: number): void {
+    this.equipmentFreezeChance = Math.max(0, freezeChance);
+    this.equipmentFrozenDamagePercent = Math.max(0, frozenDamagePercent);
   }
 
   getPoisonDamagePercent(): number {
-    return this.poisonDamagePercent;
+    return this.abilityStats.poisonDamagePercent;
   }
 
   /**
@@ -308,8 +297,8 @@ export class PlayerStats {
    * Poison does 10% weapon damage per second per level (buffed from 5%)
    */
   getPoisonDamage(): number {
-    if (this.poisonDamagePercent === 0) return 0;
-    return Math.floor(this.getDamage() * this.poisonDamagePercent);
+    if (this.abilityStats.poisonDamagePercent === 0) return 0;
+    return Math.floor(this.getDamage() * this.abilityStats.poisonDamagePercent);
   }
 
   getPoisonMaxStacks(): number {
@@ -317,7 +306,7 @@ export class PlayerStats {
   }
 
   getBleedDamagePercent(): number {
-    return this.bleedDamagePercent;
+    return this.abilityStats.bleedDamagePercent;
   }
 
   /**
@@ -325,12 +314,12 @@ export class PlayerStats {
    * Bleed does 10% weapon damage per tick (2x when enemy is moving)
    */
   getBleedDamage(): number {
-    if (this.bleedDamagePercent === 0) return 0;
-    return Math.floor(this.getDamage() * this.bleedDamagePercent);
+    if (this.abilityStats.bleedDamagePercent === 0) return 0;
+    return Math.floor(this.getDamage() * this.abilityStats.bleedDamagePercent);
   }
 
   getLightningChainCount(): number {
-    return this.lightningChainCount;
+    return this.abilityStats.lightningChainCount;
   }
 
   /**
@@ -345,7 +334,7 @@ export class PlayerStats {
   }
 
   getDiagonalArrows(): number {
-    return this.diagonalArrows;
+    return this.abilityStats.diagonalArrows;
   }
 
   /**
@@ -353,25 +342,25 @@ export class PlayerStats {
    * Returns the actual HP amount to heal based on current max HP
    */
   getBloodthirstHeal(): number {
-    if (this.bloodthirstHealPercent <= 0) return 0;
-    return Math.floor(this.maxHealth * this.bloodthirstHealPercent);
+    if (this.abilityStats.bloodthirstHealPercent <= 0) return 0;
+    return Math.floor(this.maxHealth * this.abilityStats.bloodthirstHealPercent);
   }
 
   getBloodthirstHealPercent(): number {
-    return this.bloodthirstHealPercent;
+    return this.abilityStats.bloodthirstHealPercent;
   }
 
   getMovementSpeedMultiplier(): number {
-    return Math.min(4.0, this.movementSpeedMultiplier); // Cap at 400%
+    return Math.min(4.0, this.abilityStats.movementSpeedMultiplier); // Cap at 400%
   }
 
   // Devil ability getters
   getExtraLives(): number {
-    return this.extraLives;
+    return this.abilityStats.extraLives;
   }
 
   hasExtraLife(): boolean {
-    return this.extraLives > 0;
+    return this.abilityStats.extraLives > 0;
   }
 
   /**
@@ -379,31 +368,31 @@ export class PlayerStats {
    * @returns true if revived successfully
    */
   useExtraLife(): boolean {
-    if (this.extraLives <= 0) return false;
-    this.extraLives--;
+    if (this.abilityStats.extraLives <= 0) return false;
+    this.abilityStats.extraLives--;
     this.health = Math.floor(this.maxHealth * 0.3);
     return true;
   }
 
   isThroughWallEnabled(): boolean {
-    return this.throughWallEnabled;
+    return this.abilityStats.throughWall > 0;
   }
 
   // New orbital and effect ability getters
   getRotatingOrbCount(): number {
-    return this.rotatingOrbCount;
+    return this.abilityStats.rotatingOrbCount;
   }
 
   getOrbitalShieldCount(): number {
-    return this.orbitalShieldCount;
+    return this.abilityStats.orbitalShieldCount;
   }
 
   getSpiritPetCount(): number {
-    return this.spiritPetCount;
+    return this.abilityStats.spiritPetCount + this.heroSkillPets;
   }
 
   getDeathNovaLevel(): number {
-    return this.deathNovaLevel;
+    return this.abilityStats.deathNovaLevel;
   }
 
   /**
@@ -411,8 +400,8 @@ export class PlayerStats {
    * Level 1 = 60px, Level 2 = 80px, Level 3 = 100px
    */
   getDeathNovaRadius(): number {
-    if (this.deathNovaLevel <= 0) return 0;
-    return 40 + this.deathNovaLevel * 20;
+    if (this.abilityStats.deathNovaLevel <= 0) return 0;
+    return 40 + this.abilityStats.deathNovaLevel * 20;
   }
 
   /**
@@ -420,25 +409,26 @@ export class PlayerStats {
    * Level 1 = 40%, Level 2 = 55%, Level 3 = 70%
    */
   getDeathNovaDamagePercent(): number {
-    if (this.deathNovaLevel <= 0) return 0;
-    return 0.25 + this.deathNovaLevel * 0.15;
+    if (this.abilityStats.deathNovaLevel <= 0) return 0;
+    return 0.25 + this.abilityStats.deathNovaLevel * 0.15;
   }
 
   getHomingStrength(): number {
-    return this.homingStrength;
+    return this.abilityStats.homingStrength;
   }
 
   getExplosiveArrowLevel(): number {
-    return this.explosiveArrowLevel;
+    return this.abilityStats.explosiveArrowLevel;
   }
 
   /**
    * Get explosive arrow radius based on level
-   * Level 1 = 30px, Level 2 = 45px, Level 3 = 60px
+   * Level 1 = 30px, Level 2 = 45px, Level 3 = 60px (+50% with Inferno Burst)
    */
   getExplosiveArrowRadius(): number {
-    if (this.explosiveArrowLevel <= 0) return 0;
-    return 15 + this.explosiveArrowLevel * 15;
+    if (this.abilityStats.explosiveArrowLevel <= 0) return 0;
+    const radius = 15 + this.abilityStats.explosiveArrowLevel * 15;
+    return this.hasInfernoBurst() ? radius * 1.5 : radius;
   }
 
   /**
@@ -446,12 +436,26 @@ export class PlayerStats {
    * Level 1 = 30%, Level 2 = 45%, Level 3 = 60%
    */
   getExplosiveArrowDamagePercent(): number {
-    if (this.explosiveArrowLevel <= 0) return 0;
-    return 0.15 + this.explosiveArrowLevel * 0.15;
+    if (this.abilityStats.explosiveArrowLevel <= 0) return 0;
+    return 0.15 + this.abilityStats.explosiveArrowLevel * 0.15;
+  }
+
+  /**
+   * Inferno Burst evolution (Fire + Explosive Arrows): explosions grow and ignite
+   */
+  hasInfernoBurst(): boolean {
+    return this.abilityStats.infernoBurst > 0;
+  }
+
+  /**
+   * Storm Orbs evolution (Rotating Orbs + Lightning): orb hits chain lightning
+   */
+  hasStormOrbs(): boolean {
+    return this.abilityStats.stormOrbs > 0;
   }
 
   getShieldBarrierLevel(): number {
-    return this.shieldBarrierLevel;
+    return this.abilityStats.shieldBarrierLevel;
   }
 
   /**
@@ -459,8 +463,8 @@ export class PlayerStats {
    * Level 1 = 30%, Level 2 = 50%, Level 3 = 70%
    */
   getShieldBarrierMaxPercent(): number {
-    if (this.shieldBarrierLevel <= 0) return 0;
-    return 0.1 + this.shieldBarrierLevel * 0.2;
+    if (this.abilityStats.shieldBarrierLevel <= 0) return 0;
+    return 0.1 + this.abilityStats.shieldBarrierLevel * 0.2;
   }
 
   /**
@@ -470,8 +474,8 @@ export class PlayerStats {
    * This prevents shield from being useless when HP is capped at 100
    */
   getShieldBarrierFlatAmount(): number {
-    if (this.shieldBarrierLevel <= 0) return 0;
-    return 50 + this.shieldBarrierLevel * 50; // 100, 150, 200
+    if (this.abilityStats.shieldBarrierLevel <= 0) return 0;
+    return 50 + this.abilityStats.shieldBarrierLevel * 50; // 100, 150, 200
   }
 
   /**
@@ -479,12 +483,12 @@ export class PlayerStats {
    * Level 1 = 5%, Level 2 = 7%, Level 3 = 10%
    */
   getShieldBarrierRegenRate(): number {
-    if (this.shieldBarrierLevel <= 0) return 0;
-    return 0.02 + this.shieldBarrierLevel * 0.03;
+    if (this.abilityStats.shieldBarrierLevel <= 0) return 0;
+    return 0.02 + this.abilityStats.shieldBarrierLevel * 0.03;
   }
 
   getKnockbackStrength(): number {
-    return this.knockbackStrength;
+    return this.abilityStats.knockbackStrength;
   }
 
   /**
@@ -493,8 +497,8 @@ export class PlayerStats {
    * (Buffed from 50/100/150 - now actually pushes enemies back noticeably)
    */
   getKnockbackForce(): number {
-    if (this.knockbackStrength <= 0) return 0;
-    return 100 + this.knockbackStrength * 100;
+    if (this.abilityStats.knockbackStrength <= 0) return 0;
+    return 100 + this.abilityStats.knockbackStrength * 100;
   }
 
   /**
@@ -502,21 +506,21 @@ export class PlayerStats {
    * Level 1 = 150ms, Level 2 = 200ms, Level 3 = 250ms
    */
   getKnockbackDuration(): number {
-    if (this.knockbackStrength <= 0) return 0;
-    return 100 + this.knockbackStrength * 50;
+    if (this.abilityStats.knockbackStrength <= 0) return 0;
+    return 100 + this.abilityStats.knockbackStrength * 50;
   }
 
   // Game modifier getters
   isAsceticEnabled(): boolean {
-    return this.asceticEnabled;
+    return this.abilityStats.ascetic > 0;
   }
 
   isGlassCannonEnabled(): boolean {
-    return this.glassCannonEnabled;
+    return this.abilityStats.glassCannon > 0;
   }
 
   getHordeMagnetLevel(): number {
-    return this.hordeMagnetLevel;
+    return this.abilityStats.hordeMagnetLevel;
   }
 
   /**
@@ -525,7 +529,7 @@ export class PlayerStats {
    * Level 1: 1.5x, Level 2: 2.0x, Level 3: 2.5x, etc.
    */
   getHordeMagnetEnemyMultiplier(): number {
-    return 1.0 + this.hordeMagnetLevel * 0.5;
+    return 1.0 + this.abilityStats.hordeMagnetLevel * 0.5;
   }
 
   /**
@@ -542,15 +546,17 @@ export class PlayerStats {
    */
   getXPMultiplier(): number {
     let multiplier = 1.0;
-    if (this.asceticEnabled) multiplier *= 3.0;
-    if (this.hordeMagnetLevel > 0) multiplier *= 1.0 + this.hordeMagnetLevel * 1.0; // 2x, 3x, 4x, etc.
+    if (this.abilityStats.ascetic > 0) multiplier *= 3.0;
+    if (this.abilityStats.hordeMagnetLevel > 0) {
+      multiplier *= 1.0 + this.abilityStats.hordeMagnetLevel * 1.0; // 2x, 3x, 4x, etc.
+    }
     return multiplier;
   }
 
   // Movement ability getters
 
   getMobileFireLevel(): number {
-    return this.mobileFireLevel;
+    return this.abilityStats.mobileFireLevel;
   }
 
   /**
@@ -558,7 +564,7 @@ export class PlayerStats {
    * Returns true if player has at least 1 level of Mobile Fire
    */
   canShootWhileMoving(): boolean {
-    return this.mobileFireLevel > 0;
+    return this.abilityStats.mobileFireLevel > 0;
   }
 
   /**
@@ -567,28 +573,28 @@ export class PlayerStats {
    * Returns 0 if ability not acquired (should not shoot while moving)
    */
   getMobileFireAttackSpeedMultiplier(): number {
-    if (this.mobileFireLevel <= 0) return 0;
+    if (this.abilityStats.mobileFireLevel <= 0) return 0;
     // Level 1: 1/3, Level 2: 2/3, Level 3: 3/3 (full)
-    return Math.min(1.0, this.mobileFireLevel / 3);
+    return Math.min(1.0, this.abilityStats.mobileFireLevel / 3);
   }
 
   // Conditional damage ability getters (now passive effects)
 
   /**
    * Get shatter level (bonus damage to frozen enemies)
-   * Now returns 1 if player has Ice Shot, 0 otherwise (passive effect)
+   * Now returns 1 if player has Ice Shot or an equipment set bonus, 0 otherwise (passive effect)
    */
   getShatterLevel(): number {
-    return this.freezeChance > 0 ? 1 : 0;
+    return this.abilityStats.freezeChance > 0 || this.equipmentFrozenDamagePercent > 0 ? 1 : 0;
   }
 
   /**
    * Get shatter damage multiplier (+50% to frozen enemies)
-   * Automatically enabled when player has Ice Shot ability
+   * Automatically enabled when player has Ice Shot ability, plus equipment set bonuses
    */
   getShatterDamageMultiplier(): number {
-    if (this.freezeChance <= 0) return 1.0;
-    return 1.5; // +50% damage to frozen enemies
+    const iceShotMultiplier = this.abilityStats.freezeChance > 0 ? 1.5 : 1.0; // +50% with Ice Shot
+    return iceShotMultiplier + this.equipmentFrozenDamagePercent;
   }
 
   /**
@@ -596,7 +602,7 @@ export class PlayerStats {
    * Automatically enabled when player has Fire Damage ability
    */
   hasFireSpread(): boolean {
-    return this.fireDamagePercent > 0;
+    return this.abilityStats.fireDamagePercent > 0;
   }
 
   /**
@@ -604,7 +610,7 @@ export class PlayerStats {
    * @returns true if this hit should freeze the enemy
    */
   rollFreeze(): boolean {
-    return Math.random() < this.freezeChance;
+    return randomStreams.get("combat").chance(this.getFreezeChance());
   }
 
   /**
@@ -612,7 +618,7 @@ export class PlayerStats {
    * @returns true if this hit should be critical
    */
   rollCrit(): boolean {
-    return Math.random() < this.critChance;
+    return randomStreams.get("combat").chance(this.abilityStats.critChance);
   }
 
   /**
@@ -621,7 +627,7 @@ export class PlayerStats {
    */
   getDamageWithCrit(isCrit: boolean): number {
     const baseDamage = this.getDamage();
-    return isCrit ? Math.floor(baseDamage * this.critDamageMultiplier) : baseDamage;
+    return isCrit ? Math.floor(baseDamage * this.abilityStats.critDamageMultiplier) : baseDamage;
   }
 
   /**
@@ -634,305 +640,129 @@ export class PlayerStats {
     return Math.floor(this.getDamage() * piercingPenalty);
   }
 
-  // ============================================
-  // Ability Application (stacking)
-  // ============================================
-
-  /**
-   * Add Front Arrow ability (+1 projectile)
-   */
-  addFrontArrow(): void {
-    this.extraProjectiles++;
-  }
-
-  /**
-   * Add Multishot ability (+1 side projectile pair at 45 degrees)
-   * No attack speed penalty
-   */
-  addMultishot(): void {
-    this.multishotCount++;
-  }
-
-  /**
-   * Add Attack Speed boost (multiplicative stacking)
-   * @param amount The percentage boost (e.g., 0.25 for +25%)
-   */
-  addAttackSpeedBoost(amount: number): void {
-    this.attackSpeedMultiplier *= 1 + amount;
-  }
-
-  /**
-   * Add Damage boost (multiplicative stacking)
-   * @param amount The percentage boost (e.g., 0.30 for +30%)
-   */
-  addDamageBoost(amount: number): void {
-    this.damageMultiplier *= 1 + amount;
-  }
-
-  /**
-   * Add Piercing Shot ability (arrows pass through 1 additional enemy)
-   * Stacking: Each level adds +1 enemy the arrow can pierce
-   */
-  addPiercing(): void {
-    this.piercingLevel++;
-  }
-
-  /**
-   * Add Ricochet ability (arrows bounce between enemies)
-   * Stacking: Each level adds +3 bounces
-   */
-  addRicochet(): void {
-    this.ricochetBounces += 3;
+  getMaxHealthMultiplier(): number {
+    return this.abilityStats.maxHealthMultiplier;
   }
 
   /**
-   * Add Fire Damage ability (18% DOT)
-   * Stacking: Additive (each level adds +18% fire damage)
+   * Disable healing for the whole run (daily challenge modifier)
+   * Like Ascetic, but without the XP bonus
    */
-  addFireDamage(): void {
-    this.fireDamagePercent += 0.18;
+  disableHealing(): void {
+    this.healingDisabled = true;
   }
 
-  /**
-   * Add Crit Boost ability (+10% chance, +40% damage)
-   * Stacking: Additive for chance, multiplicative for damage
-   */
-  addCritBoost(): void {
-    this.critChance = Math.min(1, this.critChance + 0.1); // Cap at 100%
-    this.critDamageMultiplier *= 1.4; // +40% crit damage
+  isHealingDisabled(): boolean {
+    return this.healingDisabled;
   }
 
-  // New V1 ability application methods
-
-  /**
-   * Add Ice Shot ability (15% freeze chance per level)
-   * Stacking: Additive (each level adds +15% freeze chance)
-   */
-  addIceShot(): void {
-    this.freezeChance = Math.min(1, this.freezeChance + 0.15); // Cap at 100%
-  }
+  // ============================================
+  // Hero Skill Boost
+  // ============================================
 
   /**
-   * Add Poison Shot ability (10% DOT per second, stacks up to 5x)
-   * Stacking: Additive poison damage per level (buffed from 5%)
+   * Boost damage and attack speed while a hero skill lasts (0.5 = +50%)
    */
-  addPoisonShot(): void {
-    this.poisonDamagePercent += 0.1; // +10% weapon damage per second (buffed from 5%)
+  setHeroSkillBoost(boost: number): void {
+    this.heroSkillBoost = Math.max(0, boost);
   }
 
-  /**
-   * Add Bleed ability (10% DOT, deals 2x damage when enemy is moving)
-   * Stacking: Additive bleed damage per level
-   */
-  addBleed(): void {
-    this.bleedDamagePercent += 0.1; // +10% weapon damage per tick
+  getHeroSkillBoost(): number {
+    return this.heroSkillBoost;
   }
 
   /**
-   * Add Lightning Chain ability (chains to 2 additional enemies per level)
-   * Stacking: Each level adds +2 chain targets
-   * Damage penalty: -20% per chain (resistance through bodies)
+   * Extra spirit pets while a hero skill lasts
    */
-  addLightningChain(): void {
-    this.lightningChainCount += 2;
+  setHeroSkillPets(count: number): void {
+    this.heroSkillPets = Math.max(0, Math.floor(count));
   }
 
-  /**
-   * Add Diagonal Arrows ability (+2 arrows at 30 degree angles)
-   * Stacking: Each level adds +2 diagonal arrows (1 pair)
-   */
-  addDiagonalArrows(): void {
-    this.diagonalArrows += 2;
-  }
+  // ============================================
+  // Ability Application (AbilityEffectRegistry)
+  // ============================================
 
   /**
-   * Add Bloodthirst ability (+1% max HP per kill per level)
-   * Stacking: Each level adds +1% max HP healed per kill (caps at 5%)
+   * Apply one level of an ability's effects from abilityData.ts
+   * @param level The level being reached (defaults to one above the current level)
+   * @returns false if nothing was applied (unknown ability or past maxLevel)
    */
-  addBloodthirst(): void {
-    this.bloodthirstHealPercent = Math.min(0.05, this.bloodthirstHealPercent + 0.01);
+  applyAbility(abilityId: string, level?: number): boolean {
+    const newLevel = level ?? (this.abilityLevels.get(abilityId) ?? 0) + 1;
+    this.abilityLevels.set(abilityId, newLevel);
+    return abilityEffectRegistry.apply(abilityId, newLevel, this);
   }
 
   /**
-   * Add Speed Boost ability (+15% movement speed, +5% attack speed)
-   * Stacking: Multiplicative (each level multiplies speed by 1.15, attack speed by 1.05)
-   * Now provides offensive utility alongside defensive mobility
+   * Modify an ability stat (AbilityEffectTarget)
    */
-  addSpeedBoost(): void {
-    this.movementSpeedMultiplier *= 1.15;
-    this.attackSpeedMultiplier *= 1.05; // +5% attack speed bonus
+  modifyStat(stat: AbilityStatId, stacking: StatStacking, value: number, cap?: number): void {
+    let next: number;
+    switch (stacking) {
+      case "add":
+        next = this.abilityStats[stat] + value;
+        break;
+      case "multiply":
+        next = this.abilityStats[stat] * value;
+        break;
+      case "set":
+        next = value;
+        break;
+    }
+    this.abilityStats[stat] = cap === undefined ? next : Math.min(cap, next);
   }
 
   /**
-   * Add Max Health Boost ability (+15% max HP)
-   * Stacking: Multiplicative (each level multiplies max HP by 1.15, buffed from 1.10)
-   * Also heals the player by the gained amount
+   * Multiply max HP and heal by the amount gained (AbilityEffectTarget)
    */
-  addMaxHealthBoost(): void {
-    const newMaxHealth = Math.floor(this.maxHealth * 1.15); // +15% (buffed from 10%)
+  scaleMaxHealth(multiplier: number): void {
+    const newMaxHealth = Math.floor(this.maxHealth * multiplier);
     const healthGain = newMaxHealth - this.maxHealth;
     this.maxHealth = newMaxHealth;
     this.health += healthGain; // Heal by the gained amount
-    this.maxHealthMultiplier *= 1.15; // Buffed from 1.10
-  }
-
-  getMaxHealthMultiplier(): number {
-    return this.maxHealthMultiplier;
-  }
-
-  /**
-   * Add Dodge Master ability (+3% dodge chance per level)
-   * Stacking: Additive (capped at 15%, buffed from 3%)
-   */
-  addDodgeMaster(): void {
-    this.dodgeChance = Math.min(0.15, this.dodgeChance + 0.03); // +3% per level (buffed from 1%)
-  }
-
-  /**
-   * Add Extra Life ability (+1 revive per level)
-   * Stacking: Each level adds +1 extra life
-   */
-  addExtraLife(): void {
-    this.extraLives++;
-  }
-
-  /**
-   * Add Through Wall ability (arrows pass through walls)
-   * Non-stacking: Only need one level
-   */
-  addThroughWall(): void {
-    this.throughWallEnabled = true;
-  }
-
-  // New orbital and effect ability application methods
-
-  /**
-   * Add Rotating Orbs ability (+1 orb orbiting player)
-   * Stacking: Each level adds +1 orb (max 5)
-   */
-  addRotatingOrbs(): void {
-    this.rotatingOrbCount = Math.min(5, this.rotatingOrbCount + 1);
-  }
-
-  /**
-   * Add Orbital Shields ability (+1 projectile-blocking shield)
-   * Stacking: Each level adds +1 shield (max 3)
-   */
-  addOrbitalShields(): void {
-    this.orbitalShieldCount = Math.min(3, this.orbitalShieldCount + 1);
-  }
-
-  /**
-   * Add Spirit Pets ability (+1 homing wisp pet)
-   * Stacking: Each level adds +1 pet (max 5)
-   */
-  addSpiritPets(): void {
-    this.spiritPetCount = Math.min(5, this.spiritPetCount + 1);
-  }
-
-  /**
-   * Add Death Nova ability (AOE damage on enemy kill)
-   * Stacking: Each level increases radius and damage (max 3)
-   */
-  addDeathNova(): void {
-    this.deathNovaLevel = Math.min(3, this.deathNovaLevel + 1);
   }
 
   /**
-   * Add Homing Arrows ability (bullets slightly track enemies)
-   * Stacking: Each level adds +15% tracking strength (max 45%)
+   * Lower max HP (and current HP) to at most cap (AbilityEffectTarget)
    */
-  addHomingArrows(): void {
-    this.homingStrength = Math.min(0.45, this.homingStrength + 0.15);
-  }
-
-  /**
-   * Add Explosive Arrows ability (AOE on bullet impact)
-   * Stacking: Each level increases radius and damage (max 3)
-   */
-  addExplosiveArrows(): void {
-    this.explosiveArrowLevel = Math.min(3, this.explosiveArrowLevel + 1);
-  }
-
-  /**
-   * Add Shield Barrier ability (damage absorption shield)
-   * Stacking: Each level increases shield HP (max 3)
-   */
-  addShieldBarrier(): void {
-    this.shieldBarrierLevel = Math.min(3, this.shieldBarrierLevel + 1);
-  }
-
-  /**
-   * Add Knockback ability (push enemies on hit)
-   * Stacking: Each level increases knockback force (max 3)
-   */
-  addKnockback(): void {
-    this.knockbackStrength = Math.min(3, this.knockbackStrength + 1);
-  }
-
-  // Game modifier abilities
-
-  /**
-   * Add Ascetic ability (no healing, +200% XP gain)
-   * Non-stacking: Only need one level
-   */
-  addAscetic(): void {
-    this.asceticEnabled = true;
+  capMaxHealth(cap: number): void {
+    if (this.maxHealth > cap) {
+      this.maxHealth = cap;
+      if (this.health > this.maxHealth) {
+        this.health = this.maxHealth;
+      }
+    }
   }
 
   /**
-   * Add Horde Magnet ability (+50% enemies, +100% XP gain per level)
-   * Stacking: Each level increases challenge and rewards
+   * Current value of an ability stat
    */
-  addHordeMagnet(): void {
-    this.hordeMagnetLevel++;
+  getAbilityStat(stat: AbilityStatId): number {
+    return this.abilityStats[stat];
   }
 
   /**
-   * Add Glass Cannon ability (cap base HP at 100, gain offensive bonuses)
-   * Non-stacking: Only need one level
-   * Trade-off: Lose any bonus HP from equipment/difficulty, but gain:
-   * - +100% damage
-   * - +100% attack speed
-   * - +10% crit chance
-   * Note: Vitality and other in-run HP abilities still work on top of the base 100
+   * Run the hook effects of every owned ability for a gameplay event
+   * @returns HP healed by the hooks (before Ascetic / no-healing checks)
    */
-  addGlassCannon(): void {
-    if (this.glassCannonEnabled) return; // Already enabled
-
-    this.glassCannonEnabled = true;
-
-    // Cap max HP at 100 (the base value)
-    // This removes any equipment/difficulty bonuses, but vitality can still increase it
-    if (this.maxHealth > 100) {
-      this.maxHealth = 100;
-      // Also cap current health if needed
-      if (this.health > this.maxHealth) {
-        this.health = this.maxHealth;
+  runAbilityHook(hook: AbilityHookId): { healed: number } {
+    let healed = 0;
+    for (const [abilityId, level] of this.abilityLevels) {
+      if (level <= 0) continue;
+      for (const effect of abilityEffectRegistry.getHookEffects(abilityId, hook)) {
+        switch (effect.action) {
+          case "healPercentOfMaxHealth":
+            healed += Math.floor(this.maxHealth * this.abilityStats[effect.stat]);
+            break;
+        }
       }
     }
-
-    // Apply offensive bonuses
-    this.damageMultiplier *= 2.0; // +100% damage
-    this.attackSpeedMultiplier *= 2.0; // +100% attack speed
-    this.critChance = Math.min(1, this.critChance + 0.1); // +10% crit chance
-  }
-
-  /**
-   * Add Mobile Fire ability (shoot while moving at reduced attack speed)
-   * Level 1: 33% attack speed while moving
-   * Level 2: 67% attack speed while moving
-   * Level 3: 100% attack speed while moving (full)
-   * Stacking: Each level adds +33% attack speed while moving (max 3)
-   */
-  addMobileFire(): void {
-    this.mobileFireLevel = Math.min(3, this.mobileFireLevel + 1);
+    if (healed > 0) {
+      this.heal(healed);
+    }
+    return { healed };
   }
 
-  // Note: addShatter() and addFireSpread() removed - these are now passive effects:
-  // - Shatter: Automatically enabled when player has Ice Shot (freezeChance > 0)
-  // - Fire Spread: Automatically enabled when player has Fire Damage (fireDamagePercent > 0)
-
   // ============================================
   // Iron Will (Epic Talent) - Bonus HP when low health
   // ============================================
@@ -968,43 +798,10 @@ export class PlayerStats {
     this.health = this.maxHealth;
     this.currentXP = 0;
     this.level = 1;
-    this.extraProjectiles = 0;
-    this.multishotCount = 0;
-    this.piercingLevel = 0;
-    this.ricochetBounces = 0;
-    this.damageMultiplier = 1.0;
-    this.attackSpeedMultiplier = 1.0;
-    this.fireDamagePercent = 0;
-    this.critChance = 0;
-    this.critDamageMultiplier = 1.5;
-    this.dodgeChance = 0;
-    // Reset new V1 abilities
-    this.freezeChance = 0;
-    this.poisonDamagePercent = 0;
-    this.bleedDamagePercent = 0;
-    this.lightningChainCount = 0;
-    this.diagonalArrows = 0;
-    this.bloodthirstHealPercent = 0;
-    this.movementSpeedMultiplier = 1.0;
-    this.maxHealthMultiplier = 1.0;
-    // Reset devil abilities
-    this.extraLives = 0;
-    this.throughWallEnabled = false;
-    // Reset new orbital and effect abilities
-    this.rotatingOrbCount = 0;
-    this.orbitalShieldCount = 0;
-    this.spiritPetCount = 0;
-    this.deathNovaLevel = 0;
-    this.homingStrength = 0;
-    this.explosiveArrowLevel = 0;
-    this.shieldBarrierLevel = 0;
-    this.knockbackStrength = 0;
-    // Reset game modifiers
-    this.asceticEnabled = false;
-    this.hordeMagnetLevel = 0;
-    this.glassCannonEnabled = false;
-    // Reset movement abilities
-    this.mobileFireLevel = 0;
+    this.abilityStats = { ...ABILITY_STAT_DEFAULTS };
+    this.abilityLevels.clear();
+    this.heroSkillBoost = 0;
+    this.heroSkillPets = 0;
     // Note: Shatter and Fire Spread are passive effects (no reset needed)
   }
 
@@ -1055,33 +852,33 @@ export class PlayerStats {
       xpToLevelUp: this.getXpRequiredForCurrentLevel(),
       damage: this.getDamage(),
       attackSpeed: this.getAttackSpeed(),
-      extraProjectiles: this.extraProjectiles,
-      multishotCount: this.multishotCount,
-      piercingLevel: this.piercingLevel,
-      ricochetBounces: this.ricochetBounces,
-      fireDamagePercent: this.fireDamagePercent,
-      critChance: this.critChance,
-      critDamageMultiplier: this.critDamageMultiplier,
-      freezeChance: this.freezeChance,
-      poisonDamagePercent: this.poisonDamagePercent,
-      bleedDamagePercent: this.bleedDamagePercent,
-      lightningChainCount: this.lightningChainCount,
-      diagonalArrows: this.diagonalArrows,
-      bloodthirstHealPercent: this.bloodthirstHealPercent,
-      movementSpeedMultiplier: this.movementSpeedMultiplier,
-      maxHealthMultiplier: this.maxHealthMultiplier,
-      extraLives: this.extraLives,
-      throughWallEnabled: this.throughWallEnabled,
+      extraProjectiles: this.abilityStats.extraProjectiles,
+      multishotCount: this.abilityStats.multishotCount,
+      piercingLevel: this.abilityStats.piercingLevel,
+      ricochetBounces: this.abilityStats.ricochetBounces,
+      fireDamagePercent: this.abilityStats.fireDamagePercent,
+      critChance: this.abilityStats.critChance,
+      critDamageMultiplier: this.abilityStats.critDamageMultiplier,
+      freezeChance: this.getFreezeChance(),
+      poisonDamagePercent: this.abilityStats.poisonDamagePercent,
+      bleedDamagePercent: this.abilityStats.bleedDamagePercent,
+      lightningChainCount: this.abilityStats.lightningChainCount,
+      diagonalArrows: this.abilityStats.diagonalArrows,
+      bloodthirstHealPercent: this.abilityStats.bloodthirstHealPercent,
+      movementSpeedMultiplier: this.abilityStats.movementSpeedMultiplier,
+      maxHealthMultiplier: this.abilityStats.maxHealthMultiplier,
+      extraLives: this.abilityStats.extraLives,
+      throughWallEnabled: this.abilityStats.throughWall > 0,
       hasFireSpread: this.hasFireSpread(),
       hasShatter: this.getShatterLevel() > 0,
-      rotatingOrbCount: this.rotatingOrbCount,
-      orbitalShieldCount: this.orbitalShieldCount,
-      spiritPetCount: this.spiritPetCount,
-      deathNovaLevel: this.deathNovaLevel,
-      homingStrength: this.homingStrength,
-      explosiveArrowLevel: this.explosiveArrowLevel,
-      shieldBarrierLevel: this.shieldBarrierLevel,
-      knockbackStrength: this.knockbackStrength,
+      rotatingOrbCount: this.abilityStats.rotatingOrbCount,
+      orbitalShieldCount: this.abilityStats.orbitalShieldCount,
+      spiritPetCount: this.abilityStats.spiritPetCount,
+      deathNovaLevel: this.abilityStats.deathNovaLevel,
+      homingStrength: this.abilityStats.homingStrength,
+      explosiveArrowLevel: this.abilityStats.explosiveArrowLevel,
+      shieldBarrierLevel: this.abilityStats.shieldBarrierLevel,
+      knockbackStrength: this.abilityStats.knockbackStrength,
     };
   }
 }
@@ -0,0 +1,80 @@
+/**
+ * RandomStreams - Named seeded random streams for gameplay randomness
+ *
+ * Every gameplay roll (crits, dodges, drops, enemy and boss behaviour) draws
+ * from one of these streams instead of Math.random, so a run is fully
+ * determined by its seed and the player's inputs. Each stream is derived from
+ * the run seed independently, which keeps e.g. the number of crit rolls from
+ * shifting enemy behaviour.
+ *
+ * Purely cosmetic randomness (particle offsets, damage number jitter) must keep
+ * using Math.random: it depends on graphics settings and would desync replays.
+ *
+ * Usage:
+ *   randomStreams.reset(runRng.getSeed()) // At run start
+ *   randomStreams.get("combat").chance(critChance)
+ */
+
+import { SeededRandom } from "./SeededRandom";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Gameplay systems with their own random stream
+ */
+export type RandomStreamName =
+  | "combat" // Player crit/dodge/freeze rolls, pet crits, enemy resistances
+  | "enemies" // Enemy and boss movement and attack patterns
+  | "loot" // Gold amounts and pickup drops
+  | "abilities" // Automatic ability selection
+  | "levelUp" // Ability choices offered in the level-up screen
+  | "rooms"; // Devil room rolls and angel/devil offers
+
+// ============================================
+// RandomStreams Class
+// ============================================
+
+export class RandomStreams {
+  private root: SeededRandom;
+  private streams: Map<RandomStreamName, SeededRandom> = new Map();
+
+  constructor(seed?: number) {
+    this.root = new SeededRandom(seed);
+  }
+
+  /**
+   * Re-seed every stream from a run seed
+   */
+  reset(seed: number): void {
+    this.root = new SeededRandom(seed);
+    this.streams.clear();
+  }
+
+  /**
+   * Get the stream for a system (created on first use)
+   */
+  get(name: RandomStreamName): SeededRandom {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = this.root.derive(name);
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+
+  /**
+   * Seed the streams were derived from
+   */
+  getSeed(): number {
+    return this.root.getSeed();
+  }
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+/** Global gameplay random streams, re-seeded at the start of every run */
+export const randomStreams = new RandomStreams();
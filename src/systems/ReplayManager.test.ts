@@ -0,0 +1,75 @@
+/**
+ * Unit tests for ReplayManager recording, best run storage and playback sandbox
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import { ReplayManager } from "./ReplayManager";
+import { MemoryStorageBackend, SAVE_SCHEMAS, STORAGE_KEYS, StorageService } from "./storage";
+
+describe("ReplayManager", () => {
+  let backend: MemoryStorageBackend;
+  let service: StorageService;
+  let replays: ReplayManager;
+
+  beforeEach(() => {
+    backend = new MemoryStorageBackend();
+    service = new StorageService(backend, SAVE_SCHEMAS);
+    replays = new ReplayManager(service);
+    service.set(STORAGE_KEYS.coupons, { redeemedCoupons: [] });
+    service.set(STORAGE_KEYS.abilityPriority, {
+      priorityOrder: ["multishot"],
+      priorityMaxLevels: {},
+    });
+  });
+
+  describe("recording", () => {
+    it("should capture only build records", () => {
+      const recorder = replays.startRecording("ABC", "hard");
+      const replay = recorder.finish();
+
+      expect(Object.keys(replay.records)).toEqual([STORAGE_KEYS.abilityPriority]);
+      expect(replay.difficulty).toBe("hard");
+    });
+
+    it("should save the recording only when it was marked as a new best", () => {
+      replays.startRecording("ABC", "normal");
+      replays.finishRecording();
+      expect(replays.getBest()).toBeNull();
+
+      replays.startRecording("DEF", "normal");
+      replays.markNewBest(1200);
+      replays.finishRecording();
+
+      expect(replays.getBest()).toMatchObject({ seed: "DEF", score: 1200 });
+      expect(replays.getRecorder()).toBeNull();
+    });
+  });
+
+  describe("playback", () => {
+    it("should restore recorded build records without touching real progress", () => {
+      replays.startRecording("ABC", "normal");
+      replays.markNewBest(100);
+      const replay = replays.finishRecording()!;
+
+      service.set(STORAGE_KEYS.abilityPriority, {
+        priorityOrder: ["freeze"],
+        priorityMaxLevels: {},
+      });
+      replays.startPlayback(replay);
+
+      expect(replays.isPlaying()).toBe(true);
+      expect(service.get(STORAGE_KEYS.abilityPriority)).toMatchObject({
+        priorityOrder: ["multishot"],
+      });
+
+      // Writes made by the replayed run are thrown away
+      service.set(STORAGE_KEYS.coupons, { redeemedCoupons: ["WELCOME"] });
+      replays.stopPlayback();
+
+      expect(replays.isPlaying()).toBe(false);
+      expect(service.get(STORAGE_KEYS.abilityPriority)).toMatchObject({
+        priorityOrder: ["freeze"],
+      });
+      expect(service.get(STORAGE_KEYS.coupons)).toMatchObject({ redeemedCoupons: [] });
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * ReplayManager - Records runs, keeps the best run's replay, and runs playback
+ *
+ * GameScene starts a recording at the beginning of every run. GameOverScene
+ * marks the recording when the run sets a new high score, and the replay is
+ * saved when the rewards are collected (the point every run ends at).
+ *
+ * Playback restores the build records the run was recorded with inside a
+ * storage sandbox, so the watched run uses the recorded hero, gear and
+ * settings and nothing it does (gold pickups, kill stats) is kept.
+ */
+
+import { ReplayPlayer, ReplayRecorder, REPLAY_FORMAT, type RunReplayData } from "./RunReplay";
+import {
+  STORAGE_KEYS,
+  StorageService,
+  migrateSaveRecords,
+  storageService,
+  type SaveRecord,
+  type StorageKey,
+} from "./storage";
+
+// ============================================
+// Constants
+// ============================================
+
+export const BEST_REPLAY_STORAGE_KEY = "aura_archer_best_run_replay";
+
+/** Records that shape a run's build, captured with every recording */
+export const REPLAY_RECORD_KEYS: StorageKey[] = [
+  STORAGE_KEYS.save,
+  STORAGE_KEYS.heroes,
+  STORAGE_KEYS.equipment,
+  STORAGE_KEYS.talents,
+  STORAGE_KEYS.chapters,
+  STORAGE_KEYS.abilityPriority,
+];
+
+// ============================================
+// ReplayManager Class
+// ============================================
+
+export class ReplayManager {
+  private service: StorageService;
+  private recorder: ReplayRecorder | null = null;
+  private bestScore: number | null = null;
+  private player: ReplayPlayer | null = null;
+
+  constructor(service: StorageService = storageService) {
+    this.service = service;
+  }
+
+  // ============================================
+  // Recording
+  // ============================================
+
+  /**
+   * Copy the records that shape a run's build.
+   * Taken before a run starts, since starting a run updates some of them.
+   */
+  captureBuild(): Partial<Record<StorageKey, SaveRecord>> {
+    const records: Partial<Record<StorageKey, SaveRecord>> = {};
+    for (const key of REPLAY_RECORD_KEYS) {
+      const record = this.service.get<SaveRecord>(key);
+      if (record) {
+        records[key] = record;
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Start recording a new run (any unfinished recording is dropped)
+   */
+  startRecording(
+    seed: string,
+    difficulty: string,
+    records: Partial<Record<StorageKey, SaveRecord>> = this.captureBuild(),
+  ): ReplayRecorder {
+    this.recorder = new ReplayRecorder(seed, difficulty, records);
+    this.bestScore = null;
+    return this.recorder;
+  }
+
+  /**
+   * The recording of the current run, if any
+   */
+  getRecorder(): ReplayRecorder | null {
+    return this.recorder;
+  }
+
+  /**
+   * Mark the current recording as a new high score run.
+   * Called again with a higher score after a respawn.
+   */
+  markNewBest(score: number): void {
+    if (this.recorder) {
+      this.bestScore = score;
+    }
+  }
+
+  /**
+   * Stop recording. The replay is saved as the best run if it was marked.
+   * Returns the finished replay, or null if nothing was being recorded.
+   */
+  finishRecording(): RunReplayData | null {
+    const recorder = this.recorder;
+    if (!recorder) return null;
+
+    const replay = recorder.finish(this.bestScore ?? 0);
+    if (this.bestScore !== null) {
+      this.saveBest(replay);
+    }
+
+    this.recorder = null;
+    this.bestScore = null;
+    return replay;
+  }
+
+  /**
+   * Drop the current recording without saving it
+   */
+  discardRecording(): void {
+    this.recorder = null;
+    this.bestScore = null;
+  }
+
+  // ============================================
+  // Best Run
+  // ============================================
+
+  /**
+   * The saved replay of the best run, or null if none (or unreadable)
+   */
+  getBest(): RunReplayData | null {
+    try {
+      const replay = this.service.get<RunReplayData>(BEST_REPLAY_STORAGE_KEY);
+      return replay?.format === REPLAY_FORMAT ? replay : null;
+    } catch (error) {
+      console.warn("ReplayManager: Failed to read best run replay:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a replay as the best run
+   */
+  saveBest(replay: RunReplayData): void {
+    try {
+      this.service.set(BEST_REPLAY_STORAGE_KEY, replay);
+      console.log(
+        `ReplayManager: Saved best run replay (${replay.ticks} ticks, score ${replay.score})`,
+      );
+    } catch (error) {
+      console.warn("ReplayManager: Failed to save best run replay:", error);
+    }
+  }
+
+  /**
+   * Delete the best run replay
+   */
+  clearBest(): void {
+    this.service.remove(BEST_REPLAY_STORAGE_KEY);
+  }
+
+  // ============================================
+  // Playback
+  // ============================================
+
+  /**
+   * Open a storage sandbox holding the replay's build records and reload
+   * every manager from it. Throws if the records cannot be migrated.
+   */
+  startPlayback(replay: RunReplayData): ReplayPlayer {
+    const records = migrateSaveRecords(replay.records);
+
+    this.discardRecording();
+    this.service.beginSandbox();
+    for (const [key, record] of Object.entries(records)) {
+      this.service.set(key, record);
+    }
+    this.service.reloadAll();
+
+    this.player = new ReplayPlayer(replay);
+    return this.player;
+  }
+
+  /**
+   * Whether a replay is being played back
+   */
+  isPlaying(): boolean {
+    return this.player !== null;
+  }
+
+  /**
+   * End playback, discard everything the replayed run wrote, and reload
+   * every manager from the real progress
+   */
+  stopPlayback(): void {
+    if (!this.player) return;
+    this.player = null;
+    this.service.discardSandbox();
+  }
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+/** Global replay manager */
+export const replayManager = new ReplayManager();
@@ -160,7 +160,8 @@ export class RoomGenerator {
       case "miniboss":
         return MINI_BOSS_LAYOUTS[0];
       case "angel":
-        // Angel rooms don't need enemies, return empty layout
+      case "devil":
+        // Angel and devil rooms don't need enemies, return empty layout
         return ROOM_LAYOUTS[0];
       case "combat":
       default: {
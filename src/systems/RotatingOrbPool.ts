@@ -52,6 +52,16 @@ export default class RotatingOrbPool extends Phaser.Physics.Arcade.Group {
     });
   }
 
+  /**
+   * Tint every orb (pooled ones included)
+   */
+  setOrbTint(color: number): void {
+    this.children.iterate((child) => {
+      (child as RotatingOrb).setTint(color);
+      return true;
+    });
+  }
+
   /**
    * Get the number of active orbs
    */
@@ -0,0 +1,48 @@
+/**
+ * RunEvents - Gameplay events a run emits on game.events.
+ * Combat and run-end code only emits them; meta systems that count gameplay
+ * (missions, season XP) subscribe at startup. Watched replays emit them too -
+ * the replay storage sandbox discards whatever the subscribers save.
+ */
+
+import type { HeroId } from "../config/heroData";
+
+// ============================================
+// Types and Interfaces
+// ============================================
+
+/** An enemy died (bosses included) */
+export interface EnemyKilledEventData {
+  isBoss: boolean;
+}
+
+/** The last enemy of a room died */
+export interface RoomClearedEventData {
+  /** The player took no damage in the room */
+  flawless: boolean;
+}
+
+/** A run ended and its rewards were collected */
+export interface RunFinishedEventData {
+  /** Hero that was played (the daily challenge's hero in challenge runs) */
+  heroId: HeroId;
+  goldEarned: number;
+}
+
+/** Emitter the run events arrive on (game.events in the game) */
+export interface RunEventSource {
+  on(event: "enemyKilled", callback: (data: EnemyKilledEventData) => void): unknown;
+  on(event: "roomCleared", callback: (data: RoomClearedEventData) => void): unknown;
+  on(event: "runFinished", callback: (data: RunFinishedEventData) => void): unknown;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Event names, as emitted on game.events */
+export const RUN_EVENTS = {
+  ENEMY_KILLED: "enemyKilled",
+  ROOM_CLEARED: "roomCleared",
+  RUN_FINISHED: "runFinished",
+} as const;
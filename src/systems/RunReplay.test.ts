@@ -0,0 +1,121 @@
+/**
+ * Unit tests for replay recording/playback and seeded random streams
+ */
+import { describe, it, expect } from "vitest";
+import {
+  INPUT_PRECISION,
+  ReplayPlayer,
+  ReplayRecorder,
+  quantizeInput,
+  type ReplayInput,
+} from "./RunReplay";
+import { RandomStreams } from "./RandomStreams";
+
+const idle: ReplayInput = { velocityX: 0, velocityY: 0, hasInput: false };
+const right: ReplayInput = { velocityX: 1, velocityY: 0, hasInput: true };
+
+function record(inputs: ReplayInput[]): ReplayRecorder {
+  const recorder = new ReplayRecorder("ABC123", "normal", {}, 0);
+  for (const input of inputs) {
+    recorder.recordInput(input);
+    recorder.advanceTick();
+  }
+  return recorder;
+}
+
+describe("RunReplay", () => {
+  describe("quantizeInput()", () => {
+    it("should round velocities to the stored precision", () => {
+      const input = quantizeInput({ velocityX: 0.123456, velocityY: -0.707107, hasInput: true });
+      expect(input.velocityX * INPUT_PRECISION).toBe(12);
+      expect(input.velocityY * INPUT_PRECISION).toBe(-71);
+      expect(input.hasInput).toBe(true);
+    });
+  });
+
+  describe("ReplayRecorder", () => {
+    it("should run-length encode repeated inputs", () => {
+      const replay = record([idle, idle, right, right, right, idle]).finish();
+
+      expect(replay.ticks).toBe(6);
+      expect(replay.inputs).toEqual([
+        [2, 0, 0, 0],
+        [3, INPUT_PRECISION, 0, 1],
+        [1, 0, 0, 0],
+      ]);
+    });
+
+    it("should stamp events with the number of ticks simulated", () => {
+      const recorder = record([idle, idle]);
+      recorder.recordEvent("abilitySelected", { abilityId: "multishot", rerollsRemaining: 1 });
+      recorder.advanceTick();
+      recorder.recordEvent("skipRun");
+
+      expect(recorder.finish(500).events).toEqual([
+        { tick: 2, type: "abilitySelected", data: { abilityId: "multishot", rerollsRemaining: 1 } },
+        { tick: 3, type: "skipRun" },
+      ]);
+    });
+  });
+
+  describe("ReplayPlayer", () => {
+    it("should play back every recorded input in order", () => {
+      const inputs = [
+        idle,
+        right,
+        right,
+        quantizeInput({ velocityX: 0.6, velocityY: 0.8, hasInput: true }),
+      ];
+      const player = new ReplayPlayer(record(inputs).finish());
+
+      const played: ReplayInput[] = [];
+      while (!player.isFinished()) {
+        played.push(player.nextInput());
+        player.advanceTick();
+      }
+
+      expect(played).toEqual(inputs);
+      expect(player.nextInput()).toEqual(idle);
+    });
+
+    it("should hand out events when their tick is reached", () => {
+      const recorder = record([idle]);
+      recorder.recordEvent("gameSpeedChanged", 2);
+      recorder.advanceTick();
+      recorder.recordEvent("playerRespawn", { enemies: [] });
+      const player = new ReplayPlayer(recorder.finish());
+
+      expect(player.takeDueEvents()).toEqual([]);
+      player.advanceTick();
+      expect(player.takeDueEvents().map((e) => e.type)).toEqual(["gameSpeedChanged"]);
+      expect(player.hasPendingEvent("playerRespawn")).toBe(true);
+      player.advanceTick();
+      expect(player.takeDueEvents().map((e) => e.type)).toEqual(["playerRespawn"]);
+      expect(player.hasPendingEvent("playerRespawn")).toBe(false);
+    });
+  });
+});
+
+describe("RandomStreams", () => {
+  it("should repeat the same rolls for the same seed", () => {
+    const a = new RandomStreams(1234);
+    const b = new RandomStreams();
+    b.reset(1234);
+
+    const rolls = (streams: RandomStreams) =>
+      Array.from({ length: 5 }, () => streams.get("combat").random());
+    expect(rolls(a)).toEqual(rolls(b));
+  });
+
+  it("should keep streams independent of each other", () => {
+    const a = new RandomStreams(1234);
+    const b = new RandomStreams(1234);
+
+    // Extra combat rolls must not shift the enemy stream
+    a.get("combat").random();
+    a.get("combat").random();
+
+    expect(a.get("enemies").random()).toBe(b.get("enemies").random());
+    expect(a.get("enemies").random()).not.toBe(a.get("loot").random());
+  });
+});
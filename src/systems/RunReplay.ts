@@ -0,0 +1,271 @@
+/**
+ * RunReplay - Recording and frame-exact playback data for a run
+ *
+ * A run is fully determined by:
+ * - Its seed (room layouts and every RandomStreams stream)
+ * - The progress records that shape the build (hero, gear, talents, settings)
+ * - The movement input of every fixed simulation tick
+ * - The player's decisions (ability picks, speed changes, skip, respawn) and
+ *   the tick they were made on
+ *
+ * GameScene simulates in fixed ticks of FIXED_TICK_MS, so feeding the same
+ * inputs and decisions back at the same ticks reproduces the run exactly.
+ * Inputs are stored run-length encoded and quantized to INPUT_PRECISION; live
+ * runs use the quantized values too so playback sees exactly what the run saw.
+ */
+
+import type { SaveRecord, StorageKey } from "./storage";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Movement input for one simulation tick (same shape as InputSystem output)
+ */
+export interface ReplayInput {
+  velocityX: number;
+  velocityY: number;
+  hasInput: boolean;
+}
+
+/**
+ * Player decisions that are replayed at the tick they were made
+ */
+export type ReplayEventType =
+  | "abilitySelected"
+  | "startingAbilitySelected"
+  | "specialRoomChoice"
+  | "gameSpeedChanged"
+  | "skipRun"
+  | "playerRespawn"
+  | "heroSkillUsed";
+
+/**
+ * A decision and the number of ticks simulated before it was made
+ */
+export interface ReplayEvent {
+  tick: number;
+  type: ReplayEventType;
+  data?: unknown;
+}
+
+/**
+ * Everything needed to play a run back
+ */
+export interface RunReplayData {
+  /** Replay format version */
+  format: number;
+  /** When recording started (ms since epoch) */
+  recordedAt: number;
+  /** Run seed string (as shown in the run summary) */
+  seed: string;
+  /** Difficulty level the run was played on */
+  difficulty: string;
+  /** Final score, set when the replay is saved as the best run */
+  score: number;
+  /** Number of simulated ticks */
+  ticks: number;
+  /** Build-relevant storage records at run start */
+  records: Partial<Record<StorageKey, SaveRecord>>;
+  /** Run-length encoded inputs: [repeat, velocityX, velocityY, hasInput] */
+  inputs: number[][];
+  /** Player decisions in tick order */
+  events: ReplayEvent[];
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const REPLAY_FORMAT = 1;
+
+/** Length of one simulation tick (60 ticks per second) */
+export const FIXED_TICK_MS = 1000 / 60;
+
+/** Input velocities are rounded to 1/INPUT_PRECISION */
+export const INPUT_PRECISION = 100;
+
+const NO_INPUT: ReplayInput = { velocityX: 0, velocityY: 0, hasInput: false };
+
+// ============================================
+// Input Quantization
+// ============================================
+
+/**
+ * Round an input to the precision stored in replays
+ */
+export function quantizeInput(input: ReplayInput): ReplayInput {
+  return {
+    velocityX: Math.round(input.velocityX * INPUT_PRECISION) / INPUT_PRECISION,
+    velocityY: Math.round(input.velocityY * INPUT_PRECISION) / INPUT_PRECISION,
+    hasInput: input.hasInput,
+  };
+}
+
+function encodeInput(input: ReplayInput): number[] {
+  return [
+    Math.round(input.velocityX * INPUT_PRECISION),
+    Math.round(input.velocityY * INPUT_PRECISION),
+    input.hasInput ? 1 : 0,
+  ];
+}
+
+function decodeInput(frame: number[]): ReplayInput {
+  return {
+    velocityX: frame[1] / INPUT_PRECISION,
+    velocityY: frame[2] / INPUT_PRECISION,
+    hasInput: frame[3] === 1,
+  };
+}
+
+// ============================================
+// ReplayRecorder Class
+// ============================================
+
+export class ReplayRecorder {
+  private recordedAt: number;
+  private seed: string;
+  private difficulty: string;
+  private records: Partial<Record<StorageKey, SaveRecord>>;
+  private tick: number = 0;
+  private inputs: number[][] = [];
+  private events: ReplayEvent[] = [];
+
+  constructor(
+    seed: string,
+    difficulty: string,
+    records: Partial<Record<StorageKey, SaveRecord>>,
+    recordedAt: number = Date.now(),
+  ) {
+    this.seed = seed;
+    this.difficulty = difficulty;
+    this.records = records;
+    this.recordedAt = recordedAt;
+  }
+
+  /**
+   * Number of ticks simulated so far
+   */
+  getTick(): number {
+    return this.tick;
+  }
+
+  /**
+   * Count one simulated tick
+   */
+  advanceTick(): void {
+    this.tick++;
+  }
+
+  /**
+   * Record the movement input read this tick
+   */
+  recordInput(input: ReplayInput): void {
+    const [x, y, hasInput] = encodeInput(input);
+    const last = this.inputs[this.inputs.length - 1];
+    if (last && last[1] === x && last[2] === y && last[3] === hasInput) {
+      last[0]++;
+    } else {
+      this.inputs.push([1, x, y, hasInput]);
+    }
+  }
+
+  /**
+   * Record a player decision at the current tick
+   */
+  recordEvent(type: ReplayEventType, data?: unknown): void {
+    this.events.push(
+      data === undefined ? { tick: this.tick, type } : { tick: this.tick, type, data },
+    );
+  }
+
+  /**
+   * Build the replay (score is filled in when it is saved as a best run)
+   */
+  finish(score: number = 0): RunReplayData {
+    return {
+      format: REPLAY_FORMAT,
+      recordedAt: this.recordedAt,
+      seed: this.seed,
+      difficulty: this.difficulty,
+      score,
+      ticks: this.tick,
+      records: this.records,
+      inputs: this.inputs.map((frame) => [...frame]),
+      events: [...this.events],
+    };
+  }
+}
+
+// ============================================
+// ReplayPlayer Class
+// ============================================
+
+export class ReplayPlayer {
+  private replay: RunReplayData;
+  private tick: number = 0;
+  private inputIndex: number = 0;
+  private inputRepeat: number = 0;
+  private eventIndex: number = 0;
+
+  constructor(replay: RunReplayData) {
+    this.replay = replay;
+  }
+
+  /**
+   * Number of ticks simulated so far
+   */
+  getTick(): number {
+    return this.tick;
+  }
+
+  /**
+   * Count one simulated tick
+   */
+  advanceTick(): void {
+    this.tick++;
+  }
+
+  /**
+   * Whether every recorded tick has been played
+   */
+  isFinished(): boolean {
+    return this.tick >= this.replay.ticks;
+  }
+
+  /**
+   * The next recorded movement input (no input once the recording runs out)
+   */
+  nextInput(): ReplayInput {
+    const frame = this.replay.inputs[this.inputIndex];
+    if (!frame) return NO_INPUT;
+
+    this.inputRepeat++;
+    if (this.inputRepeat >= frame[0]) {
+      this.inputIndex++;
+      this.inputRepeat = 0;
+    }
+    return decodeInput(frame);
+  }
+
+  /**
+   * Decisions due at the current tick, in recorded order
+   */
+  takeDueEvents(): ReplayEvent[] {
+    const due: ReplayEvent[] = [];
+    const events = this.replay.events;
+    while (this.eventIndex < events.length && events[this.eventIndex].tick <= this.tick) {
+      due.push(events[this.eventIndex]);
+      this.eventIndex++;
+    }
+    return due;
+  }
+
+  /**
+   * Whether a decision of the given type is still to come
+   */
+  hasPendingEvent(type: ReplayEventType): boolean {
+    return this.replay.events.slice(this.eventIndex).some((event) => event.type === type);
+  }
+}
@@ -396,6 +396,109 @@ describe("SaveManager", () => {
       expect(stats.bossesDefeated).toBe(0);
     });
 
+    it("should not update high score or high wave for daily challenge runs", () => {
+      saveManager.recordRun({
+        kills: 80,
+        roomsCleared: 12,
+        playTimeMs: 300000,
+        bossDefeated: false,
+        abilitiesGained: 4,
+        victory: false,
+        score: 9000,
+        endlessWave: 2,
+        isDailyChallenge: true,
+      });
+
+      const stats = saveManager.getStatistics();
+      expect(stats.totalRuns).toBe(1);
+      expect(stats.totalKills).toBe(80);
+      expect(stats.highestScore).toBe(0);
+      expect(stats.highScoreRun).toBeUndefined();
+      expect(stats.endlessHighWave ?? 0).toBe(0);
+    });
+
+    it("should track seeded runs apart from the high score", () => {
+      saveManager.recordRun({
+        kills: 40,
+        roomsCleared: 8,
+        playTimeMs: 200000,
+        bossDefeated: false,
+        abilitiesGained: 3,
+        victory: false,
+        score: 7000,
+        endlessWave: 2,
+        seed: "PIZZA",
+        isSeededRun: true,
+      });
+
+      const stats = saveManager.getStatistics();
+      expect(stats.totalRuns).toBe(1);
+      expect(stats.seededRuns).toBe(1);
+      expect(stats.seededHighScore).toBe(7000);
+      expect(stats.highestScore).toBe(0);
+      expect(stats.highScoreRun).toBeUndefined();
+      expect(stats.endlessHighWave ?? 0).toBe(0);
+    });
+
+    it("should count campaign runs toward totals only", () => {
+      saveManager.recordRun({
+        kills: 120,
+        roomsCleared: 20,
+        playTimeMs: 400000,
+        bossDefeated: true,
+        abilitiesGained: 6,
+        victory: true,
+        score: 12000,
+        isEndlessMode: false,
+      });
+
+      const stats = saveManager.getStatistics();
+      expect(stats.totalRuns).toBe(1);
+      expect(stats.totalDeaths).toBe(0);
+      expect(stats.bossesDefeated).toBe(1);
+      expect(stats.highestScore).toBe(0);
+      expect(stats.endlessHighWave ?? 0).toBe(0);
+    });
+
+    it("should total angel blessings and devil deals", () => {
+      const run = {
+        kills: 30,
+        roomsCleared: 16,
+        playTimeMs: 200000,
+        bossDefeated: true,
+        abilitiesGained: 4,
+        victory: false,
+        score: 3000,
+        specialRooms: {
+          angelHeals: 1,
+          angelAbilities: 1,
+          devilRoomsSeen: 1,
+          devilDealsAccepted: 1,
+        },
+      };
+      saveManager.recordRun(run);
+      saveManager.recordRun(run);
+
+      const stats = saveManager.getStatistics();
+      expect(stats.angelBlessings).toBe(4);
+      expect(stats.devilDealsAccepted).toBe(2);
+    });
+
+    it("should keep the seed of the high score run", () => {
+      saveManager.recordRun({
+        kills: 40,
+        roomsCleared: 8,
+        playTimeMs: 200000,
+        bossDefeated: false,
+        abilitiesGained: 3,
+        victory: false,
+        score: 7000,
+        seed: "1A2B3C",
+      });
+
+      expect(saveManager.getHighScoreRun()?.seed).toBe("1A2B3C");
+    });
+
     it("should record run with boss defeated correctly (endless mode - always counts as death)", () => {
       saveManager.recordRun({
         kills: 100,
@@ -525,6 +628,15 @@ describe("SaveManager", () => {
       expect(saveManager.getData().talentPoints).toBe(1);
     });
 
+    it("should spend talent points only when enough are available", () => {
+      saveManager.addTalentPoints(3);
+
+      expect(saveManager.spendTalentPoints(2)).toBe(true);
+      expect(saveManager.getTalentPoints()).toBe(1);
+      expect(saveManager.spendTalentPoints(2)).toBe(false);
+      expect(saveManager.getTalentPoints()).toBe(1);
+    });
+
     it("should not upgrade talent when no points", () => {
       const result = saveManager.upgradeTalent("attack_bonus", 10);
 
@@ -589,6 +701,24 @@ describe("SaveManager", () => {
       expect(newManager.getSettings().difficulty).toBe(DifficultyLevel.NORMAL);
     });
 
+    it("should add heroes registered after the save was written", () => {
+      const oldData = {
+        version: 1,
+        heroes: {
+          atreus: { id: "atreus", name: "Atreus", level: 12, experience: 0, unlocked: true },
+          helix: { id: "helix", name: "Helix", level: 1, experience: 0, unlocked: true },
+        },
+      };
+      localStorageMock.setItem("aura_archer_save_data", JSON.stringify(oldData));
+
+      const heroes = new SaveManager().getAllHeroes();
+
+      expect(heroes.atreus.level).toBe(12);
+      expect(heroes.helix.unlocked).toBe(true);
+      expect(heroes.vex).toMatchObject({ level: 1, unlocked: false });
+      expect(heroes.garrick.unlocked).toBe(false);
+    });
+
     it("should handle corrupted save data", () => {
       localStorageMock.setItem("aura_archer_save_data", "not valid json");
 
@@ -1,13 +1,16 @@
 /**
  * SaveManager - Persistent save/load system for game progression
  *
- * Handles all persistent data storage using localStorage.
- * Includes version migration support for future updates.
+ * Handles all persistent data storage through StorageService.
+ * Version migrations run through the shared pipeline in storage/SaveSchemas.
  */
 
 import { DifficultyLevel } from "../config/difficulty";
 import { EnemyType } from "../config/chapterData";
 import { BossId } from "../config/bossData";
+import { DEFAULT_HERO_ID, HERO_DEFINITIONS, getAllHeroIds } from "../config/heroData";
+import type { SpecialRoomRunStats } from "../config/specialRoomData";
+import { storageService, STORAGE_KEYS, SAVE_SCHEMAS } from "./storage";
 
 // ============================================
 // Type Definitions
@@ -117,6 +120,7 @@ export interface HighScoreRunData {
   // Context
   difficulty: DifficultyLevel;
   heroId: string;
+  seed?: string; // run seed, for sharing (absent on older records)
 
   // Skills/abilities acquired during the run
   acquiredAbilities: HighScoreAbility[];
@@ -141,6 +145,10 @@ export interface PlayerStatistics {
   endlessHighWave?: number; // highest wave reached in endless mode
   monsterKills: MonsterKillStats; // per-enemy and per-boss kill counts
   highScoreRun?: HighScoreRunData; // full data from the best run
+  seededRuns?: number; // runs started from a typed seed
+  seededHighScore?: number; // best score of a seeded run (kept apart from highestScore)
+  angelBlessings?: number; // heals and abilities taken from angels
+  devilDealsAccepted?: number; // max HP traded to the devil for an ability
 }
 
 /**
@@ -236,36 +244,26 @@ export interface SaveData {
 // Default Values
 // ============================================
 
-const CURRENT_SAVE_VERSION = 1;
-const STORAGE_KEY = "aura_archer_save_data";
+const STORAGE_KEY = STORAGE_KEYS.save;
+const CURRENT_SAVE_VERSION = SAVE_SCHEMAS[STORAGE_KEY].version;
 
 /**
- * Get default hero data
+ * Get default hero data (every registered hero, free ones unlocked).
+ * Heroes added after a save was written are filled in by mergeWithDefaults.
  */
 function getDefaultHeroes(): Record<string, HeroData> {
-  return {
-    atreus: {
-      id: "atreus",
-      name: "Atreus",
-      level: 1,
-      experience: 0,
-      unlocked: true, // Free starting hero
-    },
-    helix: {
-      id: "helix",
-      name: "Helix",
-      level: 1,
-      experience: 0,
-      unlocked: false,
-    },
-    meowgik: {
-      id: "meowgik",
-      name: "Meowgik",
+  const heroes: Record<string, HeroData> = {};
+  for (const id of getAllHeroIds()) {
+    const hero = HERO_DEFINITIONS[id];
+    heroes[id] = {
+      id,
+      name: hero.name,
       level: 1,
       experience: 0,
-      unlocked: false,
-    },
-  };
+      unlocked: hero.unlockCurrency === "free",
+    };
+  }
+  return heroes;
 }
 
 /**
@@ -345,7 +343,7 @@ function createDefaultSaveData(): SaveData {
     version: CURRENT_SAVE_VERSION,
     createdAt: now,
     lastPlayedAt: now,
-    selectedHeroId: "atreus",
+    selectedHeroId: DEFAULT_HERO_ID,
     heroes: getDefaultHeroes(),
     gold: 1000, // Starting gold for new players
     gems: 50, // Starting gems for new players
@@ -368,45 +366,15 @@ function createDefaultSaveData(): SaveData {
 }
 
 // ============================================
-// Migration Functions
+// Default Merging
 // ============================================
 
-type MigrationFn = (data: Partial<SaveData>) => Partial<SaveData>;
-
 /**
- * Migration functions indexed by target version
- * Each function migrates from (version - 1) to (version)
+ * Merge stored save data with defaults so every field exists.
+ * Version migrations run earlier, in the StorageService pipeline (see SaveSchemas).
  */
-const migrations: Record<number, MigrationFn> = {
-  // Example migration from v1 to v2 (for future use):
-  // 2: (data) => {
-  //   // Add new field that wasn't in v1
-  //   return {
-  //     ...data,
-  //     newField: defaultValue,
-  //     version: 2,
-  //   }
-  // },
-};
-
-/**
- * Apply migrations to bring save data up to current version
- */
-function migrateData(data: Partial<SaveData>): SaveData {
-  let currentData = { ...data };
-  const startVersion = data.version ?? 0;
-
-  // Apply each migration in sequence
-  for (let v = startVersion + 1; v <= CURRENT_SAVE_VERSION; v++) {
-    const migrationFn = migrations[v];
-    if (migrationFn) {
-      console.log(`SaveManager: Migrating save data from v${v - 1} to v${v}`);
-      currentData = migrationFn(currentData);
-    }
-  }
-
-  // Set current version
-  currentData.version = CURRENT_SAVE_VERSION;
+function mergeWithDefaults(data: Partial<SaveData>): SaveData {
+  const currentData = { ...data, version: CURRENT_SAVE_VERSION };
 
   // Merge with defaults to ensure all fields exist
   const defaults = createDefaultSaveData();
@@ -445,6 +413,9 @@ export class SaveManager {
 
   constructor() {
     this.data = this.load();
+    storageService.register(STORAGE_KEY, () => {
+      this.data = this.load();
+    });
   }
 
   // ============================================
@@ -452,43 +423,30 @@ export class SaveManager {
   // ============================================
 
   /**
-   * Check if save data exists in localStorage
+   * Check if save data exists in storage
    */
   exists(): boolean {
     try {
-      return localStorage.getItem(STORAGE_KEY) !== null;
+      return storageService.has(STORAGE_KEY);
     } catch {
       return false;
     }
   }
 
   /**
-   * Load save data from localStorage
+   * Load save data from storage
    * Returns default data if no save exists or if there's an error
    */
   load(): SaveData {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (!stored) {
+      const parsed = storageService.get<Partial<SaveData>>(STORAGE_KEY);
+      if (!parsed) {
         console.log("SaveManager: No save data found, using defaults");
         return createDefaultSaveData();
       }
 
-      const parsed = JSON.parse(stored) as Partial<SaveData>;
-
-      // Check if migration is needed
-      if ((parsed.version ?? 0) < CURRENT_SAVE_VERSION) {
-        console.log(
-          `SaveManager: Save data is v${parsed.version ?? 0}, current is v${CURRENT_SAVE_VERSION}`,
-        );
-        const migrated = migrateData(parsed);
-        // Save migrated data immediately
-        this.saveToStorage(migrated);
-        return migrated;
-      }
-
       // Merge with defaults to ensure all fields exist
-      return migrateData(parsed);
+      return mergeWithDefaults(parsed);
     } catch (error) {
       console.error("SaveManager: Failed to load save data:", error);
       return createDefaultSaveData();
@@ -496,7 +454,7 @@ export class SaveManager {
   }
 
   /**
-   * Save current data to localStorage
+   * Save current data to storage
    */
   save(): boolean {
     this.data.lastPlayedAt = Date.now();
@@ -504,11 +462,11 @@ export class SaveManager {
   }
 
   /**
-   * Internal method to write data to localStorage
+   * Internal method to write data to storage
    */
   private saveToStorage(data: SaveData): boolean {
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+      storageService.set(STORAGE_KEY, data);
       this.isDirty = false;
       return true;
     } catch (error) {
@@ -952,11 +910,15 @@ export class SaveManager {
     victory: boolean;
     score: number;
     difficulty?: DifficultyLevel;
-    isEndlessMode?: boolean; // Kept for compatibility, always treated as true
+    isEndlessMode?: boolean; // false for campaign runs - progress is kept by ChapterManager
     endlessWave?: number;
     goldEarned?: number;
     heroId?: string;
     acquiredAbilities?: HighScoreAbility[];
+    isDailyChallenge?: boolean; // Counts toward totals only - results are kept by DailyChallengeManager
+    seed?: string;
+    isSeededRun?: boolean; // Started from a typed seed - tracked apart from the high score
+    specialRooms?: SpecialRoomRunStats;
   }): void {
     const stats = this.data.statistics;
 
@@ -965,13 +927,21 @@ export class SaveManager {
     stats.totalPlayTimeMs += options.playTimeMs;
     stats.abilitiesAcquired += options.abilitiesGained;
 
-    // Always count as death in endless mode (no victory)
-    stats.totalDeaths++;
+    // Endless runs always end in death; only a cleared campaign chapter is a victory
+    if (!options.victory || options.isEndlessMode !== false) {
+      stats.totalDeaths++;
+    }
 
     if (options.bossDefeated) {
       stats.bossesDefeated++;
     }
 
+    if (options.specialRooms) {
+      const { angelHeals, angelAbilities, devilDealsAccepted } = options.specialRooms;
+      stats.angelBlessings = (stats.angelBlessings ?? 0) + angelHeals + angelAbilities;
+      stats.devilDealsAccepted = (stats.devilDealsAccepted ?? 0) + devilDealsAccepted;
+    }
+
     if (options.roomsCleared > stats.highestRoom) {
       stats.highestRoom = options.roomsCleared;
     }
@@ -980,6 +950,21 @@ export class SaveManager {
       stats.longestRun = options.roomsCleared;
     }
 
+    // Daily challenges use a fixed loadout and campaign runs are capped at a chapter's
+    // rooms, so neither competes with endless runs
+    if (options.isDailyChallenge || options.isEndlessMode === false) {
+      this.markDirty();
+      return;
+    }
+
+    // Seeded runs can be replayed until they go well, so they get their own best
+    if (options.isSeededRun) {
+      stats.seededRuns = (stats.seededRuns ?? 0) + 1;
+      stats.seededHighScore = Math.max(stats.seededHighScore ?? 0, options.score);
+      this.markDirty();
+      return;
+    }
+
     // Track high score with difficulty and full run data
     if (options.score > stats.highestScore) {
       stats.highestScore = options.score;
@@ -996,11 +981,12 @@ export class SaveManager {
         playTimeMs: options.playTimeMs,
         difficulty: options.difficulty ?? DifficultyLevel.NORMAL,
         heroId: options.heroId ?? this.data.selectedHeroId,
+        seed: options.seed,
         acquiredAbilities: options.acquiredAbilities ?? [],
       };
     }
 
-    // Track endless mode high wave (always endless now)
+    // Track endless mode high wave
     if (options.endlessWave !== undefined) {
       const currentHighWave = stats.endlessHighWave ?? 0;
       if (options.endlessWave > currentHighWave) {
@@ -1066,6 +1052,23 @@ export class SaveManager {
     this.markDirty();
   }
 
+  /**
+   * Get unspent talent points
+   */
+  getTalentPoints(): number {
+    return this.data.talentPoints;
+  }
+
+  /**
+   * Spend talent points (returns false if not enough)
+   */
+  spendTalentPoints(amount: number): boolean {
+    if (this.data.talentPoints < amount) return false;
+    this.data.talentPoints -= amount;
+    this.markDirty();
+    return true;
+  }
+
   /**
    * Unlock or upgrade a talent
    */
@@ -0,0 +1,225 @@
+/**
+ * Unit tests for SeasonManager
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { EventEmitter } from "node:events";
+import { SeasonManager, mergeRewards } from "./SeasonManager";
+import { RUN_EVENTS } from "./RunEvents";
+import { currencyManager } from "./CurrencyManager";
+import { chestManager } from "./ChestManager";
+import {
+  GENERATED_SEASON_MONTHS,
+  SEASONS,
+  SEASON_XP,
+  SEASON_XP_PER_TIER,
+  getNextSeason,
+  getSeasonDefinition,
+  getSeasonEndTime,
+  getSeasonStartTime,
+} from "../config/seasonData";
+
+const FIRST_SEASON = SEASONS[0];
+const IN_SEASON = getSeasonStartTime(FIRST_SEASON) + 24 * 60 * 60 * 1000;
+const NEXT_SEASON = getSeasonEndTime(FIRST_SEASON) + 60 * 60 * 1000;
+const BEFORE_SEASONS = getSeasonStartTime(FIRST_SEASON) - 1;
+const LAST_AUTHORED_SEASON = SEASONS[SEASONS.length - 1];
+const AFTER_AUTHORED_SEASONS = getSeasonEndTime(LAST_AUTHORED_SEASON) + 60 * 60 * 1000;
+
+describe("SeasonManager", () => {
+  let manager: SeasonManager;
+
+  beforeEach(() => {
+    localStorage.clear();
+    currencyManager.reset();
+    chestManager.reset();
+    manager = new SeasonManager();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should have 30-50 tiers with rising XP and rewards on both tracks", () => {
+    const generated = manager.getActiveSeason(AFTER_AUTHORED_SEASONS)!;
+    for (const season of [...SEASONS, generated]) {
+      expect(season.tiers.length).toBeGreaterThanOrEqual(30);
+      expect(season.tiers.length).toBeLessThanOrEqual(50);
+      season.tiers.forEach((tier, index) => {
+        expect(tier.tier).toBe(index + 1);
+        expect(tier.xpRequired).toBe((index + 1) * SEASON_XP_PER_TIER);
+        expect(tier.free.length).toBeGreaterThan(0);
+        expect(tier.premium.length).toBeGreaterThan(0);
+      });
+    }
+  });
+
+  it("should run seasons back to back without overlaps", () => {
+    expect(new Set(SEASONS.map((season) => season.id)).size).toBe(SEASONS.length);
+    for (let i = 1; i < SEASONS.length; i++) {
+      expect(getSeasonStartTime(SEASONS[i])).toBeGreaterThanOrEqual(
+        getSeasonEndTime(SEASONS[i - 1]),
+      );
+    }
+    expect(manager.getActiveSeason(getSeasonEndTime(FIRST_SEASON) - 1)).toBe(FIRST_SEASON);
+    expect(manager.getActiveSeason(getSeasonEndTime(FIRST_SEASON))).toBe(SEASONS[1]);
+  });
+
+  describe("generated seasons", () => {
+    it("should follow the authored seasons back to back", () => {
+      const first = manager.getActiveSeason(AFTER_AUTHORED_SEASONS)!;
+      expect(first.id).toBe(`season_${SEASONS.length + 1}`);
+      expect(first.startDate).toBe(LAST_AUTHORED_SEASON.endDate);
+      expect(first.startDate.endsWith("-01")).toBe(true);
+
+      const second = manager.getActiveSeason(getSeasonEndTime(first))!;
+      expect(second.id).toBe(`season_${SEASONS.length + 2}`);
+      expect(second.startDate).toBe(first.endDate);
+      expect(second.name).not.toBe(first.name);
+      expect(new Date(second.endDate).getUTCMonth()).toBe(
+        (new Date(second.startDate).getUTCMonth() + GENERATED_SEASON_MONTHS) % 12,
+      );
+    });
+
+    it("should keep a season running years after the authored ones", () => {
+      const time = Date.UTC(2041, 6, 15);
+      const season = manager.getActiveSeason(time)!;
+
+      expect(getSeasonStartTime(season)).toBeLessThanOrEqual(time);
+      expect(getSeasonEndTime(season)).toBeGreaterThan(time);
+      expect(getSeasonDefinition(season.id)).toBe(season);
+      expect(getSeasonDefinition("season_999999")).toBeUndefined();
+    });
+
+    it("should persist progress in a generated season", () => {
+      manager.addXp(SEASON_XP_PER_TIER, AFTER_AUTHORED_SEASONS);
+
+      const reloaded = new SeasonManager();
+      expect(reloaded.getXp(AFTER_AUTHORED_SEASONS)).toBe(SEASON_XP_PER_TIER);
+      expect(reloaded.getCurrentTier(AFTER_AUTHORED_SEASONS)).toBe(1);
+    });
+
+    it("should name the next season for the off-season message", () => {
+      expect(getNextSeason(BEFORE_SEASONS)).toBe(FIRST_SEASON);
+      expect(getNextSeason(getSeasonStartTime(LAST_AUTHORED_SEASON))).toBe(
+        manager.getActiveSeason(AFTER_AUTHORED_SEASONS),
+      );
+    });
+  });
+
+  it("should earn XP from gameplay and missions", () => {
+    manager.recordEnemyKill(false, IN_SEASON);
+    manager.recordEnemyKill(true, IN_SEASON);
+    manager.recordRoomCleared(IN_SEASON);
+    manager.recordRunFinished(IN_SEASON);
+    manager.recordMissionClaimed("weekly", IN_SEASON);
+
+    expect(manager.getXp(IN_SEASON)).toBe(
+      SEASON_XP.enemyKill +
+        SEASON_XP.bossKill +
+        SEASON_XP.roomCleared +
+        SEASON_XP.runFinished +
+        SEASON_XP.missionClaimed.weekly,
+    );
+  });
+
+  it("should keep kill XP in memory until a room is cleared", () => {
+    manager.recordEnemyKill(true, IN_SEASON);
+    expect(manager.getXp(IN_SEASON)).toBe(SEASON_XP.bossKill);
+    expect(new SeasonManager().getXp(IN_SEASON)).toBe(0);
+
+    manager.recordRoomCleared(IN_SEASON);
+    expect(new SeasonManager().getXp(IN_SEASON)).toBe(SEASON_XP.bossKill + SEASON_XP.roomCleared);
+  });
+
+  it("should earn XP from run events", () => {
+    vi.useFakeTimers({ now: IN_SEASON, toFake: ["Date"] });
+    const events = new EventEmitter();
+    manager.listenToRunEvents(events);
+
+    events.emit(RUN_EVENTS.ENEMY_KILLED, { isBoss: true });
+    events.emit(RUN_EVENTS.ROOM_CLEARED, { flawless: true });
+    events.emit(RUN_EVENTS.RUN_FINISHED, { heroId: "atreus", goldEarned: 0 });
+
+    expect(manager.getXp(IN_SEASON)).toBe(
+      SEASON_XP.bossKill + SEASON_XP.roomCleared + SEASON_XP.runFinished,
+    );
+  });
+
+  it("should ignore XP between seasons", () => {
+    manager.addXp(1000, BEFORE_SEASONS);
+    expect(manager.getXp(BEFORE_SEASONS)).toBe(0);
+    expect(manager.getActiveSeason(BEFORE_SEASONS)).toBeUndefined();
+  });
+
+  it("should claim reached free tiers once", () => {
+    manager.addXp(SEASON_XP_PER_TIER * 2, IN_SEASON);
+    expect(manager.getCurrentTier(IN_SEASON)).toBe(2);
+    expect(manager.getClaimableCount(IN_SEASON)).toBe(2);
+
+    const result = manager.claimTier(1, "free", IN_SEASON);
+    expect(result.success).toBe(true);
+    expect(result.rewards).toEqual(FIRST_SEASON.tiers[0].free);
+    expect(currencyManager.get("gold")).toBe(FIRST_SEASON.tiers[0].free[0].amount);
+    expect(manager.claimTier(1, "free", IN_SEASON).error).toBe("Already claimed");
+    expect(manager.claimTier(3, "free", IN_SEASON).error).toBe("Tier not reached");
+  });
+
+  it("should require the mocked premium entitlement for the premium track", () => {
+    manager.addXp(SEASON_XP_PER_TIER * 5, IN_SEASON);
+    expect(manager.claimTier(5, "premium", IN_SEASON).error).toBe("Premium pass required");
+
+    manager.setPremiumEntitlement(true, IN_SEASON);
+    expect(manager.hasPremium(IN_SEASON)).toBe(true);
+    expect(manager.claimTier(5, "premium", IN_SEASON).success).toBe(true);
+    expect(chestManager.getChestCount("golden")).toBe(1);
+  });
+
+  it("should claim all reached tiers and add chests through ChestManager", () => {
+    manager.addXp(SEASON_XP_PER_TIER * 10, IN_SEASON);
+    const rewards = manager.claimAll(IN_SEASON);
+
+    expect(manager.getClaimableCount(IN_SEASON)).toBe(0);
+    expect(chestManager.getChestCount("silver")).toBe(1);
+    expect(chestManager.getChestCount("golden")).toBe(1);
+    expect(rewards.find((reward) => reward.chestType === "golden")?.amount).toBe(1);
+  });
+
+  it("should grant unclaimed rewards when the season ends", () => {
+    manager.setPremiumEntitlement(true, IN_SEASON);
+    manager.addXp(SEASON_XP_PER_TIER * 10, IN_SEASON);
+    manager.claimTier(10, "free", IN_SEASON);
+
+    expect(manager.getActiveSeason(NEXT_SEASON)).toBe(SEASONS[1]);
+    expect(manager.getXp(NEXT_SEASON)).toBe(0);
+    expect(manager.hasPremium(NEXT_SEASON)).toBe(false);
+
+    // Tier 10 free (1 golden) was claimed; premium tiers 5 (1) and 10 (2) roll over
+    expect(chestManager.getChestCount("golden")).toBe(4);
+    const rollover = manager.consumeRolloverResult();
+    expect(rollover?.seasonId).toBe(FIRST_SEASON.id);
+    expect(manager.consumeRolloverResult()).toBeNull();
+  });
+
+  it("should persist progress across instances", () => {
+    manager.addXp(1234, IN_SEASON);
+    manager.setPremiumEntitlement(true, IN_SEASON);
+
+    const reloaded = new SeasonManager();
+    expect(reloaded.getXp(IN_SEASON)).toBe(1234);
+    expect(reloaded.hasPremium(IN_SEASON)).toBe(true);
+  });
+
+  it("should merge rewards of the same kind", () => {
+    expect(
+      mergeRewards([
+        { type: "gold", amount: 100 },
+        { type: "chest", amount: 1, chestType: "silver" },
+        { type: "gold", amount: 50 },
+        { type: "chest", amount: 2, chestType: "silver" },
+      ]),
+    ).toEqual([
+      { type: "gold", amount: 150 },
+      { type: "chest", amount: 3, chestType: "silver" },
+    ]);
+  });
+});
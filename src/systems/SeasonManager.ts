@@ -0,0 +1,547 @@
+/**
+ * SeasonManager - Local season pass with a free and a premium reward track.
+ * Season XP comes from the run events (kills, room clears, finished runs) and
+ * claimed missions, both wired up at startup.
+ * Reached tiers are claimed per track; when a season ends, its unclaimed
+ * rewards are granted automatically and progress starts over in the next
+ * season. The premium track is a mocked entitlement flag (no IAP yet).
+ * Season dates and tier rewards live in seasonData, which keeps generating
+ * seasons after the authored ones; every time-based method takes currentTime
+ * so season boundaries can be tested.
+ */
+
+import { grantRewards, type Reward } from "./DailyRewardManager";
+import { storageService, STORAGE_KEYS } from "./storage";
+import { RUN_EVENTS, type RunEventSource } from "./RunEvents";
+import type { MissionPeriod } from "../config/missionData";
+import {
+  SEASON_XP,
+  SEASON_XP_PER_TIER,
+  getSeasonAt,
+  getSeasonDefinition,
+  getSeasonEndTime,
+  getTierForXp,
+  type SeasonDefinition,
+  type SeasonTier,
+  type SeasonTrack,
+} from "../config/seasonData";
+
+// ============================================
+// Types and Interfaces
+// ============================================
+
+/** Rewards granted when a season ended with unclaimed tiers */
+export interface SeasonRolloverResult {
+  seasonId: string;
+  seasonName: string;
+  rewards: Reward[];
+}
+
+/** Save data structure for persistence */
+export interface SeasonSaveData {
+  /** Season the progress belongs to */
+  seasonId: string | null;
+  xp: number;
+  /** Mocked premium pass entitlement for this season */
+  premium: boolean;
+  claimedFree: number[];
+  claimedPremium: number[];
+  /** Last rollover, kept until the UI has shown it */
+  lastRollover: SeasonRolloverResult | null;
+}
+
+/** A tier with its claim state */
+export interface SeasonTierStatus {
+  tier: SeasonTier;
+  isReached: boolean;
+  freeClaimed: boolean;
+  premiumClaimed: boolean;
+}
+
+/** Result of a claim attempt */
+export interface SeasonClaimResult {
+  success: boolean;
+  error?: string;
+  rewards?: Reward[];
+}
+
+/** Event types emitted by SeasonManager */
+export type SeasonEventType = "xpGained" | "tierReached" | "tierClaimed" | "seasonRolledOver";
+
+/** Event listener callback type */
+export type SeasonEventCallback = (data: SeasonEventData) => void;
+
+/** Event data passed to listeners */
+export interface SeasonEventData {
+  seasonId: string;
+  xp?: number;
+  tier?: number;
+  rollover?: SeasonRolloverResult;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Storage record key for season pass progress */
+const SEASON_STORAGE_KEY = STORAGE_KEYS.season;
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Keep only positive integer tier numbers (e.g. from save data)
+ */
+function sanitizeTierList(raw: unknown): number[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((tier): tier is number => Number.isInteger(tier) && tier > 0);
+}
+
+function isRolloverResult(value: unknown): value is SeasonRolloverResult {
+  if (!value || typeof value !== "object") return false;
+  const result = value as Record<string, unknown>;
+  return (
+    typeof result.seasonId === "string" &&
+    typeof result.seasonName === "string" &&
+    Array.isArray(result.rewards)
+  );
+}
+
+/**
+ * Combine rewards of the same kind (for summaries)
+ */
+export function mergeRewards(rewards: Reward[]): Reward[] {
+  const merged: Reward[] = [];
+  for (const reward of rewards) {
+    const existing = merged.find(
+      (entry) => entry.type === reward.type && entry.chestType === reward.chestType,
+    );
+    if (existing) {
+      existing.amount += reward.amount;
+    } else {
+      merged.push({ ...reward });
+    }
+  }
+  return merged;
+}
+
+// ============================================
+// SeasonManager Class
+// ============================================
+
+export class SeasonManager {
+  private seasonId: string | null = null;
+  private xp = 0;
+  private premium = false;
+  private claimedFree: number[] = [];
+  private claimedPremium: number[] = [];
+  private lastRollover: SeasonRolloverResult | null = null;
+  private eventListeners: Map<SeasonEventType, Set<SeasonEventCallback>> = new Map();
+
+  constructor() {
+    this.loadFromStorage();
+    storageService.register(SEASON_STORAGE_KEY, () => this.loadFromStorage());
+  }
+
+  // ============================================
+  // Persistence (StorageService)
+  // ============================================
+
+  /**
+   * Load season data from storage
+   */
+  private loadFromStorage(): void {
+    this.seasonId = null;
+    this.xp = 0;
+    this.premium = false;
+    this.claimedFree = [];
+    this.claimedPremium = [];
+    this.lastRollover = null;
+    try {
+      const data = storageService.get<SeasonSaveData>(SEASON_STORAGE_KEY);
+      if (!data) {
+        return;
+      }
+
+      this.seasonId =
+        typeof data.seasonId === "string" && getSeasonDefinition(data.seasonId)
+          ? data.seasonId
+          : null;
+      this.xp = typeof data.xp === "number" && data.xp > 0 ? Math.floor(data.xp) : 0;
+      this.premium = data.premium === true;
+      this.claimedFree = sanitizeTierList(data.claimedFree);
+      this.claimedPremium = sanitizeTierList(data.claimedPremium);
+      this.lastRollover = isRolloverResult(data.lastRollover) ? data.lastRollover : null;
+    } catch (error) {
+      console.warn("SeasonManager: Failed to load from storage:", error);
+    }
+  }
+
+  /**
+   * Save season data to storage
+   */
+  private saveToStorage(): void {
+    try {
+      const data: SeasonSaveData = {
+        seasonId: this.seasonId,
+        xp: this.xp,
+        premium: this.premium,
+        claimedFree: [...this.claimedFree],
+        claimedPremium: [...this.claimedPremium],
+        lastRollover: this.lastRollover,
+      };
+      storageService.set(SEASON_STORAGE_KEY, data);
+    } catch (error) {
+      console.warn("SeasonManager: Failed to save to storage:", error);
+    }
+  }
+
+  // ============================================
+  // Event System
+  // ============================================
+
+  /**
+   * Subscribe to season events
+   */
+  on(eventType: SeasonEventType, callback: SeasonEventCallback): void {
+    if (!this.eventListeners.has(eventType)) {
+      this.eventListeners.set(eventType, new Set());
+    }
+    this.eventListeners.get(eventType)!.add(callback);
+  }
+
+  /**
+   * Unsubscribe from season events
+   */
+  off(eventType: SeasonEventType, callback: SeasonEventCallback): void {
+    const listeners = this.eventListeners.get(eventType);
+    if (listeners) {
+      listeners.delete(callback);
+    }
+  }
+
+  /**
+   * Emit an event to all listeners
+   */
+  private emit(eventType: SeasonEventType, data: SeasonEventData): void {
+    const listeners = this.eventListeners.get(eventType);
+    if (listeners) {
+      listeners.forEach((callback) => callback(data));
+    }
+  }
+
+  // ============================================
+  // Season Rollover
+  // ============================================
+
+  /**
+   * Move progress to the season running now. When the stored season has
+   * ended, its reached but unclaimed rewards are granted first.
+   */
+  private checkSeason(currentTime: number): SeasonDefinition | undefined {
+    const activeSeason = getSeasonAt(currentTime);
+    const activeId = activeSeason?.id ?? null;
+    if (this.seasonId === activeId) {
+      return activeSeason;
+    }
+
+    storageService.transaction(() => {
+      const endedSeason = this.seasonId ? getSeasonDefinition(this.seasonId) : undefined;
+      if (endedSeason) {
+        this.rollOver(endedSeason);
+      }
+
+      this.seasonId = activeId;
+      this.xp = 0;
+      this.premium = false;
+      this.claimedFree = [];
+      this.claimedPremium = [];
+      this.saveToStorage();
+    });
+    return activeSeason;
+  }
+
+  /**
+   * Grant an ended season's unclaimed rewards
+   */
+  private rollOver(season: SeasonDefinition): void {
+    const rewards: Reward[] = [];
+    for (const status of this.getTierStatuses(season)) {
+      if (!status.isReached) continue;
+      if (!status.freeClaimed) {
+        rewards.push(...status.tier.free);
+      }
+      if (this.premium && !status.premiumClaimed) {
+        rewards.push(...status.tier.premium);
+      }
+    }
+    if (rewards.length === 0) {
+      return;
+    }
+
+    const rollover: SeasonRolloverResult = {
+      seasonId: season.id,
+      seasonName: season.name,
+      rewards: grantRewards(rewards),
+    };
+    this.lastRollover = rollover;
+    this.emit("seasonRolledOver", { seasonId: season.id, rollover });
+  }
+
+  /**
+   * Get and clear the last rollover, so the UI shows it once
+   */
+  consumeRolloverResult(): SeasonRolloverResult | null {
+    const rollover = this.lastRollover;
+    if (rollover) {
+      this.lastRollover = null;
+      this.saveToStorage();
+    }
+    return rollover;
+  }
+
+  // ============================================
+  // Season and Tiers
+  // ============================================
+
+  /**
+   * Get the season running now, if any
+   */
+  getActiveSeason(currentTime: number = Date.now()): SeasonDefinition | undefined {
+    return this.checkSeason(currentTime);
+  }
+
+  /**
+   * Get time until the active season ends (in milliseconds, 0 between seasons)
+   */
+  getTimeUntilSeasonEnd(currentTime: number = Date.now()): number {
+    const season = this.checkSeason(currentTime);
+    return season ? getSeasonEndTime(season) - currentTime : 0;
+  }
+
+  /**
+   * Season XP earned this season
+   */
+  getXp(currentTime: number = Date.now()): number {
+    this.checkSeason(currentTime);
+    return this.xp;
+  }
+
+  /**
+   * Highest tier reached this season (0 = none)
+   */
+  getCurrentTier(currentTime: number = Date.now()): number {
+    const season = this.checkSeason(currentTime);
+    return season ? getTierForXp(season, this.xp) : 0;
+  }
+
+  /**
+   * XP progress within the current tier, for progress bars
+   */
+  getTierProgress(currentTime: number = Date.now()): { current: number; required: number } {
+    const season = this.checkSeason(currentTime);
+    if (!season || getTierForXp(season, this.xp) >= season.tiers.length) {
+      return { current: SEASON_XP_PER_TIER, required: SEASON_XP_PER_TIER };
+    }
+    return { current: this.xp % SEASON_XP_PER_TIER, required: SEASON_XP_PER_TIER };
+  }
+
+  /**
+   * All tiers of the active season with their claim state
+   */
+  getTiers(currentTime: number = Date.now()): SeasonTierStatus[] {
+    const season = this.checkSeason(currentTime);
+    return season ? this.getTierStatuses(season) : [];
+  }
+
+  private getTierStatuses(season: SeasonDefinition): SeasonTierStatus[] {
+    return season.tiers.map((tier) => ({
+      tier,
+      isReached: this.xp >= tier.xpRequired,
+      freeClaimed: this.claimedFree.includes(tier.tier),
+      premiumClaimed: this.claimedPremium.includes(tier.tier),
+    }));
+  }
+
+  /**
+   * Number of rewards ready to claim (premium only counts with the pass)
+   */
+  getClaimableCount(currentTime: number = Date.now()): number {
+    return this.getTiers(currentTime).reduce(
+      (count, status) =>
+        count +
+        (status.isReached && !status.freeClaimed ? 1 : 0) +
+        (status.isReached && this.premium && !status.premiumClaimed ? 1 : 0),
+      0,
+    );
+  }
+
+  // ============================================
+  // Premium Entitlement (mocked)
+  // ============================================
+
+  /**
+   * Whether the premium track is unlocked this season
+   */
+  hasPremium(currentTime: number = Date.now()): boolean {
+    this.checkSeason(currentTime);
+    return this.premium;
+  }
+
+  /**
+   * Set the premium entitlement for this season. Mocked until IAP exists -
+   * there is no purchase behind it.
+   */
+  setPremiumEntitlement(enabled: boolean, currentTime: number = Date.now()): void {
+    if (!this.checkSeason(currentTime)) return;
+    this.premium = enabled;
+    this.saveToStorage();
+  }
+
+  // ============================================
+  // XP
+  // ============================================
+
+  /**
+   * Add season XP (ignored between seasons)
+   */
+  addXp(amount: number, currentTime: number = Date.now()): void {
+    if (this.gainXp(amount, currentTime)) {
+      this.saveToStorage();
+    }
+  }
+
+  /**
+   * Add season XP in memory only. Returns whether any XP was gained.
+   */
+  private gainXp(amount: number, currentTime: number): boolean {
+    const season = this.checkSeason(currentTime);
+    if (!season || amount <= 0) return false;
+
+    const previousTier = getTierForXp(season, this.xp);
+    this.xp += Math.floor(amount);
+
+    this.emit("xpGained", { seasonId: season.id, xp: this.xp });
+    const tier = getTierForXp(season, this.xp);
+    if (tier > previousTier) {
+      this.emit("tierReached", { seasonId: season.id, xp: this.xp, tier });
+    }
+    return true;
+  }
+
+  /**
+   * Earn season XP from a run's events (game.events, wired up at startup)
+   */
+  listenToRunEvents(events: RunEventSource): void {
+    events.on(RUN_EVENTS.ENEMY_KILLED, ({ isBoss }) => this.recordEnemyKill(isBoss));
+    events.on(RUN_EVENTS.ROOM_CLEARED, () => this.recordRoomCleared());
+    events.on(RUN_EVENTS.RUN_FINISHED, () => this.recordRunFinished());
+  }
+
+  /**
+   * Season XP for an enemy kill. Kills only update memory; the XP is saved
+   * with the next room clear or run end.
+   */
+  recordEnemyKill(isBoss: boolean, currentTime: number = Date.now()): void {
+    this.gainXp(isBoss ? SEASON_XP.bossKill : SEASON_XP.enemyKill, currentTime);
+  }
+
+  /**
+   * Season XP for a cleared room
+   */
+  recordRoomCleared(currentTime: number = Date.now()): void {
+    this.addXp(SEASON_XP.roomCleared, currentTime);
+  }
+
+  /**
+   * Season XP for a finished run
+   */
+  recordRunFinished(currentTime: number = Date.now()): void {
+    this.addXp(SEASON_XP.runFinished, currentTime);
+  }
+
+  /**
+   * Season XP for a claimed mission
+   */
+  recordMissionClaimed(period: MissionPeriod, currentTime: number = Date.now()): void {
+    this.addXp(SEASON_XP.missionClaimed[period], currentTime);
+  }
+
+  // ============================================
+  // Claiming
+  // ============================================
+
+  /**
+   * Claim one tier's reward on a track
+   */
+  claimTier(
+    tierNumber: number,
+    track: SeasonTrack,
+    currentTime: number = Date.now(),
+  ): SeasonClaimResult {
+    const season = this.checkSeason(currentTime);
+    const status = this.getTiers(currentTime).find((entry) => entry.tier.tier === tierNumber);
+    if (!season || !status) {
+      return { success: false, error: "Unknown tier" };
+    }
+    if (!status.isReached) {
+      return { success: false, error: "Tier not reached" };
+    }
+    if (track === "premium" && !this.premium) {
+      return { success: false, error: "Premium pass required" };
+    }
+    const claimed = track === "free" ? this.claimedFree : this.claimedPremium;
+    if (claimed.includes(tierNumber)) {
+      return { success: false, error: "Already claimed" };
+    }
+
+    return storageService.transaction(() => {
+      const rewards = grantRewards(status.tier[track]);
+      claimed.push(tierNumber);
+      this.saveToStorage();
+
+      this.emit("tierClaimed", { seasonId: season.id, tier: tierNumber });
+      return { success: true, rewards };
+    });
+  }
+
+  /**
+   * Claim every reached tier on both tracks (premium only with the pass)
+   */
+  claimAll(currentTime: number = Date.now()): Reward[] {
+    const rewards: Reward[] = [];
+    storageService.transaction(() => {
+      for (const status of this.getTiers(currentTime)) {
+        if (!status.isReached) continue;
+        for (const track of ["free", "premium"] as SeasonTrack[]) {
+          const result = this.claimTier(status.tier.tier, track, currentTime);
+          if (result.success && result.rewards) {
+            rewards.push(...result.rewards);
+          }
+        }
+      }
+    });
+    return mergeRewards(rewards);
+  }
+
+  /**
+   * Reset all season data (for testing)
+   */
+  reset(): void {
+    this.seasonId = null;
+    this.xp = 0;
+    this.premium = false;
+    this.claimedFree = [];
+    this.claimedPremium = [];
+    this.lastRollover = null;
+    this.saveToStorage();
+  }
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+/** Global singleton instance for use throughout the game */
+export const seasonManager = new SeasonManager();
@@ -0,0 +1,46 @@
+/**
+ * Unit tests for SeededRandom
+ */
+import { describe, it, expect } from "vitest";
+import { SeededRandom } from "./SeededRandom";
+
+describe("SeededRandom", () => {
+  it("should produce the same sequence for the same seed", () => {
+    const a = new SeededRandom(12345);
+    const b = new SeededRandom(12345);
+
+    for (let i = 0; i < 20; i++) {
+      expect(a.random()).toBe(b.random());
+    }
+  });
+
+  describe("normalizeSeed()", () => {
+    it("should accept seeds shown by getSeedString", () => {
+      const rng = new SeededRandom(987654321);
+      const seed = rng.getSeedString();
+
+      expect(SeededRandom.normalizeSeed(seed)).toBe(seed);
+      expect(SeededRandom.normalizeSeed(` ${seed.toLowerCase()} `)).toBe(seed);
+    });
+
+    it("should round-trip typed seeds through a run", () => {
+      const seed = SeededRandom.normalizeSeed("pizza")!;
+      const rng = new SeededRandom(SeededRandom.parseSeed(seed));
+
+      expect(seed).toBe("PIZZA");
+      expect(rng.getSeedString()).toBe(seed);
+    });
+
+    it("should drop leading zeros", () => {
+      expect(SeededRandom.normalizeSeed("00AB")).toBe("AB");
+    });
+
+    it("should reject invalid seeds", () => {
+      expect(SeededRandom.normalizeSeed("")).toBeNull();
+      expect(SeededRandom.normalizeSeed("0")).toBeNull();
+      expect(SeededRandom.normalizeSeed("AB-12")).toBeNull();
+      expect(SeededRandom.normalizeSeed("TOOLONG")).toBeNull();
+      expect(SeededRandom.normalizeSeed("ZZZZZZ")).toBeNull();
+    });
+  });
+});
@@ -194,6 +194,25 @@ export class SeededRandom {
     return Math.abs(hash) % 2147483647;
   }
 
+  /**
+   * Validate a seed typed by the player and return it in the form
+   * getSeedString() produces, or null if it isn't a shareable seed.
+   * Shareable seeds are 1-6 base-36 characters within the seed range, so the
+   * run started from them shows the same seed again.
+   */
+  static normalizeSeed(input: string): string | null {
+    const seed = input.trim().toUpperCase();
+    if (!/^[0-9A-Z]{1,6}$/.test(seed)) {
+      return null;
+    }
+
+    const value = parseInt(seed, 36);
+    if (value <= 0 || value > 2147483647) {
+      return null;
+    }
+    return value.toString(36).toUpperCase();
+  }
+
   /**
    * Generate a random seed (for creating new runs)
    */
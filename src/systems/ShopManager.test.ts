@@ -0,0 +1,190 @@
+/**
+ * Unit tests for ShopManager
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ShopManager } from "./ShopManager";
+import { currencyManager } from "./CurrencyManager";
+import { chestManager } from "./ChestManager";
+import { Rarity, type Equipment, type EquipmentSlotType } from "./Equipment";
+import {
+  DAILY_EQUIPMENT_OFFER_ID,
+  DAILY_OFFER_GEM_COSTS,
+  SHOP_LEDGER_LIMIT,
+  SHOP_OFFERS,
+  getShopOffer,
+} from "../config/shopData";
+
+const MORNING = new Date(2026, 2, 5, 9).getTime();
+const EVENING = new Date(2026, 2, 5, 21).getTime();
+const NEXT_DAY = new Date(2026, 2, 6, 9).getTime();
+
+function createTestItem(rarity: Rarity, slot: EquipmentSlotType): Equipment {
+  return {
+    id: "shop_item",
+    type: "brave_bow",
+    slot,
+    rarity,
+    level: 1,
+    baseStats: {},
+    perks: [],
+    setId: null,
+    locked: false,
+    name: "Brave Bow",
+    description: "",
+  } as unknown as Equipment;
+}
+
+describe("ShopManager", () => {
+  let manager: ShopManager;
+
+  beforeEach(() => {
+    localStorage.clear();
+    currencyManager.reset();
+    chestManager.reset();
+    currencyManager.add("gems", 1000);
+    manager = new ShopManager();
+  });
+
+  it("should spend gems and grant chest rewards", () => {
+    const result = manager.purchase("chest_silver", MORNING);
+
+    expect(result.success).toBe(true);
+    expect(currencyManager.get("gems")).toBe(1000 - getShopOffer("chest_silver")!.gemCost);
+    expect(chestManager.getChestCount("silver")).toBe(1);
+    expect(result.record).toMatchObject({ offerId: "chest_silver", purchasedAt: MORNING });
+  });
+
+  it("should refuse purchases the player cannot afford", () => {
+    currencyManager.reset();
+    const result = manager.purchase("chest_golden", MORNING);
+
+    expect(result).toEqual({ success: false, error: "Not enough gems" });
+    expect(chestManager.getChestCount("golden")).toBe(0);
+    expect(manager.getLedger()).toHaveLength(0);
+  });
+
+  it("should refuse energy offers while energy is full", () => {
+    currencyManager.add("energy", currencyManager.getMaxEnergy());
+    expect(manager.canPurchase("energy_small", MORNING)).toEqual({
+      canPurchase: false,
+      reason: "Energy is full",
+    });
+  });
+
+  describe("stock", () => {
+    it("should restock daily offers at local midnight", () => {
+      expect(manager.purchase("bundle_daily", MORNING).success).toBe(true);
+      expect(manager.getRemainingStock("bundle_daily", EVENING)).toBe(0);
+      expect(manager.purchase("bundle_daily", EVENING).error).toBe("Sold out");
+
+      expect(manager.getRemainingStock("bundle_daily", NEXT_DAY)).toBe(1);
+      expect(manager.purchase("bundle_daily", NEXT_DAY).success).toBe(true);
+    });
+
+    it("should never restock one-time bundles", () => {
+      expect(manager.purchase("bundle_starter", MORNING).success).toBe(true);
+      expect(manager.getRemainingStock("bundle_starter", NEXT_DAY)).toBe(0);
+    });
+
+    it("should report unlimited offers as null stock", () => {
+      expect(manager.getRemainingStock("chest_wooden", MORNING)).toBeNull();
+    });
+
+    it("should persist purchase counts", () => {
+      manager.purchase("bundle_daily", MORNING);
+      expect(new ShopManager().getRemainingStock("bundle_daily", EVENING)).toBe(0);
+    });
+
+    it("should emit shopRefreshed when the day changes", () => {
+      const listener = vi.fn();
+      manager.getRemainingStock("bundle_daily", MORNING);
+      manager.on("shopRefreshed", listener);
+
+      manager.getRemainingStock("bundle_daily", EVENING);
+      expect(listener).not.toHaveBeenCalled();
+      manager.getRemainingStock("bundle_daily", NEXT_DAY);
+      expect(listener).toHaveBeenCalledWith({ dayKey: "2026-03-06" });
+    });
+  });
+
+  describe("offers", () => {
+    it("should have unique offer ids with positive prices", () => {
+      const ids = SHOP_OFFERS.map((offer) => offer.id);
+      expect(new Set(ids).size).toBe(ids.length);
+      for (const offer of SHOP_OFFERS) {
+        expect(offer.gemCost).toBeGreaterThan(0);
+        expect(offer.rewards.length).toBeGreaterThan(0);
+        expect(offer.rewards.every((reward) => reward.type !== "chest" || reward.chestType)).toBe(
+          true,
+        );
+      }
+    });
+
+    it("should refresh at local midnight", () => {
+      const lateEvening = new Date(2026, 2, 5, 22, 30).getTime();
+      expect(manager.getTimeUntilRefresh(lateEvening)).toBe(90 * 60 * 1000);
+    });
+  });
+
+  describe("daily equipment offer", () => {
+    it("should offer the same item all day and rotate it across days", () => {
+      const offer = manager.getDailyEquipmentOffer(MORNING);
+      expect(manager.getDailyEquipmentOffer(EVENING)).toEqual(offer);
+      expect(offer.gemCost).toBe(DAILY_OFFER_GEM_COSTS[offer.rarity]);
+
+      const offers = new Set<string>();
+      for (let day = 1; day <= 28; day++) {
+        const dayOffer = manager.getDailyEquipmentOffer(new Date(2026, 1, day, 12).getTime());
+        offers.add(`${dayOffer.rarity}:${dayOffer.slot}`);
+      }
+      expect(offers.size).toBeGreaterThan(1);
+    });
+
+    it("should create the offered rarity and slot once per day", () => {
+      const offer = manager.getDailyEquipmentOffer(MORNING);
+      const createItem = vi.fn(createTestItem);
+
+      const result = manager.purchaseDailyEquipmentOffer(createItem, MORNING);
+      expect(result.success).toBe(true);
+      expect(createItem).toHaveBeenCalledWith(offer.rarity, offer.slot);
+      expect(currencyManager.get("gems")).toBe(1000 - offer.gemCost);
+      expect(result.record).toMatchObject({
+        offerId: DAILY_EQUIPMENT_OFFER_ID,
+        itemId: "shop_item",
+      });
+
+      expect(manager.purchaseDailyEquipmentOffer(createItem, EVENING).error).toBe("Sold out");
+      expect(createItem).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not create an item without enough gems", () => {
+      currencyManager.reset();
+      const createItem = vi.fn(createTestItem);
+
+      expect(manager.purchaseDailyEquipmentOffer(createItem, MORNING).success).toBe(false);
+      expect(createItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("ledger", () => {
+    it("should list purchases newest first and persist them", () => {
+      manager.purchase("chest_wooden", MORNING);
+      manager.purchase("chest_silver", EVENING);
+
+      const ledger = new ShopManager().getLedger();
+      expect(ledger.map((record) => record.offerId)).toEqual(["chest_silver", "chest_wooden"]);
+      expect(manager.getLedgerGemsSpent()).toBe(
+        getShopOffer("chest_wooden")!.gemCost + getShopOffer("chest_silver")!.gemCost,
+      );
+    });
+
+    it("should keep only the newest purchases", () => {
+      currencyManager.add("gems", 100000);
+      for (let i = 0; i <= SHOP_LEDGER_LIMIT; i++) {
+        manager.purchase("chest_wooden", MORNING + i);
+      }
+      expect(manager.getLedger()).toHaveLength(SHOP_LEDGER_LIMIT);
+      expect(manager.getLedger()[0].purchasedAt).toBe(MORNING + SHOP_LEDGER_LIMIT);
+    });
+  });
+});
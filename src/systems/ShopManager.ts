@@ -0,0 +1,418 @@
+/**
+ * ShopManager - Sells gem-priced chests, energy, bundles and a daily equipment offer.
+ * Tracks stock per offer (daily stock resets at local midnight, like daily
+ * rewards) and keeps a ledger of recent purchases. Every purchase spends gems
+ * through CurrencyManager and grants its rewards in one storage commit.
+ * Offer definitions, stock limits and the daily equipment roll live in shopData;
+ * the daily offer's item is built by a callback so EquipmentManager stays out.
+ */
+
+import { currencyManager } from "./CurrencyManager";
+import { grantRewards, type Reward } from "./DailyRewardManager";
+import type { Equipment, EquipmentSlotType, Rarity } from "./Equipment";
+import { storageService, STORAGE_KEYS } from "./storage";
+import {
+  DAILY_EQUIPMENT_OFFER_ID,
+  SHOP_LEDGER_LIMIT,
+  createDailyEquipmentOffer,
+  getShopDayKey,
+  getShopOffer,
+  getTimeUntilShopRefresh,
+  type DailyEquipmentOffer,
+} from "../config/shopData";
+
+// ============================================
+// Types and Interfaces
+// ============================================
+
+/** One completed purchase */
+export interface ShopPurchaseRecord {
+  id: string;
+  offerId: string;
+  name: string;
+  gemCost: number;
+  purchasedAt: number;
+  /** Equipment bought from the daily offer */
+  itemId?: string;
+}
+
+/** Save data structure for persistence */
+export interface ShopSaveData {
+  /** Local date the daily purchase counts belong to */
+  dayKey: string | null;
+  dailyPurchases: Record<string, number>;
+  lifetimePurchases: Record<string, number>;
+  /** Newest first */
+  ledger: ShopPurchaseRecord[];
+}
+
+/** Result of a purchase attempt */
+export interface ShopPurchaseResult {
+  success: boolean;
+  error?: string;
+  record?: ShopPurchaseRecord;
+  /** Rewards granted by a catalog offer */
+  rewards?: Reward[];
+  /** Item bought from the daily equipment offer */
+  item?: Equipment;
+}
+
+/** Event types emitted by ShopManager */
+export type ShopEventType = "purchaseCompleted" | "shopRefreshed";
+
+/** Event listener callback type */
+export type ShopEventCallback = (data: ShopEventData) => void;
+
+/** Event data passed to listeners */
+export interface ShopEventData {
+  dayKey: string;
+  record?: ShopPurchaseRecord;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Storage record key for shop stock and ledger */
+const SHOP_STORAGE_KEY = STORAGE_KEYS.shop;
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Keep only finite, positive purchase counts (e.g. from save data)
+ */
+function sanitizePurchaseCounts(raw: unknown): Record<string, number> {
+  const counts: Record<string, number> = {};
+  if (!raw || typeof raw !== "object") return counts;
+  for (const [id, count] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof count === "number" && Number.isFinite(count) && count > 0) {
+      counts[id] = Math.floor(count);
+    }
+  }
+  return counts;
+}
+
+function isShopPurchaseRecord(value: unknown): value is ShopPurchaseRecord {
+  if (!value || typeof value !== "object") return false;
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.id === "string" &&
+    typeof record.offerId === "string" &&
+    typeof record.name === "string" &&
+    typeof record.gemCost === "number" &&
+    typeof record.purchasedAt === "number"
+  );
+}
+
+// ============================================
+// ShopManager Class
+// ============================================
+
+export class ShopManager {
+  private dayKey: string | null = null;
+  private dailyPurchases: Record<string, number> = {};
+  private lifetimePurchases: Record<string, number> = {};
+  private ledger: ShopPurchaseRecord[] = [];
+  private eventListeners: Map<ShopEventType, Set<ShopEventCallback>> = new Map();
+
+  constructor() {
+    this.loadFromStorage();
+    storageService.register(SHOP_STORAGE_KEY, () => this.loadFromStorage());
+  }
+
+  // ============================================
+  // Persistence (StorageService)
+  // ============================================
+
+  /**
+   * Load shop data from storage
+   */
+  private loadFromStorage(): void {
+    this.dayKey = null;
+    this.dailyPurchases = {};
+    this.lifetimePurchases = {};
+    this.ledger = [];
+    try {
+      const data = storageService.get<ShopSaveData>(SHOP_STORAGE_KEY);
+      if (!data) {
+        return;
+      }
+
+      this.dayKey = typeof data.dayKey === "string" ? data.dayKey : null;
+      this.dailyPurchases = sanitizePurchaseCounts(data.dailyPurchases);
+      this.lifetimePurchases = sanitizePurchaseCounts(data.lifetimePurchases);
+      this.ledger = Array.isArray(data.ledger)
+        ? data.ledger.filter(isShopPurchaseRecord).slice(0, SHOP_LEDGER_LIMIT)
+        : [];
+    } catch (error) {
+      console.warn("ShopManager: Failed to load from storage:", error);
+    }
+  }
+
+  /**
+   * Save shop data to storage
+   */
+  private saveToStorage(): void {
+    try {
+      const data: ShopSaveData = {
+        dayKey: this.dayKey,
+        dailyPurchases: { ...this.dailyPurchases },
+        lifetimePurchases: { ...this.lifetimePurchases },
+        ledger: this.ledger,
+      };
+      storageService.set(SHOP_STORAGE_KEY, data);
+    } catch (error) {
+      console.warn("ShopManager: Failed to save to storage:", error);
+    }
+  }
+
+  // ============================================
+  // Event System
+  // ============================================
+
+  /**
+   * Subscribe to shop events
+   */
+  on(eventType: ShopEventType, callback: ShopEventCallback): void {
+    if (!this.eventListeners.has(eventType)) {
+      this.eventListeners.set(eventType, new Set());
+    }
+    this.eventListeners.get(eventType)!.add(callback);
+  }
+
+  /**
+   * Unsubscribe from shop events
+   */
+  off(eventType: ShopEventType, callback: ShopEventCallback): void {
+    const listeners = this.eventListeners.get(eventType);
+    if (listeners) {
+      listeners.delete(callback);
+    }
+  }
+
+  /**
+   * Emit an event to all listeners
+   */
+  private emit(eventType: ShopEventType, data: ShopEventData): void {
+    const listeners = this.eventListeners.get(eventType);
+    if (listeners) {
+      listeners.forEach((callback) => callback(data));
+    }
+  }
+
+  // ============================================
+  // Daily Refresh
+  // ============================================
+
+  /**
+   * Reset daily stock when the local day has changed since the last check
+   */
+  private checkRefresh(currentTime: number): void {
+    const dayKey = getShopDayKey(currentTime);
+    if (this.dayKey === dayKey) {
+      return;
+    }
+
+    this.dayKey = dayKey;
+    this.dailyPurchases = {};
+    this.saveToStorage();
+    this.emit("shopRefreshed", { dayKey });
+  }
+
+  /**
+   * Get time until the daily restock (in milliseconds)
+   */
+  getTimeUntilRefresh(currentTime: number = Date.now()): number {
+    return getTimeUntilShopRefresh(currentTime);
+  }
+
+  /**
+   * Get formatted time until the daily restock (HH:MM:SS)
+   */
+  getFormattedTimeUntilRefresh(currentTime: number = Date.now()): string {
+    const totalSeconds = Math.ceil(this.getTimeUntilRefresh(currentTime) / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+  }
+
+  // ============================================
+  // Stock
+  // ============================================
+
+  /**
+   * Purchases left of an offer in its restock period, or null if unlimited
+   */
+  getRemainingStock(offerId: string, currentTime: number = Date.now()): number | null {
+    this.checkRefresh(currentTime);
+    if (offerId === DAILY_EQUIPMENT_OFFER_ID) {
+      return Math.max(0, 1 - (this.dailyPurchases[offerId] ?? 0));
+    }
+
+    const offer = getShopOffer(offerId);
+    if (!offer || offer.stock === undefined) {
+      return null;
+    }
+    const counts = offer.restock === "never" ? this.lifetimePurchases : this.dailyPurchases;
+    return Math.max(0, offer.stock - (counts[offerId] ?? 0));
+  }
+
+  /**
+   * Check if a catalog offer can be bought right now
+   */
+  canPurchase(
+    offerId: string,
+    currentTime: number = Date.now(),
+  ): { canPurchase: boolean; reason?: string } {
+    const offer = getShopOffer(offerId);
+    if (!offer) {
+      return { canPurchase: false, reason: "Unknown offer" };
+    }
+    if (this.getRemainingStock(offerId, currentTime) === 0) {
+      return { canPurchase: false, reason: "Sold out" };
+    }
+    if (
+      offer.category === "energy" &&
+      currencyManager.get("energy") >= currencyManager.getMaxEnergy()
+    ) {
+      return { canPurchase: false, reason: "Energy is full" };
+    }
+    if (!currencyManager.canAfford("gems", offer.gemCost)) {
+      return { canPurchase: false, reason: "Not enough gems" };
+    }
+    return { canPurchase: true };
+  }
+
+  // ============================================
+  // Purchases
+  // ============================================
+
+  /**
+   * Buy a catalog offer: spend its gems and grant its rewards in one commit
+   */
+  purchase(offerId: string, currentTime: number = Date.now()): ShopPurchaseResult {
+    const check = this.canPurchase(offerId, currentTime);
+    const offer = getShopOffer(offerId);
+    if (!check.canPurchase || !offer) {
+      return { success: false, error: check.reason };
+    }
+
+    return storageService.transaction(() => {
+      if (!currencyManager.spend("gems", offer.gemCost)) {
+        return { success: false, error: "Not enough gems" };
+      }
+
+      const rewards = grantRewards(offer.rewards);
+      const record = this.recordPurchase(offer.id, offer.name, offer.gemCost, currentTime);
+      return { success: true, record, rewards };
+    });
+  }
+
+  /**
+   * Get today's equipment offer
+   */
+  getDailyEquipmentOffer(currentTime: number = Date.now()): DailyEquipmentOffer {
+    return createDailyEquipmentOffer(getShopDayKey(currentTime));
+  }
+
+  /**
+   * Buy today's equipment offer. createItem generates and stores the item
+   * (EquipmentManager.generateRandomEquipment), so this stays Phaser-free.
+   */
+  purchaseDailyEquipmentOffer(
+    createItem: (rarity: Rarity, slot: EquipmentSlotType) => Equipment,
+    currentTime: number = Date.now(),
+  ): ShopPurchaseResult {
+    const offer = this.getDailyEquipmentOffer(currentTime);
+    if (this.getRemainingStock(DAILY_EQUIPMENT_OFFER_ID, currentTime) === 0) {
+      return { success: false, error: "Sold out" };
+    }
+    if (!currencyManager.canAfford("gems", offer.gemCost)) {
+      return { success: false, error: "Not enough gems" };
+    }
+
+    return storageService.transaction(() => {
+      if (!currencyManager.spend("gems", offer.gemCost)) {
+        return { success: false, error: "Not enough gems" };
+      }
+
+      const item = createItem(offer.rarity, offer.slot);
+      const record = this.recordPurchase(
+        DAILY_EQUIPMENT_OFFER_ID,
+        item.name,
+        offer.gemCost,
+        currentTime,
+        item.id,
+      );
+      return { success: true, record, item };
+    });
+  }
+
+  /**
+   * Count a purchase against stock and add it to the ledger
+   */
+  private recordPurchase(
+    offerId: string,
+    name: string,
+    gemCost: number,
+    currentTime: number,
+    itemId?: string,
+  ): ShopPurchaseRecord {
+    const record: ShopPurchaseRecord = {
+      id: `${currentTime}_${offerId}_${this.ledger.length}`,
+      offerId,
+      name,
+      gemCost,
+      purchasedAt: currentTime,
+      ...(itemId && { itemId }),
+    };
+
+    this.dailyPurchases[offerId] = (this.dailyPurchases[offerId] ?? 0) + 1;
+    this.lifetimePurchases[offerId] = (this.lifetimePurchases[offerId] ?? 0) + 1;
+    this.ledger = [record, ...this.ledger].slice(0, SHOP_LEDGER_LIMIT);
+    this.saveToStorage();
+
+    this.emit("purchaseCompleted", { dayKey: this.dayKey ?? getShopDayKey(currentTime), record });
+    return record;
+  }
+
+  // ============================================
+  // Ledger
+  // ============================================
+
+  /**
+   * Recent purchases, newest first
+   */
+  getLedger(): readonly ShopPurchaseRecord[] {
+    return this.ledger;
+  }
+
+  /**
+   * Total gems spent across the ledger
+   */
+  getLedgerGemsSpent(): number {
+    return this.ledger.reduce((sum, record) => sum + record.gemCost, 0);
+  }
+
+  /**
+   * Reset all shop data (for testing)
+   */
+  reset(): void {
+    this.dayKey = null;
+    this.dailyPurchases = {};
+    this.lifetimePurchases = {};
+    this.ledger = [];
+    this.saveToStorage();
+  }
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+/** Global singleton instance for use throughout the game */
+export const shopManager = new ShopManager();
@@ -44,6 +44,8 @@ export interface EquipmentStats {
   dodgeChance?: number;
   bonusXPPercent?: number;
   goldBonusPercent?: number;
+  freezeChance?: number;
+  frozenDamagePercent?: number;
   weaponType?: string;
 }
 
@@ -59,6 +61,8 @@ export interface CalculatedPlayerStats {
   dodgeChance: number;
   bonusXPMultiplier: number;
   goldBonusMultiplier: number;
+  freezeChance: number;
+  frozenDamagePercent: number;
 }
 
 /**
@@ -164,6 +168,10 @@ export function calculatePlayerStats(
   const bonusXPMultiplier = 1 + (equipStats.bonusXPPercent ?? 0);
   const goldBonusMultiplier = 1 + (equipStats.goldBonusPercent ?? 0);
 
+  // Freeze bonuses (equipment sets)
+  const freezeChance = equipStats.freezeChance ?? 0;
+  const frozenDamagePercent = equipStats.frozenDamagePercent ?? 0;
+
   return {
     maxHealth: finalMaxHealth,
     baseDamage: finalDamage,
@@ -173,5 +181,7 @@ export function calculatePlayerStats(
     dodgeChance: totalDodgeChance,
     bonusXPMultiplier,
     goldBonusMultiplier,
+    freezeChance,
+    frozenDamagePercent,
   };
 }
@@ -4,6 +4,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { TalentManager } from "./TalentManager";
 import { TalentId, getTalent } from "../config/talentData";
+import { TalentTreeNodeId } from "../config/talentTreeData";
 
 // Mock localStorage
 const localStorageMock = (() => {
@@ -334,6 +335,8 @@ describe("TalentManager", () => {
       const partialData = {
         unlockedTalents: { [TalentId.IRON_WILL]: 1 },
         lotteryState: {} as { spinsToday: number; lastSpinDate: string },
+        mode: "lottery" as const,
+        treeRanks: {},
       };
 
       const newManager = new TalentManager();
@@ -353,6 +356,8 @@ describe("TalentManager", () => {
           spinsToday: 0,
           lastSpinDate: new Date().toISOString().split("T")[0],
         },
+        mode: "lottery" as const,
+        treeRanks: {},
       };
 
       const newManager = new TalentManager();
@@ -365,6 +370,63 @@ describe("TalentManager", () => {
     });
   });
 
+  describe("talent tree", () => {
+    it("should buy ranks with talent points and respect prerequisites", () => {
+      const spend = vi.fn(() => true);
+
+      const blocked = manager.unlockTreeNode(TalentTreeNodeId.QUICK_DRAW, 10, spend);
+      expect(blocked.success).toBe(false);
+      expect(blocked.error).toBe("Requires Sharpness");
+
+      const poor = manager.unlockTreeNode(TalentTreeNodeId.SHARPNESS, 0, spend);
+      expect(poor.success).toBe(false);
+      expect(spend).not.toHaveBeenCalled();
+
+      const result = manager.unlockTreeNode(TalentTreeNodeId.SHARPNESS, 10, spend);
+      expect(result).toMatchObject({ success: true, newRank: 1, pointsSpent: 1 });
+      expect(spend).toHaveBeenCalledWith(1);
+      expect(manager.getTreeRank(TalentTreeNodeId.SHARPNESS)).toBe(1);
+      expect(manager.getTreeNodeBlocker(TalentTreeNodeId.QUICK_DRAW)).toBeNull();
+    });
+
+    it("should only apply the active mode's bonuses", () => {
+      manager.forceUnlock(TalentId.HP_BOOST, 2);
+      manager.unlockTreeNode(TalentTreeNodeId.SHARPNESS, 10, () => true);
+
+      expect(manager.calculateTotalBonuses().flatHp).toBe(200);
+      expect(manager.calculateTotalBonuses().flatAttack).toBe(0);
+
+      manager.setMode("tree");
+      expect(manager.calculateTotalBonuses().flatHp).toBe(0);
+      expect(manager.calculateTotalBonuses().flatAttack).toBe(15);
+    });
+
+    it("should refund every spent point on respec for gold", () => {
+      manager.unlockTreeNode(TalentTreeNodeId.VITALITY, 10, () => true);
+      manager.unlockTreeNode(TalentTreeNodeId.TOUGHNESS, 10, () => true);
+      const cost = manager.getRespecCost();
+      const refund = vi.fn();
+
+      expect(manager.respecTree(cost - 1, () => true, refund).success).toBe(false);
+      expect(refund).not.toHaveBeenCalled();
+
+      const result = manager.respecTree(cost, () => true, refund);
+      expect(result).toEqual({ success: true, goldSpent: cost, pointsRefunded: 3 });
+      expect(refund).toHaveBeenCalledWith(3);
+      expect(manager.getTreePointsSpent()).toBe(0);
+      expect(manager.getRespecCost()).toBe(0);
+    });
+
+    it("should persist mode and tree ranks", () => {
+      manager.setMode("tree");
+      manager.unlockTreeNode(TalentTreeNodeId.TINKERER, 10, () => true);
+
+      const newManager = new TalentManager();
+      expect(newManager.getMode()).toBe("tree");
+      expect(newManager.getTreeRank(TalentTreeNodeId.TINKERER)).toBe(1);
+    });
+  });
+
   describe("reset()", () => {
     it("should reset all talents and lottery state", () => {
       manager.forceUnlock(TalentId.IRON_WILL, 3);
@@ -9,6 +9,7 @@
  * - Escalating spin costs (500 base, +250 per spin today)
  * - Daily spin limit (10 per day)
  * - Talent stacking (same talent can be rolled multiple times up to max level)
+ * - Optional talent tree mode: nodes bought with talent points, gold respec
  * - Persistent save/load support
  */
 
@@ -22,7 +23,21 @@ import {
   getTalentsByTier,
   getTalent,
   createDefaultBonuses,
+  applyTalentEffect,
 } from "../config/talentData";
+import {
+  TalentMode,
+  TalentTreeNode,
+  TalentTreeNodeId,
+  TalentTreeRanks,
+  calculateRespecCost,
+  calculateTreeBonuses,
+  getTreeNode,
+  getTreeNodeBlocker,
+  getTreePointsSpent,
+  sanitizeTreeRanks,
+} from "../config/talentTreeData";
+import { storageService, STORAGE_KEYS } from "./storage";
 
 // ============================================
 // Type Definitions
@@ -39,6 +54,27 @@ export interface SpinResult {
   error?: string;
 }
 
+/**
+ * Result of buying a talent tree rank
+ */
+export interface TreeUnlockResult {
+  success: boolean;
+  node?: TalentTreeNode;
+  newRank?: number;
+  pointsSpent?: number;
+  error?: string;
+}
+
+/**
+ * Result of a talent tree respec
+ */
+export interface RespecResult {
+  success: boolean;
+  goldSpent?: number;
+  pointsRefunded?: number;
+  error?: string;
+}
+
 /**
  * Lottery state for tracking daily limits
  */
@@ -55,6 +91,10 @@ export interface TalentSaveData {
   unlockedTalents: Record<string, number>;
   /** Lottery state for daily limits */
   lotteryState: LotteryState;
+  /** Active talent mode */
+  mode: TalentMode;
+  /** Talent tree rank per node */
+  treeRanks: Record<string, number>;
 }
 
 /**
@@ -64,7 +104,10 @@ export type TalentEventType =
   | "talentUnlocked"
   | "talentUpgraded"
   | "spinFailed"
-  | "dailyLimitReached";
+  | "dailyLimitReached"
+  | "modeChanged"
+  | "treeNodeUnlocked"
+  | "treeRespec";
 
 /**
  * Event callback data
@@ -75,6 +118,9 @@ export interface TalentEventData {
   newLevel?: number;
   goldSpent?: number;
   error?: string;
+  mode?: TalentMode;
+  treeNode?: TalentTreeNode;
+  pointsRefunded?: number;
 }
 
 /**
@@ -86,8 +132,8 @@ export type TalentEventCallback = (data: TalentEventData) => void;
 // Constants
 // ============================================
 
-/** localStorage key for talent data persistence */
-const TALENT_STORAGE_KEY = "aura_archer_talent_data";
+/** Storage record key for talent data persistence */
+const TALENT_STORAGE_KEY = STORAGE_KEYS.talents;
 
 /** Base cost for lottery spin in gold */
 const BASE_SPIN_COST = 500;
@@ -115,12 +161,19 @@ export class TalentManager {
   /** Cached bonuses (recalculated when talents change) */
   private cachedBonuses: TalentBonuses | null = null;
 
+  /** Which talent system grants bonuses */
+  private mode: TalentMode = "lottery";
+
+  /** Talent tree rank per node */
+  private treeRanks: TalentTreeRanks = {};
+
   constructor() {
     this.unlockedTalents = new Map();
     this.lotteryState = this.createFreshLotteryState();
     this.eventListeners = new Map();
     // Load saved data on construction
     this.loadFromStorage();
+    storageService.register(TALENT_STORAGE_KEY, () => this.loadFromStorage());
   }
 
   // ============================================
@@ -218,122 +271,125 @@ export class TalentManager {
    * @returns SpinResult with outcome
    */
   spin(goldBalance: number, spendGold: (amount: number) => boolean): SpinResult {
-    this.updateDailyState();
-
-    // Check if all talents are maxed
-    if (this.areAllTalentsMaxed()) {
-      const result: SpinResult = {
-        success: false,
-        error: "All talents are at max level",
-      };
-      this.emit("spinFailed", { type: "spinFailed", error: result.error });
-      return result;
-    }
-
-    // Check daily limit
-    if (this.getSpinsRemaining() <= 0) {
-      const result: SpinResult = {
-        success: false,
-        error: "Daily spin limit reached",
-      };
-      this.emit("dailyLimitReached", { type: "dailyLimitReached", error: result.error });
-      return result;
-    }
+    // Gold spend and talent roll are persisted together
+    return storageService.transaction(() => {
+      this.updateDailyState();
 
-    const cost = this.getSpinCost();
-
-    // Check if can afford
-    if (goldBalance < cost) {
-      const result: SpinResult = {
-        success: false,
-        error: `Not enough gold. Need ${cost}, have ${goldBalance}`,
-      };
-      this.emit("spinFailed", { type: "spinFailed", error: result.error });
-      return result;
-    }
+      // Check if all talents are maxed
+      if (this.areAllTalentsMaxed()) {
+        const result: SpinResult = {
+          success: false,
+          error: "All talents are at max level",
+        };
+        this.emit("spinFailed", { type: "spinFailed", error: result.error });
+        return result;
+      }
 
-    // Spend gold
-    if (!spendGold(cost)) {
-      const result: SpinResult = {
-        success: false,
-        error: "Failed to spend gold",
-      };
-      this.emit("spinFailed", { type: "spinFailed", error: result.error });
-      return result;
-    }
+      // Check daily limit
+      if (this.getSpinsRemaining() <= 0) {
+        const result: SpinResult = {
+          success: false,
+          error: "Daily spin limit reached",
+        };
+        this.emit("dailyLimitReached", { type: "dailyLimitReached", error: result.error });
+        return result;
+      }
 
-    // Increment spins today
-    this.lotteryState.spinsToday++;
-    // Save lottery state immediately to persist spin count
-    this.saveToStorage();
+      const cost = this.getSpinCost();
 
-    // Roll for talent
-    const talent = this.rollRandomTalent();
-    const currentLevel = this.getTalentLevel(talent.id);
-    const newLevel = Math.min(currentLevel + 1, talent.maxLevel);
+      // Check if can afford
+      if (goldBalance < cost) {
+        const result: SpinResult = {
+          success: false,
+          error: `Not enough gold. Need ${cost}, have ${goldBalance}`,
+        };
+        this.emit("spinFailed", { type: "spinFailed", error: result.error });
+        return result;
+      }
 
-    // Check if at max level
-    if (currentLevel >= talent.maxLevel) {
-      // Re-roll until we get a non-maxed talent, or return duplicate if all maxed
-      const upgradableTalent = this.getUpgradableTalent();
-      if (upgradableTalent) {
-        const actualNewLevel = this.getTalentLevel(upgradableTalent.id) + 1;
-        this.unlockedTalents.set(upgradableTalent.id, actualNewLevel);
-        this.invalidateBonusCache();
-        this.saveToStorage();
+      // Spend gold
+      if (!spendGold(cost)) {
+        const result: SpinResult = {
+          success: false,
+          error: "Failed to spend gold",
+        };
+        this.emit("spinFailed", { type: "spinFailed", error: result.error });
+        return result;
+      }
 
-        const isNew = actualNewLevel === 1;
-        const eventType = isNew ? "talentUnlocked" : "talentUpgraded";
+      // Increment spins today
+      this.lotteryState.spinsToday++;
+      // Save lottery state immediately to persist spin count
+      this.saveToStorage();
 
-        const result: SpinResult = {
+      // Roll for talent
+      const talent = this.rollRandomTalent();
+      const currentLevel = this.getTalentLevel(talent.id);
+      const newLevel = Math.min(currentLevel + 1, talent.maxLevel);
+
+      // Check if at max level
+      if (currentLevel >= talent.maxLevel) {
+        // Re-roll until we get a non-maxed talent, or return duplicate if all maxed
+        const upgradableTalent = this.getUpgradableTalent();
+        if (upgradableTalent) {
+          const actualNewLevel = this.getTalentLevel(upgradableTalent.id) + 1;
+          this.unlockedTalents.set(upgradableTalent.id, actualNewLevel);
+          this.invalidateBonusCache();
+          this.saveToStorage();
+
+          const isNew = actualNewLevel === 1;
+          const eventType = isNew ? "talentUnlocked" : "talentUpgraded";
+
+          const result: SpinResult = {
+            success: true,
+            talent: upgradableTalent,
+            newLevel: actualNewLevel,
+            goldSpent: cost,
+          };
+
+          this.emit(eventType, {
+            type: eventType,
+            talent: upgradableTalent,
+            newLevel: actualNewLevel,
+            goldSpent: cost,
+          });
+
+          return result;
+        }
+        // All talents maxed - still consume the spin but no upgrade
+        return {
           success: true,
-          talent: upgradableTalent,
-          newLevel: actualNewLevel,
+          talent,
+          newLevel: currentLevel,
           goldSpent: cost,
+          error: "Talent already at max level (all talents maxed)",
         };
+      }
 
-        this.emit(eventType, {
-          type: eventType,
-          talent: upgradableTalent,
-          newLevel: actualNewLevel,
-          goldSpent: cost,
-        });
+      // Upgrade the talent
+      this.unlockedTalents.set(talent.id, newLevel);
+      this.invalidateBonusCache();
+      this.saveToStorage();
 
-        return result;
-      }
-      // All talents maxed - still consume the spin but no upgrade
-      return {
+      const isNew = newLevel === 1;
+      const eventType = isNew ? "talentUnlocked" : "talentUpgraded";
+
+      const result: SpinResult = {
         success: true,
         talent,
-        newLevel: currentLevel,
+        newLevel,
         goldSpent: cost,
-        error: "Talent already at max level (all talents maxed)",
       };
-    }
 
-    // Upgrade the talent
-    this.unlockedTalents.set(talent.id, newLevel);
-    this.invalidateBonusCache();
-    this.saveToStorage();
-
-    const isNew = newLevel === 1;
-    const eventType = isNew ? "talentUnlocked" : "talentUpgraded";
-
-    const result: SpinResult = {
-      success: true,
-      talent,
-      newLevel,
-      goldSpent: cost,
-    };
+      this.emit(eventType, {
+        type: eventType,
+        talent,
+        newLevel,
+        goldSpent: cost,
+      });
 
-    this.emit(eventType, {
-      type: eventType,
-      talent,
-      newLevel,
-      goldSpent: cost,
+      return result;
     });
-
-    return result;
   }
 
   /**
@@ -431,12 +487,158 @@ export class TalentManager {
     return result;
   }
 
+  // ============================================
+  // Talent Tree
+  // ============================================
+
+  /**
+   * Get the active talent mode
+   */
+  getMode(): TalentMode {
+    return this.mode;
+  }
+
+  /**
+   * Switch between the lottery and the tree. Progress in both is kept;
+   * only the active mode's bonuses apply.
+   */
+  setMode(mode: TalentMode): void {
+    if (this.mode === mode) return;
+    this.mode = mode;
+    this.invalidateBonusCache();
+    this.saveToStorage();
+    this.emit("modeChanged", { type: "modeChanged", mode });
+  }
+
+  /**
+   * Get the current rank of a tree node
+   */
+  getTreeRank(nodeId: TalentTreeNodeId): number {
+    return this.treeRanks[nodeId] ?? 0;
+  }
+
+  /**
+   * Get all tree ranks
+   */
+  getTreeRanks(): TalentTreeRanks {
+    return { ...this.treeRanks };
+  }
+
+  /**
+   * Get the talent points spent in the tree
+   */
+  getTreePointsSpent(): number {
+    return getTreePointsSpent(this.treeRanks);
+  }
+
+  /**
+   * Why the next rank of a node can't be bought (max rank, missing
+   * prerequisites), or null if it can
+   */
+  getTreeNodeBlocker(nodeId: TalentTreeNodeId): string | null {
+    return getTreeNodeBlocker(this.treeRanks, nodeId);
+  }
+
+  /**
+   * Buy the next rank of a tree node
+   * @param talentPoints Current talent point balance
+   * @param spendPoints Function to spend talent points (returns true if successful)
+   */
+  unlockTreeNode(
+    nodeId: TalentTreeNodeId,
+    talentPoints: number,
+    spendPoints: (amount: number) => boolean,
+  ): TreeUnlockResult {
+    // Point spend and rank are persisted together
+    return storageService.transaction(() => {
+      const node = getTreeNode(nodeId);
+      const blocker = this.getTreeNodeBlocker(nodeId);
+      if (blocker) {
+        return { success: false, node, error: blocker };
+      }
+
+      if (talentPoints < node.cost) {
+        return {
+          success: false,
+          node,
+          error: `Not enough talent points. Need ${node.cost}, have ${talentPoints}`,
+        };
+      }
+
+      if (!spendPoints(node.cost)) {
+        return { success: false, node, error: "Failed to spend talent points" };
+      }
+
+      const newRank = this.getTreeRank(nodeId) + 1;
+      this.treeRanks[nodeId] = newRank;
+      this.invalidateBonusCache();
+      this.saveToStorage();
+
+      this.emit("treeNodeUnlocked", {
+        type: "treeNodeUnlocked",
+        treeNode: node,
+        newLevel: newRank,
+      });
+
+      return { success: true, node, newRank, pointsSpent: node.cost };
+    });
+  }
+
+  /**
+   * Get the gold cost of a respec
+   */
+  getRespecCost(): number {
+    return calculateRespecCost(this.getTreePointsSpent());
+  }
+
+  /**
+   * Reset the tree and refund every spent talent point for gold
+   * @param goldBalance Current gold balance
+   * @param spendGold Function to spend gold (returns true if successful)
+   * @param refundPoints Function to give the spent talent points back
+   */
+  respecTree(
+    goldBalance: number,
+    spendGold: (amount: number) => boolean,
+    refundPoints: (amount: number) => void,
+  ): RespecResult {
+    // Gold spend, refund and reset are persisted together
+    return storageService.transaction(() => {
+      const pointsSpent = this.getTreePointsSpent();
+      if (pointsSpent === 0) {
+        return { success: false, error: "No talent points to refund" };
+      }
+
+      const cost = this.getRespecCost();
+      if (goldBalance < cost) {
+        return { success: false, error: `Not enough gold. Need ${cost}, have ${goldBalance}` };
+      }
+
+      if (!spendGold(cost)) {
+        return { success: false, error: "Failed to spend gold" };
+      }
+
+      refundPoints(pointsSpent);
+      this.treeRanks = {};
+      this.invalidateBonusCache();
+      this.saveToStorage();
+
+      this.emit("treeRespec", {
+        type: "treeRespec",
+        goldSpent: cost,
+        pointsRefunded: pointsSpent,
+      });
+
+      return { success: true, goldSpent: cost, pointsRefunded: pointsSpent };
+    });
+  }
+
   // ============================================
   // Bonus Calculations
   // ============================================
 
   /**
-   * Calculate total bonuses from all unlocked talents
+   * Calculate total bonuses from the active mode (lottery talents or tree nodes)
    * Results are cached until talents change
    */
   calculateTotalBonuses(): TalentBonuses {
@@ -444,46 +646,23 @@ export class TalentManager {
       return this.cachedBonuses;
     }
 
+    if (this.mode === "tree") {
+      this.cachedBonuses = calculateTreeBonuses(this.treeRanks);
+      return this.cachedBonuses;
+    }
+
     const bonuses = createDefaultBonuses();
 
     for (const [talentId, level] of this.unlockedTalents) {
       if (level <= 0) continue;
 
       const talent = getTalent(talentId);
-      const bonus = level * talent.effectPerLevel;
-
-      switch (talent.effectType) {
-        case "flat_hp":
-          bonuses.flatHp += bonus;
-          break;
-        case "flat_attack":
-          bonuses.flatAttack += bonus;
-          break;
-        case "percent_damage_reduction":
-          bonuses.percentDamageReduction += bonus;
-          break;
-        case "percent_attack_speed":
-          bonuses.percentAttackSpeed += bonus;
-          break;
-        case "flat_heal_on_level":
-          bonuses.flatHealOnLevel += bonus;
-          break;
-        case "percent_crit_chance":
-          bonuses.percentCritChance += bonus;
-          break;
-        case "percent_equipment_stats":
-          bonuses.percentEquipmentStats += bonus;
-          break;
-        case "starting_abilities":
-          bonuses.startingAbilities += bonus;
-          break;
-        case "percent_hp_when_low":
-          bonuses.percentHpWhenLow += bonus;
-          if (talent.threshold) {
-            bonuses.lowHpThreshold = talent.threshold;
-          }
-          break;
-      }
+      applyTalentEffect(
+        bonuses,
+        talent.effectType,
+        level * talent.effectPerLevel,
+        talent.threshold,
+      );
     }
 
     this.cachedBonuses = bonuses;
@@ -544,6 +723,8 @@ export class TalentManager {
     return {
       unlockedTalents,
       lotteryState: { ...this.lotteryState },
+      mode: this.mode,
+      treeRanks: { ...this.treeRanks },
     };
   }
 
@@ -574,6 +755,10 @@ export class TalentManager {
       this.lotteryState = this.createFreshLotteryState();
     }
 
+    // Load talent tree (defaulted by the talents v2 migration)
+    this.mode = data.mode;
+    this.treeRanks = sanitizeTreeRanks(data.treeRanks);
+
     // Update daily state in case day changed since last save
     this.updateDailyState();
 
@@ -582,11 +767,13 @@ export class TalentManager {
   }
 
   /**
-   * Reset all talents and lottery state
+   * Reset all talents, lottery state and the talent tree
    */
   reset(): void {
     this.unlockedTalents.clear();
     this.lotteryState = this.createFreshLotteryState();
+    this.mode = "lottery";
+    this.treeRanks = {};
     this.invalidateBonusCache();
     this.saveToStorage();
   }
@@ -632,29 +819,33 @@ export class TalentManager {
   }
 
   // ============================================
-  // LocalStorage Persistence
+  // Storage Persistence
   // ============================================
 
   /**
-   * Save talent data to localStorage
+   * Save talent data to storage
    */
   private saveToStorage(): void {
     try {
       const data = this.toSaveData();
-      localStorage.setItem(TALENT_STORAGE_KEY, JSON.stringify(data));
+      storageService.set(TALENT_STORAGE_KEY, data);
     } catch (error) {
       console.error("TalentManager: Failed to save data:", error);
     }
   }
 
   /**
-   * Load talent data from localStorage
+   * Load talent data from storage
    */
   private loadFromStorage(): void {
+    this.unlockedTalents = new Map();
+    this.lotteryState = this.createFreshLotteryState();
+    this.mode = "lottery";
+    this.treeRanks = {};
+    this.cachedBonuses = null;
     try {
-      const stored = localStorage.getItem(TALENT_STORAGE_KEY);
-      if (stored) {
-        const data = JSON.parse(stored) as TalentSaveData;
+      const data = storageService.get<TalentSaveData>(TALENT_STORAGE_KEY);
+      if (data) {
         this.fromSaveData(data);
         console.log(`TalentManager: Loaded ${this.unlockedTalents.size} talents from storage`);
       }
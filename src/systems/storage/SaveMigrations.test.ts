@@ -0,0 +1,163 @@
+/**
+ * Unit tests for the save migration pipeline
+ *
+ * Every archived save under fixtures/ (`<name>.save.json`) is migrated record by
+ * record and compared against `<name>.expected.json`. When a schema version is
+ * bumped, archive a save from the previous version here.
+ */
+import { describe, it, expect } from "vitest";
+import { SaveRecord, SaveSchema, getRecordVersion, migrateRecord } from "./SaveMigrations";
+import { SAVE_SCHEMAS, STORAGE_KEYS, StorageKey } from "./SaveSchemas";
+import { StorageService } from "./StorageService";
+import { MemoryStorageBackend } from "./StorageBackend";
+
+interface ArchivedSave {
+  description: string;
+  records: Record<string, SaveRecord>;
+}
+
+const archivedSaves = import.meta.glob<ArchivedSave>("./fixtures/*.save.json", {
+  eager: true,
+  import: "default",
+});
+const expectedResults = import.meta.glob<Record<string, SaveRecord>>("./fixtures/*.expected.json", {
+  eager: true,
+  import: "default",
+});
+
+const fixtureNames = Object.keys(archivedSaves).map((path) =>
+  path.replace("./fixtures/", "").replace(".save.json", ""),
+);
+
+describe("SaveMigrations", () => {
+  describe("migrateRecord()", () => {
+    const schema: SaveSchema = {
+      version: 3,
+      baseVersion: 0,
+      migrations: {
+        1: (data) => ({ ...data, steps: ["v1"] }),
+        2: (data) => ({ ...data, steps: [...(data.steps as string[]), "v2"] }),
+        3: (data) => ({ ...data, steps: [...(data.steps as string[]), "v3"] }),
+      },
+    };
+
+    it("should apply migrations in order from the record's version", () => {
+      expect(migrateRecord(schema, {})).toEqual({ steps: ["v1", "v2", "v3"], version: 3 });
+      expect(migrateRecord(schema, { version: 2, steps: ["old"] })).toEqual({
+        steps: ["old", "v3"],
+        version: 3,
+      });
+    });
+
+    it("should return current records unchanged", () => {
+      const record = { version: 3, steps: [] };
+      expect(migrateRecord(schema, record)).toBe(record);
+    });
+
+    it("should not mutate the input record", () => {
+      const record = { version: 2, steps: ["old"] };
+      migrateRecord(schema, record);
+      expect(record).toEqual({ version: 2, steps: ["old"] });
+    });
+
+    it("should reject records from a newer build", () => {
+      expect(() => migrateRecord(schema, { version: 4 })).toThrow(/newer than supported/);
+    });
+
+    it("should reject a pipeline with a missing step", () => {
+      const broken: SaveSchema = { version: 2, baseVersion: 0, migrations: { 1: (d) => d } };
+      expect(() => migrateRecord(broken, {})).toThrow(/Missing migration to v2/);
+    });
+
+    it("should skip steps up to the base version", () => {
+      const based: SaveSchema = { version: 1, baseVersion: 1, migrations: {} };
+      expect(migrateRecord(based, { gold: 5 })).toEqual({ gold: 5, version: 1 });
+    });
+  });
+
+  describe("schemas", () => {
+    it("should define a schema for every storage key", () => {
+      for (const key of Object.values(STORAGE_KEYS)) {
+        expect(SAVE_SCHEMAS[key], key).toBeDefined();
+      }
+    });
+
+    it("should have a migration for every step above the base version", () => {
+      for (const [key, schema] of Object.entries(SAVE_SCHEMAS)) {
+        for (let v = schema.baseVersion + 1; v <= schema.version; v++) {
+          expect(schema.migrations[v], `${key} v${v}`).toBeTypeOf("function");
+        }
+      }
+    });
+
+    it("should have an archived fixture for every past version of every record", () => {
+      const archivedVersions = new Map<string, Set<number>>();
+      for (const save of Object.values(archivedSaves)) {
+        for (const [key, record] of Object.entries(save.records)) {
+          const versions = archivedVersions.get(key) ?? new Set();
+          versions.add(getRecordVersion(record));
+          archivedVersions.set(key, versions);
+        }
+      }
+
+      for (const [key, schema] of Object.entries(SAVE_SCHEMAS)) {
+        for (let v = schema.baseVersion; v < schema.version; v++) {
+          expect(archivedVersions.get(key)?.has(v), `${key} v${v} fixture`).toBe(true);
+        }
+      }
+    });
+  });
+
+  describe.each(fixtureNames)("archived save %s", (name) => {
+    const save = archivedSaves[`./fixtures/${name}.save.json`];
+    const expected = expectedResults[`./fixtures/${name}.expected.json`];
+
+    it("should have an expected result for every record", () => {
+      expect(expected).toBeDefined();
+      expect(Object.keys(expected).sort()).toEqual(Object.keys(save.records).sort());
+    });
+
+    it.each(Object.keys(save.records))("should migrate %s", (key) => {
+      const schema = SAVE_SCHEMAS[key as StorageKey];
+      expect(schema).toBeDefined();
+
+      const migrated = migrateRecord(schema, save.records[key]);
+
+      expect(migrated).toEqual(expected[key]);
+      expect(migrated.version).toBe(schema.version);
+    });
+
+    it("should leave the migrated result unchanged on a second pass", () => {
+      for (const [key, record] of Object.entries(expected)) {
+        expect(migrateRecord(SAVE_SCHEMAS[key as StorageKey], record)).toBe(record);
+      }
+    });
+
+    it("should migrate on read through StorageService and persist the result", () => {
+      const initial: Record<string, string> = {};
+      for (const [key, record] of Object.entries(save.records)) {
+        initial[key] = JSON.stringify(record);
+      }
+      const backend = new MemoryStorageBackend(initial);
+      const service = new StorageService(backend, SAVE_SCHEMAS);
+
+      for (const key of Object.keys(save.records)) {
+        expect(service.get(key)).toEqual(expected[key]);
+        expect(JSON.parse(backend.read(key)!)).toEqual(expected[key]);
+      }
+    });
+  });
+
+  describe("StorageService version stamping", () => {
+    it("should stamp the current version on write", () => {
+      const backend = new MemoryStorageBackend();
+      const service = new StorageService(backend, SAVE_SCHEMAS);
+
+      service.set(STORAGE_KEYS.chests, { inventory: { wooden: 1, silver: 0, golden: 0 } });
+
+      expect(JSON.parse(backend.read(STORAGE_KEYS.chests)!).version).toBe(
+        SAVE_SCHEMAS[STORAGE_KEYS.chests].version,
+      );
+    });
+  });
+});
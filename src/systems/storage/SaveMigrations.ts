@@ -0,0 +1,118 @@
+/**
+ * SaveMigrations - Ordered, versioned migration pipeline for save records
+ *
+ * Every storage record has a schema with a current version and one migration
+ * per version step. StorageService runs records through `migrateRecord()` on
+ * read and stamps the current version on write.
+ *
+ * Adding a migration:
+ * 1. Bump `version` in the record's schema
+ * 2. Add a migration keyed by the new version (it receives the previous version's shape)
+ * 3. Archive a save from the previous version under `fixtures/` with its expected result
+ */
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * A persisted record as stored on disk (shape depends on its version)
+ */
+export type SaveRecord = Record<string, unknown> & { version?: number };
+
+/**
+ * Migrates a record from (version - 1) to (version)
+ */
+export type RecordMigration = (data: SaveRecord) => SaveRecord;
+
+/**
+ * Versioning schema for one storage record
+ */
+export interface SaveSchema {
+  /** Current version written by this build */
+  version: number;
+  /**
+   * Oldest version ever written for this record. Records without a version
+   * field are treated as version 0; versions up to the base need no migration.
+   */
+  baseVersion: number;
+  /** Migrations indexed by target version */
+  migrations: Record<number, RecordMigration>;
+}
+
+// ============================================
+// Pipeline
+// ============================================
+
+/**
+ * Get the version a record was written with (0 for unversioned legacy records)
+ */
+export function getRecordVersion(data: SaveRecord): number {
+  return typeof data.version === "number" ? data.version : 0;
+}
+
+/**
+ * Check whether a record needs to be migrated to the schema's current version
+ */
+export function needsMigration(schema: SaveSchema, data: SaveRecord): boolean {
+  return getRecordVersion(data) !== schema.version;
+}
+
+/**
+ * Bring a record up to the schema's current version.
+ * Returns the input unchanged if it is already current.
+ * Throws if the record is newer than this build or a migration step is missing.
+ */
+export function migrateRecord(schema: SaveSchema, data: SaveRecord): SaveRecord {
+  const startVersion = getRecordVersion(data);
+
+  if (startVersion > schema.version) {
+    throw new Error(
+      `SaveMigrations: Record is v${startVersion}, newer than supported v${schema.version}`,
+    );
+  }
+
+  if (startVersion === schema.version) {
+    return data;
+  }
+
+  let current: SaveRecord = { ...data };
+  for (let v = startVersion + 1; v <= schema.version; v++) {
+    if (v <= schema.baseVersion) continue;
+
+    const migrationFn = schema.migrations[v];
+    if (!migrationFn) {
+      throw new Error(`SaveMigrations: Missing migration to v${v}`);
+    }
+    current = migrationFn(current);
+  }
+
+  return { ...current, version: schema.version };
+}
+
+// ============================================
+// Helpers for migrations
+// ============================================
+
+/**
+ * Read a nested object field, defaulting to an empty object
+ */
+export function asRecord(value: unknown): Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Read a numeric field, defaulting if missing or not a number
+ */
+export function asNumber(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Read an array field, defaulting to an empty array
+ */
+export function asArray<T = unknown>(value: unknown): T[] {
+  return Array.isArray(value) ? (value as T[]) : [];
+}
@@ -0,0 +1,310 @@
+/**
+ * SaveSchemas - Storage record keys and their versioned migrations
+ *
+ * Every record a manager persists is listed here. Migrations are pure data
+ * transforms (no manager imports) so they can be unit tested against archived
+ * fixture saves without booting the game.
+ */
+
+import { SaveRecord, SaveSchema, asArray, asNumber, asRecord } from "./SaveMigrations";
+
+// ============================================
+// Record Keys
+// ============================================
+
+/**
+ * Storage record key for each manager
+ */
+export const STORAGE_KEYS = {
+  save: "aura_archer_save_data",
+  currency: "aura_archer_currency_data",
+  equipment: "aura_archer_equipment_data",
+  talents: "aura_archer_talent_data",
+  chests: "aura_archer_chest_data",
+  dailyRewards: "aura_archer_daily_rewards",
+  achievements: "aura_archer_achievements",
+  heroes: "aura_archer_hero_data",
+  chapters: "aura_archer_chapter_data",
+  encyclopedia: "aura_archer_encyclopedia_data",
+  coupons: "aura_archer_coupon_data",
+  abilityPriority: "aura_archer_ability_priority_data",
+  dailyChallenge: "aura_archer_daily_challenge_data",
+  bossRush: "aura_archer_boss_rush_data",
+  enchanting: "aura_archer_enchanting_data",
+  loadouts: "aura_archer_loadouts",
+  shop: "aura_archer_shop_data",
+  missions: "aura_archer_mission_data",
+  season: "aura_archer_season_data",
+} as const;
+
+export type StorageRecordName = keyof typeof STORAGE_KEYS;
+export type StorageKey = (typeof STORAGE_KEYS)[StorageRecordName];
+
+// ============================================
+// v0 -> v1 Migrations
+// ============================================
+// v0 is every record written before per-record versioning. These records
+// could be missing fields added over time; v1 guarantees the full shape.
+
+const EQUIPMENT_SLOTS = ["weapon", "armor", "ring", "spirit"] as const;
+
+/** Currency v1: all four currencies present */
+function migrateCurrencyV1(data: SaveRecord): SaveRecord {
+  const currencies = asRecord(data.currencies);
+  return {
+    ...data,
+    currencies: {
+      gold: asNumber(currencies.gold, 0),
+      gems: asNumber(currencies.gems, 0),
+      scrolls: asNumber(currencies.scrolls, 0),
+      energy: asNumber(currencies.energy, 5),
+    },
+    lastEnergyUpdate: asNumber(data.lastEnergyUpdate, Date.now()),
+  };
+}
+
+/** Equipment v1: every item has perks/level, every slot is present, no dangling equips */
+function migrateEquipmentV1(data: SaveRecord): SaveRecord {
+  const inventory = asArray<Record<string, unknown>>(data.inventory).map(
+    (item): Record<string, unknown> => ({
+      ...item,
+      level: asNumber(item.level, 1),
+      perks: asArray<string>(item.perks),
+    }),
+  );
+  const itemIds = new Set(inventory.map((item) => item.id));
+  const oldEquipped = asRecord(data.equipped);
+
+  const equipped: Record<string, string | null> = {};
+  for (const slot of EQUIPMENT_SLOTS) {
+    const itemId = oldEquipped[slot];
+    equipped[slot] = typeof itemId === "string" && itemIds.has(itemId) ? itemId : null;
+  }
+
+  return { ...data, inventory, equipped };
+}
+
+/** Talents v1: lottery state always present */
+function migrateTalentsV1(data: SaveRecord): SaveRecord {
+  const lotteryState = asRecord(data.lotteryState);
+  return {
+    ...data,
+    unlockedTalents: asRecord(data.unlockedTalents),
+    lotteryState: {
+      spinsToday: asNumber(lotteryState.spinsToday, 0),
+      lastSpinDate: typeof lotteryState.lastSpinDate === "string" ? lotteryState.lastSpinDate : "",
+    },
+  };
+}
+
+/** Chests v1: all chest counts present */
+function migrateChestsV1(data: SaveRecord): SaveRecord {
+  const inventory = asRecord(data.inventory);
+  return {
+    ...data,
+    inventory: {
+      wooden: asNumber(inventory.wooden, 0),
+      silver: asNumber(inventory.silver, 0),
+      golden: asNumber(inventory.golden, 0),
+    },
+  };
+}
+
+/** Daily rewards v1: streak fields present */
+function migrateDailyRewardsV1(data: SaveRecord): SaveRecord {
+  return {
+    ...data,
+    lastClaimTimestamp:
+      typeof data.lastClaimTimestamp === "number" ? data.lastClaimTimestamp : null,
+    currentDay: asNumber(data.currentDay, 1),
+    claimedToday: data.claimedToday === true,
+  };
+}
+
+/** Achievements v1: claimed tiers and lifetime totals present */
+function migrateAchievementsV1(data: SaveRecord): SaveRecord {
+  return {
+    ...data,
+    claimedTiers: asRecord(data.claimedTiers),
+    totalGoldEarned: asNumber(data.totalGoldEarned, 0),
+    totalGemsEarned: asNumber(data.totalGemsEarned, 0),
+  };
+}
+
+/** Heroes v1: Atreus always unlocked, progress entries carry perks */
+function migrateHeroesV1(data: SaveRecord): SaveRecord {
+  const unlockedHeroes = asArray<string>(data.unlockedHeroes);
+  if (!unlockedHeroes.includes("atreus")) {
+    unlockedHeroes.unshift("atreus");
+  }
+
+  const heroProgress: Record<string, unknown> = {};
+  for (const [heroId, progress] of Object.entries(asRecord(data.heroProgress))) {
+    const entry = asRecord(progress);
+    heroProgress[heroId] = {
+      ...entry,
+      level: asNumber(entry.level, 1),
+      xp: asNumber(entry.xp, 0),
+      unlockedPerks: asArray<number>(entry.unlockedPerks),
+    };
+  }
+
+  const selectedHeroId =
+    typeof data.selectedHeroId === "string" && unlockedHeroes.includes(data.selectedHeroId)
+      ? data.selectedHeroId
+      : "atreus";
+
+  return { ...data, unlockedHeroes, selectedHeroId, heroProgress };
+}
+
+/** Chapters v1: numeric chapter ids, chapter 1 unlocked, completion tracking fields */
+function migrateChaptersV1(data: SaveRecord): SaveRecord {
+  const unlockedChapters = asArray<unknown>(data.unlockedChapters)
+    .map((id) => Number(id))
+    .filter((id) => Number.isInteger(id) && id > 0);
+  if (!unlockedChapters.includes(1)) {
+    unlockedChapters.unshift(1);
+  }
+
+  const chapterProgress: Record<string, unknown> = {};
+  for (const [idStr, progress] of Object.entries(asRecord(data.chapterProgress))) {
+    const entry = asRecord(progress);
+    chapterProgress[idStr] = {
+      ...entry,
+      chapterId: Number(idStr),
+      highestRoom: asNumber(entry.highestRoom, 0),
+      completed: entry.completed === true,
+      bestStars: asNumber(entry.bestStars, 0),
+      completionCount: asNumber(entry.completionCount, 0),
+      bestTimeMs: typeof entry.bestTimeMs === "number" ? entry.bestTimeMs : null,
+    };
+  }
+
+  return {
+    ...data,
+    unlockedChapters,
+    chapterProgress,
+    selectedChapter: asNumber(data.selectedChapter, 1),
+  };
+}
+
+/** Coupons v1: redeemed list present */
+function migrateCouponsV1(data: SaveRecord): SaveRecord {
+  return { ...data, redeemedCoupons: asArray<string>(data.redeemedCoupons) };
+}
+
+/** Ability priority v1: per-ability max levels present */
+function migrateAbilityPriorityV1(data: SaveRecord): SaveRecord {
+  return {
+    ...data,
+    priorityOrder: asArray<string>(data.priorityOrder),
+    priorityMaxLevels: asRecord(data.priorityMaxLevels),
+  };
+}
+
+// ============================================
+// v1 -> v2 Migrations
+// ============================================
+
+/** Equipment v2: every item records its set (null for regular items) */
+function migrateEquipmentV2(data: SaveRecord): SaveRecord {
+  const inventory = asArray<Record<string, unknown>>(data.inventory).map(
+    (item): Record<string, unknown> => ({
+      ...item,
+      setId: typeof item.setId === "string" ? item.setId : null,
+    }),
+  );
+  return { ...data, inventory };
+}
+
+/** Talents v2: active mode and talent tree ranks present (lottery and no ranks before the tree) */
+function migrateTalentsV2(data: SaveRecord): SaveRecord {
+  return {
+    ...data,
+    mode: data.mode === "tree" ? "tree" : "lottery",
+    treeRanks: asRecord(data.treeRanks),
+  };
+}
+
+/** Chests v2: pity counters and drop history present (none before pity existed) */
+function migrateChestsV2(data: SaveRecord): SaveRecord {
+  const pity = asRecord(data.pity);
+  return {
+    ...data,
+    pity: {
+      wooden: asNumber(pity.wooden, 0),
+      silver: asNumber(pity.silver, 0),
+      golden: asNumber(pity.golden, 0),
+    },
+    dropHistory: asArray(data.dropHistory),
+  };
+}
+
+// ============================================
+// v2 -> v3 Migrations
+// ============================================
+
+/** Equipment v3: every item records its lock state (unlocked before locking existed) */
+function migrateEquipmentV3(data: SaveRecord): SaveRecord {
+  const inventory = asArray<Record<string, unknown>>(data.inventory).map(
+    (item): Record<string, unknown> => ({ ...item, locked: item.locked === true }),
+  );
+  return { ...data, inventory };
+}
+
+// ============================================
+// Schemas
+// ============================================
+
+/**
+ * Versioning schema for every storage record
+ */
+export const SAVE_SCHEMAS: Record<StorageKey, SaveSchema> = {
+  // SaveManager and EncyclopediaManager have always stamped version 1
+  [STORAGE_KEYS.save]: { version: 1, baseVersion: 1, migrations: {} },
+  [STORAGE_KEYS.encyclopedia]: { version: 1, baseVersion: 1, migrations: {} },
+
+  // Records added after per-record versioning start at version 1
+  [STORAGE_KEYS.dailyChallenge]: { version: 1, baseVersion: 1, migrations: {} },
+  [STORAGE_KEYS.bossRush]: { version: 1, baseVersion: 1, migrations: {} },
+  [STORAGE_KEYS.enchanting]: { version: 1, baseVersion: 1, migrations: {} },
+  [STORAGE_KEYS.loadouts]: { version: 1, baseVersion: 1, migrations: {} },
+  [STORAGE_KEYS.shop]: { version: 1, baseVersion: 1, migrations: {} },
+  [STORAGE_KEYS.missions]: { version: 1, baseVersion: 1, migrations: {} },
+  [STORAGE_KEYS.season]: { version: 1, baseVersion: 1, migrations: {} },
+
+  [STORAGE_KEYS.currency]: { version: 1, baseVersion: 0, migrations: { 1: migrateCurrencyV1 } },
+  [STORAGE_KEYS.equipment]: {
+    version: 3,
+    baseVersion: 0,
+    migrations: { 1: migrateEquipmentV1, 2: migrateEquipmentV2, 3: migrateEquipmentV3 },
+  },
+  [STORAGE_KEYS.talents]: {
+    version: 2,
+    baseVersion: 0,
+    migrations: { 1: migrateTalentsV1, 2: migrateTalentsV2 },
+  },
+  [STORAGE_KEYS.chests]: {
+    version: 2,
+    baseVersion: 0,
+    migrations: { 1: migrateChestsV1, 2: migrateChestsV2 },
+  },
+  [STORAGE_KEYS.dailyRewards]: {
+    version: 1,
+    baseVersion: 0,
+    migrations: { 1: migrateDailyRewardsV1 },
+  },
+  [STORAGE_KEYS.achievements]: {
+    version: 1,
+    baseVersion: 0,
+    migrations: { 1: migrateAchievementsV1 },
+  },
+  [STORAGE_KEYS.heroes]: { version: 1, baseVersion: 0, migrations: { 1: migrateHeroesV1 } },
+  [STORAGE_KEYS.chapters]: { version: 1, baseVersion: 0, migrations: { 1: migrateChaptersV1 } },
+  [STORAGE_KEYS.coupons]: { version: 1, baseVersion: 0, migrations: { 1: migrateCouponsV1 } },
+  [STORAGE_KEYS.abilityPriority]: {
+    version: 1,
+    baseVersion: 0,
+    migrations: { 1: migrateAbilityPriorityV1 },
+  },
+};
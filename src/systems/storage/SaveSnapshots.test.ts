@@ -0,0 +1,158 @@
+/**
+ * Unit tests for automatic save snapshots
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  MAX_SNAPSHOTS,
+  MAX_SNAPSHOT_BYTES,
+  SaveSnapshotStore,
+  summarizeSnapshot,
+} from "./SaveSnapshots";
+import { SAVE_SCHEMAS, STORAGE_KEYS } from "./SaveSchemas";
+import { StorageService } from "./StorageService";
+import { MemoryStorageBackend } from "./StorageBackend";
+
+function setGold(service: StorageService, gold: number): void {
+  service.set(STORAGE_KEYS.currency, {
+    currencies: { gold, gems: 0, scrolls: 0, energy: 5 },
+    lastEnergyUpdate: 0,
+  });
+}
+
+describe("SaveSnapshotStore", () => {
+  let service: StorageService;
+  let snapshots: SaveSnapshotStore;
+
+  beforeEach(() => {
+    service = new StorageService(new MemoryStorageBackend(), SAVE_SCHEMAS);
+    snapshots = new SaveSnapshotStore(service);
+    setGold(service, 100);
+  });
+
+  describe("take()", () => {
+    it("should store a copy of every record, newest first", () => {
+      snapshots.take("app_start");
+      setGold(service, 200);
+      snapshots.take("sell");
+
+      const list = snapshots.list();
+      expect(list.map((s) => s.reason)).toEqual(["sell", "app_start"]);
+      expect(summarizeSnapshot(list[0]).gold).toBe(200);
+      expect(summarizeSnapshot(list[1]).gold).toBe(100);
+    });
+
+    it("should skip a snapshot identical to the newest one", () => {
+      expect(snapshots.take("app_start")).not.toBeNull();
+      expect(snapshots.take("app_start")).toBeNull();
+
+      expect(snapshots.list()).toHaveLength(1);
+    });
+
+    it(`should keep only the newest ${MAX_SNAPSHOTS} snapshots`, () => {
+      for (let gold = 0; gold < MAX_SNAPSHOTS + 3; gold++) {
+        setGold(service, gold);
+        snapshots.take("run_end");
+      }
+
+      const list = snapshots.list();
+      expect(list).toHaveLength(MAX_SNAPSHOTS);
+      expect(summarizeSnapshot(list[0]).gold).toBe(MAX_SNAPSHOTS + 2);
+    });
+
+    it(`should drop the oldest snapshots beyond ${MAX_SNAPSHOT_BYTES} characters`, () => {
+      const padding = "x".repeat(MAX_SNAPSHOT_BYTES / 3);
+      for (let gold = 0; gold < 4; gold++) {
+        service.set(STORAGE_KEYS.achievements, { padding: `${gold}${padding}` });
+        setGold(service, gold);
+        snapshots.take("run_end");
+      }
+
+      const list = snapshots.list();
+      expect(list).toHaveLength(2);
+      expect(list.map((s) => summarizeSnapshot(s).gold)).toEqual([3, 2]);
+      expect(JSON.stringify(list).length).toBeLessThan(MAX_SNAPSHOT_BYTES);
+    });
+
+    it("should not snapshot uncommitted state inside a transaction", () => {
+      service.transaction(() => {
+        setGold(service, 999);
+        expect(snapshots.take("fusion")).toBeNull();
+      });
+
+      expect(snapshots.list()).toHaveLength(0);
+    });
+
+    it("should not throw when the snapshot cannot be stored", () => {
+      vi.spyOn(service, "set").mockImplementation(() => {
+        throw new Error("QuotaExceededError");
+      });
+
+      expect(snapshots.take("app_start")).toBeNull();
+    });
+  });
+
+  describe("restore()", () => {
+    it("should roll records back and reload managers", () => {
+      const snapshot = snapshots.take("sell")!;
+      setGold(service, 0);
+      const reload = vi.fn();
+      service.register(STORAGE_KEYS.currency, reload);
+
+      snapshots.restore(snapshot.id);
+
+      expect(service.get(STORAGE_KEYS.currency)).toMatchObject({ currencies: { gold: 100 } });
+      expect(reload).toHaveBeenCalledTimes(1);
+    });
+
+    it("should remove records created after the snapshot was taken", () => {
+      const snapshot = snapshots.take("sell")!;
+      service.set(STORAGE_KEYS.shop, { dayKey: "2026-10-19", dailyPurchases: {} });
+      const reload = vi.fn();
+      service.register(STORAGE_KEYS.shop, reload);
+
+      snapshots.restore(snapshot.id);
+
+      expect(service.has(STORAGE_KEYS.shop)).toBe(false);
+      expect(service.get(STORAGE_KEYS.currency)).toMatchObject({ currencies: { gold: 100 } });
+      expect(reload).toHaveBeenCalledTimes(1);
+    });
+
+    it("should snapshot the current state first so the restore can be undone", () => {
+      const snapshot = snapshots.take("sell")!;
+      setGold(service, 0);
+
+      snapshots.restore(snapshot.id);
+
+      const newest = snapshots.list()[0];
+      expect(newest.reason).toBe("restore");
+      expect(summarizeSnapshot(newest).gold).toBe(0);
+    });
+
+    it("should throw for unknown snapshots", () => {
+      expect(() => snapshots.restore("missing")).toThrow(/not found/);
+    });
+  });
+
+  describe("summarizeSnapshot()", () => {
+    it("should report gold, highest chapter and hero levels", () => {
+      service.set(STORAGE_KEYS.chapters, {
+        unlockedChapters: [1, 2, 3],
+        chapterProgress: {},
+        selectedChapter: 2,
+      });
+      service.set(STORAGE_KEYS.heroes, {
+        unlockedHeroes: ["atreus", "helix"],
+        selectedHeroId: "atreus",
+        heroProgress: { atreus: { level: 7 } },
+      });
+
+      const summary = summarizeSnapshot(snapshots.take("app_start")!);
+
+      expect(summary).toEqual({
+        gold: 100,
+        highestChapter: 3,
+        heroLevels: { atreus: 7, helix: 1 },
+      });
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * SaveSnapshots - Rolling, timestamped snapshots of every storage record
+ *
+ * Snapshots are taken automatically at risky moments (app start, end of a
+ * run, before fusion or selling) so a player can roll back after an
+ * accidental sell or a corrupted save. Only the newest MAX_SNAPSHOTS are kept,
+ * older ones are dropped while the stored snapshots exceed MAX_SNAPSHOT_BYTES
+ * (the backend may be localStorage, which has a quota of a few MB), and a
+ * snapshot identical to the newest one is skipped.
+ *
+ * Snapshots live in their own record and are not part of exported save codes.
+ */
+
+import { SaveRecord, asArray, asNumber, asRecord } from "./SaveMigrations";
+import { STORAGE_KEYS, StorageKey } from "./SaveSchemas";
+import { StorageService, storageService } from "./StorageService";
+import { collectSaveBundle, migrateSaveRecords } from "./SaveTransfer";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * What triggered a snapshot
+ */
+export type SnapshotReason = "app_start" | "run_end" | "fusion" | "sell" | "salvage" | "restore";
+
+/**
+ * A stored copy of every record at one point in time
+ */
+export interface SaveSnapshot {
+  id: string;
+  takenAt: number;
+  reason: SnapshotReason;
+  records: Partial<Record<StorageKey, SaveRecord>>;
+}
+
+/**
+ * Headline stats shown in the restore list
+ */
+export interface SnapshotSummary {
+  gold: number;
+  highestChapter: number;
+  heroLevels: Record<string, number>;
+}
+
+interface SnapshotSaveData {
+  snapshots: SaveSnapshot[];
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const SNAPSHOT_STORAGE_KEY = "aura_archer_save_snapshots";
+export const MAX_SNAPSHOTS = 10;
+
+/** Serialized size (in UTF-16 code units, as localStorage counts) all snapshots may use */
+export const MAX_SNAPSHOT_BYTES = 1_000_000;
+
+export const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  app_start: "Game start",
+  run_end: "After run",
+  fusion: "Before fusion",
+  sell: "Before sell",
+  salvage: "Before salvage",
+  restore: "Before restore",
+};
+
+// ============================================
+// SaveSnapshotStore Class
+// ============================================
+
+export class SaveSnapshotStore {
+  private service: StorageService;
+
+  constructor(service: StorageService = storageService) {
+    this.service = service;
+  }
+
+  /**
+   * Snapshot all records. Returns null if nothing changed since the newest
+   * snapshot, a transaction is open (only committed state is captured), or
+   * the snapshot could not be stored.
+   */
+  take(reason: SnapshotReason): SaveSnapshot | null {
+    if (this.service.isInTransaction()) return null;
+
+    try {
+      const { records } = collectSaveBundle(this.service);
+      const snapshots = this.list();
+      if (snapshots[0] && JSON.stringify(snapshots[0].records) === JSON.stringify(records)) {
+        return null;
+      }
+
+      const takenAt = Date.now();
+      const snapshot: SaveSnapshot = { id: `${takenAt}_${reason}`, takenAt, reason, records };
+      this.write(trimToSizeLimit([snapshot, ...snapshots].slice(0, MAX_SNAPSHOTS)));
+      return snapshot;
+    } catch (error) {
+      console.warn("SaveSnapshots: Failed to take snapshot:", error);
+      return null;
+    }
+  }
+
+  /**
+   * All stored snapshots, newest first
+   */
+  list(): SaveSnapshot[] {
+    try {
+      return this.service.get<SnapshotSaveData>(SNAPSHOT_STORAGE_KEY)?.snapshots ?? [];
+    } catch (error) {
+      console.warn("SaveSnapshots: Failed to read snapshots:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Roll every record back to a snapshot and reload all managers. Records the
+   * snapshot does not hold (created after it was taken) are removed.
+   * The current state is snapshotted first so the restore can be undone.
+   */
+  restore(id: string): void {
+    const snapshot = this.list().find((s) => s.id === id);
+    if (!snapshot) {
+      throw new Error(`SaveSnapshots: Snapshot not found: ${id}`);
+    }
+
+    const records = migrateSaveRecords(snapshot.records);
+    this.take("restore");
+    this.service.transaction(() => {
+      for (const key of Object.values(STORAGE_KEYS)) {
+        const record = records[key];
+        if (record) {
+          this.service.set(key, record);
+        } else {
+          this.service.remove(key);
+        }
+      }
+    });
+    this.service.reloadAll();
+    console.log(
+      `SaveSnapshots: Restored snapshot from ${new Date(snapshot.takenAt).toISOString()}`,
+    );
+  }
+
+  /**
+   * Delete all snapshots
+   */
+  clear(): void {
+    this.service.remove(SNAPSHOT_STORAGE_KEY);
+  }
+
+  private write(snapshots: SaveSnapshot[]): void {
+    const data: SnapshotSaveData = { snapshots };
+    this.service.set(SNAPSHOT_STORAGE_KEY, data);
+  }
+}
+
+/**
+ * Drop the oldest snapshots until the rest fit in MAX_SNAPSHOT_BYTES. The
+ * newest snapshot is always kept.
+ */
+function trimToSizeLimit(snapshots: SaveSnapshot[]): SaveSnapshot[] {
+  const sizes = snapshots.map((snapshot) => JSON.stringify(snapshot).length);
+  let total = sizes.reduce((sum, size) => sum + size, 0);
+  let count = snapshots.length;
+  while (count > 1 && total > MAX_SNAPSHOT_BYTES) {
+    count--;
+    total -= sizes[count];
+  }
+  return snapshots.slice(0, count);
+}
+
+// ============================================
+// Summary
+// ============================================
+
+/**
+ * Extract gold, highest unlocked chapter and hero levels from a snapshot
+ */
+export function summarizeSnapshot(snapshot: SaveSnapshot): SnapshotSummary {
+  const currency = asRecord(snapshot.records[STORAGE_KEYS.currency]?.currencies);
+  const chapters = asArray<number>(snapshot.records[STORAGE_KEYS.chapters]?.unlockedChapters);
+  const heroes = snapshot.records[STORAGE_KEYS.heroes];
+
+  const heroLevels: Record<string, number> = {};
+  const heroProgress = asRecord(heroes?.heroProgress);
+  for (const heroId of asArray<string>(heroes?.unlockedHeroes)) {
+    heroLevels[heroId] = asNumber(asRecord(heroProgress[heroId]).level, 1);
+  }
+
+  return {
+    gold: asNumber(currency.gold, 0),
+    highestChapter: chapters.length > 0 ? Math.max(...chapters) : 1,
+    heroLevels,
+  };
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+/** Global snapshot store */
+export const saveSnapshots = new SaveSnapshotStore();
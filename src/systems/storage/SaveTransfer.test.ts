@@ -0,0 +1,174 @@
+/**
+ * Unit tests for save code export/import
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  SAVE_CODE_PREFIX,
+  applySaveImport,
+  decodeSaveCode,
+  encodeSaveCode,
+  exportSaveCode,
+  readSaveCode,
+} from "./SaveTransfer";
+import { SAVE_SCHEMAS, STORAGE_KEYS } from "./SaveSchemas";
+import { StorageService } from "./StorageService";
+import { MemoryStorageBackend } from "./StorageBackend";
+
+function createService(records: Record<string, object>): StorageService {
+  const initial: Record<string, string> = {};
+  for (const [key, record] of Object.entries(records)) {
+    initial[key] = JSON.stringify(record);
+  }
+  return new StorageService(new MemoryStorageBackend(initial), SAVE_SCHEMAS);
+}
+
+const sourceRecords = {
+  [STORAGE_KEYS.currency]: {
+    version: 1,
+    currencies: { gold: 5000, gems: 120, scrolls: 3, energy: 20 },
+    lastEnergyUpdate: 1700000000000,
+  },
+  [STORAGE_KEYS.heroes]: {
+    version: 1,
+    unlockedHeroes: ["atreus", "helix"],
+    selectedHeroId: "helix",
+    heroProgress: {},
+  },
+  [STORAGE_KEYS.equipment]: {
+    version: 3,
+    inventory: [
+      {
+        id: "a",
+        type: "brave_bow",
+        rarity: "epic",
+        level: 3,
+        perks: [],
+        setId: null,
+        locked: false,
+      },
+      { id: "b", type: "vest", rarity: "common", level: 1, perks: [], setId: null, locked: false },
+    ],
+    equipped: { weapon: "a", armor: null, ring: null, spirit: null },
+  },
+};
+
+describe("SaveTransfer", () => {
+  let source: StorageService;
+
+  beforeEach(() => {
+    source = createService(sourceRecords);
+  });
+
+  describe("exportSaveCode()", () => {
+    it("should produce a prefixed, checksummed code", async () => {
+      const code = await exportSaveCode(source);
+      const parts = code.split(".");
+
+      expect(parts).toHaveLength(3);
+      expect(parts[0]).toBe(SAVE_CODE_PREFIX);
+      expect(parts[1]).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(parts[2]).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it("should round-trip every record", async () => {
+      const bundle = await decodeSaveCode(await exportSaveCode(source));
+
+      expect(bundle.records).toEqual(sourceRecords);
+    });
+  });
+
+  describe("decodeSaveCode()", () => {
+    it("should ignore whitespace from copy/paste", async () => {
+      const code = await exportSaveCode(source);
+      const wrapped = code.replace(/(.{20})/g, "$1\n ");
+
+      await expect(decodeSaveCode(wrapped)).resolves.toBeDefined();
+    });
+
+    it("should reject codes without the prefix", async () => {
+      await expect(decodeSaveCode("hello")).rejects.toThrow("Not a valid save code");
+    });
+
+    it("should reject codes with a tampered payload", async () => {
+      const [prefix, payload, signature] = (await exportSaveCode(source)).split(".");
+      const tampered = payload.slice(0, -2) + (payload.endsWith("AA") ? "BB" : "AA");
+
+      await expect(decodeSaveCode(`${prefix}.${tampered}.${signature}`)).rejects.toThrow("damaged");
+    });
+
+    it("should migrate legacy records in the code", async () => {
+      const code = await encodeSaveCode({
+        format: 1,
+        exportedAt: 0,
+        records: { [STORAGE_KEYS.chests]: { inventory: { wooden: 2 } } },
+      });
+
+      const bundle = await decodeSaveCode(code);
+
+      expect(bundle.records[STORAGE_KEYS.chests]).toEqual({
+        inventory: { wooden: 2, silver: 0, golden: 0 },
+        pity: { wooden: 0, silver: 0, golden: 0 },
+        dropHistory: [],
+        version: 2,
+      });
+    });
+
+    it("should reject records from a newer game version", async () => {
+      const code = await encodeSaveCode({
+        format: 1,
+        exportedAt: 0,
+        records: { [STORAGE_KEYS.chests]: { version: 99, inventory: {} } },
+      });
+
+      await expect(decodeSaveCode(code)).rejects.toThrow("newer game version");
+    });
+
+    it("should reject unknown records", async () => {
+      const code = await encodeSaveCode({
+        format: 1,
+        exportedAt: 0,
+        records: { aura_archer_unknown: { version: 1 } } as never,
+      });
+
+      await expect(decodeSaveCode(code)).rejects.toThrow("unknown data");
+    });
+  });
+
+  describe("readSaveCode()", () => {
+    it("should diff gold, gems, heroes and equipment without writing", async () => {
+      const target = createService({
+        [STORAGE_KEYS.currency]: {
+          version: 1,
+          currencies: { gold: 10, gems: 0, scrolls: 0, energy: 5 },
+          lastEnergyUpdate: 0,
+        },
+      });
+      const commitSpy = vi.spyOn(target.getBackend(), "commit");
+
+      const { diff } = await readSaveCode(await exportSaveCode(source), target);
+
+      expect(diff.gold).toEqual({ current: 10, incoming: 5000 });
+      expect(diff.gems).toEqual({ current: 0, incoming: 120 });
+      expect(diff.heroes).toEqual({ current: [], incoming: ["atreus", "helix"] });
+      expect(diff.equipment).toEqual({ current: 0, incoming: 2 });
+      expect(commitSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("applySaveImport()", () => {
+    it("should write all records in one commit and reload managers", async () => {
+      const target = createService({});
+      const reload = vi.fn();
+      target.register(STORAGE_KEYS.currency, reload);
+      const commitSpy = vi.spyOn(target.getBackend(), "commit");
+
+      const { bundle } = await readSaveCode(await exportSaveCode(source), target);
+      applySaveImport(bundle, target);
+
+      expect(commitSpy).toHaveBeenCalledTimes(1);
+      expect(target.get(STORAGE_KEYS.currency)).toEqual(sourceRecords[STORAGE_KEYS.currency]);
+      expect(target.get(STORAGE_KEYS.heroes)).toEqual(sourceRecords[STORAGE_KEYS.heroes]);
+      expect(reload).toHaveBeenCalledTimes(1);
+    });
+  });
+});
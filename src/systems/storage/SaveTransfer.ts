@@ -0,0 +1,270 @@
+/**
+ * SaveTransfer - Export/import of the full player progress as a save code
+ *
+ * A save code bundles every storage record (the persisted `toSaveData()` of
+ * each manager) into one text string that can be moved between the web build
+ * and the native builds:
+ *
+ *   AA1.<base64url(deflate(JSON bundle))>.<checksum>
+ *
+ * The checksum is a truncated SHA-256 of the payload. It detects typos,
+ * truncated pastes and casual edits - it is not a security boundary.
+ *
+ * Importing is two-step: `readSaveCode()` validates the code and runs every
+ * record through the migration pipeline without touching storage, then
+ * `applySaveImport()` overwrites the records in one transaction.
+ */
+
+import { SaveRecord, asArray, asNumber, asRecord, migrateRecord } from "./SaveMigrations";
+import { SAVE_SCHEMAS, STORAGE_KEYS, StorageKey } from "./SaveSchemas";
+import { StorageService, storageService } from "./StorageService";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Decoded contents of a save code
+ */
+export interface SaveBundle {
+  /** Bundle format version (independent of record versions) */
+  format: number;
+  /** When the code was created (ms since epoch) */
+  exportedAt: number;
+  /** Storage records keyed by storage key */
+  records: Partial<Record<StorageKey, SaveRecord>>;
+}
+
+/**
+ * A before/after pair for one compared value
+ */
+export interface SaveDiffEntry<T> {
+  current: T;
+  incoming: T;
+}
+
+/**
+ * Summary of what an import would change
+ */
+export interface SaveDiff {
+  gold: SaveDiffEntry<number>;
+  gems: SaveDiffEntry<number>;
+  heroes: SaveDiffEntry<string[]>;
+  equipment: SaveDiffEntry<number>;
+}
+
+/**
+ * A validated save code, ready to be applied
+ */
+export interface SaveImport {
+  bundle: SaveBundle;
+  diff: SaveDiff;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const SAVE_CODE_PREFIX = "AA1";
+const SAVE_BUNDLE_FORMAT = 1;
+const CHECKSUM_LENGTH = 16;
+const CHECKSUM_SALT = "aura_archer_save_code";
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * Collect every existing storage record into a bundle
+ */
+export function collectSaveBundle(service: StorageService = storageService): SaveBundle {
+  const records: Partial<Record<StorageKey, SaveRecord>> = {};
+  for (const key of Object.values(STORAGE_KEYS)) {
+    const record = service.get<SaveRecord>(key);
+    if (record) {
+      records[key] = record;
+    }
+  }
+  return { format: SAVE_BUNDLE_FORMAT, exportedAt: Date.now(), records };
+}
+
+/**
+ * Encode a bundle as a save code
+ */
+export async function encodeSaveCode(bundle: SaveBundle): Promise<string> {
+  const compressed = await transform(
+    new TextEncoder().encode(JSON.stringify(bundle)),
+    new CompressionStream("deflate"),
+  );
+  const payload = toBase64Url(compressed);
+  return `${SAVE_CODE_PREFIX}.${payload}.${await checksum(payload)}`;
+}
+
+/**
+ * Create a save code for the current progress
+ */
+export async function exportSaveCode(service: StorageService = storageService): Promise<string> {
+  return encodeSaveCode(collectSaveBundle(service));
+}
+
+// ============================================
+// Import
+// ============================================
+
+/**
+ * Decode and validate a save code.
+ * Every record is migrated to the current version.
+ * Throws with a player-facing message if the code is invalid.
+ */
+export async function decodeSaveCode(code: string): Promise<SaveBundle> {
+  const parts = code.replace(/\s+/g, "").split(".");
+  if (parts.length !== 3 || parts[0] !== SAVE_CODE_PREFIX) {
+    throw new Error("Not a valid save code");
+  }
+
+  const [, payload, signature] = parts;
+  if (signature !== (await checksum(payload))) {
+    throw new Error("Save code is damaged or incomplete");
+  }
+
+  let bundle: SaveBundle;
+  try {
+    const json = await transform(fromBase64Url(payload), new DecompressionStream("deflate"));
+    bundle = JSON.parse(new TextDecoder().decode(json)) as SaveBundle;
+  } catch {
+    throw new Error("Save code could not be read");
+  }
+
+  if (bundle.format !== SAVE_BUNDLE_FORMAT || typeof bundle.records !== "object") {
+    throw new Error("Save code is from an unsupported game version");
+  }
+
+  return { ...bundle, records: migrateSaveRecords(bundle.records) };
+}
+
+/**
+ * Migrate a set of records to their current versions.
+ * Throws with a player-facing message if a record is unknown or too new.
+ */
+export function migrateSaveRecords(
+  records: Record<string, unknown>,
+): Partial<Record<StorageKey, SaveRecord>> {
+  const migrated: Partial<Record<StorageKey, SaveRecord>> = {};
+  for (const [key, record] of Object.entries(records)) {
+    const schema = SAVE_SCHEMAS[key as StorageKey];
+    if (!schema) {
+      throw new Error(`Save contains unknown data (${key})`);
+    }
+    try {
+      migrated[key as StorageKey] = migrateRecord(schema, asRecord(record));
+    } catch {
+      throw new Error("Save is from a newer game version");
+    }
+  }
+  return migrated;
+}
+
+/**
+ * Decode a save code and compare it against the current progress.
+ * Does not modify storage.
+ */
+export async function readSaveCode(
+  code: string,
+  service: StorageService = storageService,
+): Promise<SaveImport> {
+  const bundle = await decodeSaveCode(code);
+  return { bundle, diff: diffSaveBundle(bundle, service) };
+}
+
+/**
+ * Overwrite storage with the imported records in one transaction and reload
+ * every manager. Records missing from the bundle are left untouched.
+ */
+export function applySaveImport(
+  bundle: SaveBundle,
+  service: StorageService = storageService,
+): void {
+  service.transaction(() => {
+    for (const [key, record] of Object.entries(bundle.records)) {
+      service.set(key, record);
+    }
+  });
+  service.reloadAll();
+  console.log(`SaveTransfer: Imported ${Object.keys(bundle.records).length} records`);
+}
+
+// ============================================
+// Diff
+// ============================================
+
+/**
+ * Compare the headline values of a bundle against the current progress
+ */
+export function diffSaveBundle(
+  bundle: SaveBundle,
+  service: StorageService = storageService,
+): SaveDiff {
+  const current = collectSaveBundle(service);
+  return {
+    gold: compare(current, bundle, (b) => currenciesOf(b).gold),
+    gems: compare(current, bundle, (b) => currenciesOf(b).gems),
+    heroes: compare(current, bundle, (b) =>
+      asArray<string>(b.records[STORAGE_KEYS.heroes]?.unlockedHeroes),
+    ),
+    equipment: compare(
+      current,
+      bundle,
+      (b) => asArray(b.records[STORAGE_KEYS.equipment]?.inventory).length,
+    ),
+  };
+}
+
+function compare<T>(
+  current: SaveBundle,
+  incoming: SaveBundle,
+  read: (bundle: SaveBundle) => T,
+): SaveDiffEntry<T> {
+  return { current: read(current), incoming: read(incoming) };
+}
+
+function currenciesOf(bundle: SaveBundle): { gold: number; gems: number } {
+  const currencies = asRecord(bundle.records[STORAGE_KEYS.currency]?.currencies);
+  return { gold: asNumber(currencies.gold, 0), gems: asNumber(currencies.gems, 0) };
+}
+
+// ============================================
+// Encoding Helpers
+// ============================================
+
+async function transform(
+  data: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const writer = stream.writable.getWriter();
+  const writing = writer.write(data).then(() => writer.close());
+  const [buffer] = await Promise.all([new Response(stream.readable).arrayBuffer(), writing]);
+  return new Uint8Array(buffer);
+}
+
+async function checksum(payload: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`${CHECKSUM_SALT}:${payload}`),
+  );
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+    .slice(0, CHECKSUM_LENGTH);
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
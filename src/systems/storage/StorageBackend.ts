@@ -0,0 +1,301 @@
+/**
+ * Storage backends for StorageService
+ *
+ * A backend is a synchronous key/value store of serialized records.
+ * `commit()` must apply a batch of writes atomically: after a crash either
+ * every write in the batch is visible or none of them are. Backends that
+ * persist asynchronously return a promise that rejects if the batch was not
+ * persisted.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * A single pending write. A `null` value removes the record.
+ */
+export interface StorageWrite {
+  key: string;
+  value: string | null;
+}
+
+/**
+ * Pluggable persistence backend
+ */
+export interface StorageBackend {
+  /** Human-readable backend name (for logs and debug UI) */
+  readonly name: string;
+
+  /** Read a serialized record, or null if it doesn't exist */
+  read(key: string): string | null;
+
+  /** List all record keys held by this backend */
+  keys(): string[];
+
+  /**
+   * Apply a batch of writes atomically. Throws (or rejects, for asynchronous
+   * backends) if the batch could not be persisted.
+   */
+  commit(writes: StorageWrite[]): void | Promise<void>;
+}
+
+// ============================================
+// LocalStorage Backend
+// ============================================
+
+/** localStorage key holding the write-ahead journal for multi-record commits */
+export const STORAGE_JOURNAL_KEY = "aura_archer_storage_journal";
+
+/** Only records with this prefix are considered part of the save */
+const RECORD_KEY_PREFIX = "aura_archer_";
+
+/**
+ * localStorage-backed storage
+ *
+ * A single setItem() is already atomic, so single-record commits are written
+ * directly. Multi-record commits are first written to a journal record, then
+ * applied, then the journal is removed. If a write fails partway (e.g. quota
+ * exceeded), the records already written are put back before the error is
+ * rethrown. A journal left behind by a crash is replayed on the next startup
+ * so the batch is never half-applied.
+ */
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = "localStorage";
+
+  constructor() {
+    this.recoverJournal();
+  }
+
+  read(key: string): string | null {
+    return localStorage.getItem(key);
+  }
+
+  keys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(RECORD_KEY_PREFIX) && key !== STORAGE_JOURNAL_KEY) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+
+  commit(writes: StorageWrite[]): void {
+    if (writes.length === 0) return;
+
+    if (writes.length === 1) {
+      this.apply(writes[0]);
+      return;
+    }
+
+    const previous: StorageWrite[] = writes.map((write) => ({
+      key: write.key,
+      value: localStorage.getItem(write.key),
+    }));
+
+    localStorage.setItem(STORAGE_JOURNAL_KEY, JSON.stringify(writes));
+    try {
+      writes.forEach((write) => this.apply(write));
+    } catch (error) {
+      this.undo(previous);
+      throw error;
+    }
+    localStorage.removeItem(STORAGE_JOURNAL_KEY);
+  }
+
+  /**
+   * Put back the records a failed commit overwrote and drop its journal. If
+   * that fails too, the journal stays and completes the batch on next startup.
+   */
+  private undo(previous: StorageWrite[]): void {
+    try {
+      previous.forEach((write) => this.apply(write));
+      localStorage.removeItem(STORAGE_JOURNAL_KEY);
+    } catch (error) {
+      console.error("LocalStorageBackend: Failed to undo a partial commit:", error);
+    }
+  }
+
+  /**
+   * Replay an unfinished journal left behind by an interrupted commit
+   */
+  private recoverJournal(): void {
+    try {
+      const journal = localStorage.getItem(STORAGE_JOURNAL_KEY);
+      if (!journal) return;
+
+      const writes = JSON.parse(journal) as StorageWrite[];
+      console.warn(`LocalStorageBackend: Replaying ${writes.length} journaled writes`);
+      writes.forEach((write) => this.apply(write));
+      localStorage.removeItem(STORAGE_JOURNAL_KEY);
+    } catch (error) {
+      console.error("LocalStorageBackend: Failed to recover journal:", error);
+    }
+  }
+
+  private apply(write: StorageWrite): void {
+    if (write.value === null) {
+      localStorage.removeItem(write.key);
+    } else {
+      localStorage.setItem(write.key, write.value);
+    }
+  }
+}
+
+// ============================================
+// In-Memory Backend
+// ============================================
+
+/**
+ * Volatile backend for unit tests and sandboxed environments
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  readonly name = "memory";
+  private records: Map<string, string>;
+
+  constructor(initial: Record<string, string> = {}) {
+    this.records = new Map(Object.entries(initial));
+  }
+
+  read(key: string): string | null {
+    return this.records.get(key) ?? null;
+  }
+
+  keys(): string[] {
+    return Array.from(this.records.keys());
+  }
+
+  commit(writes: StorageWrite[]): void {
+    for (const write of writes) {
+      if (write.value === null) {
+        this.records.delete(write.key);
+      } else {
+        this.records.set(write.key, write.value);
+      }
+    }
+  }
+}
+
+// ============================================
+// IndexedDB Backend
+// ============================================
+
+const IDB_STORE_NAME = "records";
+
+/**
+ * IndexedDB-backed storage
+ *
+ * Managers read synchronously, so all records are loaded into memory when the
+ * backend is opened and reads are served from that mirror. Each commit is
+ * written through a single IndexedDB readwrite transaction, which IndexedDB
+ * guarantees to be all-or-nothing. The mirror only takes a batch once its
+ * transaction completes; until then reads see the batch through an in-flight
+ * overlay, which is dropped if the transaction fails.
+ */
+export class IndexedDBStorageBackend implements StorageBackend {
+  readonly name = "indexedDB";
+  private db: IDBDatabase;
+  private records: Map<string, string>;
+
+  /** Batches whose transaction has not completed yet, oldest first */
+  private inFlight: Map<string, string | null>[] = [];
+
+  private constructor(db: IDBDatabase, records: Map<string, string>) {
+    this.db = db;
+    this.records = records;
+  }
+
+  /**
+   * Check whether IndexedDB is available in this environment
+   */
+  static isSupported(): boolean {
+    return typeof window !== "undefined" && !!window.indexedDB;
+  }
+
+  /**
+   * Open (or create) the database and load every record into memory
+   */
+  static open(
+    dbName: string = "aura_archer",
+    factory: IDBFactory = window.indexedDB,
+  ): Promise<IndexedDBStorageBackend> {
+    return new Promise((resolve, reject) => {
+      const request = factory.open(dbName, 1);
+
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(IDB_STORE_NAME);
+      };
+
+      request.onerror = () => reject(request.error);
+
+      request.onsuccess = () => {
+        const db = request.result;
+        const records = new Map<string, string>();
+        const cursorRequest = db
+          .transaction(IDB_STORE_NAME, "readonly")
+          .objectStore(IDB_STORE_NAME)
+          .openCursor();
+
+        cursorRequest.onerror = () => reject(cursorRequest.error);
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (cursor) {
+            records.set(String(cursor.key), cursor.value as string);
+            cursor.continue();
+          } else {
+            resolve(new IndexedDBStorageBackend(db, records));
+          }
+        };
+      };
+    });
+  }
+
+  read(key: string): string | null {
+    for (let i = this.inFlight.length - 1; i >= 0; i--) {
+      if (this.inFlight[i].has(key)) {
+        return this.inFlight[i].get(key)!;
+      }
+    }
+    return this.records.get(key) ?? null;
+  }
+
+  keys(): string[] {
+    const keys = new Set(this.records.keys());
+    for (const batch of this.inFlight) {
+      batch.forEach((value, key) => (value === null ? keys.delete(key) : keys.add(key)));
+    }
+    return Array.from(keys);
+  }
+
+  commit(writes: StorageWrite[]): Promise<void> {
+    if (writes.length === 0) return Promise.resolve();
+
+    const batch = new Map(writes.map((write) => [write.key, write.value]));
+    const tx = this.db.transaction(IDB_STORE_NAME, "readwrite");
+    const store = tx.objectStore(IDB_STORE_NAME);
+    batch.forEach((value, key) => (value === null ? store.delete(key) : store.put(value, key)));
+    this.inFlight.push(batch);
+
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => {
+        this.settle(batch);
+        batch.forEach((value, key) =>
+          value === null ? this.records.delete(key) : this.records.set(key, value),
+        );
+        resolve();
+      };
+
+      tx.onabort = () => {
+        this.settle(batch);
+        console.error("IndexedDBStorageBackend: Commit failed:", tx.error);
+        reject(tx.error ?? new Error("IndexedDBStorageBackend: Commit aborted"));
+      };
+    });
+  }
+
+  private settle(batch: Map<string, string | null>): void {
+    this.inFlight = this.inFlight.filter((entry) => entry !== batch);
+  }
+}
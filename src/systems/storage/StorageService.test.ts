@@ -0,0 +1,423 @@
+/**
+ * Unit tests for StorageService and storage backends
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { StorageService } from "./StorageService";
+import {
+  IndexedDBStorageBackend,
+  LocalStorageBackend,
+  MemoryStorageBackend,
+  STORAGE_JOURNAL_KEY,
+} from "./StorageBackend";
+
+// ============================================
+// IndexedDB shim
+// ============================================
+
+function later(callback: () => void): void {
+  void Promise.resolve().then(callback);
+}
+
+/**
+ * Minimal in-memory IndexedDB: one object store, asynchronous requests and
+ * transactions that apply their writes only when they complete
+ */
+function createFakeIndexedDB(initial: Record<string, string> = {}) {
+  const data = new Map(Object.entries(initial));
+  const control = { failNextCommit: false };
+
+  const db = {
+    createObjectStore: () => undefined,
+    transaction: () => {
+      const writes: [string, string | null][] = [];
+      const tx = {
+        error: null as Error | null,
+        oncomplete: null as (() => void) | null,
+        onabort: null as (() => void) | null,
+        objectStore: () => ({
+          put: (value: string, key: string) => writes.push([key, value]),
+          delete: (key: string) => writes.push([key, null]),
+          openCursor: () => {
+            const entries = Array.from(data);
+            const request = {
+              result: null as unknown,
+              onsuccess: null as (() => void) | null,
+              onerror: null,
+            };
+            const advance = (index: number) =>
+              later(() => {
+                const entry = entries[index];
+                request.result = entry
+                  ? { key: entry[0], value: entry[1], continue: () => advance(index + 1) }
+                  : null;
+                request.onsuccess?.();
+              });
+            advance(0);
+            return request;
+          },
+        }),
+      };
+      later(() => {
+        if (writes.length > 0 && control.failNextCommit) {
+          control.failNextCommit = false;
+          tx.error = new Error("QuotaExceededError");
+          tx.onabort?.();
+          return;
+        }
+        writes.forEach(([key, value]) =>
+          value === null ? data.delete(key) : data.set(key, value),
+        );
+        tx.oncomplete?.();
+      });
+      return tx;
+    },
+  };
+
+  const factory = {
+    open: () => {
+      const request = {
+        result: db,
+        error: null,
+        onupgradeneeded: null as (() => void) | null,
+        onsuccess: null as (() => void) | null,
+        onerror: null,
+      };
+      later(() => request.onsuccess?.());
+      return request;
+    },
+  } as unknown as IDBFactory;
+
+  return { data, control, factory };
+}
+
+describe("StorageService", () => {
+  let backend: MemoryStorageBackend;
+  let service: StorageService;
+
+  beforeEach(() => {
+    backend = new MemoryStorageBackend();
+    service = new StorageService(backend);
+  });
+
+  describe("record access", () => {
+    it("should return null for missing records", () => {
+      expect(service.get("missing")).toBeNull();
+      expect(service.has("missing")).toBe(false);
+    });
+
+    it("should round-trip JSON values", () => {
+      service.set("aura_archer_test", { gold: 100, items: ["a", "b"] });
+
+      expect(service.get("aura_archer_test")).toEqual({ gold: 100, items: ["a", "b"] });
+      expect(backend.read("aura_archer_test")).toBe('{"gold":100,"items":["a","b"]}');
+    });
+
+    it("should remove records", () => {
+      service.set("aura_archer_test", { value: 1 });
+      service.remove("aura_archer_test");
+
+      expect(service.has("aura_archer_test")).toBe(false);
+    });
+
+    it("should throw on corrupted records", () => {
+      backend.commit([{ key: "aura_archer_test", value: "not valid json" }]);
+
+      expect(() => service.get("aura_archer_test")).toThrow();
+    });
+  });
+
+  describe("transaction()", () => {
+    it("should commit all writes in a single backend call", () => {
+      const commitSpy = vi.spyOn(backend, "commit");
+
+      service.transaction(() => {
+        service.set("aura_archer_currency", { gold: 50 });
+        service.set("aura_archer_equipment", { level: 2 });
+        expect(commitSpy).not.toHaveBeenCalled();
+      });
+
+      expect(commitSpy).toHaveBeenCalledTimes(1);
+      expect(commitSpy.mock.calls[0][0]).toHaveLength(2);
+      expect(service.get("aura_archer_currency")).toEqual({ gold: 50 });
+      expect(service.get("aura_archer_equipment")).toEqual({ level: 2 });
+    });
+
+    it("should read pending writes inside the transaction", () => {
+      service.transaction(() => {
+        service.set("aura_archer_test", { value: 1 });
+        expect(service.get("aura_archer_test")).toEqual({ value: 1 });
+        expect(backend.read("aura_archer_test")).toBeNull();
+      });
+    });
+
+    it("should return the callback result", () => {
+      const result = service.transaction(() => 42);
+      expect(result).toBe(42);
+    });
+
+    it("should join nested transactions into the outermost commit", () => {
+      const commitSpy = vi.spyOn(backend, "commit");
+
+      service.transaction(() => {
+        service.set("aura_archer_a", { value: 1 });
+        service.transaction(() => {
+          service.set("aura_archer_b", { value: 2 });
+        });
+        expect(commitSpy).not.toHaveBeenCalled();
+      });
+
+      expect(commitSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("should discard writes and reload affected managers when the callback throws", () => {
+      service.set("aura_archer_currency", { gold: 100 });
+      const reloadCurrency = vi.fn();
+      const reloadOther = vi.fn();
+      service.register("aura_archer_currency", reloadCurrency);
+      service.register("aura_archer_other", reloadOther);
+
+      expect(() =>
+        service.transaction(() => {
+          service.set("aura_archer_currency", { gold: 0 });
+          throw new Error("upgrade failed");
+        }),
+      ).toThrow("upgrade failed");
+
+      expect(service.get("aura_archer_currency")).toEqual({ gold: 100 });
+      expect(reloadCurrency).toHaveBeenCalledTimes(1);
+      expect(reloadOther).not.toHaveBeenCalled();
+      expect(service.isInTransaction()).toBe(false);
+    });
+
+    it("should roll back and reload every touched manager when the commit fails", () => {
+      service.set("aura_archer_currency", { gold: 100 });
+      const reloadCurrency = vi.fn();
+      const reloadEquipment = vi.fn();
+      service.register("aura_archer_currency", reloadCurrency);
+      service.register("aura_archer_equipment", reloadEquipment);
+      vi.spyOn(backend, "commit").mockImplementationOnce(() => {
+        throw new Error("QuotaExceededError");
+      });
+
+      expect(() =>
+        service.transaction(() => {
+          service.set("aura_archer_currency", { gold: 0 });
+          service.set("aura_archer_equipment", { level: 2 });
+        }),
+      ).toThrow("QuotaExceededError");
+
+      expect(service.get("aura_archer_currency")).toEqual({ gold: 100 });
+      expect(service.has("aura_archer_equipment")).toBe(false);
+      expect(reloadCurrency).toHaveBeenCalledTimes(1);
+      expect(reloadEquipment).toHaveBeenCalledTimes(1);
+      expect(service.isInTransaction()).toBe(false);
+    });
+
+    it("should roll back when a manager swallows its failed write", () => {
+      service.set("aura_archer_currency", { gold: 100 });
+      const reloadCurrency = vi.fn();
+      const reloadEquipment = vi.fn();
+      service.register("aura_archer_currency", reloadCurrency);
+      service.register("aura_archer_equipment", reloadEquipment);
+
+      expect(() =>
+        service.transaction(() => {
+          service.set("aura_archer_currency", { gold: 0 });
+          try {
+            service.set("aura_archer_equipment", { level: BigInt(2) });
+          } catch {
+            // Managers log save errors and carry on
+          }
+        }),
+      ).toThrow();
+
+      expect(service.get("aura_archer_currency")).toEqual({ gold: 100 });
+      expect(reloadCurrency).toHaveBeenCalledTimes(1);
+      expect(reloadEquipment).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("useBackend()", () => {
+    it("should copy records into an empty backend and reload managers", () => {
+      service.set("aura_archer_currency", { gold: 100 });
+      const reload = vi.fn();
+      service.register("aura_archer_currency", reload);
+
+      const next = new MemoryStorageBackend();
+      service.useBackend(next);
+
+      expect(next.read("aura_archer_currency")).toBe('{"gold":100}');
+      expect(service.getBackend()).toBe(next);
+      expect(reload).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep existing records in a non-empty backend", () => {
+      service.set("aura_archer_currency", { gold: 100 });
+
+      const next = new MemoryStorageBackend({ aura_archer_currency: '{"gold":7}' });
+      service.useBackend(next);
+
+      expect(service.get("aura_archer_currency")).toEqual({ gold: 7 });
+    });
+  });
+
+  describe("sandbox", () => {
+    it("should read sandboxed writes but never commit them", () => {
+      service.set("aura_archer_currency", { gold: 100 });
+      const reload = vi.fn();
+      service.register("aura_archer_currency", reload);
+
+      service.beginSandbox();
+      service.set("aura_archer_currency", { gold: 5 });
+      service.transaction(() => service.set("aura_archer_other", { a: 1 }));
+
+      expect(service.get("aura_archer_currency")).toEqual({ gold: 5 });
+      expect(backend.read("aura_archer_currency")).toBe('{"gold":100}');
+      expect(backend.read("aura_archer_other")).toBeNull();
+
+      service.discardSandbox();
+
+      expect(service.isSandboxed()).toBe(false);
+      expect(service.isInTransaction()).toBe(false);
+      expect(service.get("aura_archer_currency")).toEqual({ gold: 100 });
+      expect(reload).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not open a sandbox inside a transaction", () => {
+      expect(() => service.transaction(() => service.beginSandbox())).toThrow(
+        "Cannot open a sandbox",
+      );
+    });
+  });
+});
+
+describe("LocalStorageBackend", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("should write multi-record commits and clear the journal", () => {
+    const backend = new LocalStorageBackend();
+
+    backend.commit([
+      { key: "aura_archer_a", value: "1" },
+      { key: "aura_archer_b", value: "2" },
+    ]);
+
+    expect(localStorage.getItem("aura_archer_a")).toBe("1");
+    expect(localStorage.getItem("aura_archer_b")).toBe("2");
+    expect(localStorage.getItem(STORAGE_JOURNAL_KEY)).toBeNull();
+  });
+
+  it("should put back written records when a commit fails partway", () => {
+    localStorage.setItem("aura_archer_a", "old");
+    const backend = new LocalStorageBackend();
+    const storage = Object.getPrototypeOf(localStorage) as typeof localStorage;
+    const setItem = storage.setItem;
+    vi.spyOn(storage, "setItem").mockImplementation(function (
+      this: typeof localStorage,
+      key: string,
+      value: string,
+    ) {
+      if (key === "aura_archer_b") throw new Error("QuotaExceededError");
+      setItem.call(this, key, value);
+    });
+
+    expect(() =>
+      backend.commit([
+        { key: "aura_archer_a", value: "new" },
+        { key: "aura_archer_b", value: "2" },
+      ]),
+    ).toThrow("QuotaExceededError");
+    vi.restoreAllMocks();
+
+    expect(localStorage.getItem("aura_archer_a")).toBe("old");
+    expect(localStorage.getItem("aura_archer_b")).toBeNull();
+    expect(localStorage.getItem(STORAGE_JOURNAL_KEY)).toBeNull();
+  });
+
+  it("should replay a journal left behind by an interrupted commit", () => {
+    localStorage.setItem("aura_archer_a", "old");
+    localStorage.setItem(
+      STORAGE_JOURNAL_KEY,
+      JSON.stringify([
+        { key: "aura_archer_a", value: "new" },
+        { key: "aura_archer_b", value: null },
+      ]),
+    );
+    localStorage.setItem("aura_archer_b", "stale");
+
+    new LocalStorageBackend();
+
+    expect(localStorage.getItem("aura_archer_a")).toBe("new");
+    expect(localStorage.getItem("aura_archer_b")).toBeNull();
+    expect(localStorage.getItem(STORAGE_JOURNAL_KEY)).toBeNull();
+  });
+
+  it("should only list game records", () => {
+    localStorage.setItem("aura_archer_a", "1");
+    localStorage.setItem("unrelated", "x");
+
+    expect(new LocalStorageBackend().keys()).toEqual(["aura_archer_a"]);
+  });
+});
+
+describe("IndexedDBStorageBackend", () => {
+  it("should load existing records when opened", async () => {
+    const { factory } = createFakeIndexedDB({ aura_archer_a: "1", aura_archer_b: "2" });
+
+    const backend = await IndexedDBStorageBackend.open("test", factory);
+
+    expect(backend.read("aura_archer_a")).toBe("1");
+    expect(backend.keys().sort()).toEqual(["aura_archer_a", "aura_archer_b"]);
+  });
+
+  it("should serve in-flight writes and persist them when the transaction completes", async () => {
+    const { data, factory } = createFakeIndexedDB({ aura_archer_a: "1" });
+    const backend = await IndexedDBStorageBackend.open("test", factory);
+
+    const committed = backend.commit([
+      { key: "aura_archer_a", value: null },
+      { key: "aura_archer_b", value: "2" },
+    ]);
+
+    expect(backend.read("aura_archer_a")).toBeNull();
+    expect(backend.read("aura_archer_b")).toBe("2");
+    expect(backend.keys()).toEqual(["aura_archer_b"]);
+    expect(data.get("aura_archer_a")).toBe("1");
+
+    await committed;
+
+    expect(data.has("aura_archer_a")).toBe(false);
+    expect(data.get("aura_archer_b")).toBe("2");
+    expect(backend.read("aura_archer_b")).toBe("2");
+  });
+
+  it("should reject and keep the last persisted records when a commit fails", async () => {
+    const { control, factory } = createFakeIndexedDB({ aura_archer_a: "1" });
+    const backend = await IndexedDBStorageBackend.open("test", factory);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    control.failNextCommit = true;
+
+    await expect(backend.commit([{ key: "aura_archer_a", value: "2" }])).rejects.toThrow(
+      "QuotaExceededError",
+    );
+
+    expect(backend.read("aura_archer_a")).toBe("1");
+  });
+
+  it("should reload managers when an asynchronous commit fails", async () => {
+    const { control, factory } = createFakeIndexedDB({ aura_archer_currency: '{"gold":100}' });
+    const service = new StorageService(await IndexedDBStorageBackend.open("test", factory));
+    const reload = vi.fn();
+    service.register("aura_archer_currency", reload);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    control.failNextCommit = true;
+
+    service.set("aura_archer_currency", { gold: 0 });
+    expect(service.get("aura_archer_currency")).toEqual({ gold: 0 });
+
+    await vi.waitFor(() => expect(reload).toHaveBeenCalledTimes(1));
+    expect(service.get("aura_archer_currency")).toEqual({ gold: 100 });
+  });
+});
@@ -0,0 +1,353 @@
+/**
+ * StorageService - Single persistence layer shared by all managers
+ *
+ * Every manager reads and writes its save record through this service instead
+ * of touching localStorage directly. The service adds:
+ * - A pluggable backend (localStorage, IndexedDB, in-memory)
+ * - Transactions: writes made inside `transaction()` are buffered and
+ *   committed together, so multi-manager operations (e.g. spending gold and
+ *   upgrading an item) persist all-or-nothing
+ * - Rollback: if a transaction throws, one of its writes fails or its commit
+ *   fails, managers that wrote during it are reloaded from the last committed
+ *   state
+ * - Versioning: records with a schema are migrated on read and stamped with
+ *   their current version on write
+ * - Sandbox: a transaction that is never committed, so a watched replay
+ *   cannot change progress
+ */
+
+import { LocalStorageBackend, StorageBackend, StorageWrite } from "./StorageBackend";
+import { SaveRecord, SaveSchema, migrateRecord } from "./SaveMigrations";
+import { SAVE_SCHEMAS } from "./SaveSchemas";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Callback that reloads a manager's in-memory state from storage
+ */
+export type StorageReloadCallback = () => void;
+
+// ============================================
+// StorageService Class
+// ============================================
+
+export class StorageService {
+  private backend: StorageBackend;
+
+  /** Writes buffered by the active transaction (null when not in a transaction) */
+  private pending: Map<string, string | null> | null = null;
+
+  /** Nesting depth - inner transactions join the outermost one */
+  private transactionDepth: number = 0;
+
+  /** Record keys written (or attempted) during the active transaction */
+  private touched: Set<string> = new Set();
+
+  /**
+   * First write that failed during the active transaction. Managers swallow
+   * their own save errors, so the transaction fails on their behalf.
+   */
+  private writeFailure: { error: unknown } | null = null;
+
+  /** Whether the pending writes belong to a sandbox (discarded, never committed) */
+  private sandboxed: boolean = false;
+
+  /** Reload callbacks registered per record key */
+  private reloadCallbacks: Map<string, StorageReloadCallback> = new Map();
+
+  /** Versioning schemas per record key */
+  private schemas: Record<string, SaveSchema>;
+
+  constructor(backend: StorageBackend, schemas: Record<string, SaveSchema> = {}) {
+    this.backend = backend;
+    this.schemas = schemas;
+  }
+
+  // ============================================
+  // Backend
+  // ============================================
+
+  /**
+   * Get the active backend
+   */
+  getBackend(): StorageBackend {
+    return this.backend;
+  }
+
+  /**
+   * Switch to a different backend.
+   * If the new backend is empty, existing records are copied over first.
+   * All registered managers are reloaded from the new backend.
+   */
+  useBackend(backend: StorageBackend): void {
+    if (this.isInTransaction()) {
+      throw new Error("StorageService: Cannot switch backend during a transaction");
+    }
+
+    if (backend.keys().length === 0) {
+      const writes: StorageWrite[] = this.backend
+        .keys()
+        .map((key) => ({ key, value: this.backend.read(key) }));
+      this.commitToBackend(backend, writes);
+      console.log(
+        `StorageService: Copied ${writes.length} records from ${this.backend.name} to ${backend.name}`,
+      );
+    }
+
+    this.backend = backend;
+    this.reloadAll();
+  }
+
+  /**
+   * Register a manager's reload callback for a record key.
+   * Used for transaction rollback and backend switches.
+   */
+  register(key: string, reload: StorageReloadCallback): void {
+    this.reloadCallbacks.set(key, reload);
+  }
+
+  /**
+   * Reload every registered manager from storage.
+   * Used after records are replaced wholesale (backend switch, save import).
+   */
+  reloadAll(): void {
+    this.reloadCallbacks.forEach((reload) => reload());
+  }
+
+  // ============================================
+  // Record Access
+  // ============================================
+
+  /**
+   * Get the versioning schema for a record, if it has one
+   */
+  getSchema(key: string): SaveSchema | undefined {
+    return this.schemas[key];
+  }
+
+  /**
+   * Read and parse a record. Returns null if the record doesn't exist.
+   * Records with a schema are migrated to the current version, and the
+   * migrated record is written back.
+   * Throws if the stored value is not valid JSON or cannot be migrated.
+   */
+  get<T>(key: string): T | null {
+    const raw = this.pending?.has(key) ? this.pending.get(key)! : this.backend.read(key);
+    if (raw === null) return null;
+
+    const parsed = JSON.parse(raw) as SaveRecord;
+    const schema = this.schemas[key];
+    if (!schema) return parsed as T;
+
+    const migrated = migrateRecord(schema, parsed);
+    if (migrated !== parsed) {
+      console.log(`StorageService: Migrated ${key} to v${schema.version}`);
+      this.write(key, JSON.stringify(migrated));
+    }
+    return migrated as T;
+  }
+
+  /**
+   * Check if a record exists
+   */
+  has(key: string): boolean {
+    if (this.pending?.has(key)) {
+      return this.pending.get(key) !== null;
+    }
+    return this.backend.read(key) !== null;
+  }
+
+  /**
+   * Serialize and write a record (buffered if inside a transaction).
+   * Records with a schema are stamped with the current version.
+   */
+  set(key: string, value: object): void {
+    try {
+      const schema = this.schemas[key];
+      const record = schema ? { ...value, version: schema.version } : value;
+      this.write(key, JSON.stringify(record));
+    } catch (error) {
+      this.recordWriteFailure(key, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a record (buffered if inside a transaction)
+   */
+  remove(key: string): void {
+    this.write(key, null);
+  }
+
+  private write(key: string, value: string | null): void {
+    if (this.pending) {
+      this.touched.add(key);
+      this.pending.set(key, value);
+      return;
+    }
+    this.commitToBackend(this.backend, [{ key, value }]);
+  }
+
+  /**
+   * Remember a failed write so the active transaction rolls back instead of
+   * committing the writes around it
+   */
+  private recordWriteFailure(key: string, error: unknown): void {
+    if (!this.isInTransaction()) return;
+    this.touched.add(key);
+    this.writeFailure ??= { error };
+  }
+
+  /**
+   * Commit writes to a backend. A backend that persists asynchronously reports
+   * failures later; the affected managers are then reloaded so they match
+   * what was actually persisted.
+   */
+  private commitToBackend(backend: StorageBackend, writes: StorageWrite[]): void {
+    const result = backend.commit(writes);
+    if (!result) return;
+
+    result.catch((error: unknown) => {
+      console.error(`StorageService: ${backend.name} commit failed:`, error);
+      if (backend === this.backend) {
+        this.reloadKeys(writes.map((write) => write.key));
+      }
+    });
+  }
+
+  private reloadKeys(keys: Iterable<string>): void {
+    for (const key of keys) {
+      this.reloadCallbacks.get(key)?.();
+    }
+  }
+
+  // ============================================
+  // Transactions
+  // ============================================
+
+  /**
+   * Check whether a transaction is currently open
+   */
+  isInTransaction(): boolean {
+    return this.transactionDepth > 0;
+  }
+
+  /**
+   * Run `fn` as one atomic unit.
+   * All records written during `fn` are committed in a single backend commit
+   * when the outermost transaction finishes. If `fn` throws, a write made
+   * during `fn` failed, or the commit fails, the buffered writes are
+   * discarded, affected managers are reloaded, and the error is rethrown.
+   */
+  transaction<T>(fn: () => T): T {
+    if (this.transactionDepth === 0) {
+      this.pending = new Map();
+      this.touched = new Set();
+      this.writeFailure = null;
+    }
+    this.transactionDepth++;
+
+    let result: T;
+    try {
+      result = fn();
+    } catch (error) {
+      this.transactionDepth--;
+      if (this.transactionDepth === 0) {
+        this.rollback();
+      }
+      throw error;
+    }
+
+    this.transactionDepth--;
+    if (this.transactionDepth === 0) {
+      try {
+        if (this.writeFailure) {
+          throw this.writeFailure.error;
+        }
+        this.flush();
+      } catch (error) {
+        this.rollback();
+        throw error;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Commit all buffered writes in a single backend call
+   */
+  private flush(): void {
+    const pending = this.pending;
+    this.pending = null;
+    if (!pending || pending.size === 0) return;
+
+    const writes: StorageWrite[] = Array.from(pending, ([key, value]) => ({ key, value }));
+    this.commitToBackend(this.backend, writes);
+    this.touched = new Set();
+  }
+
+  /**
+   * Discard buffered writes and restore in-memory state of every manager that
+   * wrote (or tried to write) during the transaction
+   */
+  private rollback(): void {
+    const touched = this.touched;
+    this.pending = null;
+    this.touched = new Set();
+    this.writeFailure = null;
+
+    console.warn(`StorageService: Rolling back transaction (${touched.size} records)`);
+    this.reloadKeys(touched);
+  }
+
+  // ============================================
+  // Sandbox
+  // ============================================
+
+  /**
+   * Buffer every write from now on without ever committing it.
+   * Reads see the buffered writes until `discardSandbox()`; transactions
+   * opened meanwhile join the sandbox.
+   */
+  beginSandbox(): void {
+    if (this.isInTransaction()) {
+      throw new Error("StorageService: Cannot open a sandbox during a transaction");
+    }
+    this.pending = new Map();
+    this.touched = new Set();
+    this.writeFailure = null;
+    this.transactionDepth = 1;
+    this.sandboxed = true;
+  }
+
+  /**
+   * Check whether a sandbox is open
+   */
+  isSandboxed(): boolean {
+    return this.sandboxed;
+  }
+
+  /**
+   * Drop every write made in the sandbox and reload all managers
+   */
+  discardSandbox(): void {
+    if (!this.sandboxed) return;
+
+    console.log(`StorageService: Discarding sandbox (${this.pending?.size ?? 0} records)`);
+    this.sandboxed = false;
+    this.pending = null;
+    this.touched = new Set();
+    this.writeFailure = null;
+    this.transactionDepth = 0;
+    this.reloadAll();
+  }
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+/** Global storage service used by every manager */
+export const storageService = new StorageService(new LocalStorageBackend(), SAVE_SCHEMAS);
@@ -0,0 +1,51 @@
+// Persistence module exports
+export {
+  type StorageWrite,
+  type StorageBackend,
+  STORAGE_JOURNAL_KEY,
+  LocalStorageBackend,
+  MemoryStorageBackend,
+  IndexedDBStorageBackend,
+} from "./StorageBackend";
+
+export {
+  type SaveRecord,
+  type RecordMigration,
+  type SaveSchema,
+  getRecordVersion,
+  needsMigration,
+  migrateRecord,
+} from "./SaveMigrations";
+
+export { type StorageRecordName, type StorageKey, STORAGE_KEYS, SAVE_SCHEMAS } from "./SaveSchemas";
+
+export { type StorageReloadCallback, StorageService, storageService } from "./StorageService";
+
+export {
+  type SaveBundle,
+  type SaveDiffEntry,
+  type SaveDiff,
+  type SaveImport,
+  SAVE_CODE_PREFIX,
+  collectSaveBundle,
+  encodeSaveCode,
+  exportSaveCode,
+  decodeSaveCode,
+  migrateSaveRecords,
+  readSaveCode,
+  applySaveImport,
+  diffSaveBundle,
+} from "./SaveTransfer";
+
+export {
+  type SnapshotReason,
+  type SaveSnapshot,
+  type SnapshotSummary,
+  SNAPSHOT_STORAGE_KEY,
+  MAX_SNAPSHOTS,
+  MAX_SNAPSHOT_BYTES,
+  SNAPSHOT_REASON_LABELS,
+  SaveSnapshotStore,
+  summarizeSnapshot,
+  saveSnapshots,
+} from "./SaveSnapshots";
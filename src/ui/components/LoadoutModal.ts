@@ -0,0 +1,227 @@
+import Phaser from "phaser";
+import { audioManager } from "../../systems/AudioManager";
+import { LOADOUT_NAME_MAX_LENGTH, type LoadoutPreset } from "../../config/loadoutData";
+
+export interface LoadoutModalConfig {
+  scene: Phaser.Scene;
+  /** Loadout to edit, or undefined to save the current setup as a new one */
+  loadout?: LoadoutPreset;
+  /** Name filled in when saving a new loadout */
+  defaultName?: string;
+  /** New loadout: save the current setup. Existing loadout: rename it. */
+  onSave: (name: string) => void;
+  /** Replace an existing loadout with the current setup and the typed name */
+  onUpdate?: (name: string) => void;
+  onDelete?: () => void;
+}
+
+export interface LoadoutModalResult {
+  destroy: () => void;
+}
+
+interface ModalButton {
+  label: string;
+  color: number;
+  onClick: (name: string) => void;
+}
+
+/**
+ * LoadoutModal - Names a new loadout, or renames, updates or deletes one.
+ * Uses an HTML input positioned over the canvas.
+ */
+export function showLoadoutModal(config: LoadoutModalConfig): LoadoutModalResult {
+  const { scene, loadout, defaultName = "", onSave, onUpdate, onDelete } = config;
+  const width = scene.cameras.main.width;
+  const height = scene.cameras.main.height;
+  const isNew = loadout === undefined;
+
+  const elements: Phaser.GameObjects.GameObject[] = [];
+
+  // Create semi-transparent overlay
+  const overlay = scene.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.7);
+  overlay.setDepth(100);
+  elements.push(overlay);
+
+  // Create message container
+  const messageBox = scene.add.rectangle(width / 2, height / 2, 290, 240, 0x222222, 1);
+  messageBox.setStrokeStyle(2, 0x4a9eff);
+  messageBox.setDepth(101);
+  elements.push(messageBox);
+
+  const title = scene.add.text(
+    width / 2,
+    height / 2 - 90,
+    isNew ? "💾 New Loadout" : "✎ Edit Loadout",
+    {
+      fontSize: "22px",
+      color: "#4a9eff",
+      fontStyle: "bold",
+    },
+  );
+  title.setOrigin(0.5);
+  title.setDepth(102);
+  elements.push(title);
+
+  const message = scene.add.text(
+    width / 2,
+    height / 2 - 5,
+    isNew
+      ? "Saves your hero, equipped gear,\nability priority and difficulty."
+      : "UPDATE saves your current hero, gear,\nability priority and difficulty.",
+    {
+      fontSize: "11px",
+      color: "#aaaaaa",
+      align: "center",
+    },
+  );
+  message.setOrigin(0.5);
+  message.setDepth(102);
+  elements.push(message);
+
+  // Name input (HTML element, positioned over the dialog)
+  const input = createNameInput(scene, height / 2 - 45, loadout?.name ?? defaultName);
+
+  const destroy = () => {
+    input.container.parentNode?.removeChild(input.container);
+    scene.scale.off("resize", input.updatePosition);
+    scene.events.off("shutdown", destroy);
+    elements.forEach((el) => el.destroy());
+  };
+
+  // SAVE for a new loadout, RENAME and UPDATE for an existing one
+  const buttons: ModalButton[] = isNew
+    ? [{ label: "SAVE", color: 0x4a9eff, onClick: onSave }]
+    : [
+        { label: "RENAME", color: 0x4a4a6a, onClick: onSave },
+        ...(onUpdate ? [{ label: "UPDATE", color: 0x4a9eff, onClick: onUpdate }] : []),
+      ];
+
+  const buttonWidth = 110;
+  const buttonGap = 12;
+  const startX = width / 2 - ((buttons.length - 1) * (buttonWidth + buttonGap)) / 2;
+
+  buttons.forEach((button, index) => {
+    const x = startX + index * (buttonWidth + buttonGap);
+    const bg = scene.add.rectangle(x, height / 2 + 40, buttonWidth, 36, button.color, 1);
+    bg.setDepth(102);
+    bg.setInteractive({ useHandCursor: true });
+    elements.push(bg);
+
+    const text = scene.add.text(x, height / 2 + 40, button.label, {
+      fontSize: "15px",
+      color: "#ffffff",
+      fontStyle: "bold",
+    });
+    text.setOrigin(0.5);
+    text.setDepth(103);
+    elements.push(text);
+
+    bg.on("pointerover", () => bg.setAlpha(0.8));
+    bg.on("pointerout", () => bg.setAlpha(1));
+    bg.on("pointerdown", () => {
+      audioManager.playMenuSelect();
+      const name = input.element.value;
+      destroy();
+      button.onClick(name);
+    });
+  });
+
+  input.element.addEventListener("keydown", (e) => {
+    if (e.key === "Enter") {
+      const name = input.element.value;
+      destroy();
+      buttons[0].onClick(name);
+    }
+  });
+
+  if (onDelete) {
+    const deleteText = scene.add.text(width / 2, height / 2 + 90, "Delete loadout", {
+      fontSize: "12px",
+      color: "#ff6666",
+    });
+    deleteText.setOrigin(0.5);
+    deleteText.setDepth(102);
+    deleteText.setInteractive({ useHandCursor: true });
+    deleteText.on("pointerdown", () => {
+      audioManager.playMenuSelect();
+      destroy();
+      onDelete();
+    });
+    elements.push(deleteText);
+  } else {
+    const dismissText = scene.add.text(width / 2, height / 2 + 90, "Tap outside to dismiss", {
+      fontSize: "12px",
+      color: "#888888",
+    });
+    dismissText.setOrigin(0.5);
+    dismissText.setDepth(102);
+    elements.push(dismissText);
+  }
+
+  // Make overlay interactive to dismiss
+  overlay.setInteractive();
+  overlay.on("pointerdown", (pointer: Phaser.Input.Pointer) => {
+    const boxBounds = messageBox.getBounds();
+    if (!boxBounds.contains(pointer.x, pointer.y)) {
+      destroy();
+    }
+  });
+
+  // The HTML input outlives the scene otherwise
+  scene.events.once("shutdown", destroy);
+
+  input.element.focus();
+  input.element.select();
+
+  return { destroy };
+}
+
+/**
+ * Create the loadout name input centered on the canvas at a game Y position
+ */
+function createNameInput(
+  scene: Phaser.Scene,
+  gameY: number,
+  value: string,
+): { container: HTMLDivElement; element: HTMLInputElement; updatePosition: () => void } {
+  const container = document.createElement("div");
+  container.style.cssText = `
+    position: absolute;
+    transform: translate(-50%, -50%);
+    z-index: 10000;
+  `;
+
+  const element = document.createElement("input");
+  element.type = "text";
+  element.placeholder = "Loadout name";
+  element.value = value;
+  element.maxLength = LOADOUT_NAME_MAX_LENGTH;
+  element.autocomplete = "off";
+  element.style.cssText = `
+    width: 200px;
+    padding: 10px 14px;
+    font-size: 16px;
+    text-align: center;
+    background-color: #2a2a3e;
+    color: #ffffff;
+    border: 2px solid #444466;
+    border-radius: 8px;
+    outline: none;
+    box-sizing: border-box;
+  `;
+
+  container.appendChild(element);
+  document.body.appendChild(container);
+
+  // Position over the canvas, accounting for canvas offset and scale
+  const updatePosition = () => {
+    const canvasRect = scene.game.canvas.getBoundingClientRect();
+    const scaleY = canvasRect.height / scene.cameras.main.height;
+    container.style.top = `${canvasRect.top + window.scrollY + gameY * scaleY}px`;
+    container.style.left = `${canvasRect.left + canvasRect.width / 2}px`;
+  };
+  updatePosition();
+  scene.scale.on("resize", updatePosition);
+
+  return { container, element, updatePosition };
+}
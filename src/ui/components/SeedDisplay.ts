@@ -0,0 +1,71 @@
+import Phaser from "phaser";
+import { audioManager } from "../../systems/AudioManager";
+
+export interface SeedDisplayConfig {
+  scene: Phaser.Scene;
+  x: number;
+  y: number;
+  seed: string;
+  depth?: number;
+}
+
+export interface SeedDisplayResult {
+  container: Phaser.GameObjects.Container;
+  destroy: () => void;
+}
+
+/**
+ * SeedDisplay - Shows a run's seed with a COPY button so it can be shared
+ */
+export function createSeedDisplay(config: SeedDisplayConfig): SeedDisplayResult {
+  const { scene, x, y, seed, depth = 10 } = config;
+
+  const container = scene.add.container(x, y);
+  container.setDepth(depth);
+
+  const label = scene.add.text(0, 0, `Seed: ${seed}`, {
+    fontSize: "13px",
+    fontFamily: "monospace",
+    color: "#aaaaaa",
+  });
+  label.setOrigin(1, 0.5);
+
+  const copyButton = scene.add.text(8, 0, "COPY", {
+    fontSize: "11px",
+    color: "#ffffff",
+    backgroundColor: "#444466",
+    padding: { x: 8, y: 3 },
+    fontStyle: "bold",
+  });
+  copyButton.setOrigin(0, 0.5);
+  copyButton.setInteractive({ useHandCursor: true });
+
+  // Center the label + button pair on x
+  const offset = (label.width - (copyButton.width + 8)) / 2;
+  label.setX(offset);
+  copyButton.setX(offset + 8);
+
+  container.add([label, copyButton]);
+
+  copyButton.on("pointerover", () => copyButton.setBackgroundColor("#5a5a88"));
+  copyButton.on("pointerout", () => copyButton.setBackgroundColor("#444466"));
+  copyButton.on("pointerdown", async () => {
+    audioManager.playMenuSelect();
+    const copied = await navigator.clipboard
+      ?.writeText(seed)
+      .then(() => true)
+      .catch(() => false);
+    if (!copyButton.active) return;
+
+    copyButton.setText(copied ? "COPIED" : "FAILED");
+    scene.time.delayedCall(1500, () => {
+      if (copyButton.active) copyButton.setText("COPY");
+    });
+  });
+
+  const destroy = () => {
+    container.destroy();
+  };
+
+  return { container, destroy };
+}
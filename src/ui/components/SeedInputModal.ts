@@ -0,0 +1,186 @@
+import Phaser from "phaser";
+import { audioManager } from "../../systems/AudioManager";
+import { SeededRandom } from "../../systems/SeededRandom";
+
+export interface SeedInputModalConfig {
+  scene: Phaser.Scene;
+  /** Called with the normalized seed when the player starts the run */
+  onSubmit: (seed: string) => void;
+}
+
+export interface SeedInputModalResult {
+  destroy: () => void;
+}
+
+/**
+ * SeedInputModal - Lets the player type a shared seed to start an endless run
+ * with the same rooms and enemies. Uses an HTML input positioned over the canvas.
+ */
+export function showSeedInputModal(config: SeedInputModalConfig): SeedInputModalResult {
+  const { scene, onSubmit } = config;
+  const width = scene.cameras.main.width;
+  const height = scene.cameras.main.height;
+
+  const elements: Phaser.GameObjects.GameObject[] = [];
+
+  // Create semi-transparent overlay
+  const overlay = scene.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.7);
+  overlay.setDepth(100);
+  elements.push(overlay);
+
+  // Create message container
+  const messageBox = scene.add.rectangle(width / 2, height / 2, 280, 220, 0x222222, 1);
+  messageBox.setStrokeStyle(2, 0x4a9eff);
+  messageBox.setDepth(101);
+  elements.push(messageBox);
+
+  const title = scene.add.text(width / 2, height / 2 - 85, "🎲 Play a Seed", {
+    fontSize: "22px",
+    color: "#4a9eff",
+    fontStyle: "bold",
+  });
+  title.setOrigin(0.5);
+  title.setDepth(102);
+  elements.push(title);
+
+  const message = scene.add.text(
+    width / 2,
+    height / 2 + 5,
+    "Same rooms and enemies as the shared run.\nSeeded runs don't count for high scores.",
+    {
+      fontSize: "11px",
+      color: "#aaaaaa",
+      align: "center",
+    },
+  );
+  message.setOrigin(0.5);
+  message.setDepth(102);
+  elements.push(message);
+
+  // Play button
+  const playBg = scene.add.rectangle(width / 2, height / 2 + 50, 160, 40, 0x4a9eff, 1);
+  playBg.setStrokeStyle(2, 0x6bb6ff);
+  playBg.setDepth(102);
+  playBg.setInteractive({ useHandCursor: true });
+  elements.push(playBg);
+
+  const playText = scene.add.text(width / 2, height / 2 + 50, "PLAY SEED", {
+    fontSize: "16px",
+    color: "#ffffff",
+    fontStyle: "bold",
+  });
+  playText.setOrigin(0.5);
+  playText.setDepth(103);
+  elements.push(playText);
+
+  playBg.on("pointerover", () => {
+    playBg.setFillStyle(0x6bb6ff);
+  });
+  playBg.on("pointerout", () => {
+    playBg.setFillStyle(0x4a9eff);
+  });
+
+  const dismissText = scene.add.text(width / 2, height / 2 + 90, "Tap outside to dismiss", {
+    fontSize: "12px",
+    color: "#888888",
+  });
+  dismissText.setOrigin(0.5);
+  dismissText.setDepth(102);
+  elements.push(dismissText);
+
+  // Seed input (HTML element, positioned over the dialog)
+  const input = createSeedInput(scene, height / 2 - 40);
+
+  const destroy = () => {
+    input.container.parentNode?.removeChild(input.container);
+    scene.scale.off("resize", input.updatePosition);
+    scene.events.off("shutdown", destroy);
+    elements.forEach((el) => el.destroy());
+  };
+
+  const submit = () => {
+    const seed = SeededRandom.normalizeSeed(input.element.value);
+    if (!seed) {
+      message.setText("Seeds are 1-6 letters or digits");
+      message.setColor("#ff4444");
+      return;
+    }
+
+    audioManager.playGameStart();
+    destroy();
+    onSubmit(seed);
+  };
+
+  playBg.on("pointerdown", submit);
+  input.element.addEventListener("keydown", (e) => {
+    if (e.key === "Enter") {
+      submit();
+    }
+  });
+
+  // Make overlay interactive to dismiss
+  overlay.setInteractive();
+  overlay.on("pointerdown", (pointer: Phaser.Input.Pointer) => {
+    const boxBounds = messageBox.getBounds();
+    if (!boxBounds.contains(pointer.x, pointer.y)) {
+      destroy();
+    }
+  });
+
+  // The HTML input outlives the scene otherwise
+  scene.events.once("shutdown", destroy);
+
+  input.element.focus();
+
+  return { destroy };
+}
+
+/**
+ * Create the seed text input centered on the canvas at a game Y position
+ */
+function createSeedInput(
+  scene: Phaser.Scene,
+  gameY: number,
+): { container: HTMLDivElement; element: HTMLInputElement; updatePosition: () => void } {
+  const container = document.createElement("div");
+  container.style.cssText = `
+    position: absolute;
+    transform: translate(-50%, -50%);
+    z-index: 10000;
+  `;
+
+  const element = document.createElement("input");
+  element.type = "text";
+  element.placeholder = "SEED";
+  element.maxLength = 6;
+  element.autocomplete = "off";
+  element.style.cssText = `
+    width: 160px;
+    padding: 10px 14px;
+    font-size: 18px;
+    font-family: monospace;
+    text-align: center;
+    text-transform: uppercase;
+    background-color: #2a2a3e;
+    color: #ffffff;
+    border: 2px solid #444466;
+    border-radius: 8px;
+    outline: none;
+    box-sizing: border-box;
+  `;
+
+  container.appendChild(element);
+  document.body.appendChild(container);
+
+  // Position over the canvas, accounting for canvas offset and scale
+  const updatePosition = () => {
+    const canvasRect = scene.game.canvas.getBoundingClientRect();
+    const scaleY = canvasRect.height / scene.cameras.main.height;
+    container.style.top = `${canvasRect.top + window.scrollY + gameY * scaleY}px`;
+    container.style.left = `${canvasRect.left + canvasRect.width / 2}px`;
+  };
+  updatePosition();
+  scene.scale.on("resize", updatePosition);
+
+  return { container, element, updatePosition };
+}
@@ -0,0 +1,525 @@
+import Phaser from "phaser";
+import { talentManager } from "../../systems/TalentManager";
+import { saveManager } from "../../systems/SaveManager";
+import {
+  BRANCH_COLORS,
+  TalentTreeNode,
+  TalentTreeNodeId,
+  getAllTreeNodes,
+  getTreeNode,
+} from "../../config/talentTreeData";
+
+export interface TalentTreeViewConfig {
+  scene: Phaser.Scene;
+  /** Top of the view (points and respec row) */
+  top: number;
+  /** Bottom of the view (below the node detail panel) */
+  bottom: number;
+  /** Buy the next rank of a node */
+  onUnlockNode: (nodeId: TalentTreeNodeId) => void;
+  /** Refund every spent talent point for gold (already confirmed) */
+  onRespec: () => void;
+}
+
+interface NodeDisplay {
+  circle: Phaser.GameObjects.Arc;
+  rankText: Phaser.GameObjects.Text;
+  nameText: Phaser.GameObjects.Text;
+}
+
+/** Distance between node columns and rows in tree space */
+const COL_SPACING = 72;
+const ROW_SPACING = 95;
+const NODE_RADIUS = 22;
+
+const MIN_ZOOM = 0.6;
+const MAX_ZOOM = 1.8;
+const ZOOM_STEP = 1.2;
+
+/** Pixels a pointer must move before a press becomes a pan */
+const DRAG_THRESHOLD = 8;
+
+/** Pixels of the tree that always stay inside the viewport */
+const PAN_MARGIN = 60;
+
+/** How long the respec button waits for the confirming tap */
+const RESPEC_CONFIRM_MS = 3000;
+
+/**
+ * TalentTreeView - Pannable, zoomable talent tree with a node detail panel
+ *
+ * Drag to pan, mouse wheel, pinch or the +/− buttons to zoom, tap a node for
+ * its details and BUY button. Reads ranks from talentManager and talent
+ * points from saveManager; buying and respec are left to the scene.
+ */
+export class TalentTreeView {
+  private scene: Phaser.Scene;
+  private onUnlockNode: (nodeId: TalentTreeNodeId) => void;
+  private onRespec: () => void;
+
+  private viewport: Phaser.Geom.Rectangle;
+  private content: Phaser.GameObjects.Container;
+  private lines: Phaser.GameObjects.Graphics;
+  private maskGraphics: Phaser.GameObjects.Graphics;
+  private nodeDisplays: Map<TalentTreeNodeId, NodeDisplay> = new Map();
+
+  /** Everything outside the masked tree content */
+  private elements: (Phaser.GameObjects.GameObject & Phaser.GameObjects.Components.Visible)[] = [];
+  private pointsText!: Phaser.GameObjects.Text;
+  private respecText!: Phaser.GameObjects.Text;
+  private detailTitle!: Phaser.GameObjects.Text;
+  private detailDescription!: Phaser.GameObjects.Text;
+  private detailStatus!: Phaser.GameObjects.Text;
+  private buyButton!: Phaser.GameObjects.Container;
+  private buyText!: Phaser.GameObjects.Text;
+
+  private selectedNodeId: TalentTreeNodeId | null = null;
+  private visible = true;
+  private zoom = 1;
+
+  // Pan and pinch state
+  private isDragging = false;
+  private dragMoved = false;
+  private dragStart = { x: 0, y: 0 };
+  private contentStart = { x: 0, y: 0 };
+  private pinchStartDistance = 0;
+  private pinchStartZoom = 1;
+
+  private respecConfirmTimer: Phaser.Time.TimerEvent | null = null;
+
+  constructor(config: TalentTreeViewConfig) {
+    this.scene = config.scene;
+    this.onUnlockNode = config.onUnlockNode;
+    this.onRespec = config.onRespec;
+
+    const width = this.scene.cameras.main.width;
+    const viewportTop = config.top + 22;
+    const viewportBottom = config.bottom - 70;
+    this.viewport = new Phaser.Geom.Rectangle(
+      10,
+      viewportTop,
+      width - 20,
+      viewportBottom - viewportTop,
+    );
+
+    this.createHeaderRow(config.top, width);
+
+    // Viewport background
+    const viewportBg = this.scene.add.rectangle(
+      this.viewport.centerX,
+      this.viewport.centerY,
+      this.viewport.width,
+      this.viewport.height,
+      0x151525,
+    );
+    viewportBg.setStrokeStyle(1, 0x333355);
+    this.elements.push(viewportBg);
+
+    // Tree content, masked to the viewport
+    this.content = this.scene.add.container(width / 2, viewportTop + 50);
+    this.lines = this.scene.add.graphics();
+    this.content.add(this.lines);
+    getAllTreeNodes().forEach((node) => this.createNode(node));
+
+    this.maskGraphics = this.scene.add.graphics();
+    this.maskGraphics.fillStyle(0xffffff);
+    this.maskGraphics.fillRect(
+      this.viewport.x,
+      this.viewport.y,
+      this.viewport.width,
+      this.viewport.height,
+    );
+    this.maskGraphics.setVisible(false);
+    this.content.setMask(this.maskGraphics.createGeometryMask());
+
+    this.createZoomButtons();
+    this.createDetailPanel(viewportBottom + 8, width);
+    this.setupInput();
+
+    this.refresh();
+  }
+
+  // ============================================
+  // Layout
+  // ============================================
+
+  private createHeaderRow(y: number, width: number): void {
+    this.pointsText = this.scene.add
+      .text(15, y, "", {
+        fontSize: "14px",
+        color: "#66ddff",
+        fontStyle: "bold",
+      })
+      .setOrigin(0, 0.5);
+    this.elements.push(this.pointsText);
+
+    this.respecText = this.scene.add
+      .text(width - 15, y, "", {
+        fontSize: "12px",
+        color: "#ffffff",
+        backgroundColor: "#663344",
+        padding: { x: 8, y: 4 },
+      })
+      .setOrigin(1, 0.5)
+      .setInteractive({ useHandCursor: true });
+    this.respecText.on("pointerdown", () => this.handleRespecTap());
+    this.elements.push(this.respecText);
+  }
+
+  private createNode(node: TalentTreeNode): void {
+    const x = (node.col - 2) * COL_SPACING;
+    const y = node.row * ROW_SPACING;
+
+    const circle = this.scene.add.circle(x, y, NODE_RADIUS, 0x2a2a3e);
+    circle.setInteractive({ useHandCursor: true });
+    circle.on("pointerup", (pointer: Phaser.Input.Pointer) => {
+      if (!this.visible || this.dragMoved || !this.viewport.contains(pointer.x, pointer.y)) return;
+      this.selectNode(node.id);
+    });
+
+    const rankText = this.scene.add
+      .text(x, y, "", {
+        fontSize: "12px",
+        color: "#ffffff",
+        fontStyle: "bold",
+      })
+      .setOrigin(0.5);
+
+    const nameText = this.scene.add
+      .text(x, y + NODE_RADIUS + 9, node.name, {
+        fontSize: "10px",
+        color: "#cccccc",
+      })
+      .setOrigin(0.5);
+
+    this.content.add([circle, rankText, nameText]);
+    this.nodeDisplays.set(node.id, { circle, rankText, nameText });
+  }
+
+  private createZoomButtons(): void {
+    const x = this.viewport.right - 20;
+    const buttons = [
+      { label: "+", y: this.viewport.bottom - 56, factor: ZOOM_STEP },
+      { label: "−", y: this.viewport.bottom - 22, factor: 1 / ZOOM_STEP },
+    ];
+
+    buttons.forEach(({ label, y, factor }) => {
+      const button = this.scene.add
+        .text(x, y, label, {
+          fontSize: "18px",
+          color: "#ffffff",
+          backgroundColor: "#333355",
+          padding: { x: 8, y: 2 },
+          fontStyle: "bold",
+        })
+        .setOrigin(0.5)
+        .setDepth(1)
+        .setInteractive({ useHandCursor: true });
+      button.on("pointerdown", () => {
+        this.setZoom(this.zoom * factor, this.viewport.centerX, this.viewport.centerY);
+      });
+      this.elements.push(button);
+    });
+  }
+
+  private createDetailPanel(y: number, width: number): void {
+    this.detailTitle = this.scene.add
+      .text(15, y, "", {
+        fontSize: "14px",
+        color: "#ffffff",
+        fontStyle: "bold",
+      })
+      .setOrigin(0, 0);
+    this.detailDescription = this.scene.add
+      .text(15, y + 20, "", {
+        fontSize: "11px",
+        color: "#aaaaaa",
+      })
+      .setOrigin(0, 0);
+    this.detailStatus = this.scene.add
+      .text(15, y + 38, "", {
+        fontSize: "11px",
+        color: "#888888",
+      })
+      .setOrigin(0, 0);
+
+    this.buyButton = this.scene.add.container(width - 55, y + 26);
+    const buyBg = this.scene.add.rectangle(0, 0, 80, 36, 0x4a9eff);
+    buyBg.setStrokeStyle(2, 0x6bb6ff);
+    buyBg.setInteractive({ useHandCursor: true });
+    buyBg.on("pointerdown", () => {
+      if (this.selectedNodeId && this.visible) {
+        this.onUnlockNode(this.selectedNodeId);
+      }
+    });
+    this.buyText = this.scene.add
+      .text(0, 0, "", {
+        fontSize: "13px",
+        color: "#ffffff",
+        fontStyle: "bold",
+        align: "center",
+      })
+      .setOrigin(0.5);
+    this.buyButton.add([buyBg, this.buyText]);
+
+    this.elements.push(this.detailTitle, this.detailDescription, this.detailStatus, this.buyButton);
+  }
+
+  // ============================================
+  // Pan and Zoom
+  // ============================================
+
+  private setupInput(): void {
+    // A second pointer for pinch zoom
+    this.scene.input.addPointer(1);
+
+    this.scene.input.on("pointerdown", this.handlePointerDown, this);
+    this.scene.input.on("pointermove", this.handlePointerMove, this);
+    this.scene.input.on("pointerup", this.handlePointerUp, this);
+    this.scene.input.on("pointerupoutside", this.handlePointerUp, this);
+    this.scene.input.on("wheel", this.handleWheel, this);
+  }
+
+  private handlePointerDown(pointer: Phaser.Input.Pointer): void {
+    if (!this.visible || !this.viewport.contains(pointer.x, pointer.y)) return;
+    this.isDragging = true;
+    this.dragMoved = false;
+    this.dragStart = { x: pointer.x, y: pointer.y };
+    this.contentStart = { x: this.content.x, y: this.content.y };
+  }
+
+  private handlePointerMove(pointer: Phaser.Input.Pointer): void {
+    if (!this.visible || !this.isDragging) return;
+
+    const { pointer1, pointer2 } = this.scene.input;
+    if (pointer1?.isDown && pointer2?.isDown) {
+      const distance = Phaser.Math.Distance.Between(pointer1.x, pointer1.y, pointer2.x, pointer2.y);
+      if (this.pinchStartDistance === 0) {
+        this.pinchStartDistance = distance;
+        this.pinchStartZoom = this.zoom;
+      } else {
+        this.setZoom(
+          (this.pinchStartZoom * distance) / this.pinchStartDistance,
+          (pointer1.x + pointer2.x) / 2,
+          (pointer1.y + pointer2.y) / 2,
+        );
+      }
+      this.dragMoved = true;
+      return;
+    }
+    this.pinchStartDistance = 0;
+
+    const dx = pointer.x - this.dragStart.x;
+    const dy = pointer.y - this.dragStart.y;
+    if (!this.dragMoved && Math.hypot(dx, dy) <= DRAG_THRESHOLD) return;
+
+    this.dragMoved = true;
+    this.setContentPosition(this.contentStart.x + dx, this.contentStart.y + dy);
+  }
+
+  private handlePointerUp(): void {
+    this.isDragging = false;
+    this.pinchStartDistance = 0;
+  }
+
+  private handleWheel(
+    pointer: Phaser.Input.Pointer,
+    _gameObjects: Phaser.GameObjects.GameObject[],
+    _deltaX: number,
+    deltaY: number,
+  ): void {
+    if (!this.visible || !this.viewport.contains(pointer.x, pointer.y)) return;
+    const factor = deltaY > 0 ? 1 / ZOOM_STEP : ZOOM_STEP;
+    this.setZoom(this.zoom * factor, pointer.x, pointer.y);
+  }
+
+  /**
+   * Zoom around a screen point, keeping the tree under it in place
+   */
+  private setZoom(zoom: number, anchorX: number, anchorY: number): void {
+    const newZoom = Phaser.Math.Clamp(zoom, MIN_ZOOM, MAX_ZOOM);
+    const localX = (anchorX - this.content.x) / this.zoom;
+    const localY = (anchorY - this.content.y) / this.zoom;
+
+    this.zoom = newZoom;
+    this.content.setScale(newZoom);
+    this.setContentPosition(anchorX - localX * newZoom, anchorY - localY * newZoom);
+  }
+
+  /**
+   * Move the tree, keeping at least PAN_MARGIN of it inside the viewport
+   */
+  private setContentPosition(x: number, y: number): void {
+    const bounds = this.getTreeBounds();
+    const minX = this.viewport.left + PAN_MARGIN - bounds.right * this.zoom;
+    const maxX = this.viewport.right - PAN_MARGIN - bounds.left * this.zoom;
+    const minY = this.viewport.top + PAN_MARGIN - bounds.bottom * this.zoom;
+    const maxY = this.viewport.bottom - PAN_MARGIN - bounds.top * this.zoom;
+
+    this.content.setPosition(Phaser.Math.Clamp(x, minX, maxX), Phaser.Math.Clamp(y, minY, maxY));
+  }
+
+  /** Tree extent in tree space, nodes and names included */
+  private getTreeBounds(): { left: number; right: number; top: number; bottom: number } {
+    const nodes = getAllTreeNodes();
+    const xs = nodes.map((node) => (node.col - 2) * COL_SPACING);
+    const ys = nodes.map((node) => node.row * ROW_SPACING);
+    return {
+      left: Math.min(...xs) - NODE_RADIUS,
+      right: Math.max(...xs) + NODE_RADIUS,
+      top: Math.min(...ys) - NODE_RADIUS,
+      bottom: Math.max(...ys) + NODE_RADIUS + 16,
+    };
+  }
+
+  // ============================================
+  // State
+  // ============================================
+
+  private selectNode(nodeId: TalentTreeNodeId): void {
+    this.selectedNodeId = nodeId;
+    this.refresh();
+  }
+
+  private handleRespecTap(): void {
+    if (!this.visible || talentManager.getTreePointsSpent() === 0) return;
+
+    // First tap arms the button, the second one respecs
+    if (!this.respecConfirmTimer) {
+      this.respecConfirmTimer = this.scene.time.delayedCall(RESPEC_CONFIRM_MS, () => {
+        this.respecConfirmTimer = null;
+        this.refresh();
+      });
+      this.refresh();
+      return;
+    }
+
+    this.respecConfirmTimer.remove();
+    this.respecConfirmTimer = null;
+    this.onRespec();
+  }
+
+  /**
+   * Redraw nodes, links, points, respec cost and the selected node's details
+   */
+  refresh(): void {
+    const points = saveManager.getTalentPoints();
+    this.pointsText.setText(`Talent Points: ${points}`);
+
+    const respecCost = talentManager.getRespecCost();
+    if (respecCost === 0) {
+      this.respecText.setText("RESPEC").setAlpha(0.4);
+    } else if (this.respecConfirmTimer) {
+      this.respecText.setText(`TAP TO CONFIRM (${respecCost}g)`).setAlpha(1);
+    } else {
+      this.respecText.setText(`RESPEC (${respecCost}g)`).setAlpha(1);
+    }
+
+    this.drawLines();
+
+    for (const node of getAllTreeNodes()) {
+      const display = this.nodeDisplays.get(node.id);
+      if (!display) continue;
+
+      const rank = talentManager.getTreeRank(node.id);
+      const blocker = talentManager.getTreeNodeBlocker(node.id);
+      const color = parseInt(BRANCH_COLORS[node.branch].replace("#", ""), 16);
+      const isLocked = rank === 0 && blocker !== null;
+      const isSelected = node.id === this.selectedNodeId;
+
+      display.circle.setFillStyle(
+        rank >= node.maxRank ? color : 0x2a2a3e,
+        rank >= node.maxRank ? 0.45 : 1,
+      );
+      display.circle.setStrokeStyle(
+        isSelected ? 4 : rank > 0 ? 3 : 2,
+        isLocked ? 0x444444 : isSelected ? 0xffffff : color,
+      );
+      display.rankText.setText(`${rank}/${node.maxRank}`);
+      display.rankText.setColor(rank > 0 ? BRANCH_COLORS[node.branch] : "#ffffff");
+
+      const alpha = isLocked ? 0.45 : 1;
+      display.circle.setAlpha(alpha);
+      display.rankText.setAlpha(alpha);
+      display.nameText.setAlpha(alpha);
+    }
+
+    this.refreshDetail(points);
+  }
+
+  private drawLines(): void {
+    this.lines.clear();
+    for (const node of getAllTreeNodes()) {
+      for (const requiredId of node.requires) {
+        const required = getTreeNode(requiredId);
+        const isActive = talentManager.getTreeRank(requiredId) > 0;
+        const color = isActive
+          ? parseInt(BRANCH_COLORS[required.branch].replace("#", ""), 16)
+          : 0x444444;
+        this.lines.lineStyle(isActive ? 3 : 2, color, isActive ? 0.9 : 0.6);
+        this.lines.lineBetween(
+          (required.col - 2) * COL_SPACING,
+          required.row * ROW_SPACING,
+          (node.col - 2) * COL_SPACING,
+          node.row * ROW_SPACING,
+        );
+      }
+    }
+  }
+
+  private refreshDetail(points: number): void {
+    if (!this.selectedNodeId) {
+      this.detailTitle.setText("Tap a talent");
+      this.detailDescription.setText("Spend talent points from hero level-ups");
+      this.detailStatus.setText("Drag to pan • pinch, wheel or +/− to zoom");
+      this.buyButton.setVisible(false);
+      return;
+    }
+
+    const node = getTreeNode(this.selectedNodeId);
+    const rank = talentManager.getTreeRank(node.id);
+    const blocker = talentManager.getTreeNodeBlocker(node.id);
+    const canAfford = points >= node.cost;
+
+    this.detailTitle.setText(`${node.name}  ${rank}/${node.maxRank}`);
+    this.detailTitle.setColor(BRANCH_COLORS[node.branch]);
+    this.detailDescription.setText(node.description);
+    if (blocker) {
+      this.detailStatus.setText(blocker).setColor(rank >= node.maxRank ? "#44ff44" : "#ff6666");
+    } else {
+      this.detailStatus
+        .setText(`Cost: ${node.cost} point${node.cost === 1 ? "" : "s"} per rank`)
+        .setColor(canAfford ? "#66ddff" : "#ff6666");
+    }
+
+    this.buyButton.setVisible(this.visible && blocker === null);
+    this.buyText.setText(`BUY\n${node.cost} pt${node.cost === 1 ? "" : "s"}`);
+    this.buyButton.setAlpha(canAfford ? 1 : 0.5);
+  }
+
+  // ============================================
+  // Lifecycle
+  // ============================================
+
+  setVisible(visible: boolean): void {
+    this.visible = visible;
+    this.isDragging = false;
+    this.content.setVisible(visible);
+    this.elements.forEach((element) => element.setVisible(visible));
+    if (visible) {
+      this.refresh();
+    }
+  }
+
+  destroy(): void {
+    this.scene.input.off("pointerdown", this.handlePointerDown, this);
+    this.scene.input.off("pointermove", this.handlePointerMove, this);
+    this.scene.input.off("pointerup", this.handlePointerUp, this);
+    this.scene.input.off("pointerupoutside", this.handlePointerUp, this);
+    this.scene.input.off("wheel", this.handleWheel, this);
+    this.respecConfirmTimer?.remove();
+    this.maskGraphics.destroy();
+    this.content.destroy();
+    this.elements.forEach((element) => element.destroy());
+  }
+}
@@ -34,3 +34,11 @@ export {
   type NavigationGridConfig,
   type NavigationGridResult,
 } from "./NavigationGrid";
+export {
+  showSeedInputModal,
+  type SeedInputModalConfig,
+  type SeedInputModalResult,
+} from "./SeedInputModal";
+export { createSeedDisplay, type SeedDisplayConfig, type SeedDisplayResult } from "./SeedDisplay";
+export { showLoadoutModal, type LoadoutModalConfig, type LoadoutModalResult } from "./LoadoutModal";
+export { TalentTreeView, type TalentTreeViewConfig } from "./TalentTreeView";